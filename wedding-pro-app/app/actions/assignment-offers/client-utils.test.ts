@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateReplyCode,
+  getOfferResponseUrl,
+  getPhoneDigits,
+  parseOfferReply
+} from './client-utils';
+
+describe('assignment offer client utils', () => {
+  describe('parseOfferReply', () => {
+    it('should read a yes or no with a reply code', () => {
+      expect(parseOfferReply('YES 4821')).toEqual({ accept: true, code: '4821' });
+      expect(parseOfferReply('no 4821')).toEqual({ accept: false, code: '4821' });
+    });
+
+    it('should read a bare yes or no', () => {
+      expect(parseOfferReply(' Yes! ')).toEqual({ accept: true, code: null });
+      expect(parseOfferReply('decline')).toEqual({ accept: false, code: null });
+      expect(parseOfferReply('Y')).toEqual({ accept: true, code: null });
+    });
+
+    it('should ignore anything else', () => {
+      expect(parseOfferReply('maybe')).toBeNull();
+      expect(parseOfferReply('yes please')).toBeNull();
+      expect(parseOfferReply('yes 12')).toBeNull();
+      expect(parseOfferReply('yes 4821 thanks')).toBeNull();
+      expect(parseOfferReply('')).toBeNull();
+    });
+  });
+
+  describe('generateReplyCode', () => {
+    it('should give a four-digit code', () => {
+      expect(generateReplyCode(new Set(), () => 0)).toBe('1000');
+      expect(generateReplyCode(new Set(), () => 0.99999)).toBe('9999');
+    });
+
+    it('should skip codes the employee already has open', () => {
+      const values = [0, 0, 0.5];
+      const random = () => values.shift() ?? 0.5;
+      expect(generateReplyCode(new Set(['1000']), random)).toBe('5500');
+    });
+  });
+
+  describe('getPhoneDigits', () => {
+    it('should match numbers however they were written', () => {
+      expect(getPhoneDigits('+1 (555) 010-2030')).toBe('5550102030');
+      expect(getPhoneDigits('555.010.2030')).toBe('5550102030');
+      expect(getPhoneDigits(null)).toBe('');
+    });
+  });
+
+  describe('getOfferResponseUrl', () => {
+    it('should build the link without a doubled slash', () => {
+      expect(getOfferResponseUrl('https://app.example.com/', 'abc')).toBe('https://app.example.com/api/assignment-offers/abc');
+    });
+  });
+});
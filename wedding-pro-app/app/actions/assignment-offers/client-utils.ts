@@ -0,0 +1,75 @@
+import type { AssignmentOfferStatus, OfferReply } from "./types";
+
+/**
+ * Hours an employee has to answer an assignment offer unless the org sets its
+ * own window
+ */
+export const DEFAULT_ASSIGNMENT_OFFER_HOURS = 24;
+
+export const ASSIGNMENT_OFFER_STATUS_LABELS: Record<AssignmentOfferStatus, string> = {
+  offered: 'Pending',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  expired: 'Expired',
+  withdrawn: 'Withdrawn'
+};
+
+const ACCEPT_WORDS = ['yes', 'y', 'accept', 'ok'];
+const DECLINE_WORDS = ['no', 'n', 'decline'];
+
+/**
+ * Read an SMS reply to an offer, e.g. "YES 4821" or "no". Returns null when
+ * it isn't a yes or no.
+ */
+export function parseOfferReply(text: string): OfferReply | null {
+  const [word, code, ...rest] = text.trim().toLowerCase().replace(/[.!]+$/, '').split(/\s+/);
+
+  if (rest.length > 0 || (code !== undefined && !/^\d{4}$/.test(code))) {
+    return null;
+  }
+
+  if (ACCEPT_WORDS.includes(word)) {
+    return { accept: true, code: code ?? null };
+  }
+  if (DECLINE_WORDS.includes(word)) {
+    return { accept: false, code: code ?? null };
+  }
+  return null;
+}
+
+/**
+ * A four-digit code for the employee to text back, not already used by one
+ * of their open offers
+ */
+export function generateReplyCode(usedCodes: Set<string>, random: () => number = Math.random): string {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const code = String(Math.floor(random() * 9000) + 1000);
+    if (!usedCodes.has(code)) {
+      return code;
+    }
+  }
+
+  // Practically unreachable; employees never have thousands of open offers
+  for (let code = 1000; code <= 9999; code++) {
+    if (!usedCodes.has(String(code))) {
+      return String(code);
+    }
+  }
+  throw new Error('No reply codes left');
+}
+
+/**
+ * The last ten digits of a phone number, so "+1 (555) 010-2030" and
+ * "5550102030" match
+ */
+export function getPhoneDigits(phoneNumber: string | null | undefined): string {
+  return (phoneNumber || '').replace(/\D/g, '').slice(-10);
+}
+
+/**
+ * The link in an offer email. It opens a page to accept or decline, so
+ * mail scanners that follow links don't answer the offer.
+ */
+export function getOfferResponseUrl(appUrl: string, token: string): string {
+  return `${appUrl.replace(/\/$/, '')}/api/assignment-offers/${token}`;
+}
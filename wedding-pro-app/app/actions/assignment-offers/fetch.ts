@@ -0,0 +1,135 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { checkManagerPermission, verifyJobOrganization } from "../jobs/utils";
+import { getStandbySlots } from "../standby/utils";
+import type { AssignmentOffer, JobAssignmentRoster, MyAssignmentOffer, PersonSummary, RosterRole } from "./types";
+
+type RosterAssignmentRow = {
+  id: string;
+  user_id: string;
+  job_required_role_id: string;
+  assigned_at: string | null;
+  profile: PersonSummary | PersonSummary[];
+};
+
+type RosterOfferRow = AssignmentOffer & { profile: PersonSummary | PersonSummary[] };
+
+function unwrap<T>(value: T | T[] | null | undefined): T | null {
+  return (Array.isArray(value) ? value[0] : value) ?? null;
+}
+
+/**
+ * Get a job's roles with who's confirmed and who still has to answer an
+ * offer, plus offers that ended without a booking (newest first). Managers only.
+ */
+export async function getJobAssignmentRoster(jobId: string): Promise<{ data?: JobAssignmentRoster; error?: string }> {
+  const supabase = await createClient();
+
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile?.org_id) {
+    return { error: permError || "Unauthorized" };
+  }
+
+  const { verified, error: verifyError } = await verifyJobOrganization(supabase, jobId, profile.org_id);
+  if (!verified) {
+    return { error: verifyError || "Job not found" };
+  }
+
+  const [
+    { data: roles, error: rolesError },
+    { data: assignments, error: assignmentsError },
+    { data: offers, error: offersError }
+  ] = await Promise.all([
+    supabase
+      .from('job_required_roles')
+      .select('id, role_name, quantity_needed, shift:shift_id ( name, start_time )')
+      .eq('job_id', jobId),
+    supabase
+      .from('job_assignments')
+      .select('id, user_id, job_required_role_id, assigned_at, profile:user_id ( full_name, email )')
+      .eq('job_id', jobId)
+      .neq('status', 'declined')
+      .order('assigned_at', { ascending: true }),
+    supabase
+      .from('job_assignment_offers')
+      .select('*, profile:user_id ( full_name, email )')
+      .eq('job_id', jobId)
+      .order('offered_at', { ascending: false })
+  ]);
+
+  if (rolesError || assignmentsError || offersError) {
+    console.error("Error fetching job roster:", rolesError || assignmentsError || offersError);
+    return { error: "Failed to fetch the job's assignments" };
+  }
+
+  const assignmentRows = (assignments || []) as RosterAssignmentRow[];
+  const offerRows = ((offers || []) as RosterOfferRow[]).map(offer => ({ ...offer, profile: unwrap(offer.profile) }));
+
+  const rosterRoles: (RosterRole & { start_time: string | null })[] = (roles || []).map((role: any) => {
+    const shift = unwrap<any>(role.shift);
+    return {
+      id: role.id,
+      role_name: role.role_name,
+      quantity_needed: role.quantity_needed,
+      shift_name: shift?.name || null,
+      start_time: shift?.start_time || null,
+      confirmed: assignmentRows
+        .filter(assignment => assignment.job_required_role_id === role.id)
+        .map(assignment => ({
+          id: assignment.id,
+          user_id: assignment.user_id,
+          assigned_at: assignment.assigned_at,
+          profile: unwrap(assignment.profile)
+        })),
+      pending: offerRows.filter(offer => offer.job_required_role_id === role.id && offer.status === 'offered')
+    };
+  });
+
+  const roster: JobAssignmentRoster = {
+    roles: rosterRoles
+      .sort((a, b) => (a.start_time || '').localeCompare(b.start_time || '') || a.role_name.localeCompare(b.role_name))
+      .map(({ start_time, ...role }) => role),
+    closedOffers: offerRows.filter(offer => offer.status !== 'offered' && offer.status !== 'accepted')
+  };
+
+  return { data: roster };
+}
+
+/**
+ * Get the current user's open assignment offers, soonest to lapse first
+ */
+export async function getMyAssignmentOffers(): Promise<{ data?: MyAssignmentOffer[]; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { error: "You must be logged in" };
+  }
+
+  const { data: offers, error } = await supabase
+    .from('job_assignment_offers')
+    .select('*')
+    .eq('user_id', user.id)
+    .eq('status', 'offered')
+    .gt('expires_at', new Date().toISOString())
+    .order('expires_at', { ascending: true });
+
+  if (error) {
+    console.error("Error fetching assignment offers:", error);
+    return { error: "Failed to fetch your job offers" };
+  }
+
+  const roleIds = Array.from(new Set<string>((offers || []).map(offer => offer.job_required_role_id)));
+  const { data: slots, error: slotsError } = await getStandbySlots(supabase, roleIds);
+
+  if (slotsError || !slots) {
+    return { error: slotsError || "Failed to fetch your job offers" };
+  }
+
+  return {
+    data: ((offers || []) as AssignmentOffer[])
+      .filter(offer => slots[offer.job_required_role_id])
+      .map(offer => ({ ...offer, slot: slots[offer.job_required_role_id] }))
+  };
+}
@@ -0,0 +1,15 @@
+"use server";
+
+// This file re-exports all public actions and types related to assignment offers.
+
+export { getJobAssignmentRoster, getMyAssignmentOffers } from './fetch';
+export {
+  respondToAssignmentOffer,
+  acceptAssignmentOffer,
+  declineAssignmentOffer,
+  withdrawAssignmentOffer,
+  updateAssignmentOfferWindow
+} from './update';
+
+// Re-export all types from the dedicated types module
+export * from './types';
@@ -0,0 +1,166 @@
+"use server";
+
+import { createNotificationService } from "@/utils/notifications/notification-service";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { getOfferResponseUrl } from "./client-utils";
+import type { AssignmentOffer, AssignmentOfferSlot } from "./types";
+
+/**
+ * e.g. `"Smith Wedding" (Reception shift) at Rose Hall on 6/14/2025 at 04:00 PM`
+ */
+function describeSlot(slot: AssignmentOfferSlot): string {
+  const start = new Date(slot.start_time);
+  const shiftLabel = slot.shift_name ? ` (${slot.shift_name} shift)` : '';
+  const venueLabel = slot.venue_name ? ` at ${slot.venue_name}` : '';
+  return `"${slot.job_title}"${shiftLabel}${venueLabel} on ${start.toLocaleDateString()} ` +
+    `at ${start.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+}
+
+function getOfferMetadata(offer: AssignmentOffer, slot: AssignmentOfferSlot) {
+  return {
+    assignmentOfferId: offer.id,
+    jobId: slot.job_id,
+    jobRequiredRoleId: slot.job_required_role_id,
+    roleName: slot.role_name,
+    shiftId: slot.shift_id,
+    shiftName: slot.shift_name,
+    startTime: slot.start_time
+  };
+}
+
+/**
+ * Offer an employee a role. They can answer in the notification center or on
+ * their schedule, from the link in the email, or by texting back YES or NO
+ * with the offer's reply code.
+ */
+export async function sendAssignmentOfferNotification(
+  supabase: SupabaseClient,
+  offer: AssignmentOffer,
+  slot: AssignmentOfferSlot,
+  appUrl: string
+) {
+  const deadline = new Date(offer.expires_at).toLocaleString();
+  const offerText = `You've been offered ${slot.role_name} on ${describeSlot(slot)}.`;
+
+  try {
+    const notificationService = createNotificationService(supabase);
+    await notificationService.sendNotificationForEvent({
+      eventType: 'assignment_offer',
+      userId: offer.user_id,
+      title: `Job Offer: ${slot.role_name}`,
+      body: `${offerText} Accept or decline by ${deadline}; you're only booked once you accept.`,
+      channelBodies: {
+        email: `<p>${offerText}</p>` +
+          `<p>You're only booked once you accept. Please answer by ${deadline}.</p>` +
+          `<p><a href="${getOfferResponseUrl(appUrl, offer.token)}">Accept or decline this offer</a></p>`,
+        sms: `${offerText} Reply YES ${offer.reply_code} to accept or NO ${offer.reply_code} to decline by ${deadline}.`
+      },
+      metadata: { ...getOfferMetadata(offer, slot), expiresAt: offer.expires_at }
+    });
+  } catch (error) {
+    console.error("Error sending assignment offer notification:", error);
+  }
+}
+
+/**
+ * Tell an employee an offer they hadn't answered was withdrawn
+ */
+export async function sendAssignmentOfferWithdrawnNotification(
+  supabase: SupabaseClient,
+  offer: AssignmentOffer,
+  slot: AssignmentOfferSlot
+) {
+  try {
+    const notificationService = createNotificationService(supabase);
+    await notificationService.sendNotificationForEvent({
+      eventType: 'assignment_offer_withdrawn',
+      userId: offer.user_id,
+      title: `Offer Withdrawn: ${slot.role_name}`,
+      body: `The offer of ${slot.role_name} on ${describeSlot(slot)} has been withdrawn. There's nothing you need to do.`,
+      metadata: getOfferMetadata(offer, slot)
+    });
+  } catch (error) {
+    console.error("Error sending assignment offer withdrawn notification:", error);
+  }
+}
+
+/**
+ * Tell an employee their offer lapsed, and the managers that the slot is open
+ */
+export async function sendAssignmentOfferExpiredNotification(
+  supabase: SupabaseClient,
+  offer: AssignmentOffer,
+  slot: AssignmentOfferSlot
+) {
+  try {
+    const notificationService = createNotificationService(supabase);
+    await notificationService.sendNotificationForEvent({
+      eventType: 'assignment_offer_expired',
+      userId: offer.user_id,
+      title: `Offer Expired: ${slot.role_name}`,
+      body: `The offer of ${slot.role_name} on ${describeSlot(slot)} wasn't answered in time, so you haven't been booked.`,
+      metadata: getOfferMetadata(offer, slot)
+    });
+  } catch (error) {
+    console.error("Error sending assignment offer expired notification:", error);
+  }
+
+  await sendAssignmentOfferClosedNotification(supabase, offer, slot);
+}
+
+/**
+ * Tell the manager who made the offer (or, failing that, the org's managers
+ * and admins) that it was accepted, declined or lapsed
+ */
+export async function sendAssignmentOfferClosedNotification(
+  supabase: SupabaseClient,
+  offer: AssignmentOffer,
+  slot: AssignmentOfferSlot
+) {
+  const { data: employee } = await supabase
+    .from('profiles')
+    .select('full_name')
+    .eq('id', offer.user_id)
+    .single();
+  const employeeName = employee?.full_name || 'An employee';
+
+  const outcome = offer.status === 'accepted'
+    ? 'accepted'
+    : offer.status === 'declined'
+    ? 'declined'
+    : "didn't answer";
+  const next = offer.status === 'accepted'
+    ? 'They are now booked.'
+    : 'The slot is open again.';
+  const via = offer.response_channel === 'email'
+    ? ' by email'
+    : offer.response_channel === 'sms'
+    ? ' by text'
+    : '';
+
+  let managerIds: string[] = offer.offered_by_user_id ? [offer.offered_by_user_id] : [];
+  if (managerIds.length === 0) {
+    const { data: managers } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('org_id', slot.org_id)
+      .in('role', ['Manager', 'Admin']);
+    managerIds = (managers || []).map(manager => manager.id);
+  }
+
+  const notificationService = createNotificationService(supabase);
+
+  for (const managerId of managerIds) {
+    try {
+      await notificationService.sendNotificationForEvent({
+        eventType: 'assignment_offer_closed',
+        userId: managerId,
+        title: `Offer ${offer.status === 'accepted' ? 'Accepted' : offer.status === 'declined' ? 'Declined' : 'Expired'}: ${slot.role_name}`,
+        body: `${employeeName} ${outcome} the ${slot.role_name} offer${via} for ${describeSlot(slot)}. ${next}`,
+        metadata: { ...getOfferMetadata(offer, slot), employeeId: offer.user_id, status: offer.status }
+      });
+    } catch (error) {
+      console.error(`Error sending assignment offer notification to manager ${managerId}:`, error);
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import type { StandbySlot } from "../standby/types";
+
+/**
+ * Where an assignment offer stands
+ */
+export type AssignmentOfferStatus = 'offered' | 'accepted' | 'declined' | 'expired' | 'withdrawn';
+
+/**
+ * How the employee answered an offer
+ */
+export type AssignmentOfferChannel = 'app' | 'email' | 'sms';
+
+/**
+ * A role offered to an employee, open until expires_at. Only an accepted
+ * offer becomes an assignment.
+ */
+export type AssignmentOffer = {
+  id: string;
+  org_id: string;
+  job_id: string;
+  shift_id: string | null;
+  job_required_role_id: string;
+  user_id: string;
+  status: AssignmentOfferStatus;
+  token: string; // Secret for the accept/decline links in the email
+  reply_code: string; // Texted back with YES or NO
+  offered_by_user_id: string | null;
+  eligibility_override_by_user_id: string | null;
+  offered_at: string;
+  expires_at: string;
+  responded_at: string | null;
+  response_channel: AssignmentOfferChannel | null;
+  job_assignment_id: string | null; // Set once accepted
+};
+
+/**
+ * The job, role and shift an offer is for
+ */
+export type AssignmentOfferSlot = StandbySlot;
+
+/**
+ * An open offer made to the current user
+ */
+export type MyAssignmentOffer = AssignmentOffer & { slot: AssignmentOfferSlot };
+
+/**
+ * What an SMS reply to an offer says
+ */
+export type OfferReply = {
+  accept: boolean;
+  code: string | null; // The offer's reply code, if they included it
+};
+
+/**
+ * The name and email of an employee on the roster
+ */
+export type PersonSummary = { full_name: string | null; email?: string | null } | null;
+
+/**
+ * Who's booked for a role and who still has to answer an offer
+ */
+export type RosterRole = {
+  id: string;
+  role_name: string;
+  quantity_needed: number;
+  shift_name: string | null;
+  confirmed: { id: string; user_id: string; assigned_at: string | null; profile: PersonSummary }[];
+  pending: (AssignmentOffer & { profile: PersonSummary })[];
+};
+
+/**
+ * A job's roles with their confirmed and pending people, and offers that
+ * ended without a booking, for managers
+ */
+export type JobAssignmentRoster = {
+  roles: RosterRole[];
+  closedOffers: (AssignmentOffer & { profile: PersonSummary })[];
+};
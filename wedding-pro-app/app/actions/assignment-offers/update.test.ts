@@ -0,0 +1,234 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { respondToAssignmentOffer, updateAssignmentOfferWindow, withdrawAssignmentOffer } from './update';
+import { createClient, createServiceRoleClient } from '@/utils/supabase/server';
+import { isAdmin } from '@/utils/supabase/auth-helpers';
+import { checkManagerPermission } from '../jobs/utils';
+import { checkBookingTurnaround } from '../job-shifts/utils';
+import { fillSlotFromStandby, getStandbySlots } from '../standby/utils';
+import { sendAssignmentOfferWithdrawnNotification } from './notifications';
+import { completeAssignmentOfferResponse } from './utils';
+
+vi.mock('@/utils/supabase/server', () => ({
+  createClient: vi.fn(),
+  createServiceRoleClient: vi.fn()
+}));
+
+vi.mock('@/utils/supabase/auth-helpers', () => ({
+  isAdmin: vi.fn()
+}));
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn()
+}));
+
+// Hand back the redirect instead of throwing, so tests can check where it went
+vi.mock('@/utils/utils', () => ({
+  encodedRedirect: vi.fn((type: string, path: string, message: string) => ({ type, path, message }))
+}));
+
+vi.mock('../jobs/utils', () => ({
+  checkManagerPermission: vi.fn()
+}));
+
+vi.mock('../job-shifts/utils', () => ({
+  checkBookingTurnaround: vi.fn()
+}));
+
+vi.mock('../standby/utils', () => ({
+  fillSlotFromStandby: vi.fn(),
+  getStandbySlots: vi.fn()
+}));
+
+vi.mock('./notifications', () => ({
+  sendAssignmentOfferWithdrawnNotification: vi.fn()
+}));
+
+vi.mock('./utils', () => ({
+  completeAssignmentOfferResponse: vi.fn()
+}));
+
+const jobPath = '/dashboard/manager/jobs/job-1';
+const organizationPath = '/dashboard/organization';
+
+const slot = {
+  org_id: 'org-1',
+  job_id: 'job-1',
+  job_title: 'Smith Wedding',
+  job_required_role_id: 'role-1',
+  role_name: 'Photographer',
+  start_time: '2025-07-12T14:00:00Z',
+  end_time: '2025-07-12T22:00:00Z',
+  venue_id: 'venue-1'
+};
+
+const formData = (values: Record<string, string>) => {
+  const data = new FormData();
+  for (const [key, value] of Object.entries(values)) {
+    data.append(key, value);
+  }
+  return data;
+};
+
+describe('assignment offer actions', () => {
+  const mockSupabase = {
+    auth: { getUser: vi.fn() },
+    rpc: vi.fn(),
+    from: vi.fn(),
+    select: vi.fn(),
+    update: vi.fn(),
+    eq: vi.fn(),
+    single: vi.fn()
+  };
+  const mockServiceSupabase = {};
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (createClient as any).mockResolvedValue(mockSupabase);
+    (createServiceRoleClient as any).mockReturnValue(mockServiceSupabase);
+    mockSupabase.from.mockReturnValue(mockSupabase);
+    mockSupabase.select.mockReturnValue(mockSupabase);
+    mockSupabase.update.mockReturnValue(mockSupabase);
+    mockSupabase.eq.mockReturnValue(mockSupabase);
+
+    mockSupabase.auth.getUser.mockResolvedValue({ data: { user: { id: 'employee' } } });
+    mockSupabase.single.mockResolvedValue({ data: { job_required_role_id: 'role-1' }, error: null });
+    (getStandbySlots as any).mockResolvedValue({ data: { 'role-1': slot } });
+    (checkBookingTurnaround as any).mockResolvedValue({ data: null });
+    (fillSlotFromStandby as any).mockResolvedValue({});
+    (checkManagerPermission as any).mockResolvedValue({
+      authorized: true,
+      user: { id: 'manager' },
+      profile: { org_id: 'org-1' }
+    });
+  });
+
+  describe('respondToAssignmentOffer', () => {
+    it('should require the employee to be logged in', async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: null } });
+
+      const result = await respondToAssignmentOffer('offer-1', true);
+
+      expect(result).toEqual({ success: false, error: 'You must be logged in' });
+    });
+
+    it('should not answer an offer made to someone else', async () => {
+      mockSupabase.single.mockResolvedValue({ data: null, error: null });
+
+      const result = await respondToAssignmentOffer('offer-1', true);
+
+      expect(mockSupabase.eq).toHaveBeenCalledWith('user_id', 'employee');
+      expect(result).toEqual({ success: false, error: 'Offer not found' });
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a shift that clashes with a booking made since the offer', async () => {
+      (checkBookingTurnaround as any).mockResolvedValue({
+        data: { severity: 'conflict', message: 'Time conflict with another job' }
+      });
+
+      const result = await respondToAssignmentOffer('offer-1', true);
+
+      expect(result).toEqual({ success: false, error: "You can't make this shift: Time conflict with another job" });
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should pass on the error when the offer can no longer be answered', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { message: 'This offer has been withdrawn' } });
+
+      const result = await respondToAssignmentOffer('offer-1', true);
+
+      expect(result).toEqual({ success: false, error: 'This offer has been withdrawn' });
+      expect(completeAssignmentOfferResponse).not.toHaveBeenCalled();
+    });
+
+    it('should book the employee and finish with the service role', async () => {
+      const offer = { id: 'offer-1', job_required_role_id: 'role-1', status: 'accepted' };
+      mockSupabase.rpc.mockResolvedValue({ data: offer, error: null });
+
+      const result = await respondToAssignmentOffer('offer-1', true);
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('respond_to_assignment_offer', { p_offer_id: 'offer-1', p_accept: true });
+      expect(completeAssignmentOfferResponse).toHaveBeenCalledWith(mockServiceSupabase, offer, slot);
+      expect(result).toEqual({ success: true, message: "You're booked as Photographer" });
+    });
+
+    it('should decline without checking the employee can make the shift', async () => {
+      const offer = { id: 'offer-1', job_required_role_id: 'role-1', status: 'declined' };
+      mockSupabase.rpc.mockResolvedValue({ data: offer, error: null });
+
+      const result = await respondToAssignmentOffer('offer-1', false);
+
+      expect(checkBookingTurnaround).not.toHaveBeenCalled();
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('respond_to_assignment_offer', { p_offer_id: 'offer-1', p_accept: false });
+      expect(completeAssignmentOfferResponse).toHaveBeenCalledWith(mockServiceSupabase, offer, slot);
+      expect(result).toEqual({ success: true, message: 'Offer declined' });
+    });
+  });
+
+  describe('withdrawAssignmentOffer', () => {
+    it('should only withdraw an offer that has not been answered', async () => {
+      mockSupabase.single.mockResolvedValue({ data: null, error: null });
+
+      const result = await withdrawAssignmentOffer(formData({ jobId: 'job-1', offerId: 'offer-1' }));
+
+      expect(mockSupabase.eq).toHaveBeenCalledWith('status', 'offered');
+      expect(mockSupabase.eq).toHaveBeenCalledWith('org_id', 'org-1');
+      expect(result).toEqual({
+        type: 'error',
+        path: jobPath,
+        message: 'The offer has already been answered or has expired'
+      });
+      expect(fillSlotFromStandby).not.toHaveBeenCalled();
+    });
+
+    it('should tell the employee and offer the slot to standby', async () => {
+      const offer = { id: 'offer-1', job_required_role_id: 'role-1', status: 'withdrawn' };
+      mockSupabase.single.mockResolvedValue({ data: offer, error: null });
+
+      const result = await withdrawAssignmentOffer(formData({ jobId: 'job-1', offerId: 'offer-1' }));
+
+      expect(sendAssignmentOfferWithdrawnNotification).toHaveBeenCalledWith(mockSupabase, offer, slot);
+      expect(fillSlotFromStandby).toHaveBeenCalledWith(mockSupabase, 'role-1', {
+        reason: 'Assignment offer withdrawn',
+        actorUserId: 'manager'
+      });
+      expect(result).toEqual({ type: 'success', path: jobPath, message: 'Offer withdrawn' });
+    });
+  });
+
+  describe('updateAssignmentOfferWindow', () => {
+    beforeEach(() => {
+      (isAdmin as any).mockResolvedValue(true);
+    });
+
+    it('should only let admins change the window', async () => {
+      (isAdmin as any).mockResolvedValue(false);
+
+      const result = await updateAssignmentOfferWindow(formData({ assignment_offer_hours: '24' }));
+
+      expect(result).toEqual({
+        type: 'error',
+        path: organizationPath,
+        message: 'Only admins can change the assignment offer window'
+      });
+      expect(mockSupabase.update).not.toHaveBeenCalled();
+    });
+
+    it('should require at least one hour', async () => {
+      const result = await updateAssignmentOfferWindow(formData({ assignment_offer_hours: '0' }));
+
+      expect(result).toMatchObject({ type: 'error', path: organizationPath });
+      expect(mockSupabase.update).not.toHaveBeenCalled();
+    });
+
+    it('should save the window for the organization', async () => {
+      mockSupabase.eq.mockResolvedValue({ error: null });
+
+      const result = await updateAssignmentOfferWindow(formData({ assignment_offer_hours: '24' }));
+
+      expect(mockSupabase.update).toHaveBeenCalledWith({ assignment_offer_hours: 24 });
+      expect(mockSupabase.eq).toHaveBeenCalledWith('id', 'org-1');
+      expect(result).toEqual({ type: 'success', path: organizationPath, message: 'Assignment offer window updated' });
+    });
+  });
+});
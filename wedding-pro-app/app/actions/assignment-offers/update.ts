@@ -0,0 +1,209 @@
+"use server";
+
+import { createClient, createServiceRoleClient } from "@/utils/supabase/server";
+import { isAdmin } from "@/utils/supabase/auth-helpers";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { checkManagerPermission } from "../jobs/utils";
+import { checkBookingTurnaround } from "../job-shifts/utils";
+import { fillSlotFromStandby, getStandbySlots } from "../standby/utils";
+import { sendAssignmentOfferWithdrawnNotification } from "./notifications";
+import { completeAssignmentOfferResponse } from "./utils";
+import type { AssignmentOffer } from "./types";
+
+const schedulePath = "/dashboard/employee/schedule";
+
+/**
+ * Accept or decline one of the current user's offers, from the notification
+ * center or their schedule. Accepting books them through the
+ * respond_to_assignment_offer database function if the slot is still free
+ * and they can make it; declining reopens the slot.
+ */
+export async function respondToAssignmentOffer(
+  offerId: string,
+  accept: boolean
+): Promise<{ success: boolean; message?: string; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { success: false, error: "You must be logged in" };
+  }
+
+  const { data: pending } = await supabase
+    .from('job_assignment_offers')
+    .select('job_required_role_id')
+    .eq('id', offerId)
+    .eq('user_id', user.id)
+    .single();
+
+  if (!pending) {
+    return { success: false, error: "Offer not found" };
+  }
+
+  const { data: slots } = await getStandbySlots(supabase, [pending.job_required_role_id]);
+  const slot = slots?.[pending.job_required_role_id];
+  if (!slot) {
+    return { success: false, error: "Offer not found" };
+  }
+
+  // Bookings made since the offer may clash with it
+  let tightTurnaround: string | null = null;
+  if (accept) {
+    const { data: turnaround } = await checkBookingTurnaround(
+      supabase,
+      slot.org_id,
+      user.id,
+      { job_id: slot.job_id, start_time: slot.start_time, end_time: slot.end_time, venue_id: slot.venue_id }
+    );
+
+    if (turnaround?.severity === 'conflict') {
+      return { success: false, error: `You can't make this shift: ${turnaround.message}` };
+    }
+    tightTurnaround = turnaround?.severity === 'tight' ? turnaround.message : null;
+  }
+
+  const { data: offer, error } = await supabase.rpc('respond_to_assignment_offer', {
+    p_offer_id: offerId,
+    p_accept: accept
+  });
+
+  if (error || !offer) {
+    console.error("Error answering assignment offer:", error);
+    return { success: false, error: error?.message || "Failed to answer the offer" };
+  }
+
+  // Employees can't update jobs, read their managers or offer slots to others
+  await completeAssignmentOfferResponse(createServiceRoleClient(), offer as AssignmentOffer, slot);
+
+  revalidatePath(schedulePath);
+  revalidatePath(`/dashboard/manager/jobs/${slot.job_id}`);
+
+  if (!accept) {
+    return { success: true, message: "Offer declined" };
+  }
+  return {
+    success: true,
+    message: tightTurnaround
+      ? `You're booked as ${slot.role_name}. ${tightTurnaround}`
+      : `You're booked as ${slot.role_name}`
+  };
+}
+
+/**
+ * Accept an offer from the schedule page
+ */
+export async function acceptAssignmentOffer(formData: FormData) {
+  const offerId = formData.get("offerId")?.toString();
+  if (!offerId) {
+    return encodedRedirect("error", schedulePath, "Offer is required");
+  }
+
+  const { success, message, error } = await respondToAssignmentOffer(offerId, true);
+  return encodedRedirect(success ? "success" : "error", schedulePath, (success ? message : error) || "Failed to accept the offer");
+}
+
+/**
+ * Decline an offer from the schedule page
+ */
+export async function declineAssignmentOffer(formData: FormData) {
+  const offerId = formData.get("offerId")?.toString();
+  if (!offerId) {
+    return encodedRedirect("error", schedulePath, "Offer is required");
+  }
+
+  const { success, message, error } = await respondToAssignmentOffer(offerId, false);
+  return encodedRedirect(success ? "success" : "error", schedulePath, (success ? message : error) || "Failed to decline the offer");
+}
+
+/**
+ * Withdraw an offer the employee hasn't answered. The slot is free to assign
+ * again, and goes to the role's standby list if it has one.
+ */
+export async function withdrawAssignmentOffer(formData: FormData) {
+  const supabase = await createClient();
+
+  const jobId = formData.get("jobId")?.toString();
+  const offerId = formData.get("offerId")?.toString();
+  const jobPath = `/dashboard/manager/jobs/${jobId}`;
+
+  // Check permissions
+  const { authorized, user, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !user || !profile?.org_id) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized or profile missing");
+  }
+
+  if (!jobId || !offerId) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", "Offer is required");
+  }
+
+  const { data: offer, error } = await supabase
+    .from('job_assignment_offers')
+    .update({ status: 'withdrawn', responded_at: new Date().toISOString() })
+    .eq('id', offerId)
+    .eq('job_id', jobId)
+    .eq('org_id', profile.org_id)
+    .eq('status', 'offered')
+    .select()
+    .single();
+
+  if (error || !offer) {
+    console.error("Error withdrawing assignment offer:", error);
+    return encodedRedirect("error", jobPath, "The offer has already been answered or has expired");
+  }
+
+  const { data: slots } = await getStandbySlots(supabase, [offer.job_required_role_id]);
+  const slot = slots?.[offer.job_required_role_id];
+  if (slot) {
+    await sendAssignmentOfferWithdrawnNotification(supabase, offer as AssignmentOffer, slot);
+  }
+
+  const { error: standbyError } = await fillSlotFromStandby(supabase, offer.job_required_role_id, {
+    reason: 'Assignment offer withdrawn',
+    actorUserId: user.id
+  });
+
+  if (standbyError) {
+    console.error("Error offering the slot to standby:", standbyError);
+  }
+
+  revalidatePath(jobPath);
+  return encodedRedirect("success", jobPath, "Offer withdrawn");
+}
+
+/**
+ * Set how many hours employees have to answer an assignment offer
+ */
+export async function updateAssignmentOfferWindow(formData: FormData) {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile?.org_id) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized or profile missing");
+  }
+
+  // Org-wide settings are admin-only, like the organization page
+  if (!await isAdmin()) {
+    return encodedRedirect("error", "/dashboard/organization", "Only admins can change the assignment offer window");
+  }
+
+  const hours = Number(formData.get("assignment_offer_hours"));
+
+  if (!Number.isInteger(hours) || hours < 1) {
+    return encodedRedirect("error", "/dashboard/organization", "Offer window must be a whole number of hours, at least 1");
+  }
+
+  const { error } = await supabase
+    .from('orgs')
+    .update({ assignment_offer_hours: hours })
+    .eq('id', profile.org_id);
+
+  if (error) {
+    console.error("Error updating assignment offer window:", error);
+    return encodedRedirect("error", "/dashboard/organization", error.message);
+  }
+
+  revalidatePath('/dashboard/organization');
+  return encodedRedirect("success", "/dashboard/organization", "Assignment offer window updated");
+}
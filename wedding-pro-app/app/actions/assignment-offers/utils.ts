@@ -0,0 +1,292 @@
+"use server";
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { updateJobStatusIfAllRolesFilled } from "@/utils/job-assignment-helpers";
+import { checkBookingTurnaround } from "../job-shifts/utils";
+import { getOfferExpiry } from "../standby/client-utils";
+import { fillSlotFromStandby, getStandbySlots } from "../standby/utils";
+import { DEFAULT_ASSIGNMENT_OFFER_HOURS, generateReplyCode, getPhoneDigits } from "./client-utils";
+import {
+  sendAssignmentOfferClosedNotification,
+  sendAssignmentOfferExpiredNotification,
+  sendAssignmentOfferNotification
+} from "./notifications";
+import type { AssignmentOffer, AssignmentOfferChannel, AssignmentOfferSlot } from "./types";
+
+/**
+ * Get the hours an org gives employees to answer an assignment offer.
+ * Falls back to the default if it can't be read.
+ */
+export async function getAssignmentOfferHours(supabase: SupabaseClient, orgId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('orgs')
+    .select('assignment_offer_hours')
+    .eq('id', orgId)
+    .single();
+
+  if (error || !data) {
+    console.error("Error fetching assignment offer window:", error);
+    return DEFAULT_ASSIGNMENT_OFFER_HOURS;
+  }
+
+  return data.assignment_offer_hours ?? DEFAULT_ASSIGNMENT_OFFER_HOURS;
+}
+
+/**
+ * Count each role's open offers, keyed by role ID. Open offers hold their
+ * slots, so capacity checks count them alongside assignments.
+ */
+export async function countOpenAssignmentOffers(
+  supabase: SupabaseClient,
+  jobRequiredRoleIds: string[]
+): Promise<{ data?: Record<string, number>; error?: string }> {
+  if (jobRequiredRoleIds.length === 0) {
+    return { data: {} };
+  }
+
+  const { data, error } = await supabase
+    .from('job_assignment_offers')
+    .select('job_required_role_id')
+    .in('job_required_role_id', jobRequiredRoleIds)
+    .eq('status', 'offered');
+
+  if (error) {
+    console.error("Error counting assignment offers:", error);
+    return { error: "Failed to check open offers" };
+  }
+
+  const counts: Record<string, number> = {};
+  for (const offer of data || []) {
+    counts[offer.job_required_role_id] = (counts[offer.job_required_role_id] || 0) + 1;
+  }
+  return { data: counts };
+}
+
+/**
+ * Offer an employee a role and send them the offer. The caller checks
+ * capacity, eligibility and conflicts first, as it would for an assignment.
+ */
+export async function createAssignmentOffer(
+  supabase: SupabaseClient,
+  slot: AssignmentOfferSlot,
+  options: {
+    userId: string;
+    offeredByUserId: string;
+    eligibilityOverride: boolean;
+    appUrl: string;
+    now?: Date;
+  }
+): Promise<{ data?: AssignmentOffer; error?: string }> {
+  const now = options.now || new Date();
+
+  const [offerHours, { data: openOffers }] = await Promise.all([
+    getAssignmentOfferHours(supabase, slot.org_id),
+    supabase
+      .from('job_assignment_offers')
+      .select('reply_code')
+      .eq('user_id', options.userId)
+      .eq('status', 'offered')
+  ]);
+
+  const { data: offer, error } = await supabase
+    .from('job_assignment_offers')
+    .insert({
+      org_id: slot.org_id,
+      job_id: slot.job_id,
+      shift_id: slot.shift_id,
+      job_required_role_id: slot.job_required_role_id,
+      user_id: options.userId,
+      reply_code: generateReplyCode(new Set((openOffers || []).map(open => open.reply_code))),
+      offered_by_user_id: options.offeredByUserId,
+      eligibility_override_by_user_id: options.eligibilityOverride ? options.offeredByUserId : null,
+      offered_at: now.toISOString(),
+      expires_at: getOfferExpiry(now, offerHours, slot.start_time).toISOString()
+    })
+    .select()
+    .single();
+
+  if (error || !offer) {
+    console.error("Error creating assignment offer:", error);
+    return {
+      error: error?.code === '23505'
+        ? "This employee already has an open offer for this role"
+        : "Failed to send the offer"
+    };
+  }
+
+  await sendAssignmentOfferNotification(supabase, offer as AssignmentOffer, slot, options.appUrl);
+
+  return { data: offer as AssignmentOffer };
+}
+
+/**
+ * Follow up on an answered offer: an acceptance may fill the job, and a
+ * decline reopens the slot, which goes to the role's standby list if it has
+ * one. Either way the manager is told. Needs the service role, as employees
+ * can't update jobs or read other employees.
+ */
+export async function completeAssignmentOfferResponse(
+  serviceSupabase: SupabaseClient,
+  offer: AssignmentOffer,
+  slot: AssignmentOfferSlot
+): Promise<void> {
+  if (offer.status === 'accepted') {
+    await updateJobStatusIfAllRolesFilled(slot.job_id, { supabase: serviceSupabase, changedByUserId: offer.user_id });
+  }
+
+  await sendAssignmentOfferClosedNotification(serviceSupabase, offer, slot);
+
+  if (offer.status === 'declined') {
+    const { error } = await fillSlotFromStandby(serviceSupabase, slot.job_required_role_id, {
+      reason: 'Assignment offer declined'
+    });
+
+    if (error) {
+      console.error("Error offering the declined slot to standby:", error);
+    }
+  }
+}
+
+/**
+ * Answer an offer on an employee's behalf, from an email link or SMS reply,
+ * and follow up as for an answer in the app. An acceptance that clashes with
+ * a booking made since the offer is refused.
+ */
+export async function respondToAssignmentOfferFor(
+  serviceSupabase: SupabaseClient,
+  offer: Pick<AssignmentOffer, 'id' | 'user_id' | 'job_required_role_id'>,
+  accept: boolean,
+  channel: AssignmentOfferChannel
+): Promise<{ data?: { offer: AssignmentOffer; slot: AssignmentOfferSlot }; error?: string }> {
+  const { data: slots } = await getStandbySlots(serviceSupabase, [offer.job_required_role_id]);
+  const slot = slots?.[offer.job_required_role_id];
+  if (!slot) {
+    return { error: "Offer not found" };
+  }
+
+  if (accept) {
+    const { data: turnaround } = await checkBookingTurnaround(
+      serviceSupabase,
+      slot.org_id,
+      offer.user_id,
+      { job_id: slot.job_id, start_time: slot.start_time, end_time: slot.end_time, venue_id: slot.venue_id }
+    );
+
+    if (turnaround?.severity === 'conflict') {
+      return { error: `You can't make this shift: ${turnaround.message}` };
+    }
+  }
+
+  const { data: answered, error } = await serviceSupabase.rpc('internal_respond_to_assignment_offer', {
+    p_offer_id: offer.id,
+    p_user_id: offer.user_id,
+    p_accept: accept,
+    p_channel: channel
+  });
+
+  if (error || !answered) {
+    console.error("Error answering assignment offer:", error);
+    return { error: error?.message || "Failed to answer the offer" };
+  }
+
+  await completeAssignmentOfferResponse(serviceSupabase, answered as AssignmentOffer, slot);
+
+  return { data: { offer: answered as AssignmentOffer, slot } };
+}
+
+/**
+ * Find the open offer an SMS reply is about. The reply code picks between
+ * offers; without one, it only matches if the sender has a single open offer.
+ */
+export async function findOfferForReply(
+  serviceSupabase: SupabaseClient,
+  fromNumber: string,
+  code: string | null
+): Promise<{ data?: AssignmentOffer; error?: string }> {
+  const digits = getPhoneDigits(fromNumber);
+  if (digits.length < 10) {
+    return { error: "We couldn't tell who this is from." };
+  }
+
+  const { data: offers, error } = await serviceSupabase
+    .from('job_assignment_offers')
+    .select('*, profile:user_id ( phone_number )')
+    .eq('status', 'offered')
+    .gt('expires_at', new Date().toISOString());
+
+  if (error) {
+    console.error("Error looking up offers for SMS reply:", error);
+    return { error: "Something went wrong. Please answer in the app." };
+  }
+
+  const senderOffers = (offers || []).filter((offer: any) => {
+    const profile = Array.isArray(offer.profile) ? offer.profile[0] : offer.profile;
+    return getPhoneDigits(profile?.phone_number) === digits;
+  });
+
+  if (senderOffers.length === 0) {
+    return { error: "You don't have any open job offers." };
+  }
+
+  if (code) {
+    const match = senderOffers.find(offer => offer.reply_code === code);
+    return match
+      ? { data: match as AssignmentOffer }
+      : { error: `No open offer has the code ${code}. Check the code in the offer text.` };
+  }
+
+  if (senderOffers.length > 1) {
+    return { error: "You have more than one open offer. Reply YES or NO with the code from the offer, e.g. YES 1234." };
+  }
+
+  return { data: senderOffers[0] as AssignmentOffer };
+}
+
+/**
+ * Expire offers nobody answered in time, tell the employee and manager, and
+ * offer each freed slot to the role's standby list. Running this often is safe.
+ */
+export async function expireAssignmentOffers(
+  supabase: SupabaseClient,
+  options: { now?: Date } = {}
+): Promise<{ expired: number; error?: string }> {
+  const now = options.now || new Date();
+
+  const { data: offers, error } = await supabase
+    .from('job_assignment_offers')
+    .update({ status: 'expired', responded_at: now.toISOString() })
+    .eq('status', 'offered')
+    .lte('expires_at', now.toISOString())
+    .select();
+
+  if (error) {
+    console.error("Error expiring assignment offers:", error);
+    return { expired: 0, error: "Failed to expire assignment offers" };
+  }
+
+  if (!offers || offers.length === 0) {
+    return { expired: 0 };
+  }
+
+  const roleIds = Array.from(new Set<string>(offers.map(offer => offer.job_required_role_id)));
+  const { data: slots } = await getStandbySlots(supabase, roleIds);
+
+  for (const offer of offers as AssignmentOffer[]) {
+    const slot = slots?.[offer.job_required_role_id];
+    if (!slot) continue;
+
+    await sendAssignmentOfferExpiredNotification(supabase, offer, slot);
+  }
+
+  for (const roleId of roleIds) {
+    const { error: standbyError } = await fillSlotFromStandby(supabase, roleId, {
+      reason: 'Assignment offer expired'
+    });
+
+    if (standbyError) {
+      console.error(`Error offering role ${roleId} to standby:`, standbyError);
+    }
+  }
+
+  return { expired: offers.length };
+}
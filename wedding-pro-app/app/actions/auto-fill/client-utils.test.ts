@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildAutoFillPlan,
+  getAutoFillFieldName,
+  getExclusionReason,
+  getUpcomingWeekend,
+  parseAutoFillFieldName,
+  scoreCandidate,
+  validateAutoFillRange
+} from './client-utils';
+import type { AutoFillCandidate, AutoFillOptions, AutoFillSlot } from './types';
+
+const now = new Date('2025-06-20T12:00:00Z');
+const options: AutoFillOptions = { includeNotInterested: false, maxDistanceMiles: null };
+
+function makeSlot(overrides: Partial<AutoFillSlot> = {}): AutoFillSlot {
+  return {
+    key: 'role-1:1',
+    job_id: 'job-1',
+    job_title: 'Smith Wedding',
+    job_required_role_id: 'role-1',
+    role_name: 'Server',
+    position: 1,
+    shift_id: null,
+    shift_name: null,
+    start_time: '2025-06-21T16:00:00Z',
+    end_time: '2025-06-21T23:00:00Z',
+    venue_id: 'venue-1',
+    venue_name: 'Lakeside Barn',
+    ...overrides
+  };
+}
+
+function makeCandidate(overrides: Partial<AutoFillCandidate> = {}): AutoFillCandidate {
+  return {
+    user_id: 'user-1',
+    full_name: 'Alex',
+    email: null,
+    interests: [{ job_id: 'job-1', shift_id: null, roles: [] }],
+    distances: { 'venue-1': 5 },
+    last_assignment_date: null,
+    recent_assignment_count: 0,
+    booked: [],
+    ineligible_roles: {},
+    availability: { weekly: [], blackouts: [] },
+    ...overrides
+  };
+}
+
+describe('auto-fill client utils', () => {
+  describe('scoreCandidate', () => {
+    it('should give full marks to an interested, rested, nearby employee', () => {
+      const result = scoreCandidate(makeCandidate(), makeSlot(), 0, options, now);
+
+      expect(result.score).toBe(100);
+      expect(result.factors.map(f => [f.key, f.points])).toEqual([
+        ['interest', 40],
+        ['fairness', 30],
+        ['workload', 15],
+        ['distance', 15],
+      ]);
+    });
+
+    it('should explain lower scores for recent work, busy schedules and long drives', () => {
+      const result = scoreCandidate(
+        makeCandidate({
+          interests: [],
+          last_assignment_date: '2025-06-05T12:00:00Z',
+          recent_assignment_count: 2,
+          distances: { 'venue-1': 55 }
+        }),
+        makeSlot(),
+        1,
+        options,
+        now
+      );
+
+      expect(result.factors.find(f => f.key === 'fairness')).toMatchObject({ points: 15, detail: 'Last worked 15 days ago' });
+      expect(result.factors.find(f => f.key === 'workload')).toMatchObject({ points: 0, detail: '2 recent or upcoming, 1 more in this plan' });
+      expect(result.factors.find(f => f.key === 'distance')?.points).toBe(8);
+      expect(result.score).toBe(23);
+    });
+
+    it('should prefer employees who picked the role first', () => {
+      const roles = [
+        { job_required_role_id: 'role-2', preference_rank: 1 },
+        { job_required_role_id: 'role-1', preference_rank: 2 },
+      ];
+      const candidate = makeCandidate({ interests: [{ job_id: 'job-1', shift_id: null, roles }] });
+
+      expect(scoreCandidate(candidate, makeSlot(), 0, options, now).factors[0])
+        .toMatchObject({ points: 35, detail: 'Wants this role (2nd choice)' });
+      expect(getExclusionReason(candidate, makeSlot({ job_required_role_id: 'role-3' }), [], options))
+        .toBe('Has not expressed interest');
+    });
+  });
+
+  describe('getExclusionReason', () => {
+    it('should leave out conflicts, far-away and uninterested employees', () => {
+      const slot = makeSlot();
+      const booked = [{
+        assignment_id: 'a1',
+        job_id: 'job-2',
+        shift_id: null,
+        start_time: '2025-06-21T20:00:00Z',
+        end_time: '2025-06-22T01:00:00Z'
+      }];
+
+      expect(getExclusionReason(makeCandidate(), slot, [], options)).toBeNull();
+      expect(getExclusionReason(makeCandidate({ booked }), slot, [], options))
+        .toBe('Booked on another job at the same time');
+      expect(getExclusionReason(makeCandidate(), slot, booked, options))
+        .toBe('Proposed for another slot at the same time');
+      expect(getExclusionReason(makeCandidate({ booked: [{ ...booked[0], job_id: 'job-1' }] }), slot, [], options))
+        .toBe('Already on this job');
+      expect(getExclusionReason(makeCandidate({ ineligible_roles: { 'role-1': ['Needs FAA Part 107'] } }), slot, [], options))
+        .toBe('Not eligible: Needs FAA Part 107');
+      expect(getExclusionReason(
+        makeCandidate({ availability: { weekly: [], blackouts: [{ start_date: '2025-06-21', end_date: '2025-06-22', reason: null }] } }),
+        slot,
+        [],
+        options
+      )).toBe('Outside availability: Away Jun 21 – Jun 22');
+      expect(getExclusionReason(makeCandidate({ interests: [] }), slot, [], options))
+        .toBe('Has not expressed interest');
+      expect(getExclusionReason(makeCandidate({ interests: [] }), slot, [], { ...options, includeNotInterested: true }))
+        .toBeNull();
+      expect(getExclusionReason(makeCandidate({ distances: { 'venue-1': 42 } }), slot, [], { ...options, maxDistanceMiles: 30 }))
+        .toBe('42 mi from the venue, over the 30 mi limit');
+    });
+  });
+
+  describe('buildAutoFillPlan', () => {
+    it('should spread overlapping slots across employees and fill scarce slots first', () => {
+      const slots = [
+        makeSlot({ key: 'role-1:1' }),
+        makeSlot({ key: 'role-1:2', position: 2 }),
+        makeSlot({ key: 'role-2:1', job_required_role_id: 'role-2', role_name: 'Lead', shift_id: 'shift-1' }),
+      ];
+      const candidates = [
+        makeCandidate({ user_id: 'alex', full_name: 'Alex', interests: [{ job_id: 'job-1', shift_id: null, roles: [] }] }),
+        makeCandidate({ user_id: 'blake', full_name: 'Blake', interests: [{ job_id: 'job-1', shift_id: 'shift-1', roles: [] }], recent_assignment_count: 1 }),
+        makeCandidate({ user_id: 'casey', full_name: 'Casey', interests: [{ job_id: 'job-1', shift_id: null, roles: [] }], recent_assignment_count: 2 }),
+      ];
+
+      const plan = buildAutoFillPlan(slots, candidates, options, now);
+
+      expect(plan.job_count).toBe(1);
+      expect(plan.slots.map(s => [s.slot.key, s.proposed_user_id])).toEqual([
+        ['role-1:1', 'alex'],
+        ['role-1:2', 'casey'],
+        ['role-2:1', 'blake'],
+      ]);
+      expect(plan.slots[1].excluded).toEqual(
+        expect.arrayContaining([
+          { user_id: 'alex', full_name: 'Alex', reason: 'Proposed for another slot at the same time' },
+          { user_id: 'blake', full_name: 'Blake', reason: 'Has not expressed interest' },
+        ])
+      );
+    });
+
+    it('should leave a slot open when nobody is eligible', () => {
+      const plan = buildAutoFillPlan([makeSlot()], [makeCandidate({ interests: [] })], options, now);
+
+      expect(plan.slots[0].proposed_user_id).toBeNull();
+      expect(plan.slots[0].candidates).toEqual([]);
+    });
+  });
+
+  describe('ranges and form fields', () => {
+    it('should find the coming weekend and limit ranges to a week', () => {
+      expect(getUpcomingWeekend(new Date(2025, 5, 17))).toEqual({ from: '2025-06-20', to: '2025-06-22' });
+      expect(getUpcomingWeekend(new Date(2025, 5, 22))).toEqual({ from: '2025-06-20', to: '2025-06-22' });
+
+      expect(validateAutoFillRange('2025-06-20', '2025-06-22')).toBeNull();
+      expect(validateAutoFillRange('2025-06-22', '2025-06-20')).toBe('The end date must be on or after the start date');
+      expect(validateAutoFillRange('2025-06-01', '2025-06-08')).toBe('Auto-fill can plan at most 7 days at a time');
+      expect(validateAutoFillRange('', '2025-06-08')).toBe('Choose a start and end date');
+    });
+
+    it('should round-trip slot field names', () => {
+      const name = getAutoFillFieldName({ job_id: 'job-1', job_required_role_id: 'role-1', position: 2 });
+
+      expect(parseAutoFillFieldName(name)).toEqual({ jobId: 'job-1', jobRequiredRoleId: 'role-1', position: 2 });
+      expect(parseAutoFillFieldName('scopeJobId')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,315 @@
+import { findConflictingWindow } from "../job-shifts/client-utils";
+import { formatPreferenceRank, getRolePreferenceRank, wantsRole } from "../job-interests/client-utils";
+import { getAvailabilityConflict } from "../availability/client-utils";
+import type { BookedWindow } from "../job-shifts/types";
+import type {
+  AutoFillCandidate,
+  AutoFillCandidateScore,
+  AutoFillFactor,
+  AutoFillOptions,
+  AutoFillPlan,
+  AutoFillSlot,
+  AutoFillSlotPlan
+} from "./types";
+
+/**
+ * How many of the 100 points each factor is worth
+ */
+export const AUTO_FILL_WEIGHTS = {
+  interest: 40,
+  fairness: 30,
+  workload: 15,
+  distance: 15
+} as const;
+
+/**
+ * The longest date range a single plan can cover
+ */
+export const MAX_AUTO_FILL_RANGE_DAYS = 7;
+
+// Days without a completed job after which an employee gets full fairness points
+const FAIRNESS_FULL_DAYS = 30;
+
+// Miles within which an employee gets full distance points
+const DISTANCE_FULL_MILES = 10;
+
+// Distance at which an employee gets no distance points, when no maximum is set
+const DISTANCE_ZERO_MILES = 100;
+
+// Workload points lost for each assignment already booked or proposed
+const WORKLOAD_STEP = 5;
+
+// Interest points lost for each place a role is below an employee's first choice
+const PREFERENCE_STEP = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function findSlotInterest(candidate: AutoFillCandidate, slot: AutoFillSlot) {
+  return candidate.interests.find(
+    interest =>
+      interest.job_id === slot.job_id &&
+      (!interest.shift_id || interest.shift_id === slot.shift_id) &&
+      wantsRole(interest.roles, slot.job_required_role_id)
+  );
+}
+
+/**
+ * Whether the candidate has said they want this slot: interest in the whole
+ * job or the slot's shift, for the slot's role or any role
+ */
+export function isInterestedInSlot(candidate: AutoFillCandidate, slot: AutoFillSlot): boolean {
+  return !!findSlotInterest(candidate, slot);
+}
+
+/**
+ * Score a candidate for a slot out of 100, with each factor explained.
+ * `plannedLoad` is how many slots the plan has already given them.
+ */
+export function scoreCandidate(
+  candidate: AutoFillCandidate,
+  slot: AutoFillSlot,
+  plannedLoad: number,
+  options: AutoFillOptions,
+  now: Date = new Date()
+): AutoFillCandidateScore {
+  const factors: AutoFillFactor[] = [];
+
+  const interest = findSlotInterest(candidate, slot);
+  const rank = interest ? getRolePreferenceRank(interest.roles, slot.job_required_role_id) : null;
+  factors.push({
+    key: 'interest',
+    label: 'Interest',
+    points: !interest ? 0 : Math.max(0, AUTO_FILL_WEIGHTS.interest - PREFERENCE_STEP * ((rank ?? 1) - 1)),
+    max: AUTO_FILL_WEIGHTS.interest,
+    detail: !interest
+      ? 'Has not expressed interest'
+      : rank === null
+      ? 'Expressed interest in any role'
+      : `Wants this role (${formatPreferenceRank(rank)})`
+  });
+
+  let fairnessPoints: number = AUTO_FILL_WEIGHTS.fairness;
+  let fairnessDetail = 'No completed jobs yet';
+  if (candidate.last_assignment_date) {
+    const days = Math.max(0, Math.floor((now.getTime() - new Date(candidate.last_assignment_date).getTime()) / DAY_MS));
+    fairnessPoints = AUTO_FILL_WEIGHTS.fairness * Math.min(1, days / FAIRNESS_FULL_DAYS);
+    fairnessDetail = `Last worked ${days} day${days === 1 ? '' : 's'} ago`;
+  }
+  factors.push({
+    key: 'fairness',
+    label: 'Fairness',
+    points: Math.round(fairnessPoints),
+    max: AUTO_FILL_WEIGHTS.fairness,
+    detail: fairnessDetail
+  });
+
+  const load = candidate.recent_assignment_count + plannedLoad;
+  factors.push({
+    key: 'workload',
+    label: 'Workload',
+    points: Math.max(0, AUTO_FILL_WEIGHTS.workload - WORKLOAD_STEP * load),
+    max: AUTO_FILL_WEIGHTS.workload,
+    detail: plannedLoad > 0
+      ? `${candidate.recent_assignment_count} recent or upcoming, ${plannedLoad} more in this plan`
+      : `${candidate.recent_assignment_count} recent or upcoming`
+  });
+
+  const distance = slot.venue_id ? candidate.distances[slot.venue_id] ?? null : null;
+  let distancePoints = Math.round(AUTO_FILL_WEIGHTS.distance / 2);
+  let distanceDetail = 'Distance unknown';
+  if (distance !== null) {
+    const zeroAt = options.maxDistanceMiles ?? DISTANCE_ZERO_MILES;
+    distancePoints = distance <= DISTANCE_FULL_MILES
+      ? AUTO_FILL_WEIGHTS.distance
+      : Math.round(AUTO_FILL_WEIGHTS.distance * Math.max(0, (zeroAt - distance) / Math.max(1, zeroAt - DISTANCE_FULL_MILES)));
+    distanceDetail = `${distance} mi from the venue`;
+  }
+  factors.push({
+    key: 'distance',
+    label: 'Distance',
+    points: distancePoints,
+    max: AUTO_FILL_WEIGHTS.distance,
+    detail: distanceDetail
+  });
+
+  return {
+    user_id: candidate.user_id,
+    full_name: candidate.full_name,
+    score: factors.reduce((sum, factor) => sum + factor.points, 0),
+    factors
+  };
+}
+
+/**
+ * Why a candidate can't take a slot, or null if they can. `planned` holds the
+ * windows of slots the plan has already given them.
+ */
+export function getExclusionReason(
+  candidate: AutoFillCandidate,
+  slot: AutoFillSlot,
+  planned: BookedWindow[],
+  options: AutoFillOptions
+): string | null {
+  if (candidate.booked.some(b => b.job_id === slot.job_id && (!slot.shift_id || b.shift_id === slot.shift_id))) {
+    return slot.shift_id ? 'Already working this shift' : 'Already on this job';
+  }
+
+  const ineligibleReasons = candidate.ineligible_roles[slot.job_required_role_id];
+  if (ineligibleReasons) {
+    return `Not eligible: ${ineligibleReasons.join('; ')}`;
+  }
+
+  const availabilityConflict = getAvailabilityConflict({ start: slot.start_time, end: slot.end_time }, candidate.availability);
+  if (availabilityConflict) {
+    return `Outside availability: ${availabilityConflict}`;
+  }
+
+  if (!options.includeNotInterested && !isInterestedInSlot(candidate, slot)) {
+    return 'Has not expressed interest';
+  }
+
+  if (findConflictingWindow(slot, candidate.booked)) {
+    return 'Booked on another job at the same time';
+  }
+
+  if (findConflictingWindow(slot, planned)) {
+    return 'Proposed for another slot at the same time';
+  }
+
+  const distance = slot.venue_id ? candidate.distances[slot.venue_id] ?? null : null;
+  if (options.maxDistanceMiles !== null && distance !== null && distance > options.maxDistanceMiles) {
+    return `${distance} mi from the venue, over the ${options.maxDistanceMiles} mi limit`;
+  }
+
+  return null;
+}
+
+/**
+ * Propose an employee for every slot. Slots with the fewest eligible
+ * candidates are filled first so scarce people go where they are needed, and
+ * each pick lowers that employee's workload score for the slots after it.
+ */
+export function buildAutoFillPlan(
+  slots: AutoFillSlot[],
+  candidates: AutoFillCandidate[],
+  options: AutoFillOptions,
+  now: Date = new Date()
+): AutoFillPlan {
+  const eligibleCount = (slot: AutoFillSlot) =>
+    candidates.filter(candidate => !getExclusionReason(candidate, slot, [], options)).length;
+
+  const order = [...slots].sort((a, b) =>
+    eligibleCount(a) - eligibleCount(b) ||
+    new Date(a.start_time).getTime() - new Date(b.start_time).getTime() ||
+    a.key.localeCompare(b.key)
+  );
+
+  const planned = new Map<string, BookedWindow[]>();
+  const plansByKey = new Map<string, AutoFillSlotPlan>();
+
+  for (const slot of order) {
+    const scored: AutoFillCandidateScore[] = [];
+    const excluded: AutoFillSlotPlan['excluded'] = [];
+
+    for (const candidate of candidates) {
+      const picks = planned.get(candidate.user_id) || [];
+      const reason = getExclusionReason(candidate, slot, picks, options);
+      if (reason) {
+        excluded.push({ user_id: candidate.user_id, full_name: candidate.full_name, reason });
+      } else {
+        scored.push(scoreCandidate(candidate, slot, picks.length, options, now));
+      }
+    }
+
+    scored.sort((a, b) => b.score - a.score || (a.full_name || '').localeCompare(b.full_name || ''));
+
+    const proposed = scored[0] || null;
+    if (proposed) {
+      planned.set(proposed.user_id, [
+        ...(planned.get(proposed.user_id) || []),
+        {
+          assignment_id: slot.key,
+          job_id: slot.job_id,
+          shift_id: slot.shift_id,
+          start_time: slot.start_time,
+          end_time: slot.end_time
+        }
+      ]);
+    }
+
+    plansByKey.set(slot.key, {
+      slot,
+      proposed_user_id: proposed?.user_id ?? null,
+      candidates: scored,
+      excluded
+    });
+  }
+
+  // Show the plan in time order, whatever order it was filled in
+  const ordered = [...slots]
+    .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime() || a.key.localeCompare(b.key))
+    .map(slot => plansByKey.get(slot.key)!);
+
+  return {
+    slots: ordered,
+    job_count: new Set<string>(slots.map(slot => slot.job_id)).size
+  };
+}
+
+/**
+ * The Friday to Sunday of the coming weekend (this one, if it is already the
+ * weekend), as YYYY-MM-DD dates
+ */
+export function getUpcomingWeekend(today: Date = new Date()): { from: string; to: string } {
+  const friday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const day = friday.getDay();
+  const offset = day === 0 ? -2 : day === 6 ? -1 : 5 - day;
+  friday.setDate(friday.getDate() + offset);
+
+  const sunday = new Date(friday);
+  sunday.setDate(friday.getDate() + 2);
+
+  const toDateString = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+  return { from: toDateString(friday), to: toDateString(sunday) };
+}
+
+/**
+ * Check a date range for planning, returning an error message if it can't be used
+ */
+export function validateAutoFillRange(from: string, to: string): string | null {
+  const pattern = /^\d{4}-\d{2}-\d{2}$/;
+  if (!pattern.test(from) || !pattern.test(to)) {
+    return 'Choose a start and end date';
+  }
+
+  const days = (new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS;
+  if (Number.isNaN(days) || days < 0) {
+    return 'The end date must be on or after the start date';
+  }
+
+  if (days + 1 > MAX_AUTO_FILL_RANGE_DAYS) {
+    return `Auto-fill can plan at most ${MAX_AUTO_FILL_RANGE_DAYS} days at a time`;
+  }
+
+  return null;
+}
+
+/**
+ * The form field a slot's chosen employee is submitted in, and back again
+ */
+export function getAutoFillFieldName(slot: Pick<AutoFillSlot, 'job_id' | 'job_required_role_id' | 'position'>): string {
+  return `assign__${slot.job_id}__${slot.job_required_role_id}__${slot.position}`;
+}
+
+export function parseAutoFillFieldName(
+  name: string
+): { jobId: string; jobRequiredRoleId: string; position: number } | null {
+  const [prefix, jobId, jobRequiredRoleId, position] = name.split('__');
+  if (prefix !== 'assign' || !jobId || !jobRequiredRoleId || !position) {
+    return null;
+  }
+
+  return { jobId, jobRequiredRoleId, position: Number(position) };
+}
@@ -0,0 +1,69 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { assignJobToEmployee } from "@/app/job-assignment-actions";
+import { checkManagerPermission } from "../jobs/utils";
+import { parseAutoFillFieldName } from "./client-utils";
+
+const autoFillPath = "/dashboard/manager/jobs/auto-fill";
+
+/**
+ * Assign the employees chosen on the auto-fill page, one slot at a time.
+ *
+ * Each assignment goes through assignJobToEmployee, so capacity and time
+ * conflicts are checked again and employees are notified as usual. Slots left
+ * open are skipped, and any assignment that fails is reported without undoing
+ * the others.
+ */
+export async function applyAutoFillPlan(formData: FormData) {
+  // Check permissions
+  const { authorized, error: permError } = await checkManagerPermission();
+  if (!authorized) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  const singleJobId = formData.get('scopeJobId')?.toString() || null;
+  const returnPath = singleJobId ? `/dashboard/manager/jobs/${singleJobId}` : autoFillPath;
+
+  const picks: { jobId: string; jobRequiredRoleId: string; employeeId: string; label: string }[] = [];
+  for (const [name, value] of Array.from(formData.entries())) {
+    const field = parseAutoFillFieldName(name);
+    const employeeId = value.toString();
+    if (!field || !employeeId) {
+      continue;
+    }
+
+    picks.push({
+      ...field,
+      employeeId,
+      label: formData.get(`label__${field.jobRequiredRoleId}__${field.position}`)?.toString() || 'a slot'
+    });
+  }
+
+  if (picks.length === 0) {
+    return encodedRedirect("error", returnPath, "Choose at least one employee to assign");
+  }
+
+  const failures: string[] = [];
+  for (const pick of picks) {
+    const result = await assignJobToEmployee(pick.jobId, pick.employeeId, pick.jobRequiredRoleId);
+    if (!result.success) {
+      failures.push(`${pick.label}: ${result.error || 'could not assign'}`);
+    }
+  }
+
+  revalidatePath(autoFillPath);
+  revalidatePath("/dashboard/manager/jobs");
+
+  const assigned = picks.length - failures.length;
+  if (failures.length > 0) {
+    return encodedRedirect(
+      assigned > 0 ? "success" : "error",
+      returnPath,
+      `Assigned ${assigned} of ${picks.length}. Not assigned - ${failures.join('; ')}`
+    );
+  }
+
+  return encodedRedirect("success", returnPath, `Assigned ${assigned} employee${assigned === 1 ? '' : 's'}`);
+}
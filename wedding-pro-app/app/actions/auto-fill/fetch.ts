@@ -0,0 +1,53 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { checkManagerPermission } from "../jobs/utils";
+import { buildAutoFillPlan, validateAutoFillRange } from "./client-utils";
+import { getAutoFillCandidates, getAutoFillSlots } from "./utils";
+import type { AutoFillOptions, AutoFillPlan, AutoFillScope } from "./types";
+
+/**
+ * Propose staffing for a job or a date range (managers only). Nothing is
+ * saved; the manager reviews the plan and applies it with applyAutoFillPlan.
+ */
+export async function getAutoFillPlan(
+  scope: AutoFillScope,
+  options: AutoFillOptions
+): Promise<{ data?: AutoFillPlan; error?: string }> {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return { error: permError || "Unauthorized" };
+  }
+
+  if (!profile.org_id) {
+    return { error: "You must be part of an organization" };
+  }
+
+  if (scope.type === 'range') {
+    const rangeError = validateAutoFillRange(scope.from, scope.to);
+    if (rangeError) {
+      return { error: rangeError };
+    }
+  }
+
+  const { data: slotData, error: slotError } = await getAutoFillSlots(supabase, profile.org_id, scope);
+  if (slotError || !slotData) {
+    return { error: slotError || "Failed to fetch jobs" };
+  }
+
+  const { data: candidates, error: candidateError } = await getAutoFillCandidates(
+    supabase,
+    profile.org_id,
+    slotData.slots,
+    slotData.venueAddresses,
+    options
+  );
+  if (candidateError || !candidates) {
+    return { error: candidateError || "Failed to fetch employees" };
+  }
+
+  return { data: buildAutoFillPlan(slotData.slots, candidates, options) };
+}
@@ -0,0 +1,9 @@
+"use server";
+
+// This file re-exports all public actions and types related to auto-fill staffing.
+
+export { applyAutoFillPlan } from './create';
+export { getAutoFillPlan } from './fetch';
+
+// Re-export all types from the dedicated types module
+export * from './types';
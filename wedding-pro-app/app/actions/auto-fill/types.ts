@@ -0,0 +1,95 @@
+import type { BookedWindow } from "../job-shifts/types";
+import type { InterestRole } from "../job-interests/types";
+import type { EmployeeAvailability } from "../availability/types";
+
+/**
+ * What to plan staffing for: one job, or every open job starting in a date
+ * range (e.g. a weekend)
+ */
+export type AutoFillScope =
+  | { type: 'job'; jobId: string }
+  | { type: 'range'; from: string; to: string }; // YYYY-MM-DD, inclusive
+
+/**
+ * Options a manager can set before planning
+ */
+export type AutoFillOptions = {
+  includeNotInterested: boolean; // Also consider employees who haven't expressed interest
+  maxDistanceMiles: number | null; // Leave out employees further than this from the venue
+};
+
+/**
+ * One open position to fill: a role on a job (and its shift), numbered when
+ * the role needs more than one person
+ */
+export type AutoFillSlot = {
+  key: string; // {job_required_role_id}:{position}
+  job_id: string;
+  job_title: string;
+  job_required_role_id: string;
+  role_name: string;
+  position: number;
+  shift_id: string | null;
+  shift_name: string | null;
+  start_time: string; // The shift's, or the job's
+  end_time: string;
+  venue_id: string | null;
+  venue_name: string | null;
+};
+
+/**
+ * An employee who could be proposed, with what the engine scores them on
+ */
+export type AutoFillCandidate = {
+  user_id: string;
+  full_name: string | null;
+  email: string | null;
+  interests: { job_id: string; shift_id: string | null; roles: InterestRole[] }[]; // Shift is null for the whole job, no roles for any role
+  distances: Record<string, number | null>; // Miles from home to each venue, by venue ID
+  last_assignment_date: string | null; // End of their most recent completed job
+  recent_assignment_count: number; // Assignments starting in the last 30 days or booked ahead
+  booked: BookedWindow[];
+  ineligible_roles: Record<string, string[]>; // Why they aren't qualified, by job_required_role_id
+  availability: EmployeeAvailability; // Days they work and dates they're away
+};
+
+/**
+ * One part of a candidate's score, so managers can see why they were proposed
+ */
+export type AutoFillFactor = {
+  key: 'interest' | 'fairness' | 'workload' | 'distance';
+  label: string;
+  points: number;
+  max: number;
+  detail: string;
+};
+
+/**
+ * A candidate's score for a slot, out of 100
+ */
+export type AutoFillCandidateScore = {
+  user_id: string;
+  full_name: string | null;
+  score: number;
+  factors: AutoFillFactor[];
+};
+
+/**
+ * The plan for one slot: who is proposed, the other eligible candidates
+ * best first, and who was left out and why
+ */
+export type AutoFillSlotPlan = {
+  slot: AutoFillSlot;
+  proposed_user_id: string | null;
+  candidates: AutoFillCandidateScore[];
+  excluded: { user_id: string; full_name: string | null; reason: string }[];
+};
+
+/**
+ * A proposed staffing for every open slot in scope. Nothing is written until
+ * the manager accepts it.
+ */
+export type AutoFillPlan = {
+  slots: AutoFillSlotPlan[];
+  job_count: number;
+};
@@ -0,0 +1,324 @@
+"use server";
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { calculateDistance } from "@/utils/job-assignment-helpers";
+import type { BookedWindow } from "../job-shifts/types";
+import type { InterestRole } from "../job-interests/types";
+import { getQualificationContext } from "../qualifications/utils";
+import { getEmployeeRoleEligibility } from "../qualifications/client-utils";
+import { getAvailabilityForUsers } from "../availability/utils";
+import { ANY_AVAILABILITY } from "../availability/client-utils";
+import type { AutoFillCandidate, AutoFillOptions, AutoFillScope, AutoFillSlot } from "./types";
+
+// Jobs that can still take new assignments
+const FILLABLE_JOB_STATUSES = ['available', 'upcoming'];
+
+// How far back assignments count towards an employee's recent workload
+const RECENT_WORKLOAD_DAYS = 30;
+
+type AddressParts = { address?: string | null; city?: string | null; state?: string | null; zip?: string | null };
+
+function formatAddress(parts: AddressParts | null | undefined): string | null {
+  if (!parts || !parts.address || !parts.city || !parts.state || !parts.zip) {
+    return null;
+  }
+  return `${parts.address}, ${parts.city}, ${parts.state} ${parts.zip}`;
+}
+
+/**
+ * Get the open slots of every fillable job in scope: one per position a
+ * required role still needs, with the shift's times when the role has one
+ */
+export async function getAutoFillSlots(
+  supabase: SupabaseClient,
+  orgId: string,
+  scope: AutoFillScope
+): Promise<{ data?: { slots: AutoFillSlot[]; venueAddresses: Record<string, string | null> }; error?: string }> {
+  let query = supabase
+    .from('jobs')
+    .select(`
+      id,
+      title,
+      start_time,
+      end_time,
+      status,
+      venue:venue_id (
+        id, name, address, city, state, zip
+      ),
+      job_required_roles (
+        id, role_name, quantity_needed, shift_id
+      ),
+      job_shifts (
+        id, name, start_time, end_time
+      ),
+      job_assignments (
+        id, job_required_role_id
+      ),
+      job_assignment_offers (
+        id, job_required_role_id, status
+      )
+    `)
+    .eq('org_id', orgId)
+    .in('status', FILLABLE_JOB_STATUSES)
+    .order('start_time', { ascending: true });
+
+  if (scope.type === 'job') {
+    query = query.eq('id', scope.jobId);
+  } else {
+    const end = new Date(`${scope.to}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    query = query
+      .gte('start_time', new Date(`${scope.from}T00:00:00`).toISOString())
+      .lt('start_time', end.toISOString());
+  }
+
+  const { data: jobs, error } = await query;
+
+  if (error) {
+    console.error("Error fetching jobs for auto-fill:", error);
+    return { error: "Failed to fetch jobs" };
+  }
+
+  const slots: AutoFillSlot[] = [];
+  const venueAddresses: Record<string, string | null> = {};
+
+  for (const job of jobs || []) {
+    const venue = Array.isArray(job.venue) ? job.venue[0] : job.venue;
+    if (venue?.id) {
+      venueAddresses[venue.id] = formatAddress(venue);
+    }
+
+    const shiftsById = new Map<string, any>((job.job_shifts || []).map((shift: any) => [shift.id, shift]));
+
+    for (const role of job.job_required_roles || []) {
+      // Capacity counts every assignment and open offer, as assignJobToEmployee does
+      const assigned = (job.job_assignments || []).filter((a: any) => a.job_required_role_id === role.id).length +
+        (job.job_assignment_offers || []).filter((o: any) => o.job_required_role_id === role.id && o.status === 'offered').length;
+      const shift = role.shift_id ? shiftsById.get(role.shift_id) : null;
+
+      for (let position = assigned + 1; position <= role.quantity_needed; position++) {
+        slots.push({
+          key: `${role.id}:${position}`,
+          job_id: job.id,
+          job_title: job.title,
+          job_required_role_id: role.id,
+          role_name: role.role_name,
+          position,
+          shift_id: role.shift_id ?? null,
+          shift_name: shift?.name ?? null,
+          start_time: shift?.start_time || job.start_time,
+          end_time: shift?.end_time || job.end_time,
+          venue_id: venue?.id ?? null,
+          venue_name: venue?.name ?? null
+        });
+      }
+    }
+  }
+
+  return { data: { slots, venueAddresses } };
+}
+
+/**
+ * Get everyone who could fill the slots, with their interests, bookings,
+ * recent workload, last completed job, distance to each venue and the roles
+ * they aren't qualified for.
+ *
+ * Only interested employees are gathered unless the options include everyone,
+ * which saves distance lookups for people who would be left out anyway.
+ */
+export async function getAutoFillCandidates(
+  supabase: SupabaseClient,
+  orgId: string,
+  slots: AutoFillSlot[],
+  venueAddresses: Record<string, string | null>,
+  options: AutoFillOptions,
+  now: Date = new Date()
+): Promise<{ data?: AutoFillCandidate[]; error?: string }> {
+  const jobIds = Array.from(new Set<string>(slots.map(slot => slot.job_id)));
+  if (jobIds.length === 0) {
+    return { data: [] };
+  }
+
+  const { data: interests, error: interestError } = await supabase
+    .from('job_interests')
+    .select(`
+      user_id,
+      job_id,
+      shift_id,
+      job_interest_roles (
+        job_required_role_id, preference_rank
+      )
+    `)
+    .in('job_id', jobIds);
+
+  if (interestError) {
+    console.error("Error fetching interests for auto-fill:", interestError);
+    return { error: "Failed to fetch interested employees" };
+  }
+
+  let profileQuery = supabase
+    .from('profiles')
+    .select('id, full_name, email, address, city, state, zip')
+    .eq('org_id', orgId)
+    .eq('role', 'Employee')
+    .eq('approval_status', 'approved');
+
+  if (!options.includeNotInterested) {
+    const interestedIds = Array.from(new Set<string>((interests || []).map(i => i.user_id)));
+    if (interestedIds.length === 0) {
+      return { data: [] };
+    }
+    profileQuery = profileQuery.in('id', interestedIds);
+  }
+
+  const { data: profiles, error: profileError } = await profileQuery;
+
+  if (profileError) {
+    console.error("Error fetching employees for auto-fill:", profileError);
+    return { error: "Failed to fetch employees" };
+  }
+
+  if (!profiles || profiles.length === 0) {
+    return { data: [] };
+  }
+
+  const { data: assignments, error: assignmentError } = await supabase
+    .from('job_assignments')
+    .select(`
+      id,
+      user_id,
+      job_id,
+      shift_id,
+      shift:shift_id (
+        start_time,
+        end_time
+      ),
+      job:job_id (
+        start_time,
+        end_time,
+        status
+      )
+    `)
+    .in('user_id', profiles.map(p => p.id))
+    .neq('status', 'declined');
+
+  if (assignmentError) {
+    console.error("Error fetching assignments for auto-fill:", assignmentError);
+    return { error: "Failed to check for time conflicts" };
+  }
+
+  const recentSince = now.getTime() - RECENT_WORKLOAD_DAYS * 24 * 60 * 60 * 1000;
+  const bookedByUser = new Map<string, BookedWindow[]>();
+  const recentCountByUser = new Map<string, number>();
+  const lastCompletedByUser = new Map<string, string>();
+
+  for (const assignment of (assignments || []) as any[]) {
+    const shift = Array.isArray(assignment.shift) ? assignment.shift[0] : assignment.shift;
+    const job = Array.isArray(assignment.job) ? assignment.job[0] : assignment.job;
+    const source = shift || job;
+    if (!source?.start_time || !source?.end_time) {
+      continue;
+    }
+
+    bookedByUser.set(assignment.user_id, [
+      ...(bookedByUser.get(assignment.user_id) || []),
+      {
+        assignment_id: assignment.id,
+        job_id: assignment.job_id,
+        shift_id: assignment.shift_id,
+        start_time: source.start_time,
+        end_time: source.end_time
+      }
+    ]);
+
+    if (new Date(source.start_time).getTime() >= recentSince) {
+      recentCountByUser.set(assignment.user_id, (recentCountByUser.get(assignment.user_id) || 0) + 1);
+    }
+
+    if (job?.status === 'completed' && job.end_time) {
+      const last = lastCompletedByUser.get(assignment.user_id);
+      if (!last || new Date(job.end_time) > new Date(last)) {
+        lastCompletedByUser.set(assignment.user_id, job.end_time);
+      }
+    }
+  }
+
+  const { data: qualifications, error: qualificationError } = await getQualificationContext(
+    supabase,
+    orgId,
+    profiles.map(p => p.id)
+  );
+
+  if (qualificationError || !qualifications) {
+    return { error: qualificationError || "Failed to check employee qualifications" };
+  }
+
+  const { data: availability, error: availabilityError } = await getAvailabilityForUsers(
+    supabase,
+    orgId,
+    profiles.map(p => p.id)
+  );
+
+  if (availabilityError || !availability) {
+    return { error: availabilityError || "Failed to check employee availability" };
+  }
+
+  // Employees without a home address are measured from the office, as on the assign page
+  const { data: org } = await supabase
+    .from('orgs')
+    .select('address, city, state, zip')
+    .eq('id', orgId)
+    .maybeSingle();
+  const orgAddress = formatAddress(org);
+
+  const distanceCache = new Map<string, number | null>();
+  const venueEntries = Object.entries(venueAddresses);
+
+  const candidates: AutoFillCandidate[] = [];
+  for (const profile of profiles) {
+    const origin = formatAddress(profile) || orgAddress;
+
+    const ineligibleRoles: Record<string, string[]> = {};
+    for (const slot of slots) {
+      const { eligible, reasons } = getEmployeeRoleEligibility(qualifications, profile.id, slot.role_name, slot.start_time);
+      if (!eligible) {
+        ineligibleRoles[slot.job_required_role_id] = reasons;
+      }
+    }
+    const distances: Record<string, number | null> = {};
+
+    for (const [venueId, destination] of venueEntries) {
+      if (!origin || !destination) {
+        distances[venueId] = null;
+        continue;
+      }
+
+      const cacheKey = `${origin}|${destination}`;
+      if (!distanceCache.has(cacheKey)) {
+        distanceCache.set(cacheKey, await calculateDistance(origin, destination));
+      }
+      distances[venueId] = distanceCache.get(cacheKey) ?? null;
+    }
+
+    candidates.push({
+      user_id: profile.id,
+      full_name: profile.full_name,
+      email: profile.email,
+      interests: (interests || [])
+        .filter(interest => interest.user_id === profile.id)
+        .map(interest => ({
+          job_id: interest.job_id,
+          shift_id: interest.shift_id ?? null,
+          roles: (interest.job_interest_roles || []) as InterestRole[]
+        })),
+      distances,
+      last_assignment_date: lastCompletedByUser.get(profile.id) || null,
+      recent_assignment_count: recentCountByUser.get(profile.id) || 0,
+      booked: bookedByUser.get(profile.id) || [],
+      ineligible_roles: ineligibleRoles,
+      availability: availability[profile.id] || ANY_AVAILABILITY
+    });
+  }
+
+  return { data: candidates };
+}
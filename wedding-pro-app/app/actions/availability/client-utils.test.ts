@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeWeeklyAvailability,
+  getAvailabilityConflict,
+  validateAvailabilityWindow,
+  validateBlackoutPeriod
+} from './client-utils';
+import type { EmployeeAvailability } from './types';
+
+// Local times, as the app compares them; 2025-06-21 is a Saturday
+const saturdayWedding = {
+  start: new Date(2025, 5, 21, 14, 0),
+  end: new Date(2025, 5, 21, 23, 0)
+};
+
+describe('availability client utils', () => {
+  describe('getAvailabilityConflict', () => {
+    it('should treat employees without availability as available any day', () => {
+      expect(getAvailabilityConflict(saturdayWedding, null)).toBeNull();
+      expect(getAvailabilityConflict(saturdayWedding, { weekly: [], blackouts: [] })).toBeNull();
+    });
+
+    it('should flag jobs touching a blackout', () => {
+      const availability: EmployeeAvailability = {
+        weekly: [],
+        blackouts: [{ start_date: '2025-06-22', end_date: '2025-06-28', reason: 'Vacation' }]
+      };
+
+      expect(getAvailabilityConflict(saturdayWedding, availability)).toBeNull();
+      expect(getAvailabilityConflict(
+        { start: saturdayWedding.start, end: new Date(2025, 5, 22, 0, 30) },
+        availability
+      )).toBe('Away Jun 22 – Jun 28 (Vacation)');
+    });
+
+    it('should check weekly availability on the day the job starts', () => {
+      const availability: EmployeeAvailability = {
+        weekly: [
+          { weekday: 6, start_time: null, end_time: null },
+          { weekday: 0, start_time: '09:00:00', end_time: '17:00:00' }
+        ],
+        blackouts: []
+      };
+
+      expect(getAvailabilityConflict(
+        { start: saturdayWedding.start, end: new Date(2025, 5, 22, 0, 30) },
+        availability
+      )).toBeNull();
+      expect(getAvailabilityConflict(
+        { start: new Date(2025, 5, 20, 14, 0), end: new Date(2025, 5, 20, 22, 0) },
+        availability
+      )).toBe("Doesn't work Fridays");
+      expect(getAvailabilityConflict(
+        { start: new Date(2025, 5, 22, 10, 0), end: new Date(2025, 5, 22, 16, 0) },
+        availability
+      )).toBeNull();
+      expect(getAvailabilityConflict(
+        { start: new Date(2025, 5, 22, 14, 0), end: new Date(2025, 5, 22, 20, 0) },
+        availability
+      )).toBe('Works Sundays 9:00 AM–5:00 PM only');
+    });
+  });
+
+  describe('input', () => {
+    it('should validate weekly windows and blackouts', () => {
+      expect(validateAvailabilityWindow({ weekday: 6, start_time: null, end_time: null })).toBeNull();
+      expect(validateAvailabilityWindow({ weekday: 6, start_time: '09:00', end_time: null }))
+        .toBe('Set both a start and end time for Saturday, or neither');
+      expect(validateAvailabilityWindow({ weekday: 6, start_time: '17:00', end_time: '09:00' }))
+        .toBe("Saturday's end time must be after its start time");
+
+      expect(validateBlackoutPeriod({ start_date: '2025-06-22', end_date: '2025-06-21', reason: null }))
+        .toBe('End date must be on or after the start date');
+    });
+
+    it('should describe weekly availability by day', () => {
+      expect(describeWeeklyAvailability([])).toBe('Any day');
+      expect(describeWeeklyAvailability([
+        { weekday: 6, start_time: null, end_time: null },
+        { weekday: 0, start_time: '09:00', end_time: '17:00' }
+      ])).toBe('Sunday 9:00 AM–5:00 PM, Saturday all day');
+    });
+  });
+});
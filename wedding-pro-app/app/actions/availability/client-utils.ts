@@ -0,0 +1,179 @@
+import type { AvailabilityWindow, BlackoutPeriod, EmployeeAvailability } from "./types";
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Availability for employees who haven't set any: any day, no blackouts
+ */
+export const ANY_AVAILABILITY: EmployeeAvailability = { weekly: [], blackouts: [] };
+
+function toDateString(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Minutes after midnight for an HH:MM (or HH:MM:SS, as Postgres returns TIME)
+ * string, or null if it isn't one
+ */
+export function parseTimeOfDay(value: string | null | undefined): number | null {
+  const match = /^(\d{1,2}):(\d{2})(?::\d{2})?$/.exec(value?.trim() || '');
+  if (!match) {
+    return null;
+  }
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Format an HH:MM time as e.g. "9:30 AM"
+ */
+export function formatTimeOfDay(value: string): string {
+  const minutes = parseTimeOfDay(value) ?? 0;
+  const hours = Math.floor(minutes / 60);
+  const suffix = hours < 12 ? 'AM' : 'PM';
+  return `${hours % 12 || 12}:${String(minutes % 60).padStart(2, '0')} ${suffix}`;
+}
+
+function formatDate(value: string): string {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+/**
+ * Validate a weekly window before saving. Returns an error message or null.
+ */
+export function validateAvailabilityWindow(window: AvailabilityWindow): string | null {
+  if (!Number.isInteger(window.weekday) || window.weekday < 0 || window.weekday > 6) {
+    return "Choose a valid day";
+  }
+
+  const day = WEEKDAY_LABELS[window.weekday];
+  if (!window.start_time && !window.end_time) {
+    return null;
+  }
+
+  const start = parseTimeOfDay(window.start_time);
+  const end = parseTimeOfDay(window.end_time);
+  if (start === null || end === null) {
+    return `Set both a start and end time for ${day}, or neither`;
+  }
+
+  if (end <= start) {
+    return `${day}'s end time must be after its start time`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate blackout dates before saving. Returns an error message or null.
+ */
+export function validateBlackoutPeriod(period: BlackoutPeriod): string | null {
+  const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+  if (!datePattern.test(period.start_date) || !datePattern.test(period.end_date)) {
+    return "Start and end dates are required";
+  }
+
+  if (period.end_date < period.start_date) {
+    return "End date must be on or after the start date";
+  }
+
+  return null;
+}
+
+/**
+ * Describe a blackout, e.g. "Away Jun 10 – Jun 17 (Vacation)"
+ */
+export function describeBlackout(period: BlackoutPeriod): string {
+  const dates = period.start_date === period.end_date
+    ? formatDate(period.start_date)
+    : `${formatDate(period.start_date)} – ${formatDate(period.end_date)}`;
+  return period.reason ? `Away ${dates} (${period.reason})` : `Away ${dates}`;
+}
+
+function describeHours(window: AvailabilityWindow): string {
+  return window.start_time && window.end_time
+    ? `${formatTimeOfDay(window.start_time)}–${formatTimeOfDay(window.end_time)}`
+    : 'all day';
+}
+
+/**
+ * Describe weekly availability, e.g. "Saturday all day, Sunday 9:00 AM–5:00 PM"
+ */
+export function describeWeeklyAvailability(weekly: AvailabilityWindow[]): string {
+  if (weekly.length === 0) {
+    return 'Any day';
+  }
+
+  return [...weekly]
+    .sort((a, b) => a.weekday - b.weekday || (parseTimeOfDay(a.start_time) ?? 0) - (parseTimeOfDay(b.start_time) ?? 0))
+    .map(window => `${WEEKDAY_LABELS[window.weekday]} ${describeHours(window)}`)
+    .join(', ');
+}
+
+function coversWindow(available: AvailabilityWindow, start: Date, end: Date): boolean {
+  if (!available.start_time || !available.end_time) {
+    return true;
+  }
+
+  if (toDateString(start) !== toDateString(end)) {
+    return false;
+  }
+
+  const from = parseTimeOfDay(available.start_time) ?? 0;
+  const to = parseTimeOfDay(available.end_time) ?? 0;
+  return start.getHours() * 60 + start.getMinutes() >= from && end.getHours() * 60 + end.getMinutes() <= to;
+}
+
+/**
+ * Check a job or shift against an employee's availability. Returns why they
+ * aren't available, or null if they are.
+ *
+ * Blackouts clash with any day the window touches. Weekly availability is
+ * checked on the day the window starts: a whole-day entry covers anything
+ * starting that day (so an evening reception running past midnight still
+ * counts), while set hours must contain the whole window. Times are compared
+ * in local time, as elsewhere in the app.
+ */
+export function getAvailabilityConflict(
+  window: { start: string | Date; end: string | Date },
+  availability: EmployeeAvailability | null | undefined
+): string | null {
+  if (!availability) {
+    return null;
+  }
+
+  const start = new Date(window.start);
+  const end = new Date(window.end);
+  const startDate = toDateString(start);
+  const endDate = toDateString(end);
+
+  const blackout = availability.blackouts.find(
+    period => period.start_date <= endDate && period.end_date >= startDate
+  );
+  if (blackout) {
+    return describeBlackout(blackout);
+  }
+
+  if (availability.weekly.length === 0) {
+    return null;
+  }
+
+  const weekday = start.getDay();
+  const sameDay = availability.weekly.filter(available => available.weekday === weekday);
+  if (sameDay.length === 0) {
+    return `Doesn't work ${WEEKDAY_LABELS[weekday]}s`;
+  }
+
+  if (sameDay.some(available => coversWindow(available, start, end))) {
+    return null;
+  }
+
+  return `Works ${WEEKDAY_LABELS[weekday]}s ${sameDay.map(describeHours).join(', ')} only`;
+}
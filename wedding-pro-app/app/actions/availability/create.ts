@@ -0,0 +1,117 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { getCurrentUserProfile } from "@/utils/supabase/auth-helpers";
+import { validateAvailabilityWindow, validateBlackoutPeriod } from "./client-utils";
+import type { AvailabilityWindow } from "./types";
+
+const availabilityPath = "/dashboard/employee/availability";
+
+/**
+ * Replace the current user's weekly availability. The form has a `day_<n>`
+ * checkbox for each weekday (0 is Sunday) with optional `start_<n>` and
+ * `end_<n>` times; leaving every day unticked means available any day.
+ */
+export async function saveWeeklyAvailability(formData: FormData) {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return encodedRedirect("error", "/sign-in", "You must be logged in");
+  }
+
+  const profile = await getCurrentUserProfile();
+  if (!profile || !profile.org_id) {
+    return encodedRedirect("error", availabilityPath, "You must be part of an organization");
+  }
+
+  const windows: AvailabilityWindow[] = [];
+  for (let weekday = 0; weekday < 7; weekday++) {
+    if (formData.get(`day_${weekday}`) !== "on") {
+      continue;
+    }
+
+    const window: AvailabilityWindow = {
+      weekday,
+      start_time: formData.get(`start_${weekday}`)?.toString() || null,
+      end_time: formData.get(`end_${weekday}`)?.toString() || null
+    };
+
+    const validationError = validateAvailabilityWindow(window);
+    if (validationError) {
+      return encodedRedirect("error", availabilityPath, validationError);
+    }
+
+    windows.push(window);
+  }
+
+  const { error: deleteError } = await supabase
+    .from('employee_weekly_availability')
+    .delete()
+    .eq('org_id', profile.org_id)
+    .eq('user_id', user.id);
+
+  if (deleteError) {
+    console.error("Error clearing weekly availability:", deleteError);
+    return encodedRedirect("error", availabilityPath, deleteError.message);
+  }
+
+  if (windows.length > 0) {
+    const { error } = await supabase
+      .from('employee_weekly_availability')
+      .insert(windows.map(window => ({ ...window, org_id: profile.org_id, user_id: user.id })));
+
+    if (error) {
+      console.error("Error saving weekly availability:", error);
+      return encodedRedirect("error", availabilityPath, error.message);
+    }
+  }
+
+  revalidatePath(availabilityPath);
+  revalidatePath("/dashboard/employee/available-jobs");
+  return encodedRedirect("success", availabilityPath, "Weekly availability saved");
+}
+
+/**
+ * Block out dates the current user can't work
+ */
+export async function addBlackoutDates(formData: FormData) {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return encodedRedirect("error", "/sign-in", "You must be logged in");
+  }
+
+  const profile = await getCurrentUserProfile();
+  if (!profile || !profile.org_id) {
+    return encodedRedirect("error", availabilityPath, "You must be part of an organization");
+  }
+
+  const startDate = formData.get("start_date")?.toString() || "";
+  const period = {
+    start_date: startDate,
+    end_date: formData.get("end_date")?.toString() || startDate,
+    reason: formData.get("reason")?.toString().trim() || null
+  };
+
+  const validationError = validateBlackoutPeriod(period);
+  if (validationError) {
+    return encodedRedirect("error", availabilityPath, validationError);
+  }
+
+  const { error } = await supabase
+    .from('employee_blackout_dates')
+    .insert([{ ...period, org_id: profile.org_id, user_id: user.id }]);
+
+  if (error) {
+    console.error("Error adding blackout dates:", error);
+    return encodedRedirect("error", availabilityPath, error.message);
+  }
+
+  revalidatePath(availabilityPath);
+  revalidatePath("/dashboard/employee/available-jobs");
+  return encodedRedirect("success", availabilityPath, "Blackout dates added");
+}
@@ -0,0 +1,55 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { getCurrentUserProfile } from "@/utils/supabase/auth-helpers";
+import type { MyAvailability } from "./types";
+
+/**
+ * Get the current user's weekly availability and blackouts that haven't
+ * ended yet
+ */
+export async function getMyAvailability(): Promise<{ data?: MyAvailability; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { error: "You must be logged in" };
+  }
+
+  const profile = await getCurrentUserProfile();
+  if (!profile || !profile.org_id) {
+    return { error: "You must be part of an organization" };
+  }
+
+  const now = new Date();
+  const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+
+  const [{ data: weekly, error: weeklyError }, { data: blackouts, error: blackoutsError }] = await Promise.all([
+    supabase
+      .from('employee_weekly_availability')
+      .select('*')
+      .eq('org_id', profile.org_id)
+      .eq('user_id', user.id)
+      .order('weekday', { ascending: true })
+      .order('start_time', { ascending: true }),
+    supabase
+      .from('employee_blackout_dates')
+      .select('*')
+      .eq('org_id', profile.org_id)
+      .eq('user_id', user.id)
+      .gte('end_date', today)
+      .order('start_date', { ascending: true })
+  ]);
+
+  if (weeklyError || blackoutsError) {
+    console.error("Error fetching availability:", weeklyError || blackoutsError);
+    return { error: "Failed to fetch your availability" };
+  }
+
+  return {
+    data: {
+      weekly: weekly || [],
+      blackouts: blackouts || []
+    } as MyAvailability
+  };
+}
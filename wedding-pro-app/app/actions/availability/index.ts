@@ -0,0 +1,10 @@
+"use server";
+
+// This file re-exports all public actions and types related to employee availability.
+
+export { saveWeeklyAvailability, addBlackoutDates } from './create';
+export { getMyAvailability } from './fetch';
+export { deleteBlackoutDates } from './update';
+
+// Re-export all types from the dedicated types module
+export * from './types';
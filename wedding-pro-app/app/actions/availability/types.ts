@@ -0,0 +1,48 @@
+/**
+ * A day of the week an employee works, optionally between set times
+ */
+export type AvailabilityWindow = {
+  weekday: number; // 0 is Sunday, as Date.getDay()
+  start_time: string | null; // HH:MM; null for the whole day
+  end_time: string | null;
+};
+
+export type WeeklyAvailability = AvailabilityWindow & {
+  id: string;
+  org_id: string;
+  user_id: string;
+  created_at: string;
+};
+
+/**
+ * Dates an employee can't work, inclusive
+ */
+export type BlackoutPeriod = {
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD
+  reason: string | null;
+};
+
+export type BlackoutDate = BlackoutPeriod & {
+  id: string;
+  org_id: string;
+  user_id: string;
+  created_at: string;
+};
+
+/**
+ * What an employee has said about when they work. No weekly windows means
+ * any day.
+ */
+export type EmployeeAvailability = {
+  weekly: AvailabilityWindow[];
+  blackouts: BlackoutPeriod[];
+};
+
+/**
+ * The current user's own availability, with row IDs for editing
+ */
+export type MyAvailability = {
+  weekly: WeeklyAvailability[];
+  blackouts: BlackoutDate[];
+};
@@ -0,0 +1,39 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+
+const availabilityPath = "/dashboard/employee/availability";
+
+/**
+ * Remove one of the current user's blackouts
+ */
+export async function deleteBlackoutDates(formData: FormData) {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return encodedRedirect("error", "/sign-in", "You must be logged in");
+  }
+
+  const blackoutId = formData.get("blackoutId")?.toString();
+  if (!blackoutId) {
+    return encodedRedirect("error", availabilityPath, "Blackout ID is required");
+  }
+
+  const { error } = await supabase
+    .from('employee_blackout_dates')
+    .delete()
+    .eq('id', blackoutId)
+    .eq('user_id', user.id);
+
+  if (error) {
+    console.error("Error deleting blackout dates:", error);
+    return encodedRedirect("error", availabilityPath, error.message);
+  }
+
+  revalidatePath(availabilityPath);
+  revalidatePath("/dashboard/employee/available-jobs");
+  return encodedRedirect("success", availabilityPath, "Blackout dates removed");
+}
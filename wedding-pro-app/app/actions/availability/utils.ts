@@ -0,0 +1,54 @@
+"use server";
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import type { BlackoutDate, EmployeeAvailability, WeeklyAvailability } from "./types";
+
+/**
+ * Get the given employees' weekly availability and blackouts that haven't
+ * ended yet, keyed by user ID. Every requested employee gets an entry, empty
+ * if they haven't set any.
+ */
+export async function getAvailabilityForUsers(
+  supabase: SupabaseClient,
+  orgId: string,
+  userIds: string[]
+): Promise<{ data?: Record<string, EmployeeAvailability>; error?: string }> {
+  const availability: Record<string, EmployeeAvailability> = {};
+  if (userIds.length === 0) {
+    return { data: availability };
+  }
+
+  const now = new Date();
+  const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+
+  const [{ data: weekly, error: weeklyError }, { data: blackouts, error: blackoutsError }] = await Promise.all([
+    supabase
+      .from('employee_weekly_availability')
+      .select('user_id, weekday, start_time, end_time')
+      .eq('org_id', orgId)
+      .in('user_id', userIds),
+    supabase
+      .from('employee_blackout_dates')
+      .select('user_id, start_date, end_date, reason')
+      .eq('org_id', orgId)
+      .in('user_id', userIds)
+      .gte('end_date', today)
+  ]);
+
+  if (weeklyError || blackoutsError) {
+    console.error("Error fetching employee availability:", weeklyError || blackoutsError);
+    return { error: "Failed to check employee availability" };
+  }
+
+  for (const userId of userIds) {
+    availability[userId] = { weekly: [], blackouts: [] };
+  }
+  for (const { user_id, ...window } of (weekly || []) as Pick<WeeklyAvailability, 'user_id' | 'weekday' | 'start_time' | 'end_time'>[]) {
+    availability[user_id]?.weekly.push(window);
+  }
+  for (const { user_id, ...period } of (blackouts || []) as Pick<BlackoutDate, 'user_id' | 'start_date' | 'end_date' | 'reason'>[]) {
+    availability[user_id]?.blackouts.push(period);
+  }
+
+  return { data: availability };
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCalendarFeed,
+  escapeICSText,
+  foldICSLine,
+  formatICSDateTime,
+  formatVenueAddress,
+  getCalendarFeedUrl,
+} from './client-utils';
+import type { CalendarFeedEvent } from './types';
+
+const baseEvent: CalendarFeedEvent = {
+  assignmentId: 'assignment-1',
+  sequence: 2,
+  cancelled: false,
+  updatedAt: '2025-06-01T12:00:00Z',
+  jobId: 'job-1',
+  jobTitle: 'Smith wedding',
+  jobDescription: null,
+  shiftName: 'Main',
+  roleName: 'Lead Photographer',
+  startTime: '2025-06-14T18:00:00Z',
+  endTime: '2025-06-15T01:00:00Z',
+  callTime: '2025-06-14T17:30:00Z',
+  venueName: 'The Grand Hall',
+  venueAddress: '12 Main St, Austin, TX 78701',
+};
+
+const options = {
+  calendarName: 'Wedding Pro – Alex',
+  appUrl: 'https://app.example.com/',
+  generatedAt: new Date('2025-06-02T08:00:00Z'),
+};
+
+describe('calendar feed client utils', () => {
+  describe('getCalendarFeedUrl', () => {
+    it('should build an .ics URL without a double slash', () => {
+      expect(getCalendarFeedUrl('https://app.example.com/', 'abc')).toBe('https://app.example.com/api/calendar/abc.ics');
+    });
+  });
+
+  describe('escapeICSText', () => {
+    it('should escape backslashes, separators and newlines', () => {
+      expect(escapeICSText('Hall; Room 2, East\\West\nBring lenses')).toBe('Hall\\; Room 2\\, East\\\\West\\nBring lenses');
+    });
+  });
+
+  describe('foldICSLine', () => {
+    it('should fold long lines at 75 octets without splitting characters', () => {
+      const line = `SUMMARY:${'é'.repeat(60)}`;
+      const folded = foldICSLine(line);
+      const encoder = new TextEncoder();
+
+      expect(folded.split('\r\n').every(part => encoder.encode(part).length <= 75)).toBe(true);
+      expect(folded.replace(/\r\n /g, '')).toBe(line);
+    });
+  });
+
+  describe('formatICSDateTime', () => {
+    it('should format timestamps as UTC', () => {
+      expect(formatICSDateTime('2025-06-14T13:00:00-05:00')).toBe('20250614T180000Z');
+    });
+  });
+
+  describe('formatVenueAddress', () => {
+    it('should skip blank parts', () => {
+      expect(formatVenueAddress({ address: '12 Main St', city: 'Austin', state: 'TX', zip_code: null }))
+        .toBe('12 Main St, Austin, TX');
+      expect(formatVenueAddress({})).toBeNull();
+    });
+  });
+
+  describe('buildCalendarFeed', () => {
+    it('should start events at call time with a stable UID and the stored sequence', () => {
+      const feed = buildCalendarFeed([baseEvent], options);
+      const unfolded = feed.replace(/\r\n /g, '');
+
+      expect(feed.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+      expect(feed.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(unfolded).toContain('UID:assignment-assignment-1@wedding-pro');
+      expect(unfolded).toContain('SEQUENCE:2');
+      expect(unfolded).toContain('DTSTART:20250614T173000Z');
+      expect(unfolded).toContain('DTEND:20250615T010000Z');
+      expect(unfolded).toContain('SUMMARY:Smith wedding (Lead Photographer)');
+      expect(unfolded).toContain('LOCATION:The Grand Hall\\, 12 Main St\\, Austin\\, TX 78701');
+      expect(unfolded).toContain('Call time: 30 minutes before the start');
+      expect(unfolded).toContain('URL:https://app.example.com/dashboard/employee/jobs/job-1');
+      expect(unfolded).toContain('STATUS:CONFIRMED');
+    });
+
+    it('should name non-default shifts and mark dropped assignments cancelled', () => {
+      const feed = buildCalendarFeed(
+        [{ ...baseEvent, shiftName: 'Rehearsal dinner', callTime: null, cancelled: true, sequence: 3 }],
+        options
+      ).replace(/\r\n /g, '');
+
+      expect(feed).toContain('SUMMARY:Cancelled: Smith wedding – Rehearsal dinner (Lead Photographer)');
+      expect(feed).toContain('DTSTART:20250614T180000Z');
+      expect(feed).toContain('SEQUENCE:3');
+      expect(feed).toContain('STATUS:CANCELLED');
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import type { CalendarFeedEvent } from "./types";
+
+// Pure helpers for building iCalendar (RFC 5545) feeds.
+
+const PRODUCT_ID = "-//Wedding Pro//Assignments//EN";
+const UID_DOMAIN = "wedding-pro";
+
+/**
+ * Build the subscription URL for a feed token
+ */
+export function getCalendarFeedUrl(appUrl: string, token: string): string {
+  return `${appUrl.replace(/\/$/, '')}/api/calendar/${token}.ics`;
+}
+
+/**
+ * Escape text for use in an iCalendar property value
+ */
+export function escapeICSText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets, continuing with a leading space
+ */
+export function foldICSLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  const limit = () => (parts.length === 0 ? 75 : 74); // Continuations lose one octet to the space
+
+  for (const char of Array.from(line)) {
+    const charBytes = encoder.encode(char).length;
+    if (currentBytes + charBytes > limit()) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Format a timestamp as an iCalendar UTC date-time, e.g. 20250614T180000Z
+ */
+export function formatICSDateTime(value: string | Date): string {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Join venue address parts into one line, skipping blanks
+ */
+export function formatVenueAddress(venue: {
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zip_code?: string | null;
+}): string | null {
+  const cityLine = [venue.state, venue.zip_code].filter(Boolean).join(' ');
+  const parts = [venue.address, venue.city, cityLine].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+function buildEvent(event: CalendarFeedEvent, appUrl: string, generatedAt: Date): string[] {
+  const jobUrl = `${appUrl.replace(/\/$/, '')}/dashboard/employee/jobs/${event.jobId}`;
+  // Single-shift jobs keep the default shift name, which adds nothing to the title
+  const title = event.shiftName && event.shiftName !== 'Main'
+    ? `${event.jobTitle} – ${event.shiftName}`
+    : event.jobTitle;
+  const summary = event.roleName ? `${title} (${event.roleName})` : title;
+
+  // The calendar block starts at call time, when the employee needs to be there
+  const blockStart = event.callTime ?? event.startTime;
+  const callLeadMinutes = event.callTime
+    ? Math.round((new Date(event.startTime).getTime() - new Date(event.callTime).getTime()) / 60000)
+    : 0;
+
+  const description = [
+    event.roleName ? `Role: ${event.roleName}` : null,
+    callLeadMinutes > 0 ? `Call time: ${callLeadMinutes} minutes before the start` : null,
+    event.venueName ? `Venue: ${event.venueName}` : null,
+    event.jobDescription,
+    jobUrl,
+  ].filter(Boolean).join('\n');
+
+  const location = [event.venueName, event.venueAddress].filter(Boolean).join(', ');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:assignment-${event.assignmentId}@${UID_DOMAIN}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatICSDateTime(generatedAt)}`,
+    `LAST-MODIFIED:${formatICSDateTime(event.updatedAt)}`,
+    `DTSTART:${formatICSDateTime(blockStart)}`,
+    `DTEND:${formatICSDateTime(event.endTime)}`,
+    `SUMMARY:${escapeICSText(event.cancelled ? `Cancelled: ${summary}` : summary)}`,
+    `DESCRIPTION:${escapeICSText(description)}`,
+  ];
+  if (location) {
+    lines.push(`LOCATION:${escapeICSText(location)}`);
+  }
+  lines.push(
+    `URL:${jobUrl}`,
+    `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'TRANSP:OPAQUE',
+    'END:VEVENT'
+  );
+
+  return lines;
+}
+
+/**
+ * Build an iCalendar feed of an employee's assignments.
+ * Each assignment keeps the same UID for its lifetime and carries the
+ * sequence from the database, so calendar apps update or cancel their copy
+ * instead of adding a duplicate.
+ */
+export function buildCalendarFeed(
+  events: CalendarFeedEvent[],
+  options: { calendarName: string; appUrl: string; generatedAt?: Date }
+): string {
+  const generatedAt = options.generatedAt ?? new Date();
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICSText(options.calendarName)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...events.flatMap(event => buildEvent(event, options.appUrl, generatedAt)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldICSLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,49 @@
+"use server";
+
+import { randomBytes } from "crypto";
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+
+/**
+ * Create a calendar subscription URL for the current user.
+ * Any existing URL is revoked first, so this also serves as "reset link".
+ */
+export async function createCalendarFeed() {
+  const supabase = await createClient();
+  const schedulePath = "/dashboard/employee/schedule";
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return encodedRedirect("error", "/sign-in", "You must be logged in");
+  }
+
+  // Revoke the current token, if any
+  const { error: revokeError } = await supabase
+    .from('calendar_feed_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('user_id', user.id)
+    .is('revoked_at', null);
+
+  if (revokeError) {
+    console.error("Error revoking calendar feed token:", revokeError);
+    return encodedRedirect("error", schedulePath, "Failed to reset calendar link");
+  }
+
+  const { error } = await supabase
+    .from('calendar_feed_tokens')
+    .insert([
+      {
+        user_id: user.id,
+        token: randomBytes(32).toString('base64url')
+      }
+    ]);
+
+  if (error) {
+    console.error("Error creating calendar feed token:", error);
+    return encodedRedirect("error", schedulePath, "Failed to create calendar link");
+  }
+
+  revalidatePath(schedulePath);
+  return encodedRedirect("success", schedulePath, "Calendar link created");
+}
@@ -0,0 +1,30 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import type { CalendarFeedToken } from "./types";
+
+/**
+ * Get the current user's active calendar feed token, if they have one
+ */
+export async function getMyCalendarFeed() {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { error: "You must be logged in" };
+  }
+
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .select('*')
+    .eq('user_id', user.id)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching calendar feed token:", error);
+    return { error: "Failed to fetch calendar link" };
+  }
+
+  return { data: data as CalendarFeedToken | null };
+}
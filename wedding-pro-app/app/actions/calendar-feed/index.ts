@@ -0,0 +1,10 @@
+"use server";
+
+// This file re-exports all public actions and types related to employee calendar feeds.
+
+export { createCalendarFeed } from './create';
+export { getMyCalendarFeed } from './fetch';
+export { revokeCalendarFeed } from './update';
+
+// Re-export all types from the dedicated types module
+export * from './types';
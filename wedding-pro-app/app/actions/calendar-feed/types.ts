@@ -0,0 +1,31 @@
+/**
+ * The secret token behind an employee's calendar subscription URL
+ */
+export type CalendarFeedToken = {
+  id: string;
+  user_id: string;
+  token: string;
+  created_at: string;
+  last_accessed_at: string | null;
+  revoked_at: string | null;
+};
+
+/**
+ * One assignment as it appears in a calendar feed
+ */
+export type CalendarFeedEvent = {
+  assignmentId: string; // Used as the event UID
+  sequence: number;
+  cancelled: boolean;
+  updatedAt: string;
+  jobId: string;
+  jobTitle: string;
+  jobDescription: string | null;
+  shiftName: string | null;
+  roleName: string | null;
+  startTime: string;
+  endTime: string;
+  callTime: string | null;
+  venueName: string | null;
+  venueAddress: string | null; // Single line, e.g. "12 Main St, Austin, TX 78701"
+};
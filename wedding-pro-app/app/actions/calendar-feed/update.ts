@@ -0,0 +1,33 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+
+/**
+ * Revoke the current user's calendar subscription URL.
+ * Calendars subscribed to it stop receiving updates.
+ */
+export async function revokeCalendarFeed() {
+  const supabase = await createClient();
+  const schedulePath = "/dashboard/employee/schedule";
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return encodedRedirect("error", "/sign-in", "You must be logged in");
+  }
+
+  const { error } = await supabase
+    .from('calendar_feed_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('user_id', user.id)
+    .is('revoked_at', null);
+
+  if (error) {
+    console.error("Error revoking calendar feed token:", error);
+    return encodedRedirect("error", schedulePath, "Failed to revoke calendar link");
+  }
+
+  revalidatePath(schedulePath);
+  return encodedRedirect("success", schedulePath, "Calendar link revoked");
+}
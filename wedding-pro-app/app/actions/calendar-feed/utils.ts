@@ -0,0 +1,110 @@
+"use server";
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { formatVenueAddress } from "./client-utils";
+import type { CalendarFeedEvent } from "./types";
+
+// Past events stay in the feed this long so recent history is still visible
+const FEED_HISTORY_DAYS = 60;
+
+/**
+ * Load the events for an employee's calendar feed: current assignments, plus
+ * dropped or declined ones so the feed can publish their cancellation.
+ * Takes a service-role client, since feed requests have no session.
+ */
+export async function getCalendarFeedEvents(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<{ data?: CalendarFeedEvent[]; error?: string }> {
+  const since = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data: events, error: eventsError } = await supabase
+    .from('assignment_calendar_events')
+    .select(`
+      assignment_id,
+      sequence,
+      cancelled_at,
+      updated_at,
+      job:job_id!inner (
+        id,
+        title,
+        description,
+        start_time,
+        end_time,
+        status,
+        venue:venue_id (
+          name, address, city, state, zip_code
+        )
+      )
+    `)
+    .eq('user_id', userId)
+    .gte('job.end_time', since);
+
+  if (eventsError) {
+    console.error("Error fetching calendar feed events:", eventsError);
+    return { error: "Failed to load calendar events" };
+  }
+
+  // Shift and role details for assignments that still exist
+  const assignmentIds = (events || []).filter((event: any) => !event.cancelled_at).map((event: any) => event.assignment_id);
+  const assignmentsById = new Map<string, any>();
+
+  if (assignmentIds.length > 0) {
+    const { data: assignments, error: assignmentsError } = await supabase
+      .from('job_assignments')
+      .select(`
+        id,
+        shift:shift_id (
+          name,
+          start_time,
+          end_time,
+          call_time,
+          venue:venue_id (
+            name, address, city, state, zip_code
+          )
+        ),
+        job_required_role:job_required_role_id (
+          role_name
+        )
+      `)
+      .in('id', assignmentIds);
+
+    if (assignmentsError) {
+      console.error("Error fetching calendar feed assignments:", assignmentsError);
+      return { error: "Failed to load calendar events" };
+    }
+
+    for (const assignment of assignments || []) {
+      assignmentsById.set(assignment.id, assignment);
+    }
+  }
+
+  const single = (value: any) => (Array.isArray(value) ? value[0] : value);
+
+  const feedEvents = (events || []).map((event: any): CalendarFeedEvent => {
+    const job = single(event.job);
+    const assignment = assignmentsById.get(event.assignment_id);
+    const shift = single(assignment?.shift);
+    const role = single(assignment?.job_required_role);
+    const venue = single(shift?.venue) ?? single(job.venue);
+
+    return {
+      assignmentId: event.assignment_id,
+      sequence: event.sequence,
+      cancelled: !!event.cancelled_at || job.status === 'cancelled',
+      updatedAt: event.updated_at,
+      jobId: job.id,
+      jobTitle: job.title,
+      jobDescription: job.description ?? null,
+      shiftName: shift?.name ?? null,
+      roleName: role?.role_name ?? null,
+      startTime: shift?.start_time ?? job.start_time,
+      endTime: shift?.end_time ?? job.end_time,
+      callTime: shift?.call_time ?? null,
+      venueName: venue?.name ?? null,
+      venueAddress: venue ? formatVenueAddress(venue) : null,
+    };
+  });
+
+  return { data: feedEvents.sort((a, b) => a.startTime.localeCompare(b.startTime)) };
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  build1099Batch,
+  buildContractorSummaries,
+  buildStatementExport,
+  getReportingThreshold,
+  summarizeStatementPeriods
+} from './client-utils';
+
+const contractor = {
+  id: 'u1',
+  full_name: 'Ana Lopez',
+  email: 'ana@example.com',
+  address: '1 Main St',
+  city: 'Austin',
+  state: 'TX',
+  zip: '78701',
+};
+
+describe('contractor 1099 client utils', () => {
+  describe('getReportingThreshold', () => {
+    it('should be $600 through 2025 and $2,000 from 2026', () => {
+      expect(getReportingThreshold(2025)).toBe(600);
+      expect(getReportingThreshold(2026)).toBe(2000);
+    });
+  });
+
+  describe('buildContractorSummaries', () => {
+    it('should count travel pay towards the threshold and sort by name', () => {
+      const summaries = buildContractorSummaries([
+        { user_id: 'u1', earnings: 550, reimbursements: 50, run_count: 2 },
+        { user_id: 'u2', earnings: 1500, reimbursements: 0, run_count: 3 },
+      ], [contractor, { ...contractor, id: 'u2', full_name: 'Ben Cole' }], 2025);
+
+      expect(summaries.map(summary => [summary.full_name, summary.total_paid, summary.meets_threshold])).toEqual([
+        ['Ana Lopez', 600, true],
+        ['Ben Cole', 1500, true],
+      ]);
+
+      const [later] = buildContractorSummaries(
+        [{ user_id: 'u2', earnings: 1500, reimbursements: 0, run_count: 3 }],
+        [contractor],
+        2026
+      );
+      expect(later.meets_threshold).toBe(false);
+    });
+  });
+
+  describe('summarizeStatementPeriods', () => {
+    it('should total each run and split out reimbursements', () => {
+      const june = { id: 'r2', period_start: '2025-06-01', period_end: '2025-06-15' };
+      const may = { id: 'r1', period_start: '2025-05-16', period_end: '2025-05-31' };
+
+      expect(summarizeStatementPeriods([
+        { line_type: 'role_pay', amount: 300, payroll_run: june },
+        { line_type: 'travel_pay', amount: 50, payroll_run: june },
+        { line_type: 'adjustment', amount: -20, payroll_run: june },
+        { line_type: 'role_pay', amount: 200, payroll_run: may },
+        { line_type: 'expense', amount: 15, payroll_run: may },
+      ])).toEqual([
+        { payroll_run_id: 'r1', period_start: '2025-05-16', period_end: '2025-05-31', earnings: 200, reimbursements: 15, total: 215 },
+        { payroll_run_id: 'r2', period_start: '2025-06-01', period_end: '2025-06-15', earnings: 280, reimbursements: 50, total: 330 },
+      ]);
+    });
+  });
+
+  describe('exports', () => {
+    const [summary] = buildContractorSummaries(
+      [{ user_id: 'u1', earnings: 480, reimbursements: 50, run_count: 2 }],
+      [contractor],
+      2025
+    );
+
+    it('should end the statement with a total row', () => {
+      const { rows } = buildStatementExport({
+        year: 2025,
+        payer_name: 'Acme Weddings',
+        threshold: 600,
+        contractor: summary,
+        periods: [
+          { payroll_run_id: 'r1', period_start: '2025-05-16', period_end: '2025-05-31', earnings: 200, reimbursements: 0, total: 200 },
+          { payroll_run_id: 'r2', period_start: '2025-06-01', period_end: '2025-06-15', earnings: 280, reimbursements: 50, total: 330 },
+        ],
+      });
+
+      expect(rows).toHaveLength(3);
+      expect(rows[2]).toMatchObject({ 'Period Start': 'Total', 'Earnings': '480.00', 'Total': '530.00' });
+    });
+
+    it('should lay out the accountant batch with a blank TIN and the 1099 flag', () => {
+      const { columns, rows } = build1099Batch([summary], 2025);
+      expect(columns).toContain('Recipient TIN');
+      expect(rows[0]).toMatchObject({
+        'Recipient Name': 'Ana Lopez',
+        'Last Name': 'Lopez',
+        'Recipient TIN': '',
+        'Nonemployee Compensation': '530.00',
+        'Of Which Reimbursements': '50.00',
+        '1099 Required': 'No',
+      });
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import type { PayrollExportTable, PayrollLineType, PayrollRun, PayrollRunLine } from "../payroll/types";
+import { splitName } from "../payroll/client-utils";
+import type {
+  Contractor,
+  ContractorStatement,
+  ContractorStatementPeriod,
+  ContractorYearSummary,
+  ContractorYearTotals
+} from "./types";
+
+/**
+ * 1099-NEC reporting threshold: $600 a year through 2025, $2,000 from 2026
+ */
+export function getReportingThreshold(year: number): number {
+  return year >= 2026 ? 2000 : 600;
+}
+
+/**
+ * Whether a payroll line is a reimbursement rather than earnings
+ */
+export function isReimbursementLine(lineType: PayrollLineType): boolean {
+  return lineType === 'travel_pay' || lineType === 'expense';
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+const formatMoney = (value: number) => roundMoney(value).toFixed(2);
+
+/**
+ * Combine each contractor's totals for the year with their details, sorted by
+ * name. Reimbursements (travel pay and expense claims) are paid to the
+ * contractor, so they count towards the threshold along with earnings.
+ */
+export function buildContractorSummaries(
+  totals: ContractorYearTotals[],
+  contractors: Contractor[],
+  year: number
+): ContractorYearSummary[] {
+  const threshold = getReportingThreshold(year);
+  const contractorsById = new Map<string, Contractor>(contractors.map(contractor => [contractor.id, contractor]));
+
+  return totals
+    .map(total => {
+      const contractor = contractorsById.get(total.user_id);
+      const earnings = roundMoney(Number(total.earnings));
+      const reimbursements = roundMoney(Number(total.reimbursements));
+      const totalPaid = roundMoney(earnings + reimbursements);
+
+      return {
+        id: total.user_id,
+        full_name: contractor?.full_name ?? null,
+        email: contractor?.email ?? null,
+        address: contractor?.address ?? null,
+        city: contractor?.city ?? null,
+        state: contractor?.state ?? null,
+        zip: contractor?.zip ?? null,
+        earnings,
+        reimbursements,
+        total_paid: totalPaid,
+        run_count: Number(total.run_count),
+        meets_threshold: totalPaid >= threshold,
+      };
+    })
+    .sort((a, b) => (a.full_name || a.email || '').localeCompare(b.full_name || b.email || ''));
+}
+
+/**
+ * Total a contractor's payroll lines by run, in period order
+ */
+export function summarizeStatementPeriods(
+  lines: (Pick<PayrollRunLine, 'line_type' | 'amount'> & {
+    payroll_run: Pick<PayrollRun, 'id' | 'period_start' | 'period_end'>;
+  })[]
+): ContractorStatementPeriod[] {
+  const periods = new Map<string, ContractorStatementPeriod>();
+
+  for (const line of lines) {
+    let period = periods.get(line.payroll_run.id);
+    if (!period) {
+      period = {
+        payroll_run_id: line.payroll_run.id,
+        period_start: line.payroll_run.period_start,
+        period_end: line.payroll_run.period_end,
+        earnings: 0,
+        reimbursements: 0,
+        total: 0,
+      };
+      periods.set(line.payroll_run.id, period);
+    }
+
+    const amount = Number(line.amount);
+    if (isReimbursementLine(line.line_type)) {
+      period.reimbursements += amount;
+    } else {
+      period.earnings += amount;
+    }
+    period.total += amount;
+  }
+
+  return Array.from(periods.values())
+    .map(period => ({
+      ...period,
+      earnings: roundMoney(period.earnings),
+      reimbursements: roundMoney(period.reimbursements),
+      total: roundMoney(period.total),
+    }))
+    .sort((a, b) => a.period_start.localeCompare(b.period_start));
+}
+
+/**
+ * A contractor's statement as CSV rows: one per payroll run and a total
+ */
+export function buildStatementExport(statement: ContractorStatement): PayrollExportTable {
+  const columns = ['Tax Year', 'Contractor', 'Period Start', 'Period End', 'Earnings', 'Reimbursements', 'Total'];
+  const name = statement.contractor.full_name || statement.contractor.email || '';
+
+  const rows = statement.periods.map(period => ({
+    'Tax Year': String(statement.year),
+    'Contractor': name,
+    'Period Start': period.period_start,
+    'Period End': period.period_end,
+    'Earnings': formatMoney(period.earnings),
+    'Reimbursements': formatMoney(period.reimbursements),
+    'Total': formatMoney(period.total),
+  }));
+
+  rows.push({
+    'Tax Year': String(statement.year),
+    'Contractor': name,
+    'Period Start': 'Total',
+    'Period End': '',
+    'Earnings': formatMoney(statement.contractor.earnings),
+    'Reimbursements': formatMoney(statement.contractor.reimbursements),
+    'Total': formatMoney(statement.contractor.total_paid),
+  });
+
+  return { columns, rows };
+}
+
+/**
+ * The year's contractors as a batch for an accountant preparing 1099-NECs.
+ * Nonemployee compensation includes reimbursements, which are also given
+ * separately. TINs aren't stored, so that column is left for the accountant to
+ * fill in.
+ */
+export function build1099Batch(summaries: ContractorYearSummary[], year: number): PayrollExportTable {
+  const columns = [
+    'Tax Year', 'Recipient Name', 'First Name', 'Last Name', 'Recipient TIN', 'Email',
+    'Address', 'City', 'State', 'ZIP', 'Nonemployee Compensation', 'Of Which Reimbursements', '1099 Required'
+  ];
+
+  const rows = summaries.map(summary => {
+    const { first_name, last_name } = splitName(summary.full_name);
+    return {
+      'Tax Year': String(year),
+      'Recipient Name': summary.full_name || '',
+      'First Name': first_name,
+      'Last Name': last_name,
+      'Recipient TIN': '',
+      'Email': summary.email || '',
+      'Address': summary.address || '',
+      'City': summary.city || '',
+      'State': summary.state || '',
+      'ZIP': summary.zip || '',
+      'Nonemployee Compensation': formatMoney(summary.total_paid),
+      'Of Which Reimbursements': formatMoney(summary.reimbursements),
+      '1099 Required': summary.meets_threshold ? 'Yes' : 'No',
+    };
+  });
+
+  return { columns, rows };
+}
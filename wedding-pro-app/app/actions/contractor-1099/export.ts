@@ -0,0 +1,69 @@
+"use server";
+
+import { convertTableToCSV } from "../csv-export/utils";
+import { build1099Batch, buildStatementExport } from "./client-utils";
+import { getContractorStatement, getContractorYearSummaries } from "./fetch";
+
+const toFileName = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/**
+ * Export a contractor's year-end statement as CSV
+ */
+export async function exportContractorStatement(
+  year: number,
+  userId: string
+): Promise<{ success: boolean; data?: string; filename?: string; error?: string }> {
+  try {
+    const { data: statement, error } = await getContractorStatement(year, userId);
+    if (error || !statement) {
+      return { success: false, error: error || "Statement not found" };
+    }
+
+    const { columns, rows } = buildStatementExport(statement);
+    const name = toFileName(statement.contractor.full_name || statement.contractor.email || 'contractor');
+
+    return {
+      success: true,
+      data: convertTableToCSV(columns, rows),
+      filename: `1099-statement-${year}-${name}.csv`
+    };
+  } catch (error: any) {
+    console.error("Error exporting contractor statement:", error);
+    return {
+      success: false,
+      error: error.message || "An error occurred while exporting the statement"
+    };
+  }
+}
+
+/**
+ * Export every contractor paid in a year as a batch file for an accountant
+ */
+export async function export1099Batch(
+  year: number
+): Promise<{ success: boolean; data?: string; filename?: string; error?: string }> {
+  try {
+    const { data: summaries, error } = await getContractorYearSummaries(year);
+    if (error || !summaries) {
+      return { success: false, error: error || "Failed to fetch contractor totals" };
+    }
+
+    if (summaries.length === 0) {
+      return { success: false, error: `No approved payroll runs end in ${year}` };
+    }
+
+    const { columns, rows } = build1099Batch(summaries, year);
+
+    return {
+      success: true,
+      data: convertTableToCSV(columns, rows),
+      filename: `1099-batch-${year}.csv`
+    };
+  } catch (error: any) {
+    console.error("Error exporting 1099 batch:", error);
+    return {
+      success: false,
+      error: error.message || "An error occurred while exporting the batch"
+    };
+  }
+}
@@ -0,0 +1,146 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { checkPayrollPermission } from "../payroll/utils";
+import { buildContractorSummaries, getReportingThreshold, summarizeStatementPeriods } from "./client-utils";
+import type { Contractor, ContractorStatement, ContractorYearSummary, ContractorYearTotals } from "./types";
+
+const CONTRACTOR_SELECT = 'id, full_name, email, address, city, state, zip';
+
+/**
+ * Check a tax year is a plain four-digit year
+ */
+function isValidYear(year: number) {
+  return Number.isInteger(year) && year >= 2000 && year <= 2100;
+}
+
+/**
+ * Get what each contractor was paid in a year from approved payroll runs,
+ * flagging who meets the 1099 reporting threshold (admins only)
+ */
+export async function getContractorYearSummaries(
+  year: number
+): Promise<{ data?: ContractorYearSummary[]; error?: string }> {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkPayrollPermission();
+  if (!authorized || !profile) {
+    return { error: permError || "Unauthorized" };
+  }
+
+  if (!isValidYear(year)) {
+    return { error: "Invalid tax year" };
+  }
+
+  const { data: totals, error } = await supabase.rpc('contractor_year_totals', {
+    p_org_id: profile.org_id,
+    p_year: year
+  });
+
+  if (error) {
+    console.error("Error fetching contractor year totals:", error);
+    return { error: "Failed to fetch contractor totals" };
+  }
+
+  const yearTotals = (totals || []) as ContractorYearTotals[];
+  if (yearTotals.length === 0) {
+    return { data: [] };
+  }
+
+  const { data: contractors, error: contractorsError } = await supabase
+    .from('profiles')
+    .select(CONTRACTOR_SELECT)
+    .in('id', yearTotals.map(total => total.user_id));
+
+  if (contractorsError) {
+    console.error("Error fetching contractors:", contractorsError);
+    return { error: "Failed to fetch contractors" };
+  }
+
+  return { data: buildContractorSummaries(yearTotals, (contractors || []) as Contractor[], year) };
+}
+
+/**
+ * Get a contractor's year-end statement: what they were paid in each approved
+ * payroll run whose period ends in the year (admins only)
+ */
+export async function getContractorStatement(
+  year: number,
+  userId: string
+): Promise<{ data?: ContractorStatement; error?: string }> {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkPayrollPermission();
+  if (!authorized || !profile) {
+    return { error: permError || "Unauthorized" };
+  }
+
+  if (!isValidYear(year)) {
+    return { error: "Invalid tax year" };
+  }
+
+  const { data: contractor, error: contractorError } = await supabase
+    .from('profiles')
+    .select(CONTRACTOR_SELECT)
+    .eq('id', userId)
+    .single();
+
+  if (contractorError || !contractor) {
+    return { error: "Contractor not found" };
+  }
+
+  const { data: lines, error: linesError } = await supabase
+    .from('payroll_run_lines')
+    .select(`
+      line_type, amount,
+      payroll_run:payroll_run_id!inner (
+        id, status, period_start, period_end
+      )
+    `)
+    .eq('org_id', profile.org_id)
+    .eq('user_id', userId)
+    .eq('payroll_run.status', 'approved')
+    .gte('payroll_run.period_end', `${year}-01-01`)
+    .lte('payroll_run.period_end', `${year}-12-31`);
+
+  if (linesError) {
+    console.error("Error fetching contractor payroll lines:", linesError);
+    return { error: "Failed to fetch payroll lines" };
+  }
+
+  const periods = summarizeStatementPeriods(
+    ((lines || []) as any[]).map(line => ({
+      ...line,
+      payroll_run: Array.isArray(line.payroll_run) ? line.payroll_run[0] : line.payroll_run,
+    }))
+  );
+
+  const [summary] = buildContractorSummaries(
+    [{
+      user_id: userId,
+      earnings: periods.reduce((sum, period) => sum + period.earnings, 0),
+      reimbursements: periods.reduce((sum, period) => sum + period.reimbursements, 0),
+      run_count: periods.length,
+    }],
+    [contractor as Contractor],
+    year
+  );
+
+  const { data: org } = await supabase
+    .from('orgs')
+    .select('name')
+    .eq('id', profile.org_id)
+    .single();
+
+  return {
+    data: {
+      year,
+      payer_name: org?.name || '',
+      threshold: getReportingThreshold(year),
+      contractor: summary,
+      periods,
+    },
+  };
+}
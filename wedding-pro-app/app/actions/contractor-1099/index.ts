@@ -0,0 +1,9 @@
+"use server";
+
+// This file re-exports all public actions and types related to contractor 1099 reporting.
+
+export { getContractorYearSummaries, getContractorStatement } from './fetch';
+export { exportContractorStatement, export1099Batch } from './export';
+
+// Re-export all types from the dedicated types module
+export * from './types';
@@ -0,0 +1,56 @@
+/**
+ * A contractor's name and mailing address, as shown on their statement
+ */
+export type Contractor = {
+  id: string;
+  full_name: string | null;
+  email: string | null;
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+};
+
+/**
+ * What the org paid a contractor in a year, from approved payroll runs
+ */
+export type ContractorYearTotals = {
+  user_id: string;
+  earnings: number; // Everything except reimbursements, net of adjustments
+  reimbursements: number; // Travel pay and expense claims
+  run_count: number;
+};
+
+/**
+ * A contractor's year, with whether it has to be reported on a 1099-NEC
+ */
+export type ContractorYearSummary = Contractor & {
+  earnings: number;
+  reimbursements: number;
+  total_paid: number;
+  run_count: number;
+  meets_threshold: boolean;
+};
+
+/**
+ * What a contractor was paid in one payroll run
+ */
+export type ContractorStatementPeriod = {
+  payroll_run_id: string;
+  period_start: string;
+  period_end: string;
+  earnings: number;
+  reimbursements: number;
+  total: number;
+};
+
+/**
+ * A contractor's year-end earnings statement
+ */
+export type ContractorStatement = {
+  year: number;
+  payer_name: string;
+  threshold: number;
+  contractor: ContractorYearSummary;
+  periods: ContractorStatementPeriod[];
+};
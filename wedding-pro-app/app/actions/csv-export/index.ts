@@ -44,6 +44,8 @@ export async function generateJobsCSV(options: CSVExportOptions): Promise<string
             assignment_completed_at: assignment.completed_at,
             employee_name: assignment.profiles?.full_name || '',
             employee_email: assignment.profiles?.email || '',
+            assignment_expected_pay: assignment.expected_pay ?? '',
+            assignment_approved_expenses: assignment.approved_expenses ?? '',
           });
         });
       } else {
@@ -71,6 +73,12 @@ export async function generateJobsCSV(options: CSVExportOptions): Promise<string
     if (!options.selectedFields.employee_email) {
       options.selectedFields.employee_email = true;
     }
+    if (!options.selectedFields.assignment_expected_pay) {
+      options.selectedFields.assignment_expected_pay = true;
+    }
+    if (!options.selectedFields.assignment_approved_expenses) {
+      options.selectedFields.assignment_approved_expenses = true;
+    }
   }
   
   // Convert to CSV
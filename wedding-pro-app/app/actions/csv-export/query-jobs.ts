@@ -2,6 +2,8 @@ import { createClient } from "@/utils/supabase/server";
 import { getCurrentUserProfile, isAdmin } from "@/utils/supabase/auth-helpers";
 import type { CSVExportOptions } from "./index"; // Assuming CSVExportOptions will remain in index.ts
 import { getDateRangeFilter, hasExportPermission } from "./utils";
+import { calculateExpectedEarnings, calculateLaborCost, getShiftHours } from "../role-compensation/client-utils";
+import { sumApprovedClaims } from "../expense-claims/client-utils";
 
 /**
  * Query jobs data based on export options
@@ -45,6 +47,9 @@ export async function queryJobsData(options: CSVExportOptions): Promise<any[]> {
   if (selectedFields.includes('first_assigned_at')) selectString += ', first_assigned_at';
   if (selectedFields.includes('time_to_fill_duration')) selectString += ', time_to_fill_duration';
   if (selectedFields.includes('assignment_to_completion_duration')) selectString += ', assignment_to_completion_duration';
+  if (selectedFields.includes('cancellation_reason')) selectString += ', cancellation_reason';
+  if (selectedFields.includes('cancelled_at')) selectString += ', cancelled_at';
+  if (selectedFields.includes('cancellation_fee_total')) selectString += ', cancellation_fee_total';
   
   // Add venue relation if needed
   if (selectedFields.includes('venue_name') || selectedFields.includes('venue_address')) {
@@ -57,7 +62,21 @@ export async function queryJobsData(options: CSVExportOptions): Promise<any[]> {
   
   // Add job assignments if includeSubtasks is true
   if (options.includeSubtasks) {
-    selectString += ', job_assignments (id, user_id, status, assigned_at, completed_at, profiles:user_id (full_name, email))';
+    selectString += ', job_assignments (id, user_id, status, assigned_at, completed_at, job_required_role_id, profiles:user_id (full_name, email))';
+  }
+  
+  // Add role pay rules, with their shift times, to work out labor cost and pay
+  const includePay = selectedFields.includes('expected_labor_cost') || !!options.includeSubtasks;
+  if (includePay) {
+    if (!selectedFields.includes('start_time')) selectString += ', start_time';
+    if (!selectedFields.includes('end_time')) selectString += ', end_time';
+    selectString += ', job_required_roles (id, quantity_needed, pay_type, pay_rate, min_hours, overtime_after_hours, overtime_multiplier, bonus_amount, shift:shift_id (start_time, end_time))';
+  }
+  
+  // Add expense claims to total the approved ones per job and assignment
+  const includeExpenses = selectedFields.includes('approved_expenses_total') || !!options.includeSubtasks;
+  if (includeExpenses) {
+    selectString += ', expense_claims (job_assignment_id, status, amount)';
   }
   
   // Add org_id
@@ -88,5 +107,54 @@ export async function queryJobsData(options: CSVExportOptions): Promise<any[]> {
     throw new Error("Failed to query jobs data");
   }
   
-  return data || [];
-}
\ No newline at end of file
+  const jobs = includeExpenses ? (data || []).map(addApprovedExpenses) : data || [];
+  
+  if (!includePay) {
+    return jobs;
+  }
+  
+  // Price each role for its shift (or the job, for roles without one)
+  return jobs.map((job: any) => {
+    const { job_required_roles: roles, ...rest } = job;
+    const pricedRoles = (roles || []).map((role: any) => {
+      const shift = Array.isArray(role.shift) ? role.shift[0] : role.shift;
+      return {
+        ...role,
+        hours: getShiftHours(shift?.start_time || job.start_time, shift?.end_time || job.end_time)
+      };
+    });
+    const rolesById = new Map<string, any>(pricedRoles.map((role: any) => [role.id, role]));
+    
+    return {
+      ...rest,
+      expected_labor_cost: calculateLaborCost(pricedRoles).total,
+      job_assignments: rest.job_assignments?.map((assignment: any) => {
+        const role = rolesById.get(assignment.job_required_role_id);
+        return {
+          ...assignment,
+          expected_pay: role ? calculateExpectedEarnings(role, role.hours)?.total ?? null : null
+        };
+      })
+    };
+  });
+}
+
+/**
+ * Replace a job's expense claims with the approved totals for the job and
+ * each of its assignments
+ */
+function addApprovedExpenses(job: any) {
+  const { expense_claims: claims, ...rest } = job;
+  const approved = (claims || []).filter((claim: any) => claim.status === 'approved');
+  
+  return {
+    ...rest,
+    approved_expenses_total: sumApprovedClaims(approved),
+    job_assignments: rest.job_assignments?.map((assignment: any) => ({
+      ...assignment,
+      approved_expenses: sumApprovedClaims(
+        approved.filter((claim: any) => claim.job_assignment_id === assignment.id)
+      )
+    }))
+  };
+}
@@ -54,6 +54,26 @@ export async function hasExportPermission(profile: UserProfile | null, dataScope
   return false;
 }
 
+/**
+ * Helper function to escape a CSV value
+ * @param value The value to escape
+ * @returns The value as a CSV cell
+ */
+function escapeCSV(value: any): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  
+  const stringValue = String(value);
+  
+  // If the value contains commas, quotes, or newlines, wrap it in quotes and escape any quotes
+  if (stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')) {
+    return `"${stringValue.replace(/"/g, '""')}"`;
+  }
+  
+  return stringValue;
+}
+
 /**
  * Helper function to convert data to CSV format
  * @param data Array of objects to convert to CSV
@@ -68,22 +88,6 @@ export function convertToCSV(data: any[], selectedFields: Record<string, boolean
   // Get the fields that are selected
   const fields = Object.keys(selectedFields).filter(field => selectedFields[field]);
   
-  // Helper function to escape CSV values
-  const escapeCSV = (value: any): string => {
-    if (value === null || value === undefined) {
-      return '';
-    }
-    
-    const stringValue = String(value);
-    
-    // If the value contains commas, quotes, or newlines, wrap it in quotes and escape any quotes
-    if (stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')) {
-      return `"${stringValue.replace(/"/g, '""')}"`;
-    }
-    
-    return stringValue;
-  };
-
   // Helper function to get nested property value
   const getNestedValue = (obj: any, path: string): any => {
     // Handle special cases for venue and location data
@@ -120,4 +124,17 @@ export function convertToCSV(data: any[], selectedFields: Record<string, boolean
   
   // Combine header and rows
   return [header, ...rows].join('\n');
-}
\ No newline at end of file
+}
+
+/**
+ * Helper function to convert rows to CSV with the header row exactly as given,
+ * for layouts such as payroll provider imports that expect fixed column names
+ * @param columns Column names, in order, used as the header row
+ * @param rows Objects keyed by column name
+ * @returns CSV formatted string
+ */
+export function convertTableToCSV(columns: string[], rows: Record<string, any>[]): string {
+  const header = columns.map(escapeCSV).join(',');
+  const lines = rows.map(row => columns.map(column => escapeCSV(row[column])).join(','));
+  return [header, ...lines].join('\n');
+}
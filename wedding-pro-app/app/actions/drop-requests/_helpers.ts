@@ -12,4 +12,25 @@ export function getJobIdFromDropRequestAssignment(jobAssignment: unknown): strin
     return (jobAssignment as { job_id?: string })?.job_id ?? null;
   }
   return null;
-}
\ No newline at end of file
+}
+
+// Helper function to safely extract the shift (if any) from dropRequest.job_assignment
+export function getShiftFromDropRequestAssignment(
+  jobAssignment: unknown
+): { name: string; start_time: string } | null {
+  const assignment = Array.isArray(jobAssignment) ? jobAssignment[0] : jobAssignment;
+  if (!assignment || typeof assignment !== 'object') {
+    return null;
+  }
+  const shift = (assignment as { shift?: unknown }).shift;
+  const shiftData = Array.isArray(shift) ? shift[0] : shift;
+  return (shiftData as { name: string; start_time: string } | undefined) ?? null;
+}
+// Helper function to safely extract the job required role ID from dropRequest.job_assignment
+export function getRoleIdFromDropRequestAssignment(jobAssignment: unknown): string | null {
+  const assignment = Array.isArray(jobAssignment) ? jobAssignment[0] : jobAssignment;
+  if (!assignment || typeof assignment !== 'object') {
+    return null;
+  }
+  return (assignment as { job_required_role_id?: string }).job_required_role_id ?? null;
+}
@@ -17,7 +17,7 @@ export async function sendDropRequestCreatedNotification(
     // First get the job ID from the job assignment
     const { data: jobAssignment } = await supabase
       .from('job_assignments')
-      .select('job_id, job_required_role_id')
+      .select('job_id, job_required_role_id, shift_id')
       .eq('id', jobAssignmentId)
       .single();
     
@@ -38,6 +38,15 @@ export async function sendDropRequestCreatedNotification(
       return { success: false };
     }
     
+    // Get shift details; the drop only covers this shift of the job
+    const { data: shift } = jobAssignment.shift_id
+      ? await supabase
+          .from('job_shifts')
+          .select('id, name, start_time')
+          .eq('id', jobAssignment.shift_id)
+          .single()
+      : { data: null };
+    
     // Get role details
     const { data: role } = await supabase
       .from('job_required_roles')
@@ -68,7 +77,9 @@ export async function sendDropRequestCreatedNotification(
     
     // Format job details
     const jobTitle = job.title || 'Untitled Job';
-    const jobDate = job.start_time ? new Date(job.start_time).toLocaleDateString() : 'unknown date';
+    const shiftStart = shift?.start_time || job.start_time;
+    const jobDate = shiftStart ? new Date(shiftStart).toLocaleDateString() : 'unknown date';
+    const shiftLabel = shift ? ` (${shift.name} shift)` : '';
     const roleName = role?.role_name || 'staff';
     const employeeName = employeeProfile?.full_name || 'An employee';
     
@@ -78,7 +89,7 @@ export async function sendDropRequestCreatedNotification(
         eventType: 'drop_request_created',
         userId: manager.id,
         title: 'New Drop Request',
-        body: `${employeeName} has requested to drop their ${roleName} assignment for ${jobTitle} on ${jobDate}.`,
+        body: `${employeeName} has requested to drop their ${roleName} assignment for ${jobTitle}${shiftLabel} on ${jobDate}.`,
         metadata: {
           dropRequestId,
           jobAssignmentId,
@@ -86,7 +97,9 @@ export async function sendDropRequestCreatedNotification(
           employeeName: employeeProfile?.full_name,
           jobId: job.id,
           jobTitle: job.title,
-          jobDate: job.start_time,
+          jobDate: shiftStart,
+          shiftId: shift?.id,
+          shiftName: shift?.name,
           roleName: role?.role_name
         }
       });
@@ -108,7 +121,8 @@ export async function sendDropRequestApprovedNotification(
   userId: string,
   jobId: string,
   jobTitle: string,
-  startTime: string
+  startTime: string,
+  shiftName?: string
 ) {
   try {
     const notificationService = createNotificationService(supabase);
@@ -116,17 +130,19 @@ export async function sendDropRequestApprovedNotification(
     // Format job details
     const formattedJobTitle = jobTitle || 'Untitled Job';
     const jobDate = startTime ? new Date(startTime).toLocaleDateString() : 'unknown date';
+    const shiftLabel = shiftName ? ` (${shiftName} shift)` : '';
     
     await notificationService.sendNotificationForEvent({
       eventType: 'drop_request_approved',
       userId,
       title: 'Drop Request Approved',
-      body: `Your request to drop the assignment for ${formattedJobTitle} on ${jobDate} has been approved.`,
+      body: `Your request to drop the assignment for ${formattedJobTitle}${shiftLabel} on ${jobDate} has been approved.`,
       metadata: {
         dropRequestId,
         jobId,
         jobTitle: formattedJobTitle,
-        jobDate: startTime
+        jobDate: startTime,
+        shiftName
       }
     });
     
@@ -147,7 +163,8 @@ export async function sendDropRequestRejectedNotification(
   jobId: string,
   jobTitle: string,
   startTime: string,
-  rejectionReason: string
+  rejectionReason: string,
+  shiftName?: string
 ) {
   try {
     const notificationService = createNotificationService(supabase);
@@ -155,17 +172,19 @@ export async function sendDropRequestRejectedNotification(
     // Format job details
     const formattedJobTitle = jobTitle || 'Untitled Job';
     const jobDate = startTime ? new Date(startTime).toLocaleDateString() : 'unknown date';
+    const shiftLabel = shiftName ? ` (${shiftName} shift)` : '';
     
     await notificationService.sendNotificationForEvent({
       eventType: 'drop_request_rejected',
       userId,
       title: 'Drop Request Rejected',
-      body: `Your request to drop the assignment for ${formattedJobTitle} on ${jobDate} has been rejected. Reason: ${rejectionReason || 'No reason provided'}`,
+      body: `Your request to drop the assignment for ${formattedJobTitle}${shiftLabel} on ${jobDate} has been rejected. Reason: ${rejectionReason || 'No reason provided'}`,
       metadata: {
         dropRequestId,
         jobId,
         jobTitle: formattedJobTitle,
         jobDate: startTime,
+        shiftName,
         rejectionReason
       }
     });
@@ -189,7 +208,8 @@ export async function sendDropRequestEscalatedNotification(
   employeeId: string,
   employeeName: string,
   escalationReason: string,
-  orgId: string
+  orgId: string,
+  shiftName?: string
 ) {
   try {
     // Get admins for this organization
@@ -209,6 +229,7 @@ export async function sendDropRequestEscalatedNotification(
     const formattedJobTitle = jobTitle || 'Untitled Job';
     const jobDate = startTime ? new Date(startTime).toLocaleDateString() : 'unknown date';
     const formattedEmployeeName = employeeName || 'An employee';
+    const shiftLabel = shiftName ? ` (${shiftName} shift)` : '';
     
     // Send notification to each admin
     for (const admin of admins) {
@@ -216,12 +237,13 @@ export async function sendDropRequestEscalatedNotification(
         eventType: 'org_announcement', // Using org_announcement for escalated requests since there's no specific type
         userId: admin.id,
         title: 'Drop Request Escalated',
-        body: `A drop request from ${formattedEmployeeName} for ${formattedJobTitle} on ${jobDate} has been escalated. Reason: ${escalationReason || 'No reason provided'}`,
+        body: `A drop request from ${formattedEmployeeName} for ${formattedJobTitle}${shiftLabel} on ${jobDate} has been escalated. Reason: ${escalationReason || 'No reason provided'}`,
         metadata: {
           dropRequestId,
           jobId,
           jobTitle: formattedJobTitle,
           jobDate: startTime,
+          shiftName,
           employeeId,
           employeeName: formattedEmployeeName,
           escalationReason,
@@ -17,7 +17,13 @@ import {
 } from "./notifications";
 
 // Import helper functions
-import { getJobIdFromDropRequestAssignment } from "./_helpers";
+import {
+  getJobIdFromDropRequestAssignment,
+  getRoleIdFromDropRequestAssignment,
+  getShiftFromDropRequestAssignment
+} from "./_helpers";
+import { transitionJobStatus } from "../jobs/utils";
+import { fillSlotFromStandby } from "../standby/utils";
 
 /**
  * Approves a drop request
@@ -45,7 +51,11 @@ export async function approveDropRequest(dropRequestId: string) {
         job_assignment:job_assignments (
           id,
           job_id,
-          user_id
+          user_id,
+          job_required_role_id,
+          shift:shift_id (
+            name, start_time
+          )
         )
       `)
       .eq('id', dropRequestId)
@@ -86,7 +96,8 @@ export async function approveDropRequest(dropRequestId: string) {
     // Start a transaction to update multiple tables
     // 1. Update the drop request status
     // 2. Delete the job assignment
-    // 3. Update the job status to indicate it needs to be reassigned
+    // 3. Reopen the job for staffing if it was fully staffed
+    // 4. Offer the slot to the role's top standby
     
     // Update the drop request
     const { error: updateError } = await supabase
@@ -114,24 +125,38 @@ export async function approveDropRequest(dropRequestId: string) {
       return { success: false, error: "Failed to delete job assignment" };
     }
     
-    // Update the job status to indicate it needs to be reassigned
-    const { error: jobUpdateError } = await supabase
+    // A fully staffed job needs staffing again once someone drops off it
+    const { data: droppedJob } = await supabase
       .from('jobs')
-      .update({
-        status: 'open' // or whatever status indicates it needs to be reassigned
-      })
-      .eq(
-        'id',
-        (() => {
-          const id = getJobIdFromDropRequestAssignment(dropRequest.job_assignment);
-          if (!id) throw new Error("Job ID is missing for job status update.");
-          return id;
-        })()
+      .select('status')
+      .eq('id', jobIdForVerification)
+      .single();
+    
+    if (droppedJob?.status === 'upcoming') {
+      const { success: reopened, error: jobUpdateError } = await transitionJobStatus(
+        supabase,
+        jobIdForVerification,
+        'available',
+        { changedByUserId: user!.id, reason: 'Drop request approved' }
       );
+      
+      if (!reopened) {
+        console.error("Error updating job status:", jobUpdateError);
+        return { success: false, error: "Failed to update job status" };
+      }
+    }
     
-    if (jobUpdateError) {
-      console.error("Error updating job status:", jobUpdateError);
-      return { success: false, error: "Failed to update job status" };
+    // The role's standby list picks up the slot; staffing can still be done by hand if it fails
+    const droppedRoleId = getRoleIdFromDropRequestAssignment(dropRequest.job_assignment);
+    if (droppedRoleId) {
+      try {
+        await fillSlotFromStandby(supabase, droppedRoleId, {
+          reason: 'Drop request approved',
+          actorUserId: user!.id
+        });
+      } catch (standbyError) {
+        console.error("Error offering dropped slot to standby:", standbyError);
+      }
     }
     
     // Get job details for notification
@@ -151,6 +176,7 @@ export async function approveDropRequest(dropRequestId: string) {
     // Send notification to employee about their drop request being approved
     if (job) {
       const notificationJobId = getJobIdFromDropRequestAssignment(dropRequest.job_assignment);
+      const shift = getShiftFromDropRequestAssignment(dropRequest.job_assignment);
       if (notificationJobId) {
         try {
           await sendDropRequestApprovedNotification(
@@ -159,7 +185,8 @@ export async function approveDropRequest(dropRequestId: string) {
             dropRequest.user_id,
             notificationJobId,
             job.title,
-            job.start_time
+            shift?.start_time || job.start_time,
+            shift?.name
           );
         } catch (notificationError) {
           console.error("Error sending approval notification:", notificationError);
@@ -203,7 +230,10 @@ export async function rejectDropRequest(dropRequestId: string, rejectionReason:
         status,
         job_assignment:job_assignments (
           id,
-          job_id
+          job_id,
+          shift:shift_id (
+            name, start_time
+          )
         )
       `)
       .eq('id', dropRequestId)
@@ -272,6 +302,7 @@ export async function rejectDropRequest(dropRequestId: string, rejectionReason:
     // Send notification to employee about their drop request being rejected
     if (job) {
       const notificationJobId = getJobIdFromDropRequestAssignment(dropRequest.job_assignment);
+      const shift = getShiftFromDropRequestAssignment(dropRequest.job_assignment);
       if (notificationJobId) {
         try {
           await sendDropRequestRejectedNotification(
@@ -280,8 +311,9 @@ export async function rejectDropRequest(dropRequestId: string, rejectionReason:
             dropRequest.user_id,
             notificationJobId,
             job.title,
-            job.start_time,
-            rejectionReason
+            shift?.start_time || job.start_time,
+            rejectionReason,
+            shift?.name
           );
         } catch (notificationError) {
           console.error("Error sending rejection notification:", notificationError);
@@ -324,7 +356,10 @@ export async function escalateDropRequest(dropRequestId: string, escalationReaso
         status,
         job_assignment:job_assignments (
           id,
-          job_id
+          job_id,
+          shift:shift_id (
+            name, start_time
+          )
         )
       `)
       .eq('id', dropRequestId)
@@ -394,6 +429,7 @@ export async function escalateDropRequest(dropRequestId: string, escalationReaso
     // Send notification to admins about the escalated drop request
     if (job) {
       const notificationJobId = getJobIdFromDropRequestAssignment(dropRequest.job_assignment);
+      const shift = getShiftFromDropRequestAssignment(dropRequest.job_assignment);
       if (notificationJobId) {
         try {
           await sendDropRequestEscalatedNotification(
@@ -401,11 +437,12 @@ export async function escalateDropRequest(dropRequestId: string, escalationReaso
             dropRequestId,
             notificationJobId,
             job.title,
-            job.start_time,
+            shift?.start_time || job.start_time,
             dropRequest.user_id,
             employee?.full_name || 'Unknown Employee',
             escalationReason,
-            profile!.org_id!
+            profile!.org_id!,
+            shift?.name
           );
         } catch (notificationError) {
           console.error("Error sending escalation notification:", notificationError);
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildReceiptStoragePath,
+  describeExpenseClaim,
+  parseExpenseClaim,
+  sumApprovedClaims,
+  validateReceiptFile
+} from './client-utils';
+
+const today = '2025-06-20';
+
+describe('expense claims client utils', () => {
+  describe('parseExpenseClaim', () => {
+    it('should price mileage at the org rate and ignore any amount entered', () => {
+      const { claim } = parseExpenseClaim(
+        { category: 'mileage', incurred_on: '2025-06-14', miles: '42.5', amount: '999' },
+        0.67,
+        today
+      );
+
+      expect(claim).toEqual({
+        category: 'mileage',
+        description: null,
+        incurred_on: '2025-06-14',
+        miles: 42.5,
+        mileage_rate: 0.67,
+        amount: 28.48,
+      });
+    });
+
+    it('should refuse mileage when the org has no rate', () => {
+      expect(parseExpenseClaim({ category: 'mileage', incurred_on: '2025-06-14', miles: '10' }, null, today).error)
+        .toContain("hasn't set a mileage rate");
+    });
+
+    it('should take the amount for other categories and check the date', () => {
+      expect(parseExpenseClaim(
+        { category: 'lodging', incurred_on: '2025-06-13', amount: '189.999', description: ' Inn by the lake ' },
+        null,
+        today
+      ).claim).toMatchObject({ amount: 190, description: 'Inn by the lake', miles: null });
+
+      expect(parseExpenseClaim({ category: 'parking', incurred_on: '2025-06-21', amount: '20' }, null, today).error)
+        .toBe("The expense date can't be in the future");
+      expect(parseExpenseClaim({ category: 'tolls', incurred_on: '2025-06-14', amount: '0' }, null, today).error)
+        .toContain('Enter an amount');
+      expect(parseExpenseClaim({ category: 'other', incurred_on: '2025-06-14', amount: '10' }, null, today).error)
+        .toBe('Describe the expense');
+      expect(parseExpenseClaim({ category: 'snacks', incurred_on: '2025-06-14', amount: '10' }, null, today).error)
+        .toBe('Choose what the expense was for');
+    });
+  });
+
+  describe('validateReceiptFile', () => {
+    it('should accept photos and PDFs up to 10 MB', () => {
+      expect(validateReceiptFile({ name: 'receipt.jpg', size: 1024, type: 'image/jpeg' })).toBeNull();
+      expect(validateReceiptFile({ name: 'receipt.pdf', size: 11 * 1024 * 1024, type: 'application/pdf' }))
+        .toBe('Receipts can be at most 10 MB');
+      expect(validateReceiptFile({ name: 'receipt.docx', size: 1024, type: 'application/msword' }))
+        .toContain('photo');
+      expect(validateReceiptFile({ name: '', size: 0, type: '' })).toBe('Attach a photo or PDF of the receipt');
+    });
+  });
+
+  describe('buildReceiptStoragePath', () => {
+    it('should put receipts under the user folder with a safe file name', () => {
+      expect(buildReceiptStoragePath({ orgId: 'o1', userId: 'u1', claimId: 'c1', fileName: 'Hotel bill (June).pdf' }))
+        .toBe('o1/u1/c1/Hotel-bill-June-.pdf');
+    });
+  });
+
+  describe('describeExpenseClaim and sumApprovedClaims', () => {
+    it('should describe claims and total only approved ones', () => {
+      expect(describeExpenseClaim({ category: 'mileage', description: null, miles: 42, mileage_rate: 0.67 }))
+        .toBe('Mileage: 42 mi at $0.67/mi');
+      expect(describeExpenseClaim({ category: 'ferry', description: null, miles: null, mileage_rate: null }))
+        .toBe('Ferry / transit fare');
+
+      expect(sumApprovedClaims([
+        { status: 'approved', amount: 20.1 },
+        { status: 'approved', amount: 10.2 },
+        { status: 'rejected', amount: 50 },
+        { status: 'submitted', amount: 5 },
+      ])).toBe(30.3);
+    });
+  });
+});
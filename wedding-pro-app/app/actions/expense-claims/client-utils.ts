@@ -0,0 +1,187 @@
+import type { ExpenseCategory, ExpenseClaim, ExpenseClaimDraft, ExpenseClaimStatus } from "./types";
+
+/**
+ * Private storage bucket holding receipt photos and PDFs
+ */
+export const EXPENSE_RECEIPTS_BUCKET = 'expense-receipts';
+
+/**
+ * Largest receipt that can be uploaded. Matches the bucket's file_size_limit.
+ */
+export const MAX_RECEIPT_SIZE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Receipt file types. Matches the bucket's allowed_mime_types.
+ */
+export const ALLOWED_RECEIPT_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/heic',
+];
+
+/**
+ * Largest amount a single claim can be for
+ */
+export const MAX_CLAIM_AMOUNT = 5000;
+
+export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  mileage: 'Mileage',
+  parking: 'Parking',
+  tolls: 'Tolls',
+  ferry: 'Ferry / transit fare',
+  lodging: 'Hotel / lodging',
+  other: 'Other',
+};
+
+export const EXPENSE_CLAIM_STATUS_LABELS: Record<ExpenseClaimStatus, string> = {
+  submitted: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Whether a category needs a receipt. Mileage is paid per mile instead.
+ */
+export function requiresReceipt(category: ExpenseCategory): boolean {
+  return category !== 'mileage';
+}
+
+/**
+ * Check a claim form and work out its amount. Mileage claims are paid at
+ * the org's rate per mile, the same rate travel pay uses.
+ */
+export function parseExpenseClaim(
+  values: {
+    category?: string;
+    description?: string;
+    incurred_on?: string;
+    amount?: string;
+    miles?: string;
+  },
+  mileageRate: number | null,
+  today: string = new Date().toISOString().slice(0, 10)
+): { claim?: ExpenseClaimDraft; error?: string } {
+  const category = values.category as ExpenseCategory;
+  if (!category || !(category in EXPENSE_CATEGORY_LABELS)) {
+    return { error: "Choose what the expense was for" };
+  }
+
+  const description = values.description?.trim() || null;
+  if (category === 'other' && !description) {
+    return { error: "Describe the expense" };
+  }
+
+  const incurredOn = values.incurred_on?.trim() || '';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(incurredOn) || Number.isNaN(Date.parse(incurredOn))) {
+    return { error: "Enter the date of the expense" };
+  }
+  if (incurredOn > today) {
+    return { error: "The expense date can't be in the future" };
+  }
+
+  if (category === 'mileage') {
+    const miles = Number(values.miles);
+    if (!values.miles || !Number.isFinite(miles) || miles <= 0 || miles > 2000) {
+      return { error: "Enter the miles driven, up to 2,000" };
+    }
+    if (mileageRate === null || mileageRate <= 0) {
+      return { error: "Your organization hasn't set a mileage rate, so mileage can't be claimed yet" };
+    }
+
+    const roundedMiles = roundMoney(miles);
+    return {
+      claim: {
+        category,
+        description,
+        incurred_on: incurredOn,
+        miles: roundedMiles,
+        mileage_rate: mileageRate,
+        amount: roundMoney(roundedMiles * mileageRate),
+      },
+    };
+  }
+
+  const amount = Number(values.amount);
+  if (!values.amount || !Number.isFinite(amount) || amount <= 0 || amount > MAX_CLAIM_AMOUNT) {
+    return { error: `Enter an amount between $0.01 and $${MAX_CLAIM_AMOUNT.toLocaleString('en-US')}` };
+  }
+
+  return {
+    claim: {
+      category,
+      description,
+      incurred_on: incurredOn,
+      miles: null,
+      mileage_rate: null,
+      amount: roundMoney(amount),
+    },
+  };
+}
+
+/**
+ * Validate a receipt before uploading it. Returns an error message or null.
+ */
+export function validateReceiptFile(file: { name: string; size: number; type: string }): string | null {
+  if (!file.name || file.size === 0) {
+    return "Attach a photo or PDF of the receipt";
+  }
+
+  if (file.size > MAX_RECEIPT_SIZE_BYTES) {
+    return `Receipts can be at most ${MAX_RECEIPT_SIZE_BYTES / (1024 * 1024)} MB`;
+  }
+
+  if (!ALLOWED_RECEIPT_TYPES.includes(file.type)) {
+    return "Upload the receipt as a photo (JPEG, PNG, WebP or HEIC) or a PDF";
+  }
+
+  return null;
+}
+
+/**
+ * Where a claim's receipt is stored in the bucket:
+ * {org_id}/{user_id}/{claim_id}/{file_name}. The storage policies read the
+ * user ID from the second folder.
+ */
+export function buildReceiptStoragePath(input: {
+  orgId: string;
+  userId: string;
+  claimId: string;
+  fileName: string;
+}): string {
+  const safeName = input.fileName
+    .normalize('NFKD')
+    .replace(/[^\w.-]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^[-.]+|-+$/g, '') || 'receipt';
+
+  return `${input.orgId}/${input.userId}/${input.claimId}/${safeName}`;
+}
+
+/**
+ * A one-line description of a claim, e.g. "Mileage: 42 mi at $0.67/mi"
+ */
+export function describeExpenseClaim(
+  claim: Pick<ExpenseClaim, 'category' | 'description' | 'miles' | 'mileage_rate'>
+): string {
+  const label = EXPENSE_CATEGORY_LABELS[claim.category];
+  const detail = claim.category === 'mileage' && claim.miles !== null && claim.mileage_rate !== null
+    ? `${Number(claim.miles)} mi at $${Number(claim.mileage_rate)}/mi`
+    : claim.description;
+
+  return detail ? `${label}: ${detail}` : label;
+}
+
+/**
+ * Total the approved claims in a list
+ */
+export function sumApprovedClaims(claims: Pick<ExpenseClaim, 'status' | 'amount'>[]): number {
+  return roundMoney(
+    claims
+      .filter(claim => claim.status === 'approved')
+      .reduce((sum, claim) => sum + Number(claim.amount), 0)
+  );
+}
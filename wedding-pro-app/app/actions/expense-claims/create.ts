@@ -0,0 +1,139 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import {
+  buildReceiptStoragePath,
+  EXPENSE_RECEIPTS_BUCKET,
+  parseExpenseClaim,
+  requiresReceipt,
+  validateReceiptFile
+} from "./client-utils";
+import { getOrgMileageRate } from "./utils";
+import { sendExpenseClaimSubmittedNotification } from "./notifications";
+import type { ExpenseClaim } from "./types";
+
+/**
+ * Submit an expense claim against one of the current user's assignments on
+ * a job. Receipts are required for everything except mileage, and are
+ * uploaded before the claim is saved (and removed again if it can't be).
+ */
+export async function submitExpenseClaim(jobId: string, formData: FormData) {
+  const supabase = await createClient();
+  const jobPath = `/dashboard/employee/jobs/${jobId}`;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return encodedRedirect("error", "/sign-in", "You must be logged in");
+  }
+
+  const assignmentId = formData.get("assignmentId")?.toString();
+  if (!assignmentId) {
+    return encodedRedirect("error", jobPath, "Choose the shift the expense was for");
+  }
+
+  // The claim has to be for one of the user's own assignments on this job
+  const { data: assignment } = await supabase
+    .from('job_assignments')
+    .select('id, job:job_id (id, org_id, status)')
+    .eq('id', assignmentId)
+    .eq('job_id', jobId)
+    .eq('user_id', user.id)
+    .neq('status', 'declined')
+    .single();
+
+  const job: any = Array.isArray(assignment?.job) ? assignment?.job[0] : assignment?.job;
+  if (!assignment || !job) {
+    return encodedRedirect("error", jobPath, "Assignment not found");
+  }
+
+  if (job.status === 'draft' || job.status === 'cancelled') {
+    return encodedRedirect("error", jobPath, `Expenses can't be claimed on a ${job.status} job`);
+  }
+
+  const category = formData.get("category")?.toString();
+  const mileageRate = category === 'mileage' ? await getOrgMileageRate(supabase, job.org_id) : null;
+
+  const { claim, error: claimError } = parseExpenseClaim(
+    {
+      category,
+      description: formData.get("description")?.toString(),
+      incurred_on: formData.get("incurred_on")?.toString(),
+      amount: formData.get("amount")?.toString(),
+      miles: formData.get("miles")?.toString(),
+    },
+    mileageRate
+  );
+
+  if (!claim) {
+    return encodedRedirect("error", jobPath, claimError || "Check the expense details");
+  }
+
+  const receipt = formData.get("receipt");
+  const hasReceipt = receipt instanceof File && receipt.size > 0;
+
+  if (hasReceipt || requiresReceipt(claim.category)) {
+    const fileError = receipt instanceof File ? validateReceiptFile(receipt) : "Attach a photo or PDF of the receipt";
+    if (fileError) {
+      return encodedRedirect("error", jobPath, fileError);
+    }
+  }
+
+  const claimId = crypto.randomUUID();
+  let receiptPath: string | null = null;
+
+  if (hasReceipt) {
+    receiptPath = buildReceiptStoragePath({
+      orgId: job.org_id,
+      userId: user.id,
+      claimId,
+      fileName: receipt.name,
+    });
+
+    const { error: uploadError } = await supabase.storage
+      .from(EXPENSE_RECEIPTS_BUCKET)
+      .upload(receiptPath, receipt, {
+        contentType: receipt.type,
+        upsert: false,
+      });
+
+    if (uploadError) {
+      console.error("Error uploading expense receipt:", uploadError);
+      return encodedRedirect("error", jobPath, uploadError.message);
+    }
+  }
+
+  const { data: savedClaim, error } = await supabase
+    .from('expense_claims')
+    .insert([
+      {
+        id: claimId,
+        org_id: job.org_id,
+        job_id: jobId,
+        job_assignment_id: assignmentId,
+        user_id: user.id,
+        ...claim,
+        receipt_path: receiptPath,
+        receipt_file_name: hasReceipt ? receipt.name : null,
+        receipt_content_type: hasReceipt ? receipt.type || null : null,
+        status: 'submitted'
+      }
+    ])
+    .select('*')
+    .single();
+
+  if (error || !savedClaim) {
+    console.error("Error submitting expense claim:", error);
+    if (receiptPath) {
+      await supabase.storage.from(EXPENSE_RECEIPTS_BUCKET).remove([receiptPath]);
+    }
+    return encodedRedirect("error", jobPath, error?.message || "Failed to submit the expense claim");
+  }
+
+  await sendExpenseClaimSubmittedNotification(supabase, savedClaim as ExpenseClaim);
+
+  revalidatePath(jobPath);
+  revalidatePath('/dashboard/manager/expenses');
+  return encodedRedirect("success", jobPath, "Expense claim submitted for approval");
+}
@@ -0,0 +1,114 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { getCurrentUserProfile } from "@/utils/supabase/auth-helpers";
+import { checkManagerPermission } from "../jobs/utils";
+import { getOrgMileageRate, withReceiptUrls } from "./utils";
+import type { ExpenseClaim, ExpenseClaimStatus, ExpenseClaimWithDetails } from "./types";
+
+const EXPENSE_CLAIM_DETAILS_SELECT = `
+  *,
+  employee:user_id (
+    full_name
+  ),
+  job:job_id (
+    id, title, start_time
+  ),
+  assignment:job_assignment_id (
+    shift:shift_id (
+      name
+    ),
+    job_required_role:job_required_role_id (
+      role_name
+    )
+  )
+`;
+
+function toExpenseClaimWithDetails(row: any): ExpenseClaimWithDetails {
+  const { assignment: rawAssignment, ...claim } = row;
+  const assignment = Array.isArray(rawAssignment) ? rawAssignment[0] : rawAssignment;
+  const shift = Array.isArray(assignment?.shift) ? assignment.shift[0] : assignment?.shift;
+  const role = Array.isArray(assignment?.job_required_role)
+    ? assignment.job_required_role[0]
+    : assignment?.job_required_role;
+
+  return {
+    ...claim,
+    employee: Array.isArray(claim.employee) ? claim.employee[0] : claim.employee,
+    job: Array.isArray(claim.job) ? claim.job[0] : claim.job,
+    role_name: role?.role_name || null,
+    shift_name: shift?.name || null,
+  };
+}
+
+/**
+ * Get the org's expense claims for review, newest first, with receipt links
+ * (managers only)
+ */
+export async function getExpenseClaimsForReview(
+  statuses: ExpenseClaimStatus[] = ['submitted']
+): Promise<{ data?: ExpenseClaimWithDetails[]; error?: string }> {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return { error: permError || "Unauthorized" };
+  }
+
+  const { data, error } = await supabase
+    .from('expense_claims')
+    .select(EXPENSE_CLAIM_DETAILS_SELECT)
+    .eq('org_id', profile.org_id)
+    .in('status', statuses)
+    .order('created_at', { ascending: false })
+    .limit(200);
+
+  if (error) {
+    console.error("Error fetching expense claims:", error);
+    return { error: "Failed to fetch expense claims" };
+  }
+
+  return { data: await withReceiptUrls(supabase, (data || []).map(toExpenseClaimWithDetails)) };
+}
+
+/**
+ * Get the current user's expense claims on a job, with receipt links
+ */
+export async function getMyJobExpenseClaims(jobId: string): Promise<{ data?: ExpenseClaim[]; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { error: "You must be logged in" };
+  }
+
+  const { data, error } = await supabase
+    .from('expense_claims')
+    .select('*')
+    .eq('job_id', jobId)
+    .eq('user_id', user.id)
+    .order('incurred_on', { ascending: true });
+
+  if (error) {
+    console.error("Error fetching expense claims:", error);
+    return { error: "Failed to fetch expense claims" };
+  }
+
+  return { data: await withReceiptUrls(supabase, (data || []) as ExpenseClaim[]) };
+}
+
+/**
+ * The rate per mile mileage claims are paid at in the current user's org,
+ * or null when it hasn't been set
+ */
+export async function getMileageRate(): Promise<number | null> {
+  const supabase = await createClient();
+
+  const profile = await getCurrentUserProfile();
+  if (!profile?.org_id) {
+    return null;
+  }
+
+  return getOrgMileageRate(supabase, profile.org_id);
+}
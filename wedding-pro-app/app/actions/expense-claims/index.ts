@@ -0,0 +1,10 @@
+"use server";
+
+// This file re-exports all public actions and types related to expense claims.
+
+export { submitExpenseClaim } from './create';
+export { getExpenseClaimsForReview, getMyJobExpenseClaims, getMileageRate } from './fetch';
+export { approveExpenseClaim, rejectExpenseClaim, withdrawExpenseClaim } from './update';
+
+// Re-export all types from the dedicated types module
+export * from './types';
@@ -0,0 +1,114 @@
+"use server";
+
+import { createNotificationService } from "@/utils/notifications/notification-service";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { describeExpenseClaim } from "./client-utils";
+import type { ExpenseClaim } from "./types";
+
+/**
+ * Let the org's managers know an employee has submitted an expense claim
+ */
+export async function sendExpenseClaimSubmittedNotification(
+  supabase: SupabaseClient,
+  claim: ExpenseClaim
+) {
+  try {
+    const { data: job } = await supabase
+      .from('jobs')
+      .select('id, title, org_id')
+      .eq('id', claim.job_id)
+      .single();
+
+    if (!job) {
+      console.error("Job not found for notification");
+      return { success: false };
+    }
+
+    const { data: employeeProfile } = await supabase
+      .from('profiles')
+      .select('full_name')
+      .eq('id', claim.user_id)
+      .single();
+
+    // Get managers for this organization
+    const { data: managers } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('org_id', job.org_id)
+      .in('role', ['Manager', 'Admin']);
+
+    if (!managers || managers.length === 0) {
+      console.error("No managers found for notification");
+      return { success: false };
+    }
+
+    const notificationService = createNotificationService(supabase);
+    const employeeName = employeeProfile?.full_name || 'An employee';
+    const jobTitle = job.title || 'Untitled Job';
+
+    for (const manager of managers) {
+      try {
+        await notificationService.sendNotificationForEvent({
+          eventType: 'expense_claim_submitted',
+          userId: manager.id,
+          title: 'New Expense Claim',
+          body: `${employeeName} claimed $${Number(claim.amount).toFixed(2)} for ${jobTitle} (${describeExpenseClaim(claim)}).`,
+          metadata: {
+            expenseClaimId: claim.id,
+            employeeId: claim.user_id,
+            employeeName: employeeProfile?.full_name,
+            jobId: job.id,
+            jobTitle,
+            category: claim.category,
+            amount: claim.amount
+          }
+        });
+      } catch (error) {
+        console.error(`Error notifying manager ${manager.id} of expense claim:`, error);
+      }
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error sending expense claim notification:", error);
+    return { success: false };
+  }
+}
+
+/**
+ * Let an employee know their expense claim was approved or rejected
+ */
+export async function sendExpenseClaimReviewedNotification(
+  supabase: SupabaseClient,
+  claim: ExpenseClaim,
+  jobTitle: string
+) {
+  try {
+    const notificationService = createNotificationService(supabase);
+    const approved = claim.status === 'approved';
+    const formattedJobTitle = jobTitle || 'Untitled Job';
+    const amount = `$${Number(claim.amount).toFixed(2)}`;
+
+    await notificationService.sendNotificationForEvent({
+      eventType: 'expense_claim_reviewed',
+      userId: claim.user_id,
+      title: approved ? 'Expense Claim Approved' : 'Expense Claim Rejected',
+      body: approved
+        ? `Your ${amount} expense claim for ${formattedJobTitle} (${describeExpenseClaim(claim)}) was approved and will be paid with your next payroll.`
+        : `Your ${amount} expense claim for ${formattedJobTitle} (${describeExpenseClaim(claim)}) was rejected. Reason: ${claim.review_note || 'No reason provided'}`,
+      metadata: {
+        expenseClaimId: claim.id,
+        jobId: claim.job_id,
+        jobTitle: formattedJobTitle,
+        status: claim.status,
+        amount: claim.amount,
+        reviewNote: claim.review_note
+      }
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error sending expense claim reviewed notification:", error);
+    return { success: false };
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * What an expense was for
+ */
+export type ExpenseCategory =
+  | 'mileage'   // Driving in the employee's own car, paid per mile
+  | 'parking'
+  | 'tolls'
+  | 'ferry'     // Ferry and other transit fares
+  | 'lodging'   // Hotel nights, e.g. at destination weddings
+  | 'other';
+
+/**
+ * Where a claim is in its life
+ */
+export type ExpenseClaimStatus =
+  | 'submitted'  // Waiting for a manager
+  | 'approved'   // Paid in the next payroll run
+  | 'rejected';
+
+/**
+ * An employee's claim for an expense on one of their assignments. Mileage
+ * claims record the miles and the org's rate per mile when they were
+ * submitted; the amount is miles x rate.
+ */
+export type ExpenseClaim = {
+  id: string;
+  org_id: string;
+  job_id: string;
+  job_assignment_id: string;
+  user_id: string;
+  category: ExpenseCategory;
+  description: string | null;
+  incurred_on: string; // YYYY-MM-DD
+  miles: number | null;
+  mileage_rate: number | null;
+  amount: number;
+  receipt_path: string | null;
+  receipt_file_name: string | null;
+  receipt_content_type: string | null;
+  status: ExpenseClaimStatus;
+  review_note: string | null;
+  reviewed_by_user_id: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  receipt_url?: string | null; // Signed download URL, when fetched for display
+};
+
+/**
+ * Claim with who submitted it and for which job and role, for review
+ */
+export type ExpenseClaimWithDetails = ExpenseClaim & {
+  employee?: { full_name: string | null } | null;
+  job?: { id: string; title: string; start_time: string } | null;
+  role_name: string | null;
+  shift_name: string | null;
+};
+
+/**
+ * A claim's fields once the form has been checked
+ */
+export type ExpenseClaimDraft = Pick<
+  ExpenseClaim,
+  'category' | 'description' | 'incurred_on' | 'miles' | 'mileage_rate' | 'amount'
+>;
@@ -0,0 +1,124 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { checkManagerPermission } from "../jobs/utils";
+import { EXPENSE_RECEIPTS_BUCKET } from "./client-utils";
+import { sendExpenseClaimReviewedNotification } from "./notifications";
+import type { ExpenseClaim } from "./types";
+
+const expensesPath = "/dashboard/manager/expenses";
+
+/**
+ * Approve or reject a submitted claim and let the employee know
+ */
+async function reviewExpenseClaim(formData: FormData, status: 'approved' | 'rejected') {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, user, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !user || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  const claimId = formData.get("claimId")?.toString();
+  const reviewNote = formData.get("review_note")?.toString().trim() || null;
+
+  if (!claimId) {
+    return encodedRedirect("error", expensesPath, "Expense claim is required");
+  }
+
+  if (status === 'rejected' && !reviewNote) {
+    return encodedRedirect("error", expensesPath, "Say why the expense claim is rejected");
+  }
+
+  const { data: claim, error } = await supabase
+    .from('expense_claims')
+    .update({
+      status,
+      review_note: reviewNote,
+      reviewed_by_user_id: user.id,
+      reviewed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', claimId)
+    .eq('org_id', profile.org_id)
+    .eq('status', 'submitted')
+    .select('*, job:job_id (title)')
+    .single();
+
+  if (error || !claim) {
+    console.error(`Error marking expense claim ${status}:`, error);
+    return encodedRedirect("error", expensesPath, error?.message || "Expense claim not found or already reviewed");
+  }
+
+  const job = Array.isArray(claim.job) ? claim.job[0] : claim.job;
+  await sendExpenseClaimReviewedNotification(supabase, claim as ExpenseClaim, job?.title);
+
+  revalidatePath(expensesPath);
+  revalidatePath(`/dashboard/manager/jobs/${claim.job_id}`);
+  revalidatePath(`/dashboard/employee/jobs/${claim.job_id}`);
+  return encodedRedirect("success", expensesPath, status === 'approved' ? "Expense claim approved" : "Expense claim rejected");
+}
+
+/**
+ * Approve an expense claim. It is paid in the payroll run covering the day
+ * it was approved.
+ */
+export async function approveExpenseClaim(formData: FormData) {
+  return reviewExpenseClaim(formData, 'approved');
+}
+
+/**
+ * Reject an expense claim, with a reason for the employee
+ */
+export async function rejectExpenseClaim(formData: FormData) {
+  return reviewExpenseClaim(formData, 'rejected');
+}
+
+/**
+ * Withdraw one of the current user's claims while it is still waiting for
+ * approval, removing its receipt
+ */
+export async function withdrawExpenseClaim(formData: FormData) {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return encodedRedirect("error", "/sign-in", "You must be logged in");
+  }
+
+  const claimId = formData.get("claimId")?.toString();
+  const jobId = formData.get("jobId")?.toString();
+  const jobPath = jobId ? `/dashboard/employee/jobs/${jobId}` : "/dashboard/employee/schedule";
+
+  if (!claimId) {
+    return encodedRedirect("error", jobPath, "Expense claim is required");
+  }
+
+  const { data: claim, error } = await supabase
+    .from('expense_claims')
+    .delete()
+    .eq('id', claimId)
+    .eq('user_id', user.id)
+    .eq('status', 'submitted')
+    .select('receipt_path')
+    .single();
+
+  if (error || !claim) {
+    console.error("Error withdrawing expense claim:", error);
+    return encodedRedirect("error", jobPath, "Only claims waiting for approval can be withdrawn");
+  }
+
+  if (claim.receipt_path) {
+    const { error: removeError } = await supabase.storage.from(EXPENSE_RECEIPTS_BUCKET).remove([claim.receipt_path]);
+    if (removeError) {
+      console.error("Error removing expense receipt:", removeError);
+    }
+  }
+
+  revalidatePath(jobPath);
+  revalidatePath(expensesPath);
+  return encodedRedirect("success", jobPath, "Expense claim withdrawn");
+}
@@ -0,0 +1,67 @@
+"use server";
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { EXPENSE_RECEIPTS_BUCKET } from "./client-utils";
+import { SIGNED_URL_EXPIRY_SECONDS } from "../job-attachments/client-utils";
+import type { ExpenseClaim } from "./types";
+
+/**
+ * The org's mileage rate, from the same organization settings travel pay
+ * uses. Null when it hasn't been set.
+ */
+export async function getOrgMileageRate(supabase: SupabaseClient, orgId: string): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('organization_settings')
+    .select('travel_pay_rate_per_mile')
+    .eq('org_id', orgId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching organization mileage rate:", error);
+    return null;
+  }
+
+  const rate = data?.travel_pay_rate_per_mile;
+  return rate === null || rate === undefined ? null : Number(rate);
+}
+
+/**
+ * Add a signed download URL to each claim that has a receipt.
+ *
+ * Pass the user's own client: the storage policies decide which receipts can
+ * be signed, so employees only get their own.
+ */
+export async function withReceiptUrls<T extends ExpenseClaim>(
+  supabase: SupabaseClient,
+  claims: T[]
+): Promise<T[]> {
+  const paths = claims
+    .map(claim => claim.receipt_path)
+    .filter((path): path is string => !!path);
+
+  if (paths.length === 0) {
+    return claims;
+  }
+
+  const { data: signedUrls, error } = await supabase.storage
+    .from(EXPENSE_RECEIPTS_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_EXPIRY_SECONDS);
+
+  if (error) {
+    // Still list the claims, just without receipt links
+    console.error("Error signing expense receipt URLs:", error);
+    return claims;
+  }
+
+  const urlByPath = new Map<string, string | null>();
+  for (const signed of signedUrls || []) {
+    if (signed.path) {
+      urlByPath.set(signed.path, signed.signedUrl || null);
+    }
+  }
+
+  return claims.map(claim => ({
+    ...claim,
+    receipt_url: claim.receipt_path ? urlByPath.get(claim.receipt_path) ?? null : null,
+  }));
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildFairnessReport,
+  compareByFairness,
+  getFairnessPeriod,
+  giniCoefficient,
+  isOverlooked,
+  toFairnessIndex
+} from './client-utils';
+import type { EmployeeFairnessRow } from './types';
+
+function makeRow(overrides: Partial<EmployeeFairnessRow>): EmployeeFairnessRow {
+  return {
+    user_id: 'user-1',
+    full_name: 'Alex',
+    email: null,
+    interested_jobs: 0,
+    booked_interested_jobs: 0,
+    assignments: 0,
+    earnings: 0,
+    ...overrides
+  };
+}
+
+describe('fairness client utils', () => {
+  describe('giniCoefficient and toFairnessIndex', () => {
+    it('should be 0 for an even spread and grow as work concentrates', () => {
+      expect(giniCoefficient([3, 3, 3, 3])).toBe(0);
+      expect(giniCoefficient([0, 0, 0, 8])).toBe(0.75);
+      expect(giniCoefficient([1, 2, 3, 4])).toBe(0.25);
+      expect(giniCoefficient([])).toBe(0);
+      expect(giniCoefficient([0, 0])).toBe(0);
+
+      expect(toFairnessIndex(0)).toBe(100);
+      expect(toFairnessIndex(0.25)).toBe(75);
+    });
+  });
+
+  describe('isOverlooked and compareByFairness', () => {
+    it('should flag employees who keep asking but are never booked, and list them first', () => {
+      const overlooked = makeRow({ user_id: 'a', interested_jobs: 4, booked_interested_jobs: 0 });
+      const sometimes = makeRow({ user_id: 'b', interested_jobs: 4, booked_interested_jobs: 2 });
+      const newcomer = makeRow({ user_id: 'c', interested_jobs: 2, booked_interested_jobs: 0 });
+      const noInterest = makeRow({ user_id: 'd', assignments: 3 });
+
+      expect(isOverlooked(overlooked)).toBe(true);
+      expect(isOverlooked(newcomer)).toBe(false);
+
+      expect([sometimes, noInterest, newcomer, overlooked].sort(compareByFairness).map(r => r.user_id))
+        .toEqual(['a', 'c', 'b', 'd']);
+    });
+  });
+
+  describe('buildFairnessReport', () => {
+    it('should compare shares of work with shares of interest among eligible employees', () => {
+      const report = buildFairnessReport(
+        [
+          makeRow({ user_id: 'a', full_name: 'Alex', interested_jobs: 5, booked_interested_jobs: 4, assignments: 6, earnings: 1200 }),
+          makeRow({ user_id: 'b', full_name: 'Blake', interested_jobs: 5, booked_interested_jobs: 0, assignments: 0 }),
+          makeRow({ user_id: 'c', full_name: 'Casey', interested_jobs: 0, assignments: 2, earnings: 400 }),
+          makeRow({ user_id: 'd', full_name: 'Drew' }),
+        ],
+        '2025-03-23',
+        '2025-06-20'
+      );
+
+      expect(report).toMatchObject({
+        eligible_count: 3,
+        total_assignments: 8,
+        total_earnings: 1600,
+        assignment_gini: 0.5,
+        earnings_gini: 0.5,
+        fairness_index: 50,
+      });
+      expect(report.employees.map(e => e.user_id)).toEqual(['b', 'a', 'c']);
+      expect(report.employees[1]).toMatchObject({ assignment_share: 0.75, interest_share: 0.5, share_ratio: 1.5, booking_rate: 0.8 });
+      expect(report.employees[2].share_ratio).toBeNull();
+      expect(report.overlooked.map(e => e.full_name)).toEqual(['Blake']);
+    });
+  });
+
+  describe('getFairnessPeriod', () => {
+    it('should cover the last given days including today', () => {
+      expect(getFairnessPeriod(30, new Date(2025, 5, 20))).toEqual({ start: '2025-05-22', end: '2025-06-20' });
+    });
+  });
+});
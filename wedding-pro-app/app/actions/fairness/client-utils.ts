@@ -0,0 +1,157 @@
+import type {
+  EmployeeFairness,
+  EmployeeFairnessRow,
+  EmployeeFairnessSummary,
+  FairnessReport
+} from "./types";
+
+/**
+ * The report periods managers can choose from, in days
+ */
+export const FAIRNESS_PERIOD_OPTIONS = [30, 90, 365] as const;
+
+/**
+ * The period used when none is chosen, and for the assign page
+ */
+export const DEFAULT_FAIRNESS_PERIOD_DAYS = 90;
+
+/**
+ * How many jobs an employee must have shown interest in, without being booked
+ * on any of them, to be flagged as overlooked
+ */
+export const OVERLOOKED_MIN_INTERESTS = 3;
+
+const roundTo = (value: number, places: number) => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Gini coefficient of a set of non-negative values: 0 when everyone has the
+ * same, approaching 1 when one person has everything. Zero when there is
+ * nothing to share or fewer than two people.
+ */
+export function giniCoefficient(values: number[]): number {
+  const sorted = values.map(value => Math.max(0, value)).sort((a, b) => a - b);
+  const n = sorted.length;
+  const total = sorted.reduce((sum, value) => sum + value, 0);
+
+  if (n < 2 || total === 0) {
+    return 0;
+  }
+
+  const weighted = sorted.reduce((sum, value, index) => sum + (index + 1) * value, 0);
+  return roundTo((2 * weighted) / (n * total) - (n + 1) / n, 3);
+}
+
+/**
+ * The Fairness Index KPI: the evenness of assignments as a 0-100 score,
+ * where 100 means every eligible employee got the same number of jobs
+ */
+export function toFairnessIndex(gini: number): number {
+  return Math.round((1 - gini) * 100);
+}
+
+/**
+ * Share of interested jobs an employee was booked on, or null with no interest
+ */
+export function getBookingRate(row: Pick<EmployeeFairnessRow, 'interested_jobs' | 'booked_interested_jobs'>): number | null {
+  return row.interested_jobs > 0 ? roundTo(row.booked_interested_jobs / row.interested_jobs, 3) : null;
+}
+
+/**
+ * Whether an employee keeps expressing interest but never gets booked
+ */
+export function isOverlooked(row: Pick<EmployeeFairnessRow, 'interested_jobs' | 'booked_interested_jobs'>): boolean {
+  return row.interested_jobs >= OVERLOOKED_MIN_INTERESTS && row.booked_interested_jobs === 0;
+}
+
+/**
+ * Order employees most overlooked first: lowest booking rate, then most
+ * interest shown. Employees who showed no interest go last.
+ */
+export function compareByFairness(
+  a: Pick<EmployeeFairnessRow, 'interested_jobs' | 'booked_interested_jobs'>,
+  b: Pick<EmployeeFairnessRow, 'interested_jobs' | 'booked_interested_jobs'>
+): number {
+  const rateA = getBookingRate(a);
+  const rateB = getBookingRate(b);
+
+  if (rateA === null && rateB === null) return 0;
+  if (rateA === null) return 1;
+  if (rateB === null) return -1;
+
+  return rateA - rateB || b.interested_jobs - a.interested_jobs;
+}
+
+/**
+ * The fairness figures for the assign page
+ */
+export function summarizeEmployeeFairness(row: EmployeeFairnessRow): EmployeeFairnessSummary {
+  return {
+    interested_jobs: row.interested_jobs,
+    booked_interested_jobs: row.booked_interested_jobs,
+    assignments: row.assignments,
+    booking_rate: getBookingRate(row)
+  };
+}
+
+/**
+ * Build the fairness report for a period from each employee's figures.
+ *
+ * Only employees who expressed interest in the period or were booked in it are
+ * eligible, so people who didn't want work don't count as unfairly left out.
+ */
+export function buildFairnessReport(
+  rows: EmployeeFairnessRow[],
+  periodStart: string,
+  periodEnd: string
+): FairnessReport {
+  const eligible = rows.filter(row => row.interested_jobs > 0 || row.assignments > 0);
+
+  const totalAssignments = eligible.reduce((sum, row) => sum + row.assignments, 0);
+  const totalInterest = eligible.reduce((sum, row) => sum + row.interested_jobs, 0);
+  const totalEarnings = roundTo(eligible.reduce((sum, row) => sum + row.earnings, 0), 2);
+
+  const employees: EmployeeFairness[] = eligible
+    .map(row => {
+      const assignmentShare = totalAssignments > 0 ? row.assignments / totalAssignments : 0;
+      const interestShare = totalInterest > 0 ? row.interested_jobs / totalInterest : 0;
+
+      return {
+        ...row,
+        assignment_share: roundTo(assignmentShare, 3),
+        interest_share: roundTo(interestShare, 3),
+        share_ratio: interestShare > 0 ? roundTo(assignmentShare / interestShare, 2) : null,
+        booking_rate: getBookingRate(row)
+      };
+    })
+    .sort((a, b) => compareByFairness(a, b) || (a.full_name || '').localeCompare(b.full_name || ''));
+
+  const assignmentGini = giniCoefficient(eligible.map(row => row.assignments));
+
+  return {
+    period_start: periodStart,
+    period_end: periodEnd,
+    eligible_count: eligible.length,
+    total_assignments: totalAssignments,
+    total_earnings: totalEarnings,
+    assignment_gini: assignmentGini,
+    earnings_gini: giniCoefficient(eligible.map(row => row.earnings)),
+    fairness_index: toFairnessIndex(assignmentGini),
+    employees,
+    overlooked: employees.filter(isOverlooked)
+  };
+}
+
+/**
+ * The last `days` days up to and including today, as YYYY-MM-DD dates
+ */
+export function getFairnessPeriod(days: number, today: Date = new Date()): { start: string; end: string } {
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate() - (days - 1));
+
+  const toDateString = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+  return { start: toDateString(start), end: toDateString(today) };
+}
@@ -0,0 +1,35 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { checkManagerPermission } from "../jobs/utils";
+import { buildFairnessReport, DEFAULT_FAIRNESS_PERIOD_DAYS, getFairnessPeriod } from "./client-utils";
+import { getFairnessRows } from "./utils";
+import type { FairnessReport } from "./types";
+
+/**
+ * Get the fairness report for the org over the last `days` days (managers only)
+ */
+export async function getFairnessReport(
+  days: number = DEFAULT_FAIRNESS_PERIOD_DAYS
+): Promise<{ data?: FairnessReport; error?: string }> {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return { error: permError || "Unauthorized" };
+  }
+
+  if (!profile.org_id) {
+    return { error: "You must be part of an organization" };
+  }
+
+  const { start, end } = getFairnessPeriod(days);
+  const { data: rows, error } = await getFairnessRows(supabase, profile.org_id, start, end);
+
+  if (error || !rows) {
+    return { error: error || "Failed to build the fairness report" };
+  }
+
+  return { data: buildFairnessReport(rows, start, end) };
+}
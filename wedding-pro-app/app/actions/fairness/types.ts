@@ -0,0 +1,49 @@
+/**
+ * One employee's interest, bookings and earnings over a period
+ */
+export type EmployeeFairnessRow = {
+  user_id: string;
+  full_name: string | null;
+  email: string | null;
+  interested_jobs: number; // Jobs in the period they expressed interest in
+  booked_interested_jobs: number; // Of those, the jobs they were booked on
+  assignments: number; // Every assignment in the period, asked for or not
+  earnings: number; // Expected earnings from role pay for those assignments
+};
+
+/**
+ * An employee's row with their share of the period's work compared to their
+ * share of the interest expressed
+ */
+export type EmployeeFairness = EmployeeFairnessRow & {
+  assignment_share: number; // 0-1
+  interest_share: number; // 0-1
+  share_ratio: number | null; // assignment_share / interest_share; below 1 means under-booked
+  booking_rate: number | null; // booked_interested_jobs / interested_jobs
+};
+
+/**
+ * How evenly work and pay were spread over a period
+ */
+export type FairnessReport = {
+  period_start: string; // YYYY-MM-DD
+  period_end: string; // YYYY-MM-DD, inclusive
+  eligible_count: number;
+  total_assignments: number;
+  total_earnings: number;
+  assignment_gini: number; // 0 = perfectly even, 1 = one person got everything
+  earnings_gini: number;
+  fairness_index: number; // 0-100, higher is fairer
+  employees: EmployeeFairness[];
+  overlooked: EmployeeFairness[]; // Keep expressing interest but never get booked
+};
+
+/**
+ * Fairness figures shown next to an interested employee on the assign page
+ */
+export type EmployeeFairnessSummary = Pick<
+  EmployeeFairnessRow,
+  'interested_jobs' | 'booked_interested_jobs' | 'assignments'
+> & {
+  booking_rate: number | null;
+};
@@ -0,0 +1,145 @@
+"use server";
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { getPeriodRange } from "../payroll/client-utils";
+import { calculateExpectedEarnings, getShiftHours } from "../role-compensation/client-utils";
+import type { EmployeeFairnessRow } from "./types";
+
+function unwrap<T>(value: T | T[] | null | undefined): T | null {
+  return (Array.isArray(value) ? value[0] : value) ?? null;
+}
+
+/**
+ * Gather each approved employee's interest, bookings and expected earnings on
+ * the org's jobs starting in a period. Drafts and cancelled jobs don't count.
+ * Pass `userIds` to limit the figures to those employees.
+ */
+export async function getFairnessRows(
+  supabase: SupabaseClient,
+  orgId: string,
+  periodStart: string,
+  periodEnd: string,
+  userIds?: string[]
+): Promise<{ data?: EmployeeFairnessRow[]; error?: string }> {
+  const { from, to } = getPeriodRange(periodStart, periodEnd);
+
+  let profileQuery = supabase
+    .from('profiles')
+    .select('id, full_name, email')
+    .eq('org_id', orgId)
+    .eq('role', 'Employee')
+    .eq('approval_status', 'approved');
+
+  if (userIds) {
+    if (userIds.length === 0) {
+      return { data: [] };
+    }
+    profileQuery = profileQuery.in('id', userIds);
+  }
+
+  const { data: profiles, error: profileError } = await profileQuery;
+
+  if (profileError) {
+    console.error("Error fetching employees for fairness:", profileError);
+    return { error: "Failed to fetch employees" };
+  }
+
+  if (!profiles || profiles.length === 0) {
+    return { data: [] };
+  }
+
+  const employeeIds = profiles.map(profile => profile.id);
+
+  const { data: interests, error: interestError } = await supabase
+    .from('job_interests')
+    .select(`
+      user_id,
+      job_id,
+      job:job_id!inner (
+        org_id, start_time, status
+      )
+    `)
+    .in('user_id', employeeIds)
+    .eq('job.org_id', orgId)
+    .not('job.status', 'in', '(draft,cancelled)')
+    .gte('job.start_time', from.toISOString())
+    .lt('job.start_time', to.toISOString());
+
+  if (interestError) {
+    console.error("Error fetching interests for fairness:", interestError);
+    return { error: "Failed to fetch interest" };
+  }
+
+  const { data: assignments, error: assignmentError } = await supabase
+    .from('job_assignments')
+    .select(`
+      user_id,
+      job_id,
+      job:job_id!inner (
+        org_id, start_time, end_time, status
+      ),
+      shift:shift_id (
+        start_time, end_time
+      ),
+      job_required_role:job_required_role_id (
+        pay_type, pay_rate, min_hours, overtime_after_hours, overtime_multiplier, bonus_amount
+      )
+    `)
+    .in('user_id', employeeIds)
+    .neq('status', 'declined')
+    .eq('job.org_id', orgId)
+    .not('job.status', 'in', '(draft,cancelled)')
+    .gte('job.start_time', from.toISOString())
+    .lt('job.start_time', to.toISOString());
+
+  if (assignmentError) {
+    console.error("Error fetching assignments for fairness:", assignmentError);
+    return { error: "Failed to fetch assignments" };
+  }
+
+  const interestedJobs = new Map<string, Set<string>>();
+  for (const interest of interests || []) {
+    const jobs = interestedJobs.get(interest.user_id) || new Set<string>();
+    jobs.add(interest.job_id);
+    interestedJobs.set(interest.user_id, jobs);
+  }
+
+  const bookedJobs = new Map<string, Set<string>>();
+  const assignmentCounts = new Map<string, number>();
+  const earnings = new Map<string, number>();
+
+  for (const row of (assignments || []) as any[]) {
+    const job = unwrap<any>(row.job);
+    const shift = unwrap<any>(row.shift);
+    const role = unwrap<any>(row.job_required_role);
+
+    const jobs = bookedJobs.get(row.user_id) || new Set<string>();
+    jobs.add(row.job_id);
+    bookedJobs.set(row.user_id, jobs);
+    assignmentCounts.set(row.user_id, (assignmentCounts.get(row.user_id) || 0) + 1);
+
+    const pay = role
+      ? calculateExpectedEarnings(role, getShiftHours(shift?.start_time || job.start_time, shift?.end_time || job.end_time))
+      : null;
+    if (pay) {
+      earnings.set(row.user_id, (earnings.get(row.user_id) || 0) + pay.total);
+    }
+  }
+
+  return {
+    data: profiles.map(profile => {
+      const interested = interestedJobs.get(profile.id) || new Set<string>();
+      const booked = bookedJobs.get(profile.id) || new Set<string>();
+
+      return {
+        user_id: profile.id,
+        full_name: profile.full_name,
+        email: profile.email,
+        interested_jobs: interested.size,
+        booked_interested_jobs: Array.from(interested).filter(jobId => booked.has(jobId)).length,
+        assignments: assignmentCounts.get(profile.id) || 0,
+        earnings: Math.round((earnings.get(profile.id) || 0) * 100) / 100
+      };
+    })
+  };
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildAttachmentStoragePath,
+  formatFileSize,
+  isImageAttachment,
+  isPdfAttachment,
+  MAX_ATTACHMENT_SIZE_BYTES,
+  validateAttachmentFile
+} from './client-utils';
+
+describe('job attachment client utils', () => {
+  describe('validateAttachmentFile', () => {
+    it('should accept a PDF under the size limit', () => {
+      expect(validateAttachmentFile({ name: 'contract.pdf', size: 120_000, type: 'application/pdf' })).toBeNull();
+    });
+
+    it('should reject empty, oversized and unsupported files', () => {
+      expect(validateAttachmentFile({ name: '', size: 0, type: '' })).toMatch(/Choose a file/);
+      expect(validateAttachmentFile({ name: 'big.pdf', size: MAX_ATTACHMENT_SIZE_BYTES + 1, type: 'application/pdf' })).toMatch(/25 MB/);
+      expect(validateAttachmentFile({ name: 'setup.exe', size: 1000, type: 'application/x-msdownload' })).toMatch(/Upload a PDF/);
+    });
+  });
+
+  describe('buildAttachmentStoragePath', () => {
+    it('should put the job ID in the second folder and clean up the file name', () => {
+      const path = buildAttachmentStoragePath({
+        orgId: 'org-1',
+        jobId: 'job-1',
+        attachmentId: 'att-1',
+        version: 2,
+        fileName: 'Floor plan (final) #2.pdf',
+      });
+
+      expect(path).toBe('org-1/job-1/att-1/v2-Floor-plan-final-2.pdf');
+      expect(path.split('/')[1]).toBe('job-1');
+    });
+
+    it('should never produce extra folders from the file name', () => {
+      const path = buildAttachmentStoragePath({
+        orgId: 'org-1',
+        jobId: 'job-1',
+        attachmentId: 'att-1',
+        version: 1,
+        fileName: '../../other-org/secret.pdf',
+      });
+
+      expect(path.split('/')).toHaveLength(4);
+    });
+  });
+
+  describe('previews and sizes', () => {
+    it('should only preview browser-renderable images and PDFs', () => {
+      expect(isImageAttachment('image/png')).toBe(true);
+      expect(isImageAttachment('image/heic')).toBe(false);
+      expect(isPdfAttachment('application/pdf')).toBe(true);
+      expect(isPdfAttachment('application/msword')).toBe(false);
+    });
+
+    it('should format file sizes', () => {
+      expect(formatFileSize(512)).toBe('512 B');
+      expect(formatFileSize(2048)).toBe('2 KB');
+      expect(formatFileSize(25 * 1024 * 1024)).toBe('25 MB');
+      expect(formatFileSize(null)).toBe('');
+    });
+  });
+});
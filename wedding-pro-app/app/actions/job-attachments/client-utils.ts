@@ -0,0 +1,106 @@
+import type { JobAttachmentCategory, JobAttachmentVisibility } from "./types";
+
+/**
+ * Private storage bucket holding job attachment files
+ */
+export const JOB_ATTACHMENTS_BUCKET = 'job-attachments';
+
+/**
+ * Largest file that can be uploaded. Matches the bucket's file_size_limit and
+ * the server action body size limit in next.config.ts.
+ */
+export const MAX_ATTACHMENT_SIZE_BYTES = 25 * 1024 * 1024;
+
+/**
+ * How long download links stay valid, in seconds
+ */
+export const SIGNED_URL_EXPIRY_SECONDS = 60 * 60;
+
+/**
+ * File types that can be attached. Matches the bucket's allowed_mime_types.
+ */
+export const ALLOWED_ATTACHMENT_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/heic',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'text/plain',
+  'text/csv',
+];
+
+export const JOB_ATTACHMENT_CATEGORY_LABELS: Record<JobAttachmentCategory, string> = {
+  contract: 'Contract',
+  shot_list: 'Shot list',
+  floor_plan: 'Floor plan',
+  coi: 'Vendor COI',
+  other: 'Other',
+};
+
+export const JOB_ATTACHMENT_VISIBILITY_LABELS: Record<JobAttachmentVisibility, string> = {
+  managers: 'Managers only',
+  crew: 'Managers and assigned crew',
+};
+
+/**
+ * Validate a file before uploading it. Returns an error message or null.
+ */
+export function validateAttachmentFile(file: { name: string; size: number; type: string }): string | null {
+  if (!file.name || file.size === 0) {
+    return "Choose a file to upload";
+  }
+
+  if (file.size > MAX_ATTACHMENT_SIZE_BYTES) {
+    return `Files can be at most ${formatFileSize(MAX_ATTACHMENT_SIZE_BYTES)}`;
+  }
+
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+    return "Upload a PDF, an image, a Word or Excel document, or a text file";
+  }
+
+  return null;
+}
+
+/**
+ * Where a version of an attachment is stored in the bucket:
+ * {org_id}/{job_id}/{attachment_id}/v{version}-{file_name}. The storage
+ * policies read the job ID from the second folder.
+ */
+export function buildAttachmentStoragePath(input: {
+  orgId: string;
+  jobId: string;
+  attachmentId: string;
+  version: number;
+  fileName: string;
+}): string {
+  const safeName = input.fileName
+    .normalize('NFKD')
+    .replace(/[^\w.-]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^[-.]+|-+$/g, '') || 'file';
+
+  return `${input.orgId}/${input.jobId}/${input.attachmentId}/v${input.version}-${safeName}`;
+}
+
+export function isImageAttachment(contentType: string | null | undefined): boolean {
+  return !!contentType && contentType.startsWith('image/') && contentType !== 'image/heic';
+}
+
+export function isPdfAttachment(contentType: string | null | undefined): boolean {
+  return contentType === 'application/pdf';
+}
+
+/**
+ * Format a file size for display, e.g. "2.4 MB"
+ */
+export function formatFileSize(bytes: number | null | undefined): string {
+  if (bytes == null) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '')} MB`;
+}
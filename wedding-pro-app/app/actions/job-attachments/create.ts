@@ -0,0 +1,178 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { checkManagerPermission, verifyJobOrganization } from "../jobs/utils";
+import {
+  JOB_ATTACHMENT_CATEGORY_LABELS,
+  JOB_ATTACHMENT_VISIBILITY_LABELS,
+  JOB_ATTACHMENTS_BUCKET,
+  validateAttachmentFile
+} from "./client-utils";
+import { storeAttachmentVersion } from "./utils";
+
+/**
+ * Attach a new document to a job
+ */
+export async function uploadJobAttachment(jobId: string, formData: FormData) {
+  const supabase = await createClient();
+  const jobPath = `/dashboard/manager/jobs/${jobId}`;
+
+  // Check permissions
+  const { authorized, user, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile || !user) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  // Verify the job belongs to the user's organization
+  const { verified, error: jobVerifyError } = await verifyJobOrganization(
+    supabase,
+    jobId,
+    profile.org_id!
+  );
+
+  if (!verified) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", jobVerifyError || "Job not found or not authorized");
+  }
+
+  // Extract form data
+  const file = formData.get("file");
+  const category = formData.get("category")?.toString() || "other";
+  const visibility = formData.get("visibility")?.toString() || "managers";
+
+  if (!(file instanceof File)) {
+    return encodedRedirect("error", jobPath, "Choose a file to upload");
+  }
+
+  const fileError = validateAttachmentFile(file);
+  if (fileError) {
+    return encodedRedirect("error", jobPath, fileError);
+  }
+
+  if (!(category in JOB_ATTACHMENT_CATEGORY_LABELS) || !(visibility in JOB_ATTACHMENT_VISIBILITY_LABELS)) {
+    return encodedRedirect("error", jobPath, "Choose a category and who can see the file");
+  }
+
+  const title = formData.get("title")?.toString().trim() || file.name;
+
+  const { data: attachment, error } = await supabase
+    .from('job_attachments')
+    .insert([
+      {
+        job_id: jobId,
+        org_id: profile.org_id,
+        title,
+        category,
+        visibility,
+        current_version: 1,
+        created_by_user_id: user.id
+      }
+    ])
+    .select('id')
+    .single();
+
+  if (error || !attachment) {
+    console.error("Error creating job attachment:", error);
+    return encodedRedirect("error", jobPath, error?.message || "Failed to add the attachment");
+  }
+
+  const { error: storeError } = await storeAttachmentVersion(supabase, {
+    orgId: profile.org_id!,
+    jobId,
+    attachmentId: attachment.id,
+    version: 1,
+    file,
+    userId: user.id,
+  });
+
+  if (storeError) {
+    // Don't leave an attachment with no file behind
+    await supabase.from('job_attachments').delete().eq('id', attachment.id);
+    return encodedRedirect("error", jobPath, storeError);
+  }
+
+  revalidatePath(jobPath);
+  return encodedRedirect("success", jobPath, `${title} attached`);
+}
+
+/**
+ * Upload a new version of an existing attachment. Earlier versions are kept
+ * and stay downloadable from the version history.
+ */
+export async function uploadAttachmentVersion(jobId: string, attachmentId: string, formData: FormData) {
+  const supabase = await createClient();
+  const jobPath = `/dashboard/manager/jobs/${jobId}`;
+
+  // Check permissions
+  const { authorized, user, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile || !user) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  // Verify the job belongs to the user's organization
+  const { verified, error: jobVerifyError } = await verifyJobOrganization(
+    supabase,
+    jobId,
+    profile.org_id!
+  );
+
+  if (!verified) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", jobVerifyError || "Job not found or not authorized");
+  }
+
+  const file = formData.get("file");
+  if (!(file instanceof File)) {
+    return encodedRedirect("error", jobPath, "Choose a file to upload");
+  }
+
+  const fileError = validateAttachmentFile(file);
+  if (fileError) {
+    return encodedRedirect("error", jobPath, fileError);
+  }
+
+  const { data: attachment, error: fetchError } = await supabase
+    .from('job_attachments')
+    .select('id, title, current_version')
+    .eq('id', attachmentId)
+    .eq('job_id', jobId)
+    .maybeSingle();
+
+  if (fetchError || !attachment) {
+    console.error("Error fetching job attachment:", fetchError);
+    return encodedRedirect("error", jobPath, "Attachment not found for this job");
+  }
+
+  const nextVersion = attachment.current_version + 1;
+
+  const { data: version, error: storeError } = await storeAttachmentVersion(supabase, {
+    orgId: profile.org_id!,
+    jobId,
+    attachmentId,
+    version: nextVersion,
+    file,
+    userId: user.id,
+  });
+
+  if (storeError || !version) {
+    return encodedRedirect("error", jobPath, storeError || "Failed to save the file");
+  }
+
+  const { error: updateError } = await supabase
+    .from('job_attachments')
+    .update({
+      current_version: nextVersion,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', attachmentId);
+
+  if (updateError) {
+    console.error("Error updating job attachment version:", updateError);
+    await supabase.from('job_attachment_versions').delete().eq('id', version.id);
+    await supabase.storage.from(JOB_ATTACHMENTS_BUCKET).remove([version.storage_path]);
+    return encodedRedirect("error", jobPath, updateError.message);
+  }
+
+  revalidatePath(jobPath);
+  return encodedRedirect("success", jobPath, `Version ${nextVersion} of ${attachment.title} uploaded`);
+}
@@ -0,0 +1,52 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { checkManagerPermission, verifyJobOrganization } from "../jobs/utils";
+import { getAttachmentsForJob } from "./utils";
+import type { JobAttachment } from "./types";
+
+/**
+ * Get every attachment on a job, with download links (managers only)
+ */
+export async function getJobAttachments(jobId: string): Promise<{ data?: JobAttachment[]; error?: string }> {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return { error: permError || "Unauthorized" };
+  }
+
+  // Verify the job belongs to the user's organization
+  const { verified, error: jobVerifyError } = await verifyJobOrganization(
+    supabase,
+    jobId,
+    profile.org_id!
+  );
+
+  if (!verified) {
+    return { error: jobVerifyError || "Job not found or not authorized" };
+  }
+
+  return getAttachmentsForJob(supabase, jobId);
+}
+
+/**
+ * Get the attachments shared with crew on a job the current user is assigned
+ * to. RLS returns nothing for other jobs or for managers-only files.
+ */
+export async function getCrewJobAttachments(jobId: string): Promise<{ data?: JobAttachment[]; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { error: "You must be logged in" };
+  }
+
+  const { data, error } = await getAttachmentsForJob(supabase, jobId);
+  if (error) {
+    return { error };
+  }
+
+  return { data: (data || []).filter(attachment => attachment.visibility === 'crew') };
+}
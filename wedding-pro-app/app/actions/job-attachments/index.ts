@@ -0,0 +1,10 @@
+"use server";
+
+// This file re-exports all public actions and types related to job attachments.
+
+export { uploadJobAttachment, uploadAttachmentVersion } from './create';
+export { getJobAttachments, getCrewJobAttachments } from './fetch';
+export { updateJobAttachment, deleteJobAttachment } from './update';
+
+// Re-export all types from the dedicated types module
+export * from './types';
@@ -0,0 +1,43 @@
+/**
+ * What kind of document an attachment is
+ */
+export type JobAttachmentCategory = 'contract' | 'shot_list' | 'floor_plan' | 'coi' | 'other';
+
+/**
+ * Who can see an attachment: managers only, or managers and the job's assigned crew
+ */
+export type JobAttachmentVisibility = 'managers' | 'crew';
+
+/**
+ * One uploaded file of an attachment. `signed_url` is a short-lived download
+ * link, only set when the current user is allowed to read the file.
+ */
+export type JobAttachmentVersion = {
+  id: string;
+  attachment_id: string;
+  version: number;
+  storage_path: string;
+  file_name: string;
+  content_type: string | null;
+  size_bytes: number | null;
+  uploaded_by_user_id: string | null;
+  created_at: string;
+  signed_url?: string | null;
+};
+
+/**
+ * A document attached to a job, with its versions newest first
+ */
+export type JobAttachment = {
+  id: string;
+  job_id: string;
+  org_id: string;
+  title: string;
+  category: JobAttachmentCategory;
+  visibility: JobAttachmentVisibility;
+  current_version: number;
+  created_by_user_id: string | null;
+  created_at: string;
+  updated_at: string;
+  versions: JobAttachmentVersion[];
+};
@@ -0,0 +1,132 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { checkManagerPermission, verifyJobOrganization } from "../jobs/utils";
+import {
+  JOB_ATTACHMENT_CATEGORY_LABELS,
+  JOB_ATTACHMENT_VISIBILITY_LABELS,
+  JOB_ATTACHMENTS_BUCKET
+} from "./client-utils";
+
+/**
+ * Rename an attachment, change its category or change who can see it.
+ * Visibility applies to every version of the file.
+ */
+export async function updateJobAttachment(jobId: string, attachmentId: string, formData: FormData) {
+  const supabase = await createClient();
+  const jobPath = `/dashboard/manager/jobs/${jobId}`;
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  // Verify the job belongs to the user's organization
+  const { verified, error: jobVerifyError } = await verifyJobOrganization(
+    supabase,
+    jobId,
+    profile.org_id!
+  );
+
+  if (!verified) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", jobVerifyError || "Job not found or not authorized");
+  }
+
+  // Extract form data
+  const title = formData.get("title")?.toString().trim() || "";
+  const category = formData.get("category")?.toString() || "";
+  const visibility = formData.get("visibility")?.toString() || "";
+
+  if (!title) {
+    return encodedRedirect("error", jobPath, "Attachment title is required");
+  }
+
+  if (!(category in JOB_ATTACHMENT_CATEGORY_LABELS) || !(visibility in JOB_ATTACHMENT_VISIBILITY_LABELS)) {
+    return encodedRedirect("error", jobPath, "Choose a category and who can see the file");
+  }
+
+  const { data: attachment, error } = await supabase
+    .from('job_attachments')
+    .update({
+      title,
+      category,
+      visibility,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', attachmentId)
+    .eq('job_id', jobId)
+    .select('id')
+    .maybeSingle();
+
+  if (error || !attachment) {
+    console.error("Error updating job attachment:", error);
+    return encodedRedirect("error", jobPath, error?.message || "Attachment not found for this job");
+  }
+
+  revalidatePath(jobPath);
+  revalidatePath(`/dashboard/employee/jobs/${jobId}`);
+  return encodedRedirect("success", jobPath, `${title} updated`);
+}
+
+/**
+ * Delete an attachment and every version of its file
+ */
+export async function deleteJobAttachment(formData: FormData) {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  const jobId = formData.get("jobId")?.toString();
+  const attachmentId = formData.get("attachmentId")?.toString();
+  if (!jobId || !attachmentId) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", "Job ID and attachment ID are required");
+  }
+  const jobPath = `/dashboard/manager/jobs/${jobId}`;
+
+  // Verify the job belongs to the user's organization
+  const { verified, error: jobVerifyError } = await verifyJobOrganization(
+    supabase,
+    jobId,
+    profile.org_id!
+  );
+
+  if (!verified) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", jobVerifyError || "Job not found or not authorized");
+  }
+
+  const { data: versions } = await supabase
+    .from('job_attachment_versions')
+    .select('storage_path')
+    .eq('attachment_id', attachmentId);
+
+  const { error } = await supabase
+    .from('job_attachments')
+    .delete()
+    .eq('id', attachmentId)
+    .eq('job_id', jobId);
+
+  if (error) {
+    console.error("Error deleting job attachment:", error);
+    return encodedRedirect("error", jobPath, error.message);
+  }
+
+  const paths = (versions || []).map(version => version.storage_path);
+  if (paths.length > 0) {
+    const { error: removeError } = await supabase.storage.from(JOB_ATTACHMENTS_BUCKET).remove(paths);
+    if (removeError) {
+      // The attachment is gone from the job either way; the files are unreachable
+      console.error("Error removing job attachment files:", removeError);
+    }
+  }
+
+  revalidatePath(jobPath);
+  revalidatePath(`/dashboard/employee/jobs/${jobId}`);
+  return encodedRedirect("success", jobPath, "Attachment deleted");
+}
@@ -0,0 +1,127 @@
+"use server";
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { buildAttachmentStoragePath, JOB_ATTACHMENTS_BUCKET, SIGNED_URL_EXPIRY_SECONDS } from "./client-utils";
+import type { JobAttachment, JobAttachmentVersion } from "./types";
+
+/**
+ * Upload a file as a new version of an attachment and record it. The file is
+ * removed again if the version row can't be saved.
+ */
+export async function storeAttachmentVersion(
+  supabase: SupabaseClient,
+  input: {
+    orgId: string;
+    jobId: string;
+    attachmentId: string;
+    version: number;
+    file: File;
+    userId: string;
+  }
+): Promise<{ data?: JobAttachmentVersion; error?: string }> {
+  const storagePath = buildAttachmentStoragePath({
+    orgId: input.orgId,
+    jobId: input.jobId,
+    attachmentId: input.attachmentId,
+    version: input.version,
+    fileName: input.file.name,
+  });
+
+  const { error: uploadError } = await supabase.storage
+    .from(JOB_ATTACHMENTS_BUCKET)
+    .upload(storagePath, input.file, {
+      contentType: input.file.type,
+      upsert: false,
+    });
+
+  if (uploadError) {
+    console.error("Error uploading job attachment:", uploadError);
+    return { error: uploadError.message };
+  }
+
+  const { data: version, error: versionError } = await supabase
+    .from('job_attachment_versions')
+    .insert([
+      {
+        attachment_id: input.attachmentId,
+        version: input.version,
+        storage_path: storagePath,
+        file_name: input.file.name,
+        content_type: input.file.type || null,
+        size_bytes: input.file.size,
+        uploaded_by_user_id: input.userId
+      }
+    ])
+    .select('*')
+    .single();
+
+  if (versionError || !version) {
+    console.error("Error recording job attachment version:", versionError);
+    await supabase.storage.from(JOB_ATTACHMENTS_BUCKET).remove([storagePath]);
+    return { error: versionError?.message || "Failed to save the file" };
+  }
+
+  return { data: version as JobAttachmentVersion };
+}
+
+/**
+ * Get the attachments on a job that the current user can see, with their
+ * versions newest first and a signed download URL for each.
+ *
+ * Pass the user's own client: the table and storage policies decide what is
+ * returned and which files can be signed, so crew only get crew files.
+ */
+export async function getAttachmentsForJob(
+  supabase: SupabaseClient,
+  jobId: string
+): Promise<{ data?: JobAttachment[]; error?: string }> {
+  const { data, error } = await supabase
+    .from('job_attachments')
+    .select('*, versions:job_attachment_versions(*)')
+    .eq('job_id', jobId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error("Error fetching job attachments:", error);
+    return { error: "Failed to fetch attachments" };
+  }
+
+  const attachments = (data || []).map((attachment: any) => ({
+    ...attachment,
+    versions: [...(attachment.versions || [])].sort(
+      (a: JobAttachmentVersion, b: JobAttachmentVersion) => b.version - a.version
+    ),
+  })) as JobAttachment[];
+
+  const paths = attachments.flatMap(attachment => attachment.versions.map(version => version.storage_path));
+  if (paths.length === 0) {
+    return { data: attachments };
+  }
+
+  const { data: signedUrls, error: signError } = await supabase.storage
+    .from(JOB_ATTACHMENTS_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_EXPIRY_SECONDS);
+
+  if (signError) {
+    // Still list the attachments, just without download links
+    console.error("Error signing job attachment URLs:", signError);
+    return { data: attachments };
+  }
+
+  const urlByPath = new Map<string, string | null>();
+  for (const signed of signedUrls || []) {
+    if (signed.path) {
+      urlByPath.set(signed.path, signed.error ? null : signed.signedUrl);
+    }
+  }
+
+  return {
+    data: attachments.map(attachment => ({
+      ...attachment,
+      versions: attachment.versions.map(version => ({
+        ...version,
+        signed_url: urlByPath.get(version.storage_path) || null,
+      })),
+    })),
+  };
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { getContactWindow, isWithinContactWindow, validateJobContact } from './client-utils';
+
+const job = { start_time: '2025-06-14T18:00:00Z', end_time: '2025-06-15T01:00:00Z' };
+
+describe('job contact client utils', () => {
+  describe('validateJobContact', () => {
+    it('should accept a contact with only a name', () => {
+      expect(validateJobContact({ contact_type: 'client', name: 'Sam & Alex Rivera' })).toBeNull();
+    });
+
+    it('should reject an unknown type, a blank name and malformed details', () => {
+      expect(validateJobContact({ contact_type: 'vendor', name: 'Sam' })).toMatch(/client or the planner/);
+      expect(validateJobContact({ contact_type: 'planner', name: '  ' })).toMatch(/name/);
+      expect(validateJobContact({ contact_type: 'planner', name: 'Jo', email: 'jo@' })).toMatch(/email/);
+      expect(validateJobContact({ contact_type: 'planner', name: 'Jo', phone: '555' })).toMatch(/phone/);
+    });
+  });
+
+  describe('getContactWindow', () => {
+    it('should open a day before the start and close 12 hours after the end', () => {
+      const { opensAt, closesAt } = getContactWindow(job);
+
+      expect(opensAt.toISOString()).toBe('2025-06-13T18:00:00.000Z');
+      expect(closesAt.toISOString()).toBe('2025-06-15T13:00:00.000Z');
+    });
+  });
+
+  describe('isWithinContactWindow', () => {
+    it('should only be true inside the window', () => {
+      expect(isWithinContactWindow(job, new Date('2025-06-13T17:59:00Z'))).toBe(false);
+      expect(isWithinContactWindow(job, new Date('2025-06-14T09:00:00Z'))).toBe(true);
+      expect(isWithinContactWindow(job, new Date('2025-06-15T13:01:00Z'))).toBe(false);
+    });
+  });
+});
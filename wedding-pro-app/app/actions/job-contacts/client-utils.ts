@@ -0,0 +1,62 @@
+import type { JobContactType } from "./types";
+
+export const JOB_CONTACT_TYPE_LABELS: Record<JobContactType, string> = {
+  client: 'Client',
+  planner: 'Planner',
+};
+
+/**
+ * Assigned staff can see contact phone numbers from this many hours before a
+ * job starts until this many hours after it ends. Mirrors get_day_of_contacts().
+ */
+export const CONTACT_WINDOW_HOURS_BEFORE = 24;
+export const CONTACT_WINDOW_HOURS_AFTER = 12;
+
+/**
+ * Validate a contact before saving. Returns an error message or null.
+ */
+export function validateJobContact(input: {
+  contact_type: string;
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+}): string | null {
+  if (!(input.contact_type in JOB_CONTACT_TYPE_LABELS)) {
+    return "Choose whether the contact is the client or the planner";
+  }
+
+  if (!input.name.trim()) {
+    return "Contact name is required";
+  }
+
+  if (input.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input.email)) {
+    return "Enter a valid email address";
+  }
+
+  if (input.phone && input.phone.replace(/\D/g, '').length < 7) {
+    return "Enter a valid phone number";
+  }
+
+  return null;
+}
+
+/**
+ * The window in which assigned staff can see day-of contact numbers
+ */
+export function getContactWindow(job: { start_time: string; end_time: string }): { opensAt: Date; closesAt: Date } {
+  return {
+    opensAt: new Date(new Date(job.start_time).getTime() - CONTACT_WINDOW_HOURS_BEFORE * 60 * 60 * 1000),
+    closesAt: new Date(new Date(job.end_time).getTime() + CONTACT_WINDOW_HOURS_AFTER * 60 * 60 * 1000),
+  };
+}
+
+/**
+ * Whether day-of contact numbers are visible to assigned staff at `now`
+ */
+export function isWithinContactWindow(
+  job: { start_time: string; end_time: string },
+  now: Date = new Date()
+): boolean {
+  const { opensAt, closesAt } = getContactWindow(job);
+  return now >= opensAt && now <= closesAt;
+}
@@ -0,0 +1,66 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { checkManagerPermission, verifyJobOrganization } from "../jobs/utils";
+import { validateJobContact } from "./client-utils";
+
+/**
+ * Add a client or planner contact to a job
+ */
+export async function createJobContact(jobId: string, formData: FormData) {
+  const supabase = await createClient();
+  const editPath = `/dashboard/manager/jobs/${jobId}/edit`;
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  // Verify the job belongs to the user's organization
+  const { verified, error: jobVerifyError } = await verifyJobOrganization(
+    supabase,
+    jobId,
+    profile.org_id!
+  );
+
+  if (!verified) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", jobVerifyError || "Job not found or not authorized");
+  }
+
+  // Extract form data
+  const contactType = formData.get("contact_type")?.toString() || "";
+  const name = formData.get("name")?.toString().trim() || "";
+  const email = formData.get("email")?.toString().trim() || null;
+  const phone = formData.get("phone")?.toString().trim() || null;
+  const notes = formData.get("notes")?.toString().trim() || null;
+
+  const validationError = validateJobContact({ contact_type: contactType, name, email, phone });
+  if (validationError) {
+    return encodedRedirect("error", editPath, validationError);
+  }
+
+  const { error } = await supabase
+    .from('job_contacts')
+    .insert([
+      {
+        job_id: jobId,
+        contact_type: contactType,
+        name,
+        email,
+        phone,
+        notes
+      }
+    ]);
+
+  if (error) {
+    console.error("Error creating job contact:", error);
+    return encodedRedirect("error", editPath, error.message);
+  }
+
+  revalidatePath(`/dashboard/manager/jobs/${jobId}`);
+  revalidatePath(editPath);
+  return encodedRedirect("success", editPath, `${name} added to the job's contacts`);
+}
@@ -0,0 +1,60 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { checkManagerPermission, verifyJobOrganization } from "../jobs/utils";
+import type { DayOfContact, JobContact } from "./types";
+
+/**
+ * Get all of a job's contacts with full details (managers only)
+ */
+export async function getJobContacts(jobId: string): Promise<{ data?: JobContact[]; error?: string }> {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return { error: permError || "Unauthorized" };
+  }
+
+  // Verify the job belongs to the user's organization
+  const { verified, error: jobVerifyError } = await verifyJobOrganization(
+    supabase,
+    jobId,
+    profile.org_id!
+  );
+
+  if (!verified) {
+    return { error: jobVerifyError || "Job not found or not authorized" };
+  }
+
+  const { data, error } = await supabase
+    .from('job_contacts')
+    .select('*')
+    .eq('job_id', jobId)
+    .order('contact_type', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error("Error fetching job contacts:", error);
+    return { error: "Failed to fetch job contacts" };
+  }
+
+  return { data: (data || []) as JobContact[] };
+}
+
+/**
+ * Get the day-of contact names and phone numbers for a job the current user
+ * is assigned to. Empty outside the contact window (see client-utils).
+ */
+export async function getDayOfContacts(jobId: string): Promise<{ data?: DayOfContact[]; error?: string }> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc('get_day_of_contacts', { p_job_id: jobId });
+
+  if (error) {
+    console.error("Error fetching day-of contacts:", error);
+    return { error: "Failed to fetch contacts" };
+  }
+
+  return { data: (data || []) as DayOfContact[] };
+}
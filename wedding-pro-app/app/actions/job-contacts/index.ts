@@ -0,0 +1,10 @@
+"use server";
+
+// This file re-exports all public actions and types related to job contacts.
+
+export { createJobContact } from './create';
+export { getJobContacts, getDayOfContacts } from './fetch';
+export { updateJobContact, deleteJobContact } from './update';
+
+// Re-export all types from the dedicated types module
+export * from './types';
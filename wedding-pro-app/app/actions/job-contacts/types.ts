@@ -0,0 +1,26 @@
+/**
+ * Who a job contact is: the couple/client or their planner
+ */
+export type JobContactType = 'client' | 'planner';
+
+/**
+ * A client or planner contact on a job (managers only)
+ */
+export type JobContact = {
+  id: string;
+  job_id: string;
+  contact_type: JobContactType;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  notes: string | null;
+  source: 'manual' | 'honeybook';
+  external_id: string | null; // HoneyBook ID for synced contacts
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * What assigned staff see on the day: name and phone number only
+ */
+export type DayOfContact = Pick<JobContact, 'id' | 'contact_type' | 'name' | 'phone'>;
@@ -0,0 +1,115 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { checkManagerPermission, verifyJobOrganization } from "../jobs/utils";
+import { validateJobContact } from "./client-utils";
+
+/**
+ * Update a job contact. Contacts synced from HoneyBook can be edited too,
+ * but the next HoneyBook update to the project overwrites them.
+ */
+export async function updateJobContact(jobId: string, contactId: string, formData: FormData) {
+  const supabase = await createClient();
+  const editPath = `/dashboard/manager/jobs/${jobId}/edit`;
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  // Verify the job belongs to the user's organization
+  const { verified, error: jobVerifyError } = await verifyJobOrganization(
+    supabase,
+    jobId,
+    profile.org_id!
+  );
+
+  if (!verified) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", jobVerifyError || "Job not found or not authorized");
+  }
+
+  // Extract form data
+  const contactType = formData.get("contact_type")?.toString() || "";
+  const name = formData.get("name")?.toString().trim() || "";
+  const email = formData.get("email")?.toString().trim() || null;
+  const phone = formData.get("phone")?.toString().trim() || null;
+  const notes = formData.get("notes")?.toString().trim() || null;
+
+  const validationError = validateJobContact({ contact_type: contactType, name, email, phone });
+  if (validationError) {
+    return encodedRedirect("error", editPath, validationError);
+  }
+
+  const { data: contact, error } = await supabase
+    .from('job_contacts')
+    .update({
+      contact_type: contactType,
+      name,
+      email,
+      phone,
+      notes,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', contactId)
+    .eq('job_id', jobId)
+    .select('id')
+    .maybeSingle();
+
+  if (error || !contact) {
+    console.error("Error updating job contact:", error);
+    return encodedRedirect("error", editPath, error?.message || "Contact not found for this job");
+  }
+
+  revalidatePath(`/dashboard/manager/jobs/${jobId}`);
+  revalidatePath(editPath);
+  return encodedRedirect("success", editPath, `${name} updated`);
+}
+
+/**
+ * Remove a contact from a job
+ */
+export async function deleteJobContact(formData: FormData) {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  const jobId = formData.get("jobId")?.toString();
+  const contactId = formData.get("contactId")?.toString();
+  if (!jobId || !contactId) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", "Job ID and contact ID are required");
+  }
+  const editPath = `/dashboard/manager/jobs/${jobId}/edit`;
+
+  // Verify the job belongs to the user's organization
+  const { verified, error: jobVerifyError } = await verifyJobOrganization(
+    supabase,
+    jobId,
+    profile.org_id!
+  );
+
+  if (!verified) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", jobVerifyError || "Job not found or not authorized");
+  }
+
+  const { error } = await supabase
+    .from('job_contacts')
+    .delete()
+    .eq('id', contactId)
+    .eq('job_id', jobId);
+
+  if (error) {
+    console.error("Error deleting job contact:", error);
+    return encodedRedirect("error", editPath, error.message);
+  }
+
+  revalidatePath(`/dashboard/manager/jobs/${jobId}`);
+  revalidatePath(editPath);
+  return encodedRedirect("success", editPath, "Contact removed");
+}
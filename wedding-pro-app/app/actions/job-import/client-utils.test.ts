@@ -0,0 +1,207 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getImportFileTypeError,
+  parseCSV,
+  parseImportDate,
+  parseImportDateTime,
+  parseImportTime,
+  parseRoleList,
+  suggestColumnMapping,
+  tableToImportFile,
+  validateImportRows,
+} from './client-utils';
+import type { JobImportContext, JobImportField, JobImportOptions } from './types';
+
+const options: JobImportOptions = {
+  createMissingVenues: false,
+  skipInvalidRows: false,
+  defaultStatus: 'draft',
+};
+
+const context: JobImportContext = {
+  venues: [{ id: 'venue-1', name: 'The Grand Hall' }],
+  existingJobs: [],
+};
+
+describe('job import client utils', () => {
+  describe('parseCSV', () => {
+    it('should handle quoted fields, escaped quotes and blank lines', () => {
+      const csv = 'Title,Notes\r\n"Smith, Jones wedding","Bring the ""big"" lens"\r\n\r\nLee wedding,"Line one\nLine two"\n';
+
+      expect(parseCSV(csv)).toEqual([
+        ['Title', 'Notes'],
+        ['Smith, Jones wedding', 'Bring the "big" lens'],
+        ['Lee wedding', 'Line one\nLine two'],
+      ]);
+    });
+  });
+
+  describe('getImportFileTypeError', () => {
+    it('should accept CSV and XLSX files and ask for older workbooks to be resaved', () => {
+      expect(getImportFileTypeError('Season 2025.CSV')).toBeNull();
+      expect(getImportFileTypeError('season.xlsx')).toBeNull();
+      expect(getImportFileTypeError('season.xls')).toMatch(/Save the sheet as .xlsx or CSV/);
+      expect(getImportFileTypeError('season.pdf')).toBe("Upload a .csv or .xlsx file");
+    });
+  });
+
+  describe('tableToImportFile', () => {
+    it('should name blank headers and pad short rows', () => {
+      expect(tableToImportFile('season.csv', [['Title', ''], ['Only title']])).toEqual({
+        fileName: 'season.csv',
+        headers: ['Title', 'Column 2'],
+        rows: [['Only title', '']],
+      });
+    });
+  });
+
+  describe('suggestColumnMapping', () => {
+    it('should map known headers once and ignore the rest', () => {
+      expect(suggestColumnMapping(['Event Name', 'Date', 'Start Time', 'Venue', 'Name', 'Photographers']))
+        .toEqual(['title', 'date', 'start_time', 'venue_name', 'ignore', 'ignore']);
+    });
+  });
+
+  describe('date and time parsing', () => {
+    it('should accept common date formats and reject impossible dates', () => {
+      expect(parseImportDate('2025-06-14')).toBe('2025-06-14');
+      expect(parseImportDate('6/14/2025')).toBe('2025-06-14');
+      expect(parseImportDate('6/14/25')).toBe('2025-06-14');
+      expect(parseImportDate('Sat, June 14th, 2025')).toBe('2025-06-14');
+      expect(parseImportDate('14 Jun 2025')).toBe('2025-06-14');
+      expect(parseImportDate('45822')).toBe('2025-06-14');
+      expect(parseImportDate('2025-02-30')).toBeNull();
+      expect(parseImportDate('soon')).toBeNull();
+    });
+
+    it('should accept 12 and 24 hour times and Excel fractions', () => {
+      expect(parseImportTime('14:00')).toBe('14:00');
+      expect(parseImportTime('2:30 PM')).toBe('14:30');
+      expect(parseImportTime('12am')).toBe('00:00');
+      expect(parseImportTime('0.75')).toBe('18:00');
+      expect(parseImportTime('25:00')).toBeNull();
+    });
+
+    it('should split combined date-times and keep wall-clock time from ISO values', () => {
+      expect(parseImportDateTime('6/14/2025 2:00 PM')).toEqual({ date: '2025-06-14', time: '14:00' });
+      expect(parseImportDateTime('2025-06-14T14:00:00Z')).toEqual({ date: '2025-06-14', time: '14:00' });
+      expect(parseImportDateTime('45822.75')).toEqual({ date: '2025-06-14', time: '18:00' });
+      expect(parseImportDateTime('3pm')).toEqual({ date: null, time: '15:00' });
+    });
+  });
+
+  describe('parseRoleList', () => {
+    it('should read counts before or after the role name', () => {
+      expect(parseRoleList('Lead Photographer x1; Videographer (2), 2 x Assistant, Officiant')).toEqual({
+        roles: [
+          { role_name: 'Lead Photographer', quantity_needed: 1 },
+          { role_name: 'Videographer', quantity_needed: 2 },
+          { role_name: 'Assistant', quantity_needed: 2 },
+          { role_name: 'Officiant', quantity_needed: 1 },
+        ],
+        invalid: [],
+      });
+    });
+  });
+
+  describe('validateImportRows', () => {
+    const headers = ['Title', 'Date', 'Start', 'End', 'Venue', 'Photographer'];
+    const mapping: JobImportField[] = ['title', 'date', 'start_time', 'end_time', 'venue_name', 'role_quantity'];
+
+    it('should build jobs from valid rows and roll late end times to the next day', () => {
+      const preview = validateImportRows(
+        { headers, mapping, options, rows: [['Smith wedding', '2025-06-14', '6:00 PM', '1:00 AM', 'the grand hall', '2']] },
+        context
+      );
+
+      expect(preview.errorCount).toBe(0);
+      expect(preview.results[0].job).toEqual({
+        title: 'Smith wedding',
+        description: null,
+        start_time: '2025-06-14T18:00',
+        end_time: '2025-06-15T01:00',
+        status: 'draft',
+        venue_id: 'venue-1',
+        new_venue_key: null,
+        roles: [{ role_name: 'Photographer', quantity_needed: 2 }],
+      });
+    });
+
+    it('should report bad dates, unknown venues and missing titles per row', () => {
+      const preview = validateImportRows(
+        {
+          headers,
+          mapping,
+          options,
+          rows: [
+            ['', 'June 40 2025', '2pm', '10pm', 'Rooftop', 'two'],
+            ['Lee wedding', '2025-06-21', '2pm', '10pm', 'The Grand Hall', ''],
+          ],
+        },
+        context
+      );
+
+      expect(preview.validCount).toBe(1);
+      expect(preview.results[0].rowNumber).toBe(2);
+      expect(preview.results[0].job).toBeNull();
+      expect(preview.results[0].errors).toEqual([
+        'Title is required',
+        'Invalid date "June 40 2025"',
+        'Start time "2pm" has no date; map a Date column',
+        'End time "10pm" has no date; map a Date column',
+        'Unknown venue "Rooftop"',
+        'Invalid count "two" for Photographer',
+      ]);
+    });
+
+    it('should flag overlaps within the file and with existing jobs at the same venue', () => {
+      const preview = validateImportRows(
+        {
+          headers,
+          mapping,
+          options,
+          rows: [
+            ['Morning shoot', '2025-06-14', '09:00', '12:00', 'The Grand Hall', '1'],
+            ['Brunch', '2025-06-14', '11:00', '13:00', 'The Grand Hall', '1'],
+            ['Evening', '2025-06-14', '18:00', '22:00', 'The Grand Hall', '1'],
+          ],
+        },
+        {
+          ...context,
+          existingJobs: [{
+            id: 'job-1',
+            title: 'Patel reception',
+            venue_id: 'venue-1',
+            start_time: '2025-06-14T20:00',
+            end_time: '2025-06-14T23:00',
+          }],
+        }
+      );
+
+      expect(preview.results.map(result => result.errors)).toEqual([
+        [],
+        ['Overlaps row 2 at the same venue'],
+        ['Overlaps existing job "Patel reception" at the same venue'],
+      ]);
+    });
+
+    it('should create each missing venue once, and only for valid rows', () => {
+      const preview = validateImportRows(
+        {
+          headers,
+          mapping,
+          options: { ...options, createMissingVenues: true },
+          rows: [
+            ['Smith wedding', '2025-06-14', '14:00', '22:00', 'Rose Garden', '1'],
+            ['Lee wedding', '2025-06-21', '14:00', '22:00', 'rose garden', '1'],
+            ['Broken', 'not a date', '14:00', '22:00', 'Boathouse', '1'],
+          ],
+        },
+        context
+      );
+
+      expect(preview.newVenues.map(venue => venue.name)).toEqual(['Rose Garden']);
+      expect(preview.results[1].job?.new_venue_key).toBe('rose garden');
+    });
+  });
+});
@@ -0,0 +1,583 @@
+import { hasTimeConflict } from "@/utils/timeUtils";
+import type {
+  JobImportContext,
+  JobImportField,
+  JobImportInput,
+  JobImportPreview,
+  JobImportRow,
+  JobImportRowResult,
+  NewImportVenue,
+  ParsedImportFile,
+} from "./types";
+
+/**
+ * Labels for the column mapping dropdown
+ */
+export const JOB_IMPORT_FIELD_LABELS: Record<JobImportField, string> = {
+  ignore: "Don't import",
+  title: 'Job title',
+  description: 'Description',
+  date: 'Date',
+  start_time: 'Start time',
+  end_time: 'End time',
+  venue_name: 'Venue name',
+  venue_address: 'Venue address',
+  venue_city: 'Venue city',
+  venue_state: 'Venue state',
+  venue_zip: 'Venue ZIP',
+  status: 'Status',
+  roles: 'Roles (list)',
+  role_quantity: 'Role count (header is the role)',
+};
+
+// Header names recognised when suggesting a mapping, after normalizeKey()
+const HEADER_ALIASES: Partial<Record<JobImportField, string[]>> = {
+  title: ['title', 'job', 'job title', 'job name', 'event', 'event name', 'name', 'project', 'project name'],
+  description: ['description', 'notes', 'details'],
+  date: ['date', 'event date', 'day'],
+  start_time: ['start', 'start time', 'starts', 'begin', 'start date'],
+  end_time: ['end', 'end time', 'ends', 'finish', 'end date'],
+  venue_name: ['venue', 'venue name', 'location', 'location name'],
+  venue_address: ['address', 'venue address', 'street', 'street address'],
+  venue_city: ['city', 'venue city'],
+  venue_state: ['state', 'venue state', 'province'],
+  venue_zip: ['zip', 'zip code', 'postal code', 'postcode'],
+  status: ['status'],
+  roles: ['roles', 'crew', 'staff', 'staffing'],
+};
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+// Excel serial numbers in this range are treated as dates (roughly 1954–2119)
+const MIN_EXCEL_SERIAL = 20000;
+const MAX_EXCEL_SERIAL = 80000;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Lower-case a name and collapse punctuation so "The Grand Hall" matches "the grand hall."
+ */
+export function normalizeKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Why a file can't be imported, going by its name, or null for a CSV or XLSX file.
+ * Older .xls workbooks have to be saved as .xlsx or CSV first.
+ */
+export function getImportFileTypeError(fileName: string): string | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv' || extension === 'xlsx') {
+    return null;
+  }
+  if (extension === 'xls') {
+    return "Older .xls workbooks can't be imported. Save the sheet as .xlsx or CSV (File > Save As) and upload that.";
+  }
+  return "Upload a .csv or .xlsx file";
+}
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted fields, escaped quotes,
+ * embedded newlines and a leading byte order mark. Blank lines are dropped.
+ */
+export function parseCSV(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+/**
+ * Split a table into its header row and data rows, padding short rows
+ */
+export function tableToImportFile(fileName: string, table: string[][]): ParsedImportFile {
+  const [headerRow = [], ...dataRows] = table;
+  const headers = headerRow.map((header, index) => header.trim() || `Column ${index + 1}`);
+  const rows = dataRows.map(cells =>
+    headers.map((_, index) => (cells[index] ?? '').toString())
+  );
+
+  return { fileName, headers, rows };
+}
+
+/**
+ * Guess a mapping from the header names. Each field is suggested for at most one column.
+ */
+export function suggestColumnMapping(headers: string[]): JobImportField[] {
+  const used = new Set<JobImportField>();
+
+  return headers.map(header => {
+    const key = normalizeKey(header);
+    for (const [field, aliases] of Object.entries(HEADER_ALIASES) as [JobImportField, string[]][]) {
+      if (!used.has(field) && aliases.includes(key)) {
+        used.add(field);
+        return field;
+      }
+    }
+    return 'ignore';
+  });
+}
+
+function formatDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+function monthFromName(name: string): number | null {
+  const word = name.toLowerCase().replace(/\.$/, '');
+  if (word.length < 3) return null;
+  const index = MONTH_NAMES.findIndex(month => month.startsWith(word));
+  return index === -1 ? null : index + 1;
+}
+
+// Excel counts days from 1899-12-30
+function excelSerialToDate(serial: number): string {
+  return new Date(Date.UTC(1899, 11, 30) + Math.floor(serial) * 86400000).toISOString().slice(0, 10);
+}
+
+function excelFractionToTime(fraction: number): string {
+  const minutes = Math.round(fraction * 24 * 60) % (24 * 60);
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+/**
+ * Add days to a `YYYY-MM-DD` date
+ */
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Parse a spreadsheet date into `YYYY-MM-DD`. Accepts 2025-06-14, 2025/06/14,
+ * 6/14/2025, 6/14/25, June 14, 2025, Sat June 14 2025, 14 June 2025 and Excel date serials.
+ */
+export function parseImportDate(value: string): string | null {
+  const text = value.trim();
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/))) {
+    return formatDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  if ((match = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/))) {
+    const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    return formatDate(year, Number(match[1]), Number(match[2]));
+  }
+
+  if ((match = text.match(/^(?:[a-z]+\.?,?\s+)?([a-z]+\.?)\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/i))) {
+    const month = monthFromName(match[1]);
+    return month ? formatDate(Number(match[3]), month, Number(match[2])) : null;
+  }
+
+  if ((match = text.match(/^(\d{1,2})\s+([a-z]+\.?),?\s+(\d{4})$/i))) {
+    const month = monthFromName(match[2]);
+    return month ? formatDate(Number(match[3]), month, Number(match[1])) : null;
+  }
+
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    const serial = Number(text);
+    if (serial >= MIN_EXCEL_SERIAL && serial < MAX_EXCEL_SERIAL) {
+      return excelSerialToDate(serial);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse a time of day into 24-hour `HH:MM`. Accepts 14:00, 14:00:00, 2pm,
+ * 2:30 PM, 2:30p.m. and Excel time fractions such as 0.5833.
+ */
+export function parseImportTime(value: string): string | null {
+  const text = value.trim().toLowerCase();
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(/^(\d{1,2})(?::(\d{2}))?(?::\d{2})?\s*([ap])\.?\s*m?\.?$/))) {
+    let hours = Number(match[1]);
+    const minutes = Number(match[2] || 0);
+    if (hours < 1 || hours > 12 || minutes > 59) return null;
+    if (match[3] === 'p' && hours !== 12) hours += 12;
+    if (match[3] === 'a' && hours === 12) hours = 0;
+    return `${pad(hours)}:${pad(minutes)}`;
+  }
+
+  if ((match = text.match(/^(\d{1,2}):(\d{2})(?::\d{2})?$/))) {
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    if (hours > 23 || minutes > 59) return null;
+    return `${pad(hours)}:${pad(minutes)}`;
+  }
+
+  if (/^0?\.\d+$/.test(text)) {
+    return excelFractionToTime(Number(text));
+  }
+
+  return null;
+}
+
+/**
+ * Parse a cell that may hold a date, a time of day, or both.
+ * Time zones on ISO values are dropped: times are kept as the wall-clock
+ * time written in the file, like times typed into the job form.
+ */
+export function parseImportDateTime(value: string): { date: string | null; time: string | null } | null {
+  const text = value.trim();
+  if (!text) return null;
+
+  const iso = text.match(/^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2})(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?$/i);
+  if (iso) {
+    const date = parseImportDate(iso[1]);
+    const time = parseImportTime(iso[2]);
+    return date && time ? { date, time } : null;
+  }
+
+  // Excel date-time serial, e.g. 45822.5833
+  if (/^\d+\.\d+$/.test(text) && Number(text) >= 1) {
+    const serial = Number(text);
+    const date = parseImportDate(String(Math.floor(serial)));
+    return date ? { date, time: excelFractionToTime(serial - Math.floor(serial)) } : null;
+  }
+
+  const time = parseImportTime(text);
+  if (time) return { date: null, time };
+
+  const date = parseImportDate(text);
+  if (date) return { date, time: null };
+
+  const combined = text.match(/^(.*?)[\s,]+(\d{1,2}(?::\d{2}){1,2}(?:\s*[ap]\.?\s*m\.?)?|\d{1,2}\s*[ap]\.?\s*m\.?)$/i);
+  if (combined) {
+    const combinedDate = parseImportDate(combined[1]);
+    const combinedTime = parseImportTime(combined[2]);
+    if (combinedDate && combinedTime) {
+      return { date: combinedDate, time: combinedTime };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Map a status cell to the status a new job can start in
+ */
+export function parseImportStatus(value: string): 'draft' | 'available' | null {
+  switch (normalizeKey(value)) {
+    case 'draft':
+      return 'draft';
+    case 'available':
+    case 'open':
+    case 'published':
+    case 'booked':
+      return 'available';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse a list of roles such as "Lead Photographer x1, Second Shooter x2",
+ * "Videographer (2)" or "2 x Assistant". Entries without a count need one person.
+ */
+export function parseRoleList(value: string): {
+  roles: { role_name: string; quantity_needed: number }[];
+  invalid: string[];
+} {
+  const roles: { role_name: string; quantity_needed: number }[] = [];
+  const invalid: string[] = [];
+
+  for (const raw of value.split(/[,;\n]+/)) {
+    const entry = raw.trim();
+    if (!entry) continue;
+
+    let name = entry;
+    let quantity = 1;
+    let match: RegExpMatchArray | null;
+
+    if ((match = entry.match(/^(.+?)\s*(?:[x×*]\s*(\d+)|\((\d+)\))$/i))) {
+      name = match[1];
+      quantity = Number(match[2] || match[3]);
+    } else if ((match = entry.match(/^(\d+)\s*(?:[x×*]\s*)?(.+)$/i))) {
+      quantity = Number(match[1]);
+      name = match[2];
+    }
+
+    if (!name.trim() || quantity < 1) {
+      invalid.push(entry);
+      continue;
+    }
+
+    roles.push({ role_name: name.trim(), quantity_needed: quantity });
+  }
+
+  return { roles, invalid };
+}
+
+/**
+ * Combine role requirements with the same name (ignoring case)
+ */
+function mergeRoles(
+  roles: { role_name: string; quantity_needed: number }[]
+): { role_name: string; quantity_needed: number }[] {
+  const merged = new Map<string, { role_name: string; quantity_needed: number }>();
+
+  for (const role of roles) {
+    const key = normalizeKey(role.role_name);
+    const existing = merged.get(key);
+    if (existing) {
+      existing.quantity_needed += role.quantity_needed;
+    } else {
+      merged.set(key, { ...role });
+    }
+  }
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Resolve a start or end cell into `YYYY-MM-DDTHH:MM`, using the row's date
+ * column when the cell only holds a time. Problems are added to `errors`.
+ */
+function resolveRowTime(
+  value: string,
+  rowDate: string | null,
+  label: 'Start' | 'End',
+  errors: string[]
+): { dateTime: string; fromRowDate: boolean } | null {
+  if (!value) {
+    errors.push(`${label} time is required`);
+    return null;
+  }
+
+  const parsed = parseImportDateTime(value);
+  if (!parsed) {
+    errors.push(`Invalid ${label.toLowerCase()} time "${value}"`);
+    return null;
+  }
+
+  const date = parsed.date ?? rowDate;
+  if (!date) {
+    errors.push(`${label} time "${value}" has no date; map a Date column`);
+    return null;
+  }
+  if (!parsed.time) {
+    errors.push(`${label} time "${value}" has no time of day`);
+    return null;
+  }
+
+  return { dateTime: `${date}T${parsed.time}`, fromRowDate: !parsed.date };
+}
+
+/**
+ * Dry-run an import: convert each row to a job and collect per-row errors
+ * (bad dates, unknown venues, overlapping times). Nothing is written.
+ */
+export function validateImportRows(
+  input: Pick<JobImportInput, 'headers' | 'rows' | 'mapping' | 'options'>,
+  context: JobImportContext
+): JobImportPreview {
+  const { headers, rows, mapping, options } = input;
+  const venuesByKey = new Map(context.venues.map(venue => [normalizeKey(venue.name), venue]));
+  const candidateVenues = new Map<string, NewImportVenue>();
+
+  const fieldIndex = (field: JobImportField) => mapping.indexOf(field);
+
+  const results: JobImportRowResult[] = rows.map((cells, index) => {
+    const errors: string[] = [];
+    const cell = (field: JobImportField) => {
+      const column = fieldIndex(field);
+      return column === -1 ? '' : (cells[column] ?? '').trim();
+    };
+
+    const title = cell('title');
+    if (!title) {
+      errors.push('Title is required');
+    }
+
+    // Date and times
+    const dateValue = cell('date');
+    const rowDate = dateValue ? parseImportDate(dateValue) : null;
+    if (dateValue && !rowDate) {
+      errors.push(`Invalid date "${dateValue}"`);
+    }
+
+    const start = resolveRowTime(cell('start_time'), rowDate, 'Start', errors);
+    const end = resolveRowTime(cell('end_time'), rowDate, 'End', errors);
+    let endTime = end?.dateTime ?? null;
+
+    if (start && end && endTime && endTime <= start.dateTime) {
+      if (end.fromRowDate) {
+        // A time-only end before the start finishes after midnight
+        endTime = `${addDays(endTime.slice(0, 10), 1)}${endTime.slice(10)}`;
+      } else {
+        errors.push('End time must be after the start time');
+      }
+    }
+
+    // Venue
+    const venueName = cell('venue_name');
+    let venueId: string | null = null;
+    let newVenueKey: string | null = null;
+
+    if (!venueName) {
+      errors.push('Venue is required');
+    } else {
+      const key = normalizeKey(venueName);
+      const existing = venuesByKey.get(key);
+      if (existing) {
+        venueId = existing.id;
+      } else if (options.createMissingVenues) {
+        newVenueKey = key;
+        if (!candidateVenues.has(key)) {
+          candidateVenues.set(key, {
+            key,
+            name: venueName,
+            address: cell('venue_address') || null,
+            city: cell('venue_city') || null,
+            state: cell('venue_state') || null,
+            zip: cell('venue_zip') || null,
+          });
+        }
+      } else {
+        errors.push(`Unknown venue "${venueName}"`);
+      }
+    }
+
+    // Status
+    const statusValue = cell('status');
+    let status = options.defaultStatus;
+    if (statusValue) {
+      const parsedStatus = parseImportStatus(statusValue);
+      if (parsedStatus) {
+        status = parsedStatus;
+      } else {
+        errors.push(`Unknown status "${statusValue}"; use Draft or Available`);
+      }
+    }
+
+    // Roles
+    const roles: { role_name: string; quantity_needed: number }[] = [];
+    mapping.forEach((field, column) => {
+      const value = (cells[column] ?? '').trim();
+      if (!value) return;
+
+      if (field === 'roles') {
+        const parsed = parseRoleList(value);
+        roles.push(...parsed.roles);
+        parsed.invalid.forEach(entry => errors.push(`Invalid role "${entry}"`));
+      } else if (field === 'role_quantity') {
+        const quantity = Number(value);
+        if (!Number.isInteger(quantity) || quantity < 0) {
+          errors.push(`Invalid count "${value}" for ${headers[column]}`);
+        } else if (quantity > 0) {
+          roles.push({ role_name: headers[column], quantity_needed: quantity });
+        }
+      }
+    });
+
+    const job: JobImportRow | null = start && endTime
+      ? {
+          title,
+          description: cell('description') || null,
+          start_time: start.dateTime,
+          end_time: endTime,
+          status,
+          venue_id: venueId,
+          new_venue_key: newVenueKey,
+          roles: mergeRoles(roles),
+        }
+      : null;
+
+    return { rowNumber: index + 2, job, errors };
+  });
+
+  // Overlapping times at the same venue, within the file and against existing jobs
+  results.forEach((result, index) => {
+    const job = result.job;
+    if (!job || (!job.venue_id && !job.new_venue_key)) return;
+
+    for (const earlier of results.slice(0, index)) {
+      const other = earlier.job;
+      if (!other) continue;
+      const sameVenue = job.venue_id
+        ? other.venue_id === job.venue_id
+        : other.new_venue_key === job.new_venue_key;
+      if (sameVenue && hasTimeConflict(job.start_time, job.end_time, other.start_time, other.end_time)) {
+        result.errors.push(`Overlaps row ${earlier.rowNumber} at the same venue`);
+        return;
+      }
+    }
+
+    if (job.venue_id) {
+      const clash = context.existingJobs.find(existing =>
+        existing.venue_id === job.venue_id &&
+        hasTimeConflict(job.start_time, job.end_time, existing.start_time, existing.end_time)
+      );
+      if (clash) {
+        result.errors.push(`Overlaps existing job "${clash.title}" at the same venue`);
+      }
+    }
+  });
+
+  // Only rows that pass create venues
+  const finalResults = results.map(result =>
+    result.errors.length > 0 ? { ...result, job: null } : result
+  );
+  const usedVenueKeys = new Set(
+    finalResults.map(result => result.job?.new_venue_key).filter((key): key is string => !!key)
+  );
+
+  const validCount = finalResults.filter(result => result.job).length;
+
+  return {
+    results: finalResults,
+    validCount,
+    errorCount: finalResults.length - validCount,
+    newVenues: Array.from(candidateVenues.values()).filter(venue => usedVenueKeys.has(venue.key)),
+  };
+}
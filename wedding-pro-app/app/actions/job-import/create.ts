@@ -0,0 +1,127 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { checkManagerPermission } from "../jobs/utils";
+import { sendJobCreatedNotifications } from "../jobs/notifications";
+import { suggestColumnMapping, validateImportRows } from "./client-utils";
+import { getImportContext, readImportFile } from "./utils";
+import type { JobImport, JobImportField, JobImportInput, JobImportPreview, ParsedImportFile } from "./types";
+
+/**
+ * Read an uploaded CSV or XLSX file and suggest a column mapping
+ */
+export async function parseJobImportFile(
+  formData: FormData
+): Promise<{ data?: ParsedImportFile & { suggestedMapping: JobImportField[] }; error?: string }> {
+  const { authorized, error: permError } = await checkManagerPermission();
+  if (!authorized) {
+    return { error: permError || "Unauthorized" };
+  }
+
+  const file = formData.get("file");
+  if (!(file instanceof File)) {
+    return { error: "Choose a file to import" };
+  }
+
+  const { data, error } = await readImportFile(file);
+  if (error || !data) {
+    return { error: error || "Failed to read the file" };
+  }
+
+  return { data: { ...data, suggestedMapping: suggestColumnMapping(data.headers) } };
+}
+
+/**
+ * Dry-run an import against the organization's venues and existing jobs.
+ * Nothing is written.
+ */
+export async function previewJobImport(
+  input: JobImportInput
+): Promise<{ data?: JobImportPreview; error?: string }> {
+  const supabase = await createClient();
+
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile?.org_id) {
+    return { error: permError || "Unauthorized" };
+  }
+
+  const requiredFields: JobImportField[] = ['title', 'venue_name', 'start_time', 'end_time'];
+  if (requiredFields.some(field => !input.mapping.includes(field))) {
+    return { error: "Map a column to Job title, Venue name, Start time and End time" };
+  }
+
+  const { data: context, error } = await getImportContext(supabase, profile.org_id, input);
+  if (error || !context) {
+    return { error: error || "Failed to load import data" };
+  }
+
+  return { data: validateImportRows(input, context) };
+}
+
+/**
+ * Commit an import: every valid row, its role requirements and any new venues
+ * are written in one transaction and recorded as a job import so they can be
+ * rolled back together. Rows are re-validated here; if any fail, nothing is
+ * written unless the manager chose to skip invalid rows.
+ */
+export async function commitJobImport(input: JobImportInput) {
+  const supabase = await createClient();
+
+  const { authorized, user, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !user || !profile?.org_id) {
+    return { success: false, error: permError || "Unauthorized" };
+  }
+
+  const { data: preview, error: previewError } = await previewJobImport(input);
+  if (previewError || !preview) {
+    return { success: false, error: previewError || "Failed to validate the import" };
+  }
+
+  if (preview.errorCount > 0 && !input.options.skipInvalidRows) {
+    return {
+      success: false,
+      error: `${preview.errorCount} row(s) have errors; fix them or choose to skip invalid rows`
+    };
+  }
+
+  const jobs = preview.results.flatMap(result => (result.job ? [result.job] : []));
+  if (jobs.length === 0) {
+    return { success: false, error: "There are no valid rows to import" };
+  }
+
+  const { data: jobImport, error } = await supabase.rpc('commit_job_import', {
+    p_org_id: profile.org_id,
+    p_file_name: input.fileName,
+    p_jobs: jobs,
+    p_venues: preview.newVenues
+  });
+
+  if (error || !jobImport) {
+    console.error("Error committing job import:", error);
+    return { success: false, error: error?.message || "Failed to import jobs" };
+  }
+
+  const committed = jobImport as JobImport;
+
+  // Drafts are not visible to staff yet, so only announce published jobs
+  const { data: publishedJobs } = await supabase
+    .from('jobs')
+    .select('id')
+    .eq('import_id', committed.id)
+    .eq('status', 'available');
+
+  for (const job of publishedJobs || []) {
+    await sendJobCreatedNotifications(supabase, job.id, user.id);
+  }
+
+  revalidatePath('/dashboard/manager/jobs');
+  revalidatePath('/dashboard/manager/jobs/import');
+  return {
+    success: true,
+    importId: committed.id,
+    jobCount: committed.job_count,
+    venueCount: committed.venue_count,
+    skippedCount: preview.errorCount
+  };
+}
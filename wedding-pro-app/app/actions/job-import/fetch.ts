@@ -0,0 +1,31 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { getCurrentUserProfile } from "@/utils/supabase/auth-helpers";
+import type { JobImport } from "./types";
+
+/**
+ * Get job imports for the current user's organization, newest first
+ */
+export async function getJobImportsByOrg() {
+  const supabase = await createClient();
+
+  // Get user profile to get org_id
+  const profile = await getCurrentUserProfile();
+  if (!profile || !profile.org_id) {
+    return { error: "You must be part of an organization" };
+  }
+
+  const { data, error } = await supabase
+    .from('job_imports')
+    .select('*')
+    .eq('org_id', profile.org_id)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error("Error fetching job imports:", error);
+    return { error: "Failed to fetch job imports" };
+  }
+
+  return { data: data as JobImport[] };
+}
@@ -0,0 +1,10 @@
+"use server";
+
+// This file re-exports all public actions and types related to bulk job imports.
+
+export { parseJobImportFile, previewJobImport, commitJobImport } from './create';
+export { getJobImportsByOrg } from './fetch';
+export { rollbackJobImport } from './update';
+
+// Re-export all types from the dedicated types module
+export * from './types';
@@ -0,0 +1,115 @@
+/**
+ * Job field a spreadsheet column can be mapped to.
+ * `roles` holds a list such as "Lead Photographer x1, Second Shooter x2";
+ * `role_quantity` uses the column header as the role name and the cell as the count.
+ */
+export type JobImportField =
+  | 'ignore'
+  | 'title'
+  | 'description'
+  | 'date'
+  | 'start_time'
+  | 'end_time'
+  | 'venue_name'
+  | 'venue_address'
+  | 'venue_city'
+  | 'venue_state'
+  | 'venue_zip'
+  | 'status'
+  | 'roles'
+  | 'role_quantity';
+
+/**
+ * Rows read from an uploaded CSV or XLSX file
+ */
+export type ParsedImportFile = {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+};
+
+/**
+ * Choices the manager makes in the import wizard
+ */
+export type JobImportOptions = {
+  createMissingVenues: boolean;
+  skipInvalidRows: boolean;
+  defaultStatus: 'draft' | 'available';
+};
+
+/**
+ * Everything needed to preview or commit an import. The mapping has one entry per column.
+ */
+export type JobImportInput = ParsedImportFile & {
+  mapping: JobImportField[];
+  options: JobImportOptions;
+};
+
+/**
+ * A venue that does not exist yet and will be created by the import
+ */
+export type NewImportVenue = {
+  key: string; // Normalized name, used to link rows to the venue before it has an ID
+  name: string;
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+};
+
+/**
+ * A spreadsheet row converted to a job, ready to be written
+ */
+export type JobImportRow = {
+  title: string;
+  description: string | null;
+  start_time: string;
+  end_time: string;
+  status: 'draft' | 'available';
+  venue_id: string | null; // Existing venue
+  new_venue_key: string | null; // Venue created by this import
+  roles: { role_name: string; quantity_needed: number }[];
+};
+
+/**
+ * Validation outcome for one spreadsheet row
+ */
+export type JobImportRowResult = {
+  rowNumber: number; // As shown in the spreadsheet, counting the header row
+  job: JobImportRow | null;
+  errors: string[];
+};
+
+/**
+ * Dry-run result shown before an import is committed
+ */
+export type JobImportPreview = {
+  results: JobImportRowResult[];
+  validCount: number;
+  errorCount: number;
+  newVenues: NewImportVenue[];
+};
+
+/**
+ * Existing data rows are checked against
+ */
+export type JobImportContext = {
+  venues: { id: string; name: string }[];
+  existingJobs: { id: string; title: string; venue_id: string | null; start_time: string; end_time: string }[];
+};
+
+/**
+ * Record of a committed import, kept so it can be rolled back
+ */
+export type JobImport = {
+  id: string;
+  org_id: string;
+  file_name: string;
+  job_count: number;
+  venue_count: number;
+  status: 'committed' | 'rolled_back';
+  created_by_user_id: string | null;
+  created_at: string;
+  rolled_back_at: string | null;
+  rolled_back_by_user_id: string | null;
+};
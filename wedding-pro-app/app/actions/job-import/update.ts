@@ -0,0 +1,50 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { checkManagerPermission } from "../jobs/utils";
+
+/**
+ * Roll back a job import, deleting the jobs it created and any venues it
+ * created that are no longer used. Refused once employees are assigned.
+ */
+export async function rollbackJobImport(formData: FormData) {
+  const supabase = await createClient();
+  const importPath = "/dashboard/manager/jobs/import";
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  const importId = formData.get("importId")?.toString();
+  if (!importId) {
+    return encodedRedirect("error", importPath, "Import ID is required");
+  }
+
+  // Verify the import belongs to the user's organization
+  const { data: existingImport, error: fetchError } = await supabase
+    .from('job_imports')
+    .select('id, org_id')
+    .eq('id', importId)
+    .single();
+
+  if (fetchError || !existingImport || existingImport.org_id !== profile.org_id) {
+    return encodedRedirect("error", importPath, "Job import not found or not authorized");
+  }
+
+  const { data: rolledBack, error } = await supabase.rpc('rollback_job_import', {
+    p_import_id: importId
+  });
+
+  if (error || !rolledBack) {
+    console.error("Error rolling back job import:", error);
+    return encodedRedirect("error", importPath, error?.message || "Failed to roll back import");
+  }
+
+  revalidatePath('/dashboard/manager/jobs');
+  revalidatePath(importPath);
+  return encodedRedirect("success", importPath, `Rolled back ${rolledBack.job_count} imported job(s)`);
+}
@@ -0,0 +1,90 @@
+"use server";
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { getImportFileTypeError, parseCSV, tableToImportFile, validateImportRows } from "./client-utils";
+import { readXlsxRows } from "./xlsx";
+import type { JobImportContext, JobImportInput, ParsedImportFile } from "./types";
+
+const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024;
+const MAX_IMPORT_ROWS = 1000;
+
+/**
+ * Read an uploaded CSV or XLSX file into headers and rows
+ */
+export async function readImportFile(file: File): Promise<{ data?: ParsedImportFile; error?: string }> {
+  if (file.size === 0) {
+    return { error: "The file is empty" };
+  }
+  if (file.size > MAX_IMPORT_FILE_BYTES) {
+    return { error: "The file is too large; the limit is 5MB" };
+  }
+
+  const typeError = getImportFileTypeError(file.name);
+  if (typeError) {
+    return { error: typeError };
+  }
+
+  let table: string[][];
+  try {
+    table = file.name.toLowerCase().endsWith('.xlsx')
+      ? readXlsxRows(Buffer.from(await file.arrayBuffer()))
+      : parseCSV(await file.text());
+  } catch (error) {
+    console.error("Error reading import file:", error);
+    return { error: error instanceof Error ? error.message : "Failed to read the file" };
+  }
+
+  if (table.length < 2) {
+    return { error: "The file needs a header row and at least one job row" };
+  }
+  if (table.length - 1 > MAX_IMPORT_ROWS) {
+    return { error: `Imports are limited to ${MAX_IMPORT_ROWS} rows per file` };
+  }
+
+  return { data: tableToImportFile(file.name, table) };
+}
+
+/**
+ * Load the organization's venues and the existing jobs that fall within the
+ * dates covered by the import, for venue matching and overlap checks
+ */
+export async function getImportContext(
+  supabase: SupabaseClient,
+  orgId: string,
+  input: Pick<JobImportInput, 'headers' | 'rows' | 'mapping' | 'options'>
+): Promise<{ data?: JobImportContext; error?: string }> {
+  const { data: venues, error: venuesError } = await supabase
+    .from('venues')
+    .select('id, name')
+    .eq('org_id', orgId);
+
+  if (venuesError) {
+    console.error("Error fetching venues for import:", venuesError);
+    return { error: "Failed to load venues" };
+  }
+
+  // A first pass without existing jobs gives the date range to load
+  const firstPass = validateImportRows(input, { venues: venues || [], existingJobs: [] });
+  const times = firstPass.results
+    .flatMap(result => (result.job ? [result.job.start_time, result.job.end_time] : []))
+    .sort();
+
+  if (times.length === 0) {
+    return { data: { venues: venues || [], existingJobs: [] } };
+  }
+
+  const { data: existingJobs, error: jobsError } = await supabase
+    .from('jobs')
+    .select('id, title, venue_id, start_time, end_time')
+    .eq('org_id', orgId)
+    .neq('status', 'cancelled')
+    .lt('start_time', times[times.length - 1])
+    .gt('end_time', times[0]);
+
+  if (jobsError) {
+    console.error("Error fetching existing jobs for import:", jobsError);
+    return { error: "Failed to check existing jobs" };
+  }
+
+  return { data: { venues: venues || [], existingJobs: existingJobs || [] } };
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import { readXlsxRows } from './xlsx';
+import { parseImportDate, parseImportDateTime, parseImportTime } from './client-utils';
+
+// Build a zip archive the way Excel does, with deflated entries
+const zip = (files: Record<string, string>) => {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name, 'utf8');
+    const data = deflateRawSync(Buffer.from(content, 'utf8'));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+};
+
+const workbook = (sheetXml: string) => zip({
+  'xl/workbook.xml': '<workbook><sheets><sheet name="Season" sheetId="1" r:id="rId1"/></sheets></workbook>',
+  'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/season.xml"/></Relationships>',
+  'xl/sharedStrings.xml': '<sst><si><t>Title</t></si><si><t>Date</t></si><si><t>Start</t></si><si><r><t>Smith </t></r><r><t>&amp; Jones</t></r></si></sst>',
+  'xl/worksheets/season.xml': `<worksheet><sheetData>${sheetXml}</sheetData></worksheet>`
+});
+
+describe('xlsx reader', () => {
+  it('should read shared and inline strings from the first worksheet', () => {
+    const rows = readXlsxRows(workbook(
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>' +
+      '<row r="2"><c r="A2" t="s"><v>3</v></c><c r="C2" t="inlineStr"><is><t>Barn &lt;North&gt;</t></is></c></row>'
+    ));
+
+    expect(rows).toEqual([
+      ['Title', 'Date'],
+      ['Smith & Jones', '', 'Barn <North>']
+    ]);
+  });
+
+  it('should hand date and time cells over as serial numbers the import parsers understand', () => {
+    const rows = readXlsxRows(workbook(
+      '<row r="1"><c r="A1" t="s"><v>1</v></c><c r="B1" t="s"><v>2</v></c></row>' +
+      '<row r="2"><c r="A2" s="1"><v>45822</v></c><c r="B2" s="2"><v>0.583333333333333</v></c><c r="C2" s="3"><v>45822.75</v></c></row>'
+    ));
+
+    const [date, time, dateTime] = rows[1];
+    expect(parseImportDate(date)).toBe('2025-06-14');
+    expect(parseImportTime(time)).toBe('14:00');
+    expect(parseImportDateTime(dateTime)).toEqual({ date: '2025-06-14', time: '18:00' });
+  });
+
+  it('should drop empty rows', () => {
+    const rows = readXlsxRows(workbook(
+      '<row r="1"><c r="A1" t="s"><v>0</v></c></row><row r="2"><c r="A2"/></row>'
+    ));
+
+    expect(rows).toEqual([['Title']]);
+  });
+
+  it('should refuse a file that is not a workbook', () => {
+    expect(() => readXlsxRows(Buffer.from('Title,Date\nSmith,2025-06-14'))).toThrow('The file is not a valid .xlsx workbook');
+  });
+});
@@ -0,0 +1,155 @@
+import { inflateRawSync } from "zlib";
+
+// Minimal reader for the first worksheet of an .xlsx file. An .xlsx file is a
+// zip archive of XML parts; only the parts needed for cell values are read.
+// Server-only: relies on Node's zlib.
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * Read the entries of a zip archive into a map of path to contents
+ */
+function readZipEntries(buffer: Buffer): Map<string, Buffer> {
+  // The end-of-central-directory record sits in the last 64KB + 22 bytes
+  let endOffset = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset === -1) {
+    throw new Error("The file is not a valid .xlsx workbook");
+  }
+
+  const entryCount = buffer.readUInt16LE(endOffset + 10);
+  let offset = buffer.readUInt32LE(endOffset + 16);
+  const entries = new Map<string, Buffer>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("The workbook's zip directory is corrupt");
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error("The workbook's zip entries are corrupt");
+    }
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.set(name, data);
+    } else if (method === 8) {
+      entries.set(name, inflateRawSync(data));
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Join the text runs of a shared or inline string
+ */
+function readStringItem(xml: string): string {
+  const withoutPhonetics = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  const runs = withoutPhonetics.match(/<t(?:\s[^>]*)?>[\s\S]*?<\/t>/g) || [];
+  return runs
+    .map(run => decodeXml(run.replace(/^<t[^>]*>/, '').replace(/<\/t>$/, '')))
+    .join('');
+}
+
+/**
+ * Path of the first worksheet, following workbook.xml and its relationships
+ */
+function findFirstSheetPath(entries: Map<string, Buffer>): string {
+  const workbook = entries.get('xl/workbook.xml')?.toString('utf8') || '';
+  const rels = entries.get('xl/_rels/workbook.xml.rels')?.toString('utf8') || '';
+  const relId = workbook.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+
+  if (relId) {
+    const relationship = rels.match(new RegExp(`<Relationship\\b[^>]*\\bId="${relId}"[^>]*>`))?.[0];
+    const target = relationship?.match(/\bTarget="([^"]+)"/)?.[1];
+    if (target) {
+      return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+
+  return 'xl/worksheets/sheet1.xml';
+}
+
+function columnIndex(cellRef: string): number {
+  const letters = cellRef.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A';
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Read the first worksheet of an .xlsx file as rows of cell text.
+ * Date and time cells come back as Excel serial numbers (times as a fraction of a day),
+ * which parseImportDate, parseImportTime and parseImportDateTime understand.
+ */
+export function readXlsxRows(buffer: Buffer): string[][] {
+  const entries = readZipEntries(buffer);
+
+  const sharedStringsXml = entries.get('xl/sharedStrings.xml')?.toString('utf8') || '';
+  const sharedStrings = (sharedStringsXml.match(/<si>[\s\S]*?<\/si>/g) || []).map(readStringItem);
+
+  const sheetXml = entries.get(findFirstSheetPath(entries))?.toString('utf8');
+  if (!sheetXml) {
+    throw new Error("The workbook has no worksheets");
+  }
+
+  const rows: string[][] = [];
+  for (const rowXml of sheetXml.match(/<row\b[^>]*>[\s\S]*?<\/row>/g) || []) {
+    const cells: string[] = [];
+
+    for (const cellXml of rowXml.match(/<c\b[^>]*\/>|<c\b[^>]*>[\s\S]*?<\/c>/g) || []) {
+      const ref = cellXml.match(/\br="([A-Z]+\d+)"/i)?.[1];
+      const type = cellXml.match(/\bt="([^"]+)"/)?.[1];
+      const value = cellXml.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? '';
+      const index = ref ? columnIndex(ref) : cells.length;
+
+      let text: string;
+      if (type === 's') {
+        text = sharedStrings[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        text = readStringItem(cellXml.match(/<is>[\s\S]*?<\/is>/)?.[0] || '');
+      } else if (type === 'b') {
+        text = value === '1' ? 'TRUE' : 'FALSE';
+      } else {
+        text = decodeXml(value);
+      }
+
+      while (cells.length < index) cells.push('');
+      cells[index] = text;
+    }
+
+    if (cells.some(cell => cell.trim() !== '')) {
+      rows.push(cells);
+    }
+  }
+
+  return rows;
+}
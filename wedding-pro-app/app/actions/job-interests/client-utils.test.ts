@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  appendInterestRoles,
+  describeRolePreference,
+  formatPreferenceRank,
+  getRoleCandidates,
+  renumberInterestRoles,
+  wantsRole
+} from './client-utils';
+
+const lead = { job_required_role_id: 'lead', preference_rank: 1 };
+const second = { job_required_role_id: 'second', preference_rank: 2 };
+
+describe('job interests client utils', () => {
+  describe('wantsRole and describeRolePreference', () => {
+    it('should treat interest without roles as any role', () => {
+      expect(wantsRole([], 'lead')).toBe(true);
+      expect(wantsRole([lead], 'second')).toBe(false);
+
+      expect(describeRolePreference([], 'lead')).toBe('Any role');
+      expect(describeRolePreference([lead, second], 'second')).toBe('2nd choice');
+      expect(describeRolePreference([lead], 'second')).toBeNull();
+    });
+
+    it('should format preference ranks', () => {
+      expect([1, 2, 3, 4, 11, 12, 21].map(formatPreferenceRank)).toEqual([
+        '1st choice', '2nd choice', '3rd choice', '4th choice', '11th choice', '12th choice', '21st choice'
+      ]);
+    });
+  });
+
+  describe('getRoleCandidates', () => {
+    it('should list first choices ahead of any-role interest and leave out other roles', () => {
+      const employees = [
+        { id: 'any', roles: [] },
+        { id: 'second-choice', roles: [{ job_required_role_id: 'other', preference_rank: 1 }, { ...lead, preference_rank: 2 }] },
+        { id: 'first-choice', roles: [lead] },
+        { id: 'other-only', roles: [{ job_required_role_id: 'other', preference_rank: 1 }] },
+      ];
+
+      expect(getRoleCandidates(employees, 'lead').map(e => e.id)).toEqual(['first-choice', 'second-choice', 'any']);
+    });
+  });
+
+  describe('appendInterestRoles and renumberInterestRoles', () => {
+    it('should rank new roles after existing ones and close gaps on withdrawal', () => {
+      expect(appendInterestRoles([lead], ['lead', 'second', 'third', 'second'])).toEqual([
+        { job_required_role_id: 'second', preference_rank: 2 },
+        { job_required_role_id: 'third', preference_rank: 3 },
+      ]);
+
+      expect(renumberInterestRoles([{ job_required_role_id: 'third', preference_rank: 3 }, lead])).toEqual([
+        lead,
+        { job_required_role_id: 'third', preference_rank: 2 },
+      ]);
+    });
+  });
+});
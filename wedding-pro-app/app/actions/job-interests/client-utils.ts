@@ -0,0 +1,78 @@
+import type { InterestRole } from "./types";
+
+/**
+ * Whether an interest covers a role. Interest with no roles chosen means any role.
+ */
+export function wantsRole(roles: InterestRole[] | null | undefined, roleId: string): boolean {
+  return !roles || roles.length === 0 || roles.some(role => role.job_required_role_id === roleId);
+}
+
+/**
+ * Where a role sits in an employee's preferences, or null when they chose no
+ * roles (any role) or didn't choose this one
+ */
+export function getRolePreferenceRank(roles: InterestRole[] | null | undefined, roleId: string): number | null {
+  return roles?.find(role => role.job_required_role_id === roleId)?.preference_rank ?? null;
+}
+
+/**
+ * A preference rank for display, e.g. "1st choice"
+ */
+export function formatPreferenceRank(rank: number): string {
+  const lastTwo = rank % 100;
+  const suffix = lastTwo >= 11 && lastTwo <= 13
+    ? 'th'
+    : rank % 10 === 1 ? 'st' : rank % 10 === 2 ? 'nd' : rank % 10 === 3 ? 'rd' : 'th';
+  return `${rank}${suffix} choice`;
+}
+
+/**
+ * How much an employee wants a role, for display: "1st choice", "Any role",
+ * or null when they only want other roles
+ */
+export function describeRolePreference(roles: InterestRole[] | null | undefined, roleId: string): string | null {
+  if (!wantsRole(roles, roleId)) {
+    return null;
+  }
+
+  const rank = getRolePreferenceRank(roles, roleId);
+  return rank === null ? 'Any role' : formatPreferenceRank(rank);
+}
+
+/**
+ * The interested employees who want a role, those who picked it first ahead
+ * of those who would take any role
+ */
+export function getRoleCandidates<T extends { roles?: InterestRole[] | null }>(employees: T[], roleId: string): T[] {
+  return employees
+    .filter(employee => wantsRole(employee.roles, roleId))
+    .map((employee, index) => ({ employee, index, rank: getRolePreferenceRank(employee.roles, roleId) }))
+    .sort((a, b) => (a.rank ?? Infinity) - (b.rank ?? Infinity) || a.index - b.index)
+    .map(({ employee }) => employee);
+}
+
+/**
+ * The rows to add when an employee asks for more roles: roles they haven't
+ * already chosen, ranked after the ones they have, in the order given
+ */
+export function appendInterestRoles(existing: InterestRole[], roleIds: string[]): InterestRole[] {
+  const chosen = new Set<string>(existing.map(role => role.job_required_role_id));
+  let rank = existing.reduce((max, role) => Math.max(max, role.preference_rank), 0);
+
+  const added: InterestRole[] = [];
+  for (const roleId of roleIds) {
+    if (chosen.has(roleId)) continue;
+    chosen.add(roleId);
+    added.push({ job_required_role_id: roleId, preference_rank: ++rank });
+  }
+  return added;
+}
+
+/**
+ * Close the gaps left when a role is withdrawn, keeping the order
+ */
+export function renumberInterestRoles(roles: InterestRole[]): InterestRole[] {
+  return [...roles]
+    .sort((a, b) => a.preference_rank - b.preference_rank)
+    .map((role, index) => ({ ...role, preference_rank: index + 1 }));
+}
@@ -0,0 +1,17 @@
+/**
+ * A role an employee wants on a job or shift. 1 is their first choice.
+ */
+export type InterestRole = {
+  job_required_role_id: string;
+  preference_rank: number;
+};
+
+/**
+ * What expressing or withdrawing interest tells the employee. A warning
+ * flags a tight turnaround they can still make.
+ */
+export type InterestActionResult = {
+  success: boolean;
+  message: string;
+  warning?: string;
+};
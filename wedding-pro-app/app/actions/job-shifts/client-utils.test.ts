@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  sortShifts,
+  validateShiftTimes,
+  findConflictingWindow,
+  findTurnaroundIssue,
+  getTravelKey,
+  getTravelKeysToLookUp
+} from './client-utils';
+
+describe('job shift client utils', () => {
+  describe('sortShifts', () => {
+    it('should order shifts by start time without mutating the input', () => {
+      const shifts = [
+        { name: 'Reception', start_time: '2025-06-15T18:00' },
+        { name: 'Mehndi', start_time: '2025-06-13T16:00' },
+        { name: 'Ceremony', start_time: '2025-06-14T10:00' },
+      ];
+
+      expect(sortShifts(shifts).map(s => s.name)).toEqual(['Mehndi', 'Ceremony', 'Reception']);
+      expect(shifts[0].name).toBe('Reception');
+    });
+  });
+
+  describe('validateShiftTimes', () => {
+    it('should accept a call time before the start', () => {
+      expect(validateShiftTimes({
+        start_time: '2025-06-14T10:00',
+        end_time: '2025-06-14T14:00',
+        call_time: '2025-06-14T09:00',
+      })).toBeNull();
+    });
+
+    it('should reject an end before the start and a call time after the start', () => {
+      expect(validateShiftTimes({
+        start_time: '2025-06-14T10:00',
+        end_time: '2025-06-14T09:00',
+      })).toMatch(/end time/);
+      expect(validateShiftTimes({
+        start_time: '2025-06-14T10:00',
+        end_time: '2025-06-14T14:00',
+        call_time: '2025-06-14T10:30',
+      })).toMatch(/Call time/);
+    });
+  });
+
+  describe('findConflictingWindow', () => {
+    const booked = [
+      { assignment_id: 'a1', job_id: 'j1', shift_id: 's1', start_time: '2025-06-13T16:00', end_time: '2025-06-13T22:00' },
+      { assignment_id: 'a2', job_id: 'j1', shift_id: 's2', start_time: '2025-06-14T10:00', end_time: '2025-06-14T14:00' },
+    ];
+
+    it('should allow another shift of the same job on a different day', () => {
+      expect(findConflictingWindow(
+        { start_time: '2025-06-15T18:00', end_time: '2025-06-15T23:00' },
+        booked
+      )).toBeUndefined();
+    });
+
+    it('should return the overlapping booking', () => {
+      expect(findConflictingWindow(
+        { start_time: '2025-06-14T13:00', end_time: '2025-06-14T18:00' },
+        booked
+      )?.assignment_id).toBe('a2');
+    });
+
+    it('should ignore the excluded shift', () => {
+      expect(findConflictingWindow(
+        { start_time: '2025-06-14T10:00', end_time: '2025-06-14T14:00' },
+        booked,
+        's2'
+      )).toBeUndefined();
+    });
+  });
+
+  describe('findTurnaroundIssue', () => {
+    const booked = [
+      { assignment_id: 'a1', job_id: 'j1', shift_id: 's1', start_time: '2025-06-21T14:00', end_time: '2025-06-21T16:00', venue_id: 'v1' },
+    ];
+    const reception = { job_id: 'j2', start_time: '2025-06-21T16:15', end_time: '2025-06-21T23:00', venue_id: 'v2' };
+    const travelTimes = { [getTravelKey('v2', 'v1')]: 120 };
+
+    it('should only look up drive times between different venues close together', () => {
+      expect(getTravelKeysToLookUp([reception], booked)).toEqual(['v1|v2']);
+      expect(getTravelKeysToLookUp([{ ...reception, venue_id: 'v1' }], booked)).toEqual([]);
+      expect(getTravelKeysToLookUp([{ ...reception, start_time: '2025-06-22T16:15', end_time: '2025-06-22T23:00' }], booked)).toEqual([]);
+    });
+
+    it('should flag a job too far away to reach in time', () => {
+      expect(findTurnaroundIssue(reception, booked, { bufferMinutes: 30, travelTimes })).toMatchObject({
+        severity: 'conflict',
+        booked: { assignment_id: 'a1' }
+      });
+      expect(findTurnaroundIssue({ ...reception, venue_id: 'v1' }, booked, { bufferMinutes: 0, travelTimes })?.severity)
+        .toBe('tight');
+      expect(findTurnaroundIssue({ ...reception, start_time: '2025-06-21T20:00' }, booked, { bufferMinutes: 30, travelTimes }))
+        .toBeNull();
+    });
+
+    it('should flag a drive time that could not be worked out', () => {
+      const later = { ...reception, start_time: '2025-06-21T19:00' };
+
+      expect(findTurnaroundIssue(later, booked, { bufferMinutes: 30, travelTimes: { 'v1|v2': null } })).toMatchObject({
+        severity: 'tight',
+        message: "Couldn't work out the drive from the other job's venue: check 3 hr between jobs is enough"
+      });
+      expect(findTurnaroundIssue(later, booked, { bufferMinutes: 30, travelTimes: {} })?.severity).toBe('tight');
+    });
+
+    it('should only check other shifts of the same job for overlap', () => {
+      expect(findTurnaroundIssue({ ...reception, job_id: 'j1' }, booked, { bufferMinutes: 30, travelTimes })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { checkTurnaround, formatMinutes, getGapMinutes, hasTimeConflict, TRAVEL_CHECK_WINDOW_MINUTES } from "@/utils/timeUtils";
+import type { BookedWindow, TravelTimes, TurnaroundIssue } from "./types";
+
+/**
+ * Setup/teardown time allowed between jobs until an org sets its own
+ * (orgs.turnaround_buffer_minutes)
+ */
+export const DEFAULT_TURNAROUND_BUFFER_MINUTES = 30;
+
+/**
+ * Return a copy of the shifts ordered by start time
+ */
+export function sortShifts<T extends { start_time: string }>(shifts: T[]): T[] {
+  return [...shifts].sort(
+    (a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime()
+  );
+}
+
+/**
+ * Validate a shift's times. Returns an error message, or null if the times are valid.
+ */
+export function validateShiftTimes(shift: {
+  start_time: string;
+  end_time: string;
+  call_time?: string | null;
+}): string | null {
+  const start = new Date(shift.start_time).getTime();
+  const end = new Date(shift.end_time).getTime();
+
+  if (Number.isNaN(start) || Number.isNaN(end)) {
+    return "Shift start and end times are required";
+  }
+  if (end <= start) {
+    return "Shift end time must be after its start time";
+  }
+
+  if (shift.call_time) {
+    const call = new Date(shift.call_time).getTime();
+    if (Number.isNaN(call) || call > start) {
+      return "Call time must be at or before the shift start time";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the first booked window that overlaps the given time window.
+ * Windows belonging to `excludeShiftId` are ignored, so re-checking a shift
+ * the employee already works does not conflict with itself.
+ */
+export function findConflictingWindow(
+  window: { start_time: string; end_time: string },
+  booked: BookedWindow[],
+  excludeShiftId?: string | null
+): BookedWindow | undefined {
+  return booked.find(
+    b =>
+      (!excludeShiftId || b.shift_id !== excludeShiftId) &&
+      hasTimeConflict(window.start_time, window.end_time, b.start_time, b.end_time)
+  );
+}
+
+/**
+ * Key for the drive time between two venues, the same either way round
+ */
+export function getTravelKey(venueA: string, venueB: string): string {
+  return [venueA, venueB].sort().join('|');
+}
+
+/**
+ * Drive time between two venues: none at the same venue, null when either
+ * venue or the drive time is unknown
+ */
+export function getTravelMinutes(
+  travelTimes: TravelTimes,
+  venueA: string | null | undefined,
+  venueB: string | null | undefined
+): number | null {
+  if (!venueA || !venueB) return null;
+  if (venueA === venueB) return 0;
+  return travelTimes[getTravelKey(venueA, venueB)] ?? null;
+}
+
+/**
+ * Whether the drive between a window and a booked one matters: different
+ * venues, on different jobs, close enough together for the drive to count
+ */
+function needsDriveTime(
+  window: { job_id?: string; start_time: string; end_time: string; venue_id?: string | null },
+  b: BookedWindow
+): boolean {
+  if (!window.venue_id || !b.venue_id || window.venue_id === b.venue_id || b.job_id === window.job_id) {
+    return false;
+  }
+
+  const gap = getGapMinutes(window, b);
+  return gap !== null && gap < TRAVEL_CHECK_WINDOW_MINUTES;
+}
+
+/**
+ * The venue pairs whose drive times are needed to check the windows against
+ * the booked ones: different venues, on different jobs, close enough together
+ * for the drive to matter
+ */
+export function getTravelKeysToLookUp(
+  windows: { job_id?: string; start_time: string; end_time: string; venue_id?: string | null }[],
+  booked: BookedWindow[]
+): string[] {
+  const keys = new Set<string>();
+
+  for (const window of windows) {
+    for (const b of booked) {
+      if (needsDriveTime(window, b)) {
+        keys.add(getTravelKey(window.venue_id!, b.venue_id!));
+      }
+    }
+  }
+
+  return Array.from(keys);
+}
+
+/**
+ * Find the worst clash between a time window and booked windows, allowing for
+ * the drive between venues and the org's setup/teardown buffer. A hard
+ * conflict is returned ahead of a tight turnaround. Other shifts of the same
+ * job are only checked for overlap, since they are planned together, and
+ * windows belonging to `excludeShiftId` are ignored as in findConflictingWindow.
+ * A drive time that couldn't be worked out is flagged as tight, so whoever is
+ * booking checks the gap themselves.
+ */
+export function findTurnaroundIssue(
+  window: { job_id?: string; start_time: string; end_time: string; venue_id?: string | null },
+  booked: BookedWindow[],
+  options: { bufferMinutes: number; travelTimes: TravelTimes; excludeShiftId?: string | null }
+): TurnaroundIssue | null {
+  let tight: TurnaroundIssue | null = null;
+
+  for (const b of booked) {
+    if (options.excludeShiftId && b.shift_id === options.excludeShiftId) {
+      continue;
+    }
+
+    if (window.job_id && b.job_id === window.job_id) {
+      if (hasTimeConflict(window.start_time, window.end_time, b.start_time, b.end_time)) {
+        return { severity: 'conflict', message: 'Time conflict with another job', booked: b };
+      }
+      continue;
+    }
+
+    const travelMinutes = getTravelMinutes(options.travelTimes, window.venue_id, b.venue_id);
+    const check = checkTurnaround(window, b, { travelMinutes, bufferMinutes: options.bufferMinutes });
+
+    if (check.severity === 'conflict') {
+      return { severity: 'conflict', message: check.message!, booked: b };
+    }
+    if (tight) {
+      continue;
+    }
+    if (travelMinutes === null && needsDriveTime(window, b)) {
+      tight = {
+        severity: 'tight',
+        message: `Couldn't work out the drive from the other job's venue: check ${formatMinutes(check.gapMinutes!)} between jobs is enough`,
+        booked: b
+      };
+    } else if (check.severity === 'tight') {
+      tight = { severity: 'tight', message: check.message!, booked: b };
+    }
+  }
+
+  return tight;
+}
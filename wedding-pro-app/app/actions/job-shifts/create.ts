@@ -0,0 +1,92 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { checkManagerPermission, verifyJobOrganization } from "../jobs/utils";
+import { parseRoleRequirements } from "../job-templates/client-utils";
+import { validateShiftTimes } from "./client-utils";
+
+/**
+ * Add a shift, with its required roles, to a job
+ */
+export async function createJobShift(jobId: string, formData: FormData) {
+  const supabase = await createClient();
+  const jobPath = `/dashboard/manager/jobs/${jobId}`;
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  // Verify the job belongs to the user's organization
+  const { verified, error: jobVerifyError } = await verifyJobOrganization(
+    supabase,
+    jobId,
+    profile.org_id!
+  );
+
+  if (!verified) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", jobVerifyError || "Job not found or not authorized");
+  }
+
+  // Extract form data
+  const name = formData.get("name")?.toString().trim();
+  const startTime = formData.get("start_time")?.toString() || "";
+  const endTime = formData.get("end_time")?.toString() || "";
+  const callTime = formData.get("call_time")?.toString() || null;
+  const venueId = formData.get("venue_id")?.toString() || null;
+  const roles = parseRoleRequirements(
+    formData.getAll("role_name").map(String),
+    formData.getAll("quantity_needed").map(String)
+  );
+
+  // Validate required fields
+  if (!name) {
+    return encodedRedirect("error", jobPath, "Shift name is required");
+  }
+
+  const timeError = validateShiftTimes({ start_time: startTime, end_time: endTime, call_time: callTime });
+  if (timeError) {
+    return encodedRedirect("error", jobPath, timeError);
+  }
+
+  // Insert shift
+  const { data: shift, error } = await supabase
+    .from('job_shifts')
+    .insert([
+      {
+        job_id: jobId,
+        name,
+        start_time: startTime,
+        end_time: endTime,
+        call_time: callTime,
+        venue_id: venueId
+      }
+    ])
+    .select()
+    .single();
+
+  if (error || !shift) {
+    console.error("Error creating job shift:", error);
+    return encodedRedirect("error", jobPath, error?.message || "Failed to create shift");
+  }
+
+  if (roles.length > 0) {
+    const { error: rolesError } = await supabase
+      .from('job_required_roles')
+      .insert(roles.map(role => ({ ...role, job_id: jobId, shift_id: shift.id })));
+
+    if (rolesError) {
+      console.error("Error creating shift roles:", rolesError);
+      // Remove the shift so a half-configured shift isn't left behind
+      await supabase.from('job_shifts').delete().eq('id', shift.id);
+      return encodedRedirect("error", jobPath, rolesError.message);
+    }
+  }
+
+  revalidatePath('/dashboard/manager/jobs');
+  revalidatePath(jobPath);
+  return encodedRedirect("success", jobPath, `Shift "${name}" added`);
+}
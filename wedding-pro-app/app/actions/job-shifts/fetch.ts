@@ -0,0 +1,60 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { getCurrentUserProfile } from "@/utils/supabase/auth-helpers";
+import type { JobShiftWithRoles } from "./types";
+import { sortShifts } from "./client-utils";
+
+/**
+ * Get the shifts for a job, with venues and role requirements, in start order
+ */
+export async function getShiftsForJob(jobId: string) {
+  const supabase = await createClient();
+
+  // Get user profile to check organization access
+  const profile = await getCurrentUserProfile();
+  if (!profile) {
+    return { error: "Profile not found" };
+  }
+
+  const { data: job, error: jobError } = await supabase
+    .from('jobs')
+    .select('id, org_id')
+    .eq('id', jobId)
+    .single();
+
+  if (jobError || !job) {
+    console.error("Error fetching job:", jobError);
+    return { error: "Job not found" };
+  }
+
+  if (profile.role !== 'Admin' && job.org_id !== profile.org_id) {
+    return { error: "You don't have access to this job" };
+  }
+
+  const { data, error } = await supabase
+    .from('job_shifts')
+    .select(`
+      *,
+      venue:venue_id (
+        id, name, address, city, state, zip
+      ),
+      job_required_roles (
+        id, job_id, shift_id, role_name, quantity_needed,
+        pay_type, pay_rate, min_hours, overtime_after_hours, overtime_multiplier, bonus_amount
+      )
+    `)
+    .eq('job_id', jobId);
+
+  if (error) {
+    console.error("Error fetching job shifts:", error);
+    return { error: "Failed to fetch job shifts" };
+  }
+
+  const shifts = (data || []).map((shift: any) => ({
+    ...shift,
+    venue: Array.isArray(shift.venue) ? shift.venue[0] ?? null : shift.venue
+  }));
+
+  return { data: sortShifts(shifts) as JobShiftWithRoles[] };
+}
@@ -0,0 +1,10 @@
+"use server";
+
+// This file re-exports all public actions and types related to job shifts.
+
+export { createJobShift } from './create';
+export { getShiftsForJob } from './fetch';
+export { updateJobShift, deleteJobShift, updateTurnaroundBuffer } from './update';
+
+// Re-export all types from the dedicated types module
+export * from './types';
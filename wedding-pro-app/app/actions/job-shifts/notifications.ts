@@ -0,0 +1,101 @@
+"use server";
+
+import { createNotificationService } from "@/utils/notifications/notification-service";
+import { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Send notifications to the employees working a shift when its details change
+ */
+export async function sendShiftUpdatedNotifications(
+  supabase: SupabaseClient,
+  shiftId: string,
+  updatedByUserId: string
+) {
+  try {
+    // Get shift details with its job and venue
+    const { data: shift, error: shiftError } = await supabase
+      .from('job_shifts')
+      .select(`
+        id,
+        job_id,
+        name,
+        start_time,
+        end_time,
+        call_time,
+        venue:venue_id (
+          id, name
+        ),
+        job:job_id (
+          id, title
+        )
+      `)
+      .eq('id', shiftId)
+      .single();
+
+    if (shiftError || !shift) {
+      console.error("Error fetching shift for notifications:", shiftError);
+      return;
+    }
+
+    // Get employees assigned to this shift
+    const { data: assignedEmployees, error: assignedError } = await supabase
+      .from('job_assignments')
+      .select('user_id')
+      .eq('shift_id', shiftId)
+      .neq('status', 'declined');
+
+    if (assignedError) {
+      console.error("Error fetching assigned employees for shift notifications:", assignedError);
+      return;
+    }
+
+    if (!assignedEmployees || assignedEmployees.length === 0) {
+      return;
+    }
+
+    const notificationService = createNotificationService(supabase);
+
+    // Handle joined data which might be returned as arrays from Supabase
+    const job = Array.isArray(shift.job) ? shift.job[0] : shift.job;
+    const venue = Array.isArray(shift.venue) ? shift.venue[0] : shift.venue;
+    const jobTitle = job?.title || 'Untitled Job';
+    const startDate = new Date(shift.call_time || shift.start_time);
+    const formattedDate = startDate.toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric'
+    });
+    const formattedTime = startDate.toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true
+    });
+    const arrival = shift.call_time ? `Call time is ${formattedTime}` : `Starts at ${formattedTime}`;
+
+    for (const assignment of assignedEmployees) {
+      try {
+        await notificationService.sendNotificationForEvent({
+          eventType: 'job_assignment', // Using job_assignment for shift updates, as for job updates
+          userId: assignment.user_id,
+          title: `Shift Updated: ${shift.name}`,
+          body: `Your "${shift.name}" shift for ${jobTitle} has changed. ${arrival} on ${formattedDate}${venue?.name ? ` at ${venue.name}` : ''}.`,
+          metadata: {
+            jobId: shift.job_id,
+            shiftId: shift.id,
+            shiftName: shift.name,
+            startTime: shift.start_time,
+            endTime: shift.end_time,
+            callTime: shift.call_time,
+            venueName: venue?.name,
+            updatedBy: updatedByUserId,
+            updatedAt: new Date().toISOString()
+          }
+        });
+      } catch (notifyError) {
+        console.error(`Error sending shift update notification to user ${assignment.user_id}:`, notifyError);
+      }
+    }
+  } catch (error) {
+    console.error("Error sending shift updated notifications:", error);
+  }
+}
@@ -0,0 +1,64 @@
+import type { VenueData } from "../jobs/types";
+import type { RoleCompensation } from "../role-compensation/types";
+
+/**
+ * A shift within a job. Single-day jobs have exactly one shift; multi-day
+ * events (mehndi, ceremony, reception, ...) have one per day or segment.
+ */
+export type JobShift = {
+  id: string;
+  job_id: string;
+  name: string;
+  start_time: string;
+  end_time: string;
+  call_time: string | null; // When crew should arrive, if earlier than start_time
+  venue_id: string | null; // Falls back to the job's venue when null
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * Role requirement attached to a shift, with what each person in it is paid
+ */
+export type JobShiftRole = RoleCompensation & {
+  id: string;
+  job_id: string;
+  shift_id: string;
+  role_name: string;
+  quantity_needed: number;
+};
+
+/**
+ * Shift with its venue and role requirements
+ */
+export type JobShiftWithRoles = JobShift & {
+  venue?: VenueData | null;
+  job_required_roles: JobShiftRole[];
+};
+
+/**
+ * Time window an employee is already booked for
+ */
+export type BookedWindow = {
+  assignment_id: string;
+  job_id: string;
+  shift_id: string | null;
+  start_time: string;
+  end_time: string;
+  venue_id?: string | null; // The shift's venue, or the job's
+};
+
+/**
+ * Drive times between venues in minutes, keyed by getTravelKey. Null when
+ * the drive time couldn't be worked out.
+ */
+export type TravelTimes = Record<string, number | null>;
+
+/**
+ * The worst clash between a booking and someone's existing bookings
+ */
+export type TurnaroundIssue = {
+  severity: 'conflict' | 'tight';
+  message: string;
+  booked: BookedWindow;
+};
@@ -0,0 +1,221 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { isAdmin } from "@/utils/supabase/auth-helpers";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { checkManagerPermission, verifyJobOrganization } from "../jobs/utils";
+import { parseRoleRequirements } from "../job-templates/client-utils";
+import { validateShiftTimes } from "./client-utils";
+import { getShiftForJob } from "./utils";
+import { sendShiftUpdatedNotifications } from "./notifications";
+
+/**
+ * Update a shift's name, times and venue.
+ * Any filled-in role rows are added to the shift; existing roles are kept
+ * because assignments point at them.
+ */
+export async function updateJobShift(jobId: string, shiftId: string, formData: FormData) {
+  const supabase = await createClient();
+  const jobPath = `/dashboard/manager/jobs/${jobId}`;
+
+  // Check permissions
+  const { authorized, user, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !user || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  // Verify the job belongs to the user's organization
+  const { verified, error: jobVerifyError } = await verifyJobOrganization(
+    supabase,
+    jobId,
+    profile.org_id!
+  );
+
+  if (!verified) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", jobVerifyError || "Job not found or not authorized");
+  }
+
+  const { shift: currentShift, error: shiftError } = await getShiftForJob(supabase, jobId, shiftId);
+  if (shiftError || !currentShift) {
+    return encodedRedirect("error", jobPath, shiftError || "Shift not found");
+  }
+
+  // Extract form data
+  const name = formData.get("name")?.toString().trim();
+  const startTime = formData.get("start_time")?.toString() || "";
+  const endTime = formData.get("end_time")?.toString() || "";
+  const callTime = formData.get("call_time")?.toString() || null;
+  const venueId = formData.get("venue_id")?.toString() || null;
+  const newRoles = parseRoleRequirements(
+    formData.getAll("role_name").map(String),
+    formData.getAll("quantity_needed").map(String)
+  );
+
+  // Validate required fields
+  if (!name) {
+    return encodedRedirect("error", jobPath, "Shift name is required");
+  }
+
+  const timeError = validateShiftTimes({ start_time: startTime, end_time: endTime, call_time: callTime });
+  if (timeError) {
+    return encodedRedirect("error", jobPath, timeError);
+  }
+
+  const { error } = await supabase
+    .from('job_shifts')
+    .update({
+      name,
+      start_time: startTime,
+      end_time: endTime,
+      call_time: callTime,
+      venue_id: venueId,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', shiftId);
+
+  if (error) {
+    console.error("Error updating job shift:", error);
+    return encodedRedirect("error", jobPath, error.message);
+  }
+
+  if (newRoles.length > 0) {
+    const { error: rolesError } = await supabase
+      .from('job_required_roles')
+      .insert(newRoles.map(role => ({ ...role, job_id: jobId, shift_id: shiftId })));
+
+    if (rolesError) {
+      console.error("Error adding shift roles:", rolesError);
+      return encodedRedirect("error", jobPath, rolesError.message);
+    }
+  }
+
+  // Only bother the crew when something they act on has changed
+  const scheduleChanged =
+    new Date(currentShift.start_time).getTime() !== new Date(startTime).getTime() ||
+    new Date(currentShift.end_time).getTime() !== new Date(endTime).getTime() ||
+    (currentShift.call_time ? new Date(currentShift.call_time).getTime() : null) !==
+      (callTime ? new Date(callTime).getTime() : null) ||
+    currentShift.venue_id !== venueId;
+
+  if (scheduleChanged) {
+    await sendShiftUpdatedNotifications(supabase, shiftId, user.id);
+  }
+
+  revalidatePath('/dashboard/manager/jobs');
+  revalidatePath(jobPath);
+  return encodedRedirect("success", jobPath, `Shift "${name}" updated`);
+}
+
+/**
+ * Delete a shift. A job always keeps at least one shift, and shifts with
+ * staff assigned must be cleared before they can be removed.
+ */
+export async function deleteJobShift(formData: FormData) {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  const jobId = formData.get("jobId")?.toString();
+  const shiftId = formData.get("shiftId")?.toString();
+  if (!jobId || !shiftId) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", "Job ID and shift ID are required");
+  }
+  const jobPath = `/dashboard/manager/jobs/${jobId}`;
+
+  // Verify the job belongs to the user's organization
+  const { verified, error: jobVerifyError } = await verifyJobOrganization(
+    supabase,
+    jobId,
+    profile.org_id!
+  );
+
+  if (!verified) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", jobVerifyError || "Job not found or not authorized");
+  }
+
+  const { count: shiftCount, error: countError } = await supabase
+    .from('job_shifts')
+    .select('id', { count: 'exact', head: true })
+    .eq('job_id', jobId);
+
+  if (countError) {
+    console.error("Error counting job shifts:", countError);
+    return encodedRedirect("error", jobPath, "Failed to check job shifts");
+  }
+
+  if ((shiftCount || 0) <= 1) {
+    return encodedRedirect("error", jobPath, "A job must keep at least one shift");
+  }
+
+  const { count: assignmentCount, error: assignmentsError } = await supabase
+    .from('job_assignments')
+    .select('id', { count: 'exact', head: true })
+    .eq('shift_id', shiftId);
+
+  if (assignmentsError) {
+    console.error("Error checking shift assignments:", assignmentsError);
+    return encodedRedirect("error", jobPath, "Failed to check shift assignments");
+  }
+
+  if ((assignmentCount || 0) > 0) {
+    return encodedRedirect("error", jobPath, "Remove the staff assigned to this shift before deleting it");
+  }
+
+  const { error } = await supabase
+    .from('job_shifts')
+    .delete()
+    .eq('id', shiftId)
+    .eq('job_id', jobId);
+
+  if (error) {
+    console.error("Error deleting job shift:", error);
+    return encodedRedirect("error", jobPath, error.message);
+  }
+
+  revalidatePath('/dashboard/manager/jobs');
+  revalidatePath(jobPath);
+  return encodedRedirect("success", jobPath, "Shift deleted");
+}
+
+/**
+ * Set how much setup/teardown time the org allows between back-to-back jobs,
+ * on top of the drive between venues
+ */
+export async function updateTurnaroundBuffer(formData: FormData) {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile?.org_id) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized or profile missing");
+  }
+
+  // Org-wide settings are admin-only, like the organization page
+  if (!await isAdmin()) {
+    return encodedRedirect("error", "/dashboard/organization", "Only admins can change the turnaround buffer");
+  }
+
+  const buffer = Number(formData.get("turnaround_buffer_minutes"));
+
+  if (!Number.isInteger(buffer) || buffer < 0) {
+    return encodedRedirect("error", "/dashboard/organization", "Turnaround buffer must be a whole number of minutes");
+  }
+
+  const { error } = await supabase
+    .from('orgs')
+    .update({ turnaround_buffer_minutes: buffer })
+    .eq('id', profile.org_id);
+
+  if (error) {
+    console.error("Error updating turnaround buffer:", error);
+    return encodedRedirect("error", "/dashboard/organization", error.message);
+  }
+
+  revalidatePath('/dashboard/organization');
+  return encodedRedirect("success", "/dashboard/organization", "Turnaround buffer updated");
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getTravelTimes } from './utils';
+import { calculateDriveMinutes } from '@/utils/job-assignment-helpers';
+
+vi.mock('@/utils/job-assignment-helpers', () => ({
+  calculateDriveMinutes: vi.fn()
+}));
+
+const booked = [
+  { assignment_id: 'a1', job_id: 'j1', shift_id: 's1', start_time: '2025-06-21T14:00', end_time: '2025-06-21T16:00', venue_id: 'v1' },
+];
+const reception = { job_id: 'j2', start_time: '2025-06-21T18:00', end_time: '2025-06-21T23:00', venue_id: 'v2' };
+
+describe('job shift utils', () => {
+  const mockSupabase = {
+    from: vi.fn(),
+    select: vi.fn(),
+    in: vi.fn()
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSupabase.from.mockReturnValue(mockSupabase);
+    mockSupabase.select.mockReturnValue(mockSupabase);
+  });
+
+  describe('getTravelTimes', () => {
+    it('should look up the drive between the venues\' full addresses', async () => {
+      mockSupabase.in.mockResolvedValue({
+        data: [
+          { id: 'v1', address: '1 Chapel Rd', city: 'Austin', state: 'TX', zip_code: '78701' },
+          { id: 'v2', address: '9 Barn Ln', city: 'Dripping Springs', state: 'TX', zip_code: '78620' }
+        ],
+        error: null
+      });
+      (calculateDriveMinutes as any).mockResolvedValue(45);
+
+      const travelTimes = await getTravelTimes(mockSupabase as any, [reception], booked);
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('venues');
+      expect(mockSupabase.select).toHaveBeenCalledWith('id, address, city, state, zip_code');
+      expect(calculateDriveMinutes).toHaveBeenCalledWith(
+        '1 Chapel Rd, Austin, TX 78701',
+        '9 Barn Ln, Dripping Springs, TX 78620'
+      );
+      expect(travelTimes).toEqual({ 'v1|v2': 45 });
+    });
+
+    it('should leave the drive time unknown when the venues cannot be loaded', async () => {
+      mockSupabase.in.mockResolvedValue({ data: null, error: { message: 'column venues.zip does not exist' } });
+
+      const travelTimes = await getTravelTimes(mockSupabase as any, [reception], booked);
+
+      expect(travelTimes).toEqual({ 'v1|v2': null });
+      expect(calculateDriveMinutes).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,171 @@
+"use server";
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { calculateDriveMinutes } from "@/utils/job-assignment-helpers";
+import {
+  DEFAULT_TURNAROUND_BUFFER_MINUTES,
+  findTurnaroundIssue,
+  getTravelKeysToLookUp
+} from "./client-utils";
+import type { BookedWindow, JobShift, TravelTimes, TurnaroundIssue } from "./types";
+
+/**
+ * Get the time windows an employee is already assigned to (declined assignments excluded).
+ * Uses the shift window and venue for each assignment, falling back to the
+ * job's for assignments that predate shifts (or shifts without their own venue).
+ */
+export async function getBookedWindows(
+  supabase: SupabaseClient,
+  employeeId: string
+): Promise<{ data?: BookedWindow[]; error?: string }> {
+  const { data, error } = await supabase
+    .from('job_assignments')
+    .select(`
+      id,
+      job_id,
+      shift_id,
+      shift:shift_id (
+        start_time,
+        end_time,
+        venue_id
+      ),
+      job:job_id (
+        start_time,
+        end_time,
+        venue_id
+      )
+    `)
+    .eq('user_id', employeeId)
+    .neq('status', 'declined');
+
+  if (error) {
+    console.error("Error fetching booked windows:", error);
+    return { error: "Failed to check for time conflicts" };
+  }
+
+  const windows = (data || []).map((assignment: any) => {
+    const shift = Array.isArray(assignment.shift) ? assignment.shift[0] : assignment.shift;
+    const job = Array.isArray(assignment.job) ? assignment.job[0] : assignment.job;
+    const source = shift || job;
+
+    return {
+      assignment_id: assignment.id,
+      job_id: assignment.job_id,
+      shift_id: assignment.shift_id,
+      start_time: source?.start_time || '',
+      end_time: source?.end_time || '',
+      venue_id: shift?.venue_id || job?.venue_id || null
+    };
+  });
+
+  return { data: windows.filter(w => w.start_time && w.end_time) };
+}
+
+/**
+ * Get a shift and verify it belongs to the given job
+ */
+export async function getShiftForJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  shiftId: string
+): Promise<{ shift?: JobShift; error?: string }> {
+  const { data: shift, error } = await supabase
+    .from('job_shifts')
+    .select('*')
+    .eq('id', shiftId)
+    .eq('job_id', jobId)
+    .single();
+
+  if (error || !shift) {
+    console.error("Error fetching job shift:", error);
+    return { error: "Shift not found for this job" };
+  }
+
+  return { shift: shift as JobShift };
+}
+
+/**
+ * Get the setup/teardown time an org allows between jobs, in minutes.
+ * Falls back to the default if it can't be read.
+ */
+export async function getTurnaroundBuffer(supabase: SupabaseClient, orgId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('orgs')
+    .select('turnaround_buffer_minutes')
+    .eq('id', orgId)
+    .single();
+
+  if (error || !data) {
+    console.error("Error fetching turnaround buffer:", error);
+    return DEFAULT_TURNAROUND_BUFFER_MINUTES;
+  }
+
+  return data.turnaround_buffer_minutes ?? DEFAULT_TURNAROUND_BUFFER_MINUTES;
+}
+
+/**
+ * Look up the drive times needed to check the windows against the booked
+ * ones. Only venues close together in time are looked up, once per pair.
+ * Pairs that can't be looked up are left null, and findTurnaroundIssue flags them.
+ */
+export async function getTravelTimes(
+  supabase: SupabaseClient,
+  windows: { job_id?: string; start_time: string; end_time: string; venue_id?: string | null }[],
+  booked: BookedWindow[]
+): Promise<TravelTimes> {
+  const keys = getTravelKeysToLookUp(windows, booked);
+  if (keys.length === 0) {
+    return {};
+  }
+
+  const venueIds = Array.from(new Set(keys.flatMap(key => key.split('|'))));
+  const { data: venues, error } = await supabase
+    .from('venues')
+    .select('id, address, city, state, zip_code')
+    .in('id', venueIds);
+
+  if (error) {
+    console.error("Error fetching venues for drive times:", error);
+    return Object.fromEntries(keys.map(key => [key, null]));
+  }
+
+  const addresses = new Map<string, string>(
+    (venues || []).map(venue => [venue.id, `${venue.address}, ${venue.city}, ${venue.state} ${venue.zip_code}`])
+  );
+
+  const travelTimes: TravelTimes = {};
+  for (const key of keys) {
+    const [venueA, venueB] = key.split('|');
+    const origin = addresses.get(venueA);
+    const destination = addresses.get(venueB);
+    travelTimes[key] = origin && destination ? await calculateDriveMinutes(origin, destination) : null;
+  }
+
+  return travelTimes;
+}
+
+/**
+ * Check a shift (or job) window against an employee's bookings, allowing for
+ * drive time and the org's setup/teardown buffer. Returns the worst clash, or
+ * null when the booking fits comfortably.
+ */
+export async function checkBookingTurnaround(
+  supabase: SupabaseClient,
+  orgId: string,
+  employeeId: string,
+  window: { job_id: string; start_time: string; end_time: string; venue_id?: string | null },
+  excludeShiftId?: string | null
+): Promise<{ data?: TurnaroundIssue | null; error?: string }> {
+  const { data: booked, error } = await getBookedWindows(supabase, employeeId);
+
+  if (error || !booked) {
+    return { error: error || "Failed to check for time conflicts" };
+  }
+
+  const [bufferMinutes, travelTimes] = await Promise.all([
+    getTurnaroundBuffer(supabase, orgId),
+    getTravelTimes(supabase, [window], booked)
+  ]);
+
+  return { data: findTurnaroundIssue(window, booked, { bufferMinutes, travelTimes, excludeShiftId }) };
+}
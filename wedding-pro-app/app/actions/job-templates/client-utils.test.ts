@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { parseSeriesDates, buildSeriesOccurrences, parseRoleRequirements, planJobRoleChanges } from './client-utils';
+
+describe('job template client utils', () => {
+  describe('parseSeriesDates', () => {
+    it('should return unique dates in ascending order', () => {
+      const { dates, invalid } = parseSeriesDates('2025-06-21\n2025-06-14, 2025-06-21 2025-07-05');
+
+      expect(dates).toEqual(['2025-06-14', '2025-06-21', '2025-07-05']);
+      expect(invalid).toEqual([]);
+    });
+
+    it('should report malformed and impossible dates', () => {
+      const { dates, invalid } = parseSeriesDates('2025-02-30, 06/14/2025, 2025-06-14');
+
+      expect(dates).toEqual(['2025-06-14']);
+      expect(invalid).toEqual(['2025-02-30', '06/14/2025']);
+    });
+  });
+
+  describe('buildSeriesOccurrences', () => {
+    it('should apply the start time and duration to each date', () => {
+      const occurrences = buildSeriesOccurrences(['2025-06-14', '2025-06-21'], '14:00', 480);
+
+      expect(occurrences).toEqual([
+        { start_time: '2025-06-14T14:00', end_time: '2025-06-14T22:00' },
+        { start_time: '2025-06-21T14:00', end_time: '2025-06-21T22:00' },
+      ]);
+    });
+
+    it('should roll the end time over midnight', () => {
+      const [occurrence] = buildSeriesOccurrences(['2025-12-31'], '20:30', 240);
+
+      expect(occurrence.end_time).toBe('2026-01-01T00:30');
+    });
+
+    it('should reject invalid start times and durations', () => {
+      expect(() => buildSeriesOccurrences(['2025-06-14'], '25:00', 60)).toThrow();
+      expect(() => buildSeriesOccurrences(['2025-06-14'], '10:00', 0)).toThrow();
+    });
+  });
+
+  describe('parseRoleRequirements', () => {
+    it('should skip blank rows and default quantities to 1', () => {
+      const roles = parseRoleRequirements(
+        ['Lead Photographer', '', 'Videographer', '2nd Shooter'],
+        ['1', '3', '', '-2']
+      );
+
+      expect(roles).toEqual([
+        { role_name: 'Lead Photographer', quantity_needed: 1 },
+        { role_name: 'Videographer', quantity_needed: 1 },
+        { role_name: '2nd Shooter', quantity_needed: 1 },
+      ]);
+    });
+  });
+
+  describe('planJobRoleChanges', () => {
+    const existing = [
+      { id: 'role-1', role_name: 'Lead Photographer', quantity_needed: 1, pay_type: 'hourly', pay_rate: 75, bonus_amount: 50 },
+      { id: 'role-2', role_name: 'Videographer', quantity_needed: 1, pay_type: 'flat', pay_rate: 600, bonus_amount: 0 },
+      { id: 'role-3', role_name: 'Assistant', quantity_needed: 2, pay_type: 'hourly', pay_rate: 25, bonus_amount: 0 },
+    ];
+
+    it('should keep roles the template still has, so their pay is not dropped', () => {
+      const changes = planJobRoleChanges(existing, [
+        { role_name: 'lead photographer', quantity_needed: 1 },
+        { role_name: 'Videographer', quantity_needed: 2 },
+        { role_name: 'Assistant', quantity_needed: 2 },
+      ]);
+
+      // Only the quantity changes; the rows, and the pay on them, stay
+      expect(changes.updates).toEqual([{ id: 'role-2', quantity_needed: 2 }]);
+      expect(changes.deleteIds).toEqual([]);
+      expect(changes.inserts).toEqual([]);
+    });
+
+    it('should add new roles and remove the ones the template dropped', () => {
+      const changes = planJobRoleChanges(existing, [
+        { role_name: 'Lead Photographer', quantity_needed: 1 },
+        { role_name: 'Drone Operator', quantity_needed: 1 },
+      ]);
+
+      expect(changes.updates).toEqual([]);
+      expect(changes.inserts).toEqual([{ role_name: 'Drone Operator', quantity_needed: 1 }]);
+      expect(changes.deleteIds).toEqual(['role-2', 'role-3']);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import type { JobRoleChanges, SeriesOccurrence } from "./types";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Parse a list of series dates entered by a manager.
+ * Accepts dates separated by newlines, commas or spaces in YYYY-MM-DD format.
+ * Returns the unique valid dates in ascending order along with any invalid entries.
+ */
+export function parseSeriesDates(input: string): { dates: string[]; invalid: string[] } {
+  const entries = input
+    .split(/[\s,]+/)
+    .map(entry => entry.trim())
+    .filter(Boolean);
+
+  const dates = new Set<string>();
+  const invalid: string[] = [];
+
+  for (const entry of entries) {
+    if (!DATE_PATTERN.test(entry)) {
+      invalid.push(entry);
+      continue;
+    }
+
+    // Reject impossible calendar dates such as 2025-02-30
+    const [year, month, day] = entry.split('-').map(Number);
+    const parsed = new Date(Date.UTC(year, month - 1, day));
+    if (
+      parsed.getUTCFullYear() !== year ||
+      parsed.getUTCMonth() !== month - 1 ||
+      parsed.getUTCDate() !== day
+    ) {
+      invalid.push(entry);
+      continue;
+    }
+
+    dates.add(entry);
+  }
+
+  return { dates: Array.from(dates).sort(), invalid };
+}
+
+/**
+ * Build the start/end times for each date in a series.
+ * Times are produced in the same `YYYY-MM-DDTHH:MM` shape as the job form's
+ * datetime-local inputs so that series jobs are stored like hand-entered ones.
+ */
+export function buildSeriesOccurrences(
+  dates: string[],
+  startTime: string,
+  durationMinutes: number
+): SeriesOccurrence[] {
+  if (!TIME_PATTERN.test(startTime)) {
+    throw new Error(`Invalid start time: ${startTime}`);
+  }
+  if (!Number.isFinite(durationMinutes) || durationMinutes <= 0) {
+    throw new Error("Duration must be a positive number of minutes");
+  }
+
+  const [hours, minutes] = startTime.split(':').map(Number);
+
+  return dates.map(date => {
+    const [year, month, day] = date.split('-').map(Number);
+    const start = new Date(Date.UTC(year, month - 1, day, hours, minutes));
+    const end = new Date(start.getTime() + durationMinutes * 60 * 1000);
+
+    return {
+      start_time: start.toISOString().slice(0, 16),
+      end_time: end.toISOString().slice(0, 16),
+    };
+  });
+}
+
+/**
+ * Zip the repeated role name/quantity form fields into role requirements.
+ * Blank rows are skipped and quantities default to 1.
+ */
+export function parseRoleRequirements(
+  roleNames: string[],
+  quantities: string[]
+): { role_name: string; quantity_needed: number }[] {
+  const roles: { role_name: string; quantity_needed: number }[] = [];
+
+  roleNames.forEach((rawName, index) => {
+    const roleName = rawName.trim();
+    if (!roleName) return;
+
+    const quantity = parseInt(quantities[index] ?? '', 10);
+    roles.push({
+      role_name: roleName,
+      quantity_needed: Number.isFinite(quantity) && quantity > 0 ? quantity : 1,
+    });
+  });
+
+  return roles;
+}
+
+/**
+ * Work out how to bring a job's roles in line with a template's. Roles are
+ * matched by name, ignoring case; matched roles only change their quantity,
+ * so pay rules set on the job survive.
+ */
+export function planJobRoleChanges(
+  existing: { id: string; role_name: string; quantity_needed: number }[],
+  templateRoles: { role_name: string; quantity_needed: number }[]
+): JobRoleChanges {
+  const unmatched = [...existing];
+  const changes: JobRoleChanges = { updates: [], inserts: [], deleteIds: [] };
+
+  for (const role of templateRoles) {
+    const key = role.role_name.trim().toLowerCase();
+    const index = unmatched.findIndex(e => e.role_name.trim().toLowerCase() === key);
+    if (index === -1) {
+      changes.inserts.push(role);
+      continue;
+    }
+
+    const [match] = unmatched.splice(index, 1);
+    if (match.quantity_needed !== role.quantity_needed) {
+      changes.updates.push({ id: match.id, quantity_needed: role.quantity_needed });
+    }
+  }
+
+  changes.deleteIds = unmatched.map(role => role.id);
+  return changes;
+}
@@ -0,0 +1,210 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { calculateTravelPay, checkManagerPermission } from "../jobs/utils";
+import { sendJobCreatedNotifications } from "../jobs/notifications";
+import type { JobData } from "../jobs/types";
+import {
+  buildSeriesOccurrences,
+  parseRoleRequirements,
+  parseSeriesDates,
+} from "./client-utils";
+import type { JobTemplateWithRoles } from "./types";
+
+/**
+ * Create a new job template
+ */
+export async function createJobTemplate(formData: FormData) {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, user, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !user || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  // Extract form data
+  const name = formData.get("name")?.toString().trim();
+  const title = formData.get("title")?.toString().trim();
+  const description = formData.get("description")?.toString() || null;
+  const durationMinutes = parseInt(formData.get("default_duration_minutes")?.toString() || "", 10);
+  const defaultVenueId = formData.get("default_venue_id")?.toString() || null;
+  const travelPayOffered = formData.get("travel_pay_offered") === "on";
+  const roles = parseRoleRequirements(
+    formData.getAll("role_name").map(String),
+    formData.getAll("quantity_needed").map(String)
+  );
+
+  // Validate required fields
+  if (!name || !title || !Number.isFinite(durationMinutes) || durationMinutes <= 0) {
+    return encodedRedirect(
+      "error",
+      "/dashboard/manager/jobs/templates",
+      "Template name, job title and a positive default duration are required"
+    );
+  }
+
+  // Insert template
+  const { data: template, error } = await supabase
+    .from('job_templates')
+    .insert([
+      {
+        org_id: profile.org_id,
+        name,
+        title,
+        description,
+        default_duration_minutes: durationMinutes,
+        default_venue_id: defaultVenueId,
+        travel_pay_offered: travelPayOffered,
+        created_by_user_id: user.id
+      }
+    ])
+    .select()
+    .single();
+
+  if (error || !template) {
+    console.error("Error creating job template:", error);
+    return encodedRedirect("error", "/dashboard/manager/jobs/templates", error?.message || "Failed to create template");
+  }
+
+  // Insert role requirements
+  if (roles.length > 0) {
+    const { error: rolesError } = await supabase
+      .from('job_template_roles')
+      .insert(roles.map(role => ({ ...role, template_id: template.id })));
+
+    if (rolesError) {
+      console.error("Error creating job template roles:", rolesError);
+      return encodedRedirect("error", `/dashboard/manager/jobs/templates/${template.id}`, rolesError.message);
+    }
+  }
+
+  revalidatePath('/dashboard/manager/jobs/templates');
+  return encodedRedirect("success", "/dashboard/manager/jobs/templates", "Job template created successfully");
+}
+
+/**
+ * Create a series of jobs from a template, one for each supplied date
+ */
+export async function createJobSeriesFromTemplate(templateId: string, formData: FormData) {
+  const supabase = await createClient();
+  const seriesPath = `/dashboard/manager/jobs/templates/${templateId}`;
+
+  // Check permissions
+  const { authorized, user, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !user || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  // Extract form data
+  const datesInput = formData.get("dates")?.toString() || "";
+  const startTime = formData.get("start_time")?.toString() || "";
+  const venueId = formData.get("venue_id")?.toString();
+  const status = (formData.get("status")?.toString() || 'draft') as JobData['status'];
+
+  const { dates, invalid } = parseSeriesDates(datesInput);
+  if (invalid.length > 0) {
+    return encodedRedirect("error", seriesPath, `Invalid dates: ${invalid.join(', ')}`);
+  }
+  if (dates.length === 0 || !startTime || !venueId) {
+    return encodedRedirect("error", seriesPath, "At least one date, a start time and a venue are required");
+  }
+  if (status !== 'draft' && status !== 'available') {
+    return encodedRedirect("error", seriesPath, "New jobs must start as Draft or Available");
+  }
+
+  // Get the template with its roles
+  const { data: template, error: templateError } = await supabase
+    .from('job_templates')
+    .select(`
+      *,
+      job_template_roles (
+        id, template_id, role_name, quantity_needed
+      )
+    `)
+    .eq('id', templateId)
+    .single();
+
+  if (templateError || !template) {
+    console.error("Error fetching job template:", templateError);
+    return encodedRedirect("error", "/dashboard/manager/jobs/templates", "Job template not found");
+  }
+
+  const typedTemplate = template as JobTemplateWithRoles;
+  if (typedTemplate.org_id !== profile.org_id) {
+    return encodedRedirect("error", "/dashboard/manager/jobs/templates", "You don't have access to this template");
+  }
+
+  let occurrences;
+  try {
+    occurrences = buildSeriesOccurrences(dates, startTime, typedTemplate.default_duration_minutes);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Invalid series schedule";
+    return encodedRedirect("error", seriesPath, errorMessage);
+  }
+
+  // Travel pay depends only on the venue, so calculate it once for the whole series
+  let travelPayAmount = null;
+  if (typedTemplate.travel_pay_offered) {
+    travelPayAmount = await calculateTravelPay(profile.org_id!, venueId);
+  }
+
+  // Insert all jobs in the series
+  const { data: jobs, error: jobsError } = await supabase
+    .from('jobs')
+    .insert(
+      occurrences.map(occurrence => ({
+        title: typedTemplate.title,
+        description: typedTemplate.description,
+        start_time: occurrence.start_time,
+        end_time: occurrence.end_time,
+        venue_id: venueId,
+        status,
+        travel_pay_offered: typedTemplate.travel_pay_offered,
+        travel_pay_amount: travelPayAmount,
+        created_by_user_id: user.id,
+        org_id: profile.org_id,
+        template_id: typedTemplate.id
+      }))
+    )
+    .select('id');
+
+  if (jobsError || !jobs) {
+    console.error("Error creating job series:", jobsError);
+    return encodedRedirect("error", seriesPath, jobsError?.message || "Failed to create job series");
+  }
+
+  // Copy the template's role requirements onto every job
+  const requiredRoles = jobs.flatMap(job =>
+    typedTemplate.job_template_roles.map(role => ({
+      job_id: job.id,
+      role_name: role.role_name,
+      quantity_needed: role.quantity_needed
+    }))
+  );
+
+  if (requiredRoles.length > 0) {
+    const { error: rolesError } = await supabase
+      .from('job_required_roles')
+      .insert(requiredRoles);
+
+    if (rolesError) {
+      console.error("Error creating job required roles for series:", rolesError);
+      // Don't leave half-configured jobs on the board
+      await supabase.from('jobs').delete().in('id', jobs.map(job => job.id));
+      return encodedRedirect("error", seriesPath, rolesError.message);
+    }
+  }
+
+  // Drafts are not visible to staff yet, so only announce published jobs
+  if (status !== 'draft') {
+    for (const job of jobs) {
+      await sendJobCreatedNotifications(supabase, job.id, user.id);
+    }
+  }
+
+  revalidatePath('/dashboard/manager/jobs');
+  return encodedRedirect("success", "/dashboard/manager/jobs", `Created ${jobs.length} jobs from "${typedTemplate.name}"`);
+}
@@ -0,0 +1,71 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { getCurrentUserProfile } from "@/utils/supabase/auth-helpers";
+import type { JobTemplateWithRoles } from "./types";
+
+/**
+ * Get job templates for the current user's organization
+ */
+export async function getJobTemplatesByOrg() {
+  const supabase = await createClient();
+
+  // Get user profile to get org_id
+  const profile = await getCurrentUserProfile();
+  if (!profile || !profile.org_id) {
+    return { error: "You must be part of an organization" };
+  }
+
+  const { data, error } = await supabase
+    .from('job_templates')
+    .select(`
+      *,
+      job_template_roles (
+        id, template_id, role_name, quantity_needed
+      )
+    `)
+    .eq('org_id', profile.org_id)
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error("Error fetching job templates:", error);
+    return { error: "Failed to fetch job templates" };
+  }
+
+  return { data: data as JobTemplateWithRoles[] };
+}
+
+/**
+ * Get a job template by ID
+ */
+export async function getJobTemplateById(templateId: string) {
+  const supabase = await createClient();
+
+  // Get user profile to get org_id
+  const profile = await getCurrentUserProfile();
+  if (!profile || !profile.org_id) {
+    return { error: "You must be part of an organization" };
+  }
+
+  const { data, error } = await supabase
+    .from('job_templates')
+    .select(`
+      *,
+      job_template_roles (
+        id, template_id, role_name, quantity_needed
+      )
+    `)
+    .eq('id', templateId)
+    .single();
+
+  if (error || !data) {
+    console.error("Error fetching job template:", error);
+    return { error: "Failed to fetch job template" };
+  }
+
+  if (data.org_id !== profile.org_id) {
+    return { error: "You don't have access to this template" };
+  }
+
+  return { data: data as JobTemplateWithRoles };
+}
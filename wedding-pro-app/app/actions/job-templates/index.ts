@@ -0,0 +1,10 @@
+"use server";
+
+// This file re-exports all public actions and types related to job templates.
+
+export { createJobTemplate, createJobSeriesFromTemplate } from './create';
+export { getJobTemplatesByOrg, getJobTemplateById } from './fetch';
+export { updateJobTemplate, deleteJobTemplate } from './update';
+
+// Re-export all types from the dedicated types module
+export * from './types';
@@ -0,0 +1,51 @@
+/**
+ * Role requirement stored on a job template
+ */
+export type JobTemplateRole = {
+  id: string;
+  template_id: string;
+  role_name: string;
+  quantity_needed: number;
+};
+
+/**
+ * Job template data type definition
+ */
+export type JobTemplate = {
+  id: string;
+  org_id: string;
+  name: string;
+  title: string;
+  description: string | null;
+  default_duration_minutes: number;
+  default_venue_id: string | null;
+  travel_pay_offered: boolean;
+  created_by_user_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * Job template with its role requirements
+ */
+export type JobTemplateWithRoles = JobTemplate & {
+  job_template_roles: JobTemplateRole[];
+};
+
+/**
+ * A single occurrence in a job series, before it is written as a job
+ */
+export type SeriesOccurrence = {
+  start_time: string;
+  end_time: string;
+};
+
+/**
+ * How a job's roles change when a template is applied to it. Roles the
+ * template still has are updated in place, so their pay settings are kept.
+ */
+export type JobRoleChanges = {
+  updates: { id: string; quantity_needed: number }[];
+  inserts: { role_name: string; quantity_needed: number }[];
+  deleteIds: string[];
+};
@@ -0,0 +1,280 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { checkManagerPermission } from "../jobs/utils";
+import { parseRoleRequirements, planJobRoleChanges } from "./client-utils";
+
+/**
+ * Update a job template.
+ * When "apply_to_future_jobs" is checked, the new title, description, duration
+ * and roles are also pushed to future jobs from this template that have no
+ * assignments yet.
+ */
+export async function updateJobTemplate(templateId: string, formData: FormData) {
+  const supabase = await createClient();
+  const templatePath = `/dashboard/manager/jobs/templates/${templateId}`;
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  // Verify the template belongs to the user's organization
+  const { data: existingTemplate, error: fetchError } = await supabase
+    .from('job_templates')
+    .select('id, org_id')
+    .eq('id', templateId)
+    .single();
+
+  if (fetchError || !existingTemplate || existingTemplate.org_id !== profile.org_id) {
+    return encodedRedirect("error", "/dashboard/manager/jobs/templates", "Job template not found or not authorized");
+  }
+
+  // Extract form data
+  const name = formData.get("name")?.toString().trim();
+  const title = formData.get("title")?.toString().trim();
+  const description = formData.get("description")?.toString() || null;
+  const durationMinutes = parseInt(formData.get("default_duration_minutes")?.toString() || "", 10);
+  const defaultVenueId = formData.get("default_venue_id")?.toString() || null;
+  const travelPayOffered = formData.get("travel_pay_offered") === "on";
+  const applyToFutureJobs = formData.get("apply_to_future_jobs") === "on";
+  const roles = parseRoleRequirements(
+    formData.getAll("role_name").map(String),
+    formData.getAll("quantity_needed").map(String)
+  );
+
+  // Validate required fields
+  if (!name || !title || !Number.isFinite(durationMinutes) || durationMinutes <= 0) {
+    return encodedRedirect(
+      "error",
+      templatePath,
+      "Template name, job title and a positive default duration are required"
+    );
+  }
+
+  // Update template
+  const { error: updateError } = await supabase
+    .from('job_templates')
+    .update({
+      name,
+      title,
+      description,
+      default_duration_minutes: durationMinutes,
+      default_venue_id: defaultVenueId,
+      travel_pay_offered: travelPayOffered,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', templateId);
+
+  if (updateError) {
+    console.error("Error updating job template:", updateError);
+    return encodedRedirect("error", templatePath, updateError.message);
+  }
+
+  // Replace role requirements
+  const { error: deleteRolesError } = await supabase
+    .from('job_template_roles')
+    .delete()
+    .eq('template_id', templateId);
+
+  if (deleteRolesError) {
+    console.error("Error replacing job template roles:", deleteRolesError);
+    return encodedRedirect("error", templatePath, deleteRolesError.message);
+  }
+
+  if (roles.length > 0) {
+    const { error: insertRolesError } = await supabase
+      .from('job_template_roles')
+      .insert(roles.map(role => ({ ...role, template_id: templateId })));
+
+    if (insertRolesError) {
+      console.error("Error replacing job template roles:", insertRolesError);
+      return encodedRedirect("error", templatePath, insertRolesError.message);
+    }
+  }
+
+  let updatedJobCount = 0;
+  if (applyToFutureJobs) {
+    const { count, error: propagateError } = await applyTemplateToUnstaffedJobs(templateId, {
+      title,
+      description,
+      durationMinutes,
+      roles
+    });
+
+    if (propagateError) {
+      return encodedRedirect("error", templatePath, propagateError);
+    }
+    updatedJobCount = count;
+  }
+
+  revalidatePath('/dashboard/manager/jobs/templates');
+  revalidatePath(templatePath);
+  if (applyToFutureJobs) {
+    revalidatePath('/dashboard/manager/jobs');
+  }
+
+  const message = applyToFutureJobs
+    ? `Job template updated and applied to ${updatedJobCount} future job${updatedJobCount === 1 ? '' : 's'}`
+    : "Job template updated successfully";
+  return encodedRedirect("success", "/dashboard/manager/jobs/templates", message);
+}
+
+/**
+ * Delete a job template. Jobs created from it keep their data; only the link is cleared.
+ */
+export async function deleteJobTemplate(formData: FormData) {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  const templateId = formData.get("templateId")?.toString();
+  if (!templateId) {
+    return encodedRedirect("error", "/dashboard/manager/jobs/templates", "Template ID is required");
+  }
+
+  const { error } = await supabase
+    .from('job_templates')
+    .delete()
+    .eq('id', templateId)
+    .eq('org_id', profile.org_id);
+
+  if (error) {
+    console.error("Error deleting job template:", error);
+    return encodedRedirect("error", "/dashboard/manager/jobs/templates", error.message);
+  }
+
+  revalidatePath('/dashboard/manager/jobs/templates');
+  return encodedRedirect("success", "/dashboard/manager/jobs/templates", "Job template deleted successfully");
+}
+
+/**
+ * Push template fields to future, not-yet-staffed jobs created from the template
+ */
+async function applyTemplateToUnstaffedJobs(
+  templateId: string,
+  changes: {
+    title: string;
+    description: string | null;
+    durationMinutes: number;
+    roles: { role_name: string; quantity_needed: number }[];
+  }
+): Promise<{ count: number; error?: string }> {
+  const supabase = await createClient();
+
+  // Get future jobs from this template that are still open for staffing
+  const { data: futureJobs, error: jobsError } = await supabase
+    .from('jobs')
+    .select(`
+      id,
+      start_time,
+      job_assignments (
+        id
+      ),
+      job_shifts (
+        id
+      ),
+      job_required_roles (
+        id,
+        role_name,
+        quantity_needed
+      ),
+      job_assignment_offers (
+        status
+      ),
+      job_standby_entries (
+        id
+      ),
+      job_standby_offers (
+        status
+      )
+    `)
+    .eq('template_id', templateId)
+    .gt('start_time', new Date().toISOString())
+    .not('status', 'in', '(completed,cancelled)');
+
+  if (jobsError) {
+    console.error("Error fetching future jobs for template:", jobsError);
+    return { count: 0, error: "Failed to fetch future jobs for this template" };
+  }
+
+  // Staffed jobs keep their current setup so nobody's assignment changes under them,
+  // and jobs split into several shifts no longer match the template's single block.
+  // Open offers and standby lists count as staffing: removing a role would delete
+  // them unannounced.
+  const unstaffedJobs = (futureJobs || []).filter(
+    job =>
+      (!job.job_assignments || job.job_assignments.length === 0) &&
+      (!job.job_shifts || job.job_shifts.length <= 1) &&
+      !(job.job_assignment_offers || []).some(offer => offer.status === 'offered') &&
+      (!job.job_standby_entries || job.job_standby_entries.length === 0) &&
+      !(job.job_standby_offers || []).some(offer => offer.status === 'offered')
+  );
+
+  for (const job of unstaffedJobs) {
+    const endTime = new Date(
+      new Date(job.start_time).getTime() + changes.durationMinutes * 60 * 1000
+    ).toISOString();
+
+    const { error: updateError } = await supabase
+      .from('jobs')
+      .update({
+        title: changes.title,
+        description: changes.description,
+        end_time: endTime
+      })
+      .eq('id', job.id);
+
+    if (updateError) {
+      console.error(`Error applying template to job ${job.id}:`, updateError);
+      return { count: 0, error: updateError.message };
+    }
+
+    // Matching roles are updated in place so the pay rules set on the job are kept
+    const { updates, inserts, deleteIds } = planJobRoleChanges(job.job_required_roles || [], changes.roles);
+
+    for (const update of updates) {
+      const { error: updateRoleError } = await supabase
+        .from('job_required_roles')
+        .update({ quantity_needed: update.quantity_needed })
+        .eq('id', update.id);
+
+      if (updateRoleError) {
+        console.error(`Error updating roles for job ${job.id}:`, updateRoleError);
+        return { count: 0, error: updateRoleError.message };
+      }
+    }
+
+    if (deleteIds.length > 0) {
+      const { error: deleteRolesError } = await supabase
+        .from('job_required_roles')
+        .delete()
+        .in('id', deleteIds);
+
+      if (deleteRolesError) {
+        console.error(`Error removing roles for job ${job.id}:`, deleteRolesError);
+        return { count: 0, error: deleteRolesError.message };
+      }
+    }
+
+    if (inserts.length > 0) {
+      const { error: insertRolesError } = await supabase
+        .from('job_required_roles')
+        .insert(inserts.map(role => ({ ...role, job_id: job.id })));
+
+      if (insertRolesError) {
+        console.error(`Error adding roles for job ${job.id}:`, insertRolesError);
+        return { count: 0, error: insertRolesError.message };
+      }
+    }
+  }
+
+  return { count: unstaffedJobs.length };
+}
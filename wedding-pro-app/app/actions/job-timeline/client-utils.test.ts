@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatTimelineText,
+  involvesRole,
+  parseRoleNames,
+  sortTimelineItems,
+  validateTimelineItem,
+} from './client-utils';
+
+const items = [
+  { starts_at: '2025-06-14T20:00:00Z', title: 'Ceremony', location: 'Garden Terrace', role_names: ['Lead Photographer', 'Videographer'] },
+  { starts_at: '2025-06-14T17:00:00Z', title: 'Getting ready', location: 'Bridal Suite', role_names: [] },
+  { starts_at: '2025-06-14T18:30:00Z', title: 'First look', location: null, role_names: ['Lead Photographer'] },
+];
+
+describe('job timeline client utils', () => {
+  describe('sortTimelineItems', () => {
+    it('should order items by time without mutating the input', () => {
+      expect(sortTimelineItems(items).map(i => i.title)).toEqual(['Getting ready', 'First look', 'Ceremony']);
+      expect(items[0].title).toBe('Ceremony');
+    });
+
+    it('should keep items at the same time in the order they were added', () => {
+      const sameTime = [
+        { starts_at: '2025-06-14T20:00:00Z', title: 'Exit', created_at: '2025-06-01T10:05:00Z' },
+        { starts_at: '2025-06-14T20:00:00Z', title: 'Sparklers', created_at: '2025-06-01T10:00:00Z' },
+      ];
+
+      expect(sortTimelineItems(sameTime).map(i => i.title)).toEqual(['Sparklers', 'Exit']);
+    });
+  });
+
+  describe('parseRoleNames', () => {
+    it('should trim, drop blanks and remove duplicates ignoring case', () => {
+      expect(parseRoleNames([' Lead Photographer ', '', 'lead photographer', 'Videographer']))
+        .toEqual(['Lead Photographer', 'Videographer']);
+    });
+  });
+
+  describe('validateTimelineItem', () => {
+    it('should require a title and a valid time', () => {
+      expect(validateTimelineItem({ title: 'Ceremony', starts_at: '2025-06-14T15:00' })).toBeNull();
+      expect(validateTimelineItem({ title: ' ', starts_at: '2025-06-14T15:00' })).toMatch(/Title/);
+      expect(validateTimelineItem({ title: 'Ceremony', starts_at: 'soon' })).toMatch(/time/);
+    });
+  });
+
+  describe('involvesRole', () => {
+    it('should treat items without roles as involving everyone', () => {
+      expect(involvesRole({ role_names: [] }, 'Second Shooter')).toBe(true);
+      expect(involvesRole({ role_names: ['Lead Photographer'] }, 'lead photographer')).toBe(true);
+      expect(involvesRole({ role_names: ['Lead Photographer'] }, 'Second Shooter')).toBe(false);
+      expect(involvesRole({ role_names: ['Lead Photographer'] }, null)).toBe(false);
+    });
+  });
+
+  describe('formatTimelineText', () => {
+    it('should list items in order with location and roles', () => {
+      expect(formatTimelineText(items, { timeZone: 'UTC' })).toBe([
+        '5:00 PM – Getting ready @ Bridal Suite',
+        '6:30 PM – First look (Lead Photographer)',
+        '8:00 PM – Ceremony @ Garden Terrace (Lead Photographer, Videographer)',
+      ].join('\n'));
+    });
+
+    it('should only list the items for a role when one is given', () => {
+      expect(formatTimelineText(items, { roleName: 'Videographer', timeZone: 'UTC' })).toBe([
+        '5:00 PM – Getting ready @ Bridal Suite',
+        '8:00 PM – Ceremony @ Garden Terrace (Lead Photographer, Videographer)',
+      ].join('\n'));
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import type { JobTimelineItem, JobTimelineItemInput } from "./types";
+
+/**
+ * Return a copy of the items in run-of-show order (by time, then by when they were added)
+ */
+export function sortTimelineItems<T extends Pick<JobTimelineItem, 'starts_at'> & { created_at?: string }>(
+  items: T[]
+): T[] {
+  return [...items].sort(
+    (a, b) =>
+      new Date(a.starts_at).getTime() - new Date(b.starts_at).getTime() ||
+      (a.created_at || '').localeCompare(b.created_at || '')
+  );
+}
+
+/**
+ * Clean up the role names ticked on the timeline form: trimmed, blanks
+ * dropped and duplicates removed
+ */
+export function parseRoleNames(values: string[]): string[] {
+  const seen = new Set<string>();
+  const roleNames: string[] = [];
+
+  for (const value of values) {
+    const roleName = value.trim();
+    if (roleName && !seen.has(roleName.toLowerCase())) {
+      seen.add(roleName.toLowerCase());
+      roleNames.push(roleName);
+    }
+  }
+
+  return roleNames;
+}
+
+/**
+ * Validate a timeline item before saving. Returns an error message or null.
+ */
+export function validateTimelineItem(input: Pick<JobTimelineItemInput, 'starts_at' | 'title'>): string | null {
+  if (!input.title?.trim()) {
+    return "Title is required";
+  }
+
+  if (!input.starts_at || isNaN(new Date(input.starts_at).getTime())) {
+    return "A valid time is required";
+  }
+
+  return null;
+}
+
+/**
+ * Whether an item involves the given role. Items without roles involve everyone.
+ */
+export function involvesRole(item: Pick<JobTimelineItem, 'role_names'>, roleName?: string | null): boolean {
+  if (!item.role_names || item.role_names.length === 0) return true;
+  if (!roleName) return false;
+
+  return item.role_names.some(name => name.toLowerCase() === roleName.toLowerCase());
+}
+
+/**
+ * Format the timeline as plain text lines for SMS and email, e.g.
+ * "3:00 PM – Ceremony @ Garden Terrace (Lead Photographer, Second Shooter)".
+ * Pass a role to only list the items that involve it.
+ */
+export function formatTimelineText(
+  items: Pick<JobTimelineItem, 'starts_at' | 'title' | 'location' | 'role_names'>[],
+  options: { roleName?: string | null; timeZone?: string } = {}
+): string {
+  return sortTimelineItems(items)
+    .filter(item => options.roleName === undefined || involvesRole(item, options.roleName))
+    .map(item => {
+      const time = new Date(item.starts_at).toLocaleTimeString('en-US', {
+        hour: 'numeric',
+        minute: '2-digit',
+        hour12: true,
+        timeZone: options.timeZone
+      });
+      const location = item.location ? ` @ ${item.location}` : '';
+      const roles = item.role_names.length > 0 ? ` (${item.role_names.join(', ')})` : '';
+      return `${time} – ${item.title}${location}${roles}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,66 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { checkManagerPermission, verifyJobOrganization } from "../jobs/utils";
+import { parseRoleNames, validateTimelineItem } from "./client-utils";
+
+/**
+ * Add an item to a job's run-of-show
+ */
+export async function createTimelineItem(jobId: string, formData: FormData) {
+  const supabase = await createClient();
+  const jobPath = `/dashboard/manager/jobs/${jobId}`;
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  // Verify the job belongs to the user's organization
+  const { verified, error: jobVerifyError } = await verifyJobOrganization(
+    supabase,
+    jobId,
+    profile.org_id!
+  );
+
+  if (!verified) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", jobVerifyError || "Job not found or not authorized");
+  }
+
+  // Extract form data
+  const startsAt = formData.get("starts_at")?.toString() || "";
+  const title = formData.get("title")?.toString().trim() || "";
+  const location = formData.get("location")?.toString().trim() || null;
+  const notes = formData.get("notes")?.toString().trim() || null;
+  const roleNames = parseRoleNames(formData.getAll("role_names").map(String));
+
+  const validationError = validateTimelineItem({ starts_at: startsAt, title });
+  if (validationError) {
+    return encodedRedirect("error", jobPath, validationError);
+  }
+
+  const { error } = await supabase
+    .from('job_timeline_items')
+    .insert([
+      {
+        job_id: jobId,
+        starts_at: startsAt,
+        title,
+        location,
+        notes,
+        role_names: roleNames
+      }
+    ]);
+
+  if (error) {
+    console.error("Error creating timeline item:", error);
+    return encodedRedirect("error", jobPath, error.message);
+  }
+
+  revalidatePath(jobPath);
+  revalidatePath(`/dashboard/employee/jobs/${jobId}`);
+  return encodedRedirect("success", jobPath, `"${title}" added to the timeline`);
+}
@@ -0,0 +1,43 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { getCurrentUserProfile } from "@/utils/supabase/auth-helpers";
+import type { JobTimelineItem } from "./types";
+import { getTimelineItemsForJobs } from "./utils";
+
+/**
+ * Get a job's run-of-show in time order.
+ * Managers see any job in their organization; employees only see jobs they are
+ * assigned to (enforced by RLS).
+ */
+export async function getTimelineForJob(jobId: string): Promise<{ data?: JobTimelineItem[]; error?: string }> {
+  const supabase = await createClient();
+
+  // Get user profile to check organization access
+  const profile = await getCurrentUserProfile();
+  if (!profile) {
+    return { error: "Profile not found" };
+  }
+
+  const { data: job, error: jobError } = await supabase
+    .from('jobs')
+    .select('id, org_id')
+    .eq('id', jobId)
+    .single();
+
+  if (jobError || !job) {
+    console.error("Error fetching job:", jobError);
+    return { error: "Job not found" };
+  }
+
+  if (profile.role !== 'Admin' && job.org_id !== profile.org_id) {
+    return { error: "You don't have access to this job" };
+  }
+
+  const { data, error } = await getTimelineItemsForJobs(supabase, [jobId]);
+  if (error || !data) {
+    return { error: error || "Failed to fetch job timeline" };
+  }
+
+  return { data: data[jobId] || [] };
+}
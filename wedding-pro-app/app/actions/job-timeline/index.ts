@@ -0,0 +1,10 @@
+"use server";
+
+// This file re-exports all public actions and types related to job timelines (run-of-show).
+
+export { createTimelineItem } from './create';
+export { getTimelineForJob } from './fetch';
+export { updateTimelineItem, deleteTimelineItem } from './update';
+
+// Re-export all types from the dedicated types module
+export * from './types';
@@ -0,0 +1,25 @@
+/**
+ * One entry in a job's run-of-show (getting ready, first look, ceremony, ...)
+ */
+export type JobTimelineItem = {
+  id: string;
+  job_id: string;
+  starts_at: string;
+  title: string;
+  location: string | null;
+  role_names: string[]; // Roles involved; empty means everyone on the job
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * Fields a manager fills in for a timeline item
+ */
+export type JobTimelineItemInput = {
+  starts_at: string;
+  title: string;
+  location?: string | null;
+  role_names?: string[];
+  notes?: string | null;
+};
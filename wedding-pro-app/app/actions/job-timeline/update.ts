@@ -0,0 +1,114 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { checkManagerPermission, verifyJobOrganization } from "../jobs/utils";
+import { parseRoleNames, validateTimelineItem } from "./client-utils";
+
+/**
+ * Update an item in a job's run-of-show
+ */
+export async function updateTimelineItem(jobId: string, itemId: string, formData: FormData) {
+  const supabase = await createClient();
+  const jobPath = `/dashboard/manager/jobs/${jobId}`;
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  // Verify the job belongs to the user's organization
+  const { verified, error: jobVerifyError } = await verifyJobOrganization(
+    supabase,
+    jobId,
+    profile.org_id!
+  );
+
+  if (!verified) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", jobVerifyError || "Job not found or not authorized");
+  }
+
+  // Extract form data
+  const startsAt = formData.get("starts_at")?.toString() || "";
+  const title = formData.get("title")?.toString().trim() || "";
+  const location = formData.get("location")?.toString().trim() || null;
+  const notes = formData.get("notes")?.toString().trim() || null;
+  const roleNames = parseRoleNames(formData.getAll("role_names").map(String));
+
+  const validationError = validateTimelineItem({ starts_at: startsAt, title });
+  if (validationError) {
+    return encodedRedirect("error", jobPath, validationError);
+  }
+
+  const { data: item, error } = await supabase
+    .from('job_timeline_items')
+    .update({
+      starts_at: startsAt,
+      title,
+      location,
+      notes,
+      role_names: roleNames,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', itemId)
+    .eq('job_id', jobId)
+    .select('id')
+    .maybeSingle();
+
+  if (error || !item) {
+    console.error("Error updating timeline item:", error);
+    return encodedRedirect("error", jobPath, error?.message || "Timeline item not found for this job");
+  }
+
+  revalidatePath(jobPath);
+  revalidatePath(`/dashboard/employee/jobs/${jobId}`);
+  return encodedRedirect("success", jobPath, `"${title}" updated`);
+}
+
+/**
+ * Remove an item from a job's run-of-show
+ */
+export async function deleteTimelineItem(formData: FormData) {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  const jobId = formData.get("jobId")?.toString();
+  const itemId = formData.get("itemId")?.toString();
+  if (!jobId || !itemId) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", "Job ID and timeline item ID are required");
+  }
+  const jobPath = `/dashboard/manager/jobs/${jobId}`;
+
+  // Verify the job belongs to the user's organization
+  const { verified, error: jobVerifyError } = await verifyJobOrganization(
+    supabase,
+    jobId,
+    profile.org_id!
+  );
+
+  if (!verified) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", jobVerifyError || "Job not found or not authorized");
+  }
+
+  const { error } = await supabase
+    .from('job_timeline_items')
+    .delete()
+    .eq('id', itemId)
+    .eq('job_id', jobId);
+
+  if (error) {
+    console.error("Error deleting timeline item:", error);
+    return encodedRedirect("error", jobPath, error.message);
+  }
+
+  revalidatePath(jobPath);
+  revalidatePath(`/dashboard/employee/jobs/${jobId}`);
+  return encodedRedirect("success", jobPath, "Timeline item removed");
+}
@@ -0,0 +1,36 @@
+"use server";
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import type { JobTimelineItem } from "./types";
+import { sortTimelineItems } from "./client-utils";
+
+/**
+ * Get the run-of-show for several jobs at once, keyed by job ID, each in time order
+ */
+export async function getTimelineItemsForJobs(
+  supabase: SupabaseClient,
+  jobIds: string[]
+): Promise<{ data?: Record<string, JobTimelineItem[]>; error?: string }> {
+  if (jobIds.length === 0) {
+    return { data: {} };
+  }
+
+  const { data, error } = await supabase
+    .from('job_timeline_items')
+    .select('*')
+    .in('job_id', jobIds);
+
+  if (error) {
+    console.error("Error fetching job timeline items:", error);
+    return { error: "Failed to fetch job timelines" };
+  }
+
+  const byJob: Record<string, JobTimelineItem[]> = {};
+  for (const item of sortTimelineItems((data || []) as JobTimelineItem[])) {
+    if (!byJob[item.job_id]) byJob[item.job_id] = [];
+    byJob[item.job_id].push(item);
+  }
+
+  return { data: byJob };
+}
+
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateCancellationFee,
+  canTransitionJobStatus,
+  diffJobChanges,
+  formatJobChanges,
+  formatJobStatus,
+  getSelectableJobStatuses,
+  JOB_STATUS_TRANSITIONS,
+} from './client-utils';
+
+describe('job client utils', () => {
+  describe('canTransitionJobStatus', () => {
+    it('should allow moves along the lifecycle', () => {
+      expect(canTransitionJobStatus('draft', 'available')).toBe(true);
+      expect(canTransitionJobStatus('available', 'upcoming')).toBe(true);
+      expect(canTransitionJobStatus('upcoming', 'in_progress')).toBe(true);
+      expect(canTransitionJobStatus('in_progress', 'completed')).toBe(true);
+    });
+
+    it('should let a staffed job reopen for staffing', () => {
+      expect(canTransitionJobStatus('upcoming', 'available')).toBe(true);
+    });
+
+    it('should reject skipping staffing from draft and leaving a final status', () => {
+      expect(canTransitionJobStatus('draft', 'upcoming')).toBe(false);
+      expect(canTransitionJobStatus('completed', 'available')).toBe(false);
+      expect(canTransitionJobStatus('cancelled', 'draft')).toBe(false);
+    });
+
+    it('should allow cancelling from every status that is not final', () => {
+      const open = Object.entries(JOB_STATUS_TRANSITIONS)
+        .filter(([, next]) => next.length > 0)
+        .map(([status]) => status);
+
+      expect(open).toEqual(['draft', 'available', 'upcoming', 'in_progress']);
+      for (const status of open) {
+        expect(canTransitionJobStatus(status as keyof typeof JOB_STATUS_TRANSITIONS, 'cancelled')).toBe(true);
+      }
+    });
+  });
+
+  describe('getSelectableJobStatuses', () => {
+    it('should put the current status first', () => {
+      expect(getSelectableJobStatuses('in_progress')).toEqual(['in_progress', 'completed', 'cancelled']);
+      expect(getSelectableJobStatuses('completed')).toEqual(['completed']);
+    });
+  });
+
+  describe('formatJobStatus', () => {
+    it('should label known statuses and pass unknown ones through', () => {
+      expect(formatJobStatus('in_progress')).toBe('In Progress');
+      expect(formatJobStatus('legacy')).toBe('legacy');
+    });
+  });
+
+  describe('calculateCancellationFee', () => {
+    const policy = { cancellation_notice_hours: 72, cancellation_fee_amount: 150 };
+    const cancelledAt = new Date('2025-06-10T12:00:00Z');
+
+    it('should charge the fee inside the notice window', () => {
+      expect(calculateCancellationFee('2025-06-12T12:00:00Z', policy, cancelledAt))
+        .toEqual({ isLate: true, feePerStaff: 150, hoursNotice: 48 });
+    });
+
+    it('should not charge with enough notice', () => {
+      expect(calculateCancellationFee('2025-06-13T12:00:00Z', policy, cancelledAt))
+        .toEqual({ isLate: false, feePerStaff: 0, hoursNotice: 72 });
+    });
+
+    it('should treat jobs that already started as late', () => {
+      expect(calculateCancellationFee('2025-06-10T10:00:00Z', policy, cancelledAt).feePerStaff).toBe(150);
+    });
+  });
+
+  describe('diffJobChanges', () => {
+    const before = {
+      title: 'Rivera Wedding',
+      description: 'Ceremony and reception',
+      start_time: '2025-06-14T14:00:00+00:00',
+      end_time: '2025-06-14T22:00:00+00:00',
+      venue_name: 'Grand Plaza Hotel',
+      travel_pay_offered: false,
+      travel_pay_amount: null,
+    };
+
+    it('should ignore differences in how the same time is written', () => {
+      expect(diffJobChanges(before, { ...before, start_time: '2025-06-14T14:00:00.000Z' })).toEqual([]);
+    });
+
+    it('should list each changed field with its old and new value', () => {
+      const changes = diffJobChanges(before, {
+        ...before,
+        start_time: '2025-06-14T13:00:00Z',
+        venue_name: 'The Barn',
+        travel_pay_offered: true,
+        travel_pay_amount: 45,
+      });
+
+      expect(changes).toEqual([
+        { field: 'start_time', from: before.start_time, to: '2025-06-14T13:00:00Z' },
+        { field: 'venue', from: 'Grand Plaza Hotel', to: 'The Barn' },
+        { field: 'travel_pay', from: null, to: 45 },
+      ]);
+    });
+  });
+
+  describe('formatJobChanges', () => {
+    it('should summarize the changes in one line', () => {
+      const summary = formatJobChanges(
+        [
+          { field: 'start_time', from: '2025-06-14T14:00:00Z', to: '2025-06-14T13:00:00Z' },
+          { field: 'venue', from: 'Grand Plaza Hotel', to: 'The Barn' },
+        ],
+        { timeZone: 'UTC' }
+      );
+
+      expect(summary).toBe('Start moved 2:00 PM → 1:00 PM, venue changed to The Barn');
+    });
+
+    it('should include the day when a time moves to another date', () => {
+      const summary = formatJobChanges(
+        [{ field: 'end_time', from: '2025-06-14T22:00:00Z', to: '2025-06-15T01:00:00Z' }],
+        { timeZone: 'UTC' }
+      );
+
+      expect(summary).toBe('End moved Sat, Jun 14 10:00 PM → Sun, Jun 15 1:00 AM');
+    });
+  });
+});
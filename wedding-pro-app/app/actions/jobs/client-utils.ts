@@ -1,3 +1,5 @@
+import type { CancellationPolicy, JobChange, JobSnapshot, JobStatus } from "./types";
+
 /**
  * Parse distance range from string (e.g., "0-5", "10+", "<20")
  */
@@ -22,4 +24,151 @@ export function parseDistanceRange(distanceStr: string): { min: number | null; m
     console.error("Error parsing distance range:", error);
     return null;
   }
-}
\ No newline at end of file
+}
+/**
+ * Statuses each job status may move to. Mirrors job_status_transition_allowed()
+ * in the database, which rejects any other change.
+ */
+export const JOB_STATUS_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  draft: ['available', 'cancelled'],
+  available: ['draft', 'upcoming', 'in_progress', 'completed', 'cancelled'],
+  upcoming: ['available', 'in_progress', 'completed', 'cancelled'],
+  in_progress: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+/**
+ * Display labels for job statuses
+ */
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  draft: 'Draft',
+  available: 'Available',
+  upcoming: 'Upcoming',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Check whether a job may move from one status to another
+ */
+export function canTransitionJobStatus(from: JobStatus, to: JobStatus): boolean {
+  return JOB_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Statuses a job in the given status can be set to, including staying where it is
+ */
+export function getSelectableJobStatuses(current: JobStatus): JobStatus[] {
+  return [current, ...(JOB_STATUS_TRANSITIONS[current] || [])];
+}
+
+/**
+ * Label a job status for display, falling back to the raw value
+ */
+export function formatJobStatus(status: string): string {
+  return JOB_STATUS_LABELS[status as JobStatus] || status;
+}
+
+/**
+ * Work out the fee owed to each assigned staff member if a job is cancelled
+ * at `cancelledAt`. Cancelling with less notice than the policy requires is
+ * late; a job that has already started counts as late too.
+ */
+export function calculateCancellationFee(
+  startTime: string,
+  policy: CancellationPolicy,
+  cancelledAt: Date = new Date()
+): { isLate: boolean; feePerStaff: number; hoursNotice: number } {
+  const hoursNotice = (new Date(startTime).getTime() - cancelledAt.getTime()) / (60 * 60 * 1000);
+  const isLate = hoursNotice < policy.cancellation_notice_hours;
+  const feePerStaff = isLate ? Math.max(0, Number(policy.cancellation_fee_amount) || 0) : 0;
+
+  return { isLate, feePerStaff, hoursNotice };
+}
+
+/**
+ * Work out which of the details crew care about changed between two versions
+ * of a job. Times are compared as instants, so formatting differences in the
+ * stored strings don't count as changes.
+ */
+export function diffJobChanges(before: JobSnapshot, after: JobSnapshot): JobChange[] {
+  const changes: JobChange[] = [];
+  const sameInstant = (a: string, b: string) => new Date(a).getTime() === new Date(b).getTime();
+  const travelPay = (job: JobSnapshot) => (job.travel_pay_offered ? Number(job.travel_pay_amount) || 0 : null);
+
+  if (before.title !== after.title) {
+    changes.push({ field: 'title', from: before.title, to: after.title });
+  }
+
+  if (!sameInstant(before.start_time, after.start_time)) {
+    changes.push({ field: 'start_time', from: before.start_time, to: after.start_time });
+  }
+
+  if (!sameInstant(before.end_time, after.end_time)) {
+    changes.push({ field: 'end_time', from: before.end_time, to: after.end_time });
+  }
+
+  if ((before.venue_name || null) !== (after.venue_name || null)) {
+    changes.push({ field: 'venue', from: before.venue_name, to: after.venue_name });
+  }
+
+  if ((before.description || '').trim() !== (after.description || '').trim()) {
+    changes.push({ field: 'description', from: before.description, to: after.description });
+  }
+
+  if (travelPay(before) !== travelPay(after)) {
+    changes.push({ field: 'travel_pay', from: travelPay(before), to: travelPay(after) });
+  }
+
+  return changes;
+}
+
+/**
+ * Describe one job change, e.g. "Start moved 2:00 PM → 1:00 PM". The date is
+ * included when a time moves to another day.
+ */
+export function describeJobChange(change: JobChange, options: { timeZone?: string } = {}): string {
+  const formatMoney = (value: string | number | null) => `$${Number(value || 0).toFixed(2)}`;
+  const formatMove = (from: string, to: string) => {
+    const day = (value: string) =>
+      new Date(value).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: options.timeZone });
+    const time = (value: string) =>
+      new Date(value).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: options.timeZone });
+
+    return day(from) === day(to)
+      ? `${time(from)} → ${time(to)}`
+      : `${day(from)} ${time(from)} → ${day(to)} ${time(to)}`;
+  };
+
+  switch (change.field) {
+    case 'title':
+      return `Renamed to "${change.to}"`;
+    case 'start_time':
+      return `Start moved ${formatMove(String(change.from), String(change.to))}`;
+    case 'end_time':
+      return `End moved ${formatMove(String(change.from), String(change.to))}`;
+    case 'venue':
+      return change.to ? `Venue changed to ${change.to}` : 'Venue removed';
+    case 'description':
+      return 'Description updated';
+    case 'travel_pay':
+      if (change.to === null) return 'Travel pay no longer offered';
+      if (change.from === null) return `Travel pay now offered (${formatMoney(change.to)})`;
+      return `Travel pay changed ${formatMoney(change.from)} → ${formatMoney(change.to)}`;
+  }
+}
+
+/**
+ * One-line summary of a job edit for notifications and the revision history,
+ * e.g. "Start moved 2:00 PM → 1:00 PM, venue changed to The Barn"
+ */
+export function formatJobChanges(changes: JobChange[], options: { timeZone?: string } = {}): string {
+  return changes
+    .map((change, index) => {
+      const description = describeJobChange(change, options);
+      return index === 0 ? description : description.charAt(0).toLowerCase() + description.slice(1);
+    })
+    .join(', ');
+}
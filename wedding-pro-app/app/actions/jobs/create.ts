@@ -40,6 +40,15 @@ export async function createJob(formData: FormData) {
     );
   }
   
+  // New jobs enter the lifecycle as a draft or open for staffing
+  if (status !== 'draft' && status !== 'available') {
+    return encodedRedirect(
+      "error",
+      "/dashboard/manager/jobs/new",
+      "New jobs must start as Draft or Available"
+    );
+  }
+  
   try {
     // Calculate travel pay if offered
     let travelPayAmount = null;
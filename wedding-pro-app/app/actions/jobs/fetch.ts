@@ -5,9 +5,13 @@ import { getCurrentUserProfile } from "@/utils/supabase/auth-helpers";
 import {
   getEmployeeAddress,
   calculateDistance,
+  checkManagerPermission,
+  verifyJobOrganization,
 } from "./utils";
-import type { JobWithVenue, AvailableJob } from "./types";
+import type { JobWithVenue, AvailableJob, JobRequiredRole, JobRevision, JobStatusHistoryEntry } from "./types";
 import { parseDistanceRange } from "./client-utils";
+import { getQualificationContext } from "../qualifications/utils";
+import { getEmployeeRoleEligibility } from "../qualifications/client-utils";
 
 /**
  * Get jobs by organization
@@ -120,7 +124,111 @@ export async function getJobById(jobId: string) {
 }
 
 /**
- * Get available jobs for an employee with filtering options
+ * Get the status history of a job, newest first
+ */
+export async function getJobStatusHistory(jobId: string) {
+  const supabase = await createClient();
+  
+  // Get current user
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { error: "You must be logged in" };
+  }
+  
+  // Get user profile to get org_id
+  const profile = await getCurrentUserProfile();
+  if (!profile) {
+    return { error: "Profile not found" };
+  }
+  
+  // Check if user has access to this job
+  const { data: job, error: jobError } = await supabase
+    .from('jobs')
+    .select('org_id')
+    .eq('id', jobId)
+    .single();
+  
+  if (jobError || !job) {
+    console.error("Error fetching job:", jobError);
+    return { error: "Failed to fetch job" };
+  }
+  
+  if (profile.role !== 'Admin' && job.org_id !== profile.org_id) {
+    return { error: "You don't have access to this job" };
+  }
+  
+  const { data, error } = await supabase
+    .from('job_status_history')
+    .select(`
+      id,
+      job_id,
+      from_status,
+      to_status,
+      changed_by_user_id,
+      reason,
+      created_at,
+      changed_by:changed_by_user_id (
+        full_name
+      )
+    `)
+    .eq('job_id', jobId)
+    .order('created_at', { ascending: false });
+  
+  if (error) {
+    console.error("Error fetching job status history:", error);
+    return { error: "Failed to fetch job status history" };
+  }
+  
+  return { data: data as unknown as JobStatusHistoryEntry[] };
+}
+
+/**
+ * Get the recorded edits of a job and what each changed, newest first
+ * (managers only)
+ */
+export async function getJobRevisions(jobId: string): Promise<{ data?: JobRevision[]; error?: string }> {
+  const supabase = await createClient();
+  
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return { error: permError || "Unauthorized" };
+  }
+  
+  // Verify the job belongs to the user's organization
+  const { verified, error: jobVerifyError } = await verifyJobOrganization(
+    supabase,
+    jobId,
+    profile.org_id!
+  );
+  
+  if (!verified) {
+    return { error: jobVerifyError || "Job not found or not authorized" };
+  }
+  
+  const { data, error } = await supabase
+    .from('job_revisions')
+    .select(`
+      *,
+      changed_by:changed_by_user_id (
+        full_name
+      )
+    `)
+    .eq('job_id', jobId)
+    .order('created_at', { ascending: false });
+  
+  if (error) {
+    console.error("Error fetching job revisions:", error);
+    return { error: "Failed to fetch job revisions" };
+  }
+  
+  return { data: data as unknown as JobRevision[] };
+}
+
+/**
+ * Get available jobs for an employee with filtering options. Each role is
+ * flagged with whether the employee is qualified for it, and jobs with no
+ * role they are qualified for are left out.
  */
 export async function getAvailableJobsForEmployee(
   filters?: {
@@ -152,11 +260,14 @@ export async function getAvailableJobsForEmployee(
         id, name, address, city, state, zip
       ),
       job_required_roles (
-        id, role_name
+        id, role_name, shift_id
+      ),
+      job_shifts (
+        id, job_id, name, start_time, end_time, call_time, venue_id
       )
     `)
     .eq('org_id', profile.org_id)
-    .in('status', ['available', 'pending', 'open']) // Ensure these are valid statuses
+    .eq('status', 'available') // Fully staffed ('upcoming') jobs are no longer open for interest
     .order('start_time', { ascending: true });
   
   // Apply role filter if provided
@@ -179,10 +290,37 @@ export async function getAvailableJobsForEmployee(
     return { error: "Failed to fetch available jobs" };
   }
   
+  // Flag the roles the employee isn't qualified for on the day of their shift
+  const { data: qualifications, error: qualificationError } = await getQualificationContext(
+    supabase,
+    profile.org_id,
+    [user.id]
+  );
+  
+  if (qualificationError || !qualifications) {
+    return { error: qualificationError || "Failed to check your qualifications" };
+  }
+  
+  const eligibleData = (data || [])
+    .map(job => ({
+      ...job,
+      job_required_roles: (job.job_required_roles || []).map((role: any) => {
+        const shift = (job.job_shifts || []).find((s: any) => s.id === role.shift_id);
+        const { eligible, reasons } = getEmployeeRoleEligibility(
+          qualifications,
+          user.id,
+          role.role_name,
+          shift?.start_time || job.start_time
+        );
+        return { ...role, eligible, ineligible_reasons: reasons };
+      })
+    }))
+    .filter(job => job.job_required_roles.length === 0 || job.job_required_roles.some((role: JobRequiredRole) => role.eligible));
+  
   // If distance filter is provided, we need to filter the results after fetching
   // because we need to calculate the distance for each job
-  let filteredData = data;
-  if (filters?.distance && data) {
+  let filteredData = eligibleData;
+  if (filters?.distance && eligibleData) {
     // Get the employee's address or organization's address
     const employeeAddress = await getEmployeeAddress(profile.id, profile.org_id);
     if (!employeeAddress) {
@@ -193,7 +331,7 @@ export async function getAvailableJobsForEmployee(
     const distanceRange = parseDistanceRange(filters.distance);
     if (distanceRange) {
       const jobsWithDistance = await Promise.all(
-        data.map(async (job) => {
+        eligibleData.map(async (job) => {
           const venue = job.venue;
           if (!venue || typeof venue !== 'object' || Array.isArray(venue)) { // Ensure venue is a single object
              // console.warn("Job has missing or invalid venue data for distance calculation:", job.id);
@@ -251,6 +389,10 @@ export async function getEmployeeAssignments(employeeId?: string) {
       job_id,
       employee_id,
       status,
+      shift_id,
+      shift:shift_id (
+        id, name, start_time, end_time, call_time, venue_id
+      ),
       jobs (
         id,
         title,
@@ -5,8 +5,8 @@
 
 // Re-export actions from their respective modules
 export { createJob } from './create';
-export { getJobsByOrg, getJobById, getAvailableJobsForEmployee, getEmployeeAssignments } from './fetch';
-export { updateJob, deleteJob, markJobAsComplete } from './update';
+export { getJobsByOrg, getJobById, getAvailableJobsForEmployee, getEmployeeAssignments, getJobStatusHistory, getJobRevisions } from './fetch';
+export { updateJob, deleteJob, markJobAsComplete, changeJobStatus, cancelJob, updateCancellationPolicy } from './update';
 // export * from './assignment'; // Add when assignment.ts is created
 // export * from './interest'; // Add when interest.ts is created
 
@@ -18,9 +18,8 @@ export * from './utils';
 // Consider if direct imports to ./notifications are preferred.
 export * from './notifications';
 
-// Re-export client-side utility functions.
-// Consider if direct imports to ./client-utils are preferred.
-export * from './client-utils';
+// Client-side utilities (status lifecycle, distance parsing) include constants,
+// which a "use server" module cannot export. Import them from ./client-utils directly.
 
 // Re-export all types from the dedicated types module
 export * from './types';
\ No newline at end of file
@@ -4,6 +4,10 @@ import { createClient } from "@/utils/supabase/server";
 import { SupabaseClient } from "@supabase/supabase-js";
 import { Database } from "@/types/supabase";
 import { createNotificationService } from "@/utils/notifications/notification-service";
+import type { JobChange, JobData, JobStatus } from "./types";
+import { formatJobChanges } from "./client-utils";
+import { formatTimelineText } from "../job-timeline/client-utils";
+import { getTimelineItemsForJobs } from "../job-timeline/utils";
 
 /**
  * Send notifications when a job is created
@@ -152,17 +156,25 @@ export async function sendJobCreatedNotifications(
 }
 
 /**
- * Send notifications when a job is updated
+ * Send notifications when a job is updated. Each assigned employee is told
+ * exactly what changed for them; a venue change only reaches staff whose
+ * shift uses the job's venue. Nothing is sent when nothing changed.
  * 
  * @param supabase - Supabase client
  * @param jobId - ID of the updated job
  * @param updatedByUserId - ID of the user who updated the job
+ * @param changes - The fields that changed (see diffJobChanges)
  */
 export async function sendJobUpdatedNotifications(
   supabase: SupabaseClient<Database>,
   jobId: string,
-  updatedByUserId: string
+  updatedByUserId: string,
+  changes: JobChange[]
 ) {
+  if (changes.length === 0) {
+    return;
+  }
+  
   try {
     // Get job details
     const { data: job, error: jobError } = await supabase
@@ -186,30 +198,23 @@ export async function sendJobUpdatedNotifications(
       return;
     }
     
-    // Format job date/time for notification
-    const startDate = new Date(job.start_time);
-    const endDate = new Date(job.end_time);
-    const formattedDate = startDate.toLocaleDateString('en-US', {
+    // Format job date for notification
+    const formattedDate = new Date(job.start_time).toLocaleDateString('en-US', {
       weekday: 'long',
       month: 'long',
       day: 'numeric',
       year: 'numeric'
     });
-    const formattedStartTime = startDate.toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
-    });
-    const formattedEndTime = endDate.toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
-    });
     
-    // Get assigned employees for this job
+    // Get assigned employees for this job, with whether their shift has its own venue
     const { data: assignedEmployees, error: assignedError } = await supabase
       .from('job_assignments')
-      .select('user_id')
+      .select(`
+        user_id,
+        shift:shift_id (
+          venue_id
+        )
+      `)
       .eq('job_id', jobId)
       .neq('status', 'declined');
     
@@ -239,32 +244,46 @@ export async function sendJobUpdatedNotifications(
     const venueName = venueData?.name || 'Unknown venue';
     
     // Prepare notification content
-    const title = `Job Updated: ${job.title}`;
-    const body = `The job "${job.title}" at ${venueName} on ${formattedDate} from ${formattedStartTime} to ${formattedEndTime} has been updated.`;
+    const title = `Job Changed: ${job.title}`;
+    const buildBody = (jobChanges: JobChange[]) =>
+      `${formatJobChanges(jobChanges)}. "${job.title}" is on ${formattedDate} at ${venueName}.`;
+    
+    // Work out who works at the job's venue. Someone assigned to several
+    // shifts hears about the job once, and about the venue if any of their
+    // shifts uses it.
+    const usesJobVenue = new Map<string, boolean>();
+    for (const assignment of (assignedEmployees || []) as any[]) {
+      const shift = Array.isArray(assignment.shift) ? assignment.shift[0] : assignment.shift;
+      usesJobVenue.set(assignment.user_id, usesJobVenue.get(assignment.user_id) || !shift?.venue_id);
+    }
     
     // Send notifications to assigned employees
-    if (assignedEmployees && assignedEmployees.length > 0) {
-      for (const assignment of assignedEmployees) {
-        try {
-          await notificationService.sendNotificationForEvent({
-            eventType: 'job_assignment', // Using job_assignment for job updates
-            userId: assignment.user_id,
-            title,
-            body,
-            metadata: {
-              jobId: job.id,
-              title: job.title,
-              startTime: job.start_time,
-              endTime: job.end_time,
-              venueId: venueData?.id,
-              venueName,
-              updatedBy: updatedByUserId,
-              isUpdate: true
-            }
-          });
-        } catch (error) {
-          console.error(`Error sending job updated notification to employee ${assignment.user_id}:`, error);
-        }
+    for (const [userId, atJobVenue] of Array.from(usesJobVenue.entries())) {
+      const employeeChanges = changes.filter(change => change.field !== 'venue' || atJobVenue);
+      if (employeeChanges.length === 0) {
+        continue;
+      }
+      
+      try {
+        await notificationService.sendNotificationForEvent({
+          eventType: 'job_updated',
+          userId,
+          title,
+          body: buildBody(employeeChanges),
+          metadata: {
+            jobId: job.id,
+            title: job.title,
+            startTime: job.start_time,
+            endTime: job.end_time,
+            venueId: venueData?.id,
+            venueName,
+            updatedBy: updatedByUserId,
+            changes: employeeChanges,
+            isUpdate: true
+          }
+        });
+      } catch (error) {
+        console.error(`Error sending job updated notification to employee ${userId}:`, error);
       }
     }
     
@@ -273,10 +292,10 @@ export async function sendJobUpdatedNotifications(
       for (const manager of managers) {
         try {
           await notificationService.sendNotificationForEvent({
-            eventType: 'job_assignment', // Using job_assignment for job updates
+            eventType: 'job_updated',
             userId: manager.id,
             title,
-            body,
+            body: buildBody(changes),
             metadata: {
               jobId: job.id,
               title: job.title,
@@ -285,6 +304,7 @@ export async function sendJobUpdatedNotifications(
               venueId: venueData?.id,
               venueName,
               updatedBy: updatedByUserId,
+              changes,
               isManagerNotification: true,
               isUpdate: true
             }
@@ -441,4 +461,293 @@ export async function sendJobCompletedNotifications(
   } catch (error) {
     console.error("Error sending job completed notifications:", error);
   }
-}
\ No newline at end of file
+}
+/**
+ * Send notifications when a job moves to a status its staff need to know about.
+ * Completion has its own notifications (sendJobCompletedNotifications).
+ *
+ * @param supabase - Supabase client
+ * @param jobId - ID of the job
+ * @param fromStatus - Status the job moved from
+ * @param toStatus - Status the job moved to
+ * @param changedByUserId - ID of the user who changed the status
+ * @param reason - Reason given for the change, if any
+ */
+export async function sendJobStatusChangedNotifications(
+  supabase: SupabaseClient,
+  jobId: string,
+  fromStatus: JobStatus,
+  toStatus: JobStatus,
+  changedByUserId: string,
+  reason?: string | null
+) {
+  // Only moves that change what assigned staff should do are worth a notification.
+  // Cancellations are announced by sendJobCancelledNotifications.
+  if (toStatus !== 'draft') {
+    return;
+  }
+  
+  try {
+    // Get job details
+    const { data: job, error: jobError } = await supabase
+      .from('jobs')
+      .select('id, title, start_time')
+      .eq('id', jobId)
+      .single();
+    
+    if (jobError || !job) {
+      console.error("Error fetching job for notifications:", jobError);
+      return;
+    }
+    
+    // Get assigned employees for this job
+    const { data: assignedEmployees, error: assignedError } = await supabase
+      .from('job_assignments')
+      .select('user_id')
+      .eq('job_id', jobId)
+      .neq('user_id', changedByUserId);
+    
+    if (assignedError) {
+      console.error("Error fetching assigned employees for notifications:", assignedError);
+      return;
+    }
+    
+    if (!assignedEmployees || assignedEmployees.length === 0) {
+      return;
+    }
+    
+    const formattedDate = new Date(job.start_time).toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+      year: 'numeric'
+    });
+    
+    const title = `Job On Hold: ${job.title}`;
+    const body = `The job "${job.title}" on ${formattedDate} has been moved back to draft and is on hold.`;
+    
+    const notificationService = createNotificationService(supabase);
+    
+    for (const assignment of assignedEmployees) {
+      try {
+        await notificationService.sendNotificationForEvent({
+          eventType: 'job_status_changed',
+          userId: assignment.user_id,
+          title,
+          body: reason ? `${body} Reason: ${reason}` : body,
+          metadata: {
+            jobId: job.id,
+            title: job.title,
+            startTime: job.start_time,
+            fromStatus,
+            toStatus,
+            reason,
+            changedBy: changedByUserId
+          }
+        });
+      } catch (error) {
+        console.error(`Error sending job status notification to employee ${assignment.user_id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("Error sending job status changed notifications:", error);
+  }
+}
+
+/**
+ * Send notifications when a job is cancelled: released staff hear about the
+ * cancellation and any fee they are owed, interested employees that the job
+ * is no longer available
+ */
+export async function sendJobCancelledNotifications(
+  supabase: SupabaseClient<Database>,
+  job: Pick<JobData, 'id' | 'title' | 'start_time'>,
+  options: {
+    assignedUserIds: string[];
+    interestedUserIds: string[];
+    reason: string;
+    feePerStaff: number;
+    cancelledByUserId: string;
+  }
+) {
+  try {
+    const formattedDate = new Date(job.start_time).toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+      year: 'numeric'
+    });
+    
+    const notificationService = createNotificationService(supabase);
+    const metadata = {
+      jobId: job.id,
+      title: job.title,
+      startTime: job.start_time,
+      reason: options.reason,
+      cancelledBy: options.cancelledByUserId
+    };
+    
+    const feeNote = options.feePerStaff > 0
+      ? ` As this is a late cancellation, you will receive a $${options.feePerStaff.toFixed(2)} cancellation fee.`
+      : '';
+    
+    for (const userId of options.assignedUserIds) {
+      if (userId === options.cancelledByUserId) continue;
+      
+      try {
+        await notificationService.sendNotificationForEvent({
+          eventType: 'job_cancelled',
+          userId,
+          title: `Job Cancelled: ${job.title}`,
+          body: `The job "${job.title}" on ${formattedDate} has been cancelled and your assignment released. Reason: ${options.reason.replace(/[.!]+$/, '')}.${feeNote}`,
+          metadata: { ...metadata, wasAssigned: true, cancellationFee: options.feePerStaff }
+        });
+      } catch (error) {
+        console.error(`Error sending job cancelled notification to employee ${userId}:`, error);
+      }
+    }
+    
+    for (const userId of options.interestedUserIds) {
+      if (userId === options.cancelledByUserId) continue;
+      
+      try {
+        await notificationService.sendNotificationForEvent({
+          eventType: 'job_cancelled',
+          userId,
+          title: `Job Cancelled: ${job.title}`,
+          body: `The job "${job.title}" on ${formattedDate} you were interested in has been cancelled.`,
+          metadata: { ...metadata, wasAssigned: false }
+        });
+      } catch (error) {
+        console.error(`Error sending job cancelled notification to employee ${userId}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("Error sending job cancelled notifications:", error);
+  }
+}
+
+/**
+ * Remind assigned staff about shifts starting in the next `hoursAhead` hours,
+ * with their call time, venue and the run-of-show items for their role.
+ * Each assignment is reminded once; `job_assignments.reminder_sent_at` records it.
+ * Run on a schedule (see `app/api/cron/job-reminders`).
+ */
+export async function sendJobReminderNotifications(
+  supabase: SupabaseClient,
+  options: { now?: Date; hoursAhead?: number } = {}
+): Promise<{ sent: number; error?: string }> {
+  const now = options.now || new Date();
+  const windowEnd = new Date(now.getTime() + (options.hoursAhead ?? 24) * 60 * 60 * 1000);
+  
+  try {
+    const { data: assignments, error: assignmentsError } = await supabase
+      .from('job_assignments')
+      .select(`
+        id,
+        user_id,
+        job_id,
+        shift:shift_id!inner (
+          id, name, start_time, end_time, call_time,
+          venue:venue_id (name, address, city, state)
+        ),
+        job:job_id!inner (
+          id, title, status,
+          venue:venue_id (name, address, city, state)
+        ),
+        job_required_role:job_required_role_id (
+          role_name
+        )
+      `)
+      .is('reminder_sent_at', null)
+      .neq('status', 'declined')
+      .in('job.status', ['available', 'upcoming'])
+      .gt('shift.start_time', now.toISOString())
+      .lte('shift.start_time', windowEnd.toISOString());
+    
+    if (assignmentsError) {
+      console.error("Error fetching assignments for reminders:", assignmentsError);
+      return { sent: 0, error: "Failed to fetch assignments for reminders" };
+    }
+    
+    if (!assignments || assignments.length === 0) {
+      return { sent: 0 };
+    }
+    
+    const jobIds = Array.from(new Set<string>(assignments.map((a: any) => a.job_id)));
+    const { data: timelines } = await getTimelineItemsForJobs(supabase, jobIds);
+    
+    const notificationService = createNotificationService(supabase);
+    let sent = 0;
+    
+    for (const assignment of assignments as any[]) {
+      // Handle joined data which might be returned as arrays from Supabase
+      const shift = Array.isArray(assignment.shift) ? assignment.shift[0] : assignment.shift;
+      const job = Array.isArray(assignment.job) ? assignment.job[0] : assignment.job;
+      const role = Array.isArray(assignment.job_required_role)
+        ? assignment.job_required_role[0]
+        : assignment.job_required_role;
+      const shiftVenue = Array.isArray(shift.venue) ? shift.venue[0] : shift.venue;
+      const jobVenue = Array.isArray(job.venue) ? job.venue[0] : job.venue;
+      const venue = shiftVenue || jobVenue;
+      
+      const arrival = new Date(shift.call_time || shift.start_time);
+      const formattedDate = arrival.toLocaleDateString('en-US', {
+        weekday: 'long',
+        month: 'long',
+        day: 'numeric'
+      });
+      const formattedTime = arrival.toLocaleTimeString('en-US', {
+        hour: 'numeric',
+        minute: '2-digit',
+        hour12: true
+      });
+      const venueText = venue
+        ? ` at ${[venue.name, venue.address, venue.city, venue.state].filter(Boolean).join(', ')}`
+        : '';
+      
+      // Only this shift's part of the run-of-show, and only the items for the employee's role
+      const shiftItems = (timelines?.[job.id] || []).filter(item => {
+        const time = new Date(item.starts_at).getTime();
+        return time >= arrival.getTime() && time <= new Date(shift.end_time).getTime();
+      });
+      const runOfShow = formatTimelineText(shiftItems, { roleName: role?.role_name ?? null });
+      
+      try {
+        await notificationService.sendNotificationForEvent({
+          eventType: 'job_reminder',
+          userId: assignment.user_id,
+          title: `Reminder: ${job.title}`,
+          body: `You're working "${job.title}"${role?.role_name ? ` as ${role.role_name}` : ''} on ${formattedDate}. ` +
+            `${shift.call_time ? 'Call time' : 'Start time'} is ${formattedTime}${venueText}.` +
+            (runOfShow ? `\n\nRun of show:\n${runOfShow}` : ''),
+          metadata: {
+            jobId: job.id,
+            shiftId: shift.id,
+            assignmentId: assignment.id,
+            startTime: shift.start_time,
+            callTime: shift.call_time
+          }
+        });
+        sent++;
+      } catch (error) {
+        console.error(`Error sending job reminder to employee ${assignment.user_id}:`, error);
+      }
+      
+      // Mark as reminded either way so a failing channel doesn't repeat every run
+      const { error: markError } = await supabase
+        .from('job_assignments')
+        .update({ reminder_sent_at: new Date().toISOString() })
+        .eq('id', assignment.id);
+      
+      if (markError) {
+        console.error(`Error marking reminder sent for assignment ${assignment.id}:`, markError);
+      }
+    }
+    
+    return { sent };
+  } catch (error) {
+    console.error("Error sending job reminders:", error);
+    return { sent: 0, error: "Failed to send job reminders" };
+  }
+}
@@ -1,23 +1,118 @@
+import type { JobShift } from "../job-shifts/types";
+
 /**
- * Job data type definition
+ * Canonical job lifecycle. Allowed moves between these are defined in
+ * client-utils (JOB_STATUS_TRANSITIONS) and enforced by a trigger on jobs.
  */
-export type JobData = {
+export type JobStatus =
+  | 'draft'        // Not visible to employees yet
+  | 'available'    // Open for interest and assignment
+  | 'upcoming'     // Every required role is filled
+  | 'in_progress'  // The event is underway
+  | 'completed'
+  | 'cancelled';
+
+/**
+ * A single recorded move of a job from one status to another
+ */
+export type JobStatusHistoryEntry = {
   id: string;
+  job_id: string;
+  from_status: JobStatus | null; // Null for the status a job was created with
+  to_status: JobStatus;
+  changed_by_user_id: string | null; // Null for system changes (e.g. HoneyBook sync)
+  reason: string | null;
+  created_at: string;
+  changed_by?: { full_name: string | null } | null;
+};
+
+/**
+ * Job details that crew are told about when they change
+ */
+export type JobChangeField = 'title' | 'start_time' | 'end_time' | 'venue' | 'description' | 'travel_pay';
+
+/**
+ * One field of a job edit. Times are ISO strings, the venue is its name and
+ * travel pay is the amount offered (null when not offered).
+ */
+export type JobChange = {
+  field: JobChangeField;
+  from: string | number | null;
+  to: string | number | null;
+};
+
+/**
+ * What a job looked like before or after an edit, for diffing
+ */
+export type JobSnapshot = {
   title: string;
   description: string | null;
   start_time: string;
   end_time: string;
+  venue_name: string | null;
+  travel_pay_offered: boolean;
+  travel_pay_amount: number | null;
+};
+
+/**
+ * A recorded edit of a job, with the fields it changed
+ */
+export type JobRevision = {
+  id: string;
+  job_id: string;
+  changed_by_user_id: string | null;
+  changes: JobChange[];
+  summary: string;
+  created_at: string;
+  changed_by?: { full_name: string | null } | null;
+};
+
+/**
+ * Job data type definition
+ */
+export type JobData = {
+  id: string;
+  title: string;
+  description: string | null;
+  start_time: string; // Start of the earliest shift
+  end_time: string; // End of the latest shift
   venue_id: string;
-  status: 'available' | 'pending' | 'assigned' | 'completed' | 'cancelled' | 'open' | 'upcoming' | 'draft';
+  status: JobStatus;
   travel_pay_offered: boolean;
   travel_pay_amount: number | null;
   created_by_user_id: string;
   org_id: string;
   created_at: string;
-  completed_at?: string | null;
-  first_assigned_at?: string | null;
+  completed_at?: string | null; // Set on the transition to 'completed'
+  first_assigned_at?: string | null; // Set on the first transition to 'upcoming' (fully staffed)
   time_to_fill_duration?: string | null; // Interval type from Postgres
   assignment_to_completion_duration?: string | null; // Interval type from Postgres
+  template_id?: string | null; // Job template this job was created from, if any
+  cancellation_reason?: string | null; // Set by cancelJob
+  cancelled_at?: string | null;
+  cancelled_by_user_id?: string | null;
+  cancellation_fee_total?: number; // Sum of the fees owed to released staff
+};
+
+/**
+ * An organization's late-cancellation policy, stored on orgs
+ */
+export type CancellationPolicy = {
+  cancellation_notice_hours: number; // Cancelling with less notice than this owes a fee
+  cancellation_fee_amount: number; // Owed to each assigned staff member
+};
+
+/**
+ * Fee owed to one released staff member for a late cancellation
+ */
+export type JobCancellationFee = {
+  id: string;
+  job_id: string;
+  org_id: string;
+  user_id: string;
+  role_name: string | null;
+  amount: number;
+  created_at: string;
 };
 
 /**
@@ -45,6 +140,9 @@ export type JobWithVenue = JobData & {
 export type JobRequiredRole = {
   id: string; // Or number, depending on your schema
   role_name: string;
+  shift_id?: string | null; // Shift the role is staffed for
+  eligible?: boolean; // Whether the current employee is qualified for it (available jobs only)
+  ineligible_reasons?: string[];
 };
 
 /**
@@ -53,6 +151,7 @@ export type JobRequiredRole = {
 export type AvailableJob = JobWithVenue & {
   distance?: number | null;
   job_required_roles?: JobRequiredRole[] | null;
+  job_shifts?: JobShift[] | null;
   // Add any other specific fields that distinguish an "available job"
 };
 
@@ -1,7 +1,7 @@
 "use server";
 
 import { createClient } from "@/utils/supabase/server";
-import { getCurrentUserProfile } from "@/utils/supabase/auth-helpers"; // Added for profile access if needed
+import { getCurrentUserProfile, isAdmin } from "@/utils/supabase/auth-helpers"; // Added for profile access if needed
 import { revalidatePath } from "next/cache";
 import { redirect } from "next/navigation"; // Added as it's used in original index.ts
 import { encodedRedirect } from "@/utils/utils";
@@ -10,12 +10,16 @@ import { createNotificationService } from "@/utils/notifications/notification-se
 
 import {
   calculateTravelPay,
+  cancelJobWithFees,
   checkManagerPermission,
+  getJobSnapshot,
+  recordJobRevision,
+  transitionJobStatus,
   verifyJobOrganization
 } from "./utils";
-import type { JobData } from "./types";
+import { canTransitionJobStatus, diffJobChanges, formatJobStatus, JOB_STATUS_LABELS } from "./client-utils";
+import type { JobData, JobStatus } from "./types";
 import {
-  sendJobCompletedNotifications,
   sendJobUpdatedNotifications
   // sendJobDeletedNotifications might be needed if we create it
 } from "./notifications";
@@ -46,7 +50,7 @@ export async function updateJob(jobId: string, formData: FormData) {
   // Get the job to check venue_id for travel pay calculation
   const { data: currentJob, error: fetchError } = await supabase // Renamed 'job' to 'currentJob'
     .from('jobs')
-    .select('venue_id, travel_pay_offered') // Added travel_pay_offered to check if it changed
+    .select('venue_id, travel_pay_offered, status') // Added travel_pay_offered to check if it changed
     .eq('id', jobId)
     .single();
   
@@ -60,7 +64,8 @@ export async function updateJob(jobId: string, formData: FormData) {
   const startTime = formData.get("start_time")?.toString();
   const endTime = formData.get("end_time")?.toString();
   const venueId = formData.get("venue_id")?.toString();
-  const status = formData.get("status")?.toString() as JobData['status'];
+  const status = formData.get("status")?.toString() as JobStatus;
+  const statusReason = formData.get("status_reason")?.toString().trim();
   const travelPayOffered = formData.get("travel_pay_offered") === "on";
   
   // Validate required fields
@@ -72,6 +77,16 @@ export async function updateJob(jobId: string, formData: FormData) {
     );
   }
   
+  // Status changes go through the lifecycle rather than a plain update
+  const statusChanged = status !== currentJob.status;
+  if (statusChanged && !canTransitionJobStatus(currentJob.status, status)) {
+    return encodedRedirect(
+      "error",
+      `/dashboard/manager/jobs/${jobId}/edit`,
+      `A job that is ${formatJobStatus(currentJob.status)} cannot be moved to ${formatJobStatus(status)}`
+    );
+  }
+  
   try {
     // Prepare update data
     const updateData: Partial<JobData> = {
@@ -80,10 +95,20 @@ export async function updateJob(jobId: string, formData: FormData) {
       start_time: startTime,
       end_time: endTime,
       venue_id: venueId,
-      status,
       travel_pay_offered: travelPayOffered,
     };
     
+    // Multi-shift jobs take their window from their shifts, so leave it alone here
+    const { count: shiftCount } = await supabase
+      .from('job_shifts')
+      .select('id', { count: 'exact', head: true })
+      .eq('job_id', jobId);
+    
+    if ((shiftCount || 0) > 1) {
+      delete updateData.start_time;
+      delete updateData.end_time;
+    }
+    
     // Calculate travel pay if offered and (venue changed OR travel_pay_offered status changed to true)
     if (travelPayOffered && (venueId !== currentJob.venue_id || !currentJob.travel_pay_offered)) {
       const travelPayAmount = await calculateTravelPay(profile.org_id!, venueId);
@@ -92,6 +117,21 @@ export async function updateJob(jobId: string, formData: FormData) {
       updateData.travel_pay_amount = null;
     }
     
+    // Change the status first, so an edit whose status change is refused isn't half saved
+    if (statusChanged) {
+      const { success, error: statusError } = await transitionJobStatus(supabase, jobId, status, {
+        changedByUserId: user.id,
+        reason: statusReason
+      });
+      
+      if (!success) {
+        return encodedRedirect("error", `/dashboard/manager/jobs/${jobId}/edit`, statusError || "Failed to change job status");
+      }
+    }
+    
+    // Snapshot the job so the edit can be diffed once it's saved
+    const before = await getJobSnapshot(supabase, jobId);
+    
     // Update job
     const { error } = await supabase
       .from('jobs')
@@ -103,8 +143,14 @@ export async function updateJob(jobId: string, formData: FormData) {
       return encodedRedirect("error", `/dashboard/manager/jobs/${jobId}/edit`, error.message);
     }
     
-    // Send notifications about the job update
-    await sendJobUpdatedNotifications(supabase, jobId, user.id);
+    const after = await getJobSnapshot(supabase, jobId);
+    const changes = before && after ? diffJobChanges(before, after) : [];
+    if (changes.length > 0) {
+      await recordJobRevision(supabase, jobId, changes, user.id);
+    }
+    
+    // Tell the crew exactly what changed (nothing is sent if nothing did)
+    await sendJobUpdatedNotifications(supabase, jobId, user.id, changes);
     
     revalidatePath('/dashboard/manager/jobs');
     revalidatePath(`/dashboard/manager/jobs/${jobId}`);
@@ -220,6 +266,101 @@ export async function deleteJob(formData: FormData) {
   }
 }
 
+/**
+ * Cancel a job with a reason. The job record is kept, every assignment is
+ * released, staff are owed the org's cancellation fee if it is a late
+ * cancellation, and assigned and interested employees are notified.
+ */
+export async function cancelJob(jobId: string, formData: FormData) {
+  const supabase = await createClient();
+  
+  // Check permissions
+  const { authorized, user, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !user || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized or profile missing");
+  }
+  
+  // Verify the job belongs to the user's organization
+  const { verified, error: jobVerifyError } = await verifyJobOrganization(
+    supabase,
+    jobId,
+    profile.org_id!
+  );
+  
+  if (!verified) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", jobVerifyError || "Job not found or not authorized");
+  }
+  
+  const reason = formData.get("reason")?.toString().trim() || "";
+  if (!reason) {
+    return encodedRedirect("error", `/dashboard/manager/jobs/${jobId}`, "A cancellation reason is required");
+  }
+  
+  const { success, job, feePerStaff, error } = await cancelJobWithFees(supabase, jobId, {
+    cancelledByUserId: user.id,
+    reason
+  });
+  
+  if (!success || !job) {
+    return encodedRedirect("error", `/dashboard/manager/jobs/${jobId}`, error || "Failed to cancel job");
+  }
+  
+  revalidatePath('/dashboard/manager/jobs');
+  revalidatePath(`/dashboard/manager/jobs/${jobId}`);
+  return encodedRedirect(
+    "success",
+    `/dashboard/manager/jobs/${jobId}`,
+    feePerStaff && job.cancellation_fee_total
+      ? `Job cancelled. Late cancellation fees of $${Number(job.cancellation_fee_total).toFixed(2)} recorded`
+      : "Job cancelled"
+  );
+}
+
+/**
+ * Move a job to another lifecycle status with an optional reason.
+ * Moving to cancelled runs the full cancellation workflow and needs a reason.
+ */
+export async function changeJobStatus(jobId: string, formData: FormData) {
+  const supabase = await createClient();
+  
+  // Check permissions
+  const { authorized, user, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !user || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized or profile missing");
+  }
+  
+  // Verify the job belongs to the user's organization
+  const { verified, error: jobVerifyError } = await verifyJobOrganization(
+    supabase,
+    jobId,
+    profile.org_id!
+  );
+  
+  if (!verified) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", jobVerifyError || "Job not found or not authorized");
+  }
+  
+  const status = formData.get("status")?.toString() as JobStatus;
+  const reason = formData.get("reason")?.toString().trim();
+  
+  if (!status || !(status in JOB_STATUS_LABELS)) {
+    return encodedRedirect("error", `/dashboard/manager/jobs/${jobId}`, "Please choose a valid status");
+  }
+  
+  const { success, error } = await transitionJobStatus(supabase, jobId, status, {
+    changedByUserId: user.id,
+    reason
+  });
+  
+  if (!success) {
+    return encodedRedirect("error", `/dashboard/manager/jobs/${jobId}`, error || "Failed to change job status");
+  }
+  
+  revalidatePath('/dashboard/manager/jobs');
+  revalidatePath(`/dashboard/manager/jobs/${jobId}`);
+  return encodedRedirect("success", `/dashboard/manager/jobs/${jobId}`, `Job moved to ${formatJobStatus(status)}`);
+}
+
 /**
  * Mark a job as complete and calculate analytics metrics
  */
@@ -244,42 +385,23 @@ export async function markJobAsComplete(jobId: string) {
       return { success: false, error: jobVerifyError || "Job not found or not authorized" };
     }
     
-    // Get job details for analytics (already fetched by verifyJobOrganization if select was broad enough)
-    // If verifyJobOrganization doesn't return all needed fields, fetch them here.
-    // For now, assume 'job' from verifyJobOrganization has created_at and first_assigned_at
-    const jobDetails = job; 
-    
-    const now = new Date().toISOString();
-    
-    // Prepare update data
-    let updateData: Partial<JobData> & { time_to_fill_duration?: string; assignment_to_completion_duration?: string } = {
-      status: 'completed',
-      completed_at: now
-    };
+    // The status trigger stamps completed_at and the fill/completion durations,
+    // and the transition sends the completion notifications
+    const { success, job: completedJob, error: transitionError } = await transitionJobStatus(
+      supabase,
+      jobId,
+      'completed',
+      { changedByUserId: user.id }
+    );
     
-    // Calculate time_to_fill_duration if first_assigned_at is not null
-    if (jobDetails.first_assigned_at && jobDetails.created_at) {
-      // For PostgreSQL interval calculation, we need to use proper syntax
-      // Calculate time from job creation to first assignment
-      // Ensure these are valid ISO strings
-      const firstAssignedAt = new Date(jobDetails.first_assigned_at).toISOString();
-      const createdAt = new Date(jobDetails.created_at).toISOString();
-
-      updateData.time_to_fill_duration = `${firstAssignedAt}::timestamptz - ${createdAt}::timestamptz`;
-      
-      // Calculate time from first assignment to completion
-      updateData.assignment_to_completion_duration = `${now}::timestamptz - ${firstAssignedAt}::timestamptz`;
+    if (!success) {
+      console.error("Error marking job as complete:", transitionError);
+      return { success: false, error: transitionError || "Failed to complete job" };
     }
     
-    // Update job
-    const { error: updateError } = await supabase
-      .from('jobs')
-      .update(updateData)
-      .eq('id', jobId);
-    
-    if (updateError) {
-      console.error("Error marking job as complete:", updateError);
-      return { success: false, error: updateError.message };
+    // A job that was already complete comes back unchanged
+    if (!completedJob) {
+      return { success: false, error: "Job is already complete" };
     }
     
     // Log to audit_logs
@@ -292,9 +414,9 @@ export async function markJobAsComplete(jobId: string) {
           action: 'job_completed',
           details: {
             jobId,
-            completed_at: now,
-            time_to_fill_duration: updateData.time_to_fill_duration,
-            assignment_to_completion_duration: updateData.assignment_to_completion_duration
+            completed_at: completedJob.completed_at,
+            time_to_fill_duration: completedJob.time_to_fill_duration,
+            assignment_to_completion_duration: completedJob.assignment_to_completion_duration
           }
         }
       ]);
@@ -304,9 +426,6 @@ export async function markJobAsComplete(jobId: string) {
       // Continue even if audit logging fails
     }
     
-    // Send notifications to assigned employees and admins
-    await sendJobCompletedNotifications(supabase, jobId, user.id, now);
-    
     revalidatePath('/dashboard/manager/jobs');
     revalidatePath(`/dashboard/manager/jobs/${jobId}`);
     return { success: true, message: "Job marked as complete successfully" };
@@ -315,4 +434,48 @@ export async function markJobAsComplete(jobId: string) {
     const errorMessage = error instanceof Error ? error.message : "An unexpected error occurred";
     return { success: false, error: errorMessage };
   }
-}
\ No newline at end of file
+}
+/**
+ * Update the organization's late-cancellation policy (notice window and fee per staff member)
+ */
+export async function updateCancellationPolicy(formData: FormData) {
+  const supabase = await createClient();
+  
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile?.org_id) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized or profile missing");
+  }
+  
+  // Org-wide settings are admin-only, like the organization page
+  if (!await isAdmin()) {
+    return encodedRedirect("error", "/dashboard/organization", "Only admins can change the cancellation policy");
+  }
+  
+  const noticeHours = Number(formData.get("cancellation_notice_hours"));
+  const feeAmount = Number(formData.get("cancellation_fee_amount"));
+  
+  if (!Number.isInteger(noticeHours) || noticeHours < 0) {
+    return encodedRedirect("error", "/dashboard/organization", "Notice period must be a whole number of hours");
+  }
+  
+  if (!Number.isFinite(feeAmount) || feeAmount < 0) {
+    return encodedRedirect("error", "/dashboard/organization", "Cancellation fee must be zero or more");
+  }
+  
+  const { error } = await supabase
+    .from('orgs')
+    .update({
+      cancellation_notice_hours: noticeHours,
+      cancellation_fee_amount: Math.round(feeAmount * 100) / 100
+    })
+    .eq('id', profile.org_id);
+  
+  if (error) {
+    console.error("Error updating cancellation policy:", error);
+    return encodedRedirect("error", "/dashboard/organization", error.message);
+  }
+  
+  revalidatePath('/dashboard/organization');
+  return encodedRedirect("success", "/dashboard/organization", "Cancellation policy updated");
+}
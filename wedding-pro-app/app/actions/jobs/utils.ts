@@ -4,6 +4,15 @@ import { createClient } from "@/utils/supabase/server";
 import { getCurrentUserProfile, isManager } from "@/utils/supabase/auth-helpers";
 import { SupabaseClient } from "@supabase/supabase-js";
 import { Database } from "@/types/supabase";
+import { getBookedWindows } from "../job-shifts/utils";
+import { findConflictingWindow } from "../job-shifts/client-utils";
+import { calculateCancellationFee, canTransitionJobStatus, formatJobChanges, formatJobStatus } from "./client-utils";
+import {
+  sendJobCancelledNotifications,
+  sendJobCompletedNotifications,
+  sendJobStatusChangedNotifications
+} from "./notifications";
+import type { CancellationPolicy, JobChange, JobData, JobRevision, JobSnapshot, JobStatus } from "./types";
 
 // Types JobData, JobWithVenue, JobRequiredRole, AvailableJob moved to ./types.ts
 /**
@@ -61,6 +70,244 @@ export async function verifyJobOrganization(
   return { verified: true, job };
 }
 
+/**
+ * Move a job to another lifecycle status. The transition_job_status RPC records
+ * who moved it and why in job_status_history, and its trigger stamps the
+ * analytics columns; the notifications that belong to the move are sent here.
+ */
+export async function transitionJobStatus(
+  supabase: SupabaseClient,
+  jobId: string,
+  toStatus: JobStatus,
+  options: { changedByUserId: string; reason?: string | null }
+): Promise<{ success: boolean; job?: JobData; fromStatus?: JobStatus; error?: string }> {
+  const { data: current, error: fetchError } = await supabase
+    .from('jobs')
+    .select('status')
+    .eq('id', jobId)
+    .single();
+  
+  if (fetchError || !current) {
+    console.error("Error fetching job status:", fetchError);
+    return { success: false, error: "Job not found" };
+  }
+  
+  const fromStatus = current.status as JobStatus;
+  if (fromStatus === toStatus) {
+    return { success: true, fromStatus };
+  }
+  
+  if (!canTransitionJobStatus(fromStatus, toStatus)) {
+    return {
+      success: false,
+      fromStatus,
+      error: `A job that is ${formatJobStatus(fromStatus)} cannot be moved to ${formatJobStatus(toStatus)}`
+    };
+  }
+  
+  // Cancelling releases staff and may owe fees, so it has its own workflow
+  if (toStatus === 'cancelled') {
+    const { success, job, error } = await cancelJobWithFees(supabase, jobId, {
+      cancelledByUserId: options.changedByUserId,
+      reason: options.reason || ''
+    });
+    return { success, job, fromStatus, error };
+  }
+  
+  const { data: job, error } = await supabase.rpc('transition_job_status', {
+    p_job_id: jobId,
+    p_to_status: toStatus,
+    p_reason: options.reason || null
+  });
+  
+  if (error || !job) {
+    console.error("Error changing job status:", error);
+    return { success: false, fromStatus, error: error?.message || "Failed to change job status" };
+  }
+  
+  if (toStatus === 'completed') {
+    await sendJobCompletedNotifications(supabase, jobId, options.changedByUserId, job.completed_at);
+  } else {
+    await sendJobStatusChangedNotifications(
+      supabase,
+      jobId,
+      fromStatus,
+      toStatus,
+      options.changedByUserId,
+      options.reason
+    );
+  }
+  
+  return { success: true, job, fromStatus };
+}
+
+/**
+ * Get an organization's late-cancellation policy.
+ * Falls back to 72 hours' notice and no fee if it can't be read.
+ */
+export async function getCancellationPolicy(
+  supabase: SupabaseClient,
+  orgId: string
+): Promise<CancellationPolicy> {
+  const { data, error } = await supabase
+    .from('orgs')
+    .select('cancellation_notice_hours, cancellation_fee_amount')
+    .eq('id', orgId)
+    .single();
+  
+  if (error || !data) {
+    console.error("Error fetching cancellation policy:", error);
+    return { cancellation_notice_hours: 72, cancellation_fee_amount: 0 };
+  }
+  
+  return {
+    cancellation_notice_hours: data.cancellation_notice_hours ?? 72,
+    cancellation_fee_amount: Number(data.cancellation_fee_amount) || 0
+  };
+}
+
+/**
+ * Cancel a job, keeping the record. The cancel_job RPC stores the reason,
+ * records a fee for each assigned staff member when the cancellation is late
+ * under the org's policy, releases every assignment and moves the job to
+ * cancelled. Assigned and interested employees are then notified.
+ */
+export async function cancelJobWithFees(
+  supabase: SupabaseClient,
+  jobId: string,
+  options: { cancelledByUserId: string; reason: string }
+): Promise<{ success: boolean; job?: JobData; feePerStaff?: number; error?: string }> {
+  const { data: current, error: fetchError } = await supabase
+    .from('jobs')
+    .select('id, title, status, start_time, org_id')
+    .eq('id', jobId)
+    .single();
+  
+  if (fetchError || !current) {
+    console.error("Error fetching job for cancellation:", fetchError);
+    return { success: false, error: "Job not found" };
+  }
+  
+  if (!canTransitionJobStatus(current.status as JobStatus, 'cancelled')) {
+    return { success: false, error: `A job that is ${formatJobStatus(current.status)} cannot be cancelled` };
+  }
+  
+  if (!options.reason.trim()) {
+    return { success: false, error: "A cancellation reason is required" };
+  }
+  
+  const policy = await getCancellationPolicy(supabase, current.org_id);
+  const { feePerStaff } = calculateCancellationFee(current.start_time, policy);
+  
+  // Collect who to tell before the assignments are released
+  const { data: assignments } = await supabase
+    .from('job_assignments')
+    .select('user_id, status')
+    .eq('job_id', jobId);
+  
+  const { data: interests } = await supabase
+    .from('job_interests')
+    .select('user_id')
+    .eq('job_id', jobId);
+  
+  const { data: job, error } = await supabase.rpc('cancel_job', {
+    p_job_id: jobId,
+    p_reason: options.reason.trim(),
+    p_fee_amount: feePerStaff
+  });
+  
+  if (error || !job) {
+    console.error("Error cancelling job:", error);
+    return { success: false, error: error?.message || "Failed to cancel job" };
+  }
+  
+  const assignedUserIds = Array.from(new Set<string>(
+    (assignments || []).filter(a => a.status !== 'declined').map(a => a.user_id as string)
+  ));
+  const interestedUserIds = Array.from(new Set<string>((interests || []).map(i => i.user_id as string)))
+    .filter(userId => !assignedUserIds.includes(userId));
+  
+  await sendJobCancelledNotifications(supabase, job, {
+    assignedUserIds,
+    interestedUserIds,
+    reason: options.reason.trim(),
+    feePerStaff,
+    cancelledByUserId: options.cancelledByUserId
+  });
+  
+  return { success: true, job, feePerStaff };
+}
+
+/**
+ * Read the job details that crew are told about when they change
+ */
+export async function getJobSnapshot(
+  supabase: SupabaseClient,
+  jobId: string
+): Promise<JobSnapshot | null> {
+  const { data: job, error } = await supabase
+    .from('jobs')
+    .select(`
+      title,
+      description,
+      start_time,
+      end_time,
+      travel_pay_offered,
+      travel_pay_amount,
+      venue:venue_id (
+        name
+      )
+    `)
+    .eq('id', jobId)
+    .single();
+  
+  if (error || !job) {
+    console.error("Error fetching job snapshot:", error);
+    return null;
+  }
+  
+  const venue: { name: string | null } | null = (Array.isArray(job.venue) ? job.venue[0] : job.venue) ?? null;
+  return {
+    title: job.title,
+    description: job.description,
+    start_time: job.start_time,
+    end_time: job.end_time,
+    venue_name: venue?.name || null,
+    travel_pay_offered: job.travel_pay_offered,
+    travel_pay_amount: job.travel_pay_amount
+  };
+}
+
+/**
+ * Record a job edit and the fields it changed in job_revisions
+ */
+export async function recordJobRevision(
+  supabase: SupabaseClient,
+  jobId: string,
+  changes: JobChange[],
+  changedByUserId: string | null
+): Promise<{ revision?: JobRevision; error?: string }> {
+  const { data: revision, error } = await supabase
+    .from('job_revisions')
+    .insert([
+      {
+        job_id: jobId,
+        changed_by_user_id: changedByUserId,
+        changes,
+        summary: formatJobChanges(changes)
+      }
+    ])
+    .select('*')
+    .single();
+  
+  if (error || !revision) {
+    console.error("Error recording job revision:", error);
+    return { error: error?.message || "Failed to record the job's changes" };
+  }
+  
+  return { revision: revision as JobRevision };
+}
+
 /**
  * Calculate travel pay for a job based on organization settings and venue location
  */
@@ -209,72 +456,34 @@ export async function calculateDistance(origin: string, destination: string): Pr
 
 
 /**
- * Check if a job has time conflict with existing assignments
+ * Check if a time window (usually a shift) conflicts with an employee's existing assignments.
+ * Assignments are compared by their shift window, so two shifts of the same
+ * multi-day job only conflict if they actually overlap.
  */
 export async function hasTimeConflict(
   employeeId: string,
   startTime: string,
   endTime: string,
-  excludeJobId?: string
+  excludeShiftId?: string
 ): Promise<boolean> {
   const supabase = await createClient();
   
   try {
-    // Build query to check for conflicts
-    let query = supabase
-      .from('job_assignments')
-      .select(`
-        id,
-        job_id,
-        jobs (
-          id,
-          start_time,
-          end_time
-        )
-      `)
-      .eq('employee_id', employeeId)
-      .not('status', 'eq', 'declined');
-    
-    // Exclude specific job if provided
-    if (excludeJobId) {
-      query = query.not('job_id', 'eq', excludeJobId);
-    }
+    const { data: bookedWindows, error } = await getBookedWindows(supabase, employeeId);
     
-    const { data, error } = await query;
-    
-    if (error) {
-      console.error("Error checking time conflicts:", error);
+    if (error || !bookedWindows) {
       return false; // Assume no conflict if there's an error
     }
     
-    // Check for time conflicts
-    const startDate = new Date(startTime);
-    const endDate = new Date(endTime);
+    const conflict = findConflictingWindow(
+      { start_time: startTime, end_time: endTime },
+      bookedWindows,
+      excludeShiftId
+    );
     
-    for (const assignment of data) {
-      const job = assignment.jobs;
-      if (!job) continue;
-      
-      // Handle the case where jobs might be an array or a single object
-      const jobData = Array.isArray(job) ? job[0] : job;
-      if (!jobData) continue;
-      
-      const jobStartDate = new Date(jobData.start_time);
-      const jobEndDate = new Date(jobData.end_time);
-      
-      // Check if there's an overlap
-      if (
-        (startDate >= jobStartDate && startDate < jobEndDate) || // Start time is during another job
-        (endDate > jobStartDate && endDate <= jobEndDate) || // End time is during another job
-        (startDate <= jobStartDate && endDate >= jobEndDate) // Job is completely contained within the time range
-      ) {
-        return true; // Conflict found
-      }
-    }
-    
-    return false; // No conflicts
+    return !!conflict;
   } catch (error) {
     console.error("Error checking time conflicts:", error);
     return false; // Assume no conflict if there's an error
   }
-}
\ No newline at end of file
+}
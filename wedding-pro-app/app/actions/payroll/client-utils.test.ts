@@ -0,0 +1,220 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPayrollExport,
+  buildPayrollLines,
+  periodsOverlap,
+  splitName,
+  summarizePayrollLines,
+  validatePayrollPeriod
+} from './client-utils';
+import type { PayrollAssignmentSource } from './types';
+
+const hourly = {
+  pay_type: 'hourly' as const,
+  pay_rate: 40,
+  min_hours: 4,
+  overtime_after_hours: 8,
+  overtime_multiplier: 1.5,
+  bonus_amount: 25,
+};
+
+const assignment = (overrides: Partial<PayrollAssignmentSource> = {}): PayrollAssignmentSource => ({
+  assignment_id: 'a1',
+  user_id: 'u1',
+  job_id: 'j1',
+  job_title: 'Smith Wedding',
+  role_name: 'Lead',
+  compensation: hourly,
+  start_time: '2025-06-14T14:00:00Z',
+  end_time: '2025-06-14T22:00:00Z',
+  timesheet: null,
+  travel_pay_amount: null,
+  ...overrides,
+});
+
+const now = new Date('2025-06-20T00:00:00Z');
+
+describe('payroll client utils', () => {
+  describe('validatePayrollPeriod', () => {
+    it('should accept inclusive periods up to 31 days', () => {
+      expect(validatePayrollPeriod('2025-06-01', '2025-06-01')).toBeNull();
+      expect(validatePayrollPeriod('2025-07-01', '2025-07-31')).toBeNull();
+      expect(validatePayrollPeriod('2025-06-15', '2025-06-01')).toBe("The period can't end before it starts");
+      expect(validatePayrollPeriod('2025-06-01', '2025-07-15')).toContain("31 days");
+      expect(validatePayrollPeriod('', '2025-06-15')).toBe("Start and end dates are required");
+    });
+  });
+
+  describe('periodsOverlap', () => {
+    it('should treat shared end days as overlapping', () => {
+      const june = { period_start: '2025-06-01', period_end: '2025-06-15' };
+      expect(periodsOverlap(june, { period_start: '2025-06-15', period_end: '2025-06-30' })).toBe(true);
+      expect(periodsOverlap(june, { period_start: '2025-06-16', period_end: '2025-06-30' })).toBe(false);
+    });
+  });
+
+  describe('buildPayrollLines', () => {
+    it('should pay approved hours with overtime and bonus, falling back to scheduled hours', () => {
+      const lines = buildPayrollLines([
+        assignment({ timesheet: { status: 'approved', approved_hours: 10 } }),
+        assignment({ assignment_id: 'a2', user_id: 'u2', timesheet: { status: 'submitted', approved_hours: null } }),
+      ], [], [], now);
+
+      const approved = lines.filter(line => line.user_id === 'u1');
+      expect(approved.map(line => [line.line_type, line.hours, line.amount])).toEqual([
+        ['role_pay', 8, 320],
+        ['overtime', 2, 120],
+        ['bonus', null, 25],
+      ]);
+      expect(approved[0].hours_source).toBe('approved');
+
+      const scheduled = lines.find(line => line.user_id === 'u2' && line.line_type === 'role_pay');
+      expect(scheduled?.hours).toBe(8);
+      expect(scheduled?.hours_source).toBe('scheduled');
+    });
+
+    it('should skip rejected timesheets and unfinished shifts, and keep unpriced roles at $0', () => {
+      const lines = buildPayrollLines([
+        assignment({ timesheet: { status: 'rejected', approved_hours: null } }),
+        assignment({ assignment_id: 'a2', end_time: '2025-06-21T02:00:00Z' }),
+        assignment({ assignment_id: 'a3', compensation: null }),
+      ], [], [], now);
+
+      expect(lines).toHaveLength(1);
+      expect(lines[0].job_assignment_id).toBe('a3');
+      expect(lines[0].amount).toBe(0);
+      expect(lines[0].description).toBe('Smith Wedding – Lead (pay not set)');
+    });
+
+    it('should pay travel once per employee per job and add cancellation fees', () => {
+      const flat = { ...hourly, pay_type: 'flat' as const, pay_rate: 300, bonus_amount: 0 };
+      const lines = buildPayrollLines([
+        assignment({ compensation: flat, travel_pay_amount: 50 }),
+        assignment({ assignment_id: 'a2', compensation: flat, travel_pay_amount: 50, start_time: '2025-06-15T14:00:00Z', end_time: '2025-06-15T20:00:00Z' }),
+      ], [
+        { job_id: 'j2', job_title: 'Jones Wedding', user_id: 'u1', role_name: 'Lead', amount: 75, created_at: '2025-06-10T12:00:00Z' },
+      ], [], now);
+
+      expect(lines.filter(line => line.line_type === 'travel_pay')).toHaveLength(1);
+      expect(lines.filter(line => line.line_type === 'role_pay').map(line => line.amount)).toEqual([300, 300]);
+      expect(lines.find(line => line.line_type === 'cancellation_fee')).toMatchObject({
+        amount: 75,
+        work_date: '2025-06-10',
+        description: 'Jones Wedding cancellation fee (Lead)',
+      });
+    });
+
+    it('should reimburse approved expense claims on their own lines', () => {
+      const lines = buildPayrollLines([], [], [
+        {
+          claim_id: 'c1',
+          job_id: 'j1',
+          job_title: 'Smith Wedding',
+          job_assignment_id: 'a1',
+          user_id: 'u1',
+          description: 'Parking: Hotel garage',
+          incurred_on: '2025-06-14',
+          amount: 32.5,
+        },
+      ], now);
+
+      expect(lines).toEqual([expect.objectContaining({
+        line_type: 'expense',
+        job_assignment_id: 'a1',
+        work_date: '2025-06-14',
+        description: 'Smith Wedding – Parking: Hotel garage',
+        amount: 32.5,
+        expense_claim_id: 'c1',
+      })]);
+    });
+  });
+
+  describe('summarizePayrollLines', () => {
+    it('should total each employee by pay type including negative adjustments', () => {
+      const [totals] = summarizePayrollLines([
+        { user_id: 'u1', line_type: 'role_pay', hours: 8, amount: 320 },
+        { user_id: 'u1', line_type: 'overtime', hours: 2, amount: 120 },
+        { user_id: 'u1', line_type: 'travel_pay', hours: null, amount: 50 },
+        { user_id: 'u1', line_type: 'adjustment', hours: null, amount: -20 },
+      ]);
+
+      expect(totals).toMatchObject({
+        regular_hours: 8,
+        overtime_hours: 2,
+        role_pay: 320,
+        overtime_pay: 120,
+        travel_pay: 50,
+        adjustments: -20,
+        total: 470,
+      });
+    });
+  });
+
+  describe('buildPayrollExport', () => {
+    const run = { id: 'r1', period_start: '2025-06-01', period_end: '2025-06-15' };
+    const lines = [
+      { user_id: 'u1', line_type: 'role_pay' as const, hours: 8, amount: 320 },
+      { user_id: 'u1', line_type: 'bonus' as const, hours: null, amount: 25 },
+      { user_id: 'u1', line_type: 'cancellation_fee' as const, hours: null, amount: 75 },
+      { user_id: 'u1', line_type: 'travel_pay' as const, hours: null, amount: 50 },
+    ];
+    const employees = [{ id: 'u1', full_name: 'Mary Ann Smith', email: 'mary@example.com' }];
+
+    it('should lay out one Gusto row per employee', () => {
+      const { columns, rows } = buildPayrollExport('gusto', run, lines, employees);
+      expect(columns[0]).toBe('last_name');
+      expect(rows).toEqual([{
+        last_name: 'Smith',
+        first_name: 'Mary Ann',
+        email: 'mary@example.com',
+        regular_hours: '8',
+        overtime_hours: '0',
+        regular_earnings: '320.00',
+        overtime_earnings: '0.00',
+        bonus: '100.00',
+        reimbursement: '50.00',
+        correction_payment: '0.00',
+        total: '470.00',
+      }]);
+    });
+
+    it('should pay expense claims as reimbursements', () => {
+      const withExpense = [...lines, { user_id: 'u1', line_type: 'expense' as const, hours: null, amount: 30 }];
+
+      expect(buildPayrollExport('gusto', run, withExpense, employees).rows[0].reimbursement).toBe('80.00');
+      expect(buildPayrollExport('quickbooks', run, withExpense, employees).rows).toContainEqual(expect.objectContaining({
+        'Pay Item': 'Expense Reimbursement',
+        'Amount': '30.00',
+      }));
+      expect(buildPayrollExport('adp', run, withExpense, employees).rows[0]['Earnings 4 Amount']).toBe('80.00');
+    });
+
+    it('should lay out QuickBooks pay items and ADP earnings codes', () => {
+      const quickbooks = buildPayrollExport('quickbooks', run, lines, employees);
+      expect(quickbooks.rows.map(row => [row['Pay Item'], row['Amount']])).toEqual([
+        ['Regular Pay', '320.00'],
+        ['Bonus', '25.00'],
+        ['Cancellation Fee', '75.00'],
+        ['Travel Reimbursement', '50.00'],
+      ]);
+
+      const adp = buildPayrollExport('adp', run, lines, employees);
+      expect(adp.rows[0]).toMatchObject({
+        'Batch ID': 'WP20250615',
+        'Employee Name': 'Smith, Mary Ann',
+        'Reg Earnings': '320.00',
+        'Earnings 3 Code': 'B',
+        'Earnings 3 Amount': '100.00',
+        'Earnings 4 Code': 'R',
+        'Earnings 5 Code': '',
+      });
+    });
+  });
+
+  describe('splitName', () => {
+    it('should keep single names as the first name', () => {
+      expect(splitName('Cher')).toEqual({ first_name: 'Cher', last_name: '' });
+      expect(splitName(null)).toEqual({ first_name: '', last_name: '' });
+    });
+  });
+});
@@ -0,0 +1,464 @@
+import { calculateExpectedEarnings, getShiftHours } from "../role-compensation/client-utils";
+import { getPayableHours } from "../timesheets/client-utils";
+import type {
+  PayrollAssignmentSource,
+  PayrollCancellationFeeSource,
+  PayrollEmployee,
+  PayrollEmployeeTotals,
+  PayrollExpenseClaimSource,
+  PayrollExportFormat,
+  PayrollExportTable,
+  PayrollLineDraft,
+  PayrollLineType,
+  PayrollRun,
+  PayrollRunLine,
+  PayrollRunStatus
+} from "./types";
+
+/**
+ * Display names for run statuses
+ */
+export const PAYROLL_RUN_STATUS_LABELS: Record<PayrollRunStatus, string> = {
+  draft: 'Draft',
+  approved: 'Approved',
+};
+
+/**
+ * Display names for line types
+ */
+export const PAYROLL_LINE_TYPE_LABELS: Record<PayrollLineType, string> = {
+  role_pay: 'Role pay',
+  overtime: 'Overtime',
+  bonus: 'Bonus',
+  travel_pay: 'Travel pay',
+  cancellation_fee: 'Cancellation fee',
+  expense: 'Expense',
+  adjustment: 'Adjustment',
+};
+
+/**
+ * Display names for export layouts
+ */
+export const PAYROLL_EXPORT_FORMAT_LABELS: Record<PayrollExportFormat, string> = {
+  gusto: 'Gusto',
+  quickbooks: 'QuickBooks',
+  adp: 'ADP',
+};
+
+/**
+ * Longest pay period a run can cover
+ */
+export const MAX_PAYROLL_PERIOD_DAYS = 31;
+
+const dayMs = 24 * 60 * 60 * 1000;
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+const roundHours = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Check a pay period's dates (YYYY-MM-DD, both inclusive). Returns an error
+ * message, or null when the period is fine.
+ */
+export function validatePayrollPeriod(periodStart: string, periodEnd: string): string | null {
+  const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+  if (!datePattern.test(periodStart) || !datePattern.test(periodEnd)) {
+    return "Start and end dates are required";
+  }
+
+  const { from, to } = getPeriodRange(periodStart, periodEnd);
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+    return "Start and end dates are required";
+  }
+  if (to <= from) {
+    return "The period can't end before it starts";
+  }
+  if ((to.getTime() - from.getTime()) / dayMs > MAX_PAYROLL_PERIOD_DAYS) {
+    return `A pay period can't be longer than ${MAX_PAYROLL_PERIOD_DAYS} days`;
+  }
+  return null;
+}
+
+/**
+ * The instants a pay period covers: from the start of its first day to the
+ * start of the day after its last (UTC)
+ */
+export function getPeriodRange(periodStart: string, periodEnd: string): { from: Date; to: Date } {
+  const from = new Date(`${periodStart}T00:00:00Z`);
+  const to = new Date(new Date(`${periodEnd}T00:00:00Z`).getTime() + dayMs);
+  return { from, to };
+}
+
+/**
+ * A pay period for display, e.g. "Jun 1, 2025 – Jun 15, 2025"
+ */
+export function formatPayrollPeriod(run: Pick<PayrollRun, 'period_start' | 'period_end'>): string {
+  const format = (date: string) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      timeZone: 'UTC'
+    });
+  return `${format(run.period_start)} – ${format(run.period_end)}`;
+}
+
+/**
+ * Whether two pay periods share any day
+ */
+export function periodsOverlap(
+  a: Pick<PayrollRun, 'period_start' | 'period_end'>,
+  b: Pick<PayrollRun, 'period_start' | 'period_end'>
+): boolean {
+  return a.period_start <= b.period_end && b.period_start <= a.period_end;
+}
+
+/**
+ * Work out the pay lines for a period from the assignments worked in it, and
+ * the cancellation fees owed and expense claims approved in it.
+ *
+ * - Hours come from the approved timesheet, or the scheduled shift length
+ *   when the timesheet isn't approved yet. Assignments whose timesheet was
+ *   rejected, and shifts that haven't ended by `now`, aren't paid.
+ * - Roles without pay still get a $0 line so they can be fixed or adjusted.
+ * - Travel pay is paid once per employee per job.
+ */
+export function buildPayrollLines(
+  assignments: PayrollAssignmentSource[],
+  cancellationFees: PayrollCancellationFeeSource[],
+  expenseClaims: PayrollExpenseClaimSource[],
+  now: Date = new Date()
+): PayrollLineDraft[] {
+  const lines: PayrollLineDraft[] = [];
+  const travelPaid = new Set<string>();
+
+  const sorted = [...assignments].sort(
+    (a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime()
+  );
+
+  for (const assignment of sorted) {
+    if (new Date(assignment.end_time) > now) continue;
+    if (assignment.timesheet?.status === 'rejected') continue;
+
+    const approvedHours = assignment.timesheet ? getPayableHours(assignment.timesheet) : null;
+    const hours = approvedHours ?? getShiftHours(assignment.start_time, assignment.end_time);
+    const hoursSource = approvedHours !== null ? 'approved' : 'scheduled';
+    const workDate = assignment.start_time.slice(0, 10);
+    const roleName = assignment.role_name || 'Crew';
+    const label = `${assignment.job_title} – ${roleName}`;
+
+    const base = {
+      user_id: assignment.user_id,
+      job_id: assignment.job_id,
+      job_assignment_id: assignment.assignment_id,
+      work_date: workDate,
+    };
+
+    const earnings = assignment.compensation
+      ? calculateExpectedEarnings(assignment.compensation, hours)
+      : null;
+
+    if (!earnings) {
+      lines.push({
+        ...base,
+        line_type: 'role_pay',
+        description: `${label} (pay not set)`,
+        hours: roundHours(hours),
+        rate: null,
+        amount: 0,
+        hours_source: hoursSource,
+        expense_claim_id: null,
+      });
+    } else {
+      const isHourly = assignment.compensation!.pay_type === 'hourly';
+      const rate = Number(assignment.compensation!.pay_rate);
+
+      lines.push({
+        ...base,
+        line_type: 'role_pay',
+        description: label,
+        hours: isHourly ? earnings.regular_hours : roundHours(hours),
+        rate: isHourly ? rate : null,
+        amount: earnings.base_pay,
+        hours_source: hoursSource,
+        expense_claim_id: null,
+      });
+
+      if (earnings.overtime_pay > 0) {
+        lines.push({
+          ...base,
+          line_type: 'overtime',
+          description: `${label} overtime`,
+          hours: earnings.overtime_hours,
+          rate: roundMoney(rate * Number(assignment.compensation!.overtime_multiplier)),
+          amount: earnings.overtime_pay,
+          hours_source: null,
+          expense_claim_id: null,
+        });
+      }
+
+      if (earnings.bonus > 0) {
+        lines.push({
+          ...base,
+          line_type: 'bonus',
+          description: `${label} bonus`,
+          hours: null,
+          rate: null,
+          amount: earnings.bonus,
+          hours_source: null,
+          expense_claim_id: null,
+        });
+      }
+    }
+
+    const travelKey = `${assignment.user_id}:${assignment.job_id}`;
+    if (Number(assignment.travel_pay_amount) > 0 && !travelPaid.has(travelKey)) {
+      travelPaid.add(travelKey);
+      lines.push({
+        ...base,
+        job_assignment_id: null,
+        line_type: 'travel_pay',
+        description: `${assignment.job_title} travel pay`,
+        hours: null,
+        rate: null,
+        amount: roundMoney(Number(assignment.travel_pay_amount)),
+        hours_source: null,
+        expense_claim_id: null,
+      });
+    }
+  }
+
+  for (const fee of cancellationFees) {
+    if (!(Number(fee.amount) > 0)) continue;
+    lines.push({
+      user_id: fee.user_id,
+      job_id: fee.job_id,
+      job_assignment_id: null,
+      work_date: fee.created_at.slice(0, 10),
+      line_type: 'cancellation_fee',
+      description: `${fee.job_title} cancellation fee${fee.role_name ? ` (${fee.role_name})` : ''}`,
+      hours: null,
+      rate: null,
+      amount: roundMoney(Number(fee.amount)),
+      hours_source: null,
+      expense_claim_id: null,
+    });
+  }
+
+  for (const claim of expenseClaims) {
+    if (!(Number(claim.amount) > 0)) continue;
+    lines.push({
+      user_id: claim.user_id,
+      job_id: claim.job_id,
+      job_assignment_id: claim.job_assignment_id,
+      work_date: claim.incurred_on,
+      line_type: 'expense',
+      description: `${claim.job_title} – ${claim.description}`,
+      hours: null,
+      rate: null,
+      amount: roundMoney(Number(claim.amount)),
+      hours_source: null,
+      expense_claim_id: claim.claim_id,
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Total each employee's lines, in the order employees first appear
+ */
+export function summarizePayrollLines(
+  lines: Pick<PayrollRunLine, 'user_id' | 'line_type' | 'hours' | 'amount'>[]
+): PayrollEmployeeTotals[] {
+  const totals = new Map<string, PayrollEmployeeTotals>();
+
+  for (const line of lines) {
+    let employee = totals.get(line.user_id);
+    if (!employee) {
+      employee = {
+        user_id: line.user_id,
+        regular_hours: 0,
+        overtime_hours: 0,
+        role_pay: 0,
+        overtime_pay: 0,
+        bonus: 0,
+        travel_pay: 0,
+        cancellation_fees: 0,
+        expenses: 0,
+        adjustments: 0,
+        total: 0,
+      };
+      totals.set(line.user_id, employee);
+    }
+
+    const amount = Number(line.amount);
+    const hours = Number(line.hours || 0);
+
+    switch (line.line_type) {
+      case 'role_pay':
+        employee.regular_hours += hours;
+        employee.role_pay += amount;
+        break;
+      case 'overtime':
+        employee.overtime_hours += hours;
+        employee.overtime_pay += amount;
+        break;
+      case 'bonus':
+        employee.bonus += amount;
+        break;
+      case 'travel_pay':
+        employee.travel_pay += amount;
+        break;
+      case 'cancellation_fee':
+        employee.cancellation_fees += amount;
+        break;
+      case 'expense':
+        employee.expenses += amount;
+        break;
+      case 'adjustment':
+        employee.adjustments += amount;
+        break;
+    }
+    employee.total += amount;
+  }
+
+  return Array.from(totals.values()).map(employee => ({
+    ...employee,
+    regular_hours: roundHours(employee.regular_hours),
+    overtime_hours: roundHours(employee.overtime_hours),
+    role_pay: roundMoney(employee.role_pay),
+    overtime_pay: roundMoney(employee.overtime_pay),
+    bonus: roundMoney(employee.bonus),
+    travel_pay: roundMoney(employee.travel_pay),
+    cancellation_fees: roundMoney(employee.cancellation_fees),
+    expenses: roundMoney(employee.expenses),
+    adjustments: roundMoney(employee.adjustments),
+    total: roundMoney(employee.total),
+  }));
+}
+
+/**
+ * Split a full name into first and last name. Everything before the last
+ * word is the first name.
+ */
+export function splitName(fullName: string | null | undefined): { first_name: string; last_name: string } {
+  const parts = (fullName || '').trim().split(/\s+/).filter(Boolean);
+  if (parts.length <= 1) {
+    return { first_name: parts[0] || '', last_name: '' };
+  }
+  return { first_name: parts.slice(0, -1).join(' '), last_name: parts[parts.length - 1] };
+}
+
+const formatMoney = (value: number) => roundMoney(value).toFixed(2);
+const formatHours = (value: number) => String(roundHours(value));
+
+/**
+ * Lay out a run's totals for a payroll provider.
+ *
+ * - Gusto: one row per employee with hours, earnings, bonus, reimbursement
+ *   and correction payment columns
+ * - QuickBooks: one row per employee per pay item
+ * - ADP: a paydata batch with one row per employee, extra earnings in
+ *   coded columns
+ *
+ * Cancellation fees are paid as bonus in the Gusto and ADP layouts, travel pay
+ * and expense claims as a reimbursement, and adjustments as a correction.
+ */
+export function buildPayrollExport(
+  format: PayrollExportFormat,
+  run: Pick<PayrollRun, 'id' | 'period_start' | 'period_end'>,
+  lines: Pick<PayrollRunLine, 'user_id' | 'line_type' | 'hours' | 'amount'>[],
+  employees: PayrollEmployee[]
+): PayrollExportTable {
+  const employeesById = new Map(employees.map(employee => [employee.id, employee]));
+  const totals = summarizePayrollLines(lines).sort((a, b) =>
+    (employeesById.get(a.user_id)?.full_name || '').localeCompare(employeesById.get(b.user_id)?.full_name || '')
+  );
+
+  switch (format) {
+    case 'gusto': {
+      const columns = [
+        'last_name', 'first_name', 'email', 'regular_hours', 'overtime_hours',
+        'regular_earnings', 'overtime_earnings', 'bonus', 'reimbursement', 'correction_payment', 'total'
+      ];
+      const rows = totals.map(total => {
+        const employee = employeesById.get(total.user_id);
+        const { first_name, last_name } = splitName(employee?.full_name);
+        return {
+          last_name,
+          first_name,
+          email: employee?.email || '',
+          regular_hours: formatHours(total.regular_hours),
+          overtime_hours: formatHours(total.overtime_hours),
+          regular_earnings: formatMoney(total.role_pay),
+          overtime_earnings: formatMoney(total.overtime_pay),
+          bonus: formatMoney(total.bonus + total.cancellation_fees),
+          reimbursement: formatMoney(total.travel_pay + total.expenses),
+          correction_payment: formatMoney(total.adjustments),
+          total: formatMoney(total.total),
+        };
+      });
+      return { columns, rows };
+    }
+
+    case 'quickbooks': {
+      const columns = ['Employee', 'Pay Period Start', 'Pay Period End', 'Pay Item', 'Hours', 'Amount'];
+      const payItems: { key: keyof PayrollEmployeeTotals; name: string; hours?: keyof PayrollEmployeeTotals }[] = [
+        { key: 'role_pay', name: 'Regular Pay', hours: 'regular_hours' },
+        { key: 'overtime_pay', name: 'Overtime Pay', hours: 'overtime_hours' },
+        { key: 'bonus', name: 'Bonus' },
+        { key: 'cancellation_fees', name: 'Cancellation Fee' },
+        { key: 'travel_pay', name: 'Travel Reimbursement' },
+        { key: 'expenses', name: 'Expense Reimbursement' },
+        { key: 'adjustments', name: 'Adjustment' },
+      ];
+      const rows: Record<string, string>[] = [];
+      for (const total of totals) {
+        const employee = employeesById.get(total.user_id);
+        for (const item of payItems) {
+          const amount = Number(total[item.key]);
+          if (amount === 0) continue;
+          rows.push({
+            'Employee': employee?.full_name || employee?.email || total.user_id,
+            'Pay Period Start': run.period_start,
+            'Pay Period End': run.period_end,
+            'Pay Item': item.name,
+            'Hours': item.hours ? formatHours(Number(total[item.hours])) : '',
+            'Amount': formatMoney(amount),
+          });
+        }
+      }
+      return { columns, rows };
+    }
+
+    case 'adp': {
+      const columns = [
+        'Co Code', 'Batch ID', 'File #', 'Employee Name', 'Reg Hours', 'O/T Hours', 'Reg Earnings', 'O/T Earnings',
+        'Earnings 3 Code', 'Earnings 3 Amount', 'Earnings 4 Code', 'Earnings 4 Amount', 'Earnings 5 Code', 'Earnings 5 Amount'
+      ];
+      const batchId = `WP${run.period_end.replace(/-/g, '')}`;
+      const rows = totals.map(total => {
+        const employee = employeesById.get(total.user_id);
+        const { first_name, last_name } = splitName(employee?.full_name);
+        const bonus = total.bonus + total.cancellation_fees;
+        const reimbursement = total.travel_pay + total.expenses;
+        return {
+          'Co Code': '',
+          'Batch ID': batchId,
+          'File #': '',
+          'Employee Name': last_name ? `${last_name}, ${first_name}` : first_name,
+          'Reg Hours': formatHours(total.regular_hours),
+          'O/T Hours': formatHours(total.overtime_hours),
+          'Reg Earnings': formatMoney(total.role_pay),
+          'O/T Earnings': formatMoney(total.overtime_pay),
+          'Earnings 3 Code': bonus !== 0 ? 'B' : '',
+          'Earnings 3 Amount': bonus !== 0 ? formatMoney(bonus) : '',
+          'Earnings 4 Code': reimbursement !== 0 ? 'R' : '',
+          'Earnings 4 Amount': reimbursement !== 0 ? formatMoney(reimbursement) : '',
+          'Earnings 5 Code': total.adjustments !== 0 ? 'A' : '',
+          'Earnings 5 Amount': total.adjustments !== 0 ? formatMoney(total.adjustments) : '',
+        };
+      });
+      return { columns, rows };
+    }
+  }
+}
@@ -0,0 +1,153 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { periodsOverlap, validatePayrollPeriod } from "./client-utils";
+import { checkPayrollPermission, rebuildPayrollRunLines, updatePayrollRunTotal } from "./utils";
+import type { PayrollRun } from "./types";
+
+const payrollPath = "/dashboard/admin/payroll";
+
+/**
+ * Create a draft payroll run for a pay period and build its lines from the
+ * jobs worked in it. Periods can't overlap another run, so nothing is paid
+ * twice.
+ */
+export async function createPayrollRun(formData: FormData) {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, user, profile, error: permError } = await checkPayrollPermission();
+  if (!authorized || !user || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  const periodStart = formData.get("period_start")?.toString() || "";
+  const periodEnd = formData.get("period_end")?.toString() || "";
+  const notes = formData.get("notes")?.toString().trim() || null;
+
+  const periodError = validatePayrollPeriod(periodStart, periodEnd);
+  if (periodError) {
+    return encodedRedirect("error", payrollPath, periodError);
+  }
+
+  const { data: existingRuns, error: existingError } = await supabase
+    .from('payroll_runs')
+    .select('id, period_start, period_end')
+    .eq('org_id', profile.org_id);
+
+  if (existingError) {
+    console.error("Error checking payroll runs:", existingError);
+    return encodedRedirect("error", payrollPath, "Failed to check existing payroll runs");
+  }
+
+  const overlapping = ((existingRuns || []) as Pick<PayrollRun, 'id' | 'period_start' | 'period_end'>[])
+    .find(run => periodsOverlap(run, { period_start: periodStart, period_end: periodEnd }));
+  if (overlapping) {
+    return encodedRedirect(
+      "error",
+      payrollPath,
+      `This period overlaps the payroll run for ${overlapping.period_start} to ${overlapping.period_end}`
+    );
+  }
+
+  const { data: run, error } = await supabase
+    .from('payroll_runs')
+    .insert([
+      {
+        org_id: profile.org_id,
+        period_start: periodStart,
+        period_end: periodEnd,
+        notes,
+        created_by_user_id: user.id
+      }
+    ])
+    .select('*')
+    .single();
+
+  if (error || !run) {
+    console.error("Error creating payroll run:", error);
+    return encodedRedirect("error", payrollPath, error?.message || "Failed to create payroll run");
+  }
+
+  const { error: buildError } = await rebuildPayrollRunLines(supabase, run);
+  if (buildError) {
+    return encodedRedirect("error", `${payrollPath}/${run.id}`, buildError);
+  }
+
+  revalidatePath(payrollPath);
+  return encodedRedirect("success", `${payrollPath}/${run.id}`, "Payroll run created");
+}
+
+/**
+ * Add a manual adjustment to a draft run, e.g. a reimbursement or a
+ * correction. Negative amounts are deductions.
+ */
+export async function addPayrollAdjustment(runId: string, formData: FormData) {
+  const supabase = await createClient();
+  const runPath = `${payrollPath}/${runId}`;
+
+  // Check permissions
+  const { authorized, user, profile, error: permError } = await checkPayrollPermission();
+  if (!authorized || !user || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  const employeeId = formData.get("user_id")?.toString();
+  const description = formData.get("description")?.toString().trim();
+  const amount = Number(formData.get("amount")?.toString());
+
+  if (!employeeId) {
+    return encodedRedirect("error", runPath, "Employee is required");
+  }
+  if (!description) {
+    return encodedRedirect("error", runPath, "Description is required");
+  }
+  if (!Number.isFinite(amount) || amount === 0) {
+    return encodedRedirect("error", runPath, "Amount must be a non-zero amount");
+  }
+
+  const { data: run, error: runError } = await supabase
+    .from('payroll_runs')
+    .select('id, status')
+    .eq('id', runId)
+    .eq('org_id', profile.org_id)
+    .single();
+
+  if (runError || !run) {
+    return encodedRedirect("error", payrollPath, "Payroll run not found");
+  }
+
+  if (run.status === 'approved') {
+    return encodedRedirect("error", runPath, "Approved payroll runs can't be changed");
+  }
+
+  const { error } = await supabase
+    .from('payroll_run_lines')
+    .insert([
+      {
+        payroll_run_id: runId,
+        org_id: profile.org_id,
+        user_id: employeeId,
+        line_type: 'adjustment',
+        description,
+        amount: Math.round(amount * 100) / 100,
+        created_by_user_id: user.id
+      }
+    ]);
+
+  if (error) {
+    console.error("Error adding payroll adjustment:", error);
+    return encodedRedirect("error", runPath, error.message);
+  }
+
+  const { error: totalError } = await updatePayrollRunTotal(supabase, runId);
+  if (totalError) {
+    return encodedRedirect("error", runPath, totalError);
+  }
+
+  revalidatePath(runPath);
+  revalidatePath(payrollPath);
+  return encodedRedirect("success", runPath, "Adjustment added");
+}
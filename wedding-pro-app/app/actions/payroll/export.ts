@@ -0,0 +1,44 @@
+"use server";
+
+import { convertTableToCSV } from "../csv-export/utils";
+import { buildPayrollExport, PAYROLL_EXPORT_FORMAT_LABELS } from "./client-utils";
+import { getPayrollRun } from "./fetch";
+import type { PayrollExportFormat } from "./types";
+
+/**
+ * Export an approved payroll run as CSV in a payroll provider's layout.
+ * Drafts can't be exported, so what's imported always matches the locked run.
+ */
+export async function exportPayrollRun(
+  runId: string,
+  format: PayrollExportFormat
+): Promise<{ success: boolean; data?: string; filename?: string; error?: string }> {
+  try {
+    if (!(format in PAYROLL_EXPORT_FORMAT_LABELS)) {
+      return { success: false, error: "Invalid export format" };
+    }
+
+    const { data: run, error } = await getPayrollRun(runId);
+    if (error || !run) {
+      return { success: false, error: error || "Payroll run not found" };
+    }
+
+    if (run.status !== 'approved') {
+      return { success: false, error: "Approve the payroll run before exporting it" };
+    }
+
+    const { columns, rows } = buildPayrollExport(format, run, run.lines, run.employees);
+
+    return {
+      success: true,
+      data: convertTableToCSV(columns, rows),
+      filename: `payroll-${format}-${run.period_start}-to-${run.period_end}.csv`
+    };
+  } catch (error: any) {
+    console.error("Error exporting payroll run:", error);
+    return {
+      success: false,
+      error: error.message || "An error occurred while exporting payroll"
+    };
+  }
+}
@@ -0,0 +1,118 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { checkPayrollPermission } from "./utils";
+import type { PayrollEmployee, PayrollRun, PayrollRunLine, PayrollRunWithLines } from "./types";
+
+/**
+ * Get the org's payroll runs, newest period first (admins only)
+ */
+export async function getPayrollRuns(): Promise<{ data?: PayrollRun[]; error?: string }> {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkPayrollPermission();
+  if (!authorized || !profile) {
+    return { error: permError || "Unauthorized" };
+  }
+
+  const { data, error } = await supabase
+    .from('payroll_runs')
+    .select('*')
+    .eq('org_id', profile.org_id)
+    .order('period_start', { ascending: false });
+
+  if (error) {
+    console.error("Error fetching payroll runs:", error);
+    return { error: "Failed to fetch payroll runs" };
+  }
+
+  return { data: (data || []) as PayrollRun[] };
+}
+
+/**
+ * Get a payroll run with its lines and the employees on them (admins only)
+ */
+export async function getPayrollRun(runId: string): Promise<{ data?: PayrollRunWithLines; error?: string }> {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkPayrollPermission();
+  if (!authorized || !profile) {
+    return { error: permError || "Unauthorized" };
+  }
+
+  const { data: run, error: runError } = await supabase
+    .from('payroll_runs')
+    .select('*')
+    .eq('id', runId)
+    .eq('org_id', profile.org_id)
+    .single();
+
+  if (runError || !run) {
+    return { error: "Payroll run not found" };
+  }
+
+  const { data: lines, error: linesError } = await supabase
+    .from('payroll_run_lines')
+    .select('*')
+    .eq('payroll_run_id', runId)
+    .order('work_date', { ascending: true, nullsFirst: false })
+    .order('created_at', { ascending: true });
+
+  if (linesError) {
+    console.error("Error fetching payroll run lines:", linesError);
+    return { error: "Failed to fetch payroll run lines" };
+  }
+
+  const userIds = Array.from(new Set<string>((lines || []).map(line => line.user_id)));
+  let employees: PayrollEmployee[] = [];
+
+  if (userIds.length > 0) {
+    const { data: profiles, error: profilesError } = await supabase
+      .from('profiles')
+      .select('id, full_name, email')
+      .in('id', userIds);
+
+    if (profilesError) {
+      console.error("Error fetching payroll employees:", profilesError);
+      return { error: "Failed to fetch employees" };
+    }
+
+    employees = (profiles || []) as PayrollEmployee[];
+  }
+
+  return {
+    data: {
+      ...(run as PayrollRun),
+      lines: (lines || []) as PayrollRunLine[],
+      employees,
+    },
+  };
+}
+
+/**
+ * Get the org's staff, for choosing who an adjustment is for (admins only)
+ */
+export async function getPayrollEmployees(): Promise<{ data?: PayrollEmployee[]; error?: string }> {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkPayrollPermission();
+  if (!authorized || !profile) {
+    return { error: permError || "Unauthorized" };
+  }
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, full_name, email')
+    .eq('org_id', profile.org_id)
+    .order('full_name', { ascending: true });
+
+  if (error) {
+    console.error("Error fetching employees:", error);
+    return { error: "Failed to fetch employees" };
+  }
+
+  return { data: (data || []) as PayrollEmployee[] };
+}
@@ -0,0 +1,11 @@
+"use server";
+
+// This file re-exports all public actions and types related to payroll runs.
+
+export { createPayrollRun, addPayrollAdjustment } from './create';
+export { getPayrollRuns, getPayrollRun, getPayrollEmployees } from './fetch';
+export { regeneratePayrollRun, approvePayrollRun, removePayrollAdjustment, deletePayrollRun } from './update';
+export { exportPayrollRun } from './export';
+
+// Re-export all types from the dedicated types module
+export * from './types';
@@ -0,0 +1,158 @@
+import type { RoleCompensation } from "../role-compensation/types";
+import type { Timesheet } from "../timesheets/types";
+
+/**
+ * Where a payroll run is in its life. Approved runs are locked.
+ */
+export type PayrollRunStatus = 'draft' | 'approved';
+
+/**
+ * What a payroll line pays for
+ */
+export type PayrollLineType =
+  | 'role_pay'          // A role's base pay for a shift
+  | 'overtime'
+  | 'bonus'             // The role's bonus
+  | 'travel_pay'        // A job's travel pay, once per employee per job
+  | 'cancellation_fee'  // A late-cancellation fee
+  | 'expense'           // An approved expense claim, reimbursed
+  | 'adjustment';       // Added by hand; can be negative
+
+/**
+ * Payroll provider layouts a run can be exported in
+ */
+export type PayrollExportFormat = 'gusto' | 'quickbooks' | 'adp';
+
+/**
+ * A payroll run for one pay period
+ */
+export type PayrollRun = {
+  id: string;
+  org_id: string;
+  period_start: string; // YYYY-MM-DD
+  period_end: string; // YYYY-MM-DD, inclusive
+  status: PayrollRunStatus;
+  total_amount: number;
+  notes: string | null;
+  created_by_user_id: string | null;
+  approved_by_user_id: string | null;
+  approved_at: string | null;
+  generated_at: string; // When the lines were last built from the jobs
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * One thing an employee is paid for in a run
+ */
+export type PayrollRunLine = {
+  id: string;
+  payroll_run_id: string;
+  org_id: string;
+  user_id: string;
+  line_type: PayrollLineType;
+  job_id: string | null;
+  job_assignment_id: string | null;
+  description: string;
+  work_date: string | null;
+  hours: number | null;
+  rate: number | null;
+  amount: number;
+  hours_source: 'approved' | 'scheduled' | null; // Role pay lines only
+  expense_claim_id: string | null; // Expense lines only
+  created_by_user_id: string | null; // Adjustments only
+  created_at: string;
+};
+
+/**
+ * A line worked out from the jobs, before it is saved to a run
+ */
+export type PayrollLineDraft = Omit<
+  PayrollRunLine,
+  'id' | 'payroll_run_id' | 'org_id' | 'created_by_user_id' | 'created_at'
+>;
+
+/**
+ * An assignment worked in the pay period, with what's needed to pay it
+ */
+export type PayrollAssignmentSource = {
+  assignment_id: string;
+  user_id: string;
+  job_id: string;
+  job_title: string;
+  role_name: string | null;
+  compensation: RoleCompensation | null; // Null for assignments without a role
+  start_time: string; // The shift's, or the job's
+  end_time: string;
+  timesheet: Pick<Timesheet, 'status' | 'approved_hours'> | null;
+  travel_pay_amount: number | null; // Null when the job doesn't offer travel pay
+};
+
+/**
+ * A cancellation fee owed in the pay period
+ */
+export type PayrollCancellationFeeSource = {
+  job_id: string;
+  job_title: string;
+  user_id: string;
+  role_name: string | null;
+  amount: number;
+  created_at: string;
+};
+
+/**
+ * An expense claim approved in the pay period
+ */
+export type PayrollExpenseClaimSource = {
+  claim_id: string;
+  job_id: string;
+  job_title: string;
+  job_assignment_id: string;
+  user_id: string;
+  description: string; // e.g. "Parking: Hotel garage"
+  incurred_on: string;
+  amount: number;
+};
+
+/**
+ * An employee's totals for a run
+ */
+export type PayrollEmployeeTotals = {
+  user_id: string;
+  regular_hours: number;
+  overtime_hours: number;
+  role_pay: number;
+  overtime_pay: number;
+  bonus: number;
+  travel_pay: number;
+  cancellation_fees: number;
+  expenses: number;
+  adjustments: number;
+  total: number;
+};
+
+/**
+ * The name and email an export needs for an employee
+ */
+export type PayrollEmployee = {
+  id: string;
+  full_name: string | null;
+  email: string | null;
+};
+
+/**
+ * A run with its lines and the employees on them
+ */
+export type PayrollRunWithLines = PayrollRun & {
+  lines: PayrollRunLine[];
+  employees: PayrollEmployee[];
+};
+
+/**
+ * A run laid out for a payroll provider: the header row and one object per
+ * CSV row, keyed by header
+ */
+export type PayrollExportTable = {
+  columns: string[];
+  rows: Record<string, string>[];
+};
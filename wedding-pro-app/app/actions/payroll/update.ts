@@ -0,0 +1,155 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { checkPayrollPermission, rebuildPayrollRunLines, updatePayrollRunTotal } from "./utils";
+import type { PayrollRun } from "./types";
+
+const payrollPath = "/dashboard/admin/payroll";
+
+/**
+ * Fetch one of the org's runs for a change, refusing approved runs
+ */
+async function getDraftRun(runId: string) {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, user, profile, error: permError } = await checkPayrollPermission();
+  if (!authorized || !user || !profile) {
+    return { supabase, error: permError || "Unauthorized" };
+  }
+
+  const { data: run, error } = await supabase
+    .from('payroll_runs')
+    .select('*')
+    .eq('id', runId)
+    .eq('org_id', profile.org_id)
+    .single();
+
+  if (error || !run) {
+    return { supabase, error: "Payroll run not found" };
+  }
+
+  if (run.status === 'approved') {
+    return { supabase, error: "Approved payroll runs can't be changed" };
+  }
+
+  return { supabase, user, run: run as PayrollRun };
+}
+
+/**
+ * Rebuild a draft run from the jobs, picking up timesheets approved and pay
+ * changed since it was created. Adjustments are kept.
+ */
+export async function regeneratePayrollRun(runId: string) {
+  const runPath = `${payrollPath}/${runId}`;
+
+  const { supabase, run, error } = await getDraftRun(runId);
+  if (error || !run) {
+    return encodedRedirect("error", runPath, error || "Payroll run not found");
+  }
+
+  const { error: buildError } = await rebuildPayrollRunLines(supabase, run);
+  if (buildError) {
+    return encodedRedirect("error", runPath, buildError);
+  }
+
+  revalidatePath(runPath);
+  revalidatePath(payrollPath);
+  return encodedRedirect("success", runPath, "Payroll run rebuilt");
+}
+
+/**
+ * Approve a draft run. Approved runs are locked: their lines can't be
+ * rebuilt, adjusted or deleted.
+ */
+export async function approvePayrollRun(runId: string) {
+  const runPath = `${payrollPath}/${runId}`;
+
+  const { supabase, user, run, error } = await getDraftRun(runId);
+  if (error || !run || !user) {
+    return encodedRedirect("error", runPath, error || "Payroll run not found");
+  }
+
+  const { error: approveError } = await supabase
+    .from('payroll_runs')
+    .update({
+      status: 'approved',
+      approved_by_user_id: user.id,
+      approved_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', runId)
+    .eq('status', 'draft');
+
+  if (approveError) {
+    console.error("Error approving payroll run:", approveError);
+    return encodedRedirect("error", runPath, approveError.message);
+  }
+
+  revalidatePath(runPath);
+  revalidatePath(payrollPath);
+  return encodedRedirect("success", runPath, "Payroll run approved and locked");
+}
+
+/**
+ * Remove a manual adjustment from a draft run
+ */
+export async function removePayrollAdjustment(runId: string, formData: FormData) {
+  const runPath = `${payrollPath}/${runId}`;
+  const lineId = formData.get("lineId")?.toString();
+
+  if (!lineId) {
+    return encodedRedirect("error", runPath, "Adjustment is required");
+  }
+
+  const { supabase, error } = await getDraftRun(runId);
+  if (error) {
+    return encodedRedirect("error", runPath, error);
+  }
+
+  const { error: deleteError } = await supabase
+    .from('payroll_run_lines')
+    .delete()
+    .eq('id', lineId)
+    .eq('payroll_run_id', runId)
+    .eq('line_type', 'adjustment');
+
+  if (deleteError) {
+    console.error("Error removing payroll adjustment:", deleteError);
+    return encodedRedirect("error", runPath, deleteError.message);
+  }
+
+  const { error: totalError } = await updatePayrollRunTotal(supabase, runId);
+  if (totalError) {
+    return encodedRedirect("error", runPath, totalError);
+  }
+
+  revalidatePath(runPath);
+  revalidatePath(payrollPath);
+  return encodedRedirect("success", runPath, "Adjustment removed");
+}
+
+/**
+ * Delete a draft run and its lines
+ */
+export async function deletePayrollRun(runId: string) {
+  const { supabase, error } = await getDraftRun(runId);
+  if (error) {
+    return encodedRedirect("error", `${payrollPath}/${runId}`, error);
+  }
+
+  const { error: deleteError } = await supabase
+    .from('payroll_runs')
+    .delete()
+    .eq('id', runId);
+
+  if (deleteError) {
+    console.error("Error deleting payroll run:", deleteError);
+    return encodedRedirect("error", `${payrollPath}/${runId}`, deleteError.message);
+  }
+
+  revalidatePath(payrollPath);
+  return encodedRedirect("success", payrollPath, "Payroll run deleted");
+}
@@ -0,0 +1,259 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { getCurrentUserProfile, isAdmin } from "@/utils/supabase/auth-helpers";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { buildPayrollLines, getPeriodRange } from "./client-utils";
+import { describeExpenseClaim } from "../expense-claims/client-utils";
+import type {
+  PayrollAssignmentSource,
+  PayrollCancellationFeeSource,
+  PayrollExpenseClaimSource,
+  PayrollRun
+} from "./types";
+
+/**
+ * Check if the current user can run payroll (admins only)
+ */
+export async function checkPayrollPermission() {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { authorized: false, error: "You must be logged in" };
+  }
+
+  const hasAccess = await isAdmin();
+  if (!hasAccess) {
+    return { authorized: false, user, error: "Only admins can run payroll" };
+  }
+
+  const profile = await getCurrentUserProfile();
+  if (!profile || !profile.org_id) {
+    return { authorized: false, user, error: "Admin profile not found" };
+  }
+
+  return { authorized: true, user, profile };
+}
+
+function unwrap<T>(value: T | T[] | null | undefined): T | null {
+  return (Array.isArray(value) ? value[0] : value) ?? null;
+}
+
+/**
+ * Gather what the org owes for a pay period: the assignments whose shift
+ * started in it, with their role pay, timesheet and the job's travel pay,
+ * the cancellation fees recorded in it and the expense claims approved in it
+ */
+export async function getPayrollSourceData(
+  supabase: SupabaseClient,
+  orgId: string,
+  periodStart: string,
+  periodEnd: string
+): Promise<{
+  assignments?: PayrollAssignmentSource[];
+  cancellationFees?: PayrollCancellationFeeSource[];
+  expenseClaims?: PayrollExpenseClaimSource[];
+  error?: string;
+}> {
+  const { from, to } = getPeriodRange(periodStart, periodEnd);
+
+  // Jobs overlapping the period are the candidates; shifts are matched below
+  const { data: assignmentRows, error: assignmentsError } = await supabase
+    .from('job_assignments')
+    .select(`
+      id,
+      user_id,
+      job_id,
+      job:job_id!inner (
+        id, title, start_time, end_time, status, org_id, travel_pay_offered, travel_pay_amount
+      ),
+      shift:shift_id (
+        start_time, end_time
+      ),
+      job_required_role:job_required_role_id (
+        role_name, pay_type, pay_rate, min_hours, overtime_after_hours, overtime_multiplier, bonus_amount
+      ),
+      timesheet:timesheets (
+        status, approved_hours
+      )
+    `)
+    .eq('job.org_id', orgId)
+    .neq('status', 'declined')
+    .not('job.status', 'in', '(draft,cancelled)')
+    .lt('job.start_time', to.toISOString())
+    .gte('job.end_time', from.toISOString());
+
+  if (assignmentsError) {
+    console.error("Error fetching assignments for payroll:", assignmentsError);
+    return { error: "Failed to fetch the period's assignments" };
+  }
+
+  const assignments: PayrollAssignmentSource[] = [];
+  for (const row of (assignmentRows || []) as any[]) {
+    const job = unwrap<any>(row.job);
+    const shift = unwrap<any>(row.shift);
+    const role = unwrap<any>(row.job_required_role);
+    const startTime: string = shift?.start_time || job.start_time;
+    const startsAt = new Date(startTime);
+
+    if (startsAt < from || startsAt >= to) continue;
+
+    assignments.push({
+      assignment_id: row.id,
+      user_id: row.user_id,
+      job_id: row.job_id,
+      job_title: job.title,
+      role_name: role?.role_name || null,
+      compensation: role
+        ? {
+            pay_type: role.pay_type,
+            pay_rate: role.pay_rate,
+            min_hours: role.min_hours,
+            overtime_after_hours: role.overtime_after_hours,
+            overtime_multiplier: role.overtime_multiplier,
+            bonus_amount: role.bonus_amount,
+          }
+        : null,
+      start_time: startTime,
+      end_time: shift?.end_time || job.end_time,
+      timesheet: unwrap<any>(row.timesheet),
+      travel_pay_amount: job.travel_pay_offered ? job.travel_pay_amount : null,
+    });
+  }
+
+  const { data: feeRows, error: feesError } = await supabase
+    .from('job_cancellation_fees')
+    .select(`
+      job_id, user_id, role_name, amount, created_at,
+      job:job_id (title)
+    `)
+    .eq('org_id', orgId)
+    .gte('created_at', from.toISOString())
+    .lt('created_at', to.toISOString());
+
+  if (feesError) {
+    console.error("Error fetching cancellation fees for payroll:", feesError);
+    return { error: "Failed to fetch the period's cancellation fees" };
+  }
+
+  const cancellationFees: PayrollCancellationFeeSource[] = ((feeRows || []) as any[]).map(fee => ({
+    job_id: fee.job_id,
+    job_title: unwrap<any>(fee.job)?.title || 'Cancelled job',
+    user_id: fee.user_id,
+    role_name: fee.role_name,
+    amount: fee.amount,
+    created_at: fee.created_at,
+  }));
+
+  const { data: claimRows, error: claimsError } = await supabase
+    .from('expense_claims')
+    .select(`
+      id, job_id, job_assignment_id, user_id, category, description, incurred_on, miles, mileage_rate, amount,
+      job:job_id (title)
+    `)
+    .eq('org_id', orgId)
+    .eq('status', 'approved')
+    .gte('reviewed_at', from.toISOString())
+    .lt('reviewed_at', to.toISOString());
+
+  if (claimsError) {
+    console.error("Error fetching expense claims for payroll:", claimsError);
+    return { error: "Failed to fetch the period's expense claims" };
+  }
+
+  const expenseClaims: PayrollExpenseClaimSource[] = ((claimRows || []) as any[]).map(claim => ({
+    claim_id: claim.id,
+    job_id: claim.job_id,
+    job_title: unwrap<any>(claim.job)?.title || 'Job',
+    job_assignment_id: claim.job_assignment_id,
+    user_id: claim.user_id,
+    description: describeExpenseClaim(claim),
+    incurred_on: claim.incurred_on,
+    amount: claim.amount,
+  }));
+
+  return { assignments, cancellationFees, expenseClaims };
+}
+
+/**
+ * Rebuild a draft run's lines from the jobs. Adjustments are kept; every
+ * other line is replaced. The run's total is updated to match.
+ */
+export async function rebuildPayrollRunLines(
+  supabase: SupabaseClient,
+  run: Pick<PayrollRun, 'id' | 'org_id' | 'period_start' | 'period_end'>
+): Promise<{ error?: string }> {
+  const { assignments, cancellationFees, expenseClaims, error: sourceError } = await getPayrollSourceData(
+    supabase,
+    run.org_id,
+    run.period_start,
+    run.period_end
+  );
+
+  if (sourceError || !assignments || !cancellationFees || !expenseClaims) {
+    return { error: sourceError || "Failed to gather payroll data" };
+  }
+
+  const { error: deleteError } = await supabase
+    .from('payroll_run_lines')
+    .delete()
+    .eq('payroll_run_id', run.id)
+    .neq('line_type', 'adjustment');
+
+  if (deleteError) {
+    console.error("Error clearing payroll run lines:", deleteError);
+    return { error: deleteError.message };
+  }
+
+  const lines = buildPayrollLines(assignments, cancellationFees, expenseClaims);
+  if (lines.length > 0) {
+    const { error: insertError } = await supabase
+      .from('payroll_run_lines')
+      .insert(lines.map(line => ({ ...line, payroll_run_id: run.id, org_id: run.org_id })));
+
+    if (insertError) {
+      console.error("Error saving payroll run lines:", insertError);
+      return { error: insertError.message };
+    }
+  }
+
+  return updatePayrollRunTotal(supabase, run.id, { generated_at: new Date().toISOString() });
+}
+
+/**
+ * Set a run's total to the sum of its lines
+ */
+export async function updatePayrollRunTotal(
+  supabase: SupabaseClient,
+  runId: string,
+  extra: Record<string, unknown> = {}
+): Promise<{ error?: string }> {
+  const { data: lines, error: linesError } = await supabase
+    .from('payroll_run_lines')
+    .select('amount')
+    .eq('payroll_run_id', runId);
+
+  if (linesError) {
+    console.error("Error totalling payroll run:", linesError);
+    return { error: linesError.message };
+  }
+
+  const total = (lines || []).reduce((sum, line) => sum + Number(line.amount), 0);
+
+  const { error } = await supabase
+    .from('payroll_runs')
+    .update({
+      ...extra,
+      total_amount: Math.round(total * 100) / 100,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', runId);
+
+  if (error) {
+    console.error("Error updating payroll run total:", error);
+    return { error: error.message };
+  }
+
+  return {};
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeCertificationExpiry,
+  getCertificationStatus,
+  getRoleEligibility,
+  parseCertificationNames,
+  validateRoleRequirement
+} from './client-utils';
+import type { EmployeeCertification, EmployeeRoleApproval, QualificationProfile, RoleRequirement } from './types';
+
+const droneRequirement: RoleRequirement = {
+  id: 'req-1',
+  org_id: 'org-1',
+  role_name: 'Drone Operator',
+  requires_approval: true,
+  min_skill_level: 'experienced',
+  required_certifications: ['FAA Part 107'],
+  created_by_user_id: null,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z'
+};
+
+function makeApproval(overrides: Partial<EmployeeRoleApproval> = {}): EmployeeRoleApproval {
+  return {
+    id: 'approval-1',
+    org_id: 'org-1',
+    user_id: 'user-1',
+    role_name: 'drone operator',
+    skill_level: 'experienced',
+    approved_by_user_id: null,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    ...overrides
+  };
+}
+
+function makeCertification(overrides: Partial<EmployeeCertification> = {}): EmployeeCertification {
+  return {
+    id: 'cert-1',
+    org_id: 'org-1',
+    user_id: 'user-1',
+    name: 'FAA Part 107',
+    certificate_number: null,
+    issued_on: '2024-01-01',
+    expires_on: '2026-01-01',
+    expiry_reminder_sent_at: null,
+    created_by_user_id: null,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    ...overrides
+  };
+}
+
+describe('qualifications client utils', () => {
+  describe('getRoleEligibility', () => {
+    const jobDate = '2025-06-21T16:00:00Z';
+
+    it('should leave roles without requirements open to everyone', () => {
+      expect(getRoleEligibility('Second Shooter', [droneRequirement], null, jobDate))
+        .toEqual({ eligible: true, reasons: [] });
+    });
+
+    it('should accept approved employees with a current certification, matching names ignoring case', () => {
+      const profile: QualificationProfile = {
+        approvals: [makeApproval()],
+        certifications: [makeCertification({ name: 'faa part 107' })]
+      };
+
+      expect(getRoleEligibility('Drone Operator', [droneRequirement], profile, jobDate).eligible).toBe(true);
+    });
+
+    it('should explain every missing qualification', () => {
+      expect(getRoleEligibility('Drone Operator', [droneRequirement], null, jobDate).reasons)
+        .toEqual(['Not approved for Drone Operator', 'Needs FAA Part 107']);
+
+      const profile: QualificationProfile = {
+        approvals: [makeApproval({ skill_level: 'trainee' })],
+        certifications: [makeCertification({ expires_on: '2025-06-20' })]
+      };
+      expect(getRoleEligibility('Drone Operator', [droneRequirement], profile, jobDate).reasons)
+        .toEqual(['Approved as Trainee; needs Experienced', 'FAA Part 107 expires before this job']);
+    });
+  });
+
+  describe('certification expiry', () => {
+    it('should flag certifications expiring within 30 days and those already expired', () => {
+      const today = new Date(2025, 5, 1);
+
+      expect(getCertificationStatus(makeCertification({ expires_on: null }), today)).toBe('valid');
+      expect(getCertificationStatus(makeCertification({ expires_on: '2025-08-01' }), today)).toBe('valid');
+      expect(getCertificationStatus(makeCertification({ expires_on: '2025-06-13' }), today)).toBe('expiring');
+      expect(getCertificationStatus(makeCertification({ expires_on: '2025-05-31' }), today)).toBe('expired');
+
+      expect(describeCertificationExpiry(makeCertification({ expires_on: '2025-06-13' }), today)).toBe('Expires in 12 days');
+      expect(describeCertificationExpiry(makeCertification({ expires_on: '2025-05-31' }), today)).toBe('Expired 1 day ago');
+    });
+  });
+
+  describe('requirement input', () => {
+    it('should parse certification lists and validate requirements', () => {
+      expect(parseCertificationNames('FAA Part 107, First Aid\nfaa part 107,,')).toEqual(['FAA Part 107', 'First Aid']);
+
+      const requirement = { role_name: 'Drone Operator', requires_approval: true, min_skill_level: null, required_certifications: [] };
+      expect(validateRoleRequirement(requirement)).toBeNull();
+      expect(validateRoleRequirement({ ...requirement, requires_approval: false }))
+        .toBe('Require approval, a certification, or both');
+      expect(validateRoleRequirement({ ...requirement, requires_approval: false, min_skill_level: 'lead', required_certifications: ['FAA Part 107'] }))
+        .toBe('A minimum skill level only applies when the role needs approval');
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import { matchesRoleName } from "../role-checklists/client-utils";
+import type {
+  CertificationStatus,
+  EmployeeCertification,
+  QualificationContext,
+  QualificationProfile,
+  RoleEligibility,
+  RoleRequirement,
+  SkillLevel
+} from "./types";
+
+/**
+ * Skill levels, lowest first
+ */
+export const SKILL_LEVELS: SkillLevel[] = ['trainee', 'experienced', 'lead'];
+
+export const SKILL_LEVEL_LABELS: Record<SkillLevel, string> = {
+  trainee: 'Trainee',
+  experienced: 'Experienced',
+  lead: 'Lead'
+};
+
+/**
+ * How many days before a certification expires the employee and their
+ * managers are reminded
+ */
+export const CERTIFICATION_REMINDER_DAYS = 30;
+
+const ELIGIBLE: RoleEligibility = { eligible: true, reasons: [] };
+
+function toDateString(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export function isSkillLevel(value: string | null | undefined): value is SkillLevel {
+  return SKILL_LEVELS.includes(value as SkillLevel);
+}
+
+/**
+ * Turn a comma- or line-separated list into certification names, dropping
+ * blanks and repeats (ignoring case)
+ */
+export function parseCertificationNames(value: string): string[] {
+  const seen = new Set<string>();
+  const names: string[] = [];
+
+  for (const part of value.split(/[,\r\n]+/)) {
+    const name = part.trim();
+    const key = name.toLowerCase();
+    if (name && !seen.has(key)) {
+      seen.add(key);
+      names.push(name);
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Validate a role requirement before saving. Returns an error message or null.
+ */
+export function validateRoleRequirement(input: {
+  role_name: string;
+  requires_approval: boolean;
+  min_skill_level: string | null;
+  required_certifications: string[];
+}): string | null {
+  if (!input.role_name.trim()) {
+    return "Role name is required";
+  }
+
+  if (input.min_skill_level && !isSkillLevel(input.min_skill_level)) {
+    return "Choose a valid skill level";
+  }
+
+  if (input.min_skill_level && !input.requires_approval) {
+    return "A minimum skill level only applies when the role needs approval";
+  }
+
+  if (!input.requires_approval && input.required_certifications.length === 0) {
+    return "Require approval, a certification, or both";
+  }
+
+  return null;
+}
+
+/**
+ * Validate a certification before saving. Returns an error message or null.
+ */
+export function validateCertification(input: {
+  name: string;
+  issued_on: string | null;
+  expires_on: string | null;
+}): string | null {
+  if (!input.name.trim()) {
+    return "Certification name is required";
+  }
+
+  if (input.issued_on && input.expires_on && input.expires_on < input.issued_on) {
+    return "The expiry date must be after the issue date";
+  }
+
+  return null;
+}
+
+/**
+ * The org's requirement for a role, if it has one. Role names match ignoring
+ * case, as role checklists do.
+ */
+export function findRoleRequirement(requirements: RoleRequirement[], roleName: string): RoleRequirement | null {
+  return requirements.find(requirement => matchesRoleName(requirement.role_name, roleName)) ?? null;
+}
+
+/**
+ * Whether a certification is still valid on a date (a job's start, usually)
+ */
+export function isCertificationCurrent(
+  certification: Pick<EmployeeCertification, 'expires_on'>,
+  onDate: string | Date
+): boolean {
+  return !certification.expires_on || certification.expires_on >= toDateString(new Date(onDate));
+}
+
+/**
+ * Whether an employee can work a role on a date, with every reason they can't
+ */
+export function getRoleEligibility(
+  roleName: string,
+  requirements: RoleRequirement[],
+  profile: QualificationProfile | null | undefined,
+  onDate: string | Date
+): RoleEligibility {
+  const requirement = findRoleRequirement(requirements, roleName);
+  if (!requirement) {
+    return ELIGIBLE;
+  }
+
+  const reasons: string[] = [];
+
+  if (requirement.requires_approval) {
+    const approval = profile?.approvals.find(a => matchesRoleName(a.role_name, roleName));
+    if (!approval) {
+      reasons.push(`Not approved for ${requirement.role_name}`);
+    } else if (
+      requirement.min_skill_level &&
+      SKILL_LEVELS.indexOf(approval.skill_level) < SKILL_LEVELS.indexOf(requirement.min_skill_level)
+    ) {
+      reasons.push(
+        `Approved as ${SKILL_LEVEL_LABELS[approval.skill_level]}; needs ${SKILL_LEVEL_LABELS[requirement.min_skill_level]}`
+      );
+    }
+  }
+
+  for (const name of requirement.required_certifications) {
+    const certification = profile?.certifications.find(c => matchesRoleName(c.name, name));
+    if (!certification) {
+      reasons.push(`Needs ${name}`);
+    } else if (!isCertificationCurrent(certification, onDate)) {
+      reasons.push(`${certification.name} expires before this job`);
+    }
+  }
+
+  return { eligible: reasons.length === 0, reasons };
+}
+
+/**
+ * Whether an employee in a qualification context can work a role on a date
+ */
+export function getEmployeeRoleEligibility(
+  context: QualificationContext,
+  userId: string,
+  roleName: string,
+  onDate: string | Date
+): RoleEligibility {
+  return getRoleEligibility(roleName, context.requirements, context.profiles[userId], onDate);
+}
+
+/**
+ * Days from today until a certification expires (negative once expired),
+ * or null if it doesn't expire
+ */
+export function getDaysUntilExpiry(
+  certification: Pick<EmployeeCertification, 'expires_on'>,
+  today: Date = new Date()
+): number | null {
+  if (!certification.expires_on) {
+    return null;
+  }
+
+  const [year, month, day] = certification.expires_on.split('-').map(Number);
+  const expires = new Date(year, month - 1, day);
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((expires.getTime() - start.getTime()) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Whether a certification is valid, expires within the reminder window, or
+ * has expired
+ */
+export function getCertificationStatus(
+  certification: Pick<EmployeeCertification, 'expires_on'>,
+  today: Date = new Date()
+): CertificationStatus {
+  const days = getDaysUntilExpiry(certification, today);
+  if (days === null || days > CERTIFICATION_REMINDER_DAYS) {
+    return 'valid';
+  }
+  return days < 0 ? 'expired' : 'expiring';
+}
+
+/**
+ * A certification's expiry for display, e.g. "Expires in 12 days"
+ */
+export function describeCertificationExpiry(
+  certification: Pick<EmployeeCertification, 'expires_on'>,
+  today: Date = new Date()
+): string {
+  const days = getDaysUntilExpiry(certification, today);
+  if (days === null) return 'Does not expire';
+  if (days < 0) return `Expired ${-days} ${days === -1 ? 'day' : 'days'} ago`;
+  if (days === 0) return 'Expires today';
+  return `Expires in ${days} ${days === 1 ? 'day' : 'days'}`;
+}
+
+/**
+ * A role requirement for display, e.g. "Approval (Lead or above), FAA Part 107"
+ */
+export function describeRoleRequirement(requirement: RoleRequirement): string {
+  const parts: string[] = [];
+  if (requirement.requires_approval) {
+    parts.push(
+      requirement.min_skill_level
+        ? `Approval (${SKILL_LEVEL_LABELS[requirement.min_skill_level]} or above)`
+        : 'Approval'
+    );
+  }
+  return [...parts, ...requirement.required_certifications].join(', ');
+}
@@ -0,0 +1,232 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { checkManagerPermission } from "../jobs/utils";
+import { matchesRoleName } from "../role-checklists/client-utils";
+import {
+  isSkillLevel,
+  parseCertificationNames,
+  validateCertification,
+  validateRoleRequirement
+} from "./client-utils";
+import { verifyOrgEmployee } from "./utils";
+
+const qualificationsPath = "/dashboard/manager/qualifications";
+
+/**
+ * Create or update what the org requires of anyone working a role. It
+ * applies to new interest and assignments straight away; existing
+ * assignments are left alone.
+ */
+export async function saveRoleRequirement(formData: FormData) {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, user, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !user || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  // Extract form data
+  const requirementId = formData.get("requirementId")?.toString() || null;
+  const roleName = formData.get("role_name")?.toString().trim() || "";
+  const requiresApproval = formData.get("requires_approval") === "on";
+  const minSkillLevel = formData.get("min_skill_level")?.toString() || null;
+  const requiredCertifications = parseCertificationNames(formData.get("required_certifications")?.toString() || "");
+
+  const validationError = validateRoleRequirement({
+    role_name: roleName,
+    requires_approval: requiresApproval,
+    min_skill_level: minSkillLevel,
+    required_certifications: requiredCertifications
+  });
+  if (validationError) {
+    return encodedRedirect("error", qualificationsPath, validationError);
+  }
+
+  const values = {
+    role_name: roleName,
+    requires_approval: requiresApproval,
+    min_skill_level: minSkillLevel,
+    required_certifications: requiredCertifications
+  };
+
+  const { error } = requirementId
+    ? await supabase
+        .from('role_requirements')
+        .update({ ...values, updated_at: new Date().toISOString() })
+        .eq('id', requirementId)
+        .eq('org_id', profile.org_id)
+    : await supabase
+        .from('role_requirements')
+        .insert([{ ...values, org_id: profile.org_id, created_by_user_id: user.id }]);
+
+  if (error) {
+    console.error("Error saving role requirement:", error);
+    const message = error.code === '23505'
+      ? `${roleName} already has requirements`
+      : error.message;
+    return encodedRedirect("error", qualificationsPath, message);
+  }
+
+  revalidatePath(qualificationsPath);
+  return encodedRedirect("success", qualificationsPath, `Requirements for ${roleName} saved`);
+}
+
+/**
+ * Approve an employee for a role at a skill level, or change the level of a
+ * role they are already approved for
+ */
+export async function approveEmployeeRole(formData: FormData) {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, user, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !user || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  const employeeId = formData.get("userId")?.toString() || "";
+  const roleName = formData.get("role_name")?.toString().trim() || "";
+  const skillLevel = formData.get("skill_level")?.toString() || "";
+
+  if (!roleName) {
+    return encodedRedirect("error", qualificationsPath, "Role name is required");
+  }
+  if (!isSkillLevel(skillLevel)) {
+    return encodedRedirect("error", qualificationsPath, "Choose a valid skill level");
+  }
+
+  const { verified, fullName, error: employeeError } = await verifyOrgEmployee(supabase, profile.org_id!, employeeId);
+  if (!verified) {
+    return encodedRedirect("error", qualificationsPath, employeeError || "Employee not found");
+  }
+
+  // Role names match ignoring case, so "drone operator" updates "Drone Operator"
+  const { data: approvals, error: approvalsError } = await supabase
+    .from('employee_role_approvals')
+    .select('id, role_name')
+    .eq('org_id', profile.org_id)
+    .eq('user_id', employeeId);
+
+  if (approvalsError) {
+    console.error("Error fetching role approvals:", approvalsError);
+    return encodedRedirect("error", qualificationsPath, "Failed to check existing approvals");
+  }
+
+  const existing = (approvals || []).find(approval => matchesRoleName(approval.role_name, roleName));
+
+  const { error } = existing
+    ? await supabase
+        .from('employee_role_approvals')
+        .update({
+          skill_level: skillLevel,
+          approved_by_user_id: user.id,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', existing.id)
+    : await supabase
+        .from('employee_role_approvals')
+        .insert([
+          {
+            org_id: profile.org_id,
+            user_id: employeeId,
+            role_name: roleName,
+            skill_level: skillLevel,
+            approved_by_user_id: user.id
+          }
+        ]);
+
+  if (error) {
+    console.error("Error approving role:", error);
+    return encodedRedirect("error", qualificationsPath, error.message);
+  }
+
+  revalidatePath(qualificationsPath);
+  return encodedRedirect(
+    "success",
+    qualificationsPath,
+    `${fullName || 'Employee'} approved for ${existing?.role_name || roleName}`
+  );
+}
+
+/**
+ * Record a certification an employee holds. Saving one with the same name
+ * as an existing certification renews it, and a reminder is sent again
+ * before the new expiry date.
+ */
+export async function saveCertification(formData: FormData) {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, user, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !user || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  const employeeId = formData.get("userId")?.toString() || "";
+  const name = formData.get("name")?.toString().trim() || "";
+  const certificateNumber = formData.get("certificate_number")?.toString().trim() || null;
+  const issuedOn = formData.get("issued_on")?.toString() || null;
+  const expiresOn = formData.get("expires_on")?.toString() || null;
+
+  const validationError = validateCertification({ name, issued_on: issuedOn, expires_on: expiresOn });
+  if (validationError) {
+    return encodedRedirect("error", qualificationsPath, validationError);
+  }
+
+  const { verified, fullName, error: employeeError } = await verifyOrgEmployee(supabase, profile.org_id!, employeeId);
+  if (!verified) {
+    return encodedRedirect("error", qualificationsPath, employeeError || "Employee not found");
+  }
+
+  const { data: certifications, error: certificationsError } = await supabase
+    .from('employee_certifications')
+    .select('id, name')
+    .eq('org_id', profile.org_id)
+    .eq('user_id', employeeId);
+
+  if (certificationsError) {
+    console.error("Error fetching certifications:", certificationsError);
+    return encodedRedirect("error", qualificationsPath, "Failed to check existing certifications");
+  }
+
+  const existing = (certifications || []).find(certification => matchesRoleName(certification.name, name));
+  const values = {
+    certificate_number: certificateNumber,
+    issued_on: issuedOn,
+    expires_on: expiresOn,
+    expiry_reminder_sent_at: null
+  };
+
+  const { error } = existing
+    ? await supabase
+        .from('employee_certifications')
+        .update({ ...values, updated_at: new Date().toISOString() })
+        .eq('id', existing.id)
+    : await supabase
+        .from('employee_certifications')
+        .insert([
+          {
+            ...values,
+            org_id: profile.org_id,
+            user_id: employeeId,
+            name,
+            created_by_user_id: user.id
+          }
+        ]);
+
+  if (error) {
+    console.error("Error saving certification:", error);
+    return encodedRedirect("error", qualificationsPath, error.message);
+  }
+
+  revalidatePath(qualificationsPath);
+  return encodedRedirect(
+    "success",
+    qualificationsPath,
+    `${existing ? 'Renewed' : 'Added'} ${existing?.name || name} for ${fullName || 'employee'}`
+  );
+}
@@ -0,0 +1,134 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { getCurrentUserProfile } from "@/utils/supabase/auth-helpers";
+import { checkManagerPermission } from "../jobs/utils";
+import type {
+  EmployeeCertification,
+  EmployeeQualifications,
+  EmployeeRoleApproval,
+  QualificationProfile,
+  RoleRequirement
+} from "./types";
+
+/**
+ * Get the org's role requirements
+ */
+export async function getRoleRequirements(): Promise<{ data?: RoleRequirement[]; error?: string }> {
+  const supabase = await createClient();
+
+  const profile = await getCurrentUserProfile();
+  if (!profile || !profile.org_id) {
+    return { error: "You must be part of an organization" };
+  }
+
+  const { data, error } = await supabase
+    .from('role_requirements')
+    .select('*')
+    .eq('org_id', profile.org_id)
+    .order('role_name', { ascending: true });
+
+  if (error) {
+    console.error("Error fetching role requirements:", error);
+    return { error: "Failed to fetch role requirements" };
+  }
+
+  return { data: (data || []) as RoleRequirement[] };
+}
+
+/**
+ * Get every approved employee's approved roles and certifications (managers only)
+ */
+export async function getTeamQualifications(): Promise<{ data?: EmployeeQualifications[]; error?: string }> {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return { error: permError || "Unauthorized" };
+  }
+
+  const [
+    { data: employees, error: employeesError },
+    { data: approvals, error: approvalsError },
+    { data: certifications, error: certificationsError }
+  ] = await Promise.all([
+    supabase
+      .from('profiles')
+      .select('id, full_name, email')
+      .eq('org_id', profile.org_id)
+      .eq('role', 'Employee')
+      .eq('approval_status', 'approved')
+      .order('full_name', { ascending: true }),
+    supabase
+      .from('employee_role_approvals')
+      .select('*')
+      .eq('org_id', profile.org_id)
+      .order('role_name', { ascending: true }),
+    supabase
+      .from('employee_certifications')
+      .select('*')
+      .eq('org_id', profile.org_id)
+      .order('name', { ascending: true })
+  ]);
+
+  if (employeesError || approvalsError || certificationsError) {
+    console.error("Error fetching team qualifications:", employeesError || approvalsError || certificationsError);
+    return { error: "Failed to fetch qualifications" };
+  }
+
+  return {
+    data: (employees || []).map(employee => ({
+      user_id: employee.id,
+      full_name: employee.full_name,
+      email: employee.email,
+      approvals: ((approvals || []) as EmployeeRoleApproval[]).filter(a => a.user_id === employee.id),
+      certifications: ((certifications || []) as EmployeeCertification[]).filter(c => c.user_id === employee.id)
+    }))
+  };
+}
+
+/**
+ * Get the current user's approved roles and certifications
+ */
+export async function getMyQualifications(): Promise<{ data?: QualificationProfile; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { error: "You must be logged in" };
+  }
+
+  const profile = await getCurrentUserProfile();
+  if (!profile || !profile.org_id) {
+    return { error: "You must be part of an organization" };
+  }
+
+  const [{ data: approvals, error: approvalsError }, { data: certifications, error: certificationsError }] =
+    await Promise.all([
+      supabase
+        .from('employee_role_approvals')
+        .select('*')
+        .eq('org_id', profile.org_id)
+        .eq('user_id', user.id)
+        .order('role_name', { ascending: true }),
+      supabase
+        .from('employee_certifications')
+        .select('*')
+        .eq('org_id', profile.org_id)
+        .eq('user_id', user.id)
+        .order('name', { ascending: true })
+    ]);
+
+  if (approvalsError || certificationsError) {
+    console.error("Error fetching qualifications:", approvalsError || certificationsError);
+    return { error: "Failed to fetch your qualifications" };
+  }
+
+  return {
+    data: {
+      approvals: (approvals || []) as EmployeeRoleApproval[],
+      certifications: (certifications || []) as EmployeeCertification[]
+    }
+  };
+}
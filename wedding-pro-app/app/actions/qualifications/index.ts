@@ -0,0 +1,10 @@
+"use server";
+
+// This file re-exports all public actions and types related to employee qualifications.
+
+export { saveRoleRequirement, approveEmployeeRole, saveCertification } from './create';
+export { getRoleRequirements, getTeamQualifications, getMyQualifications } from './fetch';
+export { deleteRoleRequirement, removeRoleApproval, deleteCertification } from './update';
+
+// Re-export all types from the dedicated types module
+export * from './types';
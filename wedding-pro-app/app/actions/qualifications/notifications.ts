@@ -0,0 +1,116 @@
+"use server";
+
+import { createNotificationService } from "@/utils/notifications/notification-service";
+import { SupabaseClient } from "@supabase/supabase-js";
+import {
+  CERTIFICATION_REMINDER_DAYS,
+  describeCertificationExpiry,
+  getCertificationStatus
+} from "./client-utils";
+import type { EmployeeCertification } from "./types";
+
+/**
+ * Remind employees, and their org's managers, of certifications expiring in
+ * the next 30 days (or already expired without a reminder). Each
+ * certification is only reminded once until it is renewed, so running this
+ * often is safe.
+ */
+export async function sendCertificationExpiryReminders(
+  supabase: SupabaseClient,
+  options: { now?: Date } = {}
+): Promise<{ sent: number; error?: string }> {
+  const now = options.now || new Date();
+  const cutoff = new Date(now.getFullYear(), now.getMonth(), now.getDate() + CERTIFICATION_REMINDER_DAYS);
+  const cutoffDate = `${cutoff.getFullYear()}-${String(cutoff.getMonth() + 1).padStart(2, '0')}-${String(cutoff.getDate()).padStart(2, '0')}`;
+
+  try {
+    const { data: certifications, error: certificationsError } = await supabase
+      .from('employee_certifications')
+      .select('*')
+      .is('expiry_reminder_sent_at', null)
+      .not('expires_on', 'is', null)
+      .lte('expires_on', cutoffDate);
+
+    if (certificationsError) {
+      console.error("Error fetching certifications for reminders:", certificationsError);
+      return { sent: 0, error: "Failed to fetch certifications for reminders" };
+    }
+
+    if (!certifications || certifications.length === 0) {
+      return { sent: 0 };
+    }
+
+    const userIds = Array.from(new Set<string>(certifications.map(c => c.user_id)));
+    const orgIds = Array.from(new Set<string>(certifications.map(c => c.org_id)));
+
+    const [{ data: employees }, { data: managers }] = await Promise.all([
+      supabase
+        .from('profiles')
+        .select('id, full_name')
+        .in('id', userIds),
+      supabase
+        .from('profiles')
+        .select('id, org_id')
+        .in('org_id', orgIds)
+        .in('role', ['Manager', 'Admin'])
+    ]);
+
+    const namesById = new Map<string, string | null>((employees || []).map(e => [e.id, e.full_name]));
+    const notificationService = createNotificationService(supabase);
+    let sent = 0;
+
+    for (const certification of certifications as EmployeeCertification[]) {
+      const expiry = describeCertificationExpiry(certification, now);
+      const employeeName = namesById.get(certification.user_id) || 'An employee';
+      const metadata = {
+        certificationId: certification.id,
+        certificationName: certification.name,
+        employeeId: certification.user_id,
+        expiresOn: certification.expires_on
+      };
+
+      try {
+        await notificationService.sendNotificationForEvent({
+          eventType: 'certification_expiring',
+          userId: certification.user_id,
+          title: `${certification.name} ${getCertificationStatus(certification, now) === 'expired' ? 'Has Expired' : 'Expiring Soon'}`,
+          body: `Your ${certification.name} certification: ${expiry.toLowerCase()} (${certification.expires_on}). ` +
+            `Renew it and send your manager the new details to keep working roles that need it.`,
+          metadata
+        });
+        sent++;
+      } catch (error) {
+        console.error(`Error sending certification reminder to employee ${certification.user_id}:`, error);
+      }
+
+      for (const manager of (managers || []).filter(m => m.org_id === certification.org_id)) {
+        try {
+          await notificationService.sendNotificationForEvent({
+            eventType: 'certification_expiring',
+            userId: manager.id,
+            title: `${employeeName}'s ${certification.name}`,
+            body: `${employeeName}'s ${certification.name} certification: ${expiry.toLowerCase()} (${certification.expires_on}).`,
+            metadata: { ...metadata, isManagerNotification: true }
+          });
+        } catch (error) {
+          console.error(`Error sending certification reminder to manager ${manager.id}:`, error);
+        }
+      }
+
+      // Mark as reminded either way so a failing channel doesn't repeat every run
+      const { error: markError } = await supabase
+        .from('employee_certifications')
+        .update({ expiry_reminder_sent_at: new Date().toISOString() })
+        .eq('id', certification.id);
+
+      if (markError) {
+        console.error(`Error marking reminder sent for certification ${certification.id}:`, markError);
+      }
+    }
+
+    return { sent };
+  } catch (error) {
+    console.error("Error sending certification reminders:", error);
+    return { sent: 0, error: "Failed to send certification reminders" };
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * How experienced an employee is in a role, lowest first
+ */
+export type SkillLevel = 'trainee' | 'experienced' | 'lead';
+
+/**
+ * What an org requires of anyone working a role. Roles without a
+ * requirement are open to every employee.
+ */
+export type RoleRequirement = {
+  id: string;
+  org_id: string;
+  role_name: string;
+  requires_approval: boolean; // Only employees approved for the role can take it
+  min_skill_level: SkillLevel | null; // Lowest approved level that qualifies
+  required_certifications: string[]; // Certification names, matched ignoring case
+  created_by_user_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * A role a manager has approved an employee for
+ */
+export type EmployeeRoleApproval = {
+  id: string;
+  org_id: string;
+  user_id: string;
+  role_name: string;
+  skill_level: SkillLevel;
+  approved_by_user_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * A certification an employee holds, e.g. FAA Part 107
+ */
+export type EmployeeCertification = {
+  id: string;
+  org_id: string;
+  user_id: string;
+  name: string;
+  certificate_number: string | null;
+  issued_on: string | null; // YYYY-MM-DD
+  expires_on: string | null; // YYYY-MM-DD; null for certifications that don't expire
+  expiry_reminder_sent_at: string | null;
+  created_by_user_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * An employee's approved roles and certifications
+ */
+export type QualificationProfile = {
+  approvals: EmployeeRoleApproval[];
+  certifications: EmployeeCertification[];
+};
+
+/**
+ * The org's role requirements and the qualification profiles of the
+ * employees being checked against them, keyed by user ID
+ */
+export type QualificationContext = {
+  requirements: RoleRequirement[];
+  profiles: Record<string, QualificationProfile>;
+};
+
+/**
+ * Whether an employee can work a role, and why not
+ */
+export type RoleEligibility = {
+  eligible: boolean;
+  reasons: string[]; // Empty when eligible
+};
+
+/**
+ * Where a certification is in its lifetime
+ */
+export type CertificationStatus = 'valid' | 'expiring' | 'expired';
+
+/**
+ * An employee with their qualification profile, for the manager's team view
+ */
+export type EmployeeQualifications = QualificationProfile & {
+  user_id: string;
+  full_name: string | null;
+  email: string | null;
+};
@@ -0,0 +1,105 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { checkManagerPermission } from "../jobs/utils";
+
+const qualificationsPath = "/dashboard/manager/qualifications";
+
+/**
+ * Delete a role's requirements, opening it to every employee again
+ */
+export async function deleteRoleRequirement(formData: FormData) {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  const requirementId = formData.get("requirementId")?.toString();
+  if (!requirementId) {
+    return encodedRedirect("error", qualificationsPath, "Requirement ID is required");
+  }
+
+  const { error } = await supabase
+    .from('role_requirements')
+    .delete()
+    .eq('id', requirementId)
+    .eq('org_id', profile.org_id);
+
+  if (error) {
+    console.error("Error deleting role requirement:", error);
+    return encodedRedirect("error", qualificationsPath, error.message);
+  }
+
+  revalidatePath(qualificationsPath);
+  return encodedRedirect("success", qualificationsPath, "Requirements removed");
+}
+
+/**
+ * Take back an employee's approval for a role. Assignments they already have
+ * are left alone.
+ */
+export async function removeRoleApproval(formData: FormData) {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  const approvalId = formData.get("approvalId")?.toString();
+  if (!approvalId) {
+    return encodedRedirect("error", qualificationsPath, "Approval ID is required");
+  }
+
+  const { error } = await supabase
+    .from('employee_role_approvals')
+    .delete()
+    .eq('id', approvalId)
+    .eq('org_id', profile.org_id);
+
+  if (error) {
+    console.error("Error removing role approval:", error);
+    return encodedRedirect("error", qualificationsPath, error.message);
+  }
+
+  revalidatePath(qualificationsPath);
+  return encodedRedirect("success", qualificationsPath, "Role approval removed");
+}
+
+/**
+ * Delete one of an employee's certifications
+ */
+export async function deleteCertification(formData: FormData) {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  const certificationId = formData.get("certificationId")?.toString();
+  if (!certificationId) {
+    return encodedRedirect("error", qualificationsPath, "Certification ID is required");
+  }
+
+  const { error } = await supabase
+    .from('employee_certifications')
+    .delete()
+    .eq('id', certificationId)
+    .eq('org_id', profile.org_id);
+
+  if (error) {
+    console.error("Error deleting certification:", error);
+    return encodedRedirect("error", qualificationsPath, error.message);
+  }
+
+  revalidatePath(qualificationsPath);
+  return encodedRedirect("success", qualificationsPath, "Certification deleted");
+}
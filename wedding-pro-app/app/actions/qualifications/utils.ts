@@ -0,0 +1,94 @@
+"use server";
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  EmployeeCertification,
+  EmployeeRoleApproval,
+  QualificationContext,
+  QualificationProfile,
+  RoleRequirement
+} from "./types";
+
+/**
+ * Get the org's role requirements and the qualification profiles of the given
+ * employees. Orgs without requirements skip the profile lookups, since every
+ * role is open to everyone.
+ */
+export async function getQualificationContext(
+  supabase: SupabaseClient,
+  orgId: string,
+  userIds: string[]
+): Promise<{ data?: QualificationContext; error?: string }> {
+  const { data: requirements, error: requirementsError } = await supabase
+    .from('role_requirements')
+    .select('*')
+    .eq('org_id', orgId);
+
+  if (requirementsError) {
+    console.error("Error fetching role requirements:", requirementsError);
+    return { error: "Failed to check role requirements" };
+  }
+
+  const profiles: Record<string, QualificationProfile> = {};
+  if (!requirements || requirements.length === 0 || userIds.length === 0) {
+    return { data: { requirements: (requirements || []) as RoleRequirement[], profiles } };
+  }
+
+  const [{ data: approvals, error: approvalsError }, { data: certifications, error: certificationsError }] =
+    await Promise.all([
+      supabase
+        .from('employee_role_approvals')
+        .select('*')
+        .eq('org_id', orgId)
+        .in('user_id', userIds),
+      supabase
+        .from('employee_certifications')
+        .select('*')
+        .eq('org_id', orgId)
+        .in('user_id', userIds)
+    ]);
+
+  if (approvalsError || certificationsError) {
+    console.error("Error fetching employee qualifications:", approvalsError || certificationsError);
+    return { error: "Failed to check employee qualifications" };
+  }
+
+  for (const userId of userIds) {
+    profiles[userId] = { approvals: [], certifications: [] };
+  }
+  for (const approval of (approvals || []) as EmployeeRoleApproval[]) {
+    profiles[approval.user_id]?.approvals.push(approval);
+  }
+  for (const certification of (certifications || []) as EmployeeCertification[]) {
+    profiles[certification.user_id]?.certifications.push(certification);
+  }
+
+  return { data: { requirements: requirements as RoleRequirement[], profiles } };
+}
+
+/**
+ * Check that a user is an employee of the org before changing their qualifications
+ */
+export async function verifyOrgEmployee(
+  supabase: SupabaseClient,
+  orgId: string,
+  userId: string
+): Promise<{ verified: boolean; fullName?: string | null; error?: string }> {
+  const { data: employee, error } = await supabase
+    .from('profiles')
+    .select('id, full_name')
+    .eq('id', userId)
+    .eq('org_id', orgId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error verifying employee:", error);
+    return { verified: false, error: "Failed to find the employee" };
+  }
+
+  if (!employee) {
+    return { verified: false, error: "Employee not found in your organization" };
+  }
+
+  return { verified: true, fullName: employee.full_name };
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getChecklistProgress,
+  matchesRoleName,
+  MAX_CHECKLIST_ITEMS,
+  parseChecklistItems,
+  validateChecklistTemplate
+} from './client-utils';
+
+describe('role checklist client utils', () => {
+  describe('parseChecklistItems', () => {
+    it('should take one item per line and drop blanks, markers and repeats', () => {
+      const items = parseChecklistItems('- First look\n\n* Ring close-up\r\n[ ] Drone: venue exterior\nring close-up\n   ');
+
+      expect(items).toEqual(['First look', 'Ring close-up', 'Drone: venue exterior']);
+    });
+  });
+
+  describe('validateChecklistTemplate', () => {
+    it('should require a role name and between 1 and the maximum number of items', () => {
+      expect(validateChecklistTemplate({ role_name: 'Videographer', items: ['Audio backup'] })).toBeNull();
+      expect(validateChecklistTemplate({ role_name: ' ', items: ['Audio backup'] })).toMatch(/Role name/);
+      expect(validateChecklistTemplate({ role_name: 'Videographer', items: [] })).toMatch(/at least one/);
+      expect(
+        validateChecklistTemplate({
+          role_name: 'Videographer',
+          items: Array.from({ length: MAX_CHECKLIST_ITEMS + 1 }, (_, i) => `Item ${i}`),
+        })
+      ).toMatch(/at most/);
+    });
+  });
+
+  describe('matchesRoleName', () => {
+    it('should ignore case and surrounding spaces', () => {
+      expect(matchesRoleName('2nd Photographer', ' 2nd photographer ')).toBe(true);
+      expect(matchesRoleName('Photographer', '2nd Photographer')).toBe(false);
+    });
+  });
+
+  describe('getChecklistProgress', () => {
+    it('should count completed items', () => {
+      expect(
+        getChecklistProgress([
+          { completed_at: '2025-06-14T20:00:00Z' },
+          { completed_at: null },
+          { completed_at: null },
+        ])
+      ).toEqual({ completed: 1, total: 3, percent: 33 });
+      expect(getChecklistProgress([])).toEqual({ completed: 0, total: 0, percent: 0 });
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import type { JobChecklistItem } from "./types";
+
+/**
+ * Longest checklist a template can hold
+ */
+export const MAX_CHECKLIST_ITEMS = 50;
+
+/**
+ * Turn a textarea with one item per line into checklist items. Blank lines,
+ * list markers ("-", "*", "[ ]") and repeated items are dropped.
+ */
+export function parseChecklistItems(value: string): string[] {
+  const seen = new Set<string>();
+  const items: string[] = [];
+
+  for (const line of value.split(/\r?\n/)) {
+    const label = line.replace(/^\s*(?:[-*•]|\[\s?\])\s*/, '').trim();
+    const key = label.toLowerCase();
+    if (label && !seen.has(key)) {
+      seen.add(key);
+      items.push(label);
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Validate a checklist template before saving. Returns an error message or null.
+ */
+export function validateChecklistTemplate(input: { role_name: string; items: string[] }): string | null {
+  if (!input.role_name.trim()) {
+    return "Role name is required";
+  }
+
+  if (input.items.length === 0) {
+    return "Add at least one checklist item";
+  }
+
+  if (input.items.length > MAX_CHECKLIST_ITEMS) {
+    return `Checklists can have at most ${MAX_CHECKLIST_ITEMS} items`;
+  }
+
+  return null;
+}
+
+/**
+ * Whether a template applies to a job role. Role names match ignoring case
+ * and surrounding spaces.
+ */
+export function matchesRoleName(templateRoleName: string, roleName: string): boolean {
+  return templateRoleName.trim().toLowerCase() === roleName.trim().toLowerCase();
+}
+
+/**
+ * How much of a checklist is ticked off
+ */
+export function getChecklistProgress(items: Pick<JobChecklistItem, 'completed_at'>[]): {
+  completed: number;
+  total: number;
+  percent: number;
+} {
+  const completed = items.filter(item => item.completed_at).length;
+  const total = items.length;
+
+  return {
+    completed,
+    total,
+    percent: total === 0 ? 0 : Math.round((completed / total) * 100),
+  };
+}
@@ -0,0 +1,182 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { checkManagerPermission, verifyJobOrganization } from "../jobs/utils";
+import { parseChecklistItems, validateChecklistTemplate } from "./client-utils";
+
+const checklistsPath = "/dashboard/manager/jobs/checklists";
+
+/**
+ * Create or update the org's checklist for a role. New jobs get a copy of it
+ * on every role with a matching name; existing jobs keep their own copy.
+ */
+export async function saveChecklistTemplate(formData: FormData) {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, user, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !user || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  // Extract form data
+  const templateId = formData.get("templateId")?.toString() || null;
+  const roleName = formData.get("role_name")?.toString().trim() || "";
+  const items = parseChecklistItems(formData.get("items")?.toString() || "");
+
+  const validationError = validateChecklistTemplate({ role_name: roleName, items });
+  if (validationError) {
+    return encodedRedirect("error", checklistsPath, validationError);
+  }
+
+  const { error } = templateId
+    ? await supabase
+        .from('role_checklist_templates')
+        .update({
+          role_name: roleName,
+          items,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', templateId)
+        .eq('org_id', profile.org_id)
+    : await supabase
+        .from('role_checklist_templates')
+        .insert([
+          {
+            org_id: profile.org_id,
+            role_name: roleName,
+            items,
+            created_by_user_id: user.id
+          }
+        ]);
+
+  if (error) {
+    console.error("Error saving checklist template:", error);
+    const message = error.code === '23505'
+      ? `There is already a checklist for ${roleName}`
+      : error.message;
+    return encodedRedirect("error", checklistsPath, message);
+  }
+
+  revalidatePath(checklistsPath);
+  return encodedRedirect("success", checklistsPath, `Checklist for ${roleName} saved`);
+}
+
+/**
+ * Add an item to one role's checklist on a job
+ */
+export async function addJobChecklistItem(jobId: string, jobRequiredRoleId: string, formData: FormData) {
+  const supabase = await createClient();
+  const jobPath = `/dashboard/manager/jobs/${jobId}`;
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  // Verify the job belongs to the user's organization
+  const { verified, error: jobVerifyError } = await verifyJobOrganization(
+    supabase,
+    jobId,
+    profile.org_id!
+  );
+
+  if (!verified) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", jobVerifyError || "Job not found or not authorized");
+  }
+
+  const label = formData.get("label")?.toString().trim() || "";
+  if (!label) {
+    return encodedRedirect("error", jobPath, "Checklist item is required");
+  }
+
+  // Add it to the end of the list
+  const { data: lastItem } = await supabase
+    .from('job_role_checklist_items')
+    .select('position')
+    .eq('job_required_role_id', jobRequiredRoleId)
+    .order('position', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { error } = await supabase
+    .from('job_role_checklist_items')
+    .insert([
+      {
+        job_id: jobId,
+        job_required_role_id: jobRequiredRoleId,
+        label,
+        position: (lastItem?.position || 0) + 1
+      }
+    ]);
+
+  if (error) {
+    console.error("Error adding checklist item:", error);
+    return encodedRedirect("error", jobPath, error.message);
+  }
+
+  revalidatePath(jobPath);
+  revalidatePath(`/dashboard/employee/jobs/${jobId}`);
+  return encodedRedirect("success", jobPath, `"${label}" added to the checklist`);
+}
+
+/**
+ * Copy the org's checklist for a role onto a job role that doesn't have one
+ * yet, e.g. one created before the checklist existed
+ */
+export async function applyChecklistTemplate(formData: FormData) {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  const jobId = formData.get("jobId")?.toString();
+  const jobRequiredRoleId = formData.get("jobRequiredRoleId")?.toString();
+  if (!jobId || !jobRequiredRoleId) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", "Job ID and role ID are required");
+  }
+  const jobPath = `/dashboard/manager/jobs/${jobId}`;
+
+  // Verify the job belongs to the user's organization
+  const { verified, error: jobVerifyError } = await verifyJobOrganization(
+    supabase,
+    jobId,
+    profile.org_id!
+  );
+
+  if (!verified) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", jobVerifyError || "Job not found or not authorized");
+  }
+
+  const { count } = await supabase
+    .from('job_role_checklist_items')
+    .select('id', { count: 'exact', head: true })
+    .eq('job_required_role_id', jobRequiredRoleId);
+
+  if ((count || 0) > 0) {
+    return encodedRedirect("error", jobPath, "This role already has a checklist");
+  }
+
+  const { data: insertedCount, error } = await supabase.rpc('stamp_role_checklist', {
+    p_job_required_role_id: jobRequiredRoleId
+  });
+
+  if (error) {
+    console.error("Error applying checklist template:", error);
+    return encodedRedirect("error", jobPath, error.message);
+  }
+
+  if (!insertedCount) {
+    return encodedRedirect("error", jobPath, "There is no checklist for this role yet");
+  }
+
+  revalidatePath(jobPath);
+  revalidatePath(`/dashboard/employee/jobs/${jobId}`);
+  return encodedRedirect("success", jobPath, `Checklist added (${insertedCount} items)`);
+}
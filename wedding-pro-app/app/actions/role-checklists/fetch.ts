@@ -0,0 +1,136 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { checkManagerPermission, verifyJobOrganization } from "../jobs/utils";
+import type { JobChecklistItem, RoleChecklist, RoleChecklistTemplate } from "./types";
+
+/**
+ * Get the org's role checklists (managers only)
+ */
+export async function getChecklistTemplates(): Promise<{ data?: RoleChecklistTemplate[]; error?: string }> {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return { error: permError || "Unauthorized" };
+  }
+
+  const { data, error } = await supabase
+    .from('role_checklist_templates')
+    .select('*')
+    .eq('org_id', profile.org_id)
+    .order('role_name', { ascending: true });
+
+  if (error) {
+    console.error("Error fetching checklist templates:", error);
+    return { error: "Failed to fetch checklists" };
+  }
+
+  return { data: (data || []) as RoleChecklistTemplate[] };
+}
+
+/**
+ * Get the checklist of every role on a job, with who ticked each item off
+ * (managers only). Roles without a checklist are included with no items.
+ */
+export async function getJobChecklists(jobId: string): Promise<{ data?: RoleChecklist[]; error?: string }> {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return { error: permError || "Unauthorized" };
+  }
+
+  // Verify the job belongs to the user's organization
+  const { verified, error: jobVerifyError } = await verifyJobOrganization(
+    supabase,
+    jobId,
+    profile.org_id!
+  );
+
+  if (!verified) {
+    return { error: jobVerifyError || "Job not found or not authorized" };
+  }
+
+  const { data, error } = await supabase
+    .from('job_required_roles')
+    .select(`
+      id,
+      role_name,
+      items:job_role_checklist_items (
+        *,
+        completed_by:completed_by_user_id (
+          full_name
+        )
+      )
+    `)
+    .eq('job_id', jobId)
+    .order('role_name', { ascending: true });
+
+  if (error) {
+    console.error("Error fetching job checklists:", error);
+    return { error: "Failed to fetch checklists" };
+  }
+
+  return {
+    data: (data || []).map((role: any) => ({
+      job_required_role_id: role.id,
+      role_name: role.role_name,
+      items: sortItems(role.items || []),
+    })),
+  };
+}
+
+/**
+ * Get the checklists for the current user's roles on a job. RLS only returns
+ * items for roles the user is assigned to.
+ */
+export async function getMyJobChecklists(jobId: string): Promise<{ data?: RoleChecklist[]; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { error: "You must be logged in" };
+  }
+
+  const { data, error } = await supabase
+    .from('job_role_checklist_items')
+    .select(`
+      *,
+      job_required_role:job_required_role_id (
+        role_name
+      )
+    `)
+    .eq('job_id', jobId);
+
+  if (error) {
+    console.error("Error fetching checklist:", error);
+    return { error: "Failed to fetch checklist" };
+  }
+
+  const checklists = new Map<string, RoleChecklist>();
+  for (const row of (data || []) as any[]) {
+    const role = Array.isArray(row.job_required_role) ? row.job_required_role[0] : row.job_required_role;
+    const { job_required_role: _role, ...item } = row;
+    const checklist: RoleChecklist = checklists.get(row.job_required_role_id) || {
+      job_required_role_id: row.job_required_role_id,
+      role_name: role?.role_name || '',
+      items: [],
+    };
+    checklist.items.push(item as JobChecklistItem);
+    checklists.set(row.job_required_role_id, checklist);
+  }
+
+  return {
+    data: Array.from(checklists.values()).map(checklist => ({
+      ...checklist,
+      items: sortItems(checklist.items),
+    })),
+  };
+}
+
+function sortItems(items: JobChecklistItem[]): JobChecklistItem[] {
+  return [...items].sort((a, b) => a.position - b.position);
+}
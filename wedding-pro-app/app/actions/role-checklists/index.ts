@@ -0,0 +1,10 @@
+"use server";
+
+// This file re-exports all public actions and types related to role checklists.
+
+export { saveChecklistTemplate, addJobChecklistItem, applyChecklistTemplate } from './create';
+export { getChecklistTemplates, getJobChecklists, getMyJobChecklists } from './fetch';
+export { deleteChecklistTemplate, deleteJobChecklistItem, setChecklistItemCompleted } from './update';
+
+// Re-export all types from the dedicated types module
+export * from './types';
@@ -0,0 +1,36 @@
+/**
+ * An org's checklist for a role, copied onto that role on every new job
+ */
+export type RoleChecklistTemplate = {
+  id: string;
+  org_id: string;
+  role_name: string;
+  items: string[];
+  created_by_user_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * One item of a job role's checklist
+ */
+export type JobChecklistItem = {
+  id: string;
+  job_id: string;
+  job_required_role_id: string;
+  label: string;
+  position: number;
+  completed_at: string | null;
+  completed_by_user_id: string | null;
+  created_at: string;
+  completed_by?: { full_name: string | null } | null;
+};
+
+/**
+ * A job role with its checklist items in order
+ */
+export type RoleChecklist = {
+  job_required_role_id: string;
+  role_name: string;
+  items: JobChecklistItem[];
+};
@@ -0,0 +1,122 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+import { encodedRedirect } from "@/utils/utils";
+import { checkManagerPermission, verifyJobOrganization } from "../jobs/utils";
+
+/**
+ * Delete one of the org's role checklists. Jobs that already have a copy keep it.
+ */
+export async function deleteChecklistTemplate(formData: FormData) {
+  const supabase = await createClient();
+  const checklistsPath = "/dashboard/manager/jobs/checklists";
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  const templateId = formData.get("templateId")?.toString();
+  if (!templateId) {
+    return encodedRedirect("error", checklistsPath, "Checklist ID is required");
+  }
+
+  const { error } = await supabase
+    .from('role_checklist_templates')
+    .delete()
+    .eq('id', templateId)
+    .eq('org_id', profile.org_id);
+
+  if (error) {
+    console.error("Error deleting checklist template:", error);
+    return encodedRedirect("error", checklistsPath, error.message);
+  }
+
+  revalidatePath(checklistsPath);
+  return encodedRedirect("success", checklistsPath, "Checklist deleted");
+}
+
+/**
+ * Remove an item from a job role's checklist
+ */
+export async function deleteJobChecklistItem(formData: FormData) {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  const jobId = formData.get("jobId")?.toString();
+  const itemId = formData.get("itemId")?.toString();
+  if (!jobId || !itemId) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", "Job ID and item ID are required");
+  }
+  const jobPath = `/dashboard/manager/jobs/${jobId}`;
+
+  // Verify the job belongs to the user's organization
+  const { verified, error: jobVerifyError } = await verifyJobOrganization(
+    supabase,
+    jobId,
+    profile.org_id!
+  );
+
+  if (!verified) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", jobVerifyError || "Job not found or not authorized");
+  }
+
+  const { error } = await supabase
+    .from('job_role_checklist_items')
+    .delete()
+    .eq('id', itemId)
+    .eq('job_id', jobId);
+
+  if (error) {
+    console.error("Error deleting checklist item:", error);
+    return encodedRedirect("error", jobPath, error.message);
+  }
+
+  revalidatePath(jobPath);
+  revalidatePath(`/dashboard/employee/jobs/${jobId}`);
+  return encodedRedirect("success", jobPath, "Checklist item removed");
+}
+
+/**
+ * Tick a checklist item off, or untick it (assigned staff only)
+ */
+export async function setChecklistItemCompleted(formData: FormData) {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return encodedRedirect("error", "/sign-in", "You must be logged in");
+  }
+
+  const jobId = formData.get("jobId")?.toString();
+  const itemId = formData.get("itemId")?.toString();
+  const completed = formData.get("completed")?.toString() === "true";
+  if (!jobId || !itemId) {
+    return encodedRedirect("error", "/dashboard/employee/schedule", "Job ID and item ID are required");
+  }
+  const daySheetPath = `/dashboard/employee/jobs/${jobId}`;
+
+  // Checks that the user is assigned to the item's role
+  const { data: updated, error } = await supabase.rpc('set_checklist_item_completed', {
+    p_item_id: itemId,
+    p_completed: completed
+  });
+
+  if (error || !updated) {
+    console.error("Error updating checklist item:", error);
+    return encodedRedirect("error", daySheetPath, error?.message || "You can't update this checklist");
+  }
+
+  revalidatePath(daySheetPath);
+  revalidatePath(`/dashboard/manager/jobs/${jobId}`);
+  // No message: ticking items off shouldn't flash a banner each time
+  return redirect(daySheetPath);
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateExpectedEarnings,
+  calculateLaborCost,
+  describeCompensation,
+  EMPTY_COMPENSATION,
+  getShiftHours,
+  parseRoleCompensation
+} from './client-utils';
+import type { RoleCompensation } from './types';
+
+const hourly: RoleCompensation = {
+  pay_type: 'hourly',
+  pay_rate: 40,
+  min_hours: 4,
+  overtime_after_hours: 8,
+  overtime_multiplier: 1.5,
+  bonus_amount: 25,
+};
+
+describe('role compensation client utils', () => {
+  describe('parseRoleCompensation', () => {
+    it('should read an hourly rule and drop hourly-only fields for flat pay', () => {
+      expect(
+        parseRoleCompensation({
+          pay_type: 'hourly',
+          pay_rate: '40',
+          min_hours: '4',
+          overtime_after_hours: '8',
+          overtime_multiplier: '',
+          bonus_amount: '25',
+        })
+      ).toEqual({ compensation: hourly });
+
+      expect(
+        parseRoleCompensation({ pay_type: 'flat', pay_rate: '450', min_hours: '4', bonus_amount: '' })
+      ).toEqual({ compensation: { ...EMPTY_COMPENSATION, pay_rate: 450 } });
+    });
+
+    it('should reject negative amounts and overtime that starts before the minimum', () => {
+      expect(parseRoleCompensation({ pay_type: 'flat', pay_rate: '-5' }).error).toMatch(/Pay rate/);
+      expect(parseRoleCompensation({ pay_type: 'flat', pay_rate: 'abc' }).error).toMatch(/Pay rate/);
+      expect(
+        parseRoleCompensation({ pay_type: 'hourly', pay_rate: '40', min_hours: '6', overtime_after_hours: '4' }).error
+      ).toMatch(/Overtime/);
+      expect(
+        parseRoleCompensation({ pay_type: 'hourly', pay_rate: '40', overtime_multiplier: '0.5' }).error
+      ).toMatch(/multiplier/);
+    });
+  });
+
+  describe('calculateExpectedEarnings', () => {
+    it('should pay flat roles their day rate whatever the shift length', () => {
+      const earnings = calculateExpectedEarnings({ ...EMPTY_COMPENSATION, pay_rate: 450, bonus_amount: 50 }, 11);
+
+      expect(earnings?.total).toBe(500);
+    });
+
+    it('should apply the minimum hours and overtime to hourly roles', () => {
+      // 3 hours is paid as the 4 hour minimum
+      expect(calculateExpectedEarnings(hourly, 3)).toMatchObject({ regular_hours: 4, overtime_hours: 0, total: 185 });
+
+      // 10 hours is 8 at $40 and 2 at $60, plus the bonus
+      expect(calculateExpectedEarnings(hourly, 10)).toEqual({
+        regular_hours: 8,
+        overtime_hours: 2,
+        base_pay: 320,
+        overtime_pay: 120,
+        bonus: 25,
+        total: 465,
+      });
+    });
+
+    it('should return null when the role has no pay set', () => {
+      expect(calculateExpectedEarnings(EMPTY_COMPENSATION, 8)).toBeNull();
+    });
+  });
+
+  describe('calculateLaborCost', () => {
+    it('should multiply by the people needed and count roles without pay', () => {
+      const cost = calculateLaborCost([
+        { ...hourly, quantity_needed: 2, hours: 10 },
+        { ...EMPTY_COMPENSATION, pay_rate: 450, quantity_needed: 1, hours: 10 },
+        { ...EMPTY_COMPENSATION, quantity_needed: 3, hours: 10 },
+      ]);
+
+      expect(cost).toEqual({ total: 1380, unpricedRoles: 1 });
+    });
+  });
+
+  it('should measure shifts and describe pay rules', () => {
+    expect(getShiftHours('2025-06-14T14:00:00Z', '2025-06-14T23:30:00Z')).toBe(9.5);
+    expect(describeCompensation(hourly)).toBe('$40.00/hr, 4 hr minimum, 1.5× after 8 hr, + $25.00 bonus');
+    expect(describeCompensation({ ...EMPTY_COMPENSATION, pay_rate: 450 })).toBe('$450.00 day rate');
+    expect(describeCompensation(EMPTY_COMPENSATION)).toBe('Pay not set');
+  });
+});
@@ -0,0 +1,203 @@
+import type { EarningsBreakdown, PayType, RoleCompensation } from "./types";
+
+/**
+ * Display names for pay types
+ */
+export const PAY_TYPE_LABELS: Record<PayType, string> = {
+  flat: 'Flat day rate',
+  hourly: 'Hourly',
+};
+
+/**
+ * Overtime multiplier used when a manager doesn't set one
+ */
+export const DEFAULT_OVERTIME_MULTIPLIER = 1.5;
+
+/**
+ * A role with no pay set yet
+ */
+export const EMPTY_COMPENSATION: RoleCompensation = {
+  pay_type: 'flat',
+  pay_rate: null,
+  min_hours: null,
+  overtime_after_hours: null,
+  overtime_multiplier: DEFAULT_OVERTIME_MULTIPLIER,
+  bonus_amount: 0,
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+const roundHours = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Read a pay rule from the compensation form fields. A blank rate clears the
+ * role's pay. Minimum hours and overtime only apply to hourly roles, so they
+ * are dropped for flat pay.
+ */
+export function parseRoleCompensation(
+  values: Record<string, string | null | undefined>
+): { compensation?: RoleCompensation; error?: string } {
+  const payType = values.pay_type === 'hourly' ? 'hourly' : 'flat';
+
+  const readNumber = (name: string): number | null | undefined => {
+    const raw = values[name]?.trim();
+    if (!raw) return null;
+    const value = Number(raw);
+    return Number.isFinite(value) ? value : undefined;
+  };
+
+  const payRate = readNumber('pay_rate');
+  const minHours = readNumber('min_hours');
+  const overtimeAfterHours = readNumber('overtime_after_hours');
+  const overtimeMultiplier = readNumber('overtime_multiplier');
+  const bonusAmount = readNumber('bonus_amount');
+
+  if (payRate === undefined || (payRate !== null && payRate < 0)) {
+    return { error: "Pay rate must be a positive amount" };
+  }
+  if (bonusAmount === undefined || (bonusAmount !== null && bonusAmount < 0)) {
+    return { error: "Bonus must be a positive amount" };
+  }
+
+  if (payType === 'flat') {
+    return {
+      compensation: {
+        ...EMPTY_COMPENSATION,
+        pay_rate: payRate,
+        bonus_amount: bonusAmount ?? 0,
+      },
+    };
+  }
+
+  if (minHours === undefined || (minHours !== null && minHours <= 0)) {
+    return { error: "Minimum hours must be more than 0" };
+  }
+  if (overtimeAfterHours === undefined || (overtimeAfterHours !== null && overtimeAfterHours <= 0)) {
+    return { error: "Overtime must start after more than 0 hours" };
+  }
+  if (overtimeMultiplier === undefined || (overtimeMultiplier !== null && overtimeMultiplier < 1)) {
+    return { error: "Overtime multiplier must be at least 1" };
+  }
+  if (minHours !== null && overtimeAfterHours !== null && overtimeAfterHours < minHours) {
+    return { error: "Overtime can't start before the minimum hours are reached" };
+  }
+
+  return {
+    compensation: {
+      pay_type: 'hourly',
+      pay_rate: payRate,
+      min_hours: minHours,
+      overtime_after_hours: overtimeAfterHours,
+      overtime_multiplier: overtimeMultiplier ?? DEFAULT_OVERTIME_MULTIPLIER,
+      bonus_amount: bonusAmount ?? 0,
+    },
+  };
+}
+
+/**
+ * Hours between the start and end of a shift
+ */
+export function getShiftHours(startTime: string, endTime: string): number {
+  const hours = (new Date(endTime).getTime() - new Date(startTime).getTime()) / (60 * 60 * 1000);
+  return Number.isFinite(hours) && hours > 0 ? roundHours(hours) : 0;
+}
+
+/**
+ * What one person in a role is expected to earn for a shift of the given
+ * length. Hourly roles are paid at least their minimum hours, and hours past
+ * the overtime threshold at the overtime multiplier. Returns null when the
+ * role has no pay set.
+ */
+export function calculateExpectedEarnings(
+  compensation: RoleCompensation,
+  hours: number
+): EarningsBreakdown | null {
+  if (compensation.pay_rate === null || compensation.pay_rate === undefined) {
+    return null;
+  }
+
+  const rate = Number(compensation.pay_rate);
+  const bonus = Number(compensation.bonus_amount || 0);
+
+  if (compensation.pay_type === 'flat') {
+    return {
+      regular_hours: 0,
+      overtime_hours: 0,
+      base_pay: roundMoney(rate),
+      overtime_pay: 0,
+      bonus: roundMoney(bonus),
+      total: roundMoney(rate + bonus),
+    };
+  }
+
+  const paidHours = Math.max(hours, Number(compensation.min_hours || 0));
+  const threshold = compensation.overtime_after_hours === null || compensation.overtime_after_hours === undefined
+    ? Infinity
+    : Number(compensation.overtime_after_hours);
+  const regularHours = Math.min(paidHours, threshold);
+  const overtimeHours = paidHours - regularHours;
+
+  const basePay = regularHours * rate;
+  const overtimePay = overtimeHours * rate * Number(compensation.overtime_multiplier || DEFAULT_OVERTIME_MULTIPLIER);
+
+  return {
+    regular_hours: roundHours(regularHours),
+    overtime_hours: roundHours(overtimeHours),
+    base_pay: roundMoney(basePay),
+    overtime_pay: roundMoney(overtimePay),
+    bonus: roundMoney(bonus),
+    total: roundMoney(basePay + overtimePay + bonus),
+  };
+}
+
+/**
+ * Expected cost of staffing a set of roles: each role's expected earnings for
+ * its shift, times the number of people it needs. Roles without pay are
+ * counted in `unpricedRoles` rather than guessed at.
+ */
+export function calculateLaborCost(
+  roles: (RoleCompensation & { quantity_needed: number; hours: number })[]
+): { total: number; unpricedRoles: number } {
+  let total = 0;
+  let unpricedRoles = 0;
+
+  for (const role of roles) {
+    const earnings = calculateExpectedEarnings(role, role.hours);
+    if (!earnings) {
+      unpricedRoles += 1;
+      continue;
+    }
+    total += earnings.total * (role.quantity_needed || 1);
+  }
+
+  return { total: roundMoney(total), unpricedRoles };
+}
+
+/**
+ * Describe a pay rule in a line, e.g. "$45.00/hr, 4 hr minimum, 1.5× after 8 hr, + $50.00 bonus"
+ */
+export function describeCompensation(compensation: RoleCompensation): string {
+  if (compensation.pay_rate === null || compensation.pay_rate === undefined) {
+    return 'Pay not set';
+  }
+
+  const formatMoney = (value: number) => `$${Number(value).toFixed(2)}`;
+  const parts: string[] = [];
+
+  if (compensation.pay_type === 'flat') {
+    parts.push(`${formatMoney(compensation.pay_rate)} day rate`);
+  } else {
+    parts.push(`${formatMoney(compensation.pay_rate)}/hr`);
+    if (compensation.min_hours) {
+      parts.push(`${Number(compensation.min_hours)} hr minimum`);
+    }
+    if (compensation.overtime_after_hours) {
+      parts.push(`${Number(compensation.overtime_multiplier)}× after ${Number(compensation.overtime_after_hours)} hr`);
+    }
+  }
+
+  if (Number(compensation.bonus_amount) > 0) {
+    parts.push(`+ ${formatMoney(compensation.bonus_amount)} bonus`);
+  }
+
+  return parts.join(', ');
+}
@@ -0,0 +1,8 @@
+"use server";
+
+// This file re-exports all public actions and types related to role compensation.
+
+export { updateRoleCompensation } from './update';
+
+// Re-export all types from the dedicated types module
+export * from './types';
@@ -0,0 +1,30 @@
+/**
+ * How a job role is paid
+ */
+export type PayType =
+  | 'flat'    // A day rate, whatever the shift length
+  | 'hourly'; // Per hour of the shift, with an optional minimum and overtime
+
+/**
+ * The pay rule stored on a job_required_roles row, for one person in the role
+ */
+export type RoleCompensation = {
+  pay_type: PayType;
+  pay_rate: number | null; // Day rate or hourly rate; null until pay is set
+  min_hours: number | null; // Hourly only: hours paid even if the shift is shorter
+  overtime_after_hours: number | null; // Hourly only: overtime starts after this many hours
+  overtime_multiplier: number;
+  bonus_amount: number;
+};
+
+/**
+ * What one person is expected to earn for a shift in a role
+ */
+export type EarningsBreakdown = {
+  regular_hours: number; // Hours paid at the base rate (0 for flat pay)
+  overtime_hours: number;
+  base_pay: number;
+  overtime_pay: number;
+  bonus: number;
+  total: number;
+};
@@ -0,0 +1,62 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { checkManagerPermission, verifyJobOrganization } from "../jobs/utils";
+import { describeCompensation, parseRoleCompensation } from "./client-utils";
+
+/**
+ * Set what each person filling a job role is paid
+ */
+export async function updateRoleCompensation(jobId: string, jobRequiredRoleId: string, formData: FormData) {
+  const supabase = await createClient();
+  const jobPath = `/dashboard/manager/jobs/${jobId}`;
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  // Verify the job belongs to the user's organization
+  const { verified, error: jobVerifyError } = await verifyJobOrganization(
+    supabase,
+    jobId,
+    profile.org_id!
+  );
+
+  if (!verified) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", jobVerifyError || "Job not found or not authorized");
+  }
+
+  const { compensation, error: parseError } = parseRoleCompensation({
+    pay_type: formData.get("pay_type")?.toString(),
+    pay_rate: formData.get("pay_rate")?.toString(),
+    min_hours: formData.get("min_hours")?.toString(),
+    overtime_after_hours: formData.get("overtime_after_hours")?.toString(),
+    overtime_multiplier: formData.get("overtime_multiplier")?.toString(),
+    bonus_amount: formData.get("bonus_amount")?.toString()
+  });
+
+  if (!compensation) {
+    return encodedRedirect("error", jobPath, parseError || "Invalid pay");
+  }
+
+  const { data: role, error } = await supabase
+    .from('job_required_roles')
+    .update(compensation)
+    .eq('id', jobRequiredRoleId)
+    .eq('job_id', jobId)
+    .select('role_name')
+    .single();
+
+  if (error || !role) {
+    console.error("Error updating role compensation:", error);
+    return encodedRedirect("error", jobPath, error?.message || "Role not found");
+  }
+
+  revalidatePath(jobPath);
+  revalidatePath(`/dashboard/employee/jobs/${jobId}`);
+  return encodedRedirect("success", jobPath, `${role.role_name}: ${describeCompensation(compensation)}`);
+}
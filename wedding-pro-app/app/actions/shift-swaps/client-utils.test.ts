@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getSwapBlockers,
+  getSwapTurnaroundIssue,
+  hasSlotStarted,
+  validateShiftSwapPost
+} from './client-utils';
+
+describe('shift swap client utils', () => {
+  describe('validateShiftSwapPost', () => {
+    it('should accept a swap or giveaway with an optional note', () => {
+      expect(validateShiftSwapPost({ kind: 'swap' })).toBeNull();
+      expect(validateShiftSwapPost({ kind: 'giveaway', note: 'Family wedding that weekend' })).toBeNull();
+    });
+
+    it('should reject an unknown kind or an overlong note', () => {
+      expect(validateShiftSwapPost({ kind: 'trade' })).toMatch(/swap or give away/);
+      expect(validateShiftSwapPost({ kind: null })).toMatch(/swap or give away/);
+      expect(validateShiftSwapPost({ kind: 'swap', note: 'x'.repeat(501) })).toMatch(/at most 500/);
+    });
+  });
+
+  describe('hasSlotStarted', () => {
+    it('should treat a shift as started from its start time', () => {
+      const now = new Date('2025-06-21T14:00:00Z');
+      expect(hasSlotStarted({ start_time: '2025-06-21T14:00:00Z' }, now)).toBe(true);
+      expect(hasSlotStarted({ start_time: '2025-06-21T14:30:00Z' }, now)).toBe(false);
+    });
+  });
+
+  describe('getSwapTurnaroundIssue', () => {
+    const booked = [
+      { assignment_id: 'a1', job_id: 'j1', shift_id: 's1', start_time: '2025-06-21T14:00', end_time: '2025-06-21T18:00', venue_id: 'v1' },
+      { assignment_id: 'a2', job_id: 'j3', shift_id: null, start_time: '2025-06-28T14:00', end_time: '2025-06-28T18:00', venue_id: 'v1' },
+    ];
+    const slot = { job_id: 'j2', start_time: '2025-06-21T16:00', end_time: '2025-06-21T22:00', venue_id: 'v2' };
+
+    it('should flag a clash with another booking', () => {
+      expect(getSwapTurnaroundIssue(slot, booked, { bufferMinutes: 30, travelTimes: {} })).toMatchObject({
+        severity: 'conflict',
+        booked: { assignment_id: 'a1' }
+      });
+    });
+
+    it('should leave out the assignment given up in return', () => {
+      expect(getSwapTurnaroundIssue(slot, booked, {
+        bufferMinutes: 30,
+        travelTimes: {},
+        releasedAssignmentId: 'a1'
+      })).toBeNull();
+    });
+  });
+
+  describe('getSwapBlockers', () => {
+    const booked = { assignment_id: 'a1', job_id: 'j1', shift_id: null, start_time: '2025-06-21T14:00', end_time: '2025-06-21T18:00' };
+
+    it('should list missing qualifications and clashes', () => {
+      expect(getSwapBlockers(
+        { eligible: false, reasons: ['Not approved for Lead Photographer'] },
+        { severity: 'conflict', message: 'Time conflict with another job', booked }
+      )).toEqual(['Not approved for Lead Photographer', 'Time conflict with another job']);
+    });
+
+    it('should not block on a tight turnaround', () => {
+      expect(getSwapBlockers(
+        { eligible: true, reasons: [] },
+        { severity: 'tight', message: 'Tight turnaround', booked }
+      )).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { findTurnaroundIssue } from "../job-shifts/client-utils";
+import type { BookedWindow, TravelTimes, TurnaroundIssue } from "../job-shifts/types";
+import type { RoleEligibility } from "../qualifications/types";
+import type { ShiftSwapKind, ShiftSwapSlot, ShiftSwapStatus } from "./types";
+
+export const MAX_SHIFT_SWAP_NOTE_LENGTH = 500;
+
+export const SHIFT_SWAP_KIND_LABELS: Record<ShiftSwapKind, string> = {
+  swap: 'Swap',
+  giveaway: 'Giveaway'
+};
+
+export const SHIFT_SWAP_STATUS_LABELS: Record<ShiftSwapStatus, string> = {
+  open: 'Open',
+  claimed: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled'
+};
+
+/**
+ * Whether a form value is a post kind
+ */
+export function isShiftSwapKind(value: string | null | undefined): value is ShiftSwapKind {
+  return value === 'swap' || value === 'giveaway';
+}
+
+/**
+ * Validate a new post. Returns an error message, or null if it's valid.
+ */
+export function validateShiftSwapPost(input: { kind: string | null | undefined; note?: string | null }): string | null {
+  if (!isShiftSwapKind(input.kind)) {
+    return "Choose whether to swap or give away the shift";
+  }
+  if ((input.note || '').trim().length > MAX_SHIFT_SWAP_NOTE_LENGTH) {
+    return `Notes can be at most ${MAX_SHIFT_SWAP_NOTE_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Whether a shift has started, after which it can't change hands
+ */
+export function hasSlotStarted(slot: Pick<ShiftSwapSlot, 'start_time'>, now: Date = new Date()): boolean {
+  return new Date(slot.start_time).getTime() <= now.getTime();
+}
+
+/**
+ * Check whether someone can make a shift they'd take in a swap. The
+ * assignment they give up in return is left out, since they won't be working
+ * it; otherwise this is the same check as booking them.
+ */
+export function getSwapTurnaroundIssue(
+  slot: Pick<ShiftSwapSlot, 'job_id' | 'start_time' | 'end_time' | 'venue_id'>,
+  booked: BookedWindow[],
+  options: { bufferMinutes: number; travelTimes: TravelTimes; releasedAssignmentId?: string | null }
+): TurnaroundIssue | null {
+  return findTurnaroundIssue(
+    slot,
+    booked.filter(b => b.assignment_id !== options.releasedAssignmentId),
+    { bufferMinutes: options.bufferMinutes, travelTimes: options.travelTimes }
+  );
+}
+
+/**
+ * Everything stopping someone taking a shift: missing qualifications and
+ * clashes with their bookings. A tight turnaround doesn't stop them.
+ */
+export function getSwapBlockers(eligibility: RoleEligibility, turnaround: TurnaroundIssue | null): string[] {
+  const blockers = [...eligibility.reasons];
+  if (turnaround?.severity === 'conflict') {
+    blockers.push(turnaround.message);
+  }
+  return blockers;
+}
@@ -0,0 +1,91 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { getCurrentUserProfile } from "@/utils/supabase/auth-helpers";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { hasSlotStarted, validateShiftSwapPost } from "./client-utils";
+import { getAssignmentSlots } from "./utils";
+
+const marketplacePath = "/dashboard/employee/shift-swaps";
+
+/**
+ * Put one of the current user's upcoming assignments up for swap or
+ * giveaway. They stay booked until a manager approves a claim.
+ */
+export async function postShiftSwap(formData: FormData) {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return encodedRedirect("error", "/sign-in", "You must be logged in");
+  }
+
+  const profile = await getCurrentUserProfile();
+  if (!profile?.org_id) {
+    return encodedRedirect("error", marketplacePath, "Profile not found");
+  }
+
+  const assignmentId = formData.get("assignmentId")?.toString();
+  const kind = formData.get("kind")?.toString();
+  const note = formData.get("note")?.toString().trim() || null;
+
+  if (!assignmentId) {
+    return encodedRedirect("error", marketplacePath, "Choose a shift to post");
+  }
+
+  const validationError = validateShiftSwapPost({ kind, note });
+  if (validationError) {
+    return encodedRedirect("error", marketplacePath, validationError);
+  }
+
+  const { data: assignments } = await getAssignmentSlots(supabase, [assignmentId]);
+  const assignment = assignments?.[assignmentId];
+  if (!assignment || assignment.user_id !== user.id) {
+    return encodedRedirect("error", marketplacePath, "Shift not found");
+  }
+
+  if (hasSlotStarted(assignment.slot)) {
+    return encodedRedirect("error", marketplacePath, "This shift has already started");
+  }
+
+  const { data: dropRequests } = await supabase
+    .from('drop_requests')
+    .select('id')
+    .eq('job_assignment_id', assignmentId)
+    .in('status', ['pending', 'escalated'])
+    .limit(1);
+
+  if (dropRequests && dropRequests.length > 0) {
+    return encodedRedirect("error", marketplacePath, "You've already asked to drop this shift");
+  }
+
+  const { error } = await supabase
+    .from('shift_swap_posts')
+    .insert({
+      org_id: assignment.slot.org_id,
+      job_id: assignment.slot.job_id,
+      job_required_role_id: assignment.slot.job_required_role_id,
+      job_assignment_id: assignmentId,
+      posted_by_user_id: user.id,
+      kind,
+      note
+    });
+
+  if (error) {
+    console.error("Error posting shift swap:", error);
+    return encodedRedirect(
+      "error",
+      marketplacePath,
+      error.code === '23505' ? "This shift is already posted" : "Failed to post the shift"
+    );
+  }
+
+  revalidatePath(marketplacePath);
+  revalidatePath('/dashboard/manager/shift-swaps');
+  return encodedRedirect(
+    "success",
+    marketplacePath,
+    `${assignment.slot.role_name} on ${assignment.slot.job_title} is posted. You're still booked until a manager approves a claim.`
+  );
+}
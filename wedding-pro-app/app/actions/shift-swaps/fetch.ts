@@ -0,0 +1,159 @@
+"use server";
+
+import { createClient, createServiceRoleClient } from "@/utils/supabase/server";
+import { getCurrentUserProfile } from "@/utils/supabase/auth-helpers";
+import { checkManagerPermission } from "../jobs/utils";
+import { hasSlotStarted } from "./client-utils";
+import { checkSwapFit, findSwapProblems, getAssignmentSlots, getShiftSwapDetails } from "./utils";
+import type { ShiftSwapApprovals, ShiftSwapMarketplace, ShiftSwapPost, SwappableAssignment } from "./types";
+
+const POST_SELECT = '*, poster:posted_by_user_id ( full_name, email ), claimant:claimed_by_user_id ( full_name, email )';
+
+/**
+ * Get the current user's marketplace: other employees' open posts (with
+ * anything stopping them claiming each), their own live posts and claims,
+ * and their upcoming assignments to post or offer in return.
+ */
+export async function getShiftSwapMarketplace(): Promise<{ data?: ShiftSwapMarketplace; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { error: "You must be logged in" };
+  }
+
+  const profile = await getCurrentUserProfile();
+  if (!profile?.org_id) {
+    return { error: "Profile not found" };
+  }
+
+  const [{ data: posts, error: postsError }, { data: assignments, error: assignmentsError }] = await Promise.all([
+    supabase
+      .from('shift_swap_posts')
+      .select(POST_SELECT)
+      .eq('org_id', profile.org_id)
+      .in('status', ['open', 'claimed'])
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('job_assignments')
+      .select('id')
+      .eq('user_id', user.id)
+      .neq('status', 'declined')
+  ]);
+
+  if (postsError || assignmentsError) {
+    console.error("Error fetching shift swaps:", postsError || assignmentsError);
+    return { error: "Failed to fetch shift swaps" };
+  }
+
+  // Employees can't read the other side's assignment, which they need to see what a swap offers
+  const [{ data: details, error: detailsError }, { data: assignmentSlots, error: slotsError }] = await Promise.all([
+    getShiftSwapDetails(createServiceRoleClient(), (posts || []) as ShiftSwapPost[]),
+    getAssignmentSlots(supabase, (assignments || []).map(assignment => assignment.id))
+  ]);
+
+  if (detailsError || slotsError || !details || !assignmentSlots) {
+    return { error: detailsError || slotsError || "Failed to fetch shift swaps" };
+  }
+
+  const myAssignments: SwappableAssignment[] = Object.entries(assignmentSlots)
+    .map(([id, { slot }]) => ({ id, slot }))
+    .filter(({ slot }) => !hasSlotStarted(slot))
+    .sort((a, b) => new Date(a.slot.start_time).getTime() - new Date(b.slot.start_time).getTime());
+
+  const upcoming = details.filter(post => !hasSlotStarted(post.slot));
+  const open = upcoming.filter(post => post.status === 'open' && post.posted_by_user_id !== user.id);
+
+  const { data: fit, error: fitError } = await checkSwapFit(
+    supabase,
+    profile.org_id,
+    user.id,
+    open.map(post => ({ slot: post.slot }))
+  );
+
+  if (fitError || !fit) {
+    return { error: fitError || "Failed to check the shifts" };
+  }
+
+  const myRoleIds = new Set(myAssignments.map(assignment => assignment.slot.job_required_role_id));
+  const listings = open.map((post, index) => {
+    const blockers = [...fit[index]];
+    if (myRoleIds.has(post.job_required_role_id)) {
+      blockers.unshift("You're already working this role");
+    }
+    if (post.kind === 'swap' && myAssignments.length === 0) {
+      blockers.push("You have no upcoming shifts to offer in return");
+    }
+    return { ...post, blockers };
+  });
+
+  return {
+    data: {
+      listings,
+      myPosts: upcoming.filter(post => post.posted_by_user_id === user.id),
+      myClaims: upcoming.filter(post => post.claimed_by_user_id === user.id),
+      myAssignments
+    }
+  };
+}
+
+/**
+ * Get the org's claimed swaps waiting on approval, with anything that would
+ * stop each going through, plus shifts still on offer and the last few
+ * decisions. Managers only.
+ */
+export async function getShiftSwapsForApproval(): Promise<{ data?: ShiftSwapApprovals; error?: string }> {
+  const supabase = await createClient();
+
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile?.org_id) {
+    return { error: permError || "Unauthorized" };
+  }
+
+  const [{ data: live, error: liveError }, { data: decided, error: decidedError }] = await Promise.all([
+    supabase
+      .from('shift_swap_posts')
+      .select(POST_SELECT)
+      .eq('org_id', profile.org_id)
+      .in('status', ['open', 'claimed'])
+      .order('claimed_at', { ascending: true, nullsFirst: false }),
+    supabase
+      .from('shift_swap_posts')
+      .select(POST_SELECT)
+      .eq('org_id', profile.org_id)
+      .in('status', ['approved', 'rejected'])
+      .order('reviewed_at', { ascending: false })
+      .limit(20)
+  ]);
+
+  if (liveError || decidedError) {
+    console.error("Error fetching shift swaps:", liveError || decidedError);
+    return { error: "Failed to fetch shift swaps" };
+  }
+
+  const { data: details, error: detailsError } = await getShiftSwapDetails(
+    supabase,
+    [...(live || []), ...(decided || [])] as ShiftSwapPost[]
+  );
+
+  if (detailsError || !details) {
+    return { error: detailsError || "Failed to fetch shift swaps" };
+  }
+
+  const pending: ShiftSwapApprovals['pending'] = [];
+  for (const post of details.filter(post => post.status === 'claimed')) {
+    const { data: problems } = await findSwapProblems(supabase, post);
+    pending.push({
+      ...post,
+      problems: hasSlotStarted(post.slot) ? ["This shift has already started"] : problems || []
+    });
+  }
+
+  return {
+    data: {
+      pending,
+      open: details.filter(post => post.status === 'open' && !hasSlotStarted(post.slot)),
+      recent: details.filter(post => post.status === 'approved' || post.status === 'rejected')
+    }
+  };
+}
@@ -0,0 +1,10 @@
+"use server";
+
+// This file re-exports all public actions and types related to shift swaps.
+
+export { postShiftSwap } from './create';
+export { getShiftSwapMarketplace, getShiftSwapsForApproval } from './fetch';
+export { claimShiftSwap, withdrawFromShiftSwap, approveShiftSwap, rejectShiftSwap } from './update';
+
+// Re-export all types from the dedicated types module
+export * from './types';
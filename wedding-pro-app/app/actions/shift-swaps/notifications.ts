@@ -0,0 +1,158 @@
+"use server";
+
+import { createNotificationService } from "@/utils/notifications/notification-service";
+import { SupabaseClient } from "@supabase/supabase-js";
+import type { ShiftSwapDetails, ShiftSwapSlot } from "./types";
+
+/**
+ * e.g. `Photographer on "Smith Wedding" (Reception shift) on 6/14/2025 at 04:00 PM`
+ */
+function describeSlot(slot: ShiftSwapSlot): string {
+  const start = new Date(slot.start_time);
+  const shiftLabel = slot.shift_name ? ` (${slot.shift_name} shift)` : '';
+  return `${slot.role_name} on "${slot.job_title}"${shiftLabel} on ${start.toLocaleDateString()} ` +
+    `at ${start.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+}
+
+/**
+ * What changes hands, e.g. `Photographer on ... in exchange for Assistant on ...`
+ */
+function describeTrade(post: ShiftSwapDetails): string {
+  return post.claimed_slot
+    ? `${describeSlot(post.slot)} in exchange for ${describeSlot(post.claimed_slot)}`
+    : describeSlot(post.slot);
+}
+
+function getSwapMetadata(post: ShiftSwapDetails) {
+  return {
+    shiftSwapPostId: post.id,
+    kind: post.kind,
+    jobId: post.job_id,
+    jobRequiredRoleId: post.job_required_role_id,
+    roleName: post.slot.role_name,
+    startTime: post.slot.start_time,
+    claimedJobId: post.claimed_slot?.job_id || null
+  };
+}
+
+async function notifyUsers(
+  supabase: SupabaseClient,
+  userIds: string[],
+  event: { eventType: 'shift_swap_claimed' | 'shift_swap_approved' | 'shift_swap_rejected' | 'shift_swap_withdrawn'; title: string; body: string },
+  post: ShiftSwapDetails
+) {
+  const notificationService = createNotificationService(supabase);
+
+  for (const userId of userIds) {
+    try {
+      await notificationService.sendNotificationForEvent({
+        ...event,
+        userId,
+        metadata: getSwapMetadata(post)
+      });
+    } catch (error) {
+      console.error(`Error sending ${event.eventType} notification to ${userId}:`, error);
+    }
+  }
+}
+
+/**
+ * Tell the poster someone has claimed their shift, and the org's managers and
+ * admins that the swap needs approving
+ */
+export async function sendShiftSwapClaimedNotification(supabase: SupabaseClient, post: ShiftSwapDetails) {
+  const claimantName = post.claimant?.full_name || 'Another employee';
+  const posterName = post.poster?.full_name || 'An employee';
+
+  await notifyUsers(supabase, [post.posted_by_user_id], {
+    eventType: 'shift_swap_claimed',
+    title: `Shift Claimed: ${post.slot.role_name}`,
+    body: `${claimantName} claimed your ${describeTrade(post)}. You're still booked until a manager approves the swap.`
+  }, post);
+
+  const { data: managers } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('org_id', post.org_id)
+    .in('role', ['Manager', 'Admin']);
+
+  await notifyUsers(supabase, (managers || []).map(manager => manager.id), {
+    eventType: 'shift_swap_claimed',
+    title: `Swap Needs Approval: ${post.slot.role_name}`,
+    body: `${claimantName} wants to take ${posterName}'s ${describeTrade(post)}. Approve or reject it under Shift Swaps.`
+  }, post);
+}
+
+/**
+ * Tell both employees a manager approved their swap and what they now work
+ */
+export async function sendShiftSwapApprovedNotification(supabase: SupabaseClient, post: ShiftSwapDetails) {
+  const claimantName = post.claimant?.full_name || 'another employee';
+  const posterName = post.poster?.full_name || 'another employee';
+
+  await notifyUsers(supabase, [post.posted_by_user_id], {
+    eventType: 'shift_swap_approved',
+    title: `Swap Approved: ${post.slot.role_name}`,
+    body: post.claimed_slot
+      ? `Your ${describeSlot(post.slot)} now belongs to ${claimantName}, and you're booked for ${describeSlot(post.claimed_slot)}.`
+      : `Your ${describeSlot(post.slot)} now belongs to ${claimantName}. You're no longer booked for it.`
+  }, post);
+
+  if (post.claimed_by_user_id) {
+    await notifyUsers(supabase, [post.claimed_by_user_id], {
+      eventType: 'shift_swap_approved',
+      title: `Swap Approved: ${post.slot.role_name}`,
+      body: post.claimed_slot
+        ? `You're booked for ${describeSlot(post.slot)}, and ${posterName} takes your ${describeSlot(post.claimed_slot)}.`
+        : `You're booked for ${describeSlot(post.slot)}, taken over from ${posterName}.`
+    }, post);
+  }
+}
+
+/**
+ * Tell both employees a manager rejected their swap; the poster keeps the shift
+ */
+export async function sendShiftSwapRejectedNotification(supabase: SupabaseClient, post: ShiftSwapDetails) {
+  const reason = post.review_note ? ` Reason: ${post.review_note}` : '';
+
+  await notifyUsers(supabase, [post.posted_by_user_id], {
+    eventType: 'shift_swap_rejected',
+    title: `Swap Rejected: ${post.slot.role_name}`,
+    body: `A manager rejected the swap of your ${describeTrade(post)}. You're still booked for it.${reason}`
+  }, post);
+
+  if (post.claimed_by_user_id) {
+    await notifyUsers(supabase, [post.claimed_by_user_id], {
+      eventType: 'shift_swap_rejected',
+      title: `Swap Rejected: ${post.slot.role_name}`,
+      body: `A manager rejected your claim on ${describeTrade(post)}. Your schedule hasn't changed.${reason}`
+    }, post);
+  }
+}
+
+/**
+ * Tell the other side of a claimed post that the poster cancelled it or the
+ * claimant backed out
+ */
+export async function sendShiftSwapWithdrawnNotification(
+  supabase: SupabaseClient,
+  post: ShiftSwapDetails,
+  withdrawnBy: 'poster' | 'claimant'
+) {
+  if (withdrawnBy === 'poster') {
+    if (!post.claimed_by_user_id) return;
+
+    await notifyUsers(supabase, [post.claimed_by_user_id], {
+      eventType: 'shift_swap_withdrawn',
+      title: `Swap Cancelled: ${post.slot.role_name}`,
+      body: `${post.poster?.full_name || 'The poster'} is keeping ${describeTrade(post)}, so your claim has been cancelled.`
+    }, post);
+    return;
+  }
+
+  await notifyUsers(supabase, [post.posted_by_user_id], {
+    eventType: 'shift_swap_withdrawn',
+    title: `Claim Withdrawn: ${post.slot.role_name}`,
+    body: `${post.claimant?.full_name || 'The claimant'} withdrew their claim on your ${describeSlot(post.slot)}. It's open for others to claim again.`
+  }, post);
+}
@@ -0,0 +1,88 @@
+import type { StandbySlot } from "../standby/types";
+
+/**
+ * Whether the poster wants a shift back or is just giving theirs away
+ */
+export type ShiftSwapKind = 'swap' | 'giveaway';
+
+/**
+ * Where a posted shift stands
+ */
+export type ShiftSwapStatus = 'open' | 'claimed' | 'approved' | 'rejected' | 'cancelled';
+
+/**
+ * An assignment its employee has put up for swap or giveaway. 'claimed'
+ * posts are waiting on a manager.
+ */
+export type ShiftSwapPost = {
+  id: string;
+  org_id: string;
+  job_id: string;
+  job_required_role_id: string;
+  job_assignment_id: string;
+  posted_by_user_id: string;
+  kind: ShiftSwapKind;
+  note: string | null;
+  status: ShiftSwapStatus;
+  claimed_by_user_id: string | null;
+  claimed_assignment_id: string | null; // Swaps only: the claimant's shift the poster takes
+  claimed_at: string | null;
+  reviewed_by_user_id: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  created_at: string;
+};
+
+/**
+ * The job, role and shift of an assignment being swapped
+ */
+export type ShiftSwapSlot = StandbySlot;
+
+type PersonSummary = { full_name: string | null; email?: string | null } | null;
+
+/**
+ * A post with the shifts involved and the people on either side
+ */
+export type ShiftSwapDetails = ShiftSwapPost & {
+  slot: ShiftSwapSlot;
+  claimed_slot: ShiftSwapSlot | null; // The shift offered in return, for claimed swaps
+  poster: PersonSummary;
+  claimant: PersonSummary;
+};
+
+/**
+ * An open post on the marketplace, with whatever stops the current user
+ * taking it
+ */
+export type ShiftSwapListing = ShiftSwapDetails & {
+  blockers: string[]; // Empty when they can claim it
+};
+
+/**
+ * One of the current user's upcoming assignments, which they can post or
+ * offer in return for a swap
+ */
+export type SwappableAssignment = {
+  id: string;
+  slot: ShiftSwapSlot;
+};
+
+/**
+ * Everything on the current user's marketplace page
+ */
+export type ShiftSwapMarketplace = {
+  listings: ShiftSwapListing[];
+  myPosts: ShiftSwapDetails[];
+  myClaims: ShiftSwapDetails[];
+  myAssignments: SwappableAssignment[];
+};
+
+/**
+ * The org's swaps for managers: claims to approve, with anything that would
+ * stop them going through, shifts still on offer and recent decisions
+ */
+export type ShiftSwapApprovals = {
+  pending: (ShiftSwapDetails & { problems: string[] })[];
+  open: ShiftSwapDetails[];
+  recent: ShiftSwapDetails[];
+};
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { approveShiftSwap, rejectShiftSwap } from './update';
+import { createClient } from '@/utils/supabase/server';
+import { checkManagerPermission } from '../jobs/utils';
+import { findSwapProblems, getShiftSwapPostDetails } from './utils';
+import { sendShiftSwapApprovedNotification, sendShiftSwapRejectedNotification } from './notifications';
+
+vi.mock('@/utils/supabase/server', () => ({
+  createClient: vi.fn(),
+  createServiceRoleClient: vi.fn()
+}));
+
+vi.mock('@/utils/supabase/auth-helpers', () => ({
+  getCurrentUserProfile: vi.fn()
+}));
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn()
+}));
+
+// Hand back the redirect instead of throwing, so tests can check where it went
+vi.mock('@/utils/utils', () => ({
+  encodedRedirect: vi.fn((type: string, path: string, message: string) => ({ type, path, message }))
+}));
+
+vi.mock('../jobs/utils', () => ({
+  checkManagerPermission: vi.fn()
+}));
+
+vi.mock('./utils', () => ({
+  findSwapProblems: vi.fn(),
+  getAssignmentSlots: vi.fn(),
+  getShiftSwapPostDetails: vi.fn()
+}));
+
+vi.mock('./notifications', () => ({
+  sendShiftSwapApprovedNotification: vi.fn(),
+  sendShiftSwapClaimedNotification: vi.fn(),
+  sendShiftSwapRejectedNotification: vi.fn(),
+  sendShiftSwapWithdrawnNotification: vi.fn()
+}));
+
+const approvalsPath = '/dashboard/manager/shift-swaps';
+
+const claimedPost = {
+  id: 'post-1',
+  org_id: 'org-1',
+  job_id: 'job-1',
+  status: 'claimed',
+  kind: 'giveaway',
+  claimed_by_user_id: 'claimant',
+  slot: { job_id: 'job-1', role_name: 'Photographer', job_title: 'Smith Wedding' },
+  claimed_slot: null,
+  poster: { full_name: 'Pat Poster' },
+  claimant: { full_name: 'Sam Claimant' }
+};
+
+const formData = (values: Record<string, string>) => {
+  const data = new FormData();
+  for (const [key, value] of Object.entries(values)) {
+    data.append(key, value);
+  }
+  return data;
+};
+
+describe('shift swap approvals', () => {
+  const mockSupabase = {
+    rpc: vi.fn(),
+    from: vi.fn(),
+    update: vi.fn(),
+    eq: vi.fn(),
+    select: vi.fn(),
+    maybeSingle: vi.fn()
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (createClient as any).mockResolvedValue(mockSupabase);
+    mockSupabase.from.mockReturnValue(mockSupabase);
+    mockSupabase.update.mockReturnValue(mockSupabase);
+    mockSupabase.eq.mockReturnValue(mockSupabase);
+    mockSupabase.select.mockReturnValue(mockSupabase);
+
+    (checkManagerPermission as any).mockResolvedValue({
+      authorized: true,
+      user: { id: 'manager' },
+      profile: { org_id: 'org-1' }
+    });
+    (getShiftSwapPostDetails as any).mockResolvedValue({ data: claimedPost });
+    (findSwapProblems as any).mockResolvedValue({ data: [] });
+  });
+
+  describe('approveShiftSwap', () => {
+    it('should send someone who is not a manager to sign in', async () => {
+      (checkManagerPermission as any).mockResolvedValue({ authorized: false, error: 'Unauthorized' });
+
+      const result = await approveShiftSwap(formData({ postId: 'post-1' }));
+
+      expect(result).toEqual({ type: 'error', path: '/sign-in', message: 'Unauthorized' });
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should not approve a post from another organization', async () => {
+      (getShiftSwapPostDetails as any).mockResolvedValue({ data: { ...claimedPost, org_id: 'org-2' } });
+
+      const result = await approveShiftSwap(formData({ postId: 'post-1' }));
+
+      expect(result).toEqual({ type: 'error', path: approvalsPath, message: 'Swap not found' });
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a swap either side can no longer take', async () => {
+      (findSwapProblems as any).mockResolvedValue({
+        data: ['Sam Claimant: Not approved for Photographer', 'Pat Poster: Time conflict with another job']
+      });
+
+      const result = await approveShiftSwap(formData({ postId: 'post-1' }));
+
+      expect(result).toEqual({
+        type: 'error',
+        path: approvalsPath,
+        message: "This swap can't go through. Sam Claimant: Not approved for Photographer; Pat Poster: Time conflict with another job"
+      });
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should pass on the error when the post is no longer waiting for approval', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { code: '23514', message: "This swap isn't waiting for approval" } });
+
+      const result = await approveShiftSwap(formData({ postId: 'post-1' }));
+
+      expect(result).toEqual({ type: 'error', path: approvalsPath, message: "This swap isn't waiting for approval" });
+      expect(sendShiftSwapApprovedNotification).not.toHaveBeenCalled();
+    });
+
+    it('should approve a claimed swap and tell both sides', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: { ...claimedPost, status: 'approved' }, error: null });
+
+      const result = await approveShiftSwap(formData({ postId: 'post-1' }));
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('approve_shift_swap', { p_post_id: 'post-1' });
+      expect(sendShiftSwapApprovedNotification).toHaveBeenCalledWith(
+        mockSupabase,
+        expect.objectContaining({ id: 'post-1', status: 'approved' })
+      );
+      expect(result).toEqual({
+        type: 'success',
+        path: approvalsPath,
+        message: 'Sam Claimant is now booked for Photographer on Smith Wedding'
+      });
+    });
+  });
+
+  describe('rejectShiftSwap', () => {
+    it('should not reject a post from another organization', async () => {
+      (getShiftSwapPostDetails as any).mockResolvedValue({ data: { ...claimedPost, org_id: 'org-2' } });
+
+      const result = await rejectShiftSwap(formData({ postId: 'post-1' }));
+
+      expect(result).toEqual({ type: 'error', path: approvalsPath, message: 'Swap not found' });
+      expect(mockSupabase.update).not.toHaveBeenCalled();
+    });
+
+    it('should only reject a post that is waiting for approval', async () => {
+      mockSupabase.maybeSingle.mockResolvedValue({ data: null, error: null });
+
+      const result = await rejectShiftSwap(formData({ postId: 'post-1' }));
+
+      expect(mockSupabase.eq).toHaveBeenCalledWith('status', 'claimed');
+      expect(result).toEqual({ type: 'error', path: approvalsPath, message: "This swap isn't waiting for approval" });
+      expect(sendShiftSwapRejectedNotification).not.toHaveBeenCalled();
+    });
+
+    it('should reject a claimed swap with the reason and tell both sides', async () => {
+      mockSupabase.maybeSingle.mockResolvedValue({ data: { ...claimedPost, status: 'rejected' }, error: null });
+
+      const result = await rejectShiftSwap(formData({ postId: 'post-1', reason: '  Too short notice  ' }));
+
+      expect(mockSupabase.update).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'rejected',
+        reviewed_by_user_id: 'manager',
+        review_note: 'Too short notice'
+      }));
+      expect(sendShiftSwapRejectedNotification).toHaveBeenCalledWith(
+        mockSupabase,
+        expect.objectContaining({ id: 'post-1', status: 'rejected' })
+      );
+      expect(result).toEqual({ type: 'success', path: approvalsPath, message: 'Swap rejected' });
+    });
+  });
+});
@@ -0,0 +1,261 @@
+"use server";
+
+import { createClient, createServiceRoleClient } from "@/utils/supabase/server";
+import { getCurrentUserProfile } from "@/utils/supabase/auth-helpers";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { checkManagerPermission } from "../jobs/utils";
+import { hasSlotStarted } from "./client-utils";
+import {
+  sendShiftSwapApprovedNotification,
+  sendShiftSwapClaimedNotification,
+  sendShiftSwapRejectedNotification,
+  sendShiftSwapWithdrawnNotification
+} from "./notifications";
+import { findSwapProblems, getAssignmentSlots, getShiftSwapPostDetails } from "./utils";
+import type { ShiftSwapDetails, ShiftSwapPost, ShiftSwapSlot } from "./types";
+
+const marketplacePath = "/dashboard/employee/shift-swaps";
+const approvalsPath = "/dashboard/manager/shift-swaps";
+
+function revalidateSwapPaths(post: ShiftSwapDetails) {
+  revalidatePath(marketplacePath);
+  revalidatePath(approvalsPath);
+  revalidatePath('/dashboard/employee/schedule');
+  revalidatePath(`/dashboard/manager/jobs/${post.job_id}`);
+  if (post.claimed_slot) {
+    revalidatePath(`/dashboard/manager/jobs/${post.claimed_slot.job_id}`);
+  }
+}
+
+/**
+ * Claim another employee's open post. A swap needs one of the current user's
+ * upcoming assignments to give the poster in return. Both sides must be
+ * qualified for the shift they'd take and free to work it; the claim then
+ * waits for a manager.
+ */
+export async function claimShiftSwap(formData: FormData) {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return encodedRedirect("error", "/sign-in", "You must be logged in");
+  }
+
+  const profile = await getCurrentUserProfile();
+  const postId = formData.get("postId")?.toString();
+  const offeredAssignmentId = formData.get("offeredAssignmentId")?.toString() || null;
+
+  if (!postId) {
+    return encodedRedirect("error", marketplacePath, "Shift is required");
+  }
+
+  // Checking the poster's side needs their qualifications and bookings, which employees can't read
+  const serviceSupabase = createServiceRoleClient();
+
+  const { data: post, error: postError } = await getShiftSwapPostDetails(supabase, postId);
+  if (postError || !post) {
+    return encodedRedirect("error", marketplacePath, postError || "Shift not found");
+  }
+
+  if (post.status !== 'open' || hasSlotStarted(post.slot)) {
+    return encodedRedirect("error", marketplacePath, "This shift is no longer up for grabs");
+  }
+
+  let claimedSlot: ShiftSwapSlot | null = null;
+  if (post.kind === 'swap') {
+    if (!offeredAssignmentId) {
+      return encodedRedirect("error", marketplacePath, "Choose one of your shifts to swap");
+    }
+
+    const { data: offered } = await getAssignmentSlots(serviceSupabase, [offeredAssignmentId]);
+    if (!offered?.[offeredAssignmentId] || offered[offeredAssignmentId].user_id !== user.id) {
+      return encodedRedirect("error", marketplacePath, "Choose one of your upcoming shifts to swap");
+    }
+    claimedSlot = offered[offeredAssignmentId].slot;
+  }
+
+  const prospective: ShiftSwapDetails = {
+    ...post,
+    claimed_by_user_id: user.id,
+    claimed_assignment_id: post.kind === 'swap' ? offeredAssignmentId : null,
+    claimed_slot: claimedSlot,
+    claimant: { full_name: profile?.full_name || null }
+  };
+
+  const { data: problems, error: problemsError } = await findSwapProblems(serviceSupabase, prospective);
+  if (problemsError || !problems) {
+    return encodedRedirect("error", marketplacePath, problemsError || "Failed to check the swap");
+  }
+  if (problems.length > 0) {
+    return encodedRedirect("error", marketplacePath, `You can't claim this shift. ${problems.join('; ')}`);
+  }
+
+  const { data: claimed, error } = await supabase.rpc('claim_shift_swap', {
+    p_post_id: postId,
+    p_offered_assignment_id: prospective.claimed_assignment_id
+  });
+
+  if (error || !claimed) {
+    console.error("Error claiming shift swap:", error);
+    return encodedRedirect(
+      "error",
+      marketplacePath,
+      error?.code === '23505'
+        ? "You've already offered that shift for another swap"
+        : error?.message || "Failed to claim the shift"
+    );
+  }
+
+  await sendShiftSwapClaimedNotification(serviceSupabase, { ...prospective, ...(claimed as ShiftSwapPost) });
+
+  revalidateSwapPaths(prospective);
+  return encodedRedirect(
+    "success",
+    marketplacePath,
+    `You've claimed ${post.slot.role_name} on ${post.slot.job_title}. It's yours once a manager approves.`
+  );
+}
+
+/**
+ * Cancel the current user's post, or back out of their claim on someone
+ * else's, which reopens it. Either way, the other side is told.
+ */
+export async function withdrawFromShiftSwap(formData: FormData) {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return encodedRedirect("error", "/sign-in", "You must be logged in");
+  }
+
+  const postId = formData.get("postId")?.toString();
+  if (!postId) {
+    return encodedRedirect("error", marketplacePath, "Shift is required");
+  }
+
+  const serviceSupabase = createServiceRoleClient();
+
+  const { data: post } = await getShiftSwapPostDetails(serviceSupabase, postId);
+  if (!post) {
+    return encodedRedirect("error", marketplacePath, "Shift not found");
+  }
+
+  const { error } = await supabase.rpc('withdraw_from_shift_swap', { p_post_id: postId });
+  if (error) {
+    console.error("Error withdrawing from shift swap:", error);
+    return encodedRedirect("error", marketplacePath, error.message || "Failed to withdraw");
+  }
+
+  const withdrawnBy = post.posted_by_user_id === user.id ? 'poster' : 'claimant';
+  if (post.status === 'claimed') {
+    await sendShiftSwapWithdrawnNotification(serviceSupabase, post, withdrawnBy);
+  }
+
+  revalidateSwapPaths(post);
+  return encodedRedirect(
+    "success",
+    marketplacePath,
+    withdrawnBy === 'poster' ? "Your post has been taken down. You're still booked for the shift." : "Your claim has been withdrawn"
+  );
+}
+
+/**
+ * Approve a claimed swap. The approve_shift_swap database function moves the
+ * assignment to the claimant (and the shift offered in return to the poster)
+ * along with the jobs' group chat membership, in one transaction. Both sides
+ * are checked again first, as qualifications and bookings may have changed
+ * since the claim.
+ */
+export async function approveShiftSwap(formData: FormData) {
+  const supabase = await createClient();
+
+  const { authorized, user, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !user || !profile?.org_id) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized or profile missing");
+  }
+
+  const postId = formData.get("postId")?.toString();
+  if (!postId) {
+    return encodedRedirect("error", approvalsPath, "Swap is required");
+  }
+
+  const { data: post, error: postError } = await getShiftSwapPostDetails(supabase, postId);
+  if (postError || !post || post.org_id !== profile.org_id) {
+    return encodedRedirect("error", approvalsPath, postError || "Swap not found");
+  }
+
+  const { data: problems, error: problemsError } = await findSwapProblems(supabase, post);
+  if (problemsError || !problems) {
+    return encodedRedirect("error", approvalsPath, problemsError || "Failed to check the swap");
+  }
+  if (problems.length > 0) {
+    return encodedRedirect("error", approvalsPath, `This swap can't go through. ${problems.join('; ')}`);
+  }
+
+  const { data: approved, error } = await supabase.rpc('approve_shift_swap', { p_post_id: postId });
+  if (error || !approved) {
+    console.error("Error approving shift swap:", error);
+    return encodedRedirect("error", approvalsPath, error?.message || "Failed to approve the swap");
+  }
+
+  await sendShiftSwapApprovedNotification(supabase, { ...post, ...(approved as ShiftSwapPost) });
+
+  revalidateSwapPaths(post);
+  return encodedRedirect(
+    "success",
+    approvalsPath,
+    `${post.claimant?.full_name || 'The claimant'} is now booked for ${post.slot.role_name} on ${post.slot.job_title}`
+  );
+}
+
+/**
+ * Reject a claimed swap. The poster keeps the shift and the post is closed;
+ * they can post it again.
+ */
+export async function rejectShiftSwap(formData: FormData) {
+  const supabase = await createClient();
+
+  const { authorized, user, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !user || !profile?.org_id) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized or profile missing");
+  }
+
+  const postId = formData.get("postId")?.toString();
+  const reason = formData.get("reason")?.toString().trim() || null;
+  if (!postId) {
+    return encodedRedirect("error", approvalsPath, "Swap is required");
+  }
+
+  const { data: post, error: postError } = await getShiftSwapPostDetails(supabase, postId);
+  if (postError || !post || post.org_id !== profile.org_id) {
+    return encodedRedirect("error", approvalsPath, postError || "Swap not found");
+  }
+
+  const { data: rejected, error } = await supabase
+    .from('shift_swap_posts')
+    .update({
+      status: 'rejected',
+      reviewed_by_user_id: user.id,
+      reviewed_at: new Date().toISOString(),
+      review_note: reason
+    })
+    .eq('id', postId)
+    .eq('status', 'claimed')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error rejecting shift swap:", error);
+    return encodedRedirect("error", approvalsPath, "Failed to reject the swap");
+  }
+
+  if (!rejected) {
+    return encodedRedirect("error", approvalsPath, "This swap isn't waiting for approval");
+  }
+
+  await sendShiftSwapRejectedNotification(supabase, { ...post, ...(rejected as ShiftSwapPost) });
+
+  revalidateSwapPaths(post);
+  return encodedRedirect("success", approvalsPath, "Swap rejected");
+}
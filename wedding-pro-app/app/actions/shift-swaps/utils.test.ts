@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { findSwapProblems } from './utils';
+import { getBookedWindows, getTravelTimes, getTurnaroundBuffer } from '../job-shifts/utils';
+import { getQualificationContext } from '../qualifications/utils';
+import type { BookedWindow } from '../job-shifts/types';
+import type { QualificationContext } from '../qualifications/types';
+import type { ShiftSwapDetails, ShiftSwapSlot } from './types';
+
+vi.mock('../job-shifts/utils', () => ({
+  getBookedWindows: vi.fn(),
+  getTravelTimes: vi.fn(),
+  getTurnaroundBuffer: vi.fn()
+}));
+
+vi.mock('../qualifications/utils', () => ({
+  getQualificationContext: vi.fn()
+}));
+
+vi.mock('../standby/utils', () => ({
+  getStandbySlots: vi.fn()
+}));
+
+const supabase = {} as any;
+
+const slot = (overrides: Partial<ShiftSwapSlot> = {}): ShiftSwapSlot => ({
+  org_id: 'org-1',
+  job_id: 'job-1',
+  job_title: 'Smith Wedding',
+  job_status: 'upcoming',
+  job_required_role_id: 'role-1',
+  role_name: 'Photographer',
+  quantity_needed: 1,
+  shift_id: null,
+  shift_name: null,
+  start_time: '2025-07-12T14:00:00Z',
+  end_time: '2025-07-12T22:00:00Z',
+  venue_id: 'venue-1',
+  venue_name: 'The Barn',
+  ...overrides
+});
+
+const post = (overrides: Partial<ShiftSwapDetails> = {}): ShiftSwapDetails => ({
+  id: 'post-1',
+  org_id: 'org-1',
+  job_id: 'job-1',
+  job_required_role_id: 'role-1',
+  job_assignment_id: 'assignment-poster',
+  posted_by_user_id: 'poster',
+  kind: 'giveaway',
+  note: null,
+  status: 'claimed',
+  claimed_by_user_id: 'claimant',
+  claimed_assignment_id: null,
+  claimed_at: '2025-07-01T10:00:00Z',
+  reviewed_by_user_id: null,
+  reviewed_at: null,
+  review_note: null,
+  created_at: '2025-06-30T10:00:00Z',
+  slot: slot(),
+  claimed_slot: null,
+  poster: { full_name: 'Pat Poster' },
+  claimant: { full_name: 'Sam Claimant' },
+  ...overrides
+});
+
+const booking = (overrides: Partial<BookedWindow>): BookedWindow => ({
+  assignment_id: 'assignment-other',
+  job_id: 'job-other',
+  shift_id: null,
+  start_time: '2025-07-12T15:00:00Z',
+  end_time: '2025-07-12T20:00:00Z',
+  venue_id: 'venue-1',
+  ...overrides
+});
+
+describe('findSwapProblems', () => {
+  let context: QualificationContext;
+  let bookings: Record<string, BookedWindow[]>;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    context = { requirements: [], profiles: {} };
+    bookings = {};
+
+    (getQualificationContext as any).mockImplementation(async () => ({ data: context }));
+    (getBookedWindows as any).mockImplementation(async (_: unknown, userId: string) => ({ data: bookings[userId] || [] }));
+    (getTurnaroundBuffer as any).mockResolvedValue(30);
+    (getTravelTimes as any).mockResolvedValue({});
+  });
+
+  it('should find nothing to check on an unclaimed post', async () => {
+    const result = await findSwapProblems(supabase, post({ status: 'open', claimed_by_user_id: null }));
+
+    expect(result).toEqual({ data: [] });
+    expect(getQualificationContext).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a swap whose shift offered in return has gone', async () => {
+    const result = await findSwapProblems(supabase, post({ kind: 'swap', claimed_assignment_id: 'assignment-claimant' }));
+
+    expect(result).toEqual({ data: ['The shift offered in return is no longer available'] });
+  });
+
+  it('should pass a giveaway the claimant is qualified and free for', async () => {
+    const result = await findSwapProblems(supabase, post());
+
+    expect(result).toEqual({ data: [] });
+    expect(getBookedWindows).toHaveBeenCalledTimes(1);
+    expect(getBookedWindows).toHaveBeenCalledWith(supabase, 'claimant');
+  });
+
+  it('should name the claimant when they are not qualified or are booked elsewhere', async () => {
+    context.requirements = [{
+      id: 'req-1',
+      org_id: 'org-1',
+      role_name: 'Photographer',
+      requires_approval: true,
+      min_skill_level: null,
+      required_certifications: [],
+      created_by_user_id: null,
+      created_at: '2025-01-01T00:00:00Z',
+      updated_at: '2025-01-01T00:00:00Z'
+    }];
+    bookings.claimant = [booking({})];
+
+    const result = await findSwapProblems(supabase, post());
+
+    expect(result.data).toHaveLength(2);
+    expect(result.data![0]).toBe('Sam Claimant: Not approved for Photographer');
+    expect(result.data![1]).toMatch(/^Sam Claimant: /);
+  });
+
+  it('should check the poster against the shift offered in return', async () => {
+    const offered = slot({ job_id: 'job-2', job_required_role_id: 'role-2', start_time: '2025-07-19T14:00:00Z', end_time: '2025-07-19T22:00:00Z' });
+    bookings.poster = [booking({ start_time: '2025-07-19T15:00:00Z', end_time: '2025-07-19T20:00:00Z' })];
+
+    const result = await findSwapProblems(supabase, post({
+      kind: 'swap',
+      claimed_assignment_id: 'assignment-claimant',
+      claimed_slot: offered,
+      poster: null
+    }));
+
+    expect(result.data).toHaveLength(1);
+    expect(result.data![0]).toMatch(/^The poster: /);
+  });
+
+  it('should leave out the assignment each side gives up', async () => {
+    // The two shifts overlap, so each side's own booking would clash with the one they take
+    const offered = slot({ job_id: 'job-2', job_required_role_id: 'role-2', start_time: '2025-07-12T15:00:00Z', end_time: '2025-07-12T20:00:00Z' });
+    bookings.claimant = [booking({ assignment_id: 'assignment-claimant', job_id: 'job-2' })];
+    bookings.poster = [booking({ assignment_id: 'assignment-poster', job_id: 'job-1', start_time: '2025-07-12T14:00:00Z', end_time: '2025-07-12T22:00:00Z' })];
+
+    const result = await findSwapProblems(supabase, post({
+      kind: 'swap',
+      claimed_assignment_id: 'assignment-claimant',
+      claimed_slot: offered
+    }));
+
+    expect(result).toEqual({ data: [] });
+  });
+
+  it('should return an error when either side cannot be checked', async () => {
+    (getBookedWindows as any).mockResolvedValue({ error: 'Failed to fetch bookings' });
+
+    const result = await findSwapProblems(supabase, post());
+
+    expect(result).toEqual({ error: 'Failed to fetch bookings' });
+  });
+});
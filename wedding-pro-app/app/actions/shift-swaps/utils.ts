@@ -0,0 +1,197 @@
+"use server";
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { getBookedWindows, getTravelTimes, getTurnaroundBuffer } from "../job-shifts/utils";
+import { getEmployeeRoleEligibility } from "../qualifications/client-utils";
+import { getQualificationContext } from "../qualifications/utils";
+import { getStandbySlots } from "../standby/utils";
+import { getSwapBlockers, getSwapTurnaroundIssue } from "./client-utils";
+import type { ShiftSwapDetails, ShiftSwapPost, ShiftSwapSlot } from "./types";
+
+/**
+ * Get the owner and shift of each assignment, keyed by assignment ID.
+ * Declined assignments are left out.
+ */
+export async function getAssignmentSlots(
+  supabase: SupabaseClient,
+  assignmentIds: string[]
+): Promise<{ data?: Record<string, { user_id: string; slot: ShiftSwapSlot }>; error?: string }> {
+  if (assignmentIds.length === 0) {
+    return { data: {} };
+  }
+
+  const { data: assignments, error } = await supabase
+    .from('job_assignments')
+    .select('id, user_id, job_required_role_id')
+    .in('id', assignmentIds)
+    .neq('status', 'declined');
+
+  if (error) {
+    console.error("Error fetching swap assignments:", error);
+    return { error: "Failed to fetch the shifts" };
+  }
+
+  const roleIds = Array.from(new Set<string>((assignments || []).map(assignment => assignment.job_required_role_id)));
+  const { data: slots, error: slotsError } = await getStandbySlots(supabase, roleIds);
+  if (slotsError || !slots) {
+    return { error: slotsError || "Failed to fetch the shifts" };
+  }
+
+  const result: Record<string, { user_id: string; slot: ShiftSwapSlot }> = {};
+  for (const assignment of assignments || []) {
+    const slot = slots[assignment.job_required_role_id];
+    if (slot) {
+      result[assignment.id] = { user_id: assignment.user_id, slot };
+    }
+  }
+  return { data: result };
+}
+
+/**
+ * Add the shifts and people to posts. Posts whose shift can't be read, e.g.
+ * because the role was removed, are left out.
+ */
+export async function getShiftSwapDetails(
+  supabase: SupabaseClient,
+  posts: (ShiftSwapPost & { poster?: any; claimant?: any })[]
+): Promise<{ data?: ShiftSwapDetails[]; error?: string }> {
+  const roleIds = Array.from(new Set(posts.map(post => post.job_required_role_id)));
+  const claimedAssignmentIds = posts
+    .map(post => post.claimed_assignment_id)
+    .filter((id): id is string => !!id);
+
+  const [{ data: slots, error: slotsError }, { data: claimedSlots, error: claimedError }] = await Promise.all([
+    getStandbySlots(supabase, roleIds),
+    getAssignmentSlots(supabase, claimedAssignmentIds)
+  ]);
+
+  if (slotsError || claimedError || !slots || !claimedSlots) {
+    return { error: slotsError || claimedError || "Failed to fetch the shifts" };
+  }
+
+  const details: ShiftSwapDetails[] = [];
+  for (const post of posts) {
+    const slot = slots[post.job_required_role_id];
+    if (!slot) continue;
+
+    details.push({
+      ...post,
+      slot,
+      claimed_slot: post.claimed_assignment_id ? claimedSlots[post.claimed_assignment_id]?.slot || null : null,
+      poster: (Array.isArray(post.poster) ? post.poster[0] : post.poster) || null,
+      claimant: (Array.isArray(post.claimant) ? post.claimant[0] : post.claimant) || null
+    });
+  }
+  return { data: details };
+}
+
+/**
+ * Find what stops an employee taking each of the given shifts: missing
+ * qualifications, and clashes with their bookings once the assignment they'd
+ * give up in return is left out. Returns one list per shift, empty when
+ * they can take it.
+ */
+export async function checkSwapFit(
+  supabase: SupabaseClient,
+  orgId: string,
+  userId: string,
+  targets: { slot: ShiftSwapSlot; releasedAssignmentId?: string | null }[]
+): Promise<{ data?: string[][]; error?: string }> {
+  if (targets.length === 0) {
+    return { data: [] };
+  }
+
+  const [{ data: context, error: contextError }, { data: booked, error: bookedError }] = await Promise.all([
+    getQualificationContext(supabase, orgId, [userId]),
+    getBookedWindows(supabase, userId)
+  ]);
+
+  if (contextError || bookedError || !context || !booked) {
+    return { error: contextError || bookedError || "Failed to check the shifts" };
+  }
+
+  const [bufferMinutes, travelTimes] = await Promise.all([
+    getTurnaroundBuffer(supabase, orgId),
+    getTravelTimes(supabase, targets.map(target => target.slot), booked)
+  ]);
+
+  return {
+    data: targets.map(({ slot, releasedAssignmentId }) => getSwapBlockers(
+      getEmployeeRoleEligibility(context, userId, slot.role_name, slot.start_time),
+      getSwapTurnaroundIssue(slot, booked, { bufferMinutes, travelTimes, releasedAssignmentId })
+    ))
+  };
+}
+
+/**
+ * Check both sides of a claimed post: the claimant must be able to take the
+ * posted shift and, for a swap, the poster the shift offered in return.
+ * Returns every problem, naming whose it is, or an empty list.
+ */
+export async function findSwapProblems(
+  supabase: SupabaseClient,
+  post: ShiftSwapDetails
+): Promise<{ data?: string[]; error?: string }> {
+  if (!post.claimed_by_user_id) {
+    return { data: [] };
+  }
+
+  if (post.kind === 'swap' && !post.claimed_slot) {
+    return { data: ["The shift offered in return is no longer available"] };
+  }
+
+  const [{ data: claimantBlockers, error: claimantError }, { data: posterBlockers, error: posterError }] =
+    await Promise.all([
+      checkSwapFit(supabase, post.org_id, post.claimed_by_user_id, [
+        { slot: post.slot, releasedAssignmentId: post.claimed_assignment_id }
+      ]),
+      post.kind === 'swap' && post.claimed_slot
+        ? checkSwapFit(supabase, post.org_id, post.posted_by_user_id, [
+            { slot: post.claimed_slot, releasedAssignmentId: post.job_assignment_id }
+          ])
+        : Promise.resolve({ data: [[]] as string[][], error: undefined })
+    ]);
+
+  if (claimantError || posterError || !claimantBlockers || !posterBlockers) {
+    return { error: claimantError || posterError || "Failed to check the swap" };
+  }
+
+  const claimantName = post.claimant?.full_name || 'The claimant';
+  const posterName = post.poster?.full_name || 'The poster';
+  return {
+    data: [
+      ...claimantBlockers[0].map(blocker => `${claimantName}: ${blocker}`),
+      ...posterBlockers[0].map(blocker => `${posterName}: ${blocker}`)
+    ]
+  };
+}
+
+/**
+ * Get one post with its shifts and people, as the given client can see it
+ */
+export async function getShiftSwapPostDetails(
+  supabase: SupabaseClient,
+  postId: string
+): Promise<{ data?: ShiftSwapDetails; error?: string }> {
+  const { data: post, error } = await supabase
+    .from('shift_swap_posts')
+    .select('*, poster:posted_by_user_id ( full_name, email ), claimant:claimed_by_user_id ( full_name, email )')
+    .eq('id', postId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching shift swap:", error);
+    return { error: "Failed to fetch the shift" };
+  }
+
+  if (!post) {
+    return { error: "Shift not found" };
+  }
+
+  const { data: details, error: detailsError } = await getShiftSwapDetails(supabase, [post as ShiftSwapPost]);
+  if (detailsError || !details || details.length === 0) {
+    return { error: detailsError || "Shift not found" };
+  }
+
+  return { data: details[0] };
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countOpenSlots,
+  describeOfferDeadline,
+  getOfferExpiry,
+  moveStandbyEntry,
+  pickNextStandby,
+  renumberStandby
+} from './client-utils';
+
+const list = [
+  { id: 'c', user_id: 'carol', rank: 3 },
+  { id: 'a', user_id: 'alice', rank: 1 },
+  { id: 'b', user_id: 'bob', rank: 2 },
+];
+
+describe('standby client utils', () => {
+  describe('getOfferExpiry', () => {
+    const offeredAt = new Date('2025-06-10T12:00:00Z');
+
+    it('should give the standby the org window', () => {
+      expect(getOfferExpiry(offeredAt, 12, '2025-06-14T16:00:00Z').toISOString()).toBe('2025-06-11T00:00:00.000Z');
+    });
+
+    it('should close the offer when the shift starts if that comes first', () => {
+      expect(getOfferExpiry(offeredAt, 12, '2025-06-10T18:00:00Z').toISOString()).toBe('2025-06-10T18:00:00.000Z');
+    });
+  });
+
+  describe('countOpenSlots', () => {
+    it('should leave out filled slots and those waiting on an offer', () => {
+      expect(countOpenSlots(3, 1, 1)).toBe(1);
+      expect(countOpenSlots(2, 2, 0)).toBe(0);
+      expect(countOpenSlots(1, 1, 1)).toBe(0);
+    });
+  });
+
+  describe('pickNextStandby', () => {
+    it('should pick the highest-ranked standby', () => {
+      expect(pickNextStandby(list, new Set())?.user_id).toBe('alice');
+    });
+
+    it('should pass over ruled-out standbys', () => {
+      expect(pickNextStandby(list, new Set(['alice']))?.user_id).toBe('bob');
+      expect(pickNextStandby(list, new Set(['alice', 'bob', 'carol']))).toBeNull();
+    });
+  });
+
+  describe('renumberStandby', () => {
+    it('should close gaps in the ranking', () => {
+      const afterRemoval = list.filter(entry => entry.id !== 'b');
+      expect(renumberStandby(afterRemoval).map(e => [e.id, e.rank])).toEqual([['a', 1], ['c', 2]]);
+    });
+  });
+
+  describe('moveStandbyEntry', () => {
+    it('should swap an entry with its neighbour', () => {
+      expect(moveStandbyEntry(list, 'c', 'up').map(e => [e.id, e.rank])).toEqual([['a', 1], ['c', 2], ['b', 3]]);
+      expect(moveStandbyEntry(list, 'a', 'down').map(e => [e.id, e.rank])).toEqual([['b', 1], ['a', 2], ['c', 3]]);
+    });
+
+    it('should leave the list alone at either end', () => {
+      expect(moveStandbyEntry(list, 'a', 'up').map(e => e.id)).toEqual(['a', 'b', 'c']);
+      expect(moveStandbyEntry(list, 'c', 'down').map(e => e.id)).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('describeOfferDeadline', () => {
+    const now = new Date('2025-06-10T12:00:00Z');
+
+    it('should say how long is left', () => {
+      expect(describeOfferDeadline('2025-06-10T14:30:00Z', now)).toBe('2 hr 30 min left to answer');
+    });
+
+    it('should say when the offer has lapsed', () => {
+      expect(describeOfferDeadline('2025-06-10T11:00:00Z', now)).toBe('Expired');
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { formatMinutes } from "@/utils/timeUtils";
+import type { StandbyEventType } from "./types";
+
+/**
+ * Hours a standby has to accept an offer unless the org sets its own window
+ */
+export const DEFAULT_STANDBY_OFFER_HOURS = 12;
+
+export const STANDBY_EVENT_LABELS: Record<StandbyEventType, string> = {
+  added: 'Added to standby',
+  removed: 'Removed from standby',
+  slot_opened: 'Slot opened',
+  offered: 'Offered the slot',
+  skipped: 'Skipped',
+  accepted: 'Accepted the slot',
+  declined: 'Declined the slot',
+  expired: 'Offer expired',
+  exhausted: 'Standby list exhausted'
+};
+
+/**
+ * When an offer made at `offeredAt` lapses: after the org's window, or when
+ * the shift starts if that's sooner
+ */
+export function getOfferExpiry(offeredAt: Date, offerHours: number, startTime: string): Date {
+  const windowEnd = new Date(offeredAt.getTime() + offerHours * 60 * 60 * 1000);
+  const start = new Date(startTime);
+  return start < windowEnd ? start : windowEnd;
+}
+
+/**
+ * How many of a role's slots are neither filled nor waiting on an offer
+ */
+export function countOpenSlots(quantityNeeded: number, filled: number, openOffers: number): number {
+  return Math.max(0, quantityNeeded - filled - openOffers);
+}
+
+/**
+ * The highest-ranked standby who hasn't been ruled out, e.g. because they're
+ * already booked for the role or have already been offered it
+ */
+export function pickNextStandby<T extends { user_id: string; rank: number }>(
+  entries: T[],
+  excludedUserIds: Set<string>
+): T | null {
+  return [...entries]
+    .sort((a, b) => a.rank - b.rank)
+    .find(entry => !excludedUserIds.has(entry.user_id)) || null;
+}
+
+/**
+ * Rank a list 1, 2, 3... in its current order, e.g. after someone is removed
+ */
+export function renumberStandby<T extends { id: string; rank: number }>(entries: T[]): T[] {
+  return [...entries]
+    .sort((a, b) => a.rank - b.rank)
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+}
+
+/**
+ * Move a standby one place up or down the list. Returns the whole list
+ * renumbered; it's unchanged if the entry is already at that end.
+ */
+export function moveStandbyEntry<T extends { id: string; rank: number }>(
+  entries: T[],
+  entryId: string,
+  direction: 'up' | 'down'
+): T[] {
+  const ordered = renumberStandby(entries);
+  const index = ordered.findIndex(entry => entry.id === entryId);
+  const swapWith = direction === 'up' ? index - 1 : index + 1;
+
+  if (index === -1 || swapWith < 0 || swapWith >= ordered.length) {
+    return ordered;
+  }
+
+  [ordered[index], ordered[swapWith]] = [ordered[swapWith], ordered[index]];
+  return ordered.map((entry, position) => ({ ...entry, rank: position + 1 }));
+}
+
+/**
+ * How long a standby has left to answer, e.g. "2 hr 30 min left to answer"
+ */
+export function describeOfferDeadline(expiresAt: string, now: Date = new Date()): string {
+  const minutes = (new Date(expiresAt).getTime() - now.getTime()) / (60 * 1000);
+  return minutes > 0 ? `${formatMinutes(minutes)} left to answer` : 'Expired';
+}
@@ -0,0 +1,101 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { checkManagerPermission } from "../jobs/utils";
+import { sendStandbyAddedNotification } from "./notifications";
+import { getStandbySlots, logStandbyEvent } from "./utils";
+import type { StandbyEntry } from "./types";
+
+/**
+ * Put an employee at the bottom of a role's standby list
+ */
+export async function addStandbyCandidate(jobId: string, formData: FormData) {
+  const supabase = await createClient();
+  const jobPath = `/dashboard/manager/jobs/${jobId}`;
+
+  // Check permissions
+  const { authorized, user, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !user || !profile?.org_id) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized or profile missing");
+  }
+
+  const jobRequiredRoleId = formData.get("job_required_role_id")?.toString();
+  const userId = formData.get("user_id")?.toString();
+
+  if (!jobRequiredRoleId || !userId) {
+    return encodedRedirect("error", jobPath, "Choose a role and an employee");
+  }
+
+  const { data: slots } = await getStandbySlots(supabase, [jobRequiredRoleId]);
+  const slot = slots?.[jobRequiredRoleId];
+  if (!slot || slot.job_id !== jobId || slot.org_id !== profile.org_id) {
+    return encodedRedirect("error", jobPath, "Role not found for this job");
+  }
+
+  const [{ data: employee }, { count: assignedCount }, { data: lastEntry }] = await Promise.all([
+    supabase
+      .from('profiles')
+      .select('id, full_name')
+      .eq('id', userId)
+      .eq('org_id', profile.org_id)
+      .single(),
+    supabase
+      .from('job_assignments')
+      .select('id', { count: 'exact', head: true })
+      .eq('job_required_role_id', jobRequiredRoleId)
+      .eq('user_id', userId)
+      .neq('status', 'declined'),
+    supabase
+      .from('job_standby_entries')
+      .select('rank')
+      .eq('job_required_role_id', jobRequiredRoleId)
+      .order('rank', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+  ]);
+
+  if (!employee) {
+    return encodedRedirect("error", jobPath, "Employee not found in your organization");
+  }
+
+  if (assignedCount) {
+    return encodedRedirect("error", jobPath, `${employee.full_name || 'This employee'} is already booked for ${slot.role_name}`);
+  }
+
+  const { data: entry, error } = await supabase
+    .from('job_standby_entries')
+    .insert({
+      org_id: profile.org_id,
+      job_id: jobId,
+      job_required_role_id: jobRequiredRoleId,
+      user_id: userId,
+      rank: (lastEntry?.rank || 0) + 1,
+      added_by_user_id: user.id
+    })
+    .select()
+    .single();
+
+  if (error || !entry) {
+    console.error("Error adding standby:", error);
+    return encodedRedirect(
+      "error",
+      jobPath,
+      error?.code === '23505'
+        ? `${employee.full_name || 'This employee'} is already on standby for ${slot.role_name}`
+        : error?.message || "Failed to add standby"
+    );
+  }
+
+  await logStandbyEvent(supabase, slot, {
+    event_type: 'added',
+    user_id: userId,
+    details: `#${entry.rank} on standby`,
+    actor_user_id: user.id
+  });
+  await sendStandbyAddedNotification(supabase, entry as StandbyEntry, slot);
+
+  revalidatePath(jobPath);
+  return encodedRedirect("success", jobPath, `${employee.full_name || 'Employee'} added to the ${slot.role_name} standby list`);
+}
@@ -0,0 +1,122 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { checkManagerPermission, verifyJobOrganization } from "../jobs/utils";
+import { getStandbySlots } from "./utils";
+import type { JobStandby, MyStandby, MyStandbyEntry, MyStandbyOffer, StandbyEntry, StandbyOffer } from "./types";
+
+/**
+ * Get a job's standby lists in rank order, its offers (newest first) and its
+ * standby log (oldest first). Managers only.
+ */
+export async function getJobStandby(jobId: string): Promise<{ data?: JobStandby; error?: string }> {
+  const supabase = await createClient();
+
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile?.org_id) {
+    return { error: permError || "Unauthorized" };
+  }
+
+  const { verified, error: verifyError } = await verifyJobOrganization(supabase, jobId, profile.org_id);
+  if (!verified) {
+    return { error: verifyError || "Job not found" };
+  }
+
+  const [
+    { data: entries, error: entriesError },
+    { data: offers, error: offersError },
+    { data: events, error: eventsError }
+  ] = await Promise.all([
+    supabase
+      .from('job_standby_entries')
+      .select('*, profile:user_id ( full_name, email )')
+      .eq('job_id', jobId)
+      .order('rank', { ascending: true }),
+    supabase
+      .from('job_standby_offers')
+      .select('*, profile:user_id ( full_name, email )')
+      .eq('job_id', jobId)
+      .order('offered_at', { ascending: false }),
+    supabase
+      .from('job_standby_events')
+      .select('*, profile:user_id ( full_name ), actor:actor_user_id ( full_name )')
+      .eq('job_id', jobId)
+      .order('created_at', { ascending: true })
+  ]);
+
+  if (entriesError || offersError || eventsError) {
+    console.error("Error fetching job standby:", entriesError || offersError || eventsError);
+    return { error: "Failed to fetch the standby lists" };
+  }
+
+  return {
+    data: {
+      entries: entries || [],
+      offers: offers || [],
+      events: events || []
+    } as JobStandby
+  };
+}
+
+/**
+ * Get the current user's open standby offers, soonest to lapse first, and the
+ * upcoming roles they're on standby for
+ */
+export async function getMyStandby(): Promise<{ data?: MyStandby; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { error: "You must be logged in" };
+  }
+
+  const now = new Date();
+
+  const [{ data: offers, error: offersError }, { data: entries, error: entriesError }] = await Promise.all([
+    supabase
+      .from('job_standby_offers')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('status', 'offered')
+      .gt('expires_at', now.toISOString())
+      .order('expires_at', { ascending: true }),
+    supabase
+      .from('job_standby_entries')
+      .select('*')
+      .eq('user_id', user.id)
+  ]);
+
+  if (offersError || entriesError) {
+    console.error("Error fetching standby:", offersError || entriesError);
+    return { error: "Failed to fetch your standby offers" };
+  }
+
+  const roleIds = Array.from(new Set<string>([
+    ...(offers || []).map(offer => offer.job_required_role_id),
+    ...(entries || []).map(entry => entry.job_required_role_id)
+  ]));
+  const { data: slots, error: slotsError } = await getStandbySlots(supabase, roleIds);
+
+  if (slotsError || !slots) {
+    return { error: slotsError || "Failed to fetch your standby offers" };
+  }
+
+  // Roles with an open offer are shown as the offer rather than the list entry
+  const offeredRoleIds = new Set((offers || []).map(offer => offer.job_required_role_id));
+
+  return {
+    data: {
+      offers: ((offers || []) as StandbyOffer[])
+        .filter(offer => slots[offer.job_required_role_id])
+        .map(offer => ({ ...offer, slot: slots[offer.job_required_role_id] })) as MyStandbyOffer[],
+      entries: ((entries || []) as StandbyEntry[])
+        .filter(entry => {
+          const slot = slots[entry.job_required_role_id];
+          return slot && !offeredRoleIds.has(entry.job_required_role_id) &&
+            new Date(slot.end_time) > now && slot.job_status !== 'cancelled';
+        })
+        .map(entry => ({ ...entry, slot: slots[entry.job_required_role_id] }))
+        .sort((a, b) => new Date(a.slot.start_time).getTime() - new Date(b.slot.start_time).getTime()) as MyStandbyEntry[]
+    }
+  };
+}
@@ -0,0 +1,16 @@
+"use server";
+
+// This file re-exports all public actions and types related to standby lists.
+
+export { addStandbyCandidate } from './create';
+export { getJobStandby, getMyStandby } from './fetch';
+export {
+  removeStandbyCandidate,
+  moveStandbyCandidate,
+  acceptStandbyOffer,
+  declineStandbyOffer,
+  updateStandbyOfferWindow
+} from './update';
+
+// Re-export all types from the dedicated types module
+export * from './types';
@@ -0,0 +1,173 @@
+"use server";
+
+import { createNotificationService, NotificationEventType } from "@/utils/notifications/notification-service";
+import { SupabaseClient } from "@supabase/supabase-js";
+import type { StandbyEntry, StandbyOffer, StandbySlot } from "./types";
+
+/**
+ * e.g. `"Smith Wedding" (Reception shift) on 6/14/2025`
+ */
+function describeSlot(slot: StandbySlot): string {
+  const shiftLabel = slot.shift_name ? ` (${slot.shift_name} shift)` : '';
+  return `"${slot.job_title}"${shiftLabel} on ${new Date(slot.start_time).toLocaleDateString()}`;
+}
+
+function getSlotMetadata(slot: StandbySlot) {
+  return {
+    jobId: slot.job_id,
+    jobRequiredRoleId: slot.job_required_role_id,
+    roleName: slot.role_name,
+    shiftId: slot.shift_id,
+    shiftName: slot.shift_name,
+    startTime: slot.start_time
+  };
+}
+
+async function getEmployeeName(supabase: SupabaseClient, userId: string): Promise<string> {
+  const { data } = await supabase
+    .from('profiles')
+    .select('full_name')
+    .eq('id', userId)
+    .single();
+
+  return data?.full_name || 'An employee';
+}
+
+/**
+ * Send a notification to each of the slot's org managers and admins
+ */
+async function notifyManagers(
+  supabase: SupabaseClient,
+  slot: StandbySlot,
+  notification: { eventType: NotificationEventType; title: string; body: string; metadata: Record<string, any> }
+) {
+  const { data: managers } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('org_id', slot.org_id)
+    .in('role', ['Manager', 'Admin']);
+
+  const notificationService = createNotificationService(supabase);
+
+  for (const manager of managers || []) {
+    try {
+      await notificationService.sendNotificationForEvent({ ...notification, userId: manager.id });
+    } catch (error) {
+      console.error(`Error sending standby notification to manager ${manager.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Tell an employee they've been put on a role's standby list
+ */
+export async function sendStandbyAddedNotification(
+  supabase: SupabaseClient,
+  entry: StandbyEntry,
+  slot: StandbySlot
+) {
+  try {
+    const notificationService = createNotificationService(supabase);
+    await notificationService.sendNotificationForEvent({
+      eventType: 'standby_added',
+      userId: entry.user_id,
+      title: `On Standby: ${slot.role_name}`,
+      body: `You're #${entry.rank} on standby for ${slot.role_name} on ${describeSlot(slot)}. ` +
+        `If a slot opens up you'll be offered it and can accept or decline.`,
+      metadata: { ...getSlotMetadata(slot), standbyEntryId: entry.id, rank: entry.rank }
+    });
+  } catch (error) {
+    console.error("Error sending standby added notification:", error);
+  }
+}
+
+/**
+ * Offer a standby the open slot, with when the offer lapses
+ */
+export async function sendStandbyOfferNotification(
+  supabase: SupabaseClient,
+  offer: StandbyOffer,
+  slot: StandbySlot
+) {
+  try {
+    const notificationService = createNotificationService(supabase);
+    await notificationService.sendNotificationForEvent({
+      eventType: 'standby_offer',
+      userId: offer.user_id,
+      title: `Slot Open: ${slot.role_name}`,
+      body: `A ${slot.role_name} slot has opened on ${describeSlot(slot)} and it's yours if you want it. ` +
+        `Accept or decline on your schedule by ${new Date(offer.expires_at).toLocaleString()}, ` +
+        `after which it goes to the next person on standby.`,
+      metadata: { ...getSlotMetadata(slot), standbyOfferId: offer.id, expiresAt: offer.expires_at }
+    });
+  } catch (error) {
+    console.error("Error sending standby offer notification:", error);
+  }
+}
+
+/**
+ * Tell a standby their offer lapsed, and the managers that it's moving on
+ */
+export async function sendStandbyOfferExpiredNotification(
+  supabase: SupabaseClient,
+  offer: StandbyOffer,
+  slot: StandbySlot
+) {
+  try {
+    const notificationService = createNotificationService(supabase);
+    await notificationService.sendNotificationForEvent({
+      eventType: 'standby_offer_expired',
+      userId: offer.user_id,
+      title: `Offer Expired: ${slot.role_name}`,
+      body: `The ${slot.role_name} slot on ${describeSlot(slot)} wasn't accepted in time and has been offered to the next person on standby.`,
+      metadata: { ...getSlotMetadata(slot), standbyOfferId: offer.id }
+    });
+  } catch (error) {
+    console.error("Error sending standby offer expired notification:", error);
+  }
+
+  await sendStandbyOfferClosedNotification(supabase, offer, slot);
+}
+
+/**
+ * Tell the managers a standby accepted, declined or let an offer lapse
+ */
+export async function sendStandbyOfferClosedNotification(
+  supabase: SupabaseClient,
+  offer: StandbyOffer,
+  slot: StandbySlot
+) {
+  const employeeName = await getEmployeeName(supabase, offer.user_id);
+  const outcome = offer.status === 'accepted'
+    ? 'accepted'
+    : offer.status === 'declined'
+    ? 'declined'
+    : "didn't answer";
+  const next = offer.status === 'accepted'
+    ? 'They are now booked.'
+    : 'The slot is being offered to the next person on standby.';
+
+  await notifyManagers(supabase, slot, {
+    eventType: 'standby_offer_closed',
+    title: `Standby ${offer.status === 'accepted' ? 'Accepted' : offer.status === 'declined' ? 'Declined' : 'Offer Expired'}: ${slot.role_name}`,
+    body: `${employeeName} ${outcome} the ${slot.role_name} slot on ${describeSlot(slot)}. ${next}`,
+    metadata: { ...getSlotMetadata(slot), standbyOfferId: offer.id, employeeId: offer.user_id, status: offer.status }
+  });
+}
+
+/**
+ * Tell the managers nobody left on standby can take the open slots
+ */
+export async function sendStandbyExhaustedNotification(
+  supabase: SupabaseClient,
+  slot: StandbySlot,
+  openSlots: number
+) {
+  await notifyManagers(supabase, slot, {
+    eventType: 'standby_list_exhausted',
+    title: `Standby List Exhausted: ${slot.role_name}`,
+    body: `Nobody left on standby can take ${openSlots === 1 ? 'the open' : `${openSlots} open`} ${slot.role_name} ` +
+      `slot${openSlots === 1 ? '' : 's'} on ${describeSlot(slot)}. Assign someone from the job's assign page.`,
+    metadata: { ...getSlotMetadata(slot), openSlots }
+  });
+}
@@ -0,0 +1,112 @@
+/**
+ * Where a standby offer stands
+ */
+export type StandbyOfferStatus = 'offered' | 'accepted' | 'declined' | 'expired';
+
+/**
+ * What happened on a standby list
+ */
+export type StandbyEventType =
+  | 'added'       // A manager put someone on the list
+  | 'removed'     // A manager took someone off the list
+  | 'slot_opened' // An assignment was released, e.g. a drop request was approved
+  | 'offered'     // The slot was offered to the next standby
+  | 'skipped'     // A standby was passed over, e.g. they're booked elsewhere then
+  | 'accepted'    // The standby took the slot
+  | 'declined'    // The standby turned the slot down
+  | 'expired'     // The standby didn't answer in time
+  | 'exhausted';  // Nobody left on the list could take the slot
+
+/**
+ * A backup candidate for a role; rank 1 is offered first
+ */
+export type StandbyEntry = {
+  id: string;
+  org_id: string;
+  job_id: string;
+  job_required_role_id: string;
+  user_id: string;
+  rank: number;
+  added_by_user_id: string | null;
+  created_at: string;
+};
+
+/**
+ * A slot offered to a standby, open until expires_at
+ */
+export type StandbyOffer = {
+  id: string;
+  org_id: string;
+  job_id: string;
+  job_required_role_id: string;
+  user_id: string;
+  status: StandbyOfferStatus;
+  reason: string | null; // Why the slot opened
+  offered_at: string;
+  expires_at: string;
+  responded_at: string | null;
+  job_assignment_id: string | null; // Set once accepted
+};
+
+/**
+ * A line in a job's standby log
+ */
+export type StandbyEvent = {
+  id: string;
+  org_id: string;
+  job_id: string;
+  job_required_role_id: string;
+  user_id: string | null;
+  event_type: StandbyEventType;
+  details: string | null;
+  actor_user_id: string | null; // null when done automatically
+  created_at: string;
+};
+
+type PersonSummary = { full_name: string | null; email?: string | null } | null;
+
+/**
+ * A job's standby lists, open offers and log, for managers
+ */
+export type JobStandby = {
+  entries: (StandbyEntry & { profile: PersonSummary })[];
+  offers: (StandbyOffer & { profile: PersonSummary })[];
+  events: (StandbyEvent & { profile: PersonSummary; actor: PersonSummary })[];
+};
+
+/**
+ * The job, role and shift a standby slot belongs to
+ */
+export type StandbySlot = {
+  org_id: string;
+  job_id: string;
+  job_title: string;
+  job_status: string;
+  job_required_role_id: string;
+  role_name: string;
+  quantity_needed: number;
+  shift_id: string | null;
+  shift_name: string | null;
+  start_time: string;
+  end_time: string;
+  venue_id: string | null;
+  venue_name: string | null;
+};
+
+/**
+ * An open offer made to the current user
+ */
+export type MyStandbyOffer = StandbyOffer & { slot: StandbySlot };
+
+/**
+ * A role the current user is on standby for, and where they are on the list
+ */
+export type MyStandbyEntry = StandbyEntry & { slot: StandbySlot };
+
+/**
+ * The current user's open offers and the lists they're on
+ */
+export type MyStandby = {
+  offers: MyStandbyOffer[];
+  entries: MyStandbyEntry[];
+};
@@ -0,0 +1,230 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { acceptStandbyOffer, declineStandbyOffer, updateStandbyOfferWindow } from './update';
+import { createClient, createServiceRoleClient } from '@/utils/supabase/server';
+import { isAdmin } from '@/utils/supabase/auth-helpers';
+import { updateJobStatusIfAllRolesFilled } from '@/utils/job-assignment-helpers';
+import { checkManagerPermission } from '../jobs/utils';
+import { checkBookingTurnaround } from '../job-shifts/utils';
+import { sendStandbyOfferClosedNotification } from './notifications';
+import { getStandbySlots, offerNextStandby } from './utils';
+
+vi.mock('@/utils/supabase/server', () => ({
+  createClient: vi.fn(),
+  createServiceRoleClient: vi.fn()
+}));
+
+vi.mock('@/utils/supabase/auth-helpers', () => ({
+  isAdmin: vi.fn()
+}));
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn()
+}));
+
+// Hand back the redirect instead of throwing, so tests can check where it went
+vi.mock('@/utils/utils', () => ({
+  encodedRedirect: vi.fn((type: string, path: string, message: string) => ({ type, path, message }))
+}));
+
+vi.mock('@/utils/job-assignment-helpers', () => ({
+  updateJobStatusIfAllRolesFilled: vi.fn()
+}));
+
+vi.mock('../jobs/utils', () => ({
+  checkManagerPermission: vi.fn()
+}));
+
+vi.mock('../job-shifts/utils', () => ({
+  checkBookingTurnaround: vi.fn()
+}));
+
+vi.mock('./notifications', () => ({
+  sendStandbyOfferClosedNotification: vi.fn()
+}));
+
+vi.mock('./utils', () => ({
+  getStandbySlots: vi.fn(),
+  logStandbyEvent: vi.fn(),
+  offerNextStandby: vi.fn()
+}));
+
+const schedulePath = '/dashboard/employee/schedule';
+const organizationPath = '/dashboard/organization';
+
+const slot = {
+  org_id: 'org-1',
+  job_id: 'job-1',
+  job_title: 'Smith Wedding',
+  job_required_role_id: 'role-1',
+  role_name: 'Photographer',
+  start_time: '2025-07-12T14:00:00Z',
+  end_time: '2025-07-12T22:00:00Z',
+  venue_id: 'venue-1'
+};
+
+const formData = (values: Record<string, string>) => {
+  const data = new FormData();
+  for (const [key, value] of Object.entries(values)) {
+    data.append(key, value);
+  }
+  return data;
+};
+
+describe('standby actions', () => {
+  const mockSupabase = {
+    auth: { getUser: vi.fn() },
+    rpc: vi.fn(),
+    from: vi.fn(),
+    select: vi.fn(),
+    update: vi.fn(),
+    eq: vi.fn(),
+    single: vi.fn()
+  };
+  const mockServiceSupabase = {};
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (createClient as any).mockResolvedValue(mockSupabase);
+    (createServiceRoleClient as any).mockReturnValue(mockServiceSupabase);
+    mockSupabase.from.mockReturnValue(mockSupabase);
+    mockSupabase.select.mockReturnValue(mockSupabase);
+    mockSupabase.update.mockReturnValue(mockSupabase);
+    mockSupabase.eq.mockReturnValue(mockSupabase);
+
+    mockSupabase.auth.getUser.mockResolvedValue({ data: { user: { id: 'employee' } } });
+    mockSupabase.single.mockResolvedValue({ data: { job_required_role_id: 'role-1' }, error: null });
+    (getStandbySlots as any).mockResolvedValue({ data: { 'role-1': slot } });
+    (checkBookingTurnaround as any).mockResolvedValue({ data: null });
+    (offerNextStandby as any).mockResolvedValue({});
+  });
+
+  describe('acceptStandbyOffer', () => {
+    it('should send someone who is not logged in to sign in', async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: null } });
+
+      const result = await acceptStandbyOffer(formData({ offerId: 'offer-1' }));
+
+      expect(result).toEqual({ type: 'error', path: '/sign-in', message: 'You must be logged in' });
+    });
+
+    it('should not accept an offer made to someone else', async () => {
+      mockSupabase.single.mockResolvedValue({ data: null, error: null });
+
+      const result = await acceptStandbyOffer(formData({ offerId: 'offer-1' }));
+
+      expect(mockSupabase.eq).toHaveBeenCalledWith('user_id', 'employee');
+      expect(result).toEqual({ type: 'error', path: schedulePath, message: 'Offer not found' });
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a shift that clashes with a booking made since the offer', async () => {
+      (checkBookingTurnaround as any).mockResolvedValue({
+        data: { severity: 'conflict', message: 'Time conflict with another job' }
+      });
+
+      const result = await acceptStandbyOffer(formData({ offerId: 'offer-1' }));
+
+      expect(result).toEqual({
+        type: 'error',
+        path: schedulePath,
+        message: "You can't make this shift: Time conflict with another job"
+      });
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should pass on the error when the offer can no longer be accepted', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { message: 'This offer has expired' } });
+
+      const result = await acceptStandbyOffer(formData({ offerId: 'offer-1' }));
+
+      expect(result).toEqual({ type: 'error', path: schedulePath, message: 'This offer has expired' });
+      expect(updateJobStatusIfAllRolesFilled).not.toHaveBeenCalled();
+    });
+
+    it('should book the employee, update the job and tell the managers', async () => {
+      const offer = { id: 'offer-1', job_required_role_id: 'role-1', status: 'accepted' };
+      mockSupabase.rpc.mockResolvedValue({ data: offer, error: null });
+      (checkBookingTurnaround as any).mockResolvedValue({
+        data: { severity: 'tight', message: 'Only 20 minutes after your shift at The Barn' }
+      });
+
+      const result = await acceptStandbyOffer(formData({ offerId: 'offer-1' }));
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('respond_to_standby_offer', { p_offer_id: 'offer-1', p_accept: true });
+      expect(updateJobStatusIfAllRolesFilled).toHaveBeenCalledWith('job-1', {
+        supabase: mockServiceSupabase,
+        changedByUserId: 'employee'
+      });
+      expect(sendStandbyOfferClosedNotification).toHaveBeenCalledWith(mockServiceSupabase, offer, slot);
+      expect(result).toEqual({
+        type: 'success',
+        path: schedulePath,
+        message: "You're booked as Photographer. Only 20 minutes after your shift at The Barn"
+      });
+    });
+  });
+
+  describe('declineStandbyOffer', () => {
+    it('should pass on the error when the offer has already been answered', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { message: 'You have already answered this offer' } });
+
+      const result = await declineStandbyOffer(formData({ offerId: 'offer-1' }));
+
+      expect(result).toEqual({ type: 'error', path: schedulePath, message: 'You have already answered this offer' });
+      expect(offerNextStandby).not.toHaveBeenCalled();
+    });
+
+    it('should offer the slot to the next standby', async () => {
+      const offer = { id: 'offer-1', job_required_role_id: 'role-1', status: 'declined' };
+      mockSupabase.rpc.mockResolvedValue({ data: offer, error: null });
+
+      const result = await declineStandbyOffer(formData({ offerId: 'offer-1' }));
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('respond_to_standby_offer', { p_offer_id: 'offer-1', p_accept: false });
+      expect(sendStandbyOfferClosedNotification).toHaveBeenCalledWith(mockServiceSupabase, offer, slot);
+      expect(offerNextStandby).toHaveBeenCalledWith(mockServiceSupabase, 'role-1', { reason: 'Previous standby declined' });
+      expect(result).toEqual({ type: 'success', path: schedulePath, message: 'Offer declined' });
+    });
+  });
+
+  describe('updateStandbyOfferWindow', () => {
+    beforeEach(() => {
+      (checkManagerPermission as any).mockResolvedValue({
+        authorized: true,
+        user: { id: 'manager' },
+        profile: { org_id: 'org-1' }
+      });
+      (isAdmin as any).mockResolvedValue(true);
+    });
+
+    it('should only let admins change the window', async () => {
+      (isAdmin as any).mockResolvedValue(false);
+
+      const result = await updateStandbyOfferWindow(formData({ standby_offer_hours: '12' }));
+
+      expect(result).toEqual({
+        type: 'error',
+        path: organizationPath,
+        message: 'Only admins can change the standby offer window'
+      });
+      expect(mockSupabase.update).not.toHaveBeenCalled();
+    });
+
+    it('should require a whole number of hours', async () => {
+      const result = await updateStandbyOfferWindow(formData({ standby_offer_hours: '1.5' }));
+
+      expect(result).toMatchObject({ type: 'error', path: organizationPath });
+      expect(mockSupabase.update).not.toHaveBeenCalled();
+    });
+
+    it('should save the window for the organization', async () => {
+      mockSupabase.eq.mockResolvedValue({ error: null });
+
+      const result = await updateStandbyOfferWindow(formData({ standby_offer_hours: '12' }));
+
+      expect(mockSupabase.update).toHaveBeenCalledWith({ standby_offer_hours: 12 });
+      expect(mockSupabase.eq).toHaveBeenCalledWith('id', 'org-1');
+      expect(result).toEqual({ type: 'success', path: organizationPath, message: 'Standby offer window updated' });
+    });
+  });
+});
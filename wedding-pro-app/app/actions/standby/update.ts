@@ -0,0 +1,293 @@
+"use server";
+
+import { createClient, createServiceRoleClient } from "@/utils/supabase/server";
+import { isAdmin } from "@/utils/supabase/auth-helpers";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { updateJobStatusIfAllRolesFilled } from "@/utils/job-assignment-helpers";
+import { checkManagerPermission } from "../jobs/utils";
+import { checkBookingTurnaround } from "../job-shifts/utils";
+import { moveStandbyEntry, renumberStandby } from "./client-utils";
+import { sendStandbyOfferClosedNotification } from "./notifications";
+import { getStandbySlots, logStandbyEvent, offerNextStandby } from "./utils";
+import type { StandbyOffer } from "./types";
+
+const schedulePath = "/dashboard/employee/schedule";
+
+/**
+ * Take an employee off a role's standby list; everyone below moves up
+ */
+export async function removeStandbyCandidate(formData: FormData) {
+  const supabase = await createClient();
+
+  const jobId = formData.get("jobId")?.toString();
+  const entryId = formData.get("entryId")?.toString();
+  const jobPath = `/dashboard/manager/jobs/${jobId}`;
+
+  // Check permissions
+  const { authorized, user, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !user || !profile?.org_id) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized or profile missing");
+  }
+
+  if (!jobId || !entryId) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", "Standby entry is required");
+  }
+
+  const { data: entry, error: entryError } = await supabase
+    .from('job_standby_entries')
+    .delete()
+    .eq('id', entryId)
+    .eq('job_id', jobId)
+    .eq('org_id', profile.org_id)
+    .select()
+    .single();
+
+  if (entryError || !entry) {
+    console.error("Error removing standby:", entryError);
+    return encodedRedirect("error", jobPath, "Standby entry not found");
+  }
+
+  const { data: remaining } = await supabase
+    .from('job_standby_entries')
+    .select('id, rank')
+    .eq('job_required_role_id', entry.job_required_role_id);
+
+  for (const renumbered of renumberStandby(remaining || [])) {
+    if (renumbered.rank === remaining?.find(e => e.id === renumbered.id)?.rank) continue;
+    await supabase
+      .from('job_standby_entries')
+      .update({ rank: renumbered.rank })
+      .eq('id', renumbered.id);
+  }
+
+  const { data: slots } = await getStandbySlots(supabase, [entry.job_required_role_id]);
+  const slot = slots?.[entry.job_required_role_id];
+  if (slot) {
+    await logStandbyEvent(supabase, slot, {
+      event_type: 'removed',
+      user_id: entry.user_id,
+      actor_user_id: user.id
+    });
+  }
+
+  revalidatePath(jobPath);
+  return encodedRedirect("success", jobPath, "Removed from the standby list");
+}
+
+/**
+ * Move an employee one place up or down a role's standby list
+ */
+export async function moveStandbyCandidate(formData: FormData) {
+  const supabase = await createClient();
+
+  const jobId = formData.get("jobId")?.toString();
+  const entryId = formData.get("entryId")?.toString();
+  const direction = formData.get("direction")?.toString();
+  const jobPath = `/dashboard/manager/jobs/${jobId}`;
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile?.org_id) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized or profile missing");
+  }
+
+  if (!jobId || !entryId || (direction !== 'up' && direction !== 'down')) {
+    return encodedRedirect("error", "/dashboard/manager/jobs", "Standby entry and direction are required");
+  }
+
+  const { data: entry } = await supabase
+    .from('job_standby_entries')
+    .select('job_required_role_id')
+    .eq('id', entryId)
+    .eq('job_id', jobId)
+    .eq('org_id', profile.org_id)
+    .single();
+
+  if (!entry) {
+    return encodedRedirect("error", jobPath, "Standby entry not found");
+  }
+
+  const { data: entries, error } = await supabase
+    .from('job_standby_entries')
+    .select('id, rank')
+    .eq('job_required_role_id', entry.job_required_role_id);
+
+  if (error || !entries) {
+    console.error("Error fetching standby list:", error);
+    return encodedRedirect("error", jobPath, "Failed to reorder the standby list");
+  }
+
+  for (const moved of moveStandbyEntry(entries, entryId, direction)) {
+    if (moved.rank === entries.find(e => e.id === moved.id)?.rank) continue;
+    const { error: updateError } = await supabase
+      .from('job_standby_entries')
+      .update({ rank: moved.rank })
+      .eq('id', moved.id);
+
+    if (updateError) {
+      console.error("Error reordering standby list:", updateError);
+      return encodedRedirect("error", jobPath, "Failed to reorder the standby list");
+    }
+  }
+
+  revalidatePath(jobPath);
+  return encodedRedirect("success", jobPath, "Standby list reordered");
+}
+
+/**
+ * Accept a standby offer for the current user. The respond_to_standby_offer
+ * database function books them if the slot is still open; the job moves to
+ * 'upcoming' if that fills it, and the managers are told.
+ */
+export async function acceptStandbyOffer(formData: FormData) {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return encodedRedirect("error", "/sign-in", "You must be logged in");
+  }
+
+  const offerId = formData.get("offerId")?.toString();
+  if (!offerId) {
+    return encodedRedirect("error", schedulePath, "Offer is required");
+  }
+
+  const { data: pending } = await supabase
+    .from('job_standby_offers')
+    .select('job_required_role_id')
+    .eq('id', offerId)
+    .eq('user_id', user.id)
+    .single();
+
+  if (!pending) {
+    return encodedRedirect("error", schedulePath, "Offer not found");
+  }
+
+  const { data: slots } = await getStandbySlots(supabase, [pending.job_required_role_id]);
+  const slot = slots?.[pending.job_required_role_id];
+  if (!slot) {
+    return encodedRedirect("error", schedulePath, "Offer not found");
+  }
+
+  // Bookings made since the offer may clash with it
+  const { data: turnaround } = await checkBookingTurnaround(
+    supabase,
+    slot.org_id,
+    user.id,
+    { job_id: slot.job_id, start_time: slot.start_time, end_time: slot.end_time, venue_id: slot.venue_id }
+  );
+
+  if (turnaround?.severity === 'conflict') {
+    return encodedRedirect("error", schedulePath, `You can't make this shift: ${turnaround.message}`);
+  }
+
+  const { data: offer, error } = await supabase.rpc('respond_to_standby_offer', {
+    p_offer_id: offerId,
+    p_accept: true
+  });
+
+  if (error || !offer) {
+    console.error("Error accepting standby offer:", error);
+    return encodedRedirect("error", schedulePath, error?.message || "Failed to accept the offer");
+  }
+
+  // Employees can't update jobs or look up their managers, so finish with the service role
+  const serviceSupabase = createServiceRoleClient();
+  await updateJobStatusIfAllRolesFilled(slot.job_id, { supabase: serviceSupabase, changedByUserId: user.id });
+  await sendStandbyOfferClosedNotification(serviceSupabase, offer as StandbyOffer, slot);
+
+  revalidatePath(schedulePath);
+  revalidatePath(`/dashboard/manager/jobs/${slot.job_id}`);
+  return encodedRedirect(
+    "success",
+    schedulePath,
+    turnaround?.severity === 'tight'
+      ? `You're booked as ${slot.role_name}. ${turnaround.message}`
+      : `You're booked as ${slot.role_name}`
+  );
+}
+
+/**
+ * Decline a standby offer for the current user; the slot is offered to the
+ * next person on the list
+ */
+export async function declineStandbyOffer(formData: FormData) {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return encodedRedirect("error", "/sign-in", "You must be logged in");
+  }
+
+  const offerId = formData.get("offerId")?.toString();
+  if (!offerId) {
+    return encodedRedirect("error", schedulePath, "Offer is required");
+  }
+
+  const { data: offer, error } = await supabase.rpc('respond_to_standby_offer', {
+    p_offer_id: offerId,
+    p_accept: false
+  });
+
+  if (error || !offer) {
+    console.error("Error declining standby offer:", error);
+    return encodedRedirect("error", schedulePath, error?.message || "Failed to decline the offer");
+  }
+
+  // Moving down the list reads and offers to other employees, which only managers can do
+  const serviceSupabase = createServiceRoleClient();
+  const { data: slots } = await getStandbySlots(serviceSupabase, [offer.job_required_role_id]);
+  const slot = slots?.[offer.job_required_role_id];
+
+  if (slot) {
+    await sendStandbyOfferClosedNotification(serviceSupabase, offer as StandbyOffer, slot);
+    const { error: offerError } = await offerNextStandby(serviceSupabase, offer.job_required_role_id, {
+      reason: 'Previous standby declined'
+    });
+
+    if (offerError) {
+      console.error("Error offering the slot to the next standby:", offerError);
+    }
+  }
+
+  revalidatePath(schedulePath);
+  return encodedRedirect("success", schedulePath, "Offer declined");
+}
+
+/**
+ * Set how many hours standbys have to accept an offer before it moves on
+ */
+export async function updateStandbyOfferWindow(formData: FormData) {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile?.org_id) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized or profile missing");
+  }
+
+  // Org-wide settings are admin-only, like the organization page
+  if (!await isAdmin()) {
+    return encodedRedirect("error", "/dashboard/organization", "Only admins can change the standby offer window");
+  }
+
+  const hours = Number(formData.get("standby_offer_hours"));
+
+  if (!Number.isInteger(hours) || hours < 1) {
+    return encodedRedirect("error", "/dashboard/organization", "Offer window must be a whole number of hours, at least 1");
+  }
+
+  const { error } = await supabase
+    .from('orgs')
+    .update({ standby_offer_hours: hours })
+    .eq('id', profile.org_id);
+
+  if (error) {
+    console.error("Error updating standby offer window:", error);
+    return encodedRedirect("error", "/dashboard/organization", error.message);
+  }
+
+  revalidatePath('/dashboard/organization');
+  return encodedRedirect("success", "/dashboard/organization", "Standby offer window updated");
+}
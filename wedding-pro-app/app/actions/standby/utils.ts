@@ -0,0 +1,357 @@
+"use server";
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { checkBookingTurnaround } from "../job-shifts/utils";
+import {
+  countOpenSlots,
+  DEFAULT_STANDBY_OFFER_HOURS,
+  getOfferExpiry,
+  pickNextStandby
+} from "./client-utils";
+import {
+  sendStandbyExhaustedNotification,
+  sendStandbyOfferExpiredNotification,
+  sendStandbyOfferNotification
+} from "./notifications";
+import type { StandbyEntry, StandbyEventType, StandbyOffer, StandbySlot } from "./types";
+
+/**
+ * Get the hours an org gives standbys to accept an offer.
+ * Falls back to the default if it can't be read.
+ */
+export async function getStandbyOfferHours(supabase: SupabaseClient, orgId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('orgs')
+    .select('standby_offer_hours')
+    .eq('id', orgId)
+    .single();
+
+  if (error || !data) {
+    console.error("Error fetching standby offer window:", error);
+    return DEFAULT_STANDBY_OFFER_HOURS;
+  }
+
+  return data.standby_offer_hours ?? DEFAULT_STANDBY_OFFER_HOURS;
+}
+
+/**
+ * Get the job, role and shift details for each role, keyed by role ID.
+ * Uses the shift's window and venue, falling back to the job's.
+ */
+export async function getStandbySlots(
+  supabase: SupabaseClient,
+  jobRequiredRoleIds: string[]
+): Promise<{ data?: Record<string, StandbySlot>; error?: string }> {
+  if (jobRequiredRoleIds.length === 0) {
+    return { data: {} };
+  }
+
+  const { data, error } = await supabase
+    .from('job_required_roles')
+    .select(`
+      id,
+      role_name,
+      quantity_needed,
+      shift_id,
+      job:job_id (
+        id, org_id, title, status, start_time, end_time, venue_id,
+        venue:venue_id ( name )
+      ),
+      shift:shift_id (
+        name, start_time, end_time, venue_id,
+        venue:venue_id ( name )
+      )
+    `)
+    .in('id', jobRequiredRoleIds);
+
+  if (error) {
+    console.error("Error fetching standby slots:", error);
+    return { error: "Failed to fetch the roles" };
+  }
+
+  const slots: Record<string, StandbySlot> = {};
+  for (const role of (data || []) as any[]) {
+    const job = Array.isArray(role.job) ? role.job[0] : role.job;
+    const shift = Array.isArray(role.shift) ? role.shift[0] : role.shift;
+    if (!job) continue;
+
+    const shiftVenue = Array.isArray(shift?.venue) ? shift.venue[0] : shift?.venue;
+    const jobVenue = Array.isArray(job.venue) ? job.venue[0] : job.venue;
+
+    slots[role.id] = {
+      org_id: job.org_id,
+      job_id: job.id,
+      job_title: job.title,
+      job_status: job.status,
+      job_required_role_id: role.id,
+      role_name: role.role_name,
+      quantity_needed: role.quantity_needed,
+      shift_id: role.shift_id,
+      shift_name: shift?.name || null,
+      start_time: shift?.start_time || job.start_time,
+      end_time: shift?.end_time || job.end_time,
+      venue_id: shift?.venue_id || job.venue_id || null,
+      venue_name: shiftVenue?.name || jobVenue?.name || null
+    };
+  }
+
+  return { data: slots };
+}
+
+/**
+ * Add a line to a job's standby log. Failures are logged, not thrown, so the
+ * step itself still goes ahead.
+ */
+export async function logStandbyEvent(
+  supabase: SupabaseClient,
+  slot: StandbySlot,
+  event: {
+    event_type: StandbyEventType;
+    user_id?: string | null;
+    details?: string | null;
+    actor_user_id?: string | null;
+  }
+): Promise<void> {
+  const { error } = await supabase
+    .from('job_standby_events')
+    .insert({
+      org_id: slot.org_id,
+      job_id: slot.job_id,
+      job_required_role_id: slot.job_required_role_id,
+      user_id: event.user_id ?? null,
+      event_type: event.event_type,
+      details: event.details ?? null,
+      actor_user_id: event.actor_user_id ?? null
+    });
+
+  if (error) {
+    console.error("Error logging standby event:", error);
+  }
+}
+
+/**
+ * Offer a role's open slots to the next people on its standby list. Standbys
+ * already booked for the role, or who have been offered it before, are
+ * passed over, as are those who can't make the shift. If nobody is left the
+ * managers are told. Does nothing for jobs that aren't being staffed, shifts
+ * that have started, or slots already waiting on an offer.
+ */
+export async function offerNextStandby(
+  supabase: SupabaseClient,
+  jobRequiredRoleId: string,
+  options: { reason?: string | null; actorUserId?: string | null; now?: Date } = {}
+): Promise<{ offered: number; error?: string }> {
+  const now = options.now || new Date();
+
+  const { data: slots, error: slotError } = await getStandbySlots(supabase, [jobRequiredRoleId]);
+  const slot = slots?.[jobRequiredRoleId];
+  if (slotError || !slot) {
+    return { offered: 0, error: slotError || "Role not found" };
+  }
+
+  if (!['available', 'upcoming', 'in_progress'].includes(slot.job_status) || new Date(slot.start_time) <= now) {
+    return { offered: 0 };
+  }
+
+  const [
+    { data: entries, error: entriesError },
+    { data: assignments, error: assignmentsError },
+    { data: offers, error: offersError },
+    { data: assignmentOffers, error: assignmentOffersError }
+  ] = await Promise.all([
+    supabase
+      .from('job_standby_entries')
+      .select('*')
+      .eq('job_required_role_id', jobRequiredRoleId)
+      .order('rank', { ascending: true }),
+    supabase
+      .from('job_assignments')
+      .select('user_id')
+      .eq('job_required_role_id', jobRequiredRoleId)
+      .neq('status', 'declined'),
+    supabase
+      .from('job_standby_offers')
+      .select('user_id, status')
+      .eq('job_required_role_id', jobRequiredRoleId),
+    // A manager's open assignment offer holds its slot too
+    supabase
+      .from('job_assignment_offers')
+      .select('user_id')
+      .eq('job_required_role_id', jobRequiredRoleId)
+      .eq('status', 'offered')
+  ]);
+
+  if (entriesError || assignmentsError || offersError || assignmentOffersError) {
+    console.error("Error loading standby list:", entriesError || assignmentsError || offersError || assignmentOffersError);
+    return { offered: 0, error: "Failed to load the standby list" };
+  }
+
+  if (!entries || entries.length === 0) {
+    return { offered: 0 };
+  }
+
+  const openOffers = (offers || []).filter(offer => offer.status === 'offered').length + (assignmentOffers || []).length;
+  let openSlots = countOpenSlots(slot.quantity_needed, (assignments || []).length, openOffers);
+
+  // Anyone booked for the role or offered it before isn't offered it again
+  const ruledOut = new Set<string>([
+    ...(assignments || []).map(assignment => assignment.user_id as string),
+    ...(offers || []).map(offer => offer.user_id as string),
+    ...(assignmentOffers || []).map(offer => offer.user_id as string)
+  ]);
+  const offerHours = await getStandbyOfferHours(supabase, slot.org_id);
+  let offered = 0;
+
+  while (openSlots > 0) {
+    const next = pickNextStandby(entries as StandbyEntry[], ruledOut);
+
+    if (!next) {
+      await logStandbyEvent(supabase, slot, {
+        event_type: 'exhausted',
+        details: `${openSlots} slot${openSlots === 1 ? '' : 's'} still open`,
+        actor_user_id: options.actorUserId
+      });
+      await sendStandbyExhaustedNotification(supabase, slot, openSlots);
+      break;
+    }
+
+    ruledOut.add(next.user_id);
+
+    const { data: turnaround, error: turnaroundError } = await checkBookingTurnaround(
+      supabase,
+      slot.org_id,
+      next.user_id,
+      { job_id: slot.job_id, start_time: slot.start_time, end_time: slot.end_time, venue_id: slot.venue_id }
+    );
+
+    if (turnaroundError || turnaround?.severity === 'conflict') {
+      await logStandbyEvent(supabase, slot, {
+        event_type: 'skipped',
+        user_id: next.user_id,
+        details: turnaround?.message || "Couldn't check their bookings",
+        actor_user_id: options.actorUserId
+      });
+      continue;
+    }
+
+    const { data: offer, error: offerError } = await supabase
+      .from('job_standby_offers')
+      .insert({
+        org_id: slot.org_id,
+        job_id: slot.job_id,
+        job_required_role_id: jobRequiredRoleId,
+        user_id: next.user_id,
+        reason: options.reason ?? null,
+        offered_at: now.toISOString(),
+        expires_at: getOfferExpiry(now, offerHours, slot.start_time).toISOString()
+      })
+      .select()
+      .single();
+
+    if (offerError || !offer) {
+      console.error("Error creating standby offer:", offerError);
+      return { offered, error: "Failed to offer the slot" };
+    }
+
+    await logStandbyEvent(supabase, slot, {
+      event_type: 'offered',
+      user_id: next.user_id,
+      details: `#${next.rank} on standby`,
+      actor_user_id: options.actorUserId
+    });
+    await sendStandbyOfferNotification(supabase, offer as StandbyOffer, slot);
+
+    offered++;
+    openSlots--;
+  }
+
+  return { offered };
+}
+
+/**
+ * Call when an assignment for a role is released, e.g. a drop request is
+ * approved. Logs the opening on roles with a standby list and offers the
+ * slot to the top standby.
+ */
+export async function fillSlotFromStandby(
+  supabase: SupabaseClient,
+  jobRequiredRoleId: string,
+  options: { reason: string; actorUserId?: string | null }
+): Promise<{ offered: number; error?: string }> {
+  const { count, error } = await supabase
+    .from('job_standby_entries')
+    .select('id', { count: 'exact', head: true })
+    .eq('job_required_role_id', jobRequiredRoleId);
+
+  if (error) {
+    console.error("Error checking standby list:", error);
+    return { offered: 0, error: "Failed to load the standby list" };
+  }
+
+  if (!count) {
+    return { offered: 0 };
+  }
+
+  const { data: slots } = await getStandbySlots(supabase, [jobRequiredRoleId]);
+  const slot = slots?.[jobRequiredRoleId];
+  if (slot) {
+    await logStandbyEvent(supabase, slot, {
+      event_type: 'slot_opened',
+      details: options.reason,
+      actor_user_id: options.actorUserId
+    });
+  }
+
+  return offerNextStandby(supabase, jobRequiredRoleId, options);
+}
+
+/**
+ * Expire offers nobody answered in time, tell the standby, and offer each
+ * slot to the next person on the list. Running this often is safe.
+ */
+export async function expireStandbyOffers(
+  supabase: SupabaseClient,
+  options: { now?: Date } = {}
+): Promise<{ expired: number; error?: string }> {
+  const now = options.now || new Date();
+
+  const { data: offers, error } = await supabase
+    .from('job_standby_offers')
+    .update({ status: 'expired', responded_at: now.toISOString() })
+    .eq('status', 'offered')
+    .lte('expires_at', now.toISOString())
+    .select();
+
+  if (error) {
+    console.error("Error expiring standby offers:", error);
+    return { expired: 0, error: "Failed to expire standby offers" };
+  }
+
+  if (!offers || offers.length === 0) {
+    return { expired: 0 };
+  }
+
+  const roleIds = Array.from(new Set<string>(offers.map(offer => offer.job_required_role_id)));
+  const { data: slots } = await getStandbySlots(supabase, roleIds);
+
+  for (const offer of offers as StandbyOffer[]) {
+    const slot = slots?.[offer.job_required_role_id];
+    if (!slot) continue;
+
+    await logStandbyEvent(supabase, slot, { event_type: 'expired', user_id: offer.user_id });
+    await sendStandbyOfferExpiredNotification(supabase, offer, slot);
+  }
+
+  for (const roleId of roleIds) {
+    const { error: offerError } = await offerNextStandby(supabase, roleId, {
+      reason: 'Previous standby offer expired',
+      now
+    });
+
+    if (offerError) {
+      console.error(`Error offering role ${roleId} to the next standby:`, offerError);
+    }
+  }
+
+  return { expired: offers.length };
+}
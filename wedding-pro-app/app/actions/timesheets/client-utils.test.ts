@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeGeofence,
+  getOnTimeCompletion,
+  getPayableHours,
+  getWorkedHours,
+  isClockInOpen,
+  wasOnTime
+} from './client-utils';
+
+const scheduled = {
+  start_time: '2025-06-14T15:00:00Z',
+  end_time: '2025-06-14T23:00:00Z',
+  call_time: '2025-06-14T14:30:00Z',
+};
+
+describe('timesheet client utils', () => {
+  describe('isClockInOpen', () => {
+    it('should open 2 hours before the call time and close at the end of the shift', () => {
+      expect(isClockInOpen(scheduled, new Date('2025-06-14T12:29:00Z'))).toBe(false);
+      expect(isClockInOpen(scheduled, new Date('2025-06-14T12:30:00Z'))).toBe(true);
+      expect(isClockInOpen(scheduled, new Date('2025-06-14T23:00:00Z'))).toBe(true);
+      expect(isClockInOpen(scheduled, new Date('2025-06-14T23:01:00Z'))).toBe(false);
+    });
+  });
+
+  describe('getWorkedHours', () => {
+    it('should measure to the hundredth of an hour and wait for the clock-out', () => {
+      expect(getWorkedHours('2025-06-14T14:25:00Z', '2025-06-14T23:10:00Z')).toBe(8.75);
+      expect(getWorkedHours('2025-06-14T14:25:00Z', null)).toBeNull();
+    });
+  });
+
+  describe('getPayableHours', () => {
+    it('should only pay approved hours', () => {
+      expect(getPayableHours({ status: 'approved', approved_hours: 9.5 })).toBe(9.5);
+      expect(getPayableHours({ status: 'submitted', approved_hours: null })).toBeNull();
+      expect(getPayableHours({ status: 'rejected', approved_hours: 9.5 })).toBeNull();
+    });
+  });
+
+  describe('wasOnTime', () => {
+    it('should expect arrival by the call time and staying to the end, with a little grace', () => {
+      expect(wasOnTime({ clock_in_at: '2025-06-14T14:34:00Z', clock_out_at: '2025-06-14T22:56:00Z' }, scheduled)).toBe(true);
+      expect(wasOnTime({ clock_in_at: '2025-06-14T14:40:00Z', clock_out_at: '2025-06-14T23:00:00Z' }, scheduled)).toBe(false);
+      expect(wasOnTime({ clock_in_at: '2025-06-14T14:00:00Z', clock_out_at: '2025-06-14T22:30:00Z' }, scheduled)).toBe(false);
+      expect(wasOnTime({ clock_in_at: '2025-06-14T14:00:00Z', clock_out_at: null }, scheduled)).toBeNull();
+    });
+  });
+
+  describe('getOnTimeCompletion', () => {
+    it('should count approved timesheets only', () => {
+      const onTime = { clock_in_at: '2025-06-14T14:00:00Z', clock_out_at: '2025-06-14T23:00:00Z' };
+      const late = { clock_in_at: '2025-06-14T16:00:00Z', clock_out_at: '2025-06-14T23:00:00Z' };
+
+      expect(
+        getOnTimeCompletion([
+          { timesheet: { ...onTime, status: 'approved' }, scheduled },
+          { timesheet: { ...onTime, status: 'approved' }, scheduled },
+          { timesheet: { ...late, status: 'approved' }, scheduled },
+          { timesheet: { ...late, status: 'submitted' }, scheduled },
+        ])
+      ).toEqual({ onTime: 2, total: 3, percent: 67 });
+      expect(getOnTimeCompletion([]).percent).toBeNull();
+    });
+  });
+
+  it('should describe where a clock-in happened', () => {
+    expect(describeGeofence(120, true, true)).toBe('At the venue (120 m away)');
+    expect(describeGeofence(2430, false, true)).toBe('2.4 km from the venue');
+    expect(describeGeofence(null, null, true)).toBe('Venue location unknown');
+    expect(describeGeofence(null, null, false)).toBe('No location shared');
+  });
+});
@@ -0,0 +1,122 @@
+import type { ScheduledWindow, Timesheet, TimesheetStatus } from "./types";
+
+/**
+ * Display names for timesheet statuses
+ */
+export const TIMESHEET_STATUS_LABELS: Record<TimesheetStatus, string> = {
+  open: 'Clocked in',
+  submitted: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+/**
+ * Geofence radius used until an org sets its own (orgs.clock_in_radius_meters)
+ */
+export const DEFAULT_CLOCK_IN_RADIUS_METERS = 300;
+
+/**
+ * How early before the call time clock-in opens. The clock_in database
+ * function enforces the same window.
+ */
+export const CLOCK_IN_OPENS_HOURS_BEFORE = 2;
+
+/**
+ * Leeway either side of the scheduled window before arriving or leaving counts
+ * against on-time completion
+ */
+export const ON_TIME_GRACE_MINUTES = 5;
+
+const HOUR_MS = 60 * 60 * 1000;
+const roundHours = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * When staff are expected on site: the call time, or the start if there is none
+ */
+export function getExpectedArrival(scheduled: ScheduledWindow): Date {
+  return new Date(scheduled.call_time || scheduled.start_time);
+}
+
+/**
+ * Whether an assignment can be clocked in to at the given time
+ */
+export function isClockInOpen(scheduled: ScheduledWindow, now: Date = new Date()): boolean {
+  const opensAt = getExpectedArrival(scheduled).getTime() - CLOCK_IN_OPENS_HOURS_BEFORE * HOUR_MS;
+  return now.getTime() >= opensAt && now.getTime() <= new Date(scheduled.end_time).getTime();
+}
+
+/**
+ * Hours between clocking in and clocking out, to the hundredth
+ */
+export function getWorkedHours(clockInAt: string, clockOutAt: string | null): number | null {
+  if (!clockOutAt) return null;
+  const hours = (new Date(clockOutAt).getTime() - new Date(clockInAt).getTime()) / HOUR_MS;
+  return Number.isFinite(hours) && hours > 0 ? roundHours(hours) : 0;
+}
+
+/**
+ * The hours a timesheet is paid for: the approved hours once a manager has
+ * approved it, otherwise none
+ */
+export function getPayableHours(timesheet: Pick<Timesheet, 'status' | 'approved_hours'>): number | null {
+  if (timesheet.status !== 'approved' || timesheet.approved_hours === null) {
+    return null;
+  }
+  return Number(timesheet.approved_hours);
+}
+
+/**
+ * Whether someone arrived by their call time and stayed to the end of the
+ * shift, allowing ON_TIME_GRACE_MINUTES either side. Null until they clock out.
+ */
+export function wasOnTime(
+  timesheet: Pick<Timesheet, 'clock_in_at' | 'clock_out_at'>,
+  scheduled: ScheduledWindow
+): boolean | null {
+  if (!timesheet.clock_out_at) return null;
+
+  const grace = ON_TIME_GRACE_MINUTES * 60 * 1000;
+  const arrivedOnTime = new Date(timesheet.clock_in_at).getTime() <= getExpectedArrival(scheduled).getTime() + grace;
+  const stayedToEnd = new Date(timesheet.clock_out_at).getTime() >= new Date(scheduled.end_time).getTime() - grace;
+
+  return arrivedOnTime && stayedToEnd;
+}
+
+/**
+ * The On-time Completion KPI: the share of approved timesheets where the
+ * employee arrived on time and stayed to the end
+ */
+export function getOnTimeCompletion(
+  entries: { timesheet: Pick<Timesheet, 'status' | 'clock_in_at' | 'clock_out_at'>; scheduled: ScheduledWindow }[]
+): { onTime: number; total: number; percent: number | null } {
+  const approved = entries.filter(({ timesheet }) => timesheet.status === 'approved');
+  const onTime = approved.filter(({ timesheet, scheduled }) => wasOnTime(timesheet, scheduled)).length;
+
+  return {
+    onTime,
+    total: approved.length,
+    percent: approved.length === 0 ? null : Math.round((onTime / approved.length) * 100),
+  };
+}
+
+/**
+ * Show a distance in meters or, from 1 km, kilometers
+ */
+export function formatDistance(meters: number): string {
+  return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+}
+
+/**
+ * Describe where a clock-in or clock-out happened relative to the venue
+ */
+export function describeGeofence(
+  distanceMeters: number | null,
+  withinGeofence: boolean | null,
+  hasLocation: boolean
+): string {
+  if (!hasLocation) return 'No location shared';
+  if (distanceMeters === null || withinGeofence === null) return 'Venue location unknown';
+  return withinGeofence
+    ? `At the venue (${formatDistance(distanceMeters)} away)`
+    : `${formatDistance(distanceMeters)} from the venue`;
+}
@@ -0,0 +1,98 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+
+const schedulePath = "/dashboard/employee/schedule";
+
+/**
+ * Read the optional browser location sent with a clock-in or clock-out
+ */
+function readLocation(formData: FormData) {
+  const read = (name: string) => {
+    const raw = formData.get(name)?.toString();
+    const value = raw ? Number(raw) : NaN;
+    return Number.isFinite(value) ? value : null;
+  };
+
+  const latitude = read("latitude");
+  const longitude = read("longitude");
+  const hasLocation = latitude !== null && longitude !== null;
+
+  return {
+    p_latitude: hasLocation ? latitude : null,
+    p_longitude: hasLocation ? longitude : null,
+    p_accuracy_meters: hasLocation ? read("accuracy") : null
+  };
+}
+
+/**
+ * Clock the current user in to one of their assignments. The clock_in
+ * database function checks the assignment and the clock-in window, and
+ * records how far from the venue they were.
+ */
+export async function clockIn(formData: FormData) {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return encodedRedirect("error", "/sign-in", "You must be logged in");
+  }
+
+  const assignmentId = formData.get("assignmentId")?.toString();
+  if (!assignmentId) {
+    return encodedRedirect("error", schedulePath, "Assignment is required");
+  }
+
+  const { data: timesheet, error } = await supabase.rpc('clock_in', {
+    p_assignment_id: assignmentId,
+    ...readLocation(formData)
+  });
+
+  if (error || !timesheet) {
+    console.error("Error clocking in:", error);
+    return encodedRedirect("error", schedulePath, error?.message || "Failed to clock in");
+  }
+
+  revalidatePath(schedulePath);
+  revalidatePath('/dashboard/manager/timesheets');
+  return encodedRedirect(
+    "success",
+    schedulePath,
+    timesheet.clock_in_within_geofence === false
+      ? "Clocked in. You seem to be away from the venue, so your manager will check this timesheet."
+      : "Clocked in"
+  );
+}
+
+/**
+ * Clock the current user out and submit the timesheet for approval
+ */
+export async function clockOut(formData: FormData) {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return encodedRedirect("error", "/sign-in", "You must be logged in");
+  }
+
+  const timesheetId = formData.get("timesheetId")?.toString();
+  if (!timesheetId) {
+    return encodedRedirect("error", schedulePath, "Timesheet is required");
+  }
+
+  const { data: timesheet, error } = await supabase.rpc('clock_out', {
+    p_timesheet_id: timesheetId,
+    ...readLocation(formData)
+  });
+
+  if (error || !timesheet) {
+    console.error("Error clocking out:", error);
+    return encodedRedirect("error", schedulePath, error?.message || "Failed to clock out");
+  }
+
+  revalidatePath(schedulePath);
+  revalidatePath('/dashboard/manager/timesheets');
+  return encodedRedirect("success", schedulePath, "Clocked out. Your timesheet has been sent for approval.");
+}
@@ -0,0 +1,240 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { checkManagerPermission, verifyJobOrganization } from "../jobs/utils";
+import { isClockInOpen } from "./client-utils";
+import type { ClockableAssignment, Timesheet, TimesheetStatus, TimesheetWithDetails } from "./types";
+
+const TIMESHEET_DETAILS_SELECT = `
+  *,
+  employee:user_id (
+    full_name
+  ),
+  job:job_id (
+    id, title, start_time, end_time
+  ),
+  assignment:job_assignment_id (
+    shift:shift_id (
+      name, start_time, end_time, call_time
+    ),
+    job_required_role:job_required_role_id (
+      role_name, pay_type, pay_rate, min_hours, overtime_after_hours, overtime_multiplier, bonus_amount
+    )
+  )
+`;
+
+/**
+ * Get the org's timesheets for review, newest first (managers only)
+ */
+export async function getTimesheetsForReview(
+  statuses: TimesheetStatus[] = ['submitted']
+): Promise<{ data?: TimesheetWithDetails[]; error?: string }> {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return { error: permError || "Unauthorized" };
+  }
+
+  const { data, error } = await supabase
+    .from('timesheets')
+    .select(TIMESHEET_DETAILS_SELECT)
+    .eq('org_id', profile.org_id)
+    .in('status', statuses)
+    .order('clock_in_at', { ascending: false })
+    .limit(200);
+
+  if (error) {
+    console.error("Error fetching timesheets:", error);
+    return { error: "Failed to fetch timesheets" };
+  }
+
+  return { data: (data || []).map(toTimesheetWithDetails) };
+}
+
+/**
+ * Get every timesheet on a job (managers only)
+ */
+export async function getJobTimesheets(jobId: string): Promise<{ data?: TimesheetWithDetails[]; error?: string }> {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile) {
+    return { error: permError || "Unauthorized" };
+  }
+
+  // Verify the job belongs to the user's organization
+  const { verified, error: jobVerifyError } = await verifyJobOrganization(
+    supabase,
+    jobId,
+    profile.org_id!
+  );
+
+  if (!verified) {
+    return { error: jobVerifyError || "Job not found or not authorized" };
+  }
+
+  const { data, error } = await supabase
+    .from('timesheets')
+    .select(TIMESHEET_DETAILS_SELECT)
+    .eq('job_id', jobId)
+    .order('clock_in_at', { ascending: true });
+
+  if (error) {
+    console.error("Error fetching job timesheets:", error);
+    return { error: "Failed to fetch timesheets" };
+  }
+
+  return { data: (data || []).map(toTimesheetWithDetails) };
+}
+
+/**
+ * Get the current user's timesheets on a job
+ */
+export async function getMyJobTimesheets(jobId: string): Promise<{ data?: Timesheet[]; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { error: "You must be logged in" };
+  }
+
+  const { data, error } = await supabase
+    .from('timesheets')
+    .select('*')
+    .eq('job_id', jobId)
+    .eq('user_id', user.id);
+
+  if (error) {
+    console.error("Error fetching timesheets:", error);
+    return { error: "Failed to fetch timesheets" };
+  }
+
+  return { data: (data || []) as Timesheet[] };
+}
+
+/**
+ * Get the current user's assignments they can clock in to now, and the ones
+ * they are clocked in to
+ */
+export async function getMyClockableAssignments(): Promise<{ data?: ClockableAssignment[]; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { error: "You must be logged in" };
+  }
+
+  // Jobs running within a day either side of now are the only candidates
+  const now = new Date();
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  const { data: assignments, error } = await supabase
+    .from('job_assignments')
+    .select(`
+      id,
+      job_id,
+      job:job_id!inner (
+        id, title, start_time, end_time, status,
+        venue:venue_id (name)
+      ),
+      shift:shift_id (
+        name, start_time, end_time, call_time,
+        venue:venue_id (name)
+      ),
+      job_required_role:job_required_role_id (
+        role_name
+      )
+    `)
+    .eq('user_id', user.id)
+    .neq('status', 'declined')
+    .not('job.status', 'in', '(draft,cancelled)')
+    .gte('job.end_time', new Date(now.getTime() - dayMs).toISOString())
+    .lte('job.start_time', new Date(now.getTime() + dayMs).toISOString());
+
+  if (error) {
+    console.error("Error fetching assignments to clock in to:", error);
+    return { error: "Failed to fetch your shifts" };
+  }
+
+  if (!assignments || assignments.length === 0) {
+    return { data: [] };
+  }
+
+  const { data: timesheets, error: timesheetsError } = await supabase
+    .from('timesheets')
+    .select('*')
+    .in('job_assignment_id', assignments.map(assignment => assignment.id));
+
+  if (timesheetsError) {
+    console.error("Error fetching timesheets:", timesheetsError);
+    return { error: "Failed to fetch your timesheets" };
+  }
+
+  const timesheetsByAssignment = new Map<string, Timesheet>(
+    ((timesheets || []) as Timesheet[]).map(timesheet => [timesheet.job_assignment_id, timesheet])
+  );
+
+  const clockable: ClockableAssignment[] = [];
+  for (const assignment of assignments as any[]) {
+    const job = Array.isArray(assignment.job) ? assignment.job[0] : assignment.job;
+    const shift = Array.isArray(assignment.shift) ? assignment.shift[0] : assignment.shift;
+    const role = Array.isArray(assignment.job_required_role)
+      ? assignment.job_required_role[0]
+      : assignment.job_required_role;
+    const venue = unwrap(shift?.venue) || unwrap(job?.venue);
+    const scheduled = {
+      start_time: shift?.start_time || job.start_time,
+      end_time: shift?.end_time || job.end_time,
+      call_time: shift?.call_time || null,
+    };
+    const timesheet = timesheetsByAssignment.get(assignment.id) || null;
+
+    // Show open timesheets until they are clocked out, and otherwise only
+    // assignments that haven't been clocked in to while the window is open
+    if (timesheet ? timesheet.status === 'open' : isClockInOpen(scheduled, now)) {
+      clockable.push({
+        assignment_id: assignment.id,
+        job_id: assignment.job_id,
+        job_title: job.title,
+        shift_name: shift?.name || null,
+        role_name: role?.role_name || null,
+        venue_name: venue?.name || null,
+        scheduled,
+        timesheet,
+      });
+    }
+  }
+
+  return {
+    data: clockable.sort(
+      (a, b) => new Date(a.scheduled.start_time).getTime() - new Date(b.scheduled.start_time).getTime()
+    ),
+  };
+}
+
+function unwrap<T>(value: T | T[] | null | undefined): T | null {
+  return (Array.isArray(value) ? value[0] : value) ?? null;
+}
+
+function toTimesheetWithDetails(row: any): TimesheetWithDetails {
+  const { employee, job, assignment, ...timesheet } = row;
+  const assignmentData = unwrap<any>(assignment);
+  const shift = unwrap<any>(assignmentData?.shift);
+  const jobData = unwrap<any>(job);
+
+  return {
+    ...(timesheet as Timesheet),
+    employee: unwrap(employee),
+    job: jobData ? { id: jobData.id, title: jobData.title } : null,
+    scheduled: {
+      start_time: shift?.start_time || jobData?.start_time,
+      end_time: shift?.end_time || jobData?.end_time,
+      call_time: shift?.call_time || null,
+    },
+    shift_name: shift?.name || null,
+    role: unwrap(assignmentData?.job_required_role),
+  };
+}
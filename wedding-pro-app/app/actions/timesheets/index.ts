@@ -0,0 +1,10 @@
+"use server";
+
+// This file re-exports all public actions and types related to timesheets.
+
+export { clockIn, clockOut } from './create';
+export { getTimesheetsForReview, getJobTimesheets, getMyJobTimesheets, getMyClockableAssignments } from './fetch';
+export { approveTimesheet, rejectTimesheet, updateClockInRadius } from './update';
+
+// Re-export all types from the dedicated types module
+export * from './types';
@@ -0,0 +1,76 @@
+import type { RoleCompensation } from "../role-compensation/types";
+
+/**
+ * Where a timesheet is in its life
+ */
+export type TimesheetStatus =
+  | 'open'       // Clocked in, not yet out
+  | 'submitted'  // Clocked out, waiting for a manager
+  | 'approved'
+  | 'rejected';
+
+/**
+ * One employee's clock-in and clock-out for a job assignment. Distances and
+ * geofence results are null when no location was shared or the venue has no
+ * coordinates.
+ */
+export type Timesheet = {
+  id: string;
+  org_id: string;
+  job_id: string;
+  job_assignment_id: string;
+  user_id: string;
+  status: TimesheetStatus;
+  clock_in_at: string;
+  clock_in_latitude: number | null;
+  clock_in_longitude: number | null;
+  clock_in_accuracy_meters: number | null;
+  clock_in_distance_meters: number | null;
+  clock_in_within_geofence: boolean | null;
+  clock_out_at: string | null;
+  clock_out_latitude: number | null;
+  clock_out_longitude: number | null;
+  clock_out_accuracy_meters: number | null;
+  clock_out_distance_meters: number | null;
+  clock_out_within_geofence: boolean | null;
+  approved_hours: number | null; // Set by the manager on approval
+  review_note: string | null;
+  reviewed_by_user_id: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * The scheduled window a timesheet is measured against
+ */
+export type ScheduledWindow = {
+  start_time: string;
+  end_time: string;
+  call_time: string | null;
+};
+
+/**
+ * Timesheet with who worked, where and in what role, for review
+ */
+export type TimesheetWithDetails = Timesheet & {
+  employee?: { full_name: string | null } | null;
+  job?: { id: string; title: string } | null;
+  scheduled: ScheduledWindow; // The shift's times, or the job's for assignments without a shift
+  shift_name: string | null;
+  role?: (RoleCompensation & { role_name: string }) | null;
+};
+
+/**
+ * An assignment the current user can clock in or out of right now
+ */
+export type ClockableAssignment = {
+  assignment_id: string;
+  job_id: string;
+  job_title: string;
+  shift_name: string | null;
+  role_name: string | null;
+  venue_name: string | null;
+  scheduled: ScheduledWindow;
+  timesheet: Timesheet | null;
+};
@@ -0,0 +1,162 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { isAdmin } from "@/utils/supabase/auth-helpers";
+import { revalidatePath } from "next/cache";
+import { encodedRedirect } from "@/utils/utils";
+import { checkManagerPermission } from "../jobs/utils";
+import { getWorkedHours } from "./client-utils";
+
+const timesheetsPath = "/dashboard/manager/timesheets";
+
+/**
+ * Approve a timesheet. The approved hours default to the time between
+ * clocking in and out, and are what the employee is paid for (including
+ * any overtime).
+ */
+export async function approveTimesheet(formData: FormData) {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, user, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !user || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  const timesheetId = formData.get("timesheetId")?.toString();
+  const rawHours = formData.get("approved_hours")?.toString().trim();
+  const reviewNote = formData.get("review_note")?.toString().trim() || null;
+
+  if (!timesheetId) {
+    return encodedRedirect("error", timesheetsPath, "Timesheet is required");
+  }
+
+  const { data: timesheet, error: fetchError } = await supabase
+    .from('timesheets')
+    .select('id, job_id, status, clock_in_at, clock_out_at')
+    .eq('id', timesheetId)
+    .eq('org_id', profile.org_id)
+    .single();
+
+  if (fetchError || !timesheet) {
+    return encodedRedirect("error", timesheetsPath, "Timesheet not found");
+  }
+
+  if (timesheet.status === 'open') {
+    return encodedRedirect("error", timesheetsPath, "This employee hasn't clocked out yet");
+  }
+
+  const approvedHours = rawHours ? Number(rawHours) : getWorkedHours(timesheet.clock_in_at, timesheet.clock_out_at);
+  if (approvedHours === null || !Number.isFinite(approvedHours) || approvedHours < 0 || approvedHours > 48) {
+    return encodedRedirect("error", timesheetsPath, "Approved hours must be between 0 and 48");
+  }
+
+  const { error } = await supabase
+    .from('timesheets')
+    .update({
+      status: 'approved',
+      approved_hours: Math.round(approvedHours * 100) / 100,
+      review_note: reviewNote,
+      reviewed_by_user_id: user.id,
+      reviewed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', timesheetId);
+
+  if (error) {
+    console.error("Error approving timesheet:", error);
+    return encodedRedirect("error", timesheetsPath, error.message);
+  }
+
+  revalidatePath(timesheetsPath);
+  revalidatePath(`/dashboard/manager/jobs/${timesheet.job_id}`);
+  revalidatePath(`/dashboard/employee/jobs/${timesheet.job_id}`);
+  return encodedRedirect("success", timesheetsPath, "Timesheet approved");
+}
+
+/**
+ * Reject a timesheet, with a reason for the employee
+ */
+export async function rejectTimesheet(formData: FormData) {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, user, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !user || !profile) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized");
+  }
+
+  const timesheetId = formData.get("timesheetId")?.toString();
+  const reviewNote = formData.get("review_note")?.toString().trim();
+
+  if (!timesheetId) {
+    return encodedRedirect("error", timesheetsPath, "Timesheet is required");
+  }
+
+  if (!reviewNote) {
+    return encodedRedirect("error", timesheetsPath, "Say why the timesheet is rejected");
+  }
+
+  const { data: timesheet, error } = await supabase
+    .from('timesheets')
+    .update({
+      status: 'rejected',
+      approved_hours: null,
+      review_note: reviewNote,
+      reviewed_by_user_id: user.id,
+      reviewed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', timesheetId)
+    .eq('org_id', profile.org_id)
+    .neq('status', 'open')
+    .select('job_id')
+    .single();
+
+  if (error || !timesheet) {
+    console.error("Error rejecting timesheet:", error);
+    return encodedRedirect("error", timesheetsPath, error?.message || "Timesheet not found");
+  }
+
+  revalidatePath(timesheetsPath);
+  revalidatePath(`/dashboard/manager/jobs/${timesheet.job_id}`);
+  revalidatePath(`/dashboard/employee/jobs/${timesheet.job_id}`);
+  return encodedRedirect("success", timesheetsPath, "Timesheet rejected");
+}
+
+/**
+ * Set how far from the venue staff can clock in and still count as on site
+ */
+export async function updateClockInRadius(formData: FormData) {
+  const supabase = await createClient();
+
+  // Check permissions
+  const { authorized, profile, error: permError } = await checkManagerPermission();
+  if (!authorized || !profile?.org_id) {
+    return encodedRedirect("error", "/sign-in", permError || "Unauthorized or profile missing");
+  }
+
+  // Org-wide settings are admin-only, like the organization page
+  if (!await isAdmin()) {
+    return encodedRedirect("error", "/dashboard/organization", "Only admins can change the clock-in radius");
+  }
+
+  const radius = Number(formData.get("clock_in_radius_meters"));
+
+  if (!Number.isInteger(radius) || radius <= 0) {
+    return encodedRedirect("error", "/dashboard/organization", "Clock-in radius must be a whole number of meters");
+  }
+
+  const { error } = await supabase
+    .from('orgs')
+    .update({ clock_in_radius_meters: radius })
+    .eq('id', profile.org_id);
+
+  if (error) {
+    console.error("Error updating clock-in radius:", error);
+    return encodedRedirect("error", "/dashboard/organization", error.message);
+  }
+
+  revalidatePath('/dashboard/organization');
+  return encodedRedirect("success", "/dashboard/organization", "Clock-in radius updated");
+}
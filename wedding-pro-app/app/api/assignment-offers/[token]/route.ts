@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceRoleClient } from "@/utils/supabase/server";
+import { respondToAssignmentOfferFor } from "@/app/actions/assignment-offers/utils";
+import { getStandbySlots } from "@/app/actions/standby/utils";
+import { describeOfferDeadline } from "@/app/actions/standby/client-utils";
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderPage = (title: string, body: string, status = 200) =>
+  new NextResponse(
+    `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">` +
+    `<title>${escapeHtml(title)}</title></head>` +
+    `<body style="font-family: system-ui, sans-serif; max-width: 32rem; margin: 3rem auto; padding: 0 1rem; color: #111827;">` +
+    `<h1 style="font-size: 1.5rem;">${escapeHtml(title)}</h1>${body}</body></html>`,
+    { status, headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store" } }
+  );
+
+const findOffer = async (token: string) => {
+  const supabase = createServiceRoleClient();
+  const { data: offer, error } = await supabase
+    .from('job_assignment_offers')
+    .select('id, user_id, job_required_role_id, status, expires_at')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error looking up assignment offer:", error);
+  }
+  return { supabase, offer };
+};
+
+/**
+ * Shows an assignment offer from the link in the offer email, with buttons to
+ * accept or decline. The secret token in the URL is the only credential.
+ * Opening the link doesn't answer the offer, so mail scanners can't.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+  const { supabase, offer } = await findOffer(token);
+
+  if (!offer) {
+    return renderPage("Offer not found", "<p>This link isn't valid. Check your schedule in the app for your offers.</p>", 404);
+  }
+
+  const { data: slots } = await getStandbySlots(supabase, [offer.job_required_role_id]);
+  const slot = slots?.[offer.job_required_role_id];
+  if (!slot) {
+    return renderPage("Offer not found", "<p>This job is no longer available.</p>", 404);
+  }
+
+  const start = new Date(slot.start_time);
+  const details = `<p><strong>${escapeHtml(slot.role_name)}</strong> on ${escapeHtml(slot.job_title)}` +
+    `${slot.shift_name ? ` (${escapeHtml(slot.shift_name)} shift)` : ''}</p>` +
+    `<p>${escapeHtml(start.toLocaleString())}${slot.venue_name ? ` at ${escapeHtml(slot.venue_name)}` : ''}</p>`;
+
+  if (offer.status !== 'offered' || new Date(offer.expires_at) <= new Date()) {
+    const outcome = offer.status === 'accepted'
+      ? "You've accepted this offer and are booked."
+      : offer.status === 'declined'
+      ? "You've declined this offer."
+      : offer.status === 'withdrawn'
+      ? "This offer has been withdrawn."
+      : "This offer has expired.";
+    return renderPage("Job offer", `${details}<p>${outcome}</p>`);
+  }
+
+  const button = (response: string, label: string, color: string) =>
+    `<button type="submit" name="response" value="${response}" style="background: ${color}; color: white; border: 0; ` +
+    `border-radius: 0.375rem; padding: 0.5rem 1rem; margin-right: 0.5rem; font-size: 1rem; cursor: pointer;">${label}</button>`;
+
+  return renderPage(
+    "Job offer",
+    `${details}<p>You're only booked once you accept. ${escapeHtml(describeOfferDeadline(offer.expires_at))}.</p>` +
+    `<form method="post">${button('accept', 'Accept', '#2563eb')}${button('decline', 'Decline', '#6b7280')}</form>`
+  );
+}
+
+/**
+ * Accepts or declines the offer from the buttons on the page above
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+  const formData = await request.formData();
+  const response = formData.get("response")?.toString();
+
+  if (response !== 'accept' && response !== 'decline') {
+    return renderPage("Job offer", "<p>Choose Accept or Decline.</p>", 400);
+  }
+
+  const { supabase, offer } = await findOffer(token);
+  if (!offer) {
+    return renderPage("Offer not found", "<p>This link isn't valid. Check your schedule in the app for your offers.</p>", 404);
+  }
+
+  const { data, error } = await respondToAssignmentOfferFor(supabase, offer, response === 'accept', 'email');
+  if (error || !data) {
+    return renderPage("Job offer", `<p>${escapeHtml(error || "Failed to answer the offer")}</p>`, 409);
+  }
+
+  return renderPage(
+    response === 'accept' ? "You're booked" : "Offer declined",
+    response === 'accept'
+      ? `<p>You're booked as ${escapeHtml(data.slot.role_name)} on ${escapeHtml(data.slot.job_title)}. It's on your schedule in the app.</p>`
+      : "<p>Thanks for letting us know. The slot will be offered to someone else.</p>"
+  );
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceRoleClient } from "@/utils/supabase/server";
+import { buildCalendarFeed } from "@/app/actions/calendar-feed/client-utils";
+import { getCalendarFeedEvents } from "@/app/actions/calendar-feed/utils";
+
+/**
+ * Serves an employee's assignments as an iCalendar feed.
+ * Calendar apps subscribe without a session, so the secret token in the URL
+ * is the only credential; revoking it makes this return 404.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token: rawToken } = await params;
+  const token = rawToken.replace(/\.ics$/i, '');
+
+  const supabase = createServiceRoleClient();
+
+  const { data: feedToken, error: tokenError } = await supabase
+    .from('calendar_feed_tokens')
+    .select('id, user_id')
+    .eq('token', token)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (tokenError) {
+    console.error("Error looking up calendar feed token:", tokenError);
+    return NextResponse.json({ error: "Failed to load calendar" }, { status: 500 });
+  }
+  if (!feedToken) {
+    return NextResponse.json({ error: "Calendar not found" }, { status: 404 });
+  }
+
+  const { data: events, error } = await getCalendarFeedEvents(supabase, feedToken.user_id);
+  if (error || !events) {
+    return NextResponse.json({ error: error || "Failed to load calendar" }, { status: 500 });
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('full_name')
+    .eq('id', feedToken.user_id)
+    .single();
+
+  await supabase
+    .from('calendar_feed_tokens')
+    .update({ last_accessed_at: new Date().toISOString() })
+    .eq('id', feedToken.id);
+
+  const calendar = buildCalendarFeed(events, {
+    calendarName: profile?.full_name ? `Wedding Pro – ${profile.full_name}` : "Wedding Pro",
+    appUrl: process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin,
+  });
+
+  return new NextResponse(calendar, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="wedding-pro.ics"',
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceRoleClient } from "@/utils/supabase/server";
+import { expireAssignmentOffers } from "@/app/actions/assignment-offers/utils";
+
+/**
+ * Expires assignment offers nobody answered in time, frees their slots and
+ * offers them to standby where the role has a list. Call it on a schedule,
+ * e.g. every 15 minutes, with `Authorization: Bearer <CRON_SECRET>`. Each
+ * offer only expires once.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const supabase = createServiceRoleClient();
+  const { expired, error } = await expireAssignmentOffers(supabase);
+
+  if (error) {
+    return NextResponse.json({ error }, { status: 500 });
+  }
+
+  return NextResponse.json({ expired });
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceRoleClient } from "@/utils/supabase/server";
+import { sendCertificationExpiryReminders } from "@/app/actions/qualifications/notifications";
+
+/**
+ * Reminds employees and their managers of certifications expiring soon.
+ * Call it on a schedule, e.g. daily, with `Authorization: Bearer <CRON_SECRET>`.
+ * Each certification is only reminded once until it is renewed.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const supabase = createServiceRoleClient();
+  const { sent, error } = await sendCertificationExpiryReminders(supabase);
+
+  if (error) {
+    return NextResponse.json({ error }, { status: 500 });
+  }
+
+  return NextResponse.json({ sent });
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceRoleClient } from "@/utils/supabase/server";
+import { sendJobReminderNotifications } from "@/app/actions/jobs/notifications";
+
+/**
+ * Sends day-before reminders (with the run-of-show) for upcoming shifts.
+ * Call it on a schedule, e.g. hourly, with `Authorization: Bearer <CRON_SECRET>`.
+ * Each assignment is only reminded once, so running it often is safe.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const supabase = createServiceRoleClient();
+  const { sent, error } = await sendJobReminderNotifications(supabase);
+
+  if (error) {
+    return NextResponse.json({ error }, { status: 500 });
+  }
+
+  return NextResponse.json({ sent });
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceRoleClient } from "@/utils/supabase/server";
+import { expireStandbyOffers } from "@/app/actions/standby/utils";
+
+/**
+ * Expires standby offers nobody answered in time and offers each slot to the
+ * next person on standby. Call it on a schedule, e.g. every 15 minutes, with
+ * `Authorization: Bearer <CRON_SECRET>`. Each offer only expires once.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const supabase = createServiceRoleClient();
+  const { expired, error } = await expireStandbyOffers(supabase);
+
+  if (error) {
+    return NextResponse.json({ error }, { status: 500 });
+  }
+
+  return NextResponse.json({ expired });
+}
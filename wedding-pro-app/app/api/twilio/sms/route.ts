@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { validateRequest } from "twilio";
+import { createServiceRoleClient } from "@/utils/supabase/server";
+import { parseOfferReply } from "@/app/actions/assignment-offers/client-utils";
+import { findOfferForReply, respondToAssignmentOfferFor } from "@/app/actions/assignment-offers/utils";
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Twilio texts the message back to the sender
+const reply = (message: string) =>
+  new NextResponse(
+    `<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escapeXml(message)}</Message></Response>`,
+    { headers: { "Content-Type": "text/xml" } }
+  );
+
+/**
+ * Twilio's incoming message webhook for TWILIO_FROM_NUMBER. Employees answer
+ * assignment offers by texting YES or NO, with the offer's reply code when
+ * they have more than one open. Requests must carry a valid
+ * X-Twilio-Signature for TWILIO_AUTH_TOKEN.
+ */
+export async function POST(request: NextRequest) {
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const formData = await request.formData();
+  const params: Record<string, string> = {};
+  formData.forEach((value, key) => {
+    params[key] = value.toString();
+  });
+
+  // Twilio signs the public URL it called, which may differ from the one we see behind a proxy
+  const webhookUrl = `${process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin}/api/twilio/sms`;
+  const signature = request.headers.get("x-twilio-signature") || "";
+  if (!authToken || !validateRequest(authToken, signature, webhookUrl, params)) {
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  const answer = parseOfferReply(params.Body || "");
+  if (!answer) {
+    return reply("To answer a job offer, reply YES or NO with the code from the offer, e.g. YES 1234.");
+  }
+
+  const supabase = createServiceRoleClient();
+  const { data: offer, error: findError } = await findOfferForReply(supabase, params.From || "", answer.code);
+  if (findError || !offer) {
+    return reply(findError || "We couldn't find that offer.");
+  }
+
+  const { data, error } = await respondToAssignmentOfferFor(supabase, offer, answer.accept, 'sms');
+  if (error || !data) {
+    return reply(error || "We couldn't answer that offer. Please try in the app.");
+  }
+
+  return reply(
+    answer.accept
+      ? `You're booked as ${data.slot.role_name} on ${data.slot.job_title}, ${new Date(data.slot.start_time).toLocaleString()}.`
+      : `Declined ${data.slot.role_name} on ${data.slot.job_title}. Thanks for letting us know.`
+  );
+}
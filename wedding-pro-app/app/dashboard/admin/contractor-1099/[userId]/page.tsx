@@ -0,0 +1,120 @@
+import { createClient } from "@/utils/supabase/server";
+import { isAdmin } from "@/utils/supabase/auth-helpers";
+import { exportContractorStatement, getContractorStatement } from "@/app/actions/contractor-1099";
+import { formatPayrollPeriod } from "@/app/actions/payroll/client-utils";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import PrintButton from "@/components/print-button";
+import CSVDownloadButton from "../csv-download-button";
+
+const formatMoney = (value: number) => `$${Number(value).toFixed(2)}`;
+
+export default async function ContractorStatementPage({
+  params,
+  searchParams
+}: {
+  params: Promise<{ userId: string }>;
+  searchParams: Promise<{ year?: string }>;
+}) {
+  const { userId } = await params;
+  const { year: yearParam } = await searchParams;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/sign-in");
+  }
+
+  // Check if user is admin
+  const hasAccess = await isAdmin();
+  if (!hasAccess) {
+    redirect("/dashboard");
+  }
+
+  const year = Number(yearParam) || new Date().getFullYear() - 1;
+  const { data: statement, error } = await getContractorStatement(year, userId);
+  if (error || !statement) {
+    redirect(`/dashboard/admin/contractor-1099?year=${year}`);
+  }
+
+  const { contractor } = statement;
+  const cityLine = [contractor.city, [contractor.state, contractor.zip].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6 print:hidden">
+        <Link
+          href={`/dashboard/admin/contractor-1099?year=${year}`}
+          className="text-blue-600 hover:text-blue-800"
+        >
+          &larr; Back to 1099 Summaries
+        </Link>
+        <div className="flex gap-2">
+          <CSVDownloadButton action={exportContractorStatement.bind(null, year, userId)} label="Download CSV" />
+          <PrintButton />
+        </div>
+      </div>
+
+      <div className="print-area bg-white rounded-lg shadow p-8">
+        <div className="flex flex-wrap justify-between gap-6 mb-8">
+          <div>
+            <h1 className="text-2xl font-bold">{year} Earnings Statement</h1>
+            <p className="text-gray-600">Nonemployee compensation</p>
+          </div>
+          <div className="text-sm text-right">
+            <p className="text-gray-500">Payer</p>
+            <p className="font-medium">{statement.payer_name}</p>
+          </div>
+        </div>
+
+        <div className="mb-8 text-sm">
+          <p className="text-gray-500">Contractor</p>
+          <p className="font-medium">{contractor.full_name || contractor.email}</p>
+          {contractor.address && <p>{contractor.address}</p>}
+          {cityLine && <p>{cityLine}</p>}
+          {contractor.email && contractor.full_name && <p className="text-gray-600">{contractor.email}</p>}
+        </div>
+
+        {statement.periods.length > 0 ? (
+          <table className="min-w-full divide-y divide-gray-200 text-sm mb-8">
+            <thead>
+              <tr>
+                <th className="py-2 text-left font-medium text-gray-500">Pay period</th>
+                <th className="py-2 text-right font-medium text-gray-500">Earnings</th>
+                <th className="py-2 text-right font-medium text-gray-500">Reimbursements</th>
+                <th className="py-2 text-right font-medium text-gray-500">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {statement.periods.map((period) => (
+                <tr key={period.payroll_run_id}>
+                  <td className="py-2">{formatPayrollPeriod(period)}</td>
+                  <td className="py-2 text-right">{formatMoney(period.earnings)}</td>
+                  <td className="py-2 text-right">{formatMoney(period.reimbursements)}</td>
+                  <td className="py-2 text-right">{formatMoney(period.total)}</td>
+                </tr>
+              ))}
+              <tr className="font-semibold">
+                <td className="py-2">Total for {year}</td>
+                <td className="py-2 text-right">{formatMoney(contractor.earnings)}</td>
+                <td className="py-2 text-right">{formatMoney(contractor.reimbursements)}</td>
+                <td className="py-2 text-right">{formatMoney(contractor.total_paid)}</td>
+              </tr>
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-sm text-gray-500 italic mb-8">No payments in approved payroll runs for {year}.</p>
+        )}
+
+        <p className="text-sm text-gray-600">
+          {contractor.meets_threshold
+            ? `Total paid is ${formatMoney(statement.threshold)} or more, so this amount will be reported on Form 1099-NEC.`
+            : `Total paid is under the ${formatMoney(statement.threshold)} reporting threshold for ${year}.`}
+          {' '}Reimbursements are travel pay and approved expense claims, and are included in the total.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { useState } from "react";
+
+interface CSVDownloadButtonProps {
+  action: () => Promise<{ success: boolean; data?: string; filename?: string; error?: string }>;
+  label: string;
+}
+
+/**
+ * Run a CSV export action and download the result
+ */
+export default function CSVDownloadButton({ action, label }: CSVDownloadButtonProps) {
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const result = await action();
+
+      if (result.success && result.data) {
+        const blob = new Blob([result.data], { type: 'text/csv' });
+        const url = window.URL.createObjectURL(blob);
+
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = result.filename || 'export.csv';
+
+        document.body.appendChild(a);
+        a.click();
+
+        window.URL.revokeObjectURL(url);
+        document.body.removeChild(a);
+      } else {
+        alert(result.error || "Failed to export. Please try again.");
+      }
+    } catch (error) {
+      console.error("Error exporting CSV:", error);
+      alert("An error occurred while exporting. Please try again.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleExport}
+      disabled={exporting}
+      className="px-4 py-2 rounded-md text-sm font-medium text-blue-600 border border-blue-300 hover:bg-blue-50 disabled:opacity-60"
+    >
+      {exporting ? 'Exporting...' : label}
+    </button>
+  );
+}
@@ -0,0 +1,145 @@
+import { createClient } from "@/utils/supabase/server";
+import { isAdmin } from "@/utils/supabase/auth-helpers";
+import { export1099Batch, getContractorYearSummaries } from "@/app/actions/contractor-1099";
+import { getReportingThreshold } from "@/app/actions/contractor-1099/client-utils";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import CSVDownloadButton from "./csv-download-button";
+
+const formatMoney = (value: number) => `$${Number(value).toFixed(2)}`;
+
+export default async function Contractor1099Page({
+  searchParams
+}: {
+  searchParams: Promise<{ year?: string }>;
+}) {
+  const { year: yearParam } = await searchParams;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/sign-in");
+  }
+
+  // Check if user is admin
+  const hasAccess = await isAdmin();
+  if (!hasAccess) {
+    redirect("/dashboard");
+  }
+
+  // Default to last year, which is what's being reported each January
+  const currentYear = new Date().getFullYear();
+  const year = Number(yearParam) || currentYear - 1;
+  const years = Array.from({ length: 5 }, (_, index) => currentYear - index);
+  const threshold = getReportingThreshold(year);
+
+  const { data: summariesData, error } = await getContractorYearSummaries(year);
+  const summaries = summariesData || [];
+  const reportable = summaries.filter(summary => summary.meets_threshold);
+  const totalPaid = summaries.reduce((sum, summary) => sum + summary.total_paid, 0);
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h1 className="text-3xl font-bold">1099 Summaries</h1>
+        <form method="get" className="flex items-center gap-2">
+          <label htmlFor="year" className="text-sm font-medium text-gray-700">Tax year</label>
+          <select
+            id="year"
+            name="year"
+            defaultValue={String(year)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          >
+            {years.map((option) => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+          <button type="submit" className="px-4 py-2 rounded-md text-sm font-medium text-blue-600 border border-blue-300 hover:bg-blue-50">
+            Show
+          </button>
+        </form>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-3 rounded-md bg-red-50 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm text-gray-500">Contractors Paid</p>
+          <p className="text-3xl font-bold">{summaries.length}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm text-gray-500">Need a 1099-NEC</p>
+          <p className="text-3xl font-bold">{reportable.length}</p>
+          <p className="text-xs text-gray-500">Paid {formatMoney(threshold)} or more in {year}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm text-gray-500">Total Paid</p>
+          <p className="text-3xl font-bold">{formatMoney(totalPaid)}</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-xl font-semibold mb-1">Contractors</h2>
+            <p className="text-sm text-gray-500">
+              From approved payroll runs whose period ends in {year}. Reimbursements (travel pay and expense claims) count as compensation.
+            </p>
+          </div>
+          {summaries.length > 0 && (
+            <CSVDownloadButton action={export1099Batch.bind(null, year)} label="Download Accountant Batch" />
+          )}
+        </div>
+
+        {summaries.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Contractor</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Earnings</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Reimbursements</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Total Paid</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">1099</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {summaries.map((summary) => (
+                  <tr key={summary.id}>
+                    <td className="px-3 py-2">
+                      <p className="font-medium text-gray-900">{summary.full_name || summary.email || 'Unknown contractor'}</p>
+                      {!summary.address && <p className="text-xs text-yellow-700">No mailing address on file</p>}
+                    </td>
+                    <td className="px-3 py-2 text-right">{formatMoney(summary.earnings)}</td>
+                    <td className="px-3 py-2 text-right">{formatMoney(summary.reimbursements)}</td>
+                    <td className="px-3 py-2 text-right font-semibold">{formatMoney(summary.total_paid)}</td>
+                    <td className="px-3 py-2">
+                      {summary.meets_threshold ? (
+                        <span className="px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">Required</span>
+                      ) : (
+                        <span className="px-2 py-1 text-xs font-semibold rounded-full bg-gray-100 text-gray-700">Under threshold</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <Link
+                        href={`/dashboard/admin/contractor-1099/${summary.id}?year=${year}`}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        Statement
+                      </Link>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 italic">No approved payroll runs end in {year}.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+import { createClient } from "@/utils/supabase/server";
+import { isAdmin } from "@/utils/supabase/auth-helpers";
+import {
+  addPayrollAdjustment,
+  approvePayrollRun,
+  deletePayrollRun,
+  getPayrollEmployees,
+  getPayrollRun,
+  regeneratePayrollRun,
+  removePayrollAdjustment
+} from "@/app/actions/payroll";
+import {
+  formatPayrollPeriod,
+  PAYROLL_LINE_TYPE_LABELS,
+  PAYROLL_RUN_STATUS_LABELS,
+  summarizePayrollLines
+} from "@/app/actions/payroll/client-utils";
+import type { PayrollEmployee } from "@/app/actions/payroll/types";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { SubmitButton } from "@/components/submit-button";
+import { FormMessage, Message } from "@/components/form-message";
+import PayrollExportButtons from "./payroll-export-buttons";
+
+const formatMoney = (value: number) => `$${Number(value).toFixed(2)}`;
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+export default async function PayrollRunPage({
+  params,
+  searchParams
+}: {
+  params: Promise<{ runId: string }>;
+  searchParams: Promise<Message>;
+}) {
+  const { runId } = await params;
+  const message = await searchParams;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/sign-in");
+  }
+
+  // Check if user is admin
+  const hasAccess = await isAdmin();
+  if (!hasAccess) {
+    redirect("/dashboard");
+  }
+
+  const { data: run, error } = await getPayrollRun(runId);
+  if (error || !run) {
+    redirect("/dashboard/admin/payroll");
+  }
+
+  const isDraft = run.status === 'draft';
+  const { data: staffData } = isDraft ? await getPayrollEmployees() : { data: [] };
+  const staff = staffData || [];
+
+  const employeesById = new Map<string, PayrollEmployee>(run.employees.map(employee => [employee.id, employee]));
+  const employeeName = (userId: string) => {
+    const employee = employeesById.get(userId);
+    return employee?.full_name || employee?.email || 'Unknown employee';
+  };
+
+  const totals = summarizePayrollLines(run.lines).sort((a, b) =>
+    employeeName(a.user_id).localeCompare(employeeName(b.user_id))
+  );
+  const unpricedLines = run.lines.filter(line => line.line_type === 'role_pay' && line.rate === null && Number(line.amount) === 0);
+  const scheduledLines = run.lines.filter(line => line.hours_source === 'scheduled');
+
+  return (
+    <div>
+      <div className="flex items-center mb-6">
+        <Link
+          href="/dashboard/admin/payroll"
+          className="text-blue-600 hover:text-blue-800 mr-4"
+        >
+          &larr; Back to Payroll
+        </Link>
+        <h1 className="text-3xl font-bold">{formatPayrollPeriod(run)}</h1>
+        <span className={`ml-4 px-2 py-1 text-xs font-semibold rounded-full ${
+          isDraft ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'
+        }`}>
+          {PAYROLL_RUN_STATUS_LABELS[run.status]}
+        </span>
+      </div>
+
+      {Object.keys(message).length > 0 && (
+        <div className="mb-6">
+          <FormMessage message={message} />
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-4">
+          <div>
+            <p className="text-sm text-gray-500">Total</p>
+            <p className="text-3xl font-bold">{formatMoney(run.total_amount)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">Employees</p>
+            <p className="text-3xl font-bold">{totals.length}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">{isDraft ? 'Last built' : 'Approved'}</p>
+            <p className="text-lg font-medium">
+              {new Date(isDraft ? run.generated_at : run.approved_at!).toLocaleString('en-US', {
+                month: 'short',
+                day: 'numeric',
+                hour: 'numeric',
+                minute: '2-digit'
+              })}
+            </p>
+          </div>
+        </div>
+
+        {run.notes && <p className="text-sm text-gray-600 mb-4">{run.notes}</p>}
+
+        {isDraft && (unpricedLines.length > 0 || scheduledLines.length > 0) && (
+          <div className="mb-4 p-3 rounded-md bg-yellow-50 text-sm text-yellow-800 space-y-1">
+            {unpricedLines.length > 0 && (
+              <p>{unpricedLines.length} shift{unpricedLines.length === 1 ? '' : 's'} in roles with no pay set are at $0. Set the pay on the job and rebuild, or add an adjustment.</p>
+            )}
+            {scheduledLines.length > 0 && (
+              <p>{scheduledLines.length} shift{scheduledLines.length === 1 ? ' is' : 's are'} paid on scheduled hours because the timesheet isn&apos;t approved yet.</p>
+            )}
+          </div>
+        )}
+
+        {isDraft ? (
+          <div className="flex flex-wrap gap-2">
+            <form action={regeneratePayrollRun.bind(null, run.id)}>
+              <SubmitButton variant="outline" pendingText="Rebuilding...">Rebuild from Jobs</SubmitButton>
+            </form>
+            <form action={approvePayrollRun.bind(null, run.id)}>
+              <SubmitButton pendingText="Approving...">Approve &amp; Lock</SubmitButton>
+            </form>
+            <form action={deletePayrollRun.bind(null, run.id)}>
+              <button type="submit" className="px-4 py-2 rounded-md text-sm font-medium text-red-600 border border-red-300 hover:bg-red-50">
+                Delete Run
+              </button>
+            </form>
+          </div>
+        ) : (
+          <div>
+            <p className="text-sm text-gray-500 mb-2">This run is locked. Export it for your payroll provider:</p>
+            <PayrollExportButtons runId={run.id} />
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <h2 className="text-xl font-semibold mb-4">Employee Totals</h2>
+
+        {totals.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Employee</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Hours</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">OT Hours</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Role Pay</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Overtime</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Bonus</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Travel</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Cancellation</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Expenses</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Adjustments</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {totals.map((total) => (
+                  <tr key={total.user_id}>
+                    <td className="px-3 py-2 font-medium text-gray-900">{employeeName(total.user_id)}</td>
+                    <td className="px-3 py-2 text-right">{total.regular_hours}</td>
+                    <td className="px-3 py-2 text-right">{total.overtime_hours}</td>
+                    <td className="px-3 py-2 text-right">{formatMoney(total.role_pay)}</td>
+                    <td className="px-3 py-2 text-right">{formatMoney(total.overtime_pay)}</td>
+                    <td className="px-3 py-2 text-right">{formatMoney(total.bonus)}</td>
+                    <td className="px-3 py-2 text-right">{formatMoney(total.travel_pay)}</td>
+                    <td className="px-3 py-2 text-right">{formatMoney(total.cancellation_fees)}</td>
+                    <td className="px-3 py-2 text-right">{formatMoney(total.expenses)}</td>
+                    <td className="px-3 py-2 text-right">{formatMoney(total.adjustments)}</td>
+                    <td className="px-3 py-2 text-right font-semibold">{formatMoney(total.total)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 italic">Nothing to pay for this period.</p>
+        )}
+      </div>
+
+      {totals.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4">Line Items</h2>
+          <div className="space-y-3">
+            {totals.map((total) => (
+              <details key={total.user_id} className="border rounded-lg p-4">
+                <summary className="cursor-pointer font-medium text-gray-900">
+                  {employeeName(total.user_id)} &middot; {formatMoney(total.total)}
+                </summary>
+                <div className="mt-3 divide-y divide-gray-200">
+                  {run.lines.filter(line => line.user_id === total.user_id).map((line) => (
+                    <div key={line.id} className="py-2 flex items-center justify-between gap-4 text-sm">
+                      <div>
+                        <p className="text-gray-900">
+                          {line.work_date && <span className="text-gray-500">{formatDate(line.work_date)} &middot; </span>}
+                          {line.description}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {PAYROLL_LINE_TYPE_LABELS[line.line_type]}
+                          {line.hours !== null && <> &middot; {Number(line.hours)} hr</>}
+                          {line.rate !== null && <> at {formatMoney(line.rate)}/hr</>}
+                          {line.hours_source === 'scheduled' && <> &middot; scheduled hours</>}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className={Number(line.amount) < 0 ? "text-red-600" : "text-gray-900"}>
+                          {formatMoney(line.amount)}
+                        </span>
+                        {isDraft && line.line_type === 'adjustment' && (
+                          <form action={removePayrollAdjustment.bind(null, run.id)}>
+                            <input type="hidden" name="lineId" value={line.id} />
+                            <button type="submit" className="text-xs text-red-600 hover:text-red-800">
+                              Remove
+                            </button>
+                          </form>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </details>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {isDraft && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-xl font-semibold mb-1">Add Adjustment</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            For reimbursements, corrections and anything else not on a job. Use a negative amount for a deduction. Adjustments are kept when the run is rebuilt.
+          </p>
+          <form action={addPayrollAdjustment.bind(null, run.id)} className="flex flex-wrap items-end gap-4">
+            <div>
+              <label htmlFor="user_id" className="block text-sm font-medium text-gray-700 mb-1">
+                Employee
+              </label>
+              <select
+                id="user_id"
+                name="user_id"
+                required
+                className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Select an employee</option>
+                {staff.map((employee) => (
+                  <option key={employee.id} value={employee.id}>
+                    {employee.full_name || employee.email}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex-1 min-w-[12rem]">
+              <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">
+                Description
+              </label>
+              <input
+                type="text"
+                id="description"
+                name="description"
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="amount" className="block text-sm font-medium text-gray-700 mb-1">
+                Amount ($)
+              </label>
+              <input
+                type="number"
+                id="amount"
+                name="amount"
+                step="0.01"
+                required
+                className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <SubmitButton>Add</SubmitButton>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { useState } from "react";
+import { exportPayrollRun } from "@/app/actions/payroll";
+import type { PayrollExportFormat } from "@/app/actions/payroll/types";
+import { PAYROLL_EXPORT_FORMAT_LABELS } from "@/app/actions/payroll/client-utils";
+
+interface PayrollExportButtonsProps {
+  runId: string;
+}
+
+/**
+ * Download an approved run as CSV in each payroll provider's layout
+ */
+export default function PayrollExportButtons({ runId }: PayrollExportButtonsProps) {
+  const [exporting, setExporting] = useState<PayrollExportFormat | null>(null);
+
+  const handleExport = async (format: PayrollExportFormat) => {
+    setExporting(format);
+    try {
+      const result = await exportPayrollRun(runId, format);
+
+      if (result.success && result.data) {
+        const blob = new Blob([result.data], { type: 'text/csv' });
+        const url = window.URL.createObjectURL(blob);
+
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = result.filename || `payroll-${format}.csv`;
+
+        document.body.appendChild(a);
+        a.click();
+
+        window.URL.revokeObjectURL(url);
+        document.body.removeChild(a);
+      } else {
+        alert(result.error || "Failed to export payroll. Please try again.");
+      }
+    } catch (error) {
+      console.error("Error exporting payroll:", error);
+      alert("An error occurred while exporting payroll. Please try again.");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {(Object.keys(PAYROLL_EXPORT_FORMAT_LABELS) as PayrollExportFormat[]).map((format) => (
+        <button
+          key={format}
+          type="button"
+          onClick={() => handleExport(format)}
+          disabled={exporting !== null}
+          className="px-4 py-2 rounded-md text-sm font-medium text-blue-600 border border-blue-300 hover:bg-blue-50 disabled:opacity-60"
+        >
+          {exporting === format ? 'Exporting...' : `${PAYROLL_EXPORT_FORMAT_LABELS[format]} CSV`}
+        </button>
+      ))}
+    </div>
+  );
+}
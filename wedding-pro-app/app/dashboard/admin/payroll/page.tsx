@@ -0,0 +1,128 @@
+import { createClient } from "@/utils/supabase/server";
+import { isAdmin } from "@/utils/supabase/auth-helpers";
+import { createPayrollRun, getPayrollRuns } from "@/app/actions/payroll";
+import { formatPayrollPeriod, PAYROLL_RUN_STATUS_LABELS } from "@/app/actions/payroll/client-utils";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { SubmitButton } from "@/components/submit-button";
+import { FormMessage, Message } from "@/components/form-message";
+
+const dayMs = 24 * 60 * 60 * 1000;
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+export default async function PayrollPage({ searchParams }: { searchParams: Promise<Message> }) {
+  const message = await searchParams;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/sign-in");
+  }
+
+  // Check if user is admin
+  const hasAccess = await isAdmin();
+  if (!hasAccess) {
+    redirect("/dashboard");
+  }
+
+  const { data: runsData } = await getPayrollRuns();
+  const runs = runsData || [];
+
+  // Suggest the two weeks after the latest run, or the last two weeks
+  const latest = runs[0];
+  const suggestedStart = latest
+    ? new Date(new Date(`${latest.period_end}T00:00:00Z`).getTime() + dayMs)
+    : new Date(Date.now() - 14 * dayMs);
+  const suggestedEnd = new Date(suggestedStart.getTime() + 13 * dayMs);
+
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6">Payroll</h1>
+
+      {Object.keys(message).length > 0 && (
+        <div className="mb-6">
+          <FormMessage message={message} />
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <h2 className="text-xl font-semibold mb-1">New Payroll Run</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Totals role pay, overtime, bonuses, travel pay and cancellation fees for each employee for shifts that started in the period. Approved timesheet hours are used where there are any.
+        </p>
+        <form action={createPayrollRun} className="flex flex-wrap items-end gap-4">
+          <div>
+            <label htmlFor="period_start" className="block text-sm font-medium text-gray-700 mb-1">
+              Period start
+            </label>
+            <input
+              type="date"
+              id="period_start"
+              name="period_start"
+              required
+              defaultValue={toDateInput(suggestedStart)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="period_end" className="block text-sm font-medium text-gray-700 mb-1">
+              Period end
+            </label>
+            <input
+              type="date"
+              id="period_end"
+              name="period_end"
+              required
+              defaultValue={toDateInput(suggestedEnd)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div className="flex-1 min-w-[12rem]">
+            <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
+              Notes
+            </label>
+            <input
+              type="text"
+              id="notes"
+              name="notes"
+              placeholder="Optional"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <SubmitButton pendingText="Building...">Create Run</SubmitButton>
+        </form>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-semibold mb-4">Payroll Runs</h2>
+
+        {runs.length > 0 ? (
+          <div className="border-t border-gray-200 divide-y divide-gray-200">
+            {runs.map((run) => (
+              <Link
+                key={run.id}
+                href={`/dashboard/admin/payroll/${run.id}`}
+                className="py-4 flex items-center justify-between hover:bg-gray-50"
+              >
+                <div>
+                  <p className="font-medium text-gray-900">{formatPayrollPeriod(run)}</p>
+                  {run.notes && <p className="text-sm text-gray-600">{run.notes}</p>}
+                </div>
+                <div className="flex items-center gap-4">
+                  <span className="font-medium">${Number(run.total_amount).toFixed(2)}</span>
+                  <span className={`px-2 py-1 text-xs font-semibold rounded-full ${
+                    run.status === 'approved' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                  }`}>
+                    {PAYROLL_RUN_STATUS_LABELS[run.status]}
+                  </span>
+                </div>
+              </Link>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 italic">No payroll runs yet.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { createClient } from "@/utils/supabase/server";
+import { isEmployee } from "@/utils/supabase/auth-helpers";
+import {
+  addBlackoutDates,
+  deleteBlackoutDates,
+  getMyAvailability,
+  saveWeeklyAvailability
+} from "@/app/actions/availability";
+import {
+  describeBlackout,
+  describeWeeklyAvailability,
+  WEEKDAY_LABELS
+} from "@/app/actions/availability/client-utils";
+import { redirect } from "next/navigation";
+import { SubmitButton } from "@/components/submit-button";
+import { FormMessage, Message } from "@/components/form-message";
+
+// Monday first, as most of the work falls at the end of the week
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const inputClass = "w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500";
+
+export default async function AvailabilityPage({ searchParams }: { searchParams: Promise<Message> }) {
+  const message = await searchParams;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/sign-in");
+  }
+
+  // Check if user is employee
+  const hasAccess = await isEmployee();
+  if (!hasAccess) {
+    redirect("/dashboard");
+  }
+
+  const { data: availability, error } = await getMyAvailability();
+  const weekly = availability?.weekly || [];
+  const blackouts = availability?.blackouts || [];
+
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6">My Availability</h1>
+
+      {Object.keys(message).length > 0 && (
+        <div className="mb-6">
+          <FormMessage message={message} />
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-white rounded-lg shadow p-6 mb-6 text-red-500">
+          Error loading your availability: {error}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <h2 className="text-xl font-semibold mb-1">Weekly Availability</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Tick the days you work, with hours if you only work part of the day. Leave every day unticked to be
+          available any day. Jobs outside your availability are grayed out, and managers are warned before
+          booking you for them.
+        </p>
+        <p className="text-sm text-gray-700 mb-4">
+          <span className="font-medium">Currently:</span> {describeWeeklyAvailability(weekly)}
+        </p>
+
+        <form action={saveWeeklyAvailability} className="space-y-4">
+          <div className="border-t border-gray-200 divide-y divide-gray-200">
+            {WEEKDAY_ORDER.map((weekday) => {
+              const current = weekly.find(window => window.weekday === weekday);
+              return (
+                <div key={weekday} className="py-3 grid grid-cols-1 md:grid-cols-3 gap-2 md:items-center">
+                  <label className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                    <input type="checkbox" name={`day_${weekday}`} defaultChecked={!!current} />
+                    {WEEKDAY_LABELS[weekday]}
+                  </label>
+                  <div>
+                    <label htmlFor={`start_${weekday}`} className="sr-only">{WEEKDAY_LABELS[weekday]} from</label>
+                    <input
+                      type="time"
+                      id={`start_${weekday}`}
+                      name={`start_${weekday}`}
+                      defaultValue={current?.start_time?.slice(0, 5) || ''}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor={`end_${weekday}`} className="sr-only">{WEEKDAY_LABELS[weekday]} until</label>
+                    <input
+                      type="time"
+                      id={`end_${weekday}`}
+                      name={`end_${weekday}`}
+                      defaultValue={current?.end_time?.slice(0, 5) || ''}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-xs text-gray-500">Leave the times blank to work the whole day.</p>
+          <div className="flex justify-end">
+            <SubmitButton pendingText="Saving...">Save Weekly Availability</SubmitButton>
+          </div>
+        </form>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-semibold mb-1">Blackout Dates</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Dates you can&apos;t work, such as holidays. Past blackouts are cleared from this list.
+        </p>
+
+        {blackouts.length > 0 ? (
+          <ul className="border-t border-gray-200 divide-y divide-gray-200 mb-6">
+            {blackouts.map((blackout) => (
+              <li key={blackout.id} className="py-3 flex justify-between items-center text-sm">
+                <span className="text-gray-900">{describeBlackout(blackout)}</span>
+                <form action={deleteBlackoutDates}>
+                  <input type="hidden" name="blackoutId" value={blackout.id} />
+                  <button type="submit" className="text-red-600 hover:text-red-900 text-xs">
+                    Remove
+                  </button>
+                </form>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 mb-6">No upcoming blackout dates.</p>
+        )}
+
+        <form action={addBlackoutDates} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="blackout-start_date" className="block text-sm font-medium text-gray-700 mb-1">From *</label>
+              <input type="date" id="blackout-start_date" name="start_date" required className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="blackout-end_date" className="block text-sm font-medium text-gray-700 mb-1">Until</label>
+              <input type="date" id="blackout-end_date" name="end_date" className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="blackout-reason" className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+              <input type="text" id="blackout-reason" name="reason" placeholder="e.g. Vacation" className={inputClass} />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">Leave &quot;Until&quot; blank to block out a single day.</p>
+          <div className="flex justify-end">
+            <SubmitButton pendingText="Adding...">Add Blackout Dates</SubmitButton>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -7,18 +7,141 @@ import { AvailableJob } from "@/app/actions/jobs";
 import { expressInterest, withdrawInterest } from "@/app/job-interest-actions";
 import { useState } from "react";
 import { toast } from "sonner";
+import { sortShifts } from "@/app/actions/job-shifts/client-utils";
+import { formatPreferenceRank, getRolePreferenceRank } from "@/app/actions/job-interests/client-utils";
+import type { InterestRole } from "@/app/actions/job-interests/types";
+import type { TurnaroundIssue } from "@/app/actions/job-shifts/types";
 
 interface JobCardProps {
   job: AvailableJob;
   hasConflict: boolean;
+  conflictingShiftIds?: string[];
+  turnaround?: TurnaroundIssue | null;
+  shiftTurnarounds?: Record<string, TurnaroundIssue>;
+  unavailableReason?: string | null;
+  unavailableShiftReasons?: Record<string, string>;
   openRoutePreview: (job: AvailableJob) => void;
   userInterests: string[];
+  userShiftInterests?: string[];
+  userRoleInterests?: InterestRole[];
   onInterestChange?: () => void;
 }
 
-export function JobCard({ job, hasConflict, openRoutePreview, userInterests, onInterestChange }: JobCardProps) {
+export function JobCard({
+  job,
+  hasConflict,
+  conflictingShiftIds = [],
+  turnaround = null,
+  shiftTurnarounds = {},
+  unavailableReason = null,
+  unavailableShiftReasons = {},
+  openRoutePreview,
+  userInterests,
+  userShiftInterests = [],
+  userRoleInterests = [],
+  onInterestChange
+}: JobCardProps) {
   const [isLoading, setIsLoading] = useState(false);
+  const [loadingShiftId, setLoadingShiftId] = useState<string | null>(null);
+  const [loadingRoleId, setLoadingRoleId] = useState<string | null>(null);
   const hasExpressedInterest = userInterests.includes(job.id);
+  // Multi-day jobs take interest per shift rather than for the whole job
+  const shifts = sortShifts(job.job_shifts || []);
+  const isMultiShift = shifts.length > 1;
+  // Jobs outside the employee's stated availability are grayed out like time conflicts
+  const isUnavailable = !!unavailableReason;
+
+  // Express or withdraw interest in a single shift
+  const handleShiftInterest = async (shiftId: string, withdraw: boolean) => {
+    try {
+      setLoadingShiftId(shiftId);
+      const result = withdraw
+        ? await withdrawInterest(job.id, shiftId)
+        : await expressInterest(job.id, shiftId);
+
+      if (result.success) {
+        toast.success(result.message);
+        if (result.warning) toast.warning(result.warning);
+        if (onInterestChange) onInterestChange();
+      } else {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      toast.error(withdraw ? "Failed to withdraw interest" : "Failed to express interest");
+      console.error(error);
+    } finally {
+      setLoadingShiftId(null);
+    }
+  };
+  // Add or withdraw a single role, ranked after the roles already chosen
+  const handleRoleInterest = async (roleId: string, shiftId: string | undefined, withdraw: boolean) => {
+    try {
+      setLoadingRoleId(roleId);
+      const result = withdraw
+        ? await withdrawInterest(job.id, shiftId, roleId)
+        : await expressInterest(job.id, shiftId, [roleId]);
+
+      if (result.success) {
+        toast.success(result.message);
+        if (result.warning) toast.warning(result.warning);
+        if (onInterestChange) onInterestChange();
+      } else {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      toast.error(withdraw ? "Failed to withdraw interest" : "Failed to express interest");
+      console.error(error);
+    } finally {
+      setLoadingRoleId(null);
+    }
+  };
+
+  // Roles the employee isn't qualified for, with why
+  const ineligibleRoles = (job.job_required_roles || []).filter(role => role.eligible === false);
+
+  // Role choices, shown when there is more than one role to pick from
+  const renderRoleChoices = (
+    roles: { id: string; role_name: string; eligible?: boolean; ineligible_reasons?: string[] }[],
+    shiftId: string | undefined,
+    isConflicting: boolean
+  ) => {
+    if (roles.length < 2) return null;
+
+    return (
+      <div className="flex flex-wrap gap-2 mt-2">
+        {roles.map((role) => {
+          const rank = getRolePreferenceRank(userRoleInterests, role.id);
+          const isBlocked = rank === null && (isConflicting || role.eligible === false);
+          return (
+            <button
+              key={role.id}
+              className={`px-2 py-1 rounded-full text-xs border ${
+                rank !== null
+                  ? 'bg-blue-50 border-blue-300 text-blue-800'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              } ${isBlocked || loadingRoleId ? 'opacity-50 cursor-not-allowed' : ''}`}
+              disabled={isBlocked || !!loadingRoleId}
+              title={
+                rank !== null
+                  ? 'Withdraw interest in this role'
+                  : role.eligible === false
+                  ? `Not eligible: ${(role.ineligible_reasons || []).join('; ')}`
+                  : 'Add this role to your choices'
+              }
+              onClick={() => handleRoleInterest(role.id, shiftId, rank !== null)}
+            >
+              {loadingRoleId === role.id
+                ? 'Processing...'
+                : rank !== null
+                ? `✓ ${role.role_name} · ${formatPreferenceRank(rank)}`
+                : `+ ${role.role_name}`}
+            </button>
+          );
+        })}
+      </div>
+    );
+  };
+
   // Format date and time
   const formatDateTime = (startTime: string, endTime: string) => {
     const start = new Date(startTime);
@@ -63,7 +186,7 @@ export function JobCard({ job, hasConflict, openRoutePreview, userInterests, onI
   return (
     <div 
       className={`border rounded-lg p-4 hover:shadow-md transition-shadow ${
-        hasConflict ? 'opacity-60 bg-gray-50' : ''
+        hasConflict || isUnavailable ? 'opacity-60 bg-gray-50' : ''
       }`}
     >
       {hasConflict && (
@@ -71,7 +194,19 @@ export function JobCard({ job, hasConflict, openRoutePreview, userInterests, onI
           <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 inline-block mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
           </svg>
-          Time conflict with another job
+          {turnaround?.message || 'Time conflict with another job'}
+        </div>
+      )}
+
+      {turnaround?.severity === 'tight' && (
+        <div className="mb-2 bg-amber-50 border border-amber-200 rounded-md p-2 text-amber-800 text-sm">
+          {turnaround.message}
+        </div>
+      )}
+
+      {isUnavailable && (
+        <div className="mb-2 bg-amber-50 border border-amber-200 rounded-md p-2 text-amber-800 text-sm">
+          Outside your availability: {unavailableReason}
         </div>
       )}
       
@@ -109,14 +244,23 @@ export function JobCard({ job, hasConflict, openRoutePreview, userInterests, onI
         </div>
         <div>
           <p className="text-sm text-gray-600 mb-1">
-            <span className="font-medium">Date:</span> {dateStr}
-          </p>
-          <p className="text-sm text-gray-600 mb-1">
-            <span className="font-medium">Time:</span> {timeStr}
+            <span className="font-medium">{isMultiShift ? 'Starts:' : 'Date:'}</span> {dateStr}
+            {isMultiShift && ` (${shifts.length} shifts)`}
           </p>
+          {!isMultiShift && (
+            <p className="text-sm text-gray-600 mb-1">
+              <span className="font-medium">Time:</span> {timeStr}
+            </p>
+          )}
           <p className="text-sm text-gray-600 mb-1">
             <span className="font-medium">Roles Needed:</span> {job.job_required_roles?.map(r => r.role_name).join(', ') || 'No specific roles'}
           </p>
+          {ineligibleRoles.length > 0 && (
+            <p className="text-sm text-amber-700 mb-1">
+              <span className="font-medium">Not eligible for:</span>{' '}
+              {ineligibleRoles.map(r => `${r.role_name} (${(r.ineligible_reasons || []).join('; ')})`).join(', ')}
+            </p>
+          )}
         </div>
       </div>
       
@@ -124,6 +268,74 @@ export function JobCard({ job, hasConflict, openRoutePreview, userInterests, onI
         <p className="text-sm text-gray-600 mb-4">{job.description}</p>
       )}
       
+      {!isMultiShift && (job.job_required_roles?.length || 0) > 1 && (
+        <div className="mb-4">
+          <p className="text-sm font-medium text-gray-700">Roles you want</p>
+          <p className="text-xs text-gray-500">
+            Pick roles in order of preference, or express interest without picking to be considered for any role.
+          </p>
+          {renderRoleChoices(job.job_required_roles || [], undefined, hasConflict || isUnavailable)}
+        </div>
+      )}
+      
+      {isMultiShift && (
+        <div className="mb-4 space-y-2">
+          <p className="text-sm font-medium text-gray-700">Shifts</p>
+          {shifts.map((shift) => {
+            const shiftTimes = formatDateTime(shift.call_time || shift.start_time, shift.end_time);
+            const shiftRoles = job.job_required_roles?.filter(r => r.shift_id === shift.id) || [];
+            const isInterested = userShiftInterests.includes(shift.id);
+            const isConflicting = conflictingShiftIds.includes(shift.id);
+            const shiftTurnaround = shiftTurnarounds[shift.id];
+            const shiftUnavailableReason = unavailableShiftReasons[shift.id];
+            const isShiftBlocked = isConflicting || !!shiftUnavailableReason;
+            const isShiftIneligible = shiftRoles.length > 0 && shiftRoles.every(r => r.eligible === false);
+            const isShiftLoading = loadingShiftId === shift.id;
+            
+            return (
+              <div
+                key={shift.id}
+                className={`border rounded-md p-3 flex flex-col md:flex-row md:justify-between md:items-center gap-2 ${
+                  isShiftBlocked ? 'bg-gray-50 opacity-60' : ''
+                }`}
+              >
+                <div className="text-sm text-gray-600">
+                  <p className="font-medium text-gray-900">{shift.name}</p>
+                  <p>
+                    {shiftTimes.dateStr} · {shift.call_time ? 'Call ' : ''}{shiftTimes.timeStr}
+                  </p>
+                  <p>{shiftRoles.map(r => r.role_name).join(', ') || 'No specific roles'}</p>
+                  {isConflicting && (
+                    <p className="text-red-700">{shiftTurnaround?.message || 'Time conflict with another job'}</p>
+                  )}
+                  {shiftTurnaround?.severity === 'tight' && (
+                    <p className="text-amber-700">{shiftTurnaround.message}</p>
+                  )}
+                  {shiftUnavailableReason && (
+                    <p className="text-amber-700">Outside your availability: {shiftUnavailableReason}</p>
+                  )}
+                  {isShiftIneligible && (
+                    <p className="text-amber-700">You aren&apos;t eligible for any role on this shift</p>
+                  )}
+                  {renderRoleChoices(shiftRoles, shift.id, isShiftBlocked)}
+                </div>
+                <button
+                  className={`${
+                    isInterested ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+                  } text-white px-3 py-1 rounded-md text-sm ${
+                    (!isInterested && (isShiftBlocked || isShiftIneligible)) || isShiftLoading ? 'opacity-50 cursor-not-allowed' : ''
+                  }`}
+                  disabled={(!isInterested && (isShiftBlocked || isShiftIneligible)) || !!loadingShiftId}
+                  onClick={() => handleShiftInterest(shift.id, isInterested)}
+                >
+                  {isShiftLoading ? 'Processing...' : isInterested ? 'Withdraw' : 'Express Interest'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      
       <div className="flex flex-wrap gap-2 justify-between items-center">
         <div className="flex gap-2">
           <button
@@ -145,7 +357,7 @@ export function JobCard({ job, hasConflict, openRoutePreview, userInterests, onI
           </Link>
         </div>
         
-        {hasExpressedInterest ? (
+        {isMultiShift ? null : hasExpressedInterest ? (
           <button
             className={`bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md text-sm ${
               isLoading ? 'opacity-75 cursor-wait' : ''
@@ -175,9 +387,9 @@ export function JobCard({ job, hasConflict, openRoutePreview, userInterests, onI
         ) : (
           <button
             className={`bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm ${
-              hasConflict || isLoading ? 'opacity-50 cursor-not-allowed' : ''
+              hasConflict || isUnavailable || isLoading ? 'opacity-50 cursor-not-allowed' : ''
             }`}
-            disabled={hasConflict || isLoading}
+            disabled={hasConflict || isUnavailable || isLoading}
             onClick={async () => {
               try {
                 setIsLoading(true);
@@ -185,6 +397,7 @@ export function JobCard({ job, hasConflict, openRoutePreview, userInterests, onI
                 
                 if (result.success) {
                   toast.success(result.message);
+                  if (result.warning) toast.warning(result.warning);
                   if (onInterestChange) onInterestChange();
                 } else {
                   toast.error(result.message);
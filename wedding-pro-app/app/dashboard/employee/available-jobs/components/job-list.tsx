@@ -1,21 +1,31 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import type { JobWithVenue } from "@/app/actions/jobs/types";
+import type { AvailableJob, JobWithVenue } from "@/app/actions/jobs/types";
 import { JobCard } from "./job-card";
 import { RoutePreviewModal } from "./route-preview-modal";
 import { getUserJobInterests } from "@/app/job-interest-actions";
+import { DEFAULT_TURNAROUND_BUFFER_MINUTES, findTurnaroundIssue } from "@/app/actions/job-shifts/client-utils";
+import type { TravelTimes, TurnaroundIssue } from "@/app/actions/job-shifts/types";
+import type { InterestRole } from "@/app/actions/job-interests/types";
+import { getAvailabilityConflict } from "@/app/actions/availability/client-utils";
+import type { EmployeeAvailability } from "@/app/actions/availability/types";
 
 interface Assignment {
   id: string;
   job_id: string;
+  shift_id: string | null;
   start_time: string;
   end_time: string;
+  venue_id?: string | null;
 }
 
 interface JobListProps {
-  jobs: JobWithVenue[];
+  jobs: AvailableJob[];
   employeeAssignments: Assignment[];
+  availability?: EmployeeAvailability | null;
+  travelTimes?: TravelTimes;
+  turnaroundBufferMinutes?: number;
   employeeAddress?: string;
   orgAddress?: string;
 }
@@ -23,23 +33,30 @@ interface JobListProps {
 export function JobList({ 
   jobs, 
   employeeAssignments, 
+  availability,
+  travelTimes = {},
+  turnaroundBufferMinutes = DEFAULT_TURNAROUND_BUFFER_MINUTES,
   employeeAddress, 
   orgAddress 
 }: JobListProps) {
   const [selectedJob, setSelectedJob] = useState<JobWithVenue | null>(null);
   const [isRouteModalOpen, setIsRouteModalOpen] = useState(false);
   const [userInterests, setUserInterests] = useState<string[]>([]);
+  const [userShiftInterests, setUserShiftInterests] = useState<string[]>([]);
+  const [userRoleInterests, setUserRoleInterests] = useState<Record<string, InterestRole[]>>({});
   const [isLoadingInterests, setIsLoadingInterests] = useState(true);
 
   // Fetch user's job interests
   const fetchUserInterests = async () => {
     setIsLoadingInterests(true);
     try {
-      const { data, error } = await getUserJobInterests();
+      const { data, shiftIds, roleInterests, error } = await getUserJobInterests();
       if (error) {
         console.error("Error fetching user interests:", error);
       } else {
         setUserInterests(data);
+        setUserShiftInterests(shiftIds);
+        setUserRoleInterests(roleInterests);
       }
     } catch (error) {
       console.error("Error fetching user interests:", error);
@@ -53,27 +70,68 @@ export function JobList({
     fetchUserInterests();
   }, []);
 
-  // Check if a job has time conflicts with existing assignments
-  const hasTimeConflict = (job: JobWithVenue) => {
-    if (!employeeAssignments.length) return false;
-    
-    const jobStart = new Date(job.start_time).getTime();
-    const jobEnd = new Date(job.end_time).getTime();
-    
-    return employeeAssignments.some(assignment => {
-      // Skip if it's the same job
-      if (assignment.job_id === job.id) return false;
-      
-      const assignmentStart = new Date(assignment.start_time).getTime();
-      const assignmentEnd = new Date(assignment.end_time).getTime();
-      
-      // Check for overlap
-      return (
-        (jobStart >= assignmentStart && jobStart < assignmentEnd) || // Job starts during assignment
-        (jobEnd > assignmentStart && jobEnd <= assignmentEnd) || // Job ends during assignment
-        (jobStart <= assignmentStart && jobEnd >= assignmentEnd) // Job encompasses assignment
+  const bookedWindows = employeeAssignments.map(assignment => ({
+    assignment_id: assignment.id,
+    job_id: assignment.job_id,
+    shift_id: assignment.shift_id,
+    start_time: assignment.start_time,
+    end_time: assignment.end_time,
+    venue_id: assignment.venue_id ?? null
+  }));
+  const turnaroundOptions = { bufferMinutes: turnaroundBufferMinutes, travelTimes };
+
+  // Check each of a job's shifts against the employee's existing assignments,
+  // allowing time to drive between venues and set up. Shifts the employee
+  // already works are not counted against themselves.
+  const getShiftTurnarounds = (job: AvailableJob) => {
+    const issues: Record<string, TurnaroundIssue> = {};
+    for (const shift of job.job_shifts || []) {
+      const issue = findTurnaroundIssue(
+        { job_id: job.id, start_time: shift.start_time, end_time: shift.end_time, venue_id: shift.venue_id || job.venue_id },
+        bookedWindows,
+        { ...turnaroundOptions, excludeShiftId: shift.id }
+      );
+      if (issue) issues[shift.id] = issue;
+    }
+    return issues;
+  };
+
+  // A job is in conflict when every one of its shifts clashes with an assignment;
+  // a single-shift job takes its shift's tight turnaround too
+  const getJobTurnaround = (job: AvailableJob, shiftTurnarounds: Record<string, TurnaroundIssue>) => {
+    const shifts = job.job_shifts || [];
+    if (shifts.length === 0) {
+      return findTurnaroundIssue(
+        { job_id: job.id, start_time: job.start_time, end_time: job.end_time, venue_id: job.venue_id },
+        bookedWindows.filter(window => window.job_id !== job.id),
+        turnaroundOptions
       );
-    });
+    }
+
+    const issues = shifts.map(shift => shiftTurnarounds[shift.id]);
+    if (issues.every(issue => issue?.severity === 'conflict')) return issues[0];
+    return shifts.length === 1 ? issues[0] ?? null : null;
+  };
+
+  // Why each of a job's shifts falls outside the employee's availability, by shift ID
+  const getUnavailableShiftReasons = (job: AvailableJob) => {
+    const reasons: Record<string, string> = {};
+    for (const shift of job.job_shifts || []) {
+      const reason = getAvailabilityConflict({ start: shift.start_time, end: shift.end_time }, availability);
+      if (reason) reasons[shift.id] = reason;
+    }
+    return reasons;
+  };
+
+  // A job is unavailable when the employee can't work any of its shifts
+  const getUnavailableReason = (job: AvailableJob) => {
+    const shifts = job.job_shifts || [];
+    if (shifts.length === 0) {
+      return getAvailabilityConflict({ start: job.start_time, end: job.end_time }, availability);
+    }
+
+    const reasons = getUnavailableShiftReasons(job);
+    return Object.keys(reasons).length === shifts.length ? reasons[shifts[0].id] : null;
   };
 
   const openRoutePreview = (job: JobWithVenue) => {
@@ -104,16 +162,28 @@ export function JobList({
   return (
     <div className="space-y-6">
       {jobs.length > 0 ? (
-        jobs.map((job) => (
-          <JobCard
-            key={job.id}
-            job={job}
-            hasConflict={hasTimeConflict(job)}
-            openRoutePreview={openRoutePreview}
-            userInterests={userInterests}
-            onInterestChange={fetchUserInterests}
-          />
-        ))
+        jobs.map((job) => {
+          const shiftTurnarounds = getShiftTurnarounds(job);
+          const turnaround = getJobTurnaround(job, shiftTurnarounds);
+
+          return (
+            <JobCard
+              key={job.id}
+              job={job}
+              hasConflict={turnaround?.severity === 'conflict'}
+              conflictingShiftIds={Object.keys(shiftTurnarounds).filter(id => shiftTurnarounds[id].severity === 'conflict')}
+              turnaround={turnaround}
+              shiftTurnarounds={shiftTurnarounds}
+              unavailableReason={getUnavailableReason(job)}
+              unavailableShiftReasons={getUnavailableShiftReasons(job)}
+              openRoutePreview={openRoutePreview}
+              userInterests={userInterests}
+              userShiftInterests={userShiftInterests}
+              userRoleInterests={userRoleInterests[job.id] || []}
+              onInterestChange={fetchUserInterests}
+            />
+          );
+        })
       ) : (
         <p className="text-gray-600">No available jobs match your criteria.</p>
       )}
@@ -4,16 +4,23 @@ import { useState, useEffect } from "react";
 import type { JobWithVenue, AvailableJob, JobRequiredRole } from "@/app/actions/jobs/types";
 import { JobFilters, JobFilters as JobFiltersType } from "./job-filters";
 import { JobList } from "./job-list";
+import type { EmployeeAvailability } from "@/app/actions/availability/types";
+import type { TravelTimes } from "@/app/actions/job-shifts/types";
 
 interface JobListingClientProps {
   initialJobs: AvailableJob[];
   employeeAssignments: Array<{
     id: string;
     job_id: string;
+    shift_id: string | null;
     start_time: string;
     end_time: string;
+    venue_id?: string | null;
   }>;
   availableRoles: string[];
+  availability?: EmployeeAvailability | null;
+  travelTimes?: TravelTimes;
+  turnaroundBufferMinutes?: number;
   employeeAddress?: string;
   orgAddress?: string;
 }
@@ -22,6 +29,9 @@ export function JobListingClient({
   initialJobs,
   employeeAssignments,
   availableRoles,
+  availability,
+  travelTimes,
+  turnaroundBufferMinutes,
   employeeAddress,
   orgAddress
 }: JobListingClientProps) {
@@ -106,6 +116,9 @@ export function JobListingClient({
           <JobList
             jobs={jobs}
             employeeAssignments={employeeAssignments}
+            availability={availability}
+            travelTimes={travelTimes}
+            turnaroundBufferMinutes={turnaroundBufferMinutes}
             employeeAddress={employeeAddress}
             orgAddress={orgAddress}
           />
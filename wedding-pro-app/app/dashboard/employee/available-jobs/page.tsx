@@ -6,6 +6,8 @@ import {
   getEmployeeAssignments,
 } from "@/app/job-actions";
 import type { JobWithVenue } from "app/actions/jobs/types";
+import { getMyAvailability } from "@/app/actions/availability";
+import { getTravelTimes, getTurnaroundBuffer } from "@/app/actions/job-shifts/utils";
 import { JobListingClient } from "./components/job-listing-client";
 
 export default async function AvailableJobsPage({
@@ -31,7 +33,7 @@ export default async function AvailableJobsPage({
   
   // Get current user profile
   const profile = await getCurrentUserProfile();
-  if (!profile) {
+  if (!profile || !profile.org_id) {
     redirect("/dashboard");
   }
 
@@ -40,6 +42,40 @@ export default async function AvailableJobsPage({
   
   // Get employee assignments for time conflict checking
   const { data: assignments, error: assignmentsError } = await getEmployeeAssignments();
+
+  // Get the employee's availability so jobs outside it are grayed out
+  const { data: availability } = await getMyAvailability();
+  
+  // Compare against the shift the employee works, falling back to the whole job
+  const employeeAssignments = (assignments || []).map(assignment => {
+    const shift = Array.isArray(assignment.shift) ? assignment.shift[0] : assignment.shift;
+    return {
+      id: assignment.id,
+      job_id: assignment.job_id,
+      shift_id: assignment.shift_id ?? null,
+      start_time: shift?.start_time || assignment.jobs?.[0]?.start_time || '',
+      end_time: shift?.end_time || assignment.jobs?.[0]?.end_time || '',
+      venue_id: shift?.venue_id || assignment.jobs?.[0]?.venue_id || null
+    };
+  });
+  
+  // Drive times between these jobs' venues and those of nearby bookings, so
+  // back-to-back jobs too far apart are flagged
+  const [turnaroundBufferMinutes, travelTimes] = await Promise.all([
+    getTurnaroundBuffer(supabase, profile.org_id),
+    getTravelTimes(
+      supabase,
+      (jobs || []).flatMap((job: any) =>
+        (job.job_shifts?.length ? job.job_shifts : [job]).map((window: any) => ({
+          job_id: job.id,
+          start_time: window.start_time,
+          end_time: window.end_time,
+          venue_id: window.venue_id || job.venue_id
+        }))
+      ),
+      employeeAssignments.map(({ id, ...window }) => ({ assignment_id: id, ...window }))
+    )
+  ]);
   
   // Get organization details for address information
   const { data: org } = await supabase
@@ -87,13 +123,11 @@ export default async function AvailableJobsPage({
       ) : (
         <JobListingClient
           initialJobs={jobs as JobWithVenue[] || []}
-          employeeAssignments={assignments ? assignments.map(assignment => ({
-            id: assignment.id,
-            job_id: assignment.job_id,
-            start_time: assignment.jobs?.[0]?.start_time || '',
-            end_time: assignment.jobs?.[0]?.end_time || ''
-          })) : []}
+          employeeAssignments={employeeAssignments}
           availableRoles={allRoles}
+          availability={availability}
+          travelTimes={travelTimes}
+          turnaroundBufferMinutes={turnaroundBufferMinutes}
           employeeAddress={employeeAddress || undefined}
           orgAddress={orgAddress || undefined}
         />
@@ -0,0 +1,524 @@
+import { createClient } from "@/utils/supabase/server";
+import { isEmployee } from "@/utils/supabase/auth-helpers";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { getTimelineForJob } from "@/app/actions/job-timeline";
+import { involvesRole } from "@/app/actions/job-timeline/client-utils";
+import { formatVenueAddress } from "@/app/actions/calendar-feed/client-utils";
+import { getDayOfContacts } from "@/app/actions/job-contacts";
+import { getContactWindow, JOB_CONTACT_TYPE_LABELS } from "@/app/actions/job-contacts/client-utils";
+import { getCrewJobAttachments } from "@/app/actions/job-attachments";
+import { JOB_ATTACHMENT_CATEGORY_LABELS } from "@/app/actions/job-attachments/client-utils";
+import { AttachmentPreview } from "@/components/job-attachments/attachment-preview";
+import { getMyJobChecklists, setChecklistItemCompleted } from "@/app/actions/role-checklists";
+import { getChecklistProgress } from "@/app/actions/role-checklists/client-utils";
+import {
+  calculateExpectedEarnings,
+  describeCompensation,
+  getShiftHours
+} from "@/app/actions/role-compensation/client-utils";
+import { getMyJobTimesheets } from "@/app/actions/timesheets";
+import { getPayableHours, TIMESHEET_STATUS_LABELS } from "@/app/actions/timesheets/client-utils";
+import { getMileageRate, getMyJobExpenseClaims, submitExpenseClaim, withdrawExpenseClaim } from "@/app/actions/expense-claims";
+import {
+  ALLOWED_RECEIPT_TYPES,
+  describeExpenseClaim,
+  EXPENSE_CATEGORY_LABELS,
+  EXPENSE_CLAIM_STATUS_LABELS
+} from "@/app/actions/expense-claims/client-utils";
+import { SubmitButton } from "@/components/submit-button";
+import { FormMessage, Message } from "@/components/form-message";
+import PrintButton from "@/components/print-button";
+
+export default async function EmployeeJobPage({
+  params,
+  searchParams
+}: {
+  params: Promise<{ jobId: string }>;
+  searchParams: Promise<Message>;
+}) {
+  const { jobId } = await params;
+  const message = await searchParams;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  
+  if (!user) {
+    redirect("/sign-in");
+  }
+  
+  // Check if user is employee
+  const hasAccess = await isEmployee();
+  if (!hasAccess) {
+    redirect("/dashboard");
+  }
+  
+  // Only staff assigned to the job get the day sheet
+  const { data: assignments } = await supabase
+    .from('job_assignments')
+    .select(`
+      id,
+      shift:shift_id (
+        id, name, start_time, end_time, call_time,
+        venue:venue_id (name, address, city, state, zip_code)
+      ),
+      job_required_role:job_required_role_id (
+        role_name, pay_type, pay_rate, min_hours, overtime_after_hours, overtime_multiplier, bonus_amount
+      )
+    `)
+    .eq('job_id', jobId)
+    .eq('user_id', user.id)
+    .neq('status', 'declined');
+  
+  if (!assignments || assignments.length === 0) {
+    redirect("/dashboard/employee/schedule");
+  }
+  
+  const { data: job } = await supabase
+    .from('jobs')
+    .select(`
+      id, title, description, start_time, end_time, status, travel_pay_offered, travel_pay_amount,
+      venue:venue_id (name, address, city, state, zip_code)
+    `)
+    .eq('id', jobId)
+    .single();
+  
+  if (!job) {
+    redirect("/dashboard/employee/schedule");
+  }
+  
+  const { data: timelineData } = await getTimelineForJob(jobId);
+  const timelineItems = timelineData || [];
+  
+  // Contact numbers are only returned close to the event
+  const { data: dayOfContacts } = await getDayOfContacts(jobId);
+  const contactWindow = getContactWindow(job);
+  
+  // Files the managers have shared with the crew
+  const { data: attachmentsData } = await getCrewJobAttachments(jobId);
+  const attachments = attachmentsData || [];
+  
+  // The must-have shots and deliverables for the employee's roles
+  const { data: checklistsData } = await getMyJobChecklists(jobId);
+  const checklists = (checklistsData || []).filter(checklist => checklist.items.length > 0);
+  const canTickItems = job.status !== 'cancelled' && job.status !== 'draft';
+  
+  // Approved timesheets replace the scheduled hours when working out pay
+  const { data: timesheetsData } = await getMyJobTimesheets(jobId);
+  const timesheetsByAssignment = new Map((timesheetsData || []).map(timesheet => [timesheet.job_assignment_id, timesheet]));
+  
+  // Parking, tolls, fares, hotels and mileage the employee is claiming back
+  const { data: expenseClaimsData } = await getMyJobExpenseClaims(jobId);
+  const expenseClaims = expenseClaimsData || [];
+  const mileageRate = await getMileageRate();
+  
+  // Handle joined data which might be returned as arrays from Supabase
+  const jobVenue: any = Array.isArray(job.venue) ? job.venue[0] : job.venue;
+  const myShifts = assignments.map((assignment: any) => {
+    const shift = Array.isArray(assignment.shift) ? assignment.shift[0] : assignment.shift;
+    const role = Array.isArray(assignment.job_required_role)
+      ? assignment.job_required_role[0]
+      : assignment.job_required_role;
+    const shiftVenue = Array.isArray(shift?.venue) ? shift.venue[0] : shift?.venue;
+    const timesheet = timesheetsByAssignment.get(assignment.id) || null;
+    const approvedHours = timesheet ? getPayableHours(timesheet) : null;
+    return {
+      id: assignment.id as string,
+      shift,
+      roleName: (role?.role_name as string | undefined) || null,
+      venue: shiftVenue || jobVenue,
+      pay: role && role.pay_rate !== null ? describeCompensation(role) : null,
+      earnings: role
+        ? calculateExpectedEarnings(
+            role,
+            approvedHours ?? getShiftHours(shift?.start_time || job.start_time, shift?.end_time || job.end_time)
+          )
+        : null,
+      timesheet,
+      approvedHours
+    };
+  });
+  const travelPay = job.travel_pay_offered ? Number(job.travel_pay_amount || 0) : 0;
+  const expectedEarnings = myShifts.reduce((total, { earnings }) => total + (earnings?.total || 0), 0) + travelPay;
+  const myRoleNames = myShifts.map(s => s.roleName).filter((name): name is string => !!name);
+  
+  // Format dates for display
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+  };
+  
+  const formatTime = (dateString: string) => {
+    return new Date(dateString).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  };
+  
+  const isMultiDay = formatDate(job.start_time) !== formatDate(job.end_time);
+  
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <Link href="/dashboard/employee/schedule" className="text-blue-600 hover:text-blue-800">
+          &larr; Back to Schedule
+        </Link>
+        <PrintButton />
+      </div>
+      
+      {Object.keys(message).length > 0 && (
+        <div className="mb-6 print:hidden">
+          <FormMessage message={message} />
+        </div>
+      )}
+      
+      <div className="print-area">
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h1 className="text-3xl font-bold mb-1">{job.title}</h1>
+          <p className="text-gray-600 mb-4">
+            {formatDate(job.start_time)}
+            {isMultiDay && <> &ndash; {formatDate(job.end_time)}</>}
+          </p>
+          
+          <div className="space-y-4">
+            {myShifts.map(({ id, shift, roleName, venue, pay, earnings, timesheet, approvedHours }) => (
+              <div key={id} className="border rounded-md p-4">
+                <h2 className="font-medium text-gray-900">
+                  {shift?.name && shift.name !== 'Main' ? `${shift.name} – ` : ''}
+                  {roleName || 'Crew'}
+                </h2>
+                {shift && (
+                  <>
+                    <p className="text-sm text-gray-600">
+                      {isMultiDay && `${formatDate(shift.start_time)}, `}
+                      {formatTime(shift.start_time)} - {formatTime(shift.end_time)}
+                    </p>
+                    {shift.call_time && (
+                      <p className="text-sm text-gray-600">Call time: {formatTime(shift.call_time)}</p>
+                    )}
+                  </>
+                )}
+                {venue && (
+                  <p className="text-sm text-gray-600">
+                    {venue.name}
+                    {formatVenueAddress(venue) && <>, {formatVenueAddress(venue)}</>}
+                  </p>
+                )}
+                {pay && (
+                  <p className="text-sm text-gray-600">
+                    Pay: {pay}
+                    {earnings && (
+                      <span className="text-green-600 font-medium">
+                        {' '}&middot; ${earnings.total.toFixed(2)} {approvedHours !== null ? `for ${approvedHours} approved hr` : 'expected'}
+                      </span>
+                    )}
+                  </p>
+                )}
+                {timesheet && (
+                  <p className="text-sm text-gray-600 print:hidden">
+                    Timesheet: {TIMESHEET_STATUS_LABELS[timesheet.status]}
+                    {timesheet.status === 'rejected' && timesheet.review_note && <> &ndash; {timesheet.review_note}</>}
+                  </p>
+                )}
+                {earnings && earnings.overtime_hours > 0 && (
+                  <p className="text-xs text-gray-500">
+                    Includes {earnings.overtime_hours} hr of overtime (${earnings.overtime_pay.toFixed(2)})
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+          
+          {expectedEarnings > 0 && (
+            <p className="mt-4 text-sm text-gray-900">
+              <span className="font-medium">
+                {myShifts.every(({ approvedHours }) => approvedHours !== null) ? 'Earnings:' : 'Expected earnings:'}
+              </span>{' '}
+              <span className="text-green-600 font-medium">${expectedEarnings.toFixed(2)}</span>
+              {travelPay > 0 && <span className="text-gray-600"> (including ${travelPay.toFixed(2)} travel pay)</span>}
+            </p>
+          )}
+          
+          {job.description && (
+            <p className="mt-4 text-sm text-gray-700 whitespace-pre-line">{job.description}</p>
+          )}
+          
+          <div className="mt-4 pt-4 border-t">
+            <h2 className="font-medium text-gray-900 mb-1">Day-of Contacts</h2>
+            {dayOfContacts && dayOfContacts.length > 0 ? (
+              <ul className="text-sm text-gray-700 space-y-1">
+                {dayOfContacts.map((contact) => (
+                  <li key={contact.id}>
+                    {contact.name} ({JOB_CONTACT_TYPE_LABELS[contact.contact_type]}):{' '}
+                    <a href={`tel:${contact.phone}`} className="text-blue-600 hover:text-blue-800">
+                      {contact.phone}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">
+                {new Date() < contactWindow.opensAt
+                  ? `Client and planner numbers are shown from ${contactWindow.opensAt.toLocaleString('en-US', { weekday: 'long', hour: 'numeric', minute: '2-digit' })}.`
+                  : 'No day-of contacts are available for this job.'}
+              </p>
+            )}
+          </div>
+        </div>
+        
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-xl font-semibold mb-1">Run of Show</h2>
+          <p className="text-sm text-gray-500 mb-4">Items involving your role are highlighted.</p>
+          
+          {timelineItems.length > 0 ? (
+            <ol className="border-t border-gray-200 divide-y divide-gray-200">
+              {timelineItems.map((item) => {
+                const isMine = myRoleNames.length === 0 || myRoleNames.some(name => involvesRole(item, name));
+                
+                return (
+                  <li key={item.id} className={`py-3 flex gap-4 ${isMine ? '' : 'text-gray-500'}`}>
+                    <div className="w-24 flex-shrink-0 font-medium">
+                      {formatTime(item.starts_at)}
+                      {isMultiDay && (
+                        <div className="text-xs font-normal text-gray-500">
+                          {new Date(item.starts_at).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                        </div>
+                      )}
+                    </div>
+                    <div>
+                      <div className={isMine ? 'font-semibold text-gray-900' : ''}>{item.title}</div>
+                      {item.location && <div className="text-sm">{item.location}</div>}
+                      <div className="text-sm">
+                        {item.role_names.length > 0 ? item.role_names.join(', ') : 'Everyone'}
+                      </div>
+                      {item.notes && <div className="text-sm whitespace-pre-line">{item.notes}</div>}
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          ) : (
+            <p className="text-gray-600">The run of show hasn&apos;t been shared yet.</p>
+          )}
+        </div>
+        
+        {checklists.map((checklist) => {
+          const progress = getChecklistProgress(checklist.items);
+          
+          return (
+            <div key={checklist.job_required_role_id} className="bg-white rounded-lg shadow p-6 mt-6">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-semibold">{checklist.role_name} Checklist</h2>
+                <span className="text-sm text-gray-500">
+                  {progress.completed} of {progress.total} done
+                </span>
+              </div>
+              <ul className="border-t border-gray-200 divide-y divide-gray-200">
+                {checklist.items.map((item) => (
+                  <li key={item.id} className="py-2">
+                    <form action={setChecklistItemCompleted} className="flex items-center gap-3">
+                      <input type="hidden" name="jobId" value={jobId} />
+                      <input type="hidden" name="itemId" value={item.id} />
+                      <input type="hidden" name="completed" value={item.completed_at ? "false" : "true"} />
+                      <button
+                        type="submit"
+                        disabled={!canTickItems}
+                        aria-label={item.completed_at ? `Mark "${item.label}" as not done` : `Mark "${item.label}" as done`}
+                        className={`h-5 w-5 flex-shrink-0 rounded border flex items-center justify-center text-xs disabled:opacity-50 ${
+                          item.completed_at ? 'bg-green-500 border-green-500 text-white' : 'border-gray-400 bg-white'
+                        }`}
+                      >
+                        {item.completed_at ? '✓' : ''}
+                      </button>
+                      <span className={item.completed_at ? 'text-gray-500 line-through' : 'text-gray-900'}>
+                        {item.label}
+                      </span>
+                    </form>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+        
+        {(canTickItems || expenseClaims.length > 0) && (
+          <div className="bg-white rounded-lg shadow p-6 mt-6 print:hidden">
+            <h2 className="text-xl font-semibold mb-1">Expenses</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Claim parking, tolls, ferry fares, hotel nights and mileage for this job. Approved claims are paid with your next payroll.
+            </p>
+            
+            {expenseClaims.length > 0 && (
+              <ul className="border-t border-gray-200 divide-y divide-gray-200 mb-4">
+                {expenseClaims.map((claim) => (
+                  <li key={claim.id} className="py-3 flex flex-wrap items-start justify-between gap-2">
+                    <div>
+                      <div className="font-medium text-gray-900">
+                        {describeExpenseClaim(claim)}
+                        <span className="ml-2 text-green-600">${Number(claim.amount).toFixed(2)}</span>
+                      </div>
+                      <div className="text-sm text-gray-600">
+                        {new Date(`${claim.incurred_on}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                        {' '}&middot;{' '}
+                        <span className={
+                          claim.status === 'approved' ? 'text-green-700' : claim.status === 'rejected' ? 'text-red-700' : ''
+                        }>
+                          {EXPENSE_CLAIM_STATUS_LABELS[claim.status]}
+                        </span>
+                        {claim.review_note && <> &ndash; {claim.review_note}</>}
+                      </div>
+                      {claim.receipt_url && (
+                        <a
+                          href={claim.receipt_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-sm text-blue-600 hover:text-blue-800"
+                        >
+                          Receipt
+                        </a>
+                      )}
+                    </div>
+                    {claim.status === 'submitted' && (
+                      <form action={withdrawExpenseClaim}>
+                        <input type="hidden" name="claimId" value={claim.id} />
+                        <input type="hidden" name="jobId" value={jobId} />
+                        <button type="submit" className="text-sm text-red-600 hover:text-red-800">
+                          Withdraw
+                        </button>
+                      </form>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            
+            {canTickItems && (
+              <form action={submitExpenseClaim.bind(null, jobId)} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {myShifts.length > 1 ? (
+                  <div>
+                    <label htmlFor="expense-assignment" className="block text-sm font-medium text-gray-700 mb-1">Shift</label>
+                    <select
+                      id="expense-assignment"
+                      name="assignmentId"
+                      required
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      {myShifts.map(({ id, shift, roleName }) => (
+                        <option key={id} value={id}>
+                          {shift?.name && shift.name !== 'Main' ? `${shift.name} – ` : ''}{roleName || 'Crew'}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ) : (
+                  <input type="hidden" name="assignmentId" value={myShifts[0].id} />
+                )}
+                <div>
+                  <label htmlFor="expense-category" className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                  <select
+                    id="expense-category"
+                    name="category"
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {Object.entries(EXPENSE_CATEGORY_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="expense-date" className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+                  <input
+                    type="date"
+                    id="expense-date"
+                    name="incurred_on"
+                    required
+                    defaultValue={(myShifts[0].shift?.start_time || job.start_time).slice(0, 10)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="expense-amount" className="block text-sm font-medium text-gray-700 mb-1">Amount ($)</label>
+                  <input
+                    type="number"
+                    id="expense-amount"
+                    name="amount"
+                    min={0.01}
+                    step="0.01"
+                    placeholder="Not needed for mileage"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="expense-miles" className="block text-sm font-medium text-gray-700 mb-1">Miles</label>
+                  <input
+                    type="number"
+                    id="expense-miles"
+                    name="miles"
+                    min={0.1}
+                    step="0.1"
+                    placeholder="Mileage only"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    {mileageRate
+                      ? `Paid at $${mileageRate} per mile`
+                      : "Your organization hasn't set a mileage rate yet"}
+                  </p>
+                </div>
+                <div>
+                  <label htmlFor="expense-receipt" className="block text-sm font-medium text-gray-700 mb-1">Receipt</label>
+                  <input
+                    type="file"
+                    id="expense-receipt"
+                    name="receipt"
+                    accept={ALLOWED_RECEIPT_TYPES.join(',')}
+                    className="w-full text-sm"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">A photo or PDF. Required for everything except mileage.</p>
+                </div>
+                <div className="md:col-span-2">
+                  <label htmlFor="expense-description" className="block text-sm font-medium text-gray-700 mb-1">Details</label>
+                  <input
+                    type="text"
+                    id="expense-description"
+                    name="description"
+                    placeholder="e.g. Hotel garage, or the route driven"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <SubmitButton pendingText="Submitting...">Submit Claim</SubmitButton>
+                </div>
+              </form>
+            )}
+          </div>
+        )}
+        
+        {attachments.length > 0 && (
+          <div className="bg-white rounded-lg shadow p-6 mt-6 print:hidden">
+            <h2 className="text-xl font-semibold mb-4">Documents</h2>
+            <ul className="border-t border-gray-200 divide-y divide-gray-200">
+              {attachments.map((attachment) => (
+                <li key={attachment.id} className="py-3">
+                  <div className="font-medium text-gray-900">
+                    {attachment.title}
+                    <span className="ml-2 text-sm font-normal text-gray-500">
+                      {JOB_ATTACHMENT_CATEGORY_LABELS[attachment.category]}
+                    </span>
+                  </div>
+                  {attachment.versions[0] && (
+                    <AttachmentPreview version={attachment.versions[0]} title={attachment.title} />
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
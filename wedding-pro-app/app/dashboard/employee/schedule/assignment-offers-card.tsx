@@ -0,0 +1,63 @@
+import { acceptAssignmentOffer, declineAssignmentOffer } from "@/app/actions/assignment-offers";
+import { describeOfferDeadline } from "@/app/actions/standby/client-utils";
+import type { AssignmentOfferSlot, MyAssignmentOffer } from "@/app/actions/assignment-offers/types";
+import { SubmitButton } from "@/components/submit-button";
+
+interface AssignmentOffersCardProps {
+  offers: MyAssignmentOffer[];
+}
+
+const formatSlotTime = (slot: AssignmentOfferSlot) => {
+  const start = new Date(slot.start_time);
+  const end = new Date(slot.end_time);
+  return `${start.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}, ` +
+    `${start.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })} - ` +
+    `${end.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`;
+};
+
+/**
+ * Roles a manager has offered the employee, to accept or decline. They're
+ * only booked once they accept.
+ */
+export default function AssignmentOffersCard({ offers }: AssignmentOffersCardProps) {
+  if (offers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-1">Job Offers</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        You&apos;re only booked once you accept. Offers you don&apos;t answer in time expire and the slot goes to someone else.
+      </p>
+
+      <div className="space-y-4">
+        {offers.map((offer) => (
+          <div key={offer.id} className="border border-blue-300 bg-blue-50 rounded-lg p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <div>
+              <h3 className="font-medium text-gray-900">
+                {offer.slot.role_name}: {offer.slot.job_title}
+                {offer.slot.shift_name && offer.slot.shift_name !== 'Main' ? ` – ${offer.slot.shift_name}` : ''}
+              </h3>
+              <p className="text-sm text-gray-600">
+                {formatSlotTime(offer.slot)}
+                {offer.slot.venue_name && <> at {offer.slot.venue_name}</>}
+              </p>
+              <p className="text-sm text-blue-800">{describeOfferDeadline(offer.expires_at)}</p>
+            </div>
+            <div className="flex gap-2">
+              <form action={acceptAssignmentOffer}>
+                <input type="hidden" name="offerId" value={offer.id} />
+                <SubmitButton pendingText="Accepting...">Accept</SubmitButton>
+              </form>
+              <form action={declineAssignmentOffer}>
+                <input type="hidden" name="offerId" value={offer.id} />
+                <SubmitButton variant="outline" pendingText="Declining...">Decline</SubmitButton>
+              </form>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
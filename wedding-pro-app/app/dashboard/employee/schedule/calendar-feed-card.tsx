@@ -0,0 +1,53 @@
+import { createCalendarFeed, revokeCalendarFeed } from "@/app/actions/calendar-feed";
+import { SubmitButton } from "@/components/submit-button";
+
+interface CalendarFeedCardProps {
+  feedUrl: string | null;
+}
+
+export default function CalendarFeedCard({ feedUrl }: CalendarFeedCardProps) {
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-2">Calendar Subscription</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Subscribe to your assignments in Google Calendar, Apple Calendar or Outlook.
+        Reschedules and dropped jobs update automatically. Keep this link private;
+        anyone with it can see your schedule.
+      </p>
+
+      {feedUrl ? (
+        <div className="space-y-4">
+          <input
+            type="text"
+            readOnly
+            value={feedUrl}
+            aria-label="Calendar subscription URL"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono bg-gray-50"
+          />
+          <div className="flex flex-wrap items-center gap-4">
+            <a
+              href={feedUrl.replace(/^https?:/, 'webcal:')}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Subscribe
+            </a>
+            <form action={createCalendarFeed}>
+              <SubmitButton variant="outline" pendingText="Resetting...">
+                Reset Link
+              </SubmitButton>
+            </form>
+            <form action={revokeCalendarFeed}>
+              <SubmitButton variant="destructive" pendingText="Revoking...">
+                Revoke Link
+              </SubmitButton>
+            </form>
+          </div>
+        </div>
+      ) : (
+        <form action={createCalendarFeed}>
+          <SubmitButton pendingText="Creating...">Create Calendar Link</SubmitButton>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { clockIn, clockOut } from "@/app/actions/timesheets";
+import type { ClockableAssignment } from "@/app/actions/timesheets/types";
+
+interface ClockInCardProps {
+  assignments: ClockableAssignment[];
+}
+
+const formatTime = (dateString: string) =>
+  new Date(dateString).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+/**
+ * Clock in and out of today's shifts. The browser's location is sent along if
+ * the employee allows it, so the clock-in can be checked against the venue.
+ */
+export default function ClockInCard({ assignments }: ClockInCardProps) {
+  if (assignments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-1">Clock In / Out</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Clock in when you arrive and out when you leave. Allow location access so we can confirm you were at the venue.
+      </p>
+
+      <div className="space-y-4">
+        {assignments.map((assignment) => (
+          <div key={assignment.assignment_id} className="border rounded-lg p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <div>
+              <h3 className="font-medium text-gray-900">
+                {assignment.job_title}
+                {assignment.shift_name && assignment.shift_name !== 'Main' && <> &ndash; {assignment.shift_name}</>}
+              </h3>
+              <p className="text-sm text-gray-600">
+                {assignment.role_name || 'Crew'}
+                {assignment.venue_name && <> at {assignment.venue_name}</>}
+              </p>
+              <p className="text-sm text-gray-600">
+                {assignment.scheduled.call_time && <>Call {formatTime(assignment.scheduled.call_time)}, </>}
+                {formatTime(assignment.scheduled.start_time)} - {formatTime(assignment.scheduled.end_time)}
+              </p>
+              {assignment.timesheet && (
+                <p className="text-sm text-green-700">
+                  Clocked in at {formatTime(assignment.timesheet.clock_in_at)}
+                </p>
+              )}
+            </div>
+            <ClockForm assignment={assignment} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ClockForm({ assignment }: { assignment: ClockableAssignment }) {
+  const formRef = useRef<HTMLFormElement>(null);
+  const [locating, setLocating] = useState(false);
+  const isClockOut = !!assignment.timesheet;
+
+  const setField = (name: string, value: string) => {
+    const input = formRef.current?.elements.namedItem(name) as HTMLInputElement | null;
+    if (input) input.value = value;
+  };
+
+  // Look up the location first, then submit with or without it
+  const handleClick = () => {
+    const form = formRef.current;
+    if (!form) return;
+
+    if (!navigator.geolocation) {
+      form.requestSubmit();
+      return;
+    }
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setField("latitude", String(position.coords.latitude));
+        setField("longitude", String(position.coords.longitude));
+        setField("accuracy", String(position.coords.accuracy));
+        form.requestSubmit();
+      },
+      () => {
+        form.requestSubmit();
+      },
+      { enableHighAccuracy: true, timeout: 10000, maximumAge: 60000 }
+    );
+  };
+
+  return (
+    <form ref={formRef} action={isClockOut ? clockOut : clockIn}>
+      {isClockOut ? (
+        <input type="hidden" name="timesheetId" value={assignment.timesheet!.id} />
+      ) : (
+        <input type="hidden" name="assignmentId" value={assignment.assignment_id} />
+      )}
+      <input type="hidden" name="latitude" defaultValue="" />
+      <input type="hidden" name="longitude" defaultValue="" />
+      <input type="hidden" name="accuracy" defaultValue="" />
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={locating}
+        className={`px-4 py-2 rounded-md text-sm font-medium text-white disabled:opacity-60 ${
+          isClockOut ? 'bg-red-600 hover:bg-red-700' : 'bg-green-600 hover:bg-green-700'
+        }`}
+      >
+        {locating ? 'Locating...' : isClockOut ? 'Clock Out' : 'Clock In'}
+      </button>
+    </form>
+  );
+}
@@ -1,11 +1,25 @@
 import { createClient } from "@/utils/supabase/server";
 import { isEmployee, getCurrentUserProfile } from "@/utils/supabase/auth-helpers";
 import Link from "next/link";
+import { headers } from "next/headers";
 import { redirect } from "next/navigation";
 import { getDropRequestsForEmployee } from "@/app/drop-request-actions";
+import { getMyCalendarFeed } from "@/app/actions/calendar-feed";
+import { getCalendarFeedUrl } from "@/app/actions/calendar-feed/client-utils";
+import { getTimelineItemsForJobs } from "@/app/actions/job-timeline/utils";
+import { getMyClockableAssignments } from "@/app/actions/timesheets";
+import { getMyStandby } from "@/app/actions/standby";
+import { getMyAssignmentOffers } from "@/app/actions/assignment-offers";
+import { FormMessage, Message } from "@/components/form-message";
 import EmployeeScheduleClient from "./schedule-client";
+import CalendarFeedCard from "./calendar-feed-card";
+import RunOfShowCard from "./run-of-show-card";
+import ClockInCard from "./clock-in-card";
+import StandbyCard from "./standby-card";
+import AssignmentOffersCard from "./assignment-offers-card";
 
-export default async function EmployeeSchedulePage() {
+export default async function EmployeeSchedulePage({ searchParams }: { searchParams: Promise<Message> }) {
+  const message = await searchParams;
   const supabase = await createClient();
   const { data: { user } } = await supabase.auth.getUser();
   
@@ -48,9 +62,47 @@ export default async function EmployeeSchedulePage() {
     .eq('user_id', user.id)
     .order('job.start_time', { ascending: true });
 
+  // Get the shifts the employee can clock in or out of now
+  const { data: clockableAssignments } = await getMyClockableAssignments();
+
+  // Get slots offered to the employee from standby lists, and the lists they're on
+  const { data: standby } = await getMyStandby();
+
+  // Get roles managers have offered the employee, waiting on their answer
+  const { data: assignmentOffers } = await getMyAssignmentOffers();
+
   // Get employee's drop requests
   const { data: dropRequests } = await getDropRequestsForEmployee();
 
+  // Get the employee's calendar subscription link, if they have one
+  const { data: calendarFeed } = await getMyCalendarFeed();
+  const requestHeaders = await headers();
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL
+    || `${requestHeaders.get("x-forwarded-proto") || "https"}://${requestHeaders.get("host")}`;
+  const calendarFeedUrl = calendarFeed ? getCalendarFeedUrl(appUrl, calendarFeed.token) : null;
+
+  // Get the run-of-show for the employee's next few jobs
+  const upcomingAssignments = (jobAssignments || [])
+    .map((assignment: any) => ({
+      job: Array.isArray(assignment.job) ? assignment.job[0] : assignment.job,
+      role: Array.isArray(assignment.job_required_role) ? assignment.job_required_role[0] : assignment.job_required_role
+    }))
+    .filter(({ job }) => job && new Date(job.end_time) >= new Date() && job.status !== 'cancelled')
+    .slice(0, 3);
+  const { data: timelines } = await getTimelineItemsForJobs(
+    supabase,
+    upcomingAssignments.map(({ job }) => job.id)
+  );
+  const runOfShowJobs = upcomingAssignments
+    .filter(({ job }) => (timelines?.[job.id] || []).length > 0)
+    .map(({ job, role }) => ({
+      id: job.id as string,
+      title: job.title as string,
+      start_time: job.start_time as string,
+      roleName: (role?.role_name as string | undefined) || null,
+      items: timelines![job.id]
+    }));
+
   // If we're still using placeholder data, keep it
   // In a real implementation, we would use the jobAssignments data
   const scheduledJobs = jobAssignmentsError || !jobAssignments ? [
@@ -136,6 +188,18 @@ export default async function EmployeeSchedulePage() {
     <div>
       <h1 className="text-3xl font-bold mb-6">My Schedule</h1>
       
+      {Object.keys(message).length > 0 && (
+        <div className="mb-6">
+          <FormMessage message={message} />
+        </div>
+      )}
+      
+      <ClockInCard assignments={clockableAssignments || []} />
+      
+      <AssignmentOffersCard offers={assignmentOffers || []} />
+      
+      <StandbyCard standby={standby || { offers: [], entries: [] }} />
+      
       <EmployeeScheduleClient
         scheduledJobs={scheduledJobs}
         jobAssignments={jobAssignments?.map(rawAssignment => {
@@ -184,6 +248,10 @@ export default async function EmployeeSchedulePage() {
         }) || []}
         dropRequests={dropRequests || []}
       />
+
+      <RunOfShowCard jobs={runOfShowJobs} />
+
+      <CalendarFeedCard feedUrl={calendarFeedUrl} />
       
       <div className="bg-white rounded-lg shadow p-6">
         <div className="flex justify-between items-center mb-4">
@@ -0,0 +1,61 @@
+import Link from "next/link";
+import type { JobTimelineItem } from "@/app/actions/job-timeline/types";
+import { involvesRole } from "@/app/actions/job-timeline/client-utils";
+
+interface RunOfShowCardProps {
+  jobs: {
+    id: string;
+    title: string;
+    start_time: string;
+    roleName: string | null;
+    items: JobTimelineItem[];
+  }[];
+}
+
+/**
+ * The run-of-show for the employee's next jobs, with their role's items in bold
+ */
+export default function RunOfShowCard({ jobs }: RunOfShowCardProps) {
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-4">Run of Show</h2>
+
+      <div className="space-y-6">
+        {jobs.map((job) => (
+          <div key={job.id}>
+            <div className="flex justify-between items-baseline mb-2">
+              <h3 className="text-lg font-medium">
+                {job.title}
+                <span className="ml-2 text-sm font-normal text-gray-600">
+                  {new Date(job.start_time).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+                </span>
+              </h3>
+              <Link
+                href={`/dashboard/employee/jobs/${job.id}`}
+                className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+              >
+                Printable view
+              </Link>
+            </div>
+            <ol className="text-sm space-y-1">
+              {job.items.map((item) => (
+                <li
+                  key={item.id}
+                  className={involvesRole(item, job.roleName) ? 'font-semibold text-gray-900' : 'text-gray-500'}
+                >
+                  <span className="inline-block w-20">
+                    {new Date(item.starts_at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                  </span>
+                  {item.title}
+                  {item.location && <span className="font-normal"> @ {item.location}</span>}
+                </li>
+              ))}
+            </ol>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
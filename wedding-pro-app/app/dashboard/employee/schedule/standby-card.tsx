@@ -0,0 +1,82 @@
+import { acceptStandbyOffer, declineStandbyOffer } from "@/app/actions/standby";
+import { describeOfferDeadline } from "@/app/actions/standby/client-utils";
+import type { MyStandby, StandbySlot } from "@/app/actions/standby/types";
+import { SubmitButton } from "@/components/submit-button";
+
+interface StandbyCardProps {
+  standby: MyStandby;
+}
+
+const formatSlotTime = (slot: StandbySlot) => {
+  const start = new Date(slot.start_time);
+  const end = new Date(slot.end_time);
+  return `${start.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}, ` +
+    `${start.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })} - ` +
+    `${end.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`;
+};
+
+const describeSlot = (slot: StandbySlot) =>
+  `${slot.job_title}${slot.shift_name && slot.shift_name !== 'Main' ? ` – ${slot.shift_name}` : ''}`;
+
+/**
+ * Slots offered to the employee from a standby list, to accept or decline,
+ * and the roles they're waiting on
+ */
+export default function StandbyCard({ standby }: StandbyCardProps) {
+  if (standby.offers.length === 0 && standby.entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-1">Standby</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        When a slot you&apos;re on standby for opens up, it&apos;s offered to you here. Answer before the offer
+        expires or it goes to the next person on the list.
+      </p>
+
+      {standby.offers.length > 0 && (
+        <div className="space-y-4 mb-4">
+          {standby.offers.map((offer) => (
+            <div key={offer.id} className="border border-amber-300 bg-amber-50 rounded-lg p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+              <div>
+                <h3 className="font-medium text-gray-900">
+                  {offer.slot.role_name} slot open: {describeSlot(offer.slot)}
+                </h3>
+                <p className="text-sm text-gray-600">
+                  {formatSlotTime(offer.slot)}
+                  {offer.slot.venue_name && <> at {offer.slot.venue_name}</>}
+                </p>
+                <p className="text-sm text-amber-800">{describeOfferDeadline(offer.expires_at)}</p>
+              </div>
+              <div className="flex gap-2">
+                <form action={acceptStandbyOffer}>
+                  <input type="hidden" name="offerId" value={offer.id} />
+                  <SubmitButton pendingText="Accepting...">Accept</SubmitButton>
+                </form>
+                <form action={declineStandbyOffer}>
+                  <input type="hidden" name="offerId" value={offer.id} />
+                  <SubmitButton variant="outline" pendingText="Declining...">Decline</SubmitButton>
+                </form>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {standby.entries.length > 0 && (
+        <ul className="border-t border-gray-200 divide-y divide-gray-200">
+          {standby.entries.map((entry) => (
+            <li key={entry.id} className="py-3 flex justify-between items-center text-sm">
+              <div>
+                <span className="font-medium text-gray-900">{entry.slot.role_name}</span>
+                <span className="text-gray-600"> &ndash; {describeSlot(entry.slot)}, {formatSlotTime(entry.slot)}</span>
+              </div>
+              <span className="text-gray-500">#{entry.rank} on standby</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
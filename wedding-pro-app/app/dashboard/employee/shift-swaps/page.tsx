@@ -0,0 +1,230 @@
+import { createClient } from "@/utils/supabase/server";
+import { isEmployee } from "@/utils/supabase/auth-helpers";
+import {
+  claimShiftSwap,
+  getShiftSwapMarketplace,
+  postShiftSwap,
+  withdrawFromShiftSwap
+} from "@/app/actions/shift-swaps";
+import {
+  MAX_SHIFT_SWAP_NOTE_LENGTH,
+  SHIFT_SWAP_KIND_LABELS,
+  SHIFT_SWAP_STATUS_LABELS
+} from "@/app/actions/shift-swaps/client-utils";
+import type { ShiftSwapSlot } from "@/app/actions/shift-swaps/types";
+import { redirect } from "next/navigation";
+import { SubmitButton } from "@/components/submit-button";
+import { FormMessage, Message } from "@/components/form-message";
+
+const inputClass = "w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500";
+
+const formatSlotTime = (slot: ShiftSwapSlot) => {
+  const start = new Date(slot.start_time);
+  const end = new Date(slot.end_time);
+  return `${start.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}, ` +
+    `${start.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })} - ` +
+    `${end.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`;
+};
+
+const describeSlot = (slot: ShiftSwapSlot) =>
+  `${slot.role_name}: ${slot.job_title}${slot.shift_name && slot.shift_name !== 'Main' ? ` – ${slot.shift_name}` : ''}`;
+
+export default async function ShiftSwapsPage({ searchParams }: { searchParams: Promise<Message> }) {
+  const message = await searchParams;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/sign-in");
+  }
+
+  // Check if user is employee
+  const hasAccess = await isEmployee();
+  if (!hasAccess) {
+    redirect("/dashboard");
+  }
+
+  const { data: marketplace, error } = await getShiftSwapMarketplace();
+  const listings = marketplace?.listings || [];
+  const myPosts = marketplace?.myPosts || [];
+  const myClaims = marketplace?.myClaims || [];
+  const myAssignments = marketplace?.myAssignments || [];
+  const postedAssignmentIds = new Set(myPosts.map(post => post.job_assignment_id));
+  const postableAssignments = myAssignments.filter(assignment => !postedAssignmentIds.has(assignment.id));
+
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6">Shift Swaps</h1>
+
+      {Object.keys(message).length > 0 && (
+        <div className="mb-6">
+          <FormMessage message={message} />
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-white rounded-lg shadow p-6 mb-6 text-red-500">
+          Error loading shift swaps: {error}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <h2 className="text-xl font-semibold mb-1">Post a Shift</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Can&apos;t make a shift? Give it away, or swap it for one of a colleague&apos;s. You stay booked until a
+          manager approves a claim.
+        </p>
+
+        {postableAssignments.length > 0 ? (
+          <form action={postShiftSwap} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="swap-assignmentId" className="block text-sm font-medium text-gray-700 mb-1">Shift *</label>
+                <select id="swap-assignmentId" name="assignmentId" required className={inputClass}>
+                  {postableAssignments.map((assignment) => (
+                    <option key={assignment.id} value={assignment.id}>
+                      {describeSlot(assignment.slot)} ({formatSlotTime(assignment.slot)})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="swap-kind" className="block text-sm font-medium text-gray-700 mb-1">I want to *</label>
+                <select id="swap-kind" name="kind" required className={inputClass} defaultValue="giveaway">
+                  <option value="giveaway">Give it away</option>
+                  <option value="swap">Swap it for another shift</option>
+                </select>
+              </div>
+            </div>
+            <div>
+              <label htmlFor="swap-note" className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+              <input
+                type="text"
+                id="swap-note"
+                name="note"
+                maxLength={MAX_SHIFT_SWAP_NOTE_LENGTH}
+                placeholder="e.g. Happy to take any Sunday in return"
+                className={inputClass}
+              />
+            </div>
+            <div className="flex justify-end">
+              <SubmitButton pendingText="Posting...">Post Shift</SubmitButton>
+            </div>
+          </form>
+        ) : (
+          <p className="text-sm text-gray-500">You have no upcoming shifts to post.</p>
+        )}
+      </div>
+
+      {(myPosts.length > 0 || myClaims.length > 0) && (
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4">My Posts and Claims</h2>
+          <ul className="border-t border-gray-200 divide-y divide-gray-200">
+            {myPosts.map((post) => (
+              <li key={post.id} className="py-3 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {describeSlot(post.slot)}
+                    <span className="ml-2 text-xs font-normal text-gray-500">{SHIFT_SWAP_KIND_LABELS[post.kind]}</span>
+                  </p>
+                  <p className="text-sm text-gray-600">{formatSlotTime(post.slot)}</p>
+                  <p className="text-sm text-gray-700">
+                    {post.status === 'claimed'
+                      ? `Claimed by ${post.claimant?.full_name || 'a colleague'}${post.claimed_slot ? `, who offers ${describeSlot(post.claimed_slot)} (${formatSlotTime(post.claimed_slot)})` : ''}. Waiting for a manager to approve.`
+                      : 'Waiting for someone to claim it.'}
+                  </p>
+                </div>
+                <form action={withdrawFromShiftSwap}>
+                  <input type="hidden" name="postId" value={post.id} />
+                  <SubmitButton variant="outline" pendingText="Taking down...">Take Down</SubmitButton>
+                </form>
+              </li>
+            ))}
+            {myClaims.map((post) => (
+              <li key={post.id} className="py-3 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {describeSlot(post.slot)}
+                    <span className="ml-2 text-xs font-normal text-gray-500">{SHIFT_SWAP_STATUS_LABELS[post.status]}</span>
+                  </p>
+                  <p className="text-sm text-gray-600">{formatSlotTime(post.slot)}</p>
+                  <p className="text-sm text-gray-700">
+                    You claimed this from {post.poster?.full_name || 'a colleague'}
+                    {post.claimed_slot ? ` in exchange for ${describeSlot(post.claimed_slot)}` : ''}.
+                    Waiting for a manager to approve.
+                  </p>
+                </div>
+                <form action={withdrawFromShiftSwap}>
+                  <input type="hidden" name="postId" value={post.id} />
+                  <SubmitButton variant="outline" pendingText="Withdrawing...">Withdraw Claim</SubmitButton>
+                </form>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-semibold mb-1">Open Shifts</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Shifts your colleagues are giving away or want to swap. Shifts you aren&apos;t qualified or free for are
+          grayed out.
+        </p>
+
+        {listings.length > 0 ? (
+          <div className="space-y-4">
+            {listings.map((post) => {
+              const canClaim = post.blockers.length === 0;
+              return (
+                <div
+                  key={post.id}
+                  className={`border rounded-lg p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3 ${
+                    canClaim ? 'border-gray-200' : 'border-gray-100 bg-gray-50 opacity-75'
+                  }`}
+                >
+                  <div>
+                    <h3 className="font-medium text-gray-900">
+                      {describeSlot(post.slot)}
+                      <span className="ml-2 text-xs font-normal text-gray-500">{SHIFT_SWAP_KIND_LABELS[post.kind]}</span>
+                    </h3>
+                    <p className="text-sm text-gray-600">
+                      {formatSlotTime(post.slot)}
+                      {post.slot.venue_name && <> at {post.slot.venue_name}</>}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      Posted by {post.poster?.full_name || 'a colleague'}
+                      {post.note && <>: &ldquo;{post.note}&rdquo;</>}
+                    </p>
+                    {!canClaim && (
+                      <p className="text-sm text-red-700">{post.blockers.join('; ')}</p>
+                    )}
+                  </div>
+                  {canClaim && (
+                    <form action={claimShiftSwap} className="flex flex-col md:flex-row gap-2 md:items-center">
+                      <input type="hidden" name="postId" value={post.id} />
+                      {post.kind === 'swap' && (
+                        <>
+                          <label htmlFor={`offer-${post.id}`} className="sr-only">Shift to give in return</label>
+                          <select id={`offer-${post.id}`} name="offeredAssignmentId" required className={inputClass}>
+                            {myAssignments.map((assignment) => (
+                              <option key={assignment.id} value={assignment.id}>
+                                Give {describeSlot(assignment.slot)} ({formatSlotTime(assignment.slot)})
+                              </option>
+                            ))}
+                          </select>
+                        </>
+                      )}
+                      <SubmitButton pendingText="Claiming...">{post.kind === 'swap' ? 'Offer Swap' : 'Claim'}</SubmitButton>
+                    </form>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No shifts are up for grabs right now.</p>
+        )}
+      </div>
+    </div>
+  );
+}
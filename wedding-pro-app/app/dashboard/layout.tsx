@@ -24,7 +24,14 @@ import {
   CalendarDays,
   ClipboardList,
   Newspaper, // For Announcements
-  Archive // For System Logs
+  Archive, // For System Logs
+  Clock, // For Timesheets
+  Wallet, // For Payroll
+  Receipt, // For Expense Claims
+  Scale, // For Fairness
+  Award, // For Qualifications
+  CalendarX, // For Availability
+  ArrowLeftRight // For Shift Swaps
 } from "lucide-react";
 
 export default async function DashboardLayout({
@@ -85,6 +92,8 @@ export default async function DashboardLayout({
     { section: "Admin", label: "User Management", href: "/dashboard/users", icon: <Users className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />, roles: ["Admin"] },
     { section: "Admin", label: "Invite Users", href: "/dashboard/invite", icon: <UserPlus className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />, roles: ["Admin"] },
     { section: "Admin", label: "Account Approvals", href: "/dashboard/admin/account-approvals", icon: <UserCheck className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />, roles: ["Admin"] },
+    { section: "Admin", label: "Payroll", href: "/dashboard/admin/payroll", icon: <Wallet className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />, roles: ["Admin"] },
+    { section: "Admin", label: "1099 Summaries", href: "/dashboard/admin/contractor-1099", icon: <FileText className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />, roles: ["Admin"] },
     { section: "Admin", label: "Organization Settings", href: "/dashboard/organization", icon: <Settings className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />, roles: ["Admin"] },
     { section: "Admin", label: "Subscription", href: "/dashboard/admin/subscription", icon: <ShieldCheck className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />, roles: ["Admin"] },
     { section: "Admin", label: "System Logs", href: "/dashboard/admin/audit-logs", icon: <Archive className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />, roles: ["Admin"] },
@@ -98,14 +107,21 @@ export default async function DashboardLayout({
     { section: "Management", label: "Account Approvals", href: "/dashboard/manager/account-approvals", icon: <UserCheck className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />, roles: ["Manager"] },
     { section: "Management", label: "Job Management", href: "/dashboard/manager/jobs", icon: <Briefcase className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />, roles: ["Manager"] },
     // { section: "Management", label: "Team Overview", href: "/dashboard/manager/team", icon: <Users className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />, roles: ["Manager"] }, // Assuming /team is similar to /users for now
+    { section: "Management", label: "Timesheets", href: "/dashboard/manager/timesheets", icon: <Clock className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />, roles: ["Manager"] },
+    { section: "Management", label: "Expenses", href: "/dashboard/manager/expenses", icon: <Receipt className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />, roles: ["Manager"] },
+    { section: "Management", label: "Fairness", href: "/dashboard/manager/fairness", icon: <Scale className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />, roles: ["Manager"] },
+    { section: "Management", label: "Qualifications", href: "/dashboard/manager/qualifications", icon: <Award className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />, roles: ["Manager"] },
     { section: "Management", label: "Venue Management", href: "/dashboard/manager/venues", icon: <Building className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />, roles: ["Manager"] },
     { section: "Management", label: "Drop Requests", href: "/dashboard/manager/drop-requests", icon: <Briefcase className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />, roles: ["Manager"] },
+    { section: "Management", label: "Shift Swaps", href: "/dashboard/manager/shift-swaps", icon: <ArrowLeftRight className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />, roles: ["Manager"] },
     { section: "Management", label: "Announcements", href: "/dashboard/admin/announcements", icon: <Newspaper className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />, roles: ["Manager"] }, // Managers can also access announcements
   ];
 
   const employeeLinks = [
     { section: "My Work", label: "My Schedule", href: "/dashboard/employee/schedule", icon: <CalendarDays className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />, roles: ["Employee"] },
     { section: "My Work", label: "Available Jobs", href: "/dashboard/employee/available-jobs", icon: <ClipboardList className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />, roles: ["Employee"] },
+    { section: "My Work", label: "My Availability", href: "/dashboard/employee/availability", icon: <CalendarX className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />, roles: ["Employee"] },
+    { section: "My Work", label: "Shift Swaps", href: "/dashboard/employee/shift-swaps", icon: <ArrowLeftRight className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />, roles: ["Employee"] },
     { section: "My Work", label: "Notifications", href: "/dashboard/notifications", icon: <Bell className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />, roles: ["Employee"] }, // Changed from /employee/notifications
   ];
   
@@ -0,0 +1,199 @@
+import { createClient } from "@/utils/supabase/server";
+import { isManager } from "@/utils/supabase/auth-helpers";
+import { approveExpenseClaim, getExpenseClaimsForReview, rejectExpenseClaim } from "@/app/actions/expense-claims";
+import type { ExpenseClaimWithDetails } from "@/app/actions/expense-claims/types";
+import {
+  describeExpenseClaim,
+  EXPENSE_CLAIM_STATUS_LABELS,
+  sumApprovedClaims
+} from "@/app/actions/expense-claims/client-utils";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { SubmitButton } from "@/components/submit-button";
+import { FormMessage, Message } from "@/components/form-message";
+
+const formatMoney = (value: number) => `$${Number(value).toFixed(2)}`;
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric'
+  });
+
+/**
+ * Who, what and for which job, shared by both lists
+ */
+function ExpenseClaimSummary({ claim }: { claim: ExpenseClaimWithDetails }) {
+  return (
+    <div>
+      <h3 className="font-medium text-gray-900">
+        {claim.employee?.full_name || 'Unknown employee'}
+        <span className="font-normal text-gray-600"> &middot; {claim.role_name || 'Crew'}</span>
+      </h3>
+      <p className="text-sm text-gray-600">
+        {claim.job ? (
+          <Link href={`/dashboard/manager/jobs/${claim.job.id}`} className="text-blue-600 hover:text-blue-800">
+            {claim.job.title}
+          </Link>
+        ) : 'Unknown job'}
+        {claim.shift_name && claim.shift_name !== 'Main' && <> &ndash; {claim.shift_name}</>}
+      </p>
+      <p className="text-sm text-gray-900">
+        {describeExpenseClaim(claim)}
+        <span className="ml-2 font-semibold">{formatMoney(claim.amount)}</span>
+      </p>
+      <p className="text-sm text-gray-600">
+        Incurred {formatDate(claim.incurred_on)}
+        {' '}&middot;{' '}
+        {claim.receipt_url ? (
+          <a
+            href={claim.receipt_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-600 hover:text-blue-800"
+          >
+            View receipt
+          </a>
+        ) : (
+          <span className="text-gray-500">{claim.category === 'mileage' ? 'Mileage, no receipt needed' : 'No receipt'}</span>
+        )}
+      </p>
+    </div>
+  );
+}
+
+export default async function ExpensesPage({ searchParams }: { searchParams: Promise<Message> }) {
+  const message = await searchParams;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/sign-in");
+  }
+
+  // Check if user is manager
+  const hasAccess = await isManager();
+  if (!hasAccess) {
+    redirect("/dashboard");
+  }
+
+  const { data: pendingData } = await getExpenseClaimsForReview(['submitted']);
+  const pending = pendingData || [];
+  const { data: reviewedData } = await getExpenseClaimsForReview(['approved', 'rejected']);
+  const reviewed = reviewedData || [];
+
+  const pendingTotal = pending.reduce((sum, claim) => sum + Number(claim.amount), 0);
+  const monthStart = new Date();
+  monthStart.setDate(1);
+  monthStart.setHours(0, 0, 0, 0);
+  const approvedThisMonth = sumApprovedClaims(
+    reviewed.filter(claim => claim.reviewed_at && new Date(claim.reviewed_at) >= monthStart)
+  );
+
+  return (
+    <div>
+      <div className="flex items-center mb-6">
+        <Link
+          href="/dashboard/manager/jobs"
+          className="text-blue-600 hover:text-blue-800 mr-4"
+        >
+          &larr; Back to Jobs
+        </Link>
+        <h1 className="text-3xl font-bold">Expense Claims</h1>
+      </div>
+
+      {Object.keys(message).length > 0 && (
+        <div className="mb-6">
+          <FormMessage message={message} />
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm text-gray-500">Awaiting Approval</p>
+          <p className="text-3xl font-bold">{pending.length}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm text-gray-500">Amount Awaiting Approval</p>
+          <p className="text-3xl font-bold">{formatMoney(pendingTotal)}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm text-gray-500">Approved This Month</p>
+          <p className="text-3xl font-bold">{formatMoney(approvedThisMonth)}</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <h2 className="text-xl font-semibold mb-1">Awaiting Approval</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Approved claims are reimbursed in the payroll run covering the day they are approved.
+        </p>
+
+        {pending.length > 0 ? (
+          <div className="border-t border-gray-200 divide-y divide-gray-200">
+            {pending.map((claim) => (
+              <div key={claim.id} className="py-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                <ExpenseClaimSummary claim={claim} />
+                <div className="space-y-3">
+                  <form action={approveExpenseClaim} className="flex flex-wrap items-end gap-2">
+                    <input type="hidden" name="claimId" value={claim.id} />
+                    <input
+                      type="text"
+                      name="review_note"
+                      aria-label="Note"
+                      placeholder="Note (optional)"
+                      className="flex-1 min-w-[8rem] px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <SubmitButton>Approve</SubmitButton>
+                  </form>
+                  <form action={rejectExpenseClaim} className="flex flex-wrap items-end gap-2">
+                    <input type="hidden" name="claimId" value={claim.id} />
+                    <input
+                      type="text"
+                      name="review_note"
+                      aria-label="Reason for rejecting"
+                      required
+                      placeholder="Reason for rejecting"
+                      className="flex-1 min-w-[8rem] px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <button type="submit" className="px-4 py-2 rounded-md text-sm font-medium text-red-600 border border-red-300 hover:bg-red-50">
+                      Reject
+                    </button>
+                  </form>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 italic">No expense claims are waiting for approval.</p>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-semibold mb-4">Recently Reviewed</h2>
+
+        {reviewed.length > 0 ? (
+          <div className="border-t border-gray-200 divide-y divide-gray-200">
+            {reviewed.map((claim) => (
+              <div key={claim.id} className="py-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                <ExpenseClaimSummary claim={claim} />
+                <div className="text-sm">
+                  <p className={claim.status === 'approved' ? "font-medium text-green-700" : "font-medium text-red-700"}>
+                    {EXPENSE_CLAIM_STATUS_LABELS[claim.status]}
+                    {claim.reviewed_at && <> &middot; {new Date(claim.reviewed_at).toLocaleDateString()}</>}
+                  </p>
+                  {claim.review_note && (
+                    <p className="text-gray-600 italic">{claim.review_note}</p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 italic">No reviewed expense claims yet.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { createClient } from "@/utils/supabase/server";
+import { isManager } from "@/utils/supabase/auth-helpers";
+import { getFairnessReport } from "@/app/actions/fairness";
+import {
+  DEFAULT_FAIRNESS_PERIOD_DAYS,
+  FAIRNESS_PERIOD_OPTIONS,
+  OVERLOOKED_MIN_INTERESTS
+} from "@/app/actions/fairness/client-utils";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+const formatMoney = (value: number) => `$${Number(value).toFixed(2)}`;
+
+const formatPercent = (value: number | null) => (value === null ? '–' : `${Math.round(value * 100)}%`);
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+
+export default async function FairnessPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ days?: string }>;
+}) {
+  const { days: daysParam } = await searchParams;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/sign-in");
+  }
+
+  // Check if user is manager
+  const hasAccess = await isManager();
+  if (!hasAccess) {
+    redirect("/dashboard");
+  }
+
+  const days = FAIRNESS_PERIOD_OPTIONS.find(option => String(option) === daysParam) ?? DEFAULT_FAIRNESS_PERIOD_DAYS;
+  const { data: report, error } = await getFairnessReport(days);
+
+  return (
+    <div>
+      <div className="flex items-center mb-6">
+        <Link
+          href="/dashboard/manager/jobs"
+          className="text-blue-600 hover:text-blue-800 mr-4"
+        >
+          &larr; Back to Jobs
+        </Link>
+        <h1 className="text-3xl font-bold">Fairness</h1>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        <span className="text-sm text-gray-500">Period:</span>
+        {FAIRNESS_PERIOD_OPTIONS.map(option => (
+          <Link
+            key={option}
+            href={`/dashboard/manager/fairness?days=${option}`}
+            className={option === days
+              ? "px-3 py-1 rounded-md text-sm bg-blue-600 text-white"
+              : "px-3 py-1 rounded-md text-sm border border-gray-300 text-gray-700 hover:bg-gray-50"}
+          >
+            Last {option} days
+          </Link>
+        ))}
+      </div>
+
+      {error || !report ? (
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-red-600">{error || 'Failed to build the fairness report'}</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
+            <div className="bg-white rounded-lg shadow p-6">
+              <p className="text-sm text-gray-500">Fairness Index</p>
+              <p className="text-3xl font-bold">{report.eligible_count > 0 ? report.fairness_index : '–'}</p>
+              <p className="text-xs text-gray-500">100 means every eligible employee got the same number of jobs</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-6">
+              <p className="text-sm text-gray-500">Assignment Gini</p>
+              <p className="text-3xl font-bold">{report.assignment_gini.toFixed(2)}</p>
+              <p className="text-xs text-gray-500">{report.total_assignments} assignments across {report.eligible_count} employees</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-6">
+              <p className="text-sm text-gray-500">Earnings Gini</p>
+              <p className="text-3xl font-bold">{report.earnings_gini.toFixed(2)}</p>
+              <p className="text-xs text-gray-500">{formatMoney(report.total_earnings)} expected from role pay</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-6">
+              <p className="text-sm text-gray-500">Overlooked</p>
+              <p className={`text-3xl font-bold ${report.overlooked.length > 0 ? 'text-amber-600' : ''}`}>
+                {report.overlooked.length}
+              </p>
+              <p className="text-xs text-gray-500">Wanted {OVERLOOKED_MIN_INTERESTS}+ jobs, booked on none</p>
+            </div>
+          </div>
+
+          {report.overlooked.length > 0 && (
+            <div className="bg-white rounded-lg shadow p-6 mb-6">
+              <h2 className="text-xl font-semibold mb-1">Keep Asking, Never Booked</h2>
+              <p className="text-sm text-gray-500 mb-4">
+                These employees expressed interest in at least {OVERLOOKED_MIN_INTERESTS} jobs
+                between {formatDate(report.period_start)} and {formatDate(report.period_end)} and weren&apos;t booked on any of them.
+              </p>
+              <ul className="border-t border-gray-200 divide-y divide-gray-200">
+                {report.overlooked.map(employee => (
+                  <li key={employee.user_id} className="py-3 flex justify-between text-sm">
+                    <span>
+                      <span className="font-medium text-gray-900">{employee.full_name || 'Unnamed employee'}</span>
+                      {employee.email && <span className="text-gray-500"> &middot; {employee.email}</span>}
+                    </span>
+                    <span className="text-gray-600">Interested in {employee.interested_jobs} jobs</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold mb-1">By Employee</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Jobs starting {formatDate(report.period_start)} &ndash; {formatDate(report.period_end)}, most overlooked first.
+              A share ratio below 1 means an employee got less of the work than their share of the interest shown.
+            </p>
+
+            {report.employees.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Employee</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Interested</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Booked</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Assignments</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Share of Work</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Share of Interest</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Share Ratio</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Expected Earnings</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {report.employees.map(employee => (
+                      <tr key={employee.user_id}>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {employee.full_name || 'Unnamed employee'}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-right">{employee.interested_jobs}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-right">
+                          {employee.booked_interested_jobs}
+                          <span className="text-gray-500"> ({formatPercent(employee.booking_rate)})</span>
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-right">{employee.assignments}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-right">{formatPercent(employee.assignment_share)}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-right">{formatPercent(employee.interest_share)}</td>
+                        <td className={`px-4 py-3 whitespace-nowrap text-sm text-right ${
+                          employee.share_ratio !== null && employee.share_ratio < 1 ? 'text-amber-700 font-medium' : ''
+                        }`}>
+                          {employee.share_ratio === null ? '–' : employee.share_ratio.toFixed(2)}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-right">{formatMoney(employee.earnings)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 italic">No employees expressed interest or were booked in this period.</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
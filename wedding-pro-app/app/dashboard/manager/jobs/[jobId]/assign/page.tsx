@@ -1,6 +1,7 @@
 import { createClient } from "@/utils/supabase/server";
 import { isManager } from "@/utils/supabase/auth-helpers";
 import { getJobById } from "@/app/job-actions";
+import { formatJobStatus } from "@/app/actions/jobs/client-utils";
 import { getInterestedEmployeesForJob } from "@/app/job-assignment-actions";
 import Link from "next/link";
 import { redirect } from "next/navigation";
@@ -26,6 +27,7 @@ export default async function JobAssignmentPage({
     'distance_desc',
     'interestDate_asc',
     'interestDate_desc',
+    'fairness_desc',
   ];
   const sortOptionRaw = sParams?.sort;
   const sortOption: SortOption =
@@ -62,6 +64,9 @@ export default async function JobAssignmentPage({
     console.error("Error fetching interested employees:", employeesError);
   }
   
+  // Show which shift each interest is for when the job has more than one
+  const isMultiShift = new Set((roleCapacity || []).map(role => role.shift_id)).size > 1;
+  
   // Format dates for display
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -119,7 +124,7 @@ export default async function JobAssignmentPage({
                 ? 'bg-red-100 text-red-800'
                 : 'bg-yellow-100 text-yellow-800'
             }`}>
-              {job.status.charAt(0).toUpperCase() + job.status.slice(1)}
+              {formatJobStatus(job.status)}
             </span>
           </div>
         </div>
@@ -131,6 +136,8 @@ export default async function JobAssignmentPage({
             jobId={jobId} 
             interestedEmployees={interestedEmployees || []} 
             currentSort={sortOption}
+            roles={(roleCapacity || []).map(role => ({ id: role.id, role_name: role.role_name }))}
+            showShift={isMultiShift}
           />
         </div>
         
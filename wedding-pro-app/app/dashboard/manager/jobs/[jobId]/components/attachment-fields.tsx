@@ -0,0 +1,76 @@
+import type { JobAttachment } from "@/app/actions/job-attachments/types";
+import {
+  JOB_ATTACHMENT_CATEGORY_LABELS,
+  JOB_ATTACHMENT_VISIBILITY_LABELS
+} from "@/app/actions/job-attachments/client-utils";
+
+interface AttachmentFieldsProps {
+  attachment?: JobAttachment;
+}
+
+/**
+ * Shared form fields for uploading and editing a job attachment
+ */
+export default function AttachmentFields({ attachment }: AttachmentFieldsProps) {
+  const idPrefix = attachment ? `attachment-${attachment.id}` : "new-attachment";
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      {/* Title */}
+      <div>
+        <label htmlFor={`${idPrefix}-title`} className="block text-sm font-medium text-gray-700 mb-1">
+          Title{attachment ? " *" : ""}
+        </label>
+        <input
+          type="text"
+          id={`${idPrefix}-title`}
+          name="title"
+          required={!!attachment}
+          defaultValue={attachment?.title}
+          className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          placeholder={attachment ? undefined : "Defaults to the file name"}
+        />
+      </div>
+
+      {/* Category */}
+      <div>
+        <label htmlFor={`${idPrefix}-category`} className="block text-sm font-medium text-gray-700 mb-1">
+          Category *
+        </label>
+        <select
+          id={`${idPrefix}-category`}
+          name="category"
+          required
+          defaultValue={attachment?.category || "other"}
+          className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+        >
+          {Object.entries(JOB_ATTACHMENT_CATEGORY_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Visibility */}
+      <div>
+        <label htmlFor={`${idPrefix}-visibility`} className="block text-sm font-medium text-gray-700 mb-1">
+          Visible to *
+        </label>
+        <select
+          id={`${idPrefix}-visibility`}
+          name="visibility"
+          required
+          defaultValue={attachment?.visibility || "managers"}
+          className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+        >
+          {Object.entries(JOB_ATTACHMENT_VISIBILITY_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import type { RoleCompensation } from "@/app/actions/role-compensation/types";
+import { DEFAULT_OVERTIME_MULTIPLIER, PAY_TYPE_LABELS } from "@/app/actions/role-compensation/client-utils";
+
+interface CompensationFieldsProps {
+  roleId: string;
+  compensation: RoleCompensation;
+}
+
+const inputClassName = "w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500";
+
+/**
+ * Form fields for a job role's pay. Minimum hours and overtime only apply to
+ * hourly pay and are ignored for a flat day rate.
+ */
+export default function CompensationFields({ roleId, compensation }: CompensationFieldsProps) {
+  const idPrefix = `role-${roleId}`;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      {/* Pay Type */}
+      <div>
+        <label htmlFor={`${idPrefix}-pay_type`} className="block text-sm font-medium text-gray-700 mb-1">
+          Pay Type
+        </label>
+        <select
+          id={`${idPrefix}-pay_type`}
+          name="pay_type"
+          defaultValue={compensation.pay_type}
+          className={inputClassName}
+        >
+          {Object.entries(PAY_TYPE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Rate */}
+      <div>
+        <label htmlFor={`${idPrefix}-pay_rate`} className="block text-sm font-medium text-gray-700 mb-1">
+          Rate ($)
+        </label>
+        <input
+          type="number"
+          id={`${idPrefix}-pay_rate`}
+          name="pay_rate"
+          min={0}
+          step="0.01"
+          defaultValue={compensation.pay_rate ?? undefined}
+          className={inputClassName}
+          placeholder="Per day or per hour"
+        />
+      </div>
+
+      {/* Bonus */}
+      <div>
+        <label htmlFor={`${idPrefix}-bonus_amount`} className="block text-sm font-medium text-gray-700 mb-1">
+          Bonus ($)
+        </label>
+        <input
+          type="number"
+          id={`${idPrefix}-bonus_amount`}
+          name="bonus_amount"
+          min={0}
+          step="0.01"
+          defaultValue={Number(compensation.bonus_amount) || undefined}
+          className={inputClassName}
+        />
+      </div>
+
+      {/* Minimum Hours */}
+      <div>
+        <label htmlFor={`${idPrefix}-min_hours`} className="block text-sm font-medium text-gray-700 mb-1">
+          Minimum Hours
+        </label>
+        <input
+          type="number"
+          id={`${idPrefix}-min_hours`}
+          name="min_hours"
+          min={0}
+          step="0.25"
+          defaultValue={compensation.min_hours ?? undefined}
+          className={inputClassName}
+        />
+        <p className="mt-1 text-xs text-gray-500">Hourly only.</p>
+      </div>
+
+      {/* Overtime Threshold */}
+      <div>
+        <label htmlFor={`${idPrefix}-overtime_after_hours`} className="block text-sm font-medium text-gray-700 mb-1">
+          Overtime After (hours)
+        </label>
+        <input
+          type="number"
+          id={`${idPrefix}-overtime_after_hours`}
+          name="overtime_after_hours"
+          min={0}
+          step="0.25"
+          defaultValue={compensation.overtime_after_hours ?? undefined}
+          className={inputClassName}
+        />
+        <p className="mt-1 text-xs text-gray-500">Hourly only. Leave blank for no overtime.</p>
+      </div>
+
+      {/* Overtime Multiplier */}
+      <div>
+        <label htmlFor={`${idPrefix}-overtime_multiplier`} className="block text-sm font-medium text-gray-700 mb-1">
+          Overtime Multiplier
+        </label>
+        <input
+          type="number"
+          id={`${idPrefix}-overtime_multiplier`}
+          name="overtime_multiplier"
+          min={1}
+          step="0.05"
+          defaultValue={compensation.overtime_multiplier ?? DEFAULT_OVERTIME_MULTIPLIER}
+          className={inputClassName}
+        />
+      </div>
+    </div>
+  );
+}
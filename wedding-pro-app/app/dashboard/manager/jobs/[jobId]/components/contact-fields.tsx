@@ -0,0 +1,97 @@
+import type { JobContact } from "@/app/actions/job-contacts/types";
+import { JOB_CONTACT_TYPE_LABELS } from "@/app/actions/job-contacts/client-utils";
+
+interface ContactFieldsProps {
+  contact?: JobContact;
+}
+
+/**
+ * Shared form fields for adding and editing a job contact
+ */
+export default function ContactFields({ contact }: ContactFieldsProps) {
+  const idPrefix = contact ? `contact-${contact.id}` : "new-contact";
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {/* Type */}
+      <div>
+        <label htmlFor={`${idPrefix}-contact_type`} className="block text-sm font-medium text-gray-700 mb-1">
+          Type *
+        </label>
+        <select
+          id={`${idPrefix}-contact_type`}
+          name="contact_type"
+          required
+          defaultValue={contact?.contact_type || "client"}
+          className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+        >
+          {Object.entries(JOB_CONTACT_TYPE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Name */}
+      <div>
+        <label htmlFor={`${idPrefix}-name`} className="block text-sm font-medium text-gray-700 mb-1">
+          Name *
+        </label>
+        <input
+          type="text"
+          id={`${idPrefix}-name`}
+          name="name"
+          required
+          defaultValue={contact?.name}
+          className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          placeholder="e.g., Sam & Alex Rivera"
+        />
+      </div>
+
+      {/* Phone */}
+      <div>
+        <label htmlFor={`${idPrefix}-phone`} className="block text-sm font-medium text-gray-700 mb-1">
+          Phone
+        </label>
+        <input
+          type="tel"
+          id={`${idPrefix}-phone`}
+          name="phone"
+          defaultValue={contact?.phone || ""}
+          className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+        />
+        <p className="mt-1 text-xs text-gray-500">Assigned staff see this number around the day of the event.</p>
+      </div>
+
+      {/* Email */}
+      <div>
+        <label htmlFor={`${idPrefix}-email`} className="block text-sm font-medium text-gray-700 mb-1">
+          Email
+        </label>
+        <input
+          type="email"
+          id={`${idPrefix}-email`}
+          name="email"
+          defaultValue={contact?.email || ""}
+          className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+        />
+      </div>
+
+      {/* Notes */}
+      <div className="md:col-span-2">
+        <label htmlFor={`${idPrefix}-notes`} className="block text-sm font-medium text-gray-700 mb-1">
+          Notes
+        </label>
+        <input
+          type="text"
+          id={`${idPrefix}-notes`}
+          name="notes"
+          defaultValue={contact?.notes || ""}
+          className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          placeholder="Managers only"
+        />
+      </div>
+    </div>
+  );
+}
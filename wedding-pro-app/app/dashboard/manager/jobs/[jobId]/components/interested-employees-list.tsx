@@ -3,17 +3,22 @@
 import { useState } from "react";
 import { useRouter, usePathname } from "next/navigation";
 import { InterestedEmployee, SortOption } from "@/app/job-assignment-actions";
+import { isOverlooked } from "@/app/actions/fairness/client-utils";
 
 interface InterestedEmployeesListProps {
   jobId: string;
   interestedEmployees: InterestedEmployee[];
+  roles?: { id: string; role_name: string }[];
   currentSort: SortOption;
+  showShift?: boolean;
 }
 
 export default function InterestedEmployeesList({
   jobId,
   interestedEmployees,
-  currentSort
+  currentSort,
+  roles = [],
+  showShift = false
 }: InterestedEmployeesListProps) {
   const router = useRouter();
   const pathname = usePathname();
@@ -23,6 +28,13 @@ export default function InterestedEmployeesList({
     router.push(`${pathname}?sort=${sortOption}`);
   };
   
+  // Roles wanted, in order of preference
+  const roleNames = new Map<string, string>(roles.map(role => [role.id, role.role_name]));
+  const formatRolesWanted = (employee: InterestedEmployee) =>
+    employee.roles?.length
+      ? employee.roles.map(role => `${role.preference_rank}. ${roleNames.get(role.job_required_role_id) || 'Unknown role'}`).join(', ')
+      : 'Any role';
+  
   // Format date for display
   const formatDate = (dateString: string | null | undefined) => {
     if (!dateString) return "Never";
@@ -49,6 +61,7 @@ export default function InterestedEmployeesList({
             <option value="distance_desc">Distance (Furthest First)</option>
             <option value="interestDate_asc">Interest Date (Oldest First)</option>
             <option value="interestDate_desc">Interest Date (Recent First)</option>
+            <option value="fairness_desc">Fairness (Most Overlooked First)</option>
           </select>
         </div>
       </div>
@@ -66,14 +79,22 @@ export default function InterestedEmployeesList({
                   Employee
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Role
+                  Roles Wanted
                 </th>
+                {showShift && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Shift
+                  </th>
+                )}
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Distance
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Last Assignment
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Booked (90 Days)
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Interest Expressed
                 </th>
@@ -89,12 +110,24 @@ export default function InterestedEmployeesList({
                     <div className="text-sm text-gray-500">
                       {employee.profile?.email || 'No email'}
                     </div>
+                    {employee.availability_conflict && (
+                      <div className="text-xs text-amber-700">
+                        Outside availability: {employee.availability_conflict}
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm text-gray-900">
-                      {employee.profile?.role || 'Not specified'}
+                      {formatRolesWanted(employee)}
                     </div>
                   </td>
+                  {showShift && (
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">
+                        {employee.shift_name || 'Any'}
+                      </div>
+                    </td>
+                  )}
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm text-gray-900">
                       {employee.distance !== null ? `${employee.distance} miles` : 'Unknown'}
@@ -105,6 +138,18 @@ export default function InterestedEmployeesList({
                       {formatDate(employee.last_assignment_date)}
                     </div>
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {employee.fairness && employee.fairness.interested_jobs > 0 ? (
+                      <div className={`text-sm ${isOverlooked(employee.fairness) ? 'text-amber-700 font-medium' : 'text-gray-900'}`}>
+                        {employee.fairness.booked_interested_jobs} of {employee.fairness.interested_jobs} wanted
+                        {isOverlooked(employee.fairness) && (
+                          <div className="text-xs">Overlooked</div>
+                        )}
+                      </div>
+                    ) : (
+                      <div className="text-sm text-gray-500">No recent interest</div>
+                    )}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm text-gray-900">
                       {formatDate(employee.expressed_at)}
@@ -3,12 +3,16 @@
 import { useState } from "react";
 import { assignJobToEmployee, InterestedEmployee } from "@/app/job-assignment-actions";
 import { useRouter } from "next/navigation";
+import { describeRolePreference, getRoleCandidates } from "@/app/actions/job-interests/client-utils";
 
 interface RoleCapacity {
   id: string;
   role_name: string;
   quantity_needed: number;
   assigned: number;
+  offered?: number; // Offers still waiting on an answer
+  shift_id?: string | null;
+  shift_name?: string | null;
 }
 
 interface JobRoleAssignmentProps {
@@ -27,30 +31,48 @@ export default function JobRoleAssignment({
   const [isAssigning, setIsAssigning] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+  const [sendAsOffer, setSendAsOffer] = useState(false);
   
   // Handle role selection
   const handleRoleSelect = (roleId: string) => {
     setSelectedRole(roleId === selectedRole ? null : roleId);
     setError(null);
     setSuccess(null);
+    setWarning(null);
   };
   
-  // Handle employee assignment
-  const handleAssignEmployee = async (employeeId: string) => {
+  // Handle employee assignment; unqualified employees need the manager to confirm an override,
+  // and booking someone outside their stated availability needs confirming too
+  const handleAssignEmployee = async (
+    employeeId: string,
+    overrideEligibility = false,
+    availabilityConflict: string | null = null
+  ) => {
     if (!selectedRole) {
       setError("Please select a role first");
       return;
     }
     
+    if (overrideEligibility && !confirm(`This employee isn't qualified for this role. ${sendAsOffer ? 'Offer it to' : 'Assign'} them anyway?`)) {
+      return;
+    }
+    
+    if (availabilityConflict && !confirm(`This is outside the employee's availability (${availabilityConflict}). ${sendAsOffer ? 'Offer it to' : 'Assign'} them anyway?`)) {
+      return;
+    }
+    
     setIsAssigning(true);
     setError(null);
     setSuccess(null);
+    setWarning(null);
     
     try {
-      const result = await assignJobToEmployee(jobId, employeeId, selectedRole);
+      const result = await assignJobToEmployee(jobId, employeeId, selectedRole, { overrideEligibility, sendAsOffer });
       
       if (result.success) {
         setSuccess(result.message || "Employee assigned successfully");
+        setWarning(result.warning || null);
         // Refresh the page to show updated assignments
         router.refresh();
       } else {
@@ -71,6 +93,21 @@ export default function JobRoleAssignment({
   };
   
   const selectedRoleDetails = getSelectedRoleDetails();
+  
+  // Pending offers hold their slots until they're answered
+  const getHeld = (role: RoleCapacity) => role.assigned + (role.offered || 0);
+  
+  // Roles belong to a shift; only offer employees interested in that shift
+  // who want the role (or any role), first choices first
+  const isMultiShift = new Set(roleCapacity.map(role => role.shift_id)).size > 1;
+  const getCandidates = (role: RoleCapacity) =>
+    getRoleCandidates(
+      role.shift_id
+        ? interestedEmployees.filter(employee => !employee.shift_id || employee.shift_id === role.shift_id)
+        : interestedEmployees,
+      role.id
+    );
+  const candidates = selectedRoleDetails ? getCandidates(selectedRoleDetails) : [];
 
   return (
     <div className="bg-white rounded-lg shadow p-6">
@@ -96,16 +133,29 @@ export default function JobRoleAssignment({
                   onClick={() => handleRoleSelect(role.id)}
                 >
                   <div className="flex justify-between items-center">
-                    <div className="font-medium">{role.role_name}</div>
-                    <div className="text-sm text-gray-500">
-                      {role.assigned} of {role.quantity_needed} filled
+                    <div>
+                      <div className="font-medium">{role.role_name}</div>
+                      {isMultiShift && role.shift_name && (
+                        <div className="text-xs text-gray-500">{role.shift_name}</div>
+                      )}
+                    </div>
+                    <div className="text-sm text-gray-500 text-right">
+                      <div>{role.assigned} of {role.quantity_needed} filled</div>
+                      {(role.offered || 0) > 0 && (
+                        <div className="text-xs text-amber-700">{role.offered} offer{role.offered === 1 ? '' : 's'} pending</div>
+                      )}
+                      <div className="text-xs">{getCandidates(role).length} interested</div>
                     </div>
                   </div>
-                  <div className="mt-2 w-full bg-gray-200 rounded-full h-2">
+                  <div className="mt-2 w-full bg-gray-200 rounded-full h-2 flex overflow-hidden">
                     <div 
-                      className="bg-blue-600 h-2 rounded-full" 
+                      className="bg-blue-600 h-2" 
                       style={{ width: `${(role.assigned / role.quantity_needed) * 100}%` }}
                     ></div>
+                    <div 
+                      className="bg-amber-400 h-2" 
+                      style={{ width: `${((role.offered || 0) / role.quantity_needed) * 100}%` }}
+                    ></div>
                   </div>
                 </div>
               ))}
@@ -115,41 +165,78 @@ export default function JobRoleAssignment({
           {selectedRoleDetails && (
             <div className="mb-6">
               <h3 className="text-sm font-medium text-gray-500 mb-2">
-                Assign {selectedRoleDetails.role_name}:
+                Assign {selectedRoleDetails.role_name}
+                {isMultiShift && selectedRoleDetails.shift_name ? ` (${selectedRoleDetails.shift_name})` : ''}:
               </h3>
               
-              {selectedRoleDetails.assigned >= selectedRoleDetails.quantity_needed ? (
+              <label className="flex items-start gap-2 text-sm text-gray-700 mb-3">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={sendAsOffer}
+                  onChange={(e) => setSendAsOffer(e.target.checked)}
+                />
+                <span>
+                  Send as an offer
+                  <span className="block text-xs text-gray-500">
+                    The employee accepts or declines from the app, email or text, and is only booked once they accept.
+                  </span>
+                </span>
+              </label>
+              
+              {getHeld(selectedRoleDetails) >= selectedRoleDetails.quantity_needed ? (
                 <div className="text-amber-600 text-sm">
-                  All positions for this role are filled.
+                  {(selectedRoleDetails.offered || 0) > 0
+                    ? 'All positions for this role are filled or waiting on an offer.'
+                    : 'All positions for this role are filled.'}
                 </div>
               ) : (
                 <div className="space-y-2 max-h-64 overflow-y-auto">
-                  {interestedEmployees.length === 0 ? (
+                  {candidates.length === 0 ? (
                     <div className="text-gray-500 text-sm">
-                      No employees have expressed interest in this job.
+                      No employees have expressed interest in this role.
                     </div>
                   ) : (
-                    interestedEmployees.map((employee) => (
-                      <div 
-                        key={employee.id}
-                        className="border border-gray-200 rounded-md p-3 flex justify-between items-center"
-                      >
-                        <div>
-                          <div className="font-medium">{employee.profile?.full_name || 'Unknown'}</div>
-                          <div className="text-sm text-gray-500">
-                            {employee.profile?.role || 'No role'} • 
-                            {employee.distance !== null ? ` ${employee.distance} miles` : ' Distance unknown'}
+                    candidates.map((employee) => {
+                      const eligibility = employee.eligibility?.[selectedRoleDetails.id];
+                      const isIneligible = eligibility ? !eligibility.eligible : false;
+                      
+                      return (
+                        <div 
+                          key={employee.id}
+                          className="border border-gray-200 rounded-md p-3 flex justify-between items-center"
+                        >
+                          <div>
+                            <div className="font-medium">{employee.profile?.full_name || 'Unknown'}</div>
+                            <div className="text-sm text-gray-500">
+                              {describeRolePreference(employee.roles, selectedRoleDetails.id)} • 
+                              {employee.distance !== null ? ` ${employee.distance} miles` : ' Distance unknown'}
+                            </div>
+                            {isIneligible && (
+                              <div className="text-xs text-amber-700">
+                                Not eligible: {eligibility!.reasons.join('; ')}
+                              </div>
+                            )}
+                            {employee.availability_conflict && (
+                              <div className="text-xs text-amber-700">
+                                Outside availability: {employee.availability_conflict}
+                              </div>
+                            )}
                           </div>
+                          <button
+                            className={`${
+                              isIneligible ? 'bg-amber-600 hover:bg-amber-700' : 'bg-blue-600 hover:bg-blue-700'
+                            } text-white px-3 py-1 rounded-md text-sm`}
+                            onClick={() => handleAssignEmployee(employee.user_id, isIneligible, employee.availability_conflict ?? null)}
+                            disabled={isAssigning}
+                          >
+                            {isAssigning
+                              ? (sendAsOffer ? 'Sending...' : 'Assigning...')
+                              : `${isIneligible ? 'Override & ' : ''}${sendAsOffer ? 'Offer' : 'Assign'}`}
+                          </button>
                         </div>
-                        <button
-                          className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded-md text-sm"
-                          onClick={() => handleAssignEmployee(employee.user_id)}
-                          disabled={isAssigning}
-                        >
-                          {isAssigning ? 'Assigning...' : 'Assign'}
-                        </button>
-                      </div>
-                    ))
+                      );
+                    })
                   )}
                 </div>
               )}
@@ -167,6 +254,12 @@ export default function JobRoleAssignment({
               {success}
             </div>
           )}
+          
+          {warning && (
+            <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-md mb-4">
+              {warning}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,137 @@
+import type { JobShift } from "@/app/actions/job-shifts/types";
+
+interface ShiftFieldsProps {
+  venues: { id: string; name: string }[];
+  shift?: JobShift;
+  // Number of blank role rows to show for adding roles
+  roleRowCount?: number;
+}
+
+// Format dates for the datetime-local input
+const formatDateForInput = (dateString?: string | null) => {
+  if (!dateString) return undefined;
+  return new Date(dateString).toISOString().slice(0, 16); // Format: YYYY-MM-DDTHH:MM
+};
+
+/**
+ * Shared form fields for adding and editing a job shift
+ */
+export default function ShiftFields({ venues, shift, roleRowCount = 3 }: ShiftFieldsProps) {
+  const idPrefix = shift ? `shift-${shift.id}` : "new-shift";
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Shift Name */}
+        <div>
+          <label htmlFor={`${idPrefix}-name`} className="block text-sm font-medium text-gray-700 mb-1">
+            Shift Name *
+          </label>
+          <input
+            type="text"
+            id={`${idPrefix}-name`}
+            name="name"
+            required
+            defaultValue={shift?.name}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            placeholder="e.g., Mehndi, Ceremony, Reception"
+          />
+        </div>
+
+        {/* Venue */}
+        <div>
+          <label htmlFor={`${idPrefix}-venue_id`} className="block text-sm font-medium text-gray-700 mb-1">
+            Venue
+          </label>
+          <select
+            id={`${idPrefix}-venue_id`}
+            name="venue_id"
+            defaultValue={shift?.venue_id || ""}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">Same as job venue</option>
+            {venues.map((venue) => (
+              <option key={venue.id} value={venue.id}>
+                {venue.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Start Time */}
+        <div>
+          <label htmlFor={`${idPrefix}-start_time`} className="block text-sm font-medium text-gray-700 mb-1">
+            Start Date & Time *
+          </label>
+          <input
+            type="datetime-local"
+            id={`${idPrefix}-start_time`}
+            name="start_time"
+            required
+            defaultValue={formatDateForInput(shift?.start_time)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+
+        {/* End Time */}
+        <div>
+          <label htmlFor={`${idPrefix}-end_time`} className="block text-sm font-medium text-gray-700 mb-1">
+            End Date & Time *
+          </label>
+          <input
+            type="datetime-local"
+            id={`${idPrefix}-end_time`}
+            name="end_time"
+            required
+            defaultValue={formatDateForInput(shift?.end_time)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+
+        {/* Call Time */}
+        <div>
+          <label htmlFor={`${idPrefix}-call_time`} className="block text-sm font-medium text-gray-700 mb-1">
+            Call Time
+          </label>
+          <input
+            type="datetime-local"
+            id={`${idPrefix}-call_time`}
+            name="call_time"
+            defaultValue={formatDateForInput(shift?.call_time)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          />
+          <p className="mt-1 text-xs text-gray-500">When crew should arrive, if before the start.</p>
+        </div>
+      </div>
+
+      {/* Required Roles */}
+      <div>
+        <h3 className="block text-sm font-medium text-gray-700 mb-1">
+          {shift ? "Add Roles" : "Required Roles"}
+        </h3>
+        <p className="text-sm text-gray-500 mb-3">Leave a row blank to skip it.</p>
+        <div className="space-y-2">
+          {Array.from({ length: roleRowCount }, (_, index) => (
+            <div key={index} className="grid grid-cols-3 gap-2">
+              <input
+                type="text"
+                name="role_name"
+                aria-label="Role name"
+                className="col-span-2 px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                placeholder="e.g., Lead Photographer"
+              />
+              <input
+                type="number"
+                name="quantity_needed"
+                aria-label="Quantity needed"
+                min={1}
+                defaultValue={1}
+                className="px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    </>
+  );
+}
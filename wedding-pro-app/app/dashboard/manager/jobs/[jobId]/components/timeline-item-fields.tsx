@@ -0,0 +1,111 @@
+import type { JobTimelineItem } from "@/app/actions/job-timeline/types";
+
+interface TimelineItemFieldsProps {
+  // The job's role names, offered as checkboxes
+  roleNames: string[];
+  item?: JobTimelineItem;
+}
+
+// Format dates for the datetime-local input
+const formatDateForInput = (dateString?: string | null) => {
+  if (!dateString) return undefined;
+  return new Date(dateString).toISOString().slice(0, 16); // Format: YYYY-MM-DDTHH:MM
+};
+
+/**
+ * Shared form fields for adding and editing a run-of-show item
+ */
+export default function TimelineItemFields({ roleNames, item }: TimelineItemFieldsProps) {
+  const idPrefix = item ? `timeline-${item.id}` : "new-timeline-item";
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Time */}
+        <div>
+          <label htmlFor={`${idPrefix}-starts_at`} className="block text-sm font-medium text-gray-700 mb-1">
+            Time *
+          </label>
+          <input
+            type="datetime-local"
+            id={`${idPrefix}-starts_at`}
+            name="starts_at"
+            required
+            defaultValue={formatDateForInput(item?.starts_at)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+
+        {/* Title */}
+        <div>
+          <label htmlFor={`${idPrefix}-title`} className="block text-sm font-medium text-gray-700 mb-1">
+            Title *
+          </label>
+          <input
+            type="text"
+            id={`${idPrefix}-title`}
+            name="title"
+            required
+            defaultValue={item?.title}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            placeholder="e.g., First look, Ceremony, Family formals"
+          />
+        </div>
+
+        {/* Location */}
+        <div className="md:col-span-2">
+          <label htmlFor={`${idPrefix}-location`} className="block text-sm font-medium text-gray-700 mb-1">
+            Location
+          </label>
+          <input
+            type="text"
+            id={`${idPrefix}-location`}
+            name="location"
+            defaultValue={item?.location || ""}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            placeholder="e.g., Bridal suite, Garden terrace"
+          />
+        </div>
+      </div>
+
+      {/* Roles */}
+      <div>
+        <h3 className="block text-sm font-medium text-gray-700 mb-1">Roles Involved</h3>
+        <p className="text-sm text-gray-500 mb-2">Leave all unticked if everyone is involved.</p>
+        {roleNames.length > 0 ? (
+          <div className="flex flex-wrap gap-4">
+            {roleNames.map((roleName) => (
+              <label key={roleName} className="inline-flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  name="role_names"
+                  value={roleName}
+                  defaultChecked={item?.role_names.includes(roleName)}
+                  className="mr-2 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                {roleName}
+              </label>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 italic">Add roles to the job's shifts to tag items by role.</p>
+        )}
+      </div>
+
+      {/* Notes */}
+      <div>
+        <label htmlFor={`${idPrefix}-notes`} className="block text-sm font-medium text-gray-700 mb-1">
+          Notes
+        </label>
+        <textarea
+          id={`${idPrefix}-notes`}
+          name="notes"
+          rows={2}
+          defaultValue={item?.notes || ""}
+          className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          placeholder="e.g., Grandparents seated first; no flash during vows"
+        ></textarea>
+      </div>
+    </>
+  );
+}
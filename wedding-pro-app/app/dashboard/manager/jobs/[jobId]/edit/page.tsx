@@ -1,12 +1,24 @@
 import { createClient } from "@/utils/supabase/server";
 import { isManager } from "@/utils/supabase/auth-helpers";
 import { getJobById, updateJob } from "@/app/job-actions";
+import { formatJobStatus, getSelectableJobStatuses } from "@/app/actions/jobs/client-utils";
 import Link from "next/link";
 import { redirect } from "next/navigation";
 import { SubmitButton } from "@/components/submit-button";
+import { FormMessage, Message } from "@/components/form-message";
+import { createJobContact, deleteJobContact, getJobContacts, updateJobContact } from "@/app/actions/job-contacts";
+import { JOB_CONTACT_TYPE_LABELS } from "@/app/actions/job-contacts/client-utils";
+import ContactFields from "../components/contact-fields";
 
-export default async function EditJobPage({ params }: { params: Promise<{ jobId: string }> }) {
+export default async function EditJobPage({
+  params,
+  searchParams
+}: {
+  params: Promise<{ jobId: string }>;
+  searchParams: Promise<Message>;
+}) {
   const { jobId } = await params;
+  const message = await searchParams;
   const supabase = await createClient();
   const { data: { user } } = await supabase.auth.getUser();
   
@@ -49,6 +61,17 @@ export default async function EditJobPage({ params }: { params: Promise<{ jobId:
     .select('id, name')
     .eq('org_id', profile.org_id);
 
+  // Multi-day jobs take their start and end from their shifts
+  const { count: shiftCount } = await supabase
+    .from('job_shifts')
+    .select('id', { count: 'exact', head: true })
+    .eq('job_id', jobId);
+  const isMultiShift = (shiftCount || 0) > 1;
+
+  // Get the client and planner contacts
+  const { data: contactsData } = await getJobContacts(jobId);
+  const contacts = contactsData || [];
+
   // Format dates for the datetime-local input
   const formatDateForInput = (dateString: string) => {
     const date = new Date(dateString);
@@ -67,7 +90,13 @@ export default async function EditJobPage({ params }: { params: Promise<{ jobId:
         <h1 className="text-3xl font-bold">Edit Job</h1>
       </div>
       
-      <div className="bg-white rounded-lg shadow p-6">
+      {Object.keys(message).length > 0 && (
+        <div className="mb-6">
+          <FormMessage message={message} />
+        </div>
+      )}
+      
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
         <form action={(formData) => updateJob(jobId, formData)} className="space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             {/* Job Title */}
@@ -122,8 +151,9 @@ export default async function EditJobPage({ params }: { params: Promise<{ jobId:
                 id="start_time"
                 name="start_time"
                 required
+                readOnly={isMultiShift}
                 defaultValue={formatDateForInput(job.start_time)}
-                className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 read-only:bg-gray-50"
               />
             </div>
             
@@ -137,9 +167,15 @@ export default async function EditJobPage({ params }: { params: Promise<{ jobId:
                 id="end_time"
                 name="end_time"
                 required
+                readOnly={isMultiShift}
                 defaultValue={formatDateForInput(job.end_time)}
-                className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 read-only:bg-gray-50"
               />
+              {isMultiShift && (
+                <p className="mt-1 text-sm text-gray-500">
+                  This job has {shiftCount} shifts. Change times on the job page, per shift.
+                </p>
+              )}
             </div>
             
             {/* Status */}
@@ -154,14 +190,28 @@ export default async function EditJobPage({ params }: { params: Promise<{ jobId:
                 defaultValue={job.status}
                 className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
               >
-                <option value="draft">Draft</option>
-                <option value="available">Available</option>
-                <option value="upcoming">Upcoming</option>
-                <option value="completed">Completed</option>
-                <option value="cancelled">Cancelled</option>
+                {getSelectableJobStatuses(job.status).map((status) => (
+                  <option key={status} value={status}>
+                    {formatJobStatus(status)}
+                  </option>
+                ))}
               </select>
             </div>
             
+            {/* Status Reason */}
+            <div>
+              <label htmlFor="status_reason" className="block text-sm font-medium text-gray-700 mb-1">
+                Reason for Status Change
+              </label>
+              <input
+                type="text"
+                id="status_reason"
+                name="status_reason"
+                className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Optional, shown in the job's history"
+              />
+            </div>
+            
             {/* Travel Pay */}
             <div className="flex items-center">
               <div className="flex items-start mt-5">
@@ -217,6 +267,73 @@ export default async function EditJobPage({ params }: { params: Promise<{ jobId:
           </div>
         </form>
       </div>
+      
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-semibold mb-1">Contacts</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          The couple and their planner. Managers see all details; assigned staff only see names and
+          phone numbers from the day before the job until it wraps.
+        </p>
+        
+        {contacts.length > 0 && (
+          <div className="border-t border-gray-200 divide-y divide-gray-200">
+            {contacts.map((contact) => (
+              <div key={contact.id} className="py-4">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="font-medium text-gray-900">
+                      {contact.name}
+                      <span className="ml-2 text-sm font-normal text-gray-500">
+                        {JOB_CONTACT_TYPE_LABELS[contact.contact_type]}
+                        {contact.source === 'honeybook' && ' · Synced from HoneyBook'}
+                      </span>
+                    </h3>
+                    {contact.phone && <p className="text-sm text-gray-600">{contact.phone}</p>}
+                    {contact.email && <p className="text-sm text-gray-600">{contact.email}</p>}
+                    {contact.notes && <p className="text-sm text-gray-600">{contact.notes}</p>}
+                  </div>
+                  <form action={deleteJobContact}>
+                    <input type="hidden" name="jobId" value={jobId} />
+                    <input type="hidden" name="contactId" value={contact.id} />
+                    <button type="submit" className="text-red-600 hover:text-red-900 text-sm">
+                      Delete
+                    </button>
+                  </form>
+                </div>
+                
+                <details className="mt-2">
+                  <summary className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+                    Edit contact
+                  </summary>
+                  {contact.source === 'honeybook' && (
+                    <p className="mt-2 text-xs text-gray-500">
+                      Changes are replaced the next time HoneyBook updates this project.
+                    </p>
+                  )}
+                  <form action={updateJobContact.bind(null, jobId, contact.id)} className="space-y-4 mt-4">
+                    <ContactFields contact={contact} />
+                    <div className="flex justify-end">
+                      <SubmitButton>Save Contact</SubmitButton>
+                    </div>
+                  </form>
+                </details>
+              </div>
+            ))}
+          </div>
+        )}
+        
+        <details className={contacts.length > 0 ? "border-t border-gray-200 pt-4" : ""}>
+          <summary className="text-sm font-medium text-blue-600 hover:text-blue-800 cursor-pointer">
+            Add a contact
+          </summary>
+          <form action={createJobContact.bind(null, jobId)} className="space-y-4 mt-4">
+            <ContactFields />
+            <div className="flex justify-end">
+              <SubmitButton>Add Contact</SubmitButton>
+            </div>
+          </form>
+        </details>
+      </div>
     </div>
   );
 }
\ No newline at end of file
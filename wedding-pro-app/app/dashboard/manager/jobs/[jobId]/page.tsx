@@ -1,12 +1,75 @@
 import { createClient } from "@/utils/supabase/server";
 import { isManager } from "@/utils/supabase/auth-helpers";
 import { getJobById, deleteJob, markJobAsComplete } from "@/app/job-actions";
+import { cancelJob, changeJobStatus, getCancellationPolicy, getJobRevisions, getJobStatusHistory } from "@/app/actions/jobs";
+import {
+  calculateCancellationFee,
+  canTransitionJobStatus,
+  formatJobStatus,
+  JOB_STATUS_TRANSITIONS
+} from "@/app/actions/jobs/client-utils";
+import { createJobShift, deleteJobShift, getShiftsForJob, updateJobShift } from "@/app/actions/job-shifts";
 import { formatInterval } from "@/utils/format-helpers";
+import { getJobTimesheets } from "@/app/actions/timesheets";
+import { getOnTimeCompletion, getPayableHours } from "@/app/actions/timesheets/client-utils";
 import Link from "next/link";
 import { redirect } from "next/navigation";
+import { SubmitButton } from "@/components/submit-button";
+import ShiftFields from "./components/shift-fields";
+import CompensationFields from "./components/compensation-fields";
+import { updateRoleCompensation } from "@/app/actions/role-compensation";
+import {
+  calculateExpectedEarnings,
+  calculateLaborCost,
+  describeCompensation,
+  getShiftHours
+} from "@/app/actions/role-compensation/client-utils";
+import TimelineItemFields from "./components/timeline-item-fields";
+import { createTimelineItem, deleteTimelineItem, getTimelineForJob, updateTimelineItem } from "@/app/actions/job-timeline";
+import { getJobContacts } from "@/app/actions/job-contacts";
+import { JOB_CONTACT_TYPE_LABELS } from "@/app/actions/job-contacts/client-utils";
+import {
+  deleteJobAttachment,
+  getJobAttachments,
+  updateJobAttachment,
+  uploadAttachmentVersion,
+  uploadJobAttachment
+} from "@/app/actions/job-attachments";
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  JOB_ATTACHMENT_CATEGORY_LABELS,
+  JOB_ATTACHMENT_VISIBILITY_LABELS
+} from "@/app/actions/job-attachments/client-utils";
+import AttachmentFields from "./components/attachment-fields";
+import { AttachmentPreview } from "@/components/job-attachments/attachment-preview";
+import { FormMessage, Message } from "@/components/form-message";
+import {
+  addJobChecklistItem,
+  applyChecklistTemplate,
+  deleteJobChecklistItem,
+  getChecklistTemplates,
+  getJobChecklists
+} from "@/app/actions/role-checklists";
+import { getChecklistProgress, matchesRoleName } from "@/app/actions/role-checklists/client-utils";
+import {
+  addStandbyCandidate,
+  getJobStandby,
+  moveStandbyCandidate,
+  removeStandbyCandidate
+} from "@/app/actions/standby";
+import { describeOfferDeadline, STANDBY_EVENT_LABELS } from "@/app/actions/standby/client-utils";
+import { getJobAssignmentRoster, withdrawAssignmentOffer } from "@/app/actions/assignment-offers";
+import { ASSIGNMENT_OFFER_STATUS_LABELS } from "@/app/actions/assignment-offers/client-utils";
 
-export default async function JobDetailPage({ params }: { params: Promise<{ jobId: string }> }) {
+export default async function JobDetailPage({
+  params,
+  searchParams
+}: {
+  params: Promise<{ jobId: string }>;
+  searchParams: Promise<Message>;
+}) {
   const { jobId } = await params;
+  const message = await searchParams;
   const supabase = await createClient();
   const { data: { user } } = await supabase.auth.getUser();
   
@@ -27,6 +90,91 @@ export default async function JobDetailPage({ params }: { params: Promise<{ jobI
     redirect("/dashboard/manager/jobs");
   }
   
+  // Get the job's shifts and the venues they can use
+  const { data: shiftsData } = await getShiftsForJob(jobId);
+  const shifts = shiftsData || [];
+  
+  // Expected cost of staffing every role at its pay rule
+  const laborCost = calculateLaborCost(
+    shifts.flatMap(shift => shift.job_required_roles.map(role => ({
+      ...role,
+      hours: getShiftHours(shift.start_time, shift.end_time)
+    })))
+  );
+  
+  // Get the approved hours and how many staff arrived on time and stayed to the end
+  const { data: timesheetsData } = job.status === 'completed' ? await getJobTimesheets(jobId) : { data: [] };
+  const timesheets = timesheetsData || [];
+  const onTimeCompletion = getOnTimeCompletion(
+    timesheets.map(timesheet => ({ timesheet, scheduled: timesheet.scheduled }))
+  );
+  const approvedHours = timesheets.reduce((total, timesheet) => total + (getPayableHours(timesheet) || 0), 0);
+  const awaitingApproval = timesheets.filter(timesheet => timesheet.status === 'submitted').length;
+  
+  // Get the client and planner contacts
+  const { data: contactsData } = await getJobContacts(jobId);
+  const contacts = contactsData || [];
+  
+  // Get the run-of-show and the role names its items can be tagged with
+  const { data: timelineData } = await getTimelineForJob(jobId);
+  const timelineItems = timelineData || [];
+  const roleNames = Array.from(new Set<string>(
+    shifts.flatMap(shift => shift.job_required_roles.map(role => role.role_name))
+  ));
+  
+  // Get the attached documents with their version history
+  const { data: attachmentsData } = await getJobAttachments(jobId);
+  const attachments = attachmentsData || [];
+  
+  // Get each role's checklist, and the org checklists that could be added to roles without one
+  const { data: checklistsData } = await getJobChecklists(jobId);
+  const checklists = checklistsData || [];
+  const { data: checklistTemplates } = await getChecklistTemplates();
+  
+  const { data: venues } = await supabase
+    .from('venues')
+    .select('id, name')
+    .eq('org_id', job.org_id);
+  
+  // Get each role's standby list, open offers and standby log, and the employees who could go on it
+  const { data: standby } = await getJobStandby(jobId);
+  const { data: employees } = await supabase
+    .from('profiles')
+    .select('id, full_name')
+    .eq('org_id', job.org_id)
+    .eq('role', 'Employee')
+    .order('full_name', { ascending: true });
+  const standbyRoles = shifts.flatMap(shift => shift.job_required_roles.map(role => ({
+    ...role,
+    shift_name: shifts.length > 1 ? shift.name : null
+  })));
+  const standbyRoleNames = new Map<string, string>(
+    standbyRoles.map(role => [role.id, role.shift_name ? `${role.role_name} (${role.shift_name})` : role.role_name])
+  );
+  
+  // Get who's confirmed for each role and who still has to answer an offer
+  const { data: roster } = await getJobAssignmentRoster(jobId);
+  const rosterHasPeople = (roster?.roles || []).some(role => role.confirmed.length > 0 || role.pending.length > 0);
+  
+  // Get the job's status history and where it can move next
+  const { data: statusHistory } = await getJobStatusHistory(jobId);
+  // Get what each edit of the job changed
+  const { data: revisions } = await getJobRevisions(jobId);
+  // Cancelling has its own form below
+  const nextStatuses = (JOB_STATUS_TRANSITIONS[job.status] || []).filter(status => status !== 'cancelled');
+  
+  // Work out what cancelling now would cost under the org's policy
+  const canCancel = canTransitionJobStatus(job.status, 'cancelled');
+  const cancellationPolicy = canCancel ? await getCancellationPolicy(supabase, job.org_id) : null;
+  const cancellationFee = cancellationPolicy ? calculateCancellationFee(job.start_time, cancellationPolicy) : null;
+  const { count: assignedStaffCount } = canCancel
+    ? await supabase
+        .from('job_assignments')
+        .select('id', { count: 'exact', head: true })
+        .eq('job_id', jobId)
+        .neq('status', 'declined')
+    : { count: 0 };
+  
   // Format dates for display
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -62,6 +210,12 @@ export default async function JobDetailPage({ params }: { params: Promise<{ jobI
         <h1 className="text-3xl font-bold">{job.title}</h1>
       </div>
       
+      {Object.keys(message).length > 0 && (
+        <div className="mb-6">
+          <FormMessage message={message} />
+        </div>
+      )}
+      
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <div className="lg:col-span-2">
           <div className="bg-white rounded-lg shadow p-6 mb-6">
@@ -75,9 +229,11 @@ export default async function JobDetailPage({ params }: { params: Promise<{ jobI
                     ? 'bg-gray-100 text-gray-800'
                     : job.status === 'cancelled'
                     ? 'bg-red-100 text-red-800'
+                    : job.status === 'in_progress'
+                    ? 'bg-purple-100 text-purple-800'
                     : 'bg-yellow-100 text-yellow-800'
                 }`}>
-                  {job.status.charAt(0).toUpperCase() + job.status.slice(1)}
+                  {formatJobStatus(job.status)}
                 </span>
               </div>
               <div className="flex space-x-2">
@@ -88,7 +244,7 @@ export default async function JobDetailPage({ params }: { params: Promise<{ jobI
                   Edit Job
                 </Link>
                 {/* Show Mark as Complete button for jobs with appropriate status */}
-                {(job.status === 'available' || job.status === 'pending' || job.status === 'assigned') && (
+                {canTransitionJobStatus(job.status, 'completed') && (
                   <form action={async () => {
                     'use server';
                     const result = await markJobAsComplete(jobId);
@@ -120,13 +276,18 @@ export default async function JobDetailPage({ params }: { params: Promise<{ jobI
               <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-6">
                 <div>
                   <dt className="text-sm font-medium text-gray-500">Date</dt>
-                  <dd className="mt-1 text-sm text-gray-900">{formatDate(job.start_time)}</dd>
+                  <dd className="mt-1 text-sm text-gray-900">
+                    {formatDate(job.start_time)}
+                    {shifts.length > 1 && <> &ndash; {formatDate(job.end_time)}</>}
+                  </dd>
                 </div>
                 
                 <div>
                   <dt className="text-sm font-medium text-gray-500">Time</dt>
                   <dd className="mt-1 text-sm text-gray-900">
-                    {formatTime(job.start_time)} - {formatTime(job.end_time)} ({durationFormatted} hours)
+                    {shifts.length > 1
+                      ? `${shifts.length} shifts (see below)`
+                      : `${formatTime(job.start_time)} - ${formatTime(job.end_time)} (${durationFormatted} hours)`}
                   </dd>
                 </div>
                 
@@ -158,6 +319,18 @@ export default async function JobDetailPage({ params }: { params: Promise<{ jobI
                   </dd>
                 </div>
                 
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Expected Labor Cost</dt>
+                  <dd className="mt-1 text-sm text-gray-900">
+                    <div className="font-medium">${laborCost.total.toFixed(2)}</div>
+                    {laborCost.unpricedRoles > 0 && (
+                      <div className="text-xs text-yellow-700">
+                        {laborCost.unpricedRoles} {laborCost.unpricedRoles === 1 ? 'role has' : 'roles have'} no pay set
+                      </div>
+                    )}
+                  </dd>
+                </div>
+                
                 <div className="md:col-span-2">
                   <dt className="text-sm font-medium text-gray-500">Description</dt>
                   <dd className="mt-1 text-sm text-gray-900 whitespace-pre-line">
@@ -165,6 +338,31 @@ export default async function JobDetailPage({ params }: { params: Promise<{ jobI
                   </dd>
                 </div>
                 
+                <div className="md:col-span-2">
+                  <dt className="text-sm font-medium text-gray-500">
+                    Contacts
+                    <Link href={`/dashboard/manager/jobs/${jobId}/edit`} className="ml-2 text-blue-600 hover:text-blue-800 font-normal">
+                      Edit
+                    </Link>
+                  </dt>
+                  <dd className="mt-1 text-sm text-gray-900">
+                    {contacts.length > 0 ? (
+                      <ul className="space-y-1">
+                        {contacts.map((contact) => (
+                          <li key={contact.id}>
+                            <span className="font-medium">{contact.name}</span>
+                            <span className="text-gray-500"> ({JOB_CONTACT_TYPE_LABELS[contact.contact_type]})</span>
+                            {contact.phone && <> &middot; {contact.phone}</>}
+                            {contact.email && <> &middot; {contact.email}</>}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <span className="text-gray-500 italic">No contacts</span>
+                    )}
+                  </dd>
+                </div>
+                
                 {/* Display analytics metrics if job is completed */}
                 {job.status === 'completed' && (
                   <>
@@ -179,7 +377,7 @@ export default async function JobDetailPage({ params }: { params: Promise<{ jobI
                             </span>
                           </div>
                           <div>
-                            <span className="block text-xs text-gray-500">First Assigned At</span>
+                            <span className="block text-xs text-gray-500">First Fully Staffed At</span>
                             <span className="font-medium">
                               {job.first_assigned_at ? new Date(job.first_assigned_at).toLocaleString() : 'N/A'}
                             </span>
@@ -196,6 +394,25 @@ export default async function JobDetailPage({ params }: { params: Promise<{ jobI
                               {formatInterval(job.assignment_to_completion_duration ?? null)}
                             </span>
                           </div>
+                          <div>
+                            <span className="block text-xs text-gray-500">On-time Completion</span>
+                            <span className="font-medium">
+                              {onTimeCompletion.percent === null
+                                ? 'N/A'
+                                : `${onTimeCompletion.percent}% (${onTimeCompletion.onTime} of ${onTimeCompletion.total})`}
+                            </span>
+                          </div>
+                          <div>
+                            <span className="block text-xs text-gray-500">Approved Hours</span>
+                            <span className="font-medium">
+                              {Math.round(approvedHours * 100) / 100}
+                              {awaitingApproval > 0 && (
+                                <Link href="/dashboard/manager/timesheets" className="ml-2 font-normal text-blue-600 hover:text-blue-800">
+                                  {awaitingApproval} awaiting approval
+                                </Link>
+                              )}
+                            </span>
+                          </div>
                         </div>
                       </dd>
                     </div>
@@ -204,24 +421,726 @@ export default async function JobDetailPage({ params }: { params: Promise<{ jobI
               </dl>
             </div>
           </div>
+          
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <h2 className="text-xl font-semibold mb-1">Shifts</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Each shift has its own time, venue and crew. Add one per day or segment of a multi-day event.
+            </p>
+            
+            <div className="border-t border-gray-200 divide-y divide-gray-200">
+              {shifts.map((shift) => (
+                <div key={shift.id} className="py-4">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <h3 className="font-medium text-gray-900">{shift.name}</h3>
+                      <p className="text-sm text-gray-600">
+                        {formatDate(shift.start_time)}, {formatTime(shift.start_time)} - {formatTime(shift.end_time)}
+                      </p>
+                      {shift.call_time && (
+                        <p className="text-sm text-gray-600">Call time: {formatTime(shift.call_time)}</p>
+                      )}
+                      <p className="text-sm text-gray-600">
+                        Venue: {shift.venue?.name || job.venue?.name || 'Not set'}
+                      </p>
+                      {shift.job_required_roles.length === 0 && (
+                        <p className="text-sm text-gray-600">Roles: None</p>
+                      )}
+                    </div>
+                    {shifts.length > 1 && (
+                      <form action={deleteJobShift}>
+                        <input type="hidden" name="jobId" value={jobId} />
+                        <input type="hidden" name="shiftId" value={shift.id} />
+                        <button type="submit" className="text-red-600 hover:text-red-900 text-sm">
+                          Delete
+                        </button>
+                      </form>
+                    )}
+                  </div>
+                  
+                  {shift.job_required_roles.length > 0 && (
+                    <ul className="mt-2 space-y-2">
+                      {shift.job_required_roles.map((role) => {
+                        const earnings = calculateExpectedEarnings(role, getShiftHours(shift.start_time, shift.end_time));
+                        return (
+                          <li key={role.id} className="text-sm">
+                            <span className="text-gray-900">{role.quantity_needed} × {role.role_name}</span>
+                            <span className={role.pay_rate === null ? "text-yellow-700" : "text-gray-600"}>
+                              {' '}&middot; {describeCompensation(role)}
+                            </span>
+                            {earnings && (
+                              <span className="text-green-600 font-medium"> &middot; ${earnings.total.toFixed(2)} each</span>
+                            )}
+                            <details className="mt-1">
+                              <summary className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+                                Set pay
+                              </summary>
+                              <form action={updateRoleCompensation.bind(null, jobId, role.id)} className="space-y-4 mt-2">
+                                <CompensationFields roleId={role.id} compensation={role} />
+                                <div className="flex justify-end">
+                                  <SubmitButton>Save Pay</SubmitButton>
+                                </div>
+                              </form>
+                            </details>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                  
+                  <details className="mt-2">
+                    <summary className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+                      Edit shift
+                    </summary>
+                    <form action={updateJobShift.bind(null, jobId, shift.id)} className="space-y-4 mt-4">
+                      <ShiftFields venues={venues || []} shift={shift} roleRowCount={2} />
+                      <div className="flex justify-end">
+                        <SubmitButton>Save Shift</SubmitButton>
+                      </div>
+                    </form>
+                  </details>
+                </div>
+              ))}
+            </div>
+            
+            <details className="border-t border-gray-200 pt-4">
+              <summary className="text-sm font-medium text-blue-600 hover:text-blue-800 cursor-pointer">
+                Add a shift
+              </summary>
+              <form action={createJobShift.bind(null, jobId)} className="space-y-4 mt-4">
+                <ShiftFields venues={venues || []} />
+                <div className="flex justify-end">
+                  <SubmitButton>Add Shift</SubmitButton>
+                </div>
+              </form>
+            </details>
+          </div>
+          
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <h2 className="text-xl font-semibold mb-1">Run of Show</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              The day&apos;s timeline. Assigned staff see it with their schedule and in their reminders.
+            </p>
+            
+            {timelineItems.length > 0 ? (
+              <div className="border-t border-gray-200 divide-y divide-gray-200">
+                {timelineItems.map((item) => (
+                  <div key={item.id} className="py-4">
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <h3 className="font-medium text-gray-900">
+                          <span className="text-gray-600 mr-2">{formatTime(item.starts_at)}</span>
+                          {item.title}
+                        </h3>
+                        {shifts.length > 1 && (
+                          <p className="text-sm text-gray-600">{formatDate(item.starts_at)}</p>
+                        )}
+                        {item.location && (
+                          <p className="text-sm text-gray-600">Location: {item.location}</p>
+                        )}
+                        <p className="text-sm text-gray-600">
+                          Roles: {item.role_names.length > 0 ? item.role_names.join(', ') : 'Everyone'}
+                        </p>
+                        {item.notes && (
+                          <p className="text-sm text-gray-600 whitespace-pre-line">{item.notes}</p>
+                        )}
+                      </div>
+                      <form action={deleteTimelineItem}>
+                        <input type="hidden" name="jobId" value={jobId} />
+                        <input type="hidden" name="itemId" value={item.id} />
+                        <button type="submit" className="text-red-600 hover:text-red-900 text-sm">
+                          Delete
+                        </button>
+                      </form>
+                    </div>
+                    
+                    <details className="mt-2">
+                      <summary className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+                        Edit item
+                      </summary>
+                      <form action={updateTimelineItem.bind(null, jobId, item.id)} className="space-y-4 mt-4">
+                        <TimelineItemFields roleNames={roleNames} item={item} />
+                        <div className="flex justify-end">
+                          <SubmitButton>Save Item</SubmitButton>
+                        </div>
+                      </form>
+                    </details>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 italic mb-4">No timeline items yet.</p>
+            )}
+            
+            <details className="border-t border-gray-200 pt-4">
+              <summary className="text-sm font-medium text-blue-600 hover:text-blue-800 cursor-pointer">
+                Add a timeline item
+              </summary>
+              <form action={createTimelineItem.bind(null, jobId)} className="space-y-4 mt-4">
+                <TimelineItemFields roleNames={roleNames} />
+                <div className="flex justify-end">
+                  <SubmitButton>Add Item</SubmitButton>
+                </div>
+              </form>
+            </details>
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <h2 className="text-xl font-semibold mb-1">Attachments</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Contracts, shot lists, floor plans and vendor COIs. Files shared with crew show on assigned
+              staff&apos;s day sheet.
+            </p>
+
+            {attachments.length > 0 ? (
+              <div className="border-t border-gray-200 divide-y divide-gray-200">
+                {attachments.map((attachment) => {
+                  const [currentVersion, ...olderVersions] = attachment.versions;
+
+                  return (
+                    <div key={attachment.id} className="py-4">
+                      <div className="flex justify-between items-start">
+                        <div>
+                          <h3 className="font-medium text-gray-900">
+                            {attachment.title}
+                            <span className="ml-2 text-sm font-normal text-gray-500">
+                              {JOB_ATTACHMENT_CATEGORY_LABELS[attachment.category]}
+                              {' · '}
+                              {JOB_ATTACHMENT_VISIBILITY_LABELS[attachment.visibility]}
+                              {attachment.current_version > 1 && ` · Version ${attachment.current_version}`}
+                            </span>
+                          </h3>
+                          {currentVersion && (
+                            <AttachmentPreview version={currentVersion} title={attachment.title} />
+                          )}
+                        </div>
+                        <form action={deleteJobAttachment}>
+                          <input type="hidden" name="jobId" value={jobId} />
+                          <input type="hidden" name="attachmentId" value={attachment.id} />
+                          <button type="submit" className="text-red-600 hover:text-red-900 text-sm">
+                            Delete
+                          </button>
+                        </form>
+                      </div>
+
+                      {olderVersions.length > 0 && (
+                        <details className="mt-2">
+                          <summary className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+                            Earlier versions ({olderVersions.length})
+                          </summary>
+                          <ul className="mt-2 space-y-1">
+                            {olderVersions.map((version) => (
+                              <li key={version.id} className="text-sm text-gray-600">
+                                <span className="mr-2">v{version.version}</span>
+                                {version.signed_url ? (
+                                  <a
+                                    href={version.signed_url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-blue-600 hover:text-blue-800"
+                                  >
+                                    {version.file_name}
+                                  </a>
+                                ) : (
+                                  version.file_name
+                                )}
+                                <span className="ml-2 text-gray-500">{formatDate(version.created_at)}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </details>
+                      )}
+
+                      <details className="mt-2">
+                        <summary className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+                          Upload a new version
+                        </summary>
+                        <form action={uploadAttachmentVersion.bind(null, jobId, attachment.id)} className="flex items-center gap-3 mt-4">
+                          <input
+                            type="file"
+                            name="file"
+                            required
+                            accept={ALLOWED_ATTACHMENT_TYPES.join(',')}
+                            className="text-sm"
+                          />
+                          <SubmitButton>Upload</SubmitButton>
+                        </form>
+                      </details>
+
+                      <details className="mt-2">
+                        <summary className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+                          Edit details
+                        </summary>
+                        <form action={updateJobAttachment.bind(null, jobId, attachment.id)} className="space-y-4 mt-4">
+                          <AttachmentFields attachment={attachment} />
+                          <div className="flex justify-end">
+                            <SubmitButton>Save Attachment</SubmitButton>
+                          </div>
+                        </form>
+                      </details>
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 italic mb-4">No attachments yet.</p>
+            )}
+
+            <details className="border-t border-gray-200 pt-4">
+              <summary className="text-sm font-medium text-blue-600 hover:text-blue-800 cursor-pointer">
+                Attach a file
+              </summary>
+              <form action={uploadJobAttachment.bind(null, jobId)} className="space-y-4 mt-4">
+                <div>
+                  <label htmlFor="new-attachment-file" className="block text-sm font-medium text-gray-700 mb-1">
+                    File * <span className="font-normal text-gray-500">(PDF, image, Word, Excel or text, up to 25 MB)</span>
+                  </label>
+                  <input
+                    type="file"
+                    id="new-attachment-file"
+                    name="file"
+                    required
+                    accept={ALLOWED_ATTACHMENT_TYPES.join(',')}
+                    className="text-sm"
+                  />
+                </div>
+                <AttachmentFields />
+                <div className="flex justify-end">
+                  <SubmitButton>Attach File</SubmitButton>
+                </div>
+              </form>
+            </details>
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <div className="flex justify-between items-start mb-1">
+              <h2 className="text-xl font-semibold">Checklists</h2>
+              <Link href="/dashboard/manager/jobs/checklists" className="text-sm text-blue-600 hover:text-blue-800">
+                Manage role checklists
+              </Link>
+            </div>
+            <p className="text-sm text-gray-500 mb-4">
+              Must-have shots and deliverables for each role, ticked off by the staff assigned to it.
+            </p>
+
+            {checklists.length > 0 ? (
+              <div className="border-t border-gray-200 divide-y divide-gray-200">
+                {checklists.map((checklist) => {
+                  const progress = getChecklistProgress(checklist.items);
+                  const hasTemplate = (checklistTemplates || []).some(template =>
+                    matchesRoleName(template.role_name, checklist.role_name)
+                  );
+
+                  return (
+                    <div key={checklist.job_required_role_id} className="py-4">
+                      <div className="flex justify-between items-center">
+                        <h3 className="font-medium text-gray-900">{checklist.role_name}</h3>
+                        {progress.total > 0 && (
+                          <span className={`text-sm ${progress.completed === progress.total ? 'text-green-600 font-medium' : 'text-gray-500'}`}>
+                            {progress.completed} of {progress.total} done
+                          </span>
+                        )}
+                      </div>
+
+                      {progress.total > 0 && (
+                        <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
+                          <div className="bg-green-500 h-2 rounded-full" style={{ width: `${progress.percent}%` }}></div>
+                        </div>
+                      )}
+
+                      {checklist.items.length > 0 ? (
+                        <ul className="mt-3 space-y-1">
+                          {checklist.items.map((item) => (
+                            <li key={item.id} className="flex justify-between items-start text-sm">
+                              <div>
+                                <span className={item.completed_at ? 'text-green-600 mr-2' : 'text-gray-400 mr-2'}>
+                                  {item.completed_at ? '✓' : '○'}
+                                </span>
+                                <span className={item.completed_at ? 'text-gray-900' : 'text-gray-600'}>{item.label}</span>
+                                {item.completed_at && (
+                                  <span className="ml-2 text-xs text-gray-500">
+                                    {item.completed_by?.full_name || 'Staff'}, {formatDate(item.completed_at)} {formatTime(item.completed_at)}
+                                  </span>
+                                )}
+                              </div>
+                              <form action={deleteJobChecklistItem}>
+                                <input type="hidden" name="jobId" value={jobId} />
+                                <input type="hidden" name="itemId" value={item.id} />
+                                <button type="submit" className="text-red-600 hover:text-red-900 text-xs">
+                                  Remove
+                                </button>
+                              </form>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : hasTemplate ? (
+                        <form action={applyChecklistTemplate} className="mt-2">
+                          <input type="hidden" name="jobId" value={jobId} />
+                          <input type="hidden" name="jobRequiredRoleId" value={checklist.job_required_role_id} />
+                          <button type="submit" className="text-sm text-blue-600 hover:text-blue-800">
+                            Add the {checklist.role_name} checklist
+                          </button>
+                        </form>
+                      ) : (
+                        <p className="mt-2 text-sm text-gray-500 italic">No checklist for this role.</p>
+                      )}
+
+                      <details className="mt-2">
+                        <summary className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+                          Add an item
+                        </summary>
+                        <form action={addJobChecklistItem.bind(null, jobId, checklist.job_required_role_id)} className="flex items-center gap-3 mt-2">
+                          <input
+                            type="text"
+                            name="label"
+                            required
+                            className="flex-1 px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                            placeholder="e.g., Grandparents with the couple"
+                          />
+                          <SubmitButton>Add</SubmitButton>
+                        </form>
+                      </details>
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 italic">Add roles to the job&apos;s shifts to give them checklists.</p>
+            )}
+          </div>
+          
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <h2 className="text-xl font-semibold mb-1">Standby</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Backup staff for each role, in order. When someone drops a slot it&apos;s offered to the top standby,
+              then the next if they decline or don&apos;t answer in time.
+            </p>
+
+            {standbyRoles.length > 0 ? (
+              <>
+                <div className="border-t border-gray-200 divide-y divide-gray-200">
+                  {standbyRoles.map((role) => {
+                    const entries = (standby?.entries || []).filter(entry => entry.job_required_role_id === role.id);
+                    const openOffers = (standby?.offers || []).filter(offer =>
+                      offer.job_required_role_id === role.id && offer.status === 'offered'
+                    );
+
+                    return (
+                      <div key={role.id} className="py-4">
+                        <h3 className="font-medium text-gray-900">{standbyRoleNames.get(role.id)}</h3>
+
+                        {openOffers.map((offer) => (
+                          <p key={offer.id} className="mt-1 text-sm text-amber-700">
+                            Offered to {offer.profile?.full_name || 'Unknown'} &middot; {describeOfferDeadline(offer.expires_at)}
+                          </p>
+                        ))}
+
+                        {entries.length > 0 ? (
+                          <ol className="mt-2 space-y-1">
+                            {entries.map((entry, index) => (
+                              <li key={entry.id} className="flex justify-between items-center text-sm">
+                                <span className="text-gray-900">
+                                  {entry.rank}. {entry.profile?.full_name || 'Unknown'}
+                                </span>
+                                <div className="flex items-center gap-3">
+                                  {index > 0 && (
+                                    <form action={moveStandbyCandidate}>
+                                      <input type="hidden" name="jobId" value={jobId} />
+                                      <input type="hidden" name="entryId" value={entry.id} />
+                                      <input type="hidden" name="direction" value="up" />
+                                      <button type="submit" className="text-blue-600 hover:text-blue-800 text-xs">Up</button>
+                                    </form>
+                                  )}
+                                  {index < entries.length - 1 && (
+                                    <form action={moveStandbyCandidate}>
+                                      <input type="hidden" name="jobId" value={jobId} />
+                                      <input type="hidden" name="entryId" value={entry.id} />
+                                      <input type="hidden" name="direction" value="down" />
+                                      <button type="submit" className="text-blue-600 hover:text-blue-800 text-xs">Down</button>
+                                    </form>
+                                  )}
+                                  <form action={removeStandbyCandidate}>
+                                    <input type="hidden" name="jobId" value={jobId} />
+                                    <input type="hidden" name="entryId" value={entry.id} />
+                                    <button type="submit" className="text-red-600 hover:text-red-900 text-xs">Remove</button>
+                                  </form>
+                                </div>
+                              </li>
+                            ))}
+                          </ol>
+                        ) : (
+                          <p className="mt-1 text-sm text-gray-500 italic">Nobody on standby.</p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <form action={addStandbyCandidate.bind(null, jobId)} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end mt-4">
+                  <div>
+                    <label htmlFor="standby-role" className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+                    <select
+                      id="standby-role"
+                      name="job_required_role_id"
+                      required
+                      className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      {standbyRoles.map((role) => (
+                        <option key={role.id} value={role.id}>{standbyRoleNames.get(role.id)}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="standby-employee" className="block text-sm font-medium text-gray-700 mb-1">Employee</label>
+                    <select
+                      id="standby-employee"
+                      name="user_id"
+                      required
+                      className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="">Select an employee</option>
+                      {(employees || []).map((employee) => (
+                        <option key={employee.id} value={employee.id}>{employee.full_name || 'Unnamed employee'}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <SubmitButton pendingText="Adding...">Add to Standby</SubmitButton>
+                </form>
+
+                {(standby?.events || []).length > 0 && (
+                  <details className="mt-4">
+                    <summary className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+                      Standby log ({standby!.events.length})
+                    </summary>
+                    <ul className="mt-2 space-y-1">
+                      {standby!.events.map((event) => (
+                        <li key={event.id} className="text-sm">
+                          <span className="text-gray-500">{new Date(event.created_at).toLocaleString()}</span>
+                          {' '}&middot; {standbyRoleNames.get(event.job_required_role_id) || 'Role'}:
+                          {' '}{STANDBY_EVENT_LABELS[event.event_type]}
+                          {event.profile?.full_name && <> &ndash; {event.profile.full_name}</>}
+                          {event.details && <span className="text-gray-600"> ({event.details})</span>}
+                          {event.actor?.full_name && event.actor_user_id !== event.user_id && (
+                            <span className="text-gray-500"> by {event.actor.full_name}</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-gray-500 italic">Add roles to the job&apos;s shifts to give them standby lists.</p>
+            )}
+          </div>
         </div>
         
         <div className="lg:col-span-1">
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <h2 className="text-xl font-semibold mb-4">Status</h2>
+            {nextStatuses.length > 0 ? (
+              <form action={changeJobStatus.bind(null, jobId)} className="space-y-4">
+                <div>
+                  <label htmlFor="status" className="block text-sm font-medium text-gray-700 mb-1">
+                    Move to
+                  </label>
+                  <select
+                    id="status"
+                    name="status"
+                    required
+                    className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {nextStatuses.map((status) => (
+                      <option key={status} value={status}>
+                        {formatJobStatus(status)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="reason" className="block text-sm font-medium text-gray-700 mb-1">
+                    Reason
+                  </label>
+                  <textarea
+                    id="reason"
+                    name="reason"
+                    rows={2}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Optional, shown in the job's history"
+                  ></textarea>
+                </div>
+                <SubmitButton className="w-full">Change Status</SubmitButton>
+              </form>
+            ) : canCancel ? (
+              <p className="text-sm text-gray-500">
+                This job can only be cancelled from here.
+              </p>
+            ) : (
+              <p className="text-sm text-gray-500">
+                This job is {formatJobStatus(job.status).toLowerCase()} and can no longer change status.
+              </p>
+            )}
+            
+            {job.status === 'cancelled' && (
+              <dl className="mt-4 space-y-2 text-sm">
+                <div>
+                  <dt className="font-medium text-gray-500">Cancelled</dt>
+                  <dd className="text-gray-900">
+                    {job.cancelled_at ? new Date(job.cancelled_at).toLocaleString() : 'N/A'}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="font-medium text-gray-500">Reason</dt>
+                  <dd className="text-gray-900">{job.cancellation_reason || 'Not recorded'}</dd>
+                </div>
+                <div>
+                  <dt className="font-medium text-gray-500">Cancellation Fees</dt>
+                  <dd className="text-gray-900">${Number(job.cancellation_fee_total || 0).toFixed(2)}</dd>
+                </div>
+              </dl>
+            )}
+          </div>
+          
+          {canCancel && cancellationPolicy && cancellationFee && (
+            <div className="bg-white rounded-lg shadow p-6 mb-6">
+              <h2 className="text-xl font-semibold mb-2">Cancel Job</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                The job is kept with its history. All assignments are released and
+                assigned and interested employees are notified.
+                {cancellationFee.feePerStaff > 0 ? (
+                  <span className="block mt-2 text-red-700">
+                    This is a late cancellation (less than {cancellationPolicy.cancellation_notice_hours} hours&apos; notice).
+                    Each of the {assignedStaffCount || 0} assigned staff will be owed ${cancellationFee.feePerStaff.toFixed(2)},
+                    ${((assignedStaffCount || 0) * cancellationFee.feePerStaff).toFixed(2)} in total.
+                  </span>
+                ) : (
+                  <span className="block mt-2">No cancellation fee applies.</span>
+                )}
+              </p>
+              <form action={cancelJob.bind(null, jobId)} className="space-y-4">
+                <div>
+                  <label htmlFor="cancel_reason" className="block text-sm font-medium text-gray-700 mb-1">
+                    Reason *
+                  </label>
+                  <textarea
+                    id="cancel_reason"
+                    name="reason"
+                    rows={2}
+                    required
+                    className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Shared with the employees who are notified"
+                  ></textarea>
+                </div>
+                <SubmitButton variant="destructive" className="w-full" pendingText="Cancelling...">
+                  Cancel Job
+                </SubmitButton>
+              </form>
+            </div>
+          )}
+          
           <div className="bg-white rounded-lg shadow p-6 mb-6">
             <div className="flex justify-between items-start mb-4">
               <h2 className="text-xl font-semibold">Assigned Employees</h2>
-              <Link
-                href={`/dashboard/manager/jobs/${jobId}/assign`}
-                className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded-md text-sm"
-              >
-                Manage Assignments
-              </Link>
+              <div className="flex gap-2">
+                <Link
+                  href={`/dashboard/manager/jobs/auto-fill?jobId=${jobId}`}
+                  className="border border-blue-600 text-blue-600 hover:bg-blue-50 px-3 py-1 rounded-md text-sm"
+                >
+                  Auto-fill
+                </Link>
+                <Link
+                  href={`/dashboard/manager/jobs/${jobId}/assign`}
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded-md text-sm"
+                >
+                  Manage Assignments
+                </Link>
+              </div>
             </div>
             <div className="border-t border-gray-200 pt-4">
-              {/* This will be populated with actual assignments in a future update */}
-              <p className="text-gray-500">
-                No employees assigned yet. Click "Manage Assignments" to assign employees to this job.
-              </p>
+              {rosterHasPeople ? (
+                <div className="space-y-4">
+                  {roster!.roles.map((role) => (
+                    <div key={role.id}>
+                      <div className="flex justify-between items-baseline">
+                        <h3 className="text-sm font-medium text-gray-900">
+                          {role.role_name}
+                          {role.shift_name && shifts.length > 1 && <span className="text-gray-500"> ({role.shift_name})</span>}
+                        </h3>
+                        <span className="text-xs text-gray-500">
+                          {role.confirmed.length} of {role.quantity_needed} confirmed
+                          {role.pending.length > 0 && <>, {role.pending.length} pending</>}
+                        </span>
+                      </div>
+                      <ul className="mt-1 space-y-1">
+                        {role.confirmed.map((assignment) => (
+                          <li key={assignment.id} className="text-sm flex justify-between">
+                            <span>{assignment.profile?.full_name || assignment.profile?.email || 'Unknown'}</span>
+                            <span className="text-xs text-green-700">Confirmed</span>
+                          </li>
+                        ))}
+                        {role.pending.map((offer) => (
+                          <li key={offer.id} className="text-sm flex justify-between items-center gap-2">
+                            <span>{offer.profile?.full_name || offer.profile?.email || 'Unknown'}</span>
+                            <span className="flex items-center gap-2">
+                              <span className="text-xs text-amber-700">Pending &middot; {describeOfferDeadline(offer.expires_at)}</span>
+                              <form action={withdrawAssignmentOffer}>
+                                <input type="hidden" name="jobId" value={jobId} />
+                                <input type="hidden" name="offerId" value={offer.id} />
+                                <button type="submit" className="text-xs text-red-600 hover:text-red-800">Withdraw</button>
+                              </form>
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-gray-500">
+                  No employees assigned yet. Click "Manage Assignments" to assign employees to this job.
+                </p>
+              )}
+              {roster && roster.closedOffers.length > 0 && (
+                <details className="mt-4">
+                  <summary className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+                    Unanswered and declined offers ({roster.closedOffers.length})
+                  </summary>
+                  <ul className="mt-2 space-y-1">
+                    {roster.closedOffers.map((offer) => (
+                      <li key={offer.id} className="text-sm">
+                        {offer.profile?.full_name || 'Unknown'}
+                        {' '}&middot; {ASSIGNMENT_OFFER_STATUS_LABELS[offer.status]}
+                        {offer.responded_at && (
+                          <span className="text-gray-500"> {new Date(offer.responded_at).toLocaleString()}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+          </div>
+          
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <h2 className="text-xl font-semibold mb-4">Change History</h2>
+            <div className="border-t border-gray-200 pt-4">
+              {revisions && revisions.length > 0 ? (
+                <div className="space-y-4">
+                  {revisions.map((revision) => (
+                    <div key={revision.id} className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900">{revision.summary}</p>
+                      <p className="text-sm text-gray-500">
+                        {new Date(revision.created_at).toLocaleString()}
+                        {revision.changed_by?.full_name && <> by {revision.changed_by.full_name}</>}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500 italic">
+                  No edits yet. Changes to the time, venue, details or travel pay are listed here and sent to the assigned crew.
+                </p>
+              )}
             </div>
           </div>
           
@@ -229,13 +1148,25 @@ export default async function JobDetailPage({ params }: { params: Promise<{ jobI
             <h2 className="text-xl font-semibold mb-4">Job Activity</h2>
             <div className="border-t border-gray-200 pt-4">
               <div className="space-y-4">
-                <div className="flex space-x-3">
-                  <div className="flex-shrink-0">
-                    <div className="h-8 w-8 rounded-full bg-blue-500 flex items-center justify-center">
-                      <span className="text-white text-xs">JD</span>
+                {statusHistory && statusHistory.length > 0 ? (
+                  statusHistory.map((entry) => (
+                    <div key={entry.id} className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900">
+                        {entry.from_status
+                          ? `${formatJobStatus(entry.from_status)} → ${formatJobStatus(entry.to_status)}`
+                          : `Created as ${formatJobStatus(entry.to_status)}`}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {new Date(entry.created_at).toLocaleString()}
+                        {entry.changed_by?.full_name && <> by {entry.changed_by.full_name}</>}
+                      </p>
+                      {entry.reason && (
+                        <p className="text-sm text-gray-600 italic">{entry.reason}</p>
+                      )}
                     </div>
-                  </div>
-                  <div className="min-w-0 flex-1">
+                  ))
+                ) : (
+                  <div className="min-w-0">
                     <p className="text-sm font-medium text-gray-900">
                       Job Created
                     </p>
@@ -243,7 +1174,7 @@ export default async function JobDetailPage({ params }: { params: Promise<{ jobI
                       {new Date(job.created_at).toLocaleString()}
                     </p>
                   </div>
-                </div>
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,296 @@
+import { createClient } from "@/utils/supabase/server";
+import { isManager } from "@/utils/supabase/auth-helpers";
+import { applyAutoFillPlan, getAutoFillPlan } from "@/app/actions/auto-fill";
+import type { AutoFillScope, AutoFillSlotPlan } from "@/app/actions/auto-fill/types";
+import {
+  getAutoFillFieldName,
+  getUpcomingWeekend,
+  MAX_AUTO_FILL_RANGE_DAYS
+} from "@/app/actions/auto-fill/client-utils";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { SubmitButton } from "@/components/submit-button";
+import { FormMessage, Message } from "@/components/form-message";
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric'
+  });
+
+const formatTime = (dateString: string) =>
+  new Date(dateString).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+/**
+ * Why each candidate scored what they did, and who was left out
+ */
+function SlotExplanation({ slotPlan }: { slotPlan: AutoFillSlotPlan }) {
+  return (
+    <details className="mt-2 text-sm">
+      <summary className="cursor-pointer text-blue-600 hover:text-blue-800">
+        Why? {slotPlan.candidates.length} eligible, {slotPlan.excluded.length} left out
+      </summary>
+      <div className="mt-2 space-y-2">
+        {slotPlan.candidates.map(candidate => (
+          <div key={candidate.user_id}>
+            <p className="font-medium text-gray-900">
+              {candidate.full_name || 'Unnamed employee'}
+              <span className="ml-2 text-gray-600">{candidate.score}/100</span>
+              {candidate.user_id === slotPlan.proposed_user_id && (
+                <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                  Proposed
+                </span>
+              )}
+            </p>
+            <p className="text-gray-600">
+              {candidate.factors.map(factor => `${factor.label} ${factor.points}/${factor.max} (${factor.detail})`).join(' · ')}
+            </p>
+          </div>
+        ))}
+        {slotPlan.excluded.length > 0 && (
+          <div>
+            <p className="font-medium text-gray-900">Left out</p>
+            <ul className="text-gray-600">
+              {slotPlan.excluded.map(excluded => (
+                <li key={excluded.user_id}>
+                  {excluded.full_name || 'Unnamed employee'} &ndash; {excluded.reason}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+}
+
+export default async function AutoFillPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | undefined>>;
+}) {
+  const params = await searchParams;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/sign-in");
+  }
+
+  // Check if user is manager
+  const hasAccess = await isManager();
+  if (!hasAccess) {
+    redirect("/dashboard");
+  }
+
+  const message: Message | null = params.success
+    ? { success: params.success }
+    : params.error
+    ? { error: params.error }
+    : null;
+
+  const jobId = params.jobId || null;
+  const weekend = getUpcomingWeekend();
+  const from = params.from || weekend.from;
+  const to = params.to || weekend.to;
+  const includeNotInterested = params.include_all === 'on';
+  const maxDistance = Number(params.max_distance);
+  const maxDistanceMiles = params.max_distance && maxDistance > 0 ? maxDistance : null;
+
+  const scope: AutoFillScope = jobId ? { type: 'job', jobId } : { type: 'range', from, to };
+  const { data: plan, error } = await getAutoFillPlan(scope, { includeNotInterested, maxDistanceMiles });
+
+  const slots = plan?.slots || [];
+  const proposedCount = slots.filter(slotPlan => slotPlan.proposed_user_id).length;
+
+  // Group slots under their job, keeping time order
+  type JobGroup = { title: string; start_time: string; venue_name: string | null; slots: AutoFillSlotPlan[] };
+  const jobs = new Map<string, JobGroup>();
+  for (const slotPlan of slots) {
+    const job: JobGroup = jobs.get(slotPlan.slot.job_id) || {
+      title: slotPlan.slot.job_title,
+      start_time: slotPlan.slot.start_time,
+      venue_name: slotPlan.slot.venue_name,
+      slots: []
+    };
+    job.slots.push(slotPlan);
+    jobs.set(slotPlan.slot.job_id, job);
+  }
+
+  return (
+    <div>
+      <div className="flex items-center mb-6">
+        <Link
+          href={jobId ? `/dashboard/manager/jobs/${jobId}` : "/dashboard/manager/jobs"}
+          className="text-blue-600 hover:text-blue-800 mr-4"
+        >
+          &larr; {jobId ? 'Back to Job Details' : 'Back to Jobs'}
+        </Link>
+        <h1 className="text-3xl font-bold">Auto-fill Staffing</h1>
+      </div>
+
+      {message && (
+        <div className="mb-6">
+          <FormMessage message={message} />
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <p className="text-sm text-gray-600 mb-4">
+          Proposes an employee for every open position, scored on interest (40), time since their last job (30),
+          current workload (15) and distance to the venue (15). Employees who are already booked at the same time
+          are left out. Nothing is assigned until you accept the plan below.
+        </p>
+        <form method="get" className="flex flex-wrap items-end gap-4">
+          {jobId ? (
+            <input type="hidden" name="jobId" value={jobId} />
+          ) : (
+            <>
+              <div>
+                <label htmlFor="from" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                <input
+                  type="date"
+                  id="from"
+                  name="from"
+                  defaultValue={from}
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="to" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                <input
+                  type="date"
+                  id="to"
+                  name="to"
+                  defaultValue={to}
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </>
+          )}
+          <div>
+            <label htmlFor="max_distance" className="block text-sm font-medium text-gray-700 mb-1">Max distance (mi)</label>
+            <input
+              type="number"
+              id="max_distance"
+              name="max_distance"
+              min="1"
+              defaultValue={maxDistanceMiles ?? ''}
+              placeholder="Any"
+              className="w-28 px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 py-2">
+            <input type="checkbox" name="include_all" defaultChecked={includeNotInterested} />
+            Include employees who haven&apos;t expressed interest
+          </label>
+          <button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm">
+            Plan
+          </button>
+        </form>
+        {!jobId && (
+          <p className="text-xs text-gray-500 mt-2">Up to {MAX_AUTO_FILL_RANGE_DAYS} days at a time.</p>
+        )}
+      </div>
+
+      {error ? (
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-red-600">{error}</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+            <div className="bg-white rounded-lg shadow p-6">
+              <p className="text-sm text-gray-500">Open Positions</p>
+              <p className="text-3xl font-bold">{slots.length}</p>
+              <p className="text-sm text-gray-500">across {plan?.job_count || 0} job{plan?.job_count === 1 ? '' : 's'}</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-6">
+              <p className="text-sm text-gray-500">Proposed</p>
+              <p className="text-3xl font-bold">{proposedCount}</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-6">
+              <p className="text-sm text-gray-500">No Eligible Employee</p>
+              <p className="text-3xl font-bold">{slots.length - proposedCount}</p>
+            </div>
+          </div>
+
+          {slots.length > 0 ? (
+            <form action={applyAutoFillPlan}>
+              {jobId && <input type="hidden" name="scopeJobId" value={jobId} />}
+
+              {Array.from(jobs.entries()).map(([id, job]) => (
+                <div key={id} className="bg-white rounded-lg shadow p-6 mb-6">
+                  <h2 className="text-xl font-semibold">
+                    <Link href={`/dashboard/manager/jobs/${id}`} className="text-blue-600 hover:text-blue-800">
+                      {job.title}
+                    </Link>
+                  </h2>
+                  <p className="text-sm text-gray-600 mb-4">
+                    {formatDate(job.start_time)}
+                    {job.venue_name && <> &middot; {job.venue_name}</>}
+                  </p>
+
+                  <div className="border-t border-gray-200 divide-y divide-gray-200">
+                    {job.slots.map(slotPlan => (
+                      <div key={slotPlan.slot.key} className="py-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                          <p className="font-medium text-gray-900">
+                            {slotPlan.slot.role_name}
+                            <span className="font-normal text-gray-600"> #{slotPlan.slot.position}</span>
+                          </p>
+                          <p className="text-sm text-gray-600">
+                            {slotPlan.slot.shift_name && <>{slotPlan.slot.shift_name} &middot; </>}
+                            {formatTime(slotPlan.slot.start_time)} - {formatTime(slotPlan.slot.end_time)}
+                          </p>
+                        </div>
+                        <div>
+                          <input
+                            type="hidden"
+                            name={`label__${slotPlan.slot.job_required_role_id}__${slotPlan.slot.position}`}
+                            value={`${slotPlan.slot.job_title} ${slotPlan.slot.role_name} #${slotPlan.slot.position}`}
+                          />
+                          <select
+                            name={getAutoFillFieldName(slotPlan.slot)}
+                            aria-label={`Employee for ${slotPlan.slot.role_name} #${slotPlan.slot.position}`}
+                            defaultValue={slotPlan.proposed_user_id || ''}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                          >
+                            <option value="">Leave open</option>
+                            {slotPlan.candidates.map(candidate => (
+                              <option key={candidate.user_id} value={candidate.user_id}>
+                                {candidate.full_name || 'Unnamed employee'} ({candidate.score})
+                              </option>
+                            ))}
+                          </select>
+                          <SlotExplanation slotPlan={slotPlan} />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+
+              <div className="flex items-center justify-end gap-4">
+                <p className="text-sm text-gray-500">
+                  Employees are notified of their assignments as usual.
+                </p>
+                <SubmitButton pendingText="Assigning...">Assign Selected</SubmitButton>
+              </div>
+            </form>
+          ) : (
+            <div className="bg-white rounded-lg shadow p-6">
+              <p className="text-sm text-gray-500 italic">
+                {jobId ? 'Every position on this job is already filled.' : 'No open positions on jobs in these dates.'}
+              </p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import type { RoleChecklistTemplate } from "@/app/actions/role-checklists/types";
+
+interface ChecklistFieldsProps {
+  template?: RoleChecklistTemplate;
+}
+
+/**
+ * Shared form fields for creating and editing a role checklist
+ */
+export default function ChecklistFields({ template }: ChecklistFieldsProps) {
+  const idPrefix = template ? `checklist-${template.id}` : "new-checklist";
+
+  return (
+    <>
+      {template && <input type="hidden" name="templateId" value={template.id} />}
+
+      {/* Role */}
+      <div>
+        <label htmlFor={`${idPrefix}-role_name`} className="block text-sm font-medium text-gray-700 mb-1">
+          Role *
+        </label>
+        <input
+          type="text"
+          id={`${idPrefix}-role_name`}
+          name="role_name"
+          required
+          defaultValue={template?.role_name}
+          className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          placeholder="e.g., Videographer"
+        />
+        <p className="mt-1 text-sm text-gray-500">
+          Matches job roles with the same name, ignoring capitals.
+        </p>
+      </div>
+
+      {/* Items */}
+      <div>
+        <label htmlFor={`${idPrefix}-items`} className="block text-sm font-medium text-gray-700 mb-1">
+          Checklist *
+        </label>
+        <textarea
+          id={`${idPrefix}-items`}
+          name="items"
+          required
+          rows={8}
+          defaultValue={template?.items.join("\n")}
+          className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          placeholder={"One item per line, e.g.\nDrone: venue exterior\nAudio backup on officiant\nFirst dance, two angles"}
+        ></textarea>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,112 @@
+import { createClient } from "@/utils/supabase/server";
+import { isManager } from "@/utils/supabase/auth-helpers";
+import { deleteChecklistTemplate, getChecklistTemplates, saveChecklistTemplate } from "@/app/actions/role-checklists";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { SubmitButton } from "@/components/submit-button";
+import { FormMessage, Message } from "@/components/form-message";
+import ChecklistFields from "./components/checklist-fields";
+
+export default async function RoleChecklistsPage({ searchParams }: { searchParams: Promise<Message> }) {
+  const message = await searchParams;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/sign-in");
+  }
+
+  // Check if user is manager
+  const hasAccess = await isManager();
+  if (!hasAccess) {
+    redirect("/dashboard");
+  }
+
+  // Get the org's checklists
+  const { data: templatesData } = await getChecklistTemplates();
+  const templates = templatesData || [];
+
+  return (
+    <div>
+      <div className="flex items-center mb-6">
+        <Link
+          href="/dashboard/manager/jobs"
+          className="text-blue-600 hover:text-blue-800 mr-4"
+        >
+          &larr; Back to Jobs
+        </Link>
+        <h1 className="text-3xl font-bold">Role Checklists</h1>
+      </div>
+
+      {Object.keys(message).length > 0 && (
+        <div className="mb-6">
+          <FormMessage message={message} />
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <h2 className="text-xl font-semibold mb-1">Saved Checklists</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Every new job role with a matching name gets its own copy of the checklist, which the staff
+          assigned to it tick off. Editing a checklist here doesn&apos;t change jobs that already have one.
+        </p>
+
+        {templates.length > 0 ? (
+          <div className="border-t border-gray-200 divide-y divide-gray-200">
+            {templates.map((template) => (
+              <div key={template.id} className="py-4">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="font-medium text-gray-900">
+                      {template.role_name}
+                      <span className="ml-2 text-sm font-normal text-gray-500">
+                        {template.items.length} {template.items.length === 1 ? 'item' : 'items'}
+                      </span>
+                    </h3>
+                    <ul className="mt-1 text-sm text-gray-600 list-disc list-inside">
+                      {template.items.map((item, index) => (
+                        <li key={index}>{item}</li>
+                      ))}
+                    </ul>
+                  </div>
+                  <form action={deleteChecklistTemplate}>
+                    <input type="hidden" name="templateId" value={template.id} />
+                    <button type="submit" className="text-red-600 hover:text-red-900 text-sm">
+                      Delete
+                    </button>
+                  </form>
+                </div>
+
+                <details className="mt-2">
+                  <summary className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+                    Edit checklist
+                  </summary>
+                  <form action={saveChecklistTemplate} className="space-y-4 mt-4">
+                    <ChecklistFields template={template} />
+                    <div className="flex justify-end">
+                      <SubmitButton>Save Checklist</SubmitButton>
+                    </div>
+                  </form>
+                </details>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 italic">
+            No checklists yet. Add one below for each role that has must-have shots or deliverables.
+          </p>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-semibold mb-4">New Checklist</h2>
+        <form action={saveChecklistTemplate} className="space-y-4">
+          <ChecklistFields />
+          <div className="flex justify-end">
+            <SubmitButton>Create Checklist</SubmitButton>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { commitJobImport, parseJobImportFile, previewJobImport } from "@/app/actions/job-import";
+import type {
+  JobImportField,
+  JobImportOptions,
+  JobImportPreview,
+  ParsedImportFile,
+} from "@/app/actions/job-import";
+import { JOB_IMPORT_FIELD_LABELS } from "@/app/actions/job-import/client-utils";
+import { formatJobStatus } from "@/app/actions/jobs/client-utils";
+import { Button } from "@/components/ui/button";
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'done';
+
+const FIELD_OPTIONS = Object.keys(JOB_IMPORT_FIELD_LABELS) as JobImportField[];
+
+export default function ImportWizard() {
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [file, setFile] = useState<ParsedImportFile | null>(null);
+  const [mapping, setMapping] = useState<JobImportField[]>([]);
+  const [options, setOptions] = useState<JobImportOptions>({
+    createMissingVenues: false,
+    skipInvalidRows: false,
+    defaultStatus: 'draft',
+  });
+  const [preview, setPreview] = useState<JobImportPreview | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const handleUpload = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsWorking(true);
+    setErrorMessage(null);
+
+    try {
+      const result = await parseJobImportFile(new FormData(event.currentTarget));
+
+      if (result.data) {
+        const { suggestedMapping, ...parsed } = result.data;
+        setFile(parsed);
+        setMapping(suggestedMapping);
+        setPreview(null);
+        setStep('map');
+      } else {
+        setErrorMessage(result.error || "Failed to read the file");
+      }
+    } catch (error) {
+      setErrorMessage("An unexpected error occurred");
+      console.error(error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!file) return;
+    setIsWorking(true);
+    setErrorMessage(null);
+
+    try {
+      const result = await previewJobImport({ ...file, mapping, options });
+
+      if (result.data) {
+        setPreview(result.data);
+        setStep('preview');
+      } else {
+        setErrorMessage(result.error || "Failed to preview the import");
+      }
+    } catch (error) {
+      setErrorMessage("An unexpected error occurred");
+      console.error(error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!file) return;
+    setIsWorking(true);
+    setErrorMessage(null);
+
+    try {
+      const result = await commitJobImport({ ...file, mapping, options });
+
+      if (result.success) {
+        const skipped = result.skippedCount ? `, skipped ${result.skippedCount} invalid row(s)` : '';
+        const venues = result.venueCount ? ` and ${result.venueCount} venue(s)` : '';
+        setSuccessMessage(`Imported ${result.jobCount} job(s)${venues}${skipped}`);
+        setStep('done');
+      } else {
+        setErrorMessage(result.error || "Failed to import jobs");
+      }
+    } catch (error) {
+      setErrorMessage("An unexpected error occurred");
+      console.error(error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleReset = () => {
+    setStep('upload');
+    setFile(null);
+    setMapping([]);
+    setPreview(null);
+    setSuccessMessage(null);
+    setErrorMessage(null);
+  };
+
+  // Changing the mapping or options makes an existing preview stale
+  const updateMapping = (column: number, field: JobImportField) => {
+    setMapping(current => current.map((value, index) => (index === column ? field : value)));
+    setStep('map');
+  };
+
+  const updateOptions = (changes: Partial<JobImportOptions>) => {
+    setOptions(current => ({ ...current, ...changes }));
+    setStep(current => (current === 'preview' ? 'map' : current));
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-semibold mb-4">Import Jobs</h2>
+
+      {errorMessage && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 text-red-700 rounded-md">
+          {errorMessage}
+        </div>
+      )}
+
+      {step === 'done' ? (
+        <div className="space-y-4">
+          <div className="p-4 bg-green-50 border border-green-200 text-green-700 rounded-md">
+            {successMessage}
+          </div>
+          <div className="flex gap-4">
+            <Link href="/dashboard/manager/jobs" className="text-blue-600 hover:text-blue-800">
+              View jobs
+            </Link>
+            <button type="button" onClick={() => window.location.reload()} className="text-blue-600 hover:text-blue-800">
+              Import another file
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          {/* Step 1: upload */}
+          <form onSubmit={handleUpload} className="flex flex-wrap items-end gap-4 mb-6">
+            <div>
+              <label htmlFor="file" className="block text-sm font-medium text-gray-700 mb-1">
+                CSV or Excel (.xlsx) file
+              </label>
+              <input
+                type="file"
+                id="file"
+                name="file"
+                accept=".csv,.xlsx"
+                required
+                className="text-sm"
+              />
+            </div>
+            <Button type="submit" disabled={isWorking}>
+              {isWorking && step === 'upload' ? "Reading..." : "Upload"}
+            </Button>
+            {file && (
+              <button type="button" onClick={handleReset} className="text-sm text-gray-600 hover:text-gray-800">
+                Start over
+              </button>
+            )}
+          </form>
+
+          {/* Step 2: map columns and choose options */}
+          {file && (
+            <div className="space-y-6">
+              <div>
+                <h3 className="text-lg font-medium mb-1">Map Columns</h3>
+                <p className="text-sm text-gray-500 mb-3">
+                  {file.fileName} has {file.rows.length} row(s). Title, Venue, Start Time and End Time are required.
+                  Use &quot;Role count&quot; for columns such as &quot;Photographers&quot; that hold how many of that role are needed.
+                </p>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Column</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">First Value</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Import As</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {file.headers.map((header, column) => (
+                        <tr key={column}>
+                          <td className="px-4 py-2 text-sm font-medium text-gray-900">{header}</td>
+                          <td className="px-4 py-2 text-sm text-gray-500">{file.rows[0]?.[column] || '—'}</td>
+                          <td className="px-4 py-2">
+                            <select
+                              value={mapping[column]}
+                              onChange={(e) => updateMapping(column, e.target.value as JobImportField)}
+                              className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                            >
+                              {FIELD_OPTIONS.map(field => (
+                                <option key={field} value={field}>
+                                  {JOB_IMPORT_FIELD_LABELS[field]}
+                                </option>
+                              ))}
+                            </select>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="text-lg font-medium">Options</h3>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={options.createMissingVenues}
+                    onChange={(e) => updateOptions({ createMissingVenues: e.target.checked })}
+                  />
+                  Create venues that do not exist yet
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={options.skipInvalidRows}
+                    onChange={(e) => updateOptions({ skipInvalidRows: e.target.checked })}
+                  />
+                  Skip rows with errors instead of cancelling the import
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  Status for rows without one
+                  <select
+                    value={options.defaultStatus}
+                    onChange={(e) => updateOptions({ defaultStatus: e.target.value as JobImportOptions['defaultStatus'] })}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="draft">Draft</option>
+                    <option value="available">Available</option>
+                  </select>
+                </label>
+              </div>
+
+              <div className="flex justify-end">
+                <Button type="button" onClick={handlePreview} disabled={isWorking}>
+                  {isWorking && step === 'map' ? "Checking..." : "Preview Import"}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* Step 3: dry-run preview */}
+          {step === 'preview' && preview && (
+            <div className="mt-8 space-y-4">
+              <h3 className="text-lg font-medium">Preview</h3>
+              <p className="text-sm text-gray-700">
+                {preview.validCount} row(s) ready to import, {preview.errorCount} with errors.
+                {preview.newVenues.length > 0 &&
+                  ` New venues: ${preview.newVenues.map(venue => venue.name).join(', ')}.`}
+              </p>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Job</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Roles</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {preview.results.map(result => (
+                      <tr key={result.rowNumber} className={result.errors.length > 0 ? 'bg-red-50' : undefined}>
+                        <td className="px-4 py-2 text-sm text-gray-500">{result.rowNumber}</td>
+                        <td className="px-4 py-2 text-sm text-gray-900">
+                          {result.job ? (
+                            <>
+                              <div className="font-medium">{result.job.title}</div>
+                              <div className="text-xs text-gray-500">
+                                {formatJobStatus(result.job.status)}
+                                {result.job.new_venue_key && ' · new venue'}
+                              </div>
+                            </>
+                          ) : (
+                            file?.rows[result.rowNumber - 2]?.[mapping.indexOf('title')] || '—'
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-500 whitespace-nowrap">
+                          {result.job
+                            ? `${result.job.start_time.replace('T', ' ')} – ${result.job.end_time.replace('T', ' ')}`
+                            : '—'}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-500">
+                          {result.job && result.job.roles.length > 0
+                            ? result.job.roles.map(role => `${role.quantity_needed} × ${role.role_name}`).join(', ')
+                            : '—'}
+                        </td>
+                        <td className="px-4 py-2 text-sm">
+                          {result.errors.length > 0 ? (
+                            <ul className="text-red-700 list-disc list-inside">
+                              {result.errors.map(error => (
+                                <li key={error}>{error}</li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <span className="text-green-700">Ready</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex justify-end">
+                <Button
+                  type="button"
+                  onClick={handleCommit}
+                  disabled={
+                    isWorking ||
+                    preview.validCount === 0 ||
+                    (preview.errorCount > 0 && !options.skipInvalidRows)
+                  }
+                >
+                  {isWorking ? "Importing..." : `Import ${preview.validCount} Job(s)`}
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { createClient } from "@/utils/supabase/server";
+import { isManager } from "@/utils/supabase/auth-helpers";
+import { getJobImportsByOrg, rollbackJobImport } from "@/app/actions/job-import";
+import { FormMessage, Message } from "@/components/form-message";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import ImportWizard from "./components/import-wizard";
+
+export default async function JobImportPage(props: {
+  searchParams: Promise<Message>;
+}) {
+  const message = await props.searchParams;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/sign-in");
+  }
+
+  // Check if user is manager
+  const hasAccess = await isManager();
+  if (!hasAccess) {
+    redirect("/dashboard");
+  }
+
+  // Get past imports for the organization
+  const { data: importsData } = await getJobImportsByOrg();
+  const imports = importsData || [];
+
+  const hasMessage = "success" in message || "error" in message || "message" in message;
+
+  return (
+    <div>
+      <div className="flex items-center mb-6">
+        <Link
+          href="/dashboard/manager/jobs"
+          className="text-blue-600 hover:text-blue-800 mr-4"
+        >
+          &larr; Back to Jobs
+        </Link>
+        <h1 className="text-3xl font-bold">Import Jobs</h1>
+      </div>
+
+      {hasMessage && (
+        <div className="mb-6">
+          <FormMessage message={message} />
+        </div>
+      )}
+
+      <div className="mb-6">
+        <ImportWizard />
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-semibold mb-4">Past Imports</h2>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  File
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Imported
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Jobs
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  New Venues
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {imports.length > 0 ? (
+                imports.map((jobImport) => (
+                  <tr key={jobImport.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {jobImport.file_name}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(jobImport.created_at).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {jobImport.job_count}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {jobImport.venue_count}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      {jobImport.status === 'rolled_back' ? (
+                        <span className="text-gray-500">
+                          Rolled back {jobImport.rolled_back_at && new Date(jobImport.rolled_back_at).toLocaleDateString()}
+                        </span>
+                      ) : (
+                        <form action={rollbackJobImport} className="inline">
+                          <input type="hidden" name="importId" value={jobImport.id} />
+                          <button type="submit" className="text-red-600 hover:text-red-900">
+                            Roll Back
+                          </button>
+                        </form>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No imports yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -132,9 +132,6 @@ export default async function NewJobPage() {
               >
                 <option value="draft">Draft</option>
                 <option value="available">Available</option>
-                <option value="upcoming">Upcoming</option>
-                <option value="completed">Completed</option>
-                <option value="cancelled">Cancelled</option>
               </select>
             </div>
             
@@ -1,6 +1,7 @@
 import { createClient } from "@/utils/supabase/server";
 import { getCurrentUserProfile, isManager } from "@/utils/supabase/auth-helpers";
 import { getJobsByOrg, deleteJob } from "@/app/job-actions";
+import { formatJobStatus } from "@/app/actions/jobs/client-utils";
 import Link from "next/link";
 import { redirect } from "next/navigation";
 
@@ -35,15 +36,29 @@ export default async function JobManagementPage() {
     <div>
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-3xl font-bold">Job Management</h1>
-        <Link 
-          href="/dashboard/manager/jobs/new" 
-          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium flex items-center"
-        >
-          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-          </svg>
-          Create New Job
-        </Link>
+        <div className="flex space-x-2">
+          <Link
+            href="/dashboard/manager/jobs/templates"
+            className="border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-md text-sm font-medium flex items-center"
+          >
+            Job Templates
+          </Link>
+          <Link
+            href="/dashboard/manager/jobs/import"
+            className="border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-md text-sm font-medium flex items-center"
+          >
+            Import Jobs
+          </Link>
+          <Link 
+            href="/dashboard/manager/jobs/new" 
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium flex items-center"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+            </svg>
+            Create New Job
+          </Link>
+        </div>
       </div>
       
       <div className="bg-white rounded-lg shadow p-6 mb-6">
@@ -72,6 +87,7 @@ export default async function JobManagementPage() {
               <option value="draft">Draft</option>
               <option value="available">Available</option>
               <option value="upcoming">Upcoming</option>
+              <option value="in_progress">In Progress</option>
               <option value="completed">Completed</option>
               <option value="cancelled">Cancelled</option>
             </select>
@@ -138,9 +154,11 @@ export default async function JobManagementPage() {
                           ? 'bg-gray-100 text-gray-800'
                           : job.status === 'cancelled'
                           ? 'bg-red-100 text-red-800'
+                          : job.status === 'in_progress'
+                          ? 'bg-purple-100 text-purple-800'
                           : 'bg-yellow-100 text-yellow-800'
                       }`}>
-                        {job.status.charAt(0).toUpperCase() + job.status.slice(1)}
+                        {formatJobStatus(job.status)}
                       </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
@@ -228,6 +246,27 @@ export default async function JobManagementPage() {
             <Link href="/dashboard/manager/jobs/new" className="block text-blue-600 hover:underline">
               Create New Job
             </Link>
+            <Link href="/dashboard/manager/jobs/templates" className="block text-blue-600 hover:underline">
+              Create Jobs from a Template
+            </Link>
+            <Link href="/dashboard/manager/jobs/auto-fill" className="block text-blue-600 hover:underline">
+              Auto-fill Weekend Staffing
+            </Link>
+            <Link href="/dashboard/manager/fairness" className="block text-blue-600 hover:underline">
+              View Fairness Report
+            </Link>
+            <Link href="/dashboard/manager/jobs/checklists" className="block text-blue-600 hover:underline">
+              Manage Role Checklists
+            </Link>
+            <Link href="/dashboard/manager/qualifications" className="block text-blue-600 hover:underline">
+              Manage Qualifications
+            </Link>
+            <Link href="/dashboard/manager/timesheets" className="block text-blue-600 hover:underline">
+              Review Timesheets
+            </Link>
+            <Link href="/dashboard/manager/expenses" className="block text-blue-600 hover:underline">
+              Review Expense Claims
+            </Link>
             <Link href="/dashboard/manager/venues" className="block text-blue-600 hover:underline">
               Manage Venues
             </Link>
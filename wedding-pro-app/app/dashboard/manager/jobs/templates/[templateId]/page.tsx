@@ -0,0 +1,174 @@
+import { createClient } from "@/utils/supabase/server";
+import { getCurrentUserProfile, isManager } from "@/utils/supabase/auth-helpers";
+import {
+  createJobSeriesFromTemplate,
+  getJobTemplateById,
+  updateJobTemplate,
+} from "@/app/actions/job-templates";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { SubmitButton } from "@/components/submit-button";
+import TemplateFields from "../components/template-fields";
+
+export default async function JobTemplateDetailPage({ params }: { params: Promise<{ templateId: string }> }) {
+  const { templateId } = await params;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/sign-in");
+  }
+
+  // Check if user is manager
+  const hasAccess = await isManager();
+  if (!hasAccess) {
+    redirect("/dashboard");
+  }
+
+  // Get current user profile
+  const profile = await getCurrentUserProfile();
+  if (!profile || !profile.org_id) {
+    redirect("/dashboard");
+  }
+
+  // Get template details
+  const { data: template, error } = await getJobTemplateById(templateId);
+  if (error || !template) {
+    redirect("/dashboard/manager/jobs/templates");
+  }
+
+  // Get venues for the organization
+  const { data: venues } = await supabase
+    .from('venues')
+    .select('id, name')
+    .eq('org_id', profile.org_id);
+
+  // Count jobs already created from this template
+  const { count: jobCount } = await supabase
+    .from('jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('template_id', templateId);
+
+  return (
+    <div>
+      <div className="flex items-center mb-6">
+        <Link
+          href="/dashboard/manager/jobs/templates"
+          className="text-blue-600 hover:text-blue-800 mr-4"
+        >
+          &larr; Back to Templates
+        </Link>
+        <h1 className="text-3xl font-bold">{template.name}</h1>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold mb-4">Edit Template</h2>
+            <form action={updateJobTemplate.bind(null, templateId)} className="space-y-6">
+              <TemplateFields venues={venues || []} template={template} />
+
+              <div className="flex items-start">
+                <div className="flex items-center h-5">
+                  <input
+                    id="apply_to_future_jobs"
+                    name="apply_to_future_jobs"
+                    type="checkbox"
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                </div>
+                <div className="ml-3 text-sm">
+                  <label htmlFor="apply_to_future_jobs" className="font-medium text-gray-700">
+                    Apply to future unstaffed jobs
+                  </label>
+                  <p className="text-gray-500">
+                    Updates the title, description, duration and roles of upcoming jobs from this template that nobody has been assigned to yet.
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex justify-end">
+                <SubmitButton>Save Template</SubmitButton>
+              </div>
+            </form>
+          </div>
+        </div>
+
+        <div className="lg:col-span-1">
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold mb-2">Create Series</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              {jobCount || 0} job{jobCount === 1 ? '' : 's'} created from this template so far.
+            </p>
+            <form action={createJobSeriesFromTemplate.bind(null, templateId)} className="space-y-4">
+              <div>
+                <label htmlFor="dates" className="block text-sm font-medium text-gray-700 mb-1">
+                  Dates *
+                </label>
+                <textarea
+                  id="dates"
+                  name="dates"
+                  rows={6}
+                  required
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  placeholder={"2025-06-14\n2025-06-21\n2025-06-28"}
+                ></textarea>
+                <p className="mt-1 text-xs text-gray-500">One date per line (YYYY-MM-DD).</p>
+              </div>
+
+              <div>
+                <label htmlFor="start_time" className="block text-sm font-medium text-gray-700 mb-1">
+                  Start Time *
+                </label>
+                <input
+                  type="time"
+                  id="start_time"
+                  name="start_time"
+                  required
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="venue_id" className="block text-sm font-medium text-gray-700 mb-1">
+                  Venue *
+                </label>
+                <select
+                  id="venue_id"
+                  name="venue_id"
+                  required
+                  defaultValue={template.default_venue_id || ""}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Select a venue</option>
+                  {venues && venues.map((venue) => (
+                    <option key={venue.id} value={venue.id}>
+                      {venue.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="status" className="block text-sm font-medium text-gray-700 mb-1">
+                  Status *
+                </label>
+                <select
+                  id="status"
+                  name="status"
+                  required
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="draft">Draft</option>
+                  <option value="available">Available</option>
+                </select>
+              </div>
+
+              <SubmitButton className="w-full">Create Jobs</SubmitButton>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
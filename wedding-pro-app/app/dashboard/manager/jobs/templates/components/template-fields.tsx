@@ -0,0 +1,159 @@
+import type { JobTemplateWithRoles } from "@/app/actions/job-templates/types";
+
+// Number of role rows shown in the form, including blank rows for new roles
+const ROLE_ROW_COUNT = 6;
+
+interface TemplateFieldsProps {
+  venues: { id: string; name: string }[];
+  template?: JobTemplateWithRoles;
+}
+
+/**
+ * Shared form fields for creating and editing a job template
+ */
+export default function TemplateFields({ venues, template }: TemplateFieldsProps) {
+  const existingRoles = template?.job_template_roles || [];
+  const roleRows = [
+    ...existingRoles,
+    ...Array.from({ length: Math.max(ROLE_ROW_COUNT - existingRoles.length, 1) }, () => null),
+  ];
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Template Name */}
+        <div>
+          <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">
+            Template Name *
+          </label>
+          <input
+            type="text"
+            id="name"
+            name="name"
+            required
+            defaultValue={template?.name}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            placeholder="e.g., Saturday wedding – Photo + 2nd + Video"
+          />
+        </div>
+
+        {/* Job Title */}
+        <div>
+          <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-1">
+            Job Title *
+          </label>
+          <input
+            type="text"
+            id="title"
+            name="title"
+            required
+            defaultValue={template?.title}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            placeholder="e.g., Wedding Photography"
+          />
+        </div>
+
+        {/* Default Duration */}
+        <div>
+          <label htmlFor="default_duration_minutes" className="block text-sm font-medium text-gray-700 mb-1">
+            Default Duration (minutes) *
+          </label>
+          <input
+            type="number"
+            id="default_duration_minutes"
+            name="default_duration_minutes"
+            min={15}
+            step={15}
+            required
+            defaultValue={template?.default_duration_minutes ?? 480}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+
+        {/* Default Venue */}
+        <div>
+          <label htmlFor="default_venue_id" className="block text-sm font-medium text-gray-700 mb-1">
+            Default Venue
+          </label>
+          <select
+            id="default_venue_id"
+            name="default_venue_id"
+            defaultValue={template?.default_venue_id || ""}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">No default venue</option>
+            {venues.map((venue) => (
+              <option key={venue.id} value={venue.id}>
+                {venue.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Travel Pay */}
+        <div className="flex items-start">
+          <div className="flex items-center h-5">
+            <input
+              id="travel_pay_offered"
+              name="travel_pay_offered"
+              type="checkbox"
+              defaultChecked={template?.travel_pay_offered}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+          </div>
+          <div className="ml-3 text-sm">
+            <label htmlFor="travel_pay_offered" className="font-medium text-gray-700">
+              Offer Travel Pay
+            </label>
+            <p className="text-gray-500">
+              Travel pay is calculated per job from the venue and your organization's rate.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Description */}
+      <div>
+        <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">
+          Job Description
+        </label>
+        <textarea
+          id="description"
+          name="description"
+          rows={4}
+          defaultValue={template?.description || ""}
+          className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          placeholder="Describe the job details, requirements, etc."
+        ></textarea>
+      </div>
+
+      {/* Required Roles */}
+      <div>
+        <h3 className="block text-sm font-medium text-gray-700 mb-1">Required Roles</h3>
+        <p className="text-sm text-gray-500 mb-3">Leave a row blank to skip it.</p>
+        <div className="space-y-2">
+          {roleRows.map((role, index) => (
+            <div key={role?.id || `new-${index}`} className="grid grid-cols-3 gap-2">
+              <input
+                type="text"
+                name="role_name"
+                aria-label="Role name"
+                defaultValue={role?.role_name}
+                className="col-span-2 px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                placeholder="e.g., Lead Photographer"
+              />
+              <input
+                type="number"
+                name="quantity_needed"
+                aria-label="Quantity needed"
+                min={1}
+                defaultValue={role?.quantity_needed ?? 1}
+                className="px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    </>
+  );
+}
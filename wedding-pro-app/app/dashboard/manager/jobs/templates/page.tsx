@@ -0,0 +1,133 @@
+import { createClient } from "@/utils/supabase/server";
+import { getCurrentUserProfile, isManager } from "@/utils/supabase/auth-helpers";
+import { createJobTemplate, deleteJobTemplate, getJobTemplatesByOrg } from "@/app/actions/job-templates";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { SubmitButton } from "@/components/submit-button";
+import TemplateFields from "./components/template-fields";
+
+export default async function JobTemplatesPage() {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/sign-in");
+  }
+
+  // Check if user is manager
+  const hasAccess = await isManager();
+  if (!hasAccess) {
+    redirect("/dashboard");
+  }
+
+  // Get current user profile
+  const profile = await getCurrentUserProfile();
+  if (!profile || !profile.org_id) {
+    redirect("/dashboard");
+  }
+
+  // Get templates for the organization
+  const { data: templatesData } = await getJobTemplatesByOrg();
+  const templates = templatesData || [];
+
+  // Get venues for the organization (for the default venue select)
+  const { data: venues } = await supabase
+    .from('venues')
+    .select('id, name')
+    .eq('org_id', profile.org_id);
+
+  return (
+    <div>
+      <div className="flex items-center mb-6">
+        <Link
+          href="/dashboard/manager/jobs"
+          className="text-blue-600 hover:text-blue-800 mr-4"
+        >
+          &larr; Back to Jobs
+        </Link>
+        <h1 className="text-3xl font-bold">Job Templates</h1>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <h2 className="text-xl font-semibold mb-4">Saved Templates</h2>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Template
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Duration
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Roles
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Travel Pay
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {templates.length > 0 ? (
+                templates.map((template) => (
+                  <tr key={template.id}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{template.name}</div>
+                      <div className="text-xs text-gray-500">{template.title}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {(template.default_duration_minutes / 60).toFixed(1)} hours
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {template.job_template_roles.length > 0
+                        ? template.job_template_roles
+                            .map(role => `${role.quantity_needed} × ${role.role_name}`)
+                            .join(', ')
+                        : 'No roles'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {template.travel_pay_offered ? 'Offered' : 'Not offered'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <Link href={`/dashboard/manager/jobs/templates/${template.id}`} className="text-blue-600 hover:text-blue-900 mr-4">
+                        Edit / Create Series
+                      </Link>
+                      <form action={deleteJobTemplate} className="inline">
+                        <input type="hidden" name="templateId" value={template.id} />
+                        <button type="submit" className="text-red-600 hover:text-red-900">
+                          Delete
+                        </button>
+                      </form>
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No templates yet. Create one below to reuse it for future jobs.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-semibold mb-4">New Template</h2>
+        <form action={createJobTemplate} className="space-y-6">
+          <TemplateFields venues={venues || []} />
+
+          <div className="flex justify-end">
+            <SubmitButton>Create Template</SubmitButton>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import type { RoleRequirement } from "@/app/actions/qualifications/types";
+import { SKILL_LEVEL_LABELS, SKILL_LEVELS } from "@/app/actions/qualifications/client-utils";
+
+interface RequirementFieldsProps {
+  requirement?: RoleRequirement;
+}
+
+/**
+ * Shared form fields for creating and editing a role's requirements
+ */
+export default function RequirementFields({ requirement }: RequirementFieldsProps) {
+  const idPrefix = requirement ? `requirement-${requirement.id}` : "new-requirement";
+
+  return (
+    <>
+      {requirement && <input type="hidden" name="requirementId" value={requirement.id} />}
+
+      {/* Role */}
+      <div>
+        <label htmlFor={`${idPrefix}-role_name`} className="block text-sm font-medium text-gray-700 mb-1">
+          Role *
+        </label>
+        <input
+          type="text"
+          id={`${idPrefix}-role_name`}
+          name="role_name"
+          required
+          defaultValue={requirement?.role_name}
+          className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          placeholder="e.g., Drone Operator"
+        />
+        <p className="mt-1 text-sm text-gray-500">
+          Matches job roles with the same name, ignoring capitals.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Approval */}
+        <div>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1">
+            <input
+              type="checkbox"
+              name="requires_approval"
+              defaultChecked={requirement ? requirement.requires_approval : true}
+              className="rounded border-gray-300"
+            />
+            Only employees approved for this role
+          </label>
+          <label htmlFor={`${idPrefix}-min_skill_level`} className="block text-sm text-gray-600 mt-2 mb-1">
+            Minimum skill level
+          </label>
+          <select
+            id={`${idPrefix}-min_skill_level`}
+            name="min_skill_level"
+            defaultValue={requirement?.min_skill_level || ""}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">Any approved level</option>
+            {SKILL_LEVELS.map(level => (
+              <option key={level} value={level}>{SKILL_LEVEL_LABELS[level]}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Certifications */}
+        <div>
+          <label htmlFor={`${idPrefix}-required_certifications`} className="block text-sm font-medium text-gray-700 mb-1">
+            Required certifications
+          </label>
+          <textarea
+            id={`${idPrefix}-required_certifications`}
+            name="required_certifications"
+            rows={3}
+            defaultValue={requirement?.required_certifications.join("\n")}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            placeholder={"One per line, e.g.\nFAA Part 107"}
+          ></textarea>
+          <p className="mt-1 text-sm text-gray-500">
+            Must be valid on the day of the shift.
+          </p>
+        </div>
+      </div>
+    </>
+  );
+}
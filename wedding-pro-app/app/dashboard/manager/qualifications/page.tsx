@@ -0,0 +1,337 @@
+import { createClient } from "@/utils/supabase/server";
+import { isManager } from "@/utils/supabase/auth-helpers";
+import {
+  approveEmployeeRole,
+  deleteCertification,
+  deleteRoleRequirement,
+  getRoleRequirements,
+  getTeamQualifications,
+  removeRoleApproval,
+  saveCertification,
+  saveRoleRequirement
+} from "@/app/actions/qualifications";
+import {
+  CERTIFICATION_REMINDER_DAYS,
+  describeCertificationExpiry,
+  describeRoleRequirement,
+  getCertificationStatus,
+  SKILL_LEVEL_LABELS,
+  SKILL_LEVELS
+} from "@/app/actions/qualifications/client-utils";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { SubmitButton } from "@/components/submit-button";
+import { FormMessage, Message } from "@/components/form-message";
+import RequirementFields from "./components/requirement-fields";
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+
+const statusClasses = {
+  valid: "text-gray-500",
+  expiring: "text-amber-700 font-medium",
+  expired: "text-red-700 font-medium"
+};
+
+const inputClass = "w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500";
+
+export default async function QualificationsPage({ searchParams }: { searchParams: Promise<Message> }) {
+  const message = await searchParams;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/sign-in");
+  }
+
+  // Check if user is manager
+  const hasAccess = await isManager();
+  if (!hasAccess) {
+    redirect("/dashboard");
+  }
+
+  const [{ data: requirementsData }, { data: teamData, error: teamError }] = await Promise.all([
+    getRoleRequirements(),
+    getTeamQualifications()
+  ]);
+  const requirements = requirementsData || [];
+  const team = teamData || [];
+
+  const attention = team
+    .flatMap(employee => employee.certifications.map(certification => ({ employee, certification })))
+    .filter(({ certification }) => getCertificationStatus(certification) !== 'valid')
+    .sort((a, b) => (a.certification.expires_on || '').localeCompare(b.certification.expires_on || ''));
+
+  return (
+    <div>
+      <div className="flex items-center mb-6">
+        <Link
+          href="/dashboard/manager/jobs"
+          className="text-blue-600 hover:text-blue-800 mr-4"
+        >
+          &larr; Back to Jobs
+        </Link>
+        <h1 className="text-3xl font-bold">Qualifications</h1>
+      </div>
+
+      {Object.keys(message).length > 0 && (
+        <div className="mb-6">
+          <FormMessage message={message} />
+        </div>
+      )}
+
+      {attention.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-1">Expiring Certifications</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Expired or expiring in the next {CERTIFICATION_REMINDER_DAYS} days. Employees and managers get a reminder
+            when a certification enters this window.
+          </p>
+          <ul className="border-t border-gray-200 divide-y divide-gray-200">
+            {attention.map(({ employee, certification }) => {
+              const status = getCertificationStatus(certification);
+              return (
+                <li key={certification.id} className="py-3 flex justify-between text-sm">
+                  <span>
+                    <span className="font-medium text-gray-900">{employee.full_name || 'Unnamed employee'}</span>
+                    <span className="text-gray-500"> &middot; {certification.name}</span>
+                  </span>
+                  <span className={statusClasses[status]}>
+                    {describeCertificationExpiry(certification)} ({formatDate(certification.expires_on!)})
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <h2 className="text-xl font-semibold mb-1">Role Requirements</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Employees only see roles they are qualified for as open to them, and can only be assigned to them if you
+          override. Roles without requirements are open to everyone.
+        </p>
+
+        {requirements.length > 0 ? (
+          <div className="border-t border-gray-200 divide-y divide-gray-200">
+            {requirements.map((requirement) => (
+              <div key={requirement.id} className="py-4">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="font-medium text-gray-900">{requirement.role_name}</h3>
+                    <p className="text-sm text-gray-600">{describeRoleRequirement(requirement)}</p>
+                  </div>
+                  <form action={deleteRoleRequirement}>
+                    <input type="hidden" name="requirementId" value={requirement.id} />
+                    <button type="submit" className="text-red-600 hover:text-red-900 text-sm">
+                      Remove
+                    </button>
+                  </form>
+                </div>
+
+                <details className="mt-2">
+                  <summary className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+                    Edit requirements
+                  </summary>
+                  <form action={saveRoleRequirement} className="space-y-4 mt-4">
+                    <RequirementFields requirement={requirement} />
+                    <div className="flex justify-end">
+                      <SubmitButton>Save Requirements</SubmitButton>
+                    </div>
+                  </form>
+                </details>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 italic">
+            No requirements yet. Add one below for roles that need approval or a certification, like drone work.
+          </p>
+        )}
+
+        <details className="mt-4">
+          <summary className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+            Add role requirements
+          </summary>
+          <form action={saveRoleRequirement} className="space-y-4 mt-4">
+            <RequirementFields />
+            <div className="flex justify-end">
+              <SubmitButton>Add Requirements</SubmitButton>
+            </div>
+          </form>
+        </details>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <h2 className="text-xl font-semibold mb-4">Team</h2>
+
+        {teamError ? (
+          <p className="text-red-600">{teamError}</p>
+        ) : team.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Employee</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Approved Roles</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Certifications</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {team.map(employee => (
+                  <tr key={employee.user_id} className="align-top">
+                    <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {employee.full_name || 'Unnamed employee'}
+                      {employee.email && <div className="text-xs font-normal text-gray-500">{employee.email}</div>}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {employee.approvals.length > 0 ? (
+                        <ul className="space-y-1">
+                          {employee.approvals.map(approval => (
+                            <li key={approval.id} className="flex items-center gap-2">
+                              <span>{approval.role_name}</span>
+                              <span className="text-gray-500">{SKILL_LEVEL_LABELS[approval.skill_level]}</span>
+                              <form action={removeRoleApproval}>
+                                <input type="hidden" name="approvalId" value={approval.id} />
+                                <button type="submit" className="text-red-600 hover:text-red-900 text-xs">
+                                  Remove
+                                </button>
+                              </form>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <span className="text-gray-400">None</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {employee.certifications.length > 0 ? (
+                        <ul className="space-y-1">
+                          {employee.certifications.map(certification => (
+                            <li key={certification.id} className="flex items-center gap-2">
+                              <span>
+                                {certification.name}
+                                {certification.certificate_number && (
+                                  <span className="text-gray-500"> #{certification.certificate_number}</span>
+                                )}
+                              </span>
+                              <span className={statusClasses[getCertificationStatus(certification)]}>
+                                {describeCertificationExpiry(certification)}
+                              </span>
+                              <form action={deleteCertification}>
+                                <input type="hidden" name="certificationId" value={certification.id} />
+                                <button type="submit" className="text-red-600 hover:text-red-900 text-xs">
+                                  Delete
+                                </button>
+                              </form>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <span className="text-gray-400">None</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 italic">No approved employees yet.</p>
+        )}
+      </div>
+
+      {team.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold mb-1">Approve for a Role</h2>
+            <p className="text-sm text-gray-500 mb-4">Approving someone again changes their skill level.</p>
+            <form action={approveEmployeeRole} className="space-y-4">
+              <div>
+                <label htmlFor="approve-userId" className="block text-sm font-medium text-gray-700 mb-1">Employee *</label>
+                <select id="approve-userId" name="userId" required className={inputClass}>
+                  {team.map(employee => (
+                    <option key={employee.user_id} value={employee.user_id}>
+                      {employee.full_name || employee.email || 'Unnamed employee'}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="approve-role_name" className="block text-sm font-medium text-gray-700 mb-1">Role *</label>
+                <input
+                  type="text"
+                  id="approve-role_name"
+                  name="role_name"
+                  required
+                  list="requirement-roles"
+                  className={inputClass}
+                  placeholder="e.g., Drone Operator"
+                />
+                <datalist id="requirement-roles">
+                  {requirements.map(requirement => (
+                    <option key={requirement.id} value={requirement.role_name} />
+                  ))}
+                </datalist>
+              </div>
+              <div>
+                <label htmlFor="approve-skill_level" className="block text-sm font-medium text-gray-700 mb-1">Skill level *</label>
+                <select id="approve-skill_level" name="skill_level" defaultValue="experienced" className={inputClass}>
+                  {SKILL_LEVELS.map(level => (
+                    <option key={level} value={level}>{SKILL_LEVEL_LABELS[level]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex justify-end">
+                <SubmitButton pendingText="Approving...">Approve</SubmitButton>
+              </div>
+            </form>
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold mb-1">Record a Certification</h2>
+            <p className="text-sm text-gray-500 mb-4">Recording one with the same name again renews it.</p>
+            <form action={saveCertification} className="space-y-4">
+              <div>
+                <label htmlFor="cert-userId" className="block text-sm font-medium text-gray-700 mb-1">Employee *</label>
+                <select id="cert-userId" name="userId" required className={inputClass}>
+                  {team.map(employee => (
+                    <option key={employee.user_id} value={employee.user_id}>
+                      {employee.full_name || employee.email || 'Unnamed employee'}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="cert-name" className="block text-sm font-medium text-gray-700 mb-1">Certification *</label>
+                  <input type="text" id="cert-name" name="name" required className={inputClass} placeholder="e.g., FAA Part 107" />
+                </div>
+                <div>
+                  <label htmlFor="cert-number" className="block text-sm font-medium text-gray-700 mb-1">Certificate number</label>
+                  <input type="text" id="cert-number" name="certificate_number" className={inputClass} />
+                </div>
+                <div>
+                  <label htmlFor="cert-issued_on" className="block text-sm font-medium text-gray-700 mb-1">Issued</label>
+                  <input type="date" id="cert-issued_on" name="issued_on" className={inputClass} />
+                </div>
+                <div>
+                  <label htmlFor="cert-expires_on" className="block text-sm font-medium text-gray-700 mb-1">Expires</label>
+                  <input type="date" id="cert-expires_on" name="expires_on" className={inputClass} />
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <SubmitButton pendingText="Saving...">Save Certification</SubmitButton>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { createClient } from "@/utils/supabase/server";
+import { isManager } from "@/utils/supabase/auth-helpers";
+import { approveShiftSwap, getShiftSwapsForApproval, rejectShiftSwap } from "@/app/actions/shift-swaps";
+import { SHIFT_SWAP_KIND_LABELS, SHIFT_SWAP_STATUS_LABELS } from "@/app/actions/shift-swaps/client-utils";
+import type { ShiftSwapDetails, ShiftSwapSlot } from "@/app/actions/shift-swaps/types";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { SubmitButton } from "@/components/submit-button";
+import { FormMessage, Message } from "@/components/form-message";
+
+const inputClass = "w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500";
+
+const formatSlotTime = (slot: ShiftSwapSlot) => {
+  const start = new Date(slot.start_time);
+  return `${start.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}, ` +
+    `${start.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`;
+};
+
+function SlotLink({ slot }: { slot: ShiftSwapSlot }) {
+  return (
+    <Link href={`/dashboard/manager/jobs/${slot.job_id}`} className="text-blue-600 hover:text-blue-800">
+      {slot.role_name} on {slot.job_title}
+      {slot.shift_name && slot.shift_name !== 'Main' ? ` – ${slot.shift_name}` : ''}
+    </Link>
+  );
+}
+
+function Trade({ post }: { post: ShiftSwapDetails }) {
+  const posterName = post.poster?.full_name || 'Unnamed employee';
+  const claimantName = post.claimant?.full_name || 'Unnamed employee';
+
+  return (
+    <div className="text-sm text-gray-700 space-y-1">
+      <p>
+        <span className="font-medium text-gray-900">{claimantName}</span> takes <SlotLink slot={post.slot} />{' '}
+        <span className="text-gray-500">({formatSlotTime(post.slot)})</span> from{' '}
+        <span className="font-medium text-gray-900">{posterName}</span>
+      </p>
+      {post.claimed_slot && (
+        <p>
+          <span className="font-medium text-gray-900">{posterName}</span> takes <SlotLink slot={post.claimed_slot} />{' '}
+          <span className="text-gray-500">({formatSlotTime(post.claimed_slot)})</span> in return
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default async function ShiftSwapApprovalsPage({ searchParams }: { searchParams: Promise<Message> }) {
+  const message = await searchParams;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/sign-in");
+  }
+
+  // Check if user is manager
+  const hasAccess = await isManager();
+  if (!hasAccess) {
+    redirect("/dashboard");
+  }
+
+  const { data: swaps, error } = await getShiftSwapsForApproval();
+  const pending = swaps?.pending || [];
+  const open = swaps?.open || [];
+  const recent = swaps?.recent || [];
+
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6">Shift Swaps</h1>
+
+      {Object.keys(message).length > 0 && (
+        <div className="mb-6">
+          <FormMessage message={message} />
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-white rounded-lg shadow p-6 mb-6 text-red-500">
+          Error loading shift swaps: {error}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <h2 className="text-xl font-semibold mb-1">Waiting for Approval</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Approving moves the assignment, and the person&apos;s place in the job&apos;s group chat, to the new employee.
+          The poster stays booked until you approve.
+        </p>
+
+        {pending.length > 0 ? (
+          <div className="border-t border-gray-200 divide-y divide-gray-200">
+            {pending.map((post) => (
+              <div key={post.id} className="py-4 space-y-3">
+                <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3">
+                  <div>
+                    <p className="text-xs uppercase tracking-wider text-gray-500 mb-1">
+                      {SHIFT_SWAP_KIND_LABELS[post.kind]}
+                      {post.claimed_at && <> &middot; claimed {new Date(post.claimed_at).toLocaleString()}</>}
+                    </p>
+                    <Trade post={post} />
+                    {post.note && <p className="text-sm text-gray-500 mt-1">&ldquo;{post.note}&rdquo;</p>}
+                    {post.problems.length > 0 && (
+                      <ul className="mt-2 text-sm text-red-700 list-disc list-inside">
+                        {post.problems.map((problem) => (
+                          <li key={problem}>{problem}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                  <form action={approveShiftSwap}>
+                    <input type="hidden" name="postId" value={post.id} />
+                    <SubmitButton pendingText="Approving..." disabled={post.problems.length > 0}>Approve</SubmitButton>
+                  </form>
+                </div>
+                <details>
+                  <summary className="text-sm text-red-600 hover:text-red-800 cursor-pointer">Reject</summary>
+                  <form action={rejectShiftSwap} className="mt-2 flex flex-col md:flex-row gap-2">
+                    <input type="hidden" name="postId" value={post.id} />
+                    <label htmlFor={`reason-${post.id}`} className="sr-only">Reason</label>
+                    <input
+                      type="text"
+                      id={`reason-${post.id}`}
+                      name="reason"
+                      placeholder="Reason (optional, shared with both employees)"
+                      className={inputClass}
+                    />
+                    <SubmitButton variant="outline" pendingText="Rejecting...">Reject Swap</SubmitButton>
+                  </form>
+                </details>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No swaps are waiting for approval.</p>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <h2 className="text-xl font-semibold mb-1">Open Posts</h2>
+        <p className="text-sm text-gray-500 mb-4">Shifts employees have posted that nobody has claimed yet.</p>
+
+        {open.length > 0 ? (
+          <ul className="border-t border-gray-200 divide-y divide-gray-200">
+            {open.map((post) => (
+              <li key={post.id} className="py-3 flex justify-between text-sm">
+                <span>
+                  <SlotLink slot={post.slot} />
+                  <span className="text-gray-500"> &middot; {formatSlotTime(post.slot)}</span>
+                </span>
+                <span className="text-gray-500">
+                  {SHIFT_SWAP_KIND_LABELS[post.kind]} by {post.poster?.full_name || 'Unnamed employee'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">No open posts.</p>
+        )}
+      </div>
+
+      {recent.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-xl font-semibold mb-4">Recent Decisions</h2>
+          <div className="border-t border-gray-200 divide-y divide-gray-200">
+            {recent.map((post) => (
+              <div key={post.id} className="py-3">
+                <p className={`text-xs uppercase tracking-wider mb-1 ${post.status === 'approved' ? 'text-green-700' : 'text-red-700'}`}>
+                  {SHIFT_SWAP_STATUS_LABELS[post.status]}
+                  {post.reviewed_at && <> &middot; {new Date(post.reviewed_at).toLocaleString()}</>}
+                </p>
+                <Trade post={post} />
+                {post.review_note && <p className="text-sm text-gray-500 mt-1">Reason: {post.review_note}</p>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
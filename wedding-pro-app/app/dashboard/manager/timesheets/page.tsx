@@ -0,0 +1,243 @@
+import { createClient } from "@/utils/supabase/server";
+import { isManager } from "@/utils/supabase/auth-helpers";
+import { approveTimesheet, getTimesheetsForReview, rejectTimesheet } from "@/app/actions/timesheets";
+import type { TimesheetWithDetails } from "@/app/actions/timesheets/types";
+import {
+  describeGeofence,
+  getOnTimeCompletion,
+  getPayableHours,
+  getWorkedHours,
+  TIMESHEET_STATUS_LABELS,
+  wasOnTime
+} from "@/app/actions/timesheets/client-utils";
+import { calculateExpectedEarnings } from "@/app/actions/role-compensation/client-utils";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { SubmitButton } from "@/components/submit-button";
+import { FormMessage, Message } from "@/components/form-message";
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+const formatTime = (dateString: string) =>
+  new Date(dateString).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+/**
+ * Who, where and when for a timesheet, shared by both lists
+ */
+function TimesheetSummary({ timesheet }: { timesheet: TimesheetWithDetails }) {
+  const onTime = wasOnTime(timesheet, timesheet.scheduled);
+
+  return (
+    <div>
+      <h3 className="font-medium text-gray-900">
+        {timesheet.employee?.full_name || 'Unknown employee'}
+        <span className="font-normal text-gray-600"> &middot; {timesheet.role?.role_name || 'Crew'}</span>
+      </h3>
+      <p className="text-sm text-gray-600">
+        {timesheet.job ? (
+          <Link href={`/dashboard/manager/jobs/${timesheet.job.id}`} className="text-blue-600 hover:text-blue-800">
+            {timesheet.job.title}
+          </Link>
+        ) : 'Unknown job'}
+        {timesheet.shift_name && timesheet.shift_name !== 'Main' && <> &ndash; {timesheet.shift_name}</>}
+      </p>
+      <p className="text-sm text-gray-600">
+        Scheduled {formatDateTime(timesheet.scheduled.call_time || timesheet.scheduled.start_time)} - {formatTime(timesheet.scheduled.end_time)}
+      </p>
+      <p className="text-sm text-gray-600">
+        In {formatDateTime(timesheet.clock_in_at)}
+        <span className={timesheet.clock_in_within_geofence === false ? "text-red-600" : "text-gray-500"}>
+          {' '}({describeGeofence(timesheet.clock_in_distance_meters, timesheet.clock_in_within_geofence, timesheet.clock_in_latitude !== null)})
+        </span>
+      </p>
+      {timesheet.clock_out_at && (
+        <p className="text-sm text-gray-600">
+          Out {formatDateTime(timesheet.clock_out_at)}
+          <span className={timesheet.clock_out_within_geofence === false ? "text-red-600" : "text-gray-500"}>
+            {' '}({describeGeofence(timesheet.clock_out_distance_meters, timesheet.clock_out_within_geofence, timesheet.clock_out_latitude !== null)})
+          </span>
+        </p>
+      )}
+      {onTime === false && (
+        <p className="text-sm text-yellow-700">Arrived after the call time or left before the end</p>
+      )}
+    </div>
+  );
+}
+
+export default async function TimesheetsPage({ searchParams }: { searchParams: Promise<Message> }) {
+  const message = await searchParams;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/sign-in");
+  }
+
+  // Check if user is manager
+  const hasAccess = await isManager();
+  if (!hasAccess) {
+    redirect("/dashboard");
+  }
+
+  const { data: pendingData } = await getTimesheetsForReview(['submitted']);
+  const pending = pendingData || [];
+  const { data: reviewedData } = await getTimesheetsForReview(['approved', 'rejected']);
+  const reviewed = reviewedData || [];
+  const { data: openData } = await getTimesheetsForReview(['open']);
+  const clockedIn = openData || [];
+
+  const onTimeCompletion = getOnTimeCompletion(
+    reviewed.map(timesheet => ({ timesheet, scheduled: timesheet.scheduled }))
+  );
+
+  return (
+    <div>
+      <div className="flex items-center mb-6">
+        <Link
+          href="/dashboard/manager/jobs"
+          className="text-blue-600 hover:text-blue-800 mr-4"
+        >
+          &larr; Back to Jobs
+        </Link>
+        <h1 className="text-3xl font-bold">Timesheets</h1>
+      </div>
+
+      {Object.keys(message).length > 0 && (
+        <div className="mb-6">
+          <FormMessage message={message} />
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm text-gray-500">Awaiting Approval</p>
+          <p className="text-3xl font-bold">{pending.length}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm text-gray-500">Clocked In Now</p>
+          <p className="text-3xl font-bold">{clockedIn.length}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm text-gray-500">On-time Completion</p>
+          <p className="text-3xl font-bold">
+            {onTimeCompletion.percent === null ? '–' : `${onTimeCompletion.percent}%`}
+          </p>
+          <p className="text-xs text-gray-500">
+            {onTimeCompletion.onTime} of {onTimeCompletion.total} approved timesheets arrived by the call time and stayed to the end
+          </p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <h2 className="text-xl font-semibold mb-1">Awaiting Approval</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Approved hours are what the employee is paid for, including overtime. They default to the time between clocking in and out.
+        </p>
+
+        {pending.length > 0 ? (
+          <div className="border-t border-gray-200 divide-y divide-gray-200">
+            {pending.map((timesheet) => {
+              const workedHours = getWorkedHours(timesheet.clock_in_at, timesheet.clock_out_at);
+              return (
+                <div key={timesheet.id} className="py-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <TimesheetSummary timesheet={timesheet} />
+                  <div className="space-y-3">
+                    <form action={approveTimesheet} className="flex flex-wrap items-end gap-2">
+                      <input type="hidden" name="timesheetId" value={timesheet.id} />
+                      <div>
+                        <label htmlFor={`hours-${timesheet.id}`} className="block text-xs font-medium text-gray-700 mb-1">
+                          Hours
+                        </label>
+                        <input
+                          type="number"
+                          id={`hours-${timesheet.id}`}
+                          name="approved_hours"
+                          min={0}
+                          max={48}
+                          step="0.01"
+                          defaultValue={workedHours ?? undefined}
+                          className="w-24 px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                      <input
+                        type="text"
+                        name="review_note"
+                        aria-label="Note"
+                        placeholder="Note (optional)"
+                        className="flex-1 min-w-[8rem] px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <SubmitButton>Approve</SubmitButton>
+                    </form>
+                    <form action={rejectTimesheet} className="flex flex-wrap items-end gap-2">
+                      <input type="hidden" name="timesheetId" value={timesheet.id} />
+                      <input
+                        type="text"
+                        name="review_note"
+                        aria-label="Reason for rejecting"
+                        required
+                        placeholder="Reason for rejecting"
+                        className="flex-1 min-w-[8rem] px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <button type="submit" className="px-4 py-2 rounded-md text-sm font-medium text-red-600 border border-red-300 hover:bg-red-50">
+                        Reject
+                      </button>
+                    </form>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 italic">No timesheets are waiting for approval.</p>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-semibold mb-4">Recently Reviewed</h2>
+
+        {reviewed.length > 0 ? (
+          <div className="border-t border-gray-200 divide-y divide-gray-200">
+            {reviewed.map((timesheet) => {
+              const payableHours = getPayableHours(timesheet);
+              const earnings = payableHours !== null && timesheet.role
+                ? calculateExpectedEarnings(timesheet.role, payableHours)
+                : null;
+              return (
+                <div key={timesheet.id} className="py-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <TimesheetSummary timesheet={timesheet} />
+                  <div className="text-sm">
+                    <p className={timesheet.status === 'approved' ? "font-medium text-green-700" : "font-medium text-red-700"}>
+                      {TIMESHEET_STATUS_LABELS[timesheet.status]}
+                      {payableHours !== null && <> &middot; {payableHours} hr</>}
+                    </p>
+                    {earnings && (
+                      <p className="text-gray-600">
+                        Pay ${earnings.total.toFixed(2)}
+                        {earnings.overtime_hours > 0 && (
+                          <> (includes {earnings.overtime_hours} hr overtime, ${earnings.overtime_pay.toFixed(2)})</>
+                        )}
+                      </p>
+                    )}
+                    {timesheet.review_note && (
+                      <p className="text-gray-600 italic">{timesheet.review_note}</p>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 italic">No reviewed timesheets yet.</p>
+        )}
+      </div>
+    </div>
+  );
+}
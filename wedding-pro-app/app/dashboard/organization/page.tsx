@@ -3,8 +3,23 @@ import { getCurrentUserProfile, isAdmin } from "@/utils/supabase/auth-helpers";
 import { redirect } from "next/navigation";
 import HoneyBookIntegration from "./components/honeybook-integration";
 import { FEATURES } from "@/utils/feature-flags";
+import { updateCancellationPolicy } from "@/app/actions/jobs";
+import { updateClockInRadius } from "@/app/actions/timesheets";
+import { DEFAULT_CLOCK_IN_RADIUS_METERS } from "@/app/actions/timesheets/client-utils";
+import { updateTurnaroundBuffer } from "@/app/actions/job-shifts";
+import { DEFAULT_TURNAROUND_BUFFER_MINUTES } from "@/app/actions/job-shifts/client-utils";
+import { TIGHT_TURNAROUND_MINUTES } from "@/utils/timeUtils";
+import { updateStandbyOfferWindow } from "@/app/actions/standby";
+import { DEFAULT_STANDBY_OFFER_HOURS } from "@/app/actions/standby/client-utils";
+import { updateAssignmentOfferWindow } from "@/app/actions/assignment-offers";
+import { DEFAULT_ASSIGNMENT_OFFER_HOURS } from "@/app/actions/assignment-offers/client-utils";
+import { FormMessage, Message } from "@/components/form-message";
+import { SubmitButton } from "@/components/submit-button";
 
-export default async function OrganizationPage() {
+export default async function OrganizationPage(props: {
+  searchParams: Promise<Message>;
+}) {
+  const message = await props.searchParams;
   const supabase = await createClient();
   const { data: { user } } = await supabase.auth.getUser();
   
@@ -53,6 +68,12 @@ export default async function OrganizationPage() {
     <div>
       <h1 className="text-3xl font-bold mb-6">Organization</h1>
       
+      {Object.keys(message).length > 0 && (
+        <div className="mb-6">
+          <FormMessage message={message} />
+        </div>
+      )}
+      
       <div className="bg-white rounded-lg shadow p-6 mb-6">
         <h2 className="text-xl font-semibold mb-4">{org.name}</h2>
         
@@ -121,6 +142,144 @@ export default async function OrganizationPage() {
             </p>
           </div>
           
+          <div>
+            <h3 className="text-lg font-medium mb-2">Cancellation Policy</h3>
+            <p className="text-gray-600 mb-2">
+              Cancelling a job with less notice than this owes each assigned staff member the fee below.
+              Fees are recorded with the job for payroll.
+            </p>
+            <form action={updateCancellationPolicy} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <label htmlFor="cancellation_notice_hours" className="block text-sm font-medium text-gray-700 mb-1">
+                  Notice Period (hours)
+                </label>
+                <input
+                  type="number"
+                  id="cancellation_notice_hours"
+                  name="cancellation_notice_hours"
+                  min="0"
+                  step="1"
+                  defaultValue={org.cancellation_notice_hours ?? 72}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="cancellation_fee_amount" className="block text-sm font-medium text-gray-700 mb-1">
+                  Fee per Staff Member ($)
+                </label>
+                <input
+                  type="number"
+                  id="cancellation_fee_amount"
+                  name="cancellation_fee_amount"
+                  min="0"
+                  step="0.01"
+                  defaultValue={org.cancellation_fee_amount ?? 0}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <SubmitButton pendingText="Saving...">Save Policy</SubmitButton>
+            </form>
+          </div>
+          
+          <div>
+            <h3 className="text-lg font-medium mb-2">Clock-in Geofence</h3>
+            <p className="text-gray-600 mb-2">
+              Clock-ins and clock-outs further than this from the venue are flagged on the timesheet for review.
+            </p>
+            <form action={updateClockInRadius} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <label htmlFor="clock_in_radius_meters" className="block text-sm font-medium text-gray-700 mb-1">
+                  Radius (meters)
+                </label>
+                <input
+                  type="number"
+                  id="clock_in_radius_meters"
+                  name="clock_in_radius_meters"
+                  min="1"
+                  step="1"
+                  defaultValue={org.clock_in_radius_meters ?? DEFAULT_CLOCK_IN_RADIUS_METERS}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <SubmitButton pendingText="Saving...">Save Radius</SubmitButton>
+            </form>
+          </div>
+          
+          <div>
+            <h3 className="text-lg font-medium mb-2">Turnaround Buffer</h3>
+            <p className="text-gray-600 mb-2">
+              Time allowed to pack down and set up between back-to-back jobs, on top of the drive between venues.
+              Bookings without enough time are conflicts; those with less than {TIGHT_TURNAROUND_MINUTES} minutes to spare are flagged as tight.
+            </p>
+            <form action={updateTurnaroundBuffer} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <label htmlFor="turnaround_buffer_minutes" className="block text-sm font-medium text-gray-700 mb-1">
+                  Buffer (minutes)
+                </label>
+                <input
+                  type="number"
+                  id="turnaround_buffer_minutes"
+                  name="turnaround_buffer_minutes"
+                  min="0"
+                  step="1"
+                  defaultValue={org.turnaround_buffer_minutes ?? DEFAULT_TURNAROUND_BUFFER_MINUTES}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <SubmitButton pendingText="Saving...">Save Buffer</SubmitButton>
+            </form>
+          </div>
+          
+          <div>
+            <h3 className="text-lg font-medium mb-2">Standby Offer Window</h3>
+            <p className="text-gray-600 mb-2">
+              How long a standby has to accept a slot that opens up before it&apos;s offered to the next person on the list.
+              Offers close when the shift starts if that&apos;s sooner.
+            </p>
+            <form action={updateStandbyOfferWindow} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <label htmlFor="standby_offer_hours" className="block text-sm font-medium text-gray-700 mb-1">
+                  Window (hours)
+                </label>
+                <input
+                  type="number"
+                  id="standby_offer_hours"
+                  name="standby_offer_hours"
+                  min="1"
+                  step="1"
+                  defaultValue={org.standby_offer_hours ?? DEFAULT_STANDBY_OFFER_HOURS}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <SubmitButton pendingText="Saving...">Save Window</SubmitButton>
+            </form>
+          </div>
+          
+          <div>
+            <h3 className="text-lg font-medium mb-2">Assignment Offer Window</h3>
+            <p className="text-gray-600 mb-2">
+              How long an employee has to accept or decline a role sent as an offer. Unanswered offers expire and the slot
+              opens again. Offers close when the shift starts if that&apos;s sooner.
+            </p>
+            <form action={updateAssignmentOfferWindow} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <label htmlFor="assignment_offer_hours" className="block text-sm font-medium text-gray-700 mb-1">
+                  Window (hours)
+                </label>
+                <input
+                  type="number"
+                  id="assignment_offer_hours"
+                  name="assignment_offer_hours"
+                  min="1"
+                  step="1"
+                  defaultValue={org.assignment_offer_hours ?? DEFAULT_ASSIGNMENT_OFFER_HOURS}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <SubmitButton pendingText="Saving...">Save Window</SubmitButton>
+            </form>
+          </div>
+          
           {/* HoneyBook Integration Section - conditionally rendered based on feature flag */}
           {FEATURES.SHOW_HONEYBOOK_INTEGRATION && <HoneyBookIntegration />}
         </div>
@@ -2,6 +2,12 @@ import { createClient } from "@/utils/supabase/server";
 import { getCurrentUserProfile } from "@/utils/supabase/auth-helpers";
 import { redirect } from "next/navigation";
 import { NotificationPreferences } from "@/components/notifications/notification-preferences";
+import { getMyQualifications } from "@/app/actions/qualifications";
+import {
+  describeCertificationExpiry,
+  getCertificationStatus,
+  SKILL_LEVEL_LABELS
+} from "@/app/actions/qualifications/client-utils";
 
 export default async function ProfilePage() {
   const supabase = await createClient();
@@ -35,6 +41,11 @@ export default async function ProfilePage() {
     
     org = orgData;
   }
+  
+  // Employees see the roles they're approved for and their certifications
+  const { data: qualifications } = profile.role === 'Employee' && profile.org_id
+    ? await getMyQualifications()
+    : { data: null };
 
   return (
     <div>
@@ -93,6 +104,56 @@ export default async function ProfilePage() {
         </div>
       </div>
       
+      {qualifications && (
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-1">Qualifications</h2>
+          <p className="text-gray-600 text-sm mb-4">
+            Some roles need approval or a certification. Ask your manager to update these.
+          </p>
+          
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <p className="text-gray-600 text-sm mb-1">Approved Roles</p>
+              {qualifications.approvals.length > 0 ? (
+                <ul className="space-y-1">
+                  {qualifications.approvals.map(approval => (
+                    <li key={approval.id} className="font-medium">
+                      {approval.role_name}
+                      <span className="font-normal text-gray-500"> &middot; {SKILL_LEVEL_LABELS[approval.skill_level]}</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-gray-500">None yet</p>
+              )}
+            </div>
+            
+            <div>
+              <p className="text-gray-600 text-sm mb-1">Certifications</p>
+              {qualifications.certifications.length > 0 ? (
+                <ul className="space-y-1">
+                  {qualifications.certifications.map(certification => {
+                    const status = getCertificationStatus(certification);
+                    return (
+                      <li key={certification.id} className="font-medium">
+                        {certification.name}
+                        <span className={`font-normal ${
+                          status === 'expired' ? 'text-red-700' : status === 'expiring' ? 'text-amber-700' : 'text-gray-500'
+                        }`}>
+                          {' '}&middot; {describeCertificationExpiry(certification)}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              ) : (
+                <p className="text-gray-500">None yet</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+      
       <div className="bg-white rounded-lg shadow p-6">
         <h2 className="text-xl font-semibold mb-4">Security</h2>
         
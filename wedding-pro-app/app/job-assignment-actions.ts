@@ -3,7 +3,23 @@
 import { createClient } from "@/utils/supabase/server";
 import { getCurrentUserProfile, isManager } from "@/utils/supabase/auth-helpers";
 import { revalidatePath } from "next/cache";
-import { hasTimeConflict } from "../utils/timeUtils";
+import { headers } from "next/headers";
+import { checkBookingTurnaround } from "./actions/job-shifts/utils";
+import { getFairnessRows } from "./actions/fairness/utils";
+import {
+  DEFAULT_FAIRNESS_PERIOD_DAYS,
+  getFairnessPeriod,
+  summarizeEmployeeFairness
+} from "./actions/fairness/client-utils";
+import type { EmployeeFairnessSummary } from "./actions/fairness/types";
+import type { InterestRole } from "./actions/job-interests/types";
+import { getQualificationContext } from "./actions/qualifications/utils";
+import { getEmployeeRoleEligibility } from "./actions/qualifications/client-utils";
+import type { RoleEligibility } from "./actions/qualifications/types";
+import { getAvailabilityForUsers } from "./actions/availability/utils";
+import { getAvailabilityConflict } from "./actions/availability/client-utils";
+import { countOpenAssignmentOffers, createAssignmentOffer } from "./actions/assignment-offers/utils";
+import { getStandbySlots } from "./actions/standby/utils";
 import {
   getEmployeeAddress,
   calculateDistance,
@@ -22,7 +38,8 @@ export type SortOption =
   | 'distance_asc' 
   | 'distance_desc' 
   | 'interestDate_asc' 
-  | 'interestDate_desc';
+  | 'interestDate_desc'
+  | 'fairness_desc';
 
 /**
  * Interested employee with additional calculated fields
@@ -31,7 +48,10 @@ export type InterestedEmployee = {
   id: string;
   user_id: string;
   job_id: string;
+  shift_id: string | null;
+  shift_name?: string | null;
   expressed_at: string;
+  roles: InterestRole[]; // Roles wanted, first choice first; empty means any role
   profile: {
     id: string;
     full_name: string;
@@ -44,6 +64,9 @@ export type InterestedEmployee = {
   };
   distance?: number | null;
   last_assignment_date?: string | null;
+  fairness?: EmployeeFairnessSummary | null; // Interest and bookings over the last 90 days
+  eligibility?: Record<string, RoleEligibility>; // Qualification for each of the job's roles, by job_required_role_id
+  availability_conflict?: string | null; // Why the shift (or job) is outside the employee's stated availability
 };
 
 /**
@@ -82,12 +105,17 @@ export async function getInterestedEmployeesForJob(
       .select(`
         id,
         org_id,
+        start_time,
+        end_time,
         venue_id,
         venue:venue_id (
           id, name, address, city, state, zip
         ),
         job_required_roles (
-          id, role_name, quantity_needed
+          id, role_name, quantity_needed, shift_id
+        ),
+        job_shifts (
+          id, name, start_time, end_time
         )
       `)
       .eq('id', jobId)
@@ -110,9 +138,13 @@ export async function getInterestedEmployeesForJob(
         id,
         user_id,
         job_id,
+        shift_id,
         expressed_at,
         profile:user_id (
           id, full_name, email, address, city, state, zip, role
+        ),
+        job_interest_roles (
+          job_required_role_id, preference_rank
         )
       `)
       .eq('job_id', jobId);
@@ -140,13 +172,21 @@ export async function getInterestedEmployeesForJob(
       return { error: "Failed to fetch current assignments" };
     }
     
-    // Calculate role capacity
+    // Calculate role capacity, per shift
+    const shiftsById = new Map<string, any>(
+      (job.job_shifts || []).map((shift: any) => [shift.id, shift])
+    );
     const roleCapacity = new Map();
     job.job_required_roles.forEach((role: any) => {
+      const shift = shiftsById.get(role.shift_id);
       roleCapacity.set(role.id, {
         role_name: role.role_name,
         quantity_needed: role.quantity_needed,
-        assigned: 0
+        assigned: 0,
+        offered: 0,
+        shift_id: role.shift_id ?? null,
+        shift_name: shift?.name ?? null,
+        shift_start_time: shift?.start_time ?? null
       });
     });
     
@@ -159,6 +199,14 @@ export async function getInterestedEmployeesForJob(
       }
     });
     
+    // Count offers still waiting on an answer; they hold their slots
+    const { data: openOffers } = await countOpenAssignmentOffers(supabase, Array.from(roleCapacity.keys()));
+    for (const [roleId, count] of Object.entries(openOffers || {})) {
+      if (roleCapacity.has(roleId)) {
+        roleCapacity.get(roleId).offered = count;
+      }
+    }
+    
     // Process each interested employee to add calculated fields
     const processedEmployees = await Promise.all(
       interestedEmployees.map(async (employee: any) => {
@@ -176,14 +224,74 @@ export async function getInterestedEmployeesForJob(
         // Get last assignment date
         const lastAssignment = await getLastAssignmentDate(employee.user_id);
         
+        const { job_interest_roles, ...interest } = employee;
+        
         return {
-          ...employee,
+          ...interest,
+          roles: [...(job_interest_roles || [])].sort(
+            (a: InterestRole, b: InterestRole) => a.preference_rank - b.preference_rank
+          ),
+          shift_name: shiftsById.get(employee.shift_id)?.name ?? null,
           distance,
           last_assignment_date: lastAssignment
         } as InterestedEmployee;
       })
     );
     
+    // Add how often each employee has been booked on the jobs they wanted lately
+    const { start, end } = getFairnessPeriod(DEFAULT_FAIRNESS_PERIOD_DAYS);
+    const { data: fairnessRows } = await getFairnessRows(
+      supabase,
+      profile.org_id,
+      start,
+      end,
+      Array.from(new Set<string>(processedEmployees.map(employee => employee.user_id)))
+    );
+    const fairnessByUser = new Map<string, EmployeeFairnessSummary>(
+      (fairnessRows || []).map(row => [row.user_id, summarizeEmployeeFairness(row)])
+    );
+    processedEmployees.forEach(employee => {
+      employee.fairness = fairnessByUser.get(employee.user_id) ?? null;
+    });
+    
+    // Flag the roles each employee isn't qualified for
+    const { data: qualifications } = await getQualificationContext(
+      supabase,
+      profile.org_id,
+      Array.from(new Set<string>(processedEmployees.map(employee => employee.user_id)))
+    );
+    if (qualifications) {
+      processedEmployees.forEach(employee => {
+        employee.eligibility = Object.fromEntries(
+          job.job_required_roles.map((role: any) => [
+            role.id,
+            getEmployeeRoleEligibility(
+              qualifications,
+              employee.user_id,
+              role.role_name,
+              shiftsById.get(role.shift_id)?.start_time || job.start_time
+            )
+          ])
+        );
+      });
+    }
+    
+    // Warn about employees who said they can't work the shift (or job) they're interested in
+    const { data: availability } = await getAvailabilityForUsers(
+      supabase,
+      profile.org_id,
+      Array.from(new Set<string>(processedEmployees.map(employee => employee.user_id)))
+    );
+    if (availability) {
+      processedEmployees.forEach(employee => {
+        const window = (employee.shift_id && shiftsById.get(employee.shift_id)) || job;
+        employee.availability_conflict = getAvailabilityConflict(
+          { start: window.start_time, end: window.end_time },
+          availability[employee.user_id]
+        );
+      });
+    }
+    
     // Sort the employees based on the sort option
     const sortedEmployees = sortEmployees(processedEmployees, sortOption);
     
@@ -201,17 +309,25 @@ export async function getInterestedEmployeesForJob(
 }
 
 /**
- * Assign a job to an employee
+ * Assign a job to an employee, for the shift the role belongs to
  * @param jobId The ID of the job
  * @param employeeId The ID of the employee
  * @param jobRequiredRoleId The ID of the job required role
- * @returns Object with success status and message
+ * @param options.overrideEligibility Assign even if the employee isn't qualified
+ * for the role; the override is recorded on the assignment
+ * @param options.sendAsOffer Offer the role instead of booking it; the employee
+ * is only assigned once they accept, and the offer holds the slot until then
+ * @returns Object with success status and message, and `ineligible` with the
+ * reasons when the employee isn't qualified. Tight turnarounds from another
+ * booking, and assignments outside the employee's stated availability, go
+ * ahead with a `warning` saying why.
  */
 export async function assignJobToEmployee(
   jobId: string,
   employeeId: string,
-  jobRequiredRoleId: string
-) {
+  jobRequiredRoleId: string,
+  options: { overrideEligibility?: boolean; sendAsOffer?: boolean } = {}
+): Promise<{ success: boolean; message?: string; warning?: string; error?: string; ineligible?: boolean; reasons?: string[] }> {
   const supabase = await createClient();
   
   // Check if user is logged in and is a manager
@@ -261,7 +377,7 @@ export async function assignJobToEmployee(
     // Verify the job required role exists and belongs to this job
     const { data: jobRequiredRole, error: roleError } = await supabase
       .from('job_required_roles')
-      .select('id, role_name, quantity_needed, job_id')
+      .select('id, role_name, quantity_needed, job_id, shift_id')
       .eq('id', jobRequiredRoleId)
       .eq('job_id', jobId)
       .single();
@@ -283,48 +399,130 @@ export async function assignJobToEmployee(
       return { success: false, error: "Failed to check assignment capacity" };
     }
     
-    if (existingAssignments.length >= jobRequiredRole.quantity_needed) {
+    // Offers waiting on an answer hold their slots
+    const { data: openOffers, error: offersError } = await countOpenAssignmentOffers(supabase, [jobRequiredRoleId]);
+    
+    if (offersError || !openOffers) {
+      return { success: false, error: offersError || "Failed to check assignment capacity" };
+    }
+    
+    if (existingAssignments.length + (openOffers[jobRequiredRoleId] || 0) >= jobRequiredRole.quantity_needed) {
       return { success: false, error: `All positions for ${jobRequiredRole.role_name} are already filled` };
     }
     
-    // Get employee's existing assignments to check for time conflicts
-    const { data: employeeAssignments, error: employeeAssignmentsError } = await supabase
-      .from('job_assignments')
-      .select(`
-        id,
-        job_id,
-        jobs (
+    // Get the shift this role belongs to; its window and venue override the job's
+    let shift: any = null;
+    if (jobRequiredRole.shift_id) {
+      const { data: shiftData, error: shiftError } = await supabase
+        .from('job_shifts')
+        .select(`
           id,
+          name,
           start_time,
-          end_time
-        )
-      `)
-      .eq('user_id', employeeId);
+          end_time,
+          call_time,
+          venue_id,
+          venue:venue_id (
+            id, name, address, city, state, zip
+          )
+        `)
+        .eq('id', jobRequiredRole.shift_id)
+        .single();
+      
+      if (shiftError || !shiftData) {
+        console.error("Error fetching job shift:", shiftError);
+        return { success: false, error: "Shift not found for this role" };
+      }
+      shift = shiftData;
+    }
     
-    if (employeeAssignmentsError) {
-      console.error("Error fetching employee assignments:", employeeAssignmentsError);
-      return { success: false, error: "Failed to check for time conflicts" };
+    const workWindow = shift || job;
+    
+    // Only qualified employees can be assigned, unless the manager overrides
+    const { data: qualifications, error: qualificationError } = await getQualificationContext(
+      supabase,
+      profile.org_id,
+      [employeeId]
+    );
+    
+    if (qualificationError || !qualifications) {
+      return { success: false, error: qualificationError || "Failed to check qualifications" };
     }
     
-    // Format assignments for time conflict check
-    const formattedAssignments = employeeAssignments.map(assignment => {
-      const jobData = assignment.jobs ? (Array.isArray(assignment.jobs) ? assignment.jobs[0] : assignment.jobs) : null;
+    const eligibility = getEmployeeRoleEligibility(
+      qualifications,
+      employeeId,
+      jobRequiredRole.role_name,
+      workWindow.start_time
+    );
+    if (!eligibility.eligible && !options.overrideEligibility) {
       return {
-        id: assignment.id,
-        job_id: assignment.job_id,
-        start_time: jobData?.start_time || '',
-        end_time: jobData?.end_time || ''
+        success: false,
+        error: `Employee isn't eligible for ${jobRequiredRole.role_name}: ${eligibility.reasons.join('; ')}`,
+        ineligible: true,
+        reasons: eligibility.reasons
       };
-    });
+    }
     
-    // Check for time conflicts with all assignments
-    const jobStart = job.start_time;
-    const jobEnd = job.end_time;
-    const conflict = formattedAssignments.some(a =>
-      hasTimeConflict(jobStart, jobEnd, a.start_time, a.end_time)
+    // Check the shift window (or the job window for roles without a shift) against the
+    // employee's bookings, allowing time to drive between venues and set up
+    const { data: turnaround, error: turnaroundError } = await checkBookingTurnaround(
+      supabase,
+      profile.org_id,
+      employeeId,
+      {
+        job_id: jobId,
+        start_time: workWindow.start_time,
+        end_time: workWindow.end_time,
+        venue_id: shift?.venue_id || job.venue_id
+      }
     );
-    if (conflict) {
-      return { success: false, error: "Employee has a time conflict with this job" };
+    
+    if (turnaroundError) {
+      return { success: false, error: "Failed to check for time conflicts" };
+    }
+    
+    if (turnaround?.severity === 'conflict') {
+      return { success: false, error: `Employee can't make this shift: ${turnaround.message}` };
+    }
+    
+    // Managers can book employees outside their stated availability, but are warned
+    const { data: availability } = await getAvailabilityForUsers(supabase, profile.org_id, [employeeId]);
+    const availabilityConflict = getAvailabilityConflict(
+      { start: workWindow.start_time, end: workWindow.end_time },
+      availability?.[employeeId]
+    );
+    const warnings = [
+      turnaround?.severity === 'tight' ? turnaround.message : null,
+      availabilityConflict ? `Assigned outside the employee's availability: ${availabilityConflict}` : null
+    ].filter(Boolean);
+    
+    if (options.sendAsOffer) {
+      const { data: slots } = await getStandbySlots(supabase, [jobRequiredRoleId]);
+      const slot = slots?.[jobRequiredRoleId];
+      if (!slot) {
+        return { success: false, error: "Job required role not found" };
+      }
+      
+      const requestHeaders = await headers();
+      const { error: offerError } = await createAssignmentOffer(supabase, slot, {
+        userId: employeeId,
+        offeredByUserId: user.id,
+        eligibilityOverride: !eligibility.eligible,
+        appUrl: process.env.NEXT_PUBLIC_APP_URL
+          || `${requestHeaders.get("x-forwarded-proto") || "https"}://${requestHeaders.get("host")}`
+      });
+      
+      if (offerError) {
+        return { success: false, error: offerError };
+      }
+      
+      revalidatePath(`/dashboard/manager/jobs/${jobId}`);
+      return {
+        success: true,
+        message: "Offer sent. The employee is booked once they accept.",
+        ...(warnings.length > 0 && { warning: warnings.join('. ') })
+      };
     }
     
     // Insert assignment
@@ -333,11 +531,13 @@ export async function assignJobToEmployee(
       .insert([
         {
           job_id: jobId,
+          shift_id: jobRequiredRole.shift_id ?? null,
           user_id: employeeId,
           job_required_role_id: jobRequiredRoleId,
           assigned_at: new Date().toISOString(),
           assigned_by: user.id,
-          status: 'assigned'
+          status: 'assigned',
+          eligibility_override_by_user_id: eligibility.eligible ? null : user.id
         }
       ])
       .select()
@@ -369,11 +569,15 @@ export async function assignJobToEmployee(
       
       // Format job details for notification
       const jobTitle = jobDetails?.title || 'New job';
-      const jobDate = new Date(job.start_time).toLocaleDateString();
-      const jobTime = new Date(job.start_time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+      const arrivalTime = shift?.call_time || workWindow.start_time;
+      const jobDate = new Date(arrivalTime).toLocaleDateString();
+      const jobTime = new Date(arrivalTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+      const shiftLabel = shift ? ` (${shift.name} shift)` : '';
       
-      // Handle venue data - job.venue might be an array or an object depending on how it was fetched
-      const venue = Array.isArray(job.venue) ? job.venue[0] : job.venue;
+      // Handle venue data - venues might be an array or an object depending on how they were fetched
+      const shiftVenue = Array.isArray(shift?.venue) ? shift.venue[0] : shift?.venue;
+      const jobVenue = Array.isArray(job.venue) ? job.venue[0] : job.venue;
+      const venue = shiftVenue || jobVenue;
       const venueName = venue?.name || 'venue';
       
       // Create notification service
@@ -384,16 +588,19 @@ export async function assignJobToEmployee(
         eventType: 'job_assignment',
         userId: employeeId,
         title: 'New Job Assignment',
-        body: `You have been assigned to ${jobTitle} at ${venueName} on ${jobDate} at ${jobTime}.`,
+        body: `You have been assigned to ${jobTitle}${shiftLabel} at ${venueName} on ${jobDate} at ${jobTime}.`,
         metadata: {
           jobId,
+          shiftId: shift?.id,
+          shiftName: shift?.name,
+          callTime: shift?.call_time,
           jobRequiredRoleId,
           assignedBy: user.id,
           assignedAt: new Date().toISOString(),
           venueName: venue?.name,
           venueAddress: venue ? `${venue.address}, ${venue.city}, ${venue.state} ${venue.zip}` : null,
-          jobStartTime: job.start_time,
-          jobEndTime: job.end_time
+          jobStartTime: workWindow.start_time,
+          jobEndTime: workWindow.end_time
         }
       });
     } catch (notificationError) {
@@ -402,7 +609,12 @@ export async function assignJobToEmployee(
     }
     
     revalidatePath(`/dashboard/manager/jobs/${jobId}`);
-    return { success: true, message: "Job assigned successfully" };
+    
+    return {
+      success: true,
+      message: "Job assigned successfully",
+      ...(warnings.length > 0 && { warning: warnings.join('. ') })
+    };
   } catch (error) {
     console.error("Error assigning job:", error);
     return { success: false, error: "An unexpected error occurred" };
@@ -3,15 +3,65 @@
 import { createClient } from "@/utils/supabase/server";
 import { getCurrentUserProfile } from "@/utils/supabase/auth-helpers";
 import { revalidatePath } from "next/cache";
-import { hasTimeConflict } from "../utils/timeUtils";
+import { checkBookingTurnaround } from "./actions/job-shifts/utils";
 import { createNotificationService } from "@/utils/notifications/notification-service";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { appendInterestRoles, renumberInterestRoles } from "./actions/job-interests/client-utils";
+import type { InterestActionResult, InterestRole } from "./actions/job-interests/types";
+import { getQualificationContext } from "./actions/qualifications/utils";
+import { getEmployeeRoleEligibility } from "./actions/qualifications/client-utils";
+import type { RoleEligibility } from "./actions/qualifications/types";
 
 /**
- * Express interest in a job
+ * Add roles to an interest, ranked after any it already has
+ */
+async function addInterestRoles(
+  supabase: SupabaseClient,
+  jobInterestId: string,
+  roleIds: string[]
+): Promise<{ error?: string }> {
+  const { data: existing, error: existingError } = await supabase
+    .from('job_interest_roles')
+    .select('job_required_role_id, preference_rank')
+    .eq('job_interest_id', jobInterestId);
+  
+  if (existingError) {
+    console.error("Error fetching interest roles:", existingError);
+    return { error: "Failed to check your chosen roles" };
+  }
+  
+  const added = appendInterestRoles((existing || []) as InterestRole[], roleIds);
+  if (added.length === 0) {
+    return {};
+  }
+  
+  const { error: insertError } = await supabase
+    .from('job_interest_roles')
+    .insert(added.map(role => ({ ...role, job_interest_id: jobInterestId })));
+  
+  if (insertError) {
+    console.error("Error adding interest roles:", insertError);
+    return { error: insertError.message };
+  }
+  
+  return {};
+}
+
+/**
+ * Express interest in a job shift
  * @param jobId The ID of the job to express interest in
- * @returns Object with success status and message
+ * @param shiftId The shift to work; may be omitted for jobs with a single shift
+ * @param roleIds The roles wanted, first choice first; omit for any role. When
+ * the employee is already interested, these roles are added after the ones
+ * they chose before.
+ * @returns Object with success status and message, and a `warning` when the
+ * shift is a tight turnaround from another booking
  */
-export async function expressInterest(jobId: string) {
+export async function expressInterest(
+  jobId: string,
+  shiftId?: string,
+  roleIds: string[] = []
+): Promise<InterestActionResult> {
   const supabase = await createClient();
   
   // Check if user is logged in
@@ -34,6 +84,12 @@ export async function expressInterest(jobId: string) {
         *,
         venue:venue_id (
           id, name, address, city, state, zip
+        ),
+        job_shifts (
+          id, name, start_time, end_time, venue_id
+        ),
+        job_required_roles (
+          id, role_name, shift_id
         )
       `)
       .eq('id', jobId)
@@ -44,50 +100,95 @@ export async function expressInterest(jobId: string) {
       return { success: false, message: "Job not found" };
     }
     
-    // Get user's existing assignments to check for time conflicts
-    const { data: assignments, error: assignmentsError } = await supabase
-      .from('job_assignments')
-      .select(`
-        id,
-        job_id,
-        jobs (
-          start_time,
-          end_time
-        )
-      `)
-      .eq('user_id', user.id);
+    // Work out which shift the interest is for
+    const shifts = job.job_shifts || [];
+    const shift = shiftId
+      ? shifts.find((s: any) => s.id === shiftId)
+      : shifts.length === 1 ? shifts[0] : null;
     
-    if (assignmentsError) {
-      console.error("Error fetching assignments:", assignmentsError);
-      return { success: false, message: "Failed to check for time conflicts" };
+    if (shiftId && !shift) {
+      return { success: false, message: "Shift not found for this job" };
+    }
+    if (!shift && shifts.length > 1) {
+      return { success: false, message: "Please choose which shift you are interested in" };
+    }
+    
+    // Roles must be on this job, and on the chosen shift
+    const chosenRoles = roleIds.map(roleId =>
+      (job.job_required_roles || []).find((role: any) => role.id === roleId)
+    );
+    if (chosenRoles.some((role: any) => !role || (shift && role.shift_id && role.shift_id !== shift.id))) {
+      return { success: false, message: "Role not found for this shift" };
     }
     
-    // Format assignments for time conflict check
-    const formattedAssignments = assignments.map(assignment => ({
-      id: assignment.id,
-      job_id: assignment.job_id,
-      start_time: assignment.jobs?.[0]?.start_time || '',
-      end_time: assignment.jobs?.[0]?.end_time || ''
+    // Employees can only ask for roles they are qualified for on the day,
+    // and need at least one on the shift to express interest at all
+    const { data: qualifications, error: qualificationError } = await getQualificationContext(
+      supabase,
+      job.org_id,
+      [user.id]
+    );
+    
+    if (qualificationError || !qualifications) {
+      return { success: false, message: qualificationError || "Failed to check your qualifications" };
+    }
+    
+    const workStart = (shift || job).start_time;
+    const shiftRoles = (job.job_required_roles || []).filter(
+      (role: any) => !shift || !role.shift_id || role.shift_id === shift.id
+    );
+    const candidateRoles = chosenRoles.length > 0 ? chosenRoles : shiftRoles;
+    const eligibility: (RoleEligibility & { role: any })[] = candidateRoles.map((role: any) => ({
+      role,
+      ...getEmployeeRoleEligibility(qualifications, user.id, role.role_name, workStart)
     }));
     
-    // Check for time conflicts
-    // Check for time conflicts with all assignments
-    const jobStart = job.start_time;
-    const jobEnd = job.end_time;
-    const conflict = formattedAssignments.some(a =>
-      hasTimeConflict(jobStart, jobEnd, a.start_time, a.end_time)
+    const ineligibleChoice = chosenRoles.length > 0 ? eligibility.find(e => !e.eligible) : null;
+    if (ineligibleChoice) {
+      return {
+        success: false,
+        message: `You aren't eligible for ${ineligibleChoice.role.role_name}: ${ineligibleChoice.reasons.join('; ')}`
+      };
+    }
+    if (eligibility.length > 0 && eligibility.every(e => !e.eligible)) {
+      return { success: false, message: "You aren't eligible for any role on this shift" };
+    }
+    
+    // Check the shift (or the job, if it has no shifts) against the user's bookings,
+    // allowing time to drive between venues and set up
+    const { data: turnaround, error: turnaroundError } = await checkBookingTurnaround(
+      supabase,
+      job.org_id,
+      user.id,
+      {
+        job_id: job.id,
+        start_time: (shift || job).start_time,
+        end_time: (shift || job).end_time,
+        venue_id: shift?.venue_id || job.venue_id
+      }
     );
-    if (conflict) {
-      return { success: false, message: "You have a time conflict with this job" };
+    
+    if (turnaroundError) {
+      return { success: false, message: "Failed to check for time conflicts" };
     }
     
+    if (turnaround?.severity === 'conflict') {
+      return { success: false, message: `You can't make this shift: ${turnaround.message}` };
+    }
+    const turnaroundWarning = turnaround?.severity === 'tight' ? turnaround.message : null;
+    
     // Check if interest already exists
-    const { data: existingInterest, error: interestError } = await supabase
+    let existingInterestQuery = supabase
       .from('job_interests')
       .select('id')
       .eq('job_id', jobId)
-      .eq('user_id', user.id)
-      .maybeSingle();
+      .eq('user_id', user.id);
+    
+    if (shift) {
+      existingInterestQuery = existingInterestQuery.eq('shift_id', shift.id);
+    }
+    
+    const { data: existingInterest, error: interestError } = await existingInterestQuery.maybeSingle();
     
     if (interestError) {
       console.error("Error checking existing interest:", interestError);
@@ -95,23 +196,46 @@ export async function expressInterest(jobId: string) {
     }
     
     if (existingInterest) {
-      return { success: false, message: "You have already expressed interest in this job" };
+      if (roleIds.length === 0) {
+        return { success: false, message: "You have already expressed interest in this shift" };
+      }
+      
+      // Already interested: add the roles to their choices
+      const { error: rolesError } = await addInterestRoles(supabase, existingInterest.id, roleIds);
+      if (rolesError) {
+        return { success: false, message: rolesError };
+      }
+      
+      revalidatePath('/dashboard/employee/available-jobs');
+      return { success: true, message: "Role interest updated" };
     }
     
     // Insert interest
-    const { error: insertError } = await supabase
+    const { data: interest, error: insertError } = await supabase
       .from('job_interests')
       .insert([
         {
           job_id: jobId,
+          shift_id: shift?.id ?? null,
           user_id: user.id,
           expressed_at: new Date().toISOString()
         }
-      ]);
+      ])
+      .select('id')
+      .single();
     
-    if (insertError) {
+    if (insertError || !interest) {
       console.error("Error expressing interest:", insertError);
-      return { success: false, message: insertError.message };
+      return { success: false, message: insertError?.message || "Failed to express interest" };
+    }
+    
+    if (roleIds.length > 0) {
+      const { error: rolesError } = await addInterestRoles(supabase, interest.id, roleIds);
+      if (rolesError) {
+        // Don't leave an any-role interest behind when the roles couldn't be saved
+        await supabase.from('job_interests').delete().eq('id', interest.id);
+        return { success: false, message: rolesError };
+      }
     }
     
     // Send notification to managers about the new job interest
@@ -144,6 +268,9 @@ export async function expressInterest(jobId: string) {
           // Format job details
           const jobTitle = jobDetails.title || 'Untitled Job';
           const employeeName = employeeProfile?.full_name || 'An employee';
+          const shiftLabel = shift && shifts.length > 1 ? ` (${shift.name} shift)` : '';
+          const roleNames = chosenRoles.map((role: any) => role.role_name);
+          const roleLabel = roleNames.length > 0 ? ` as ${roleNames.join(' or ')}` : '';
           
           // Send notification to each manager
           for (const manager of managers) {
@@ -151,9 +278,13 @@ export async function expressInterest(jobId: string) {
               eventType: 'job_interest_expressed',
               userId: manager.id,
               title: 'New Job Interest',
-              body: `${employeeName} has expressed interest in the job "${jobTitle}".`,
+              body: `${employeeName} has expressed interest in the job "${jobTitle}"${shiftLabel}${roleLabel}.`,
               metadata: {
                 jobId,
+                shiftId: shift?.id,
+                shiftName: shift?.name,
+                roleIds,
+                roleNames,
                 employeeId: user.id,
                 employeeName: employeeProfile?.full_name,
                 jobTitle: jobDetails.title,
@@ -169,7 +300,11 @@ export async function expressInterest(jobId: string) {
     }
     
     revalidatePath('/dashboard/employee/available-jobs');
-    return { success: true, message: "Interest expressed successfully" };
+    return {
+      success: true,
+      message: "Interest expressed successfully",
+      warning: turnaroundWarning || undefined
+    };
   } catch (error) {
     console.error("Error expressing interest:", error);
     return { success: false, message: "An unexpected error occurred" };
@@ -177,11 +312,18 @@ export async function expressInterest(jobId: string) {
 }
 
 /**
- * Withdraw interest from a job
+ * Withdraw interest from a job shift
  * @param jobId The ID of the job to withdraw interest from
+ * @param shiftId The shift to withdraw from; when omitted, interest in every shift of the job is withdrawn
+ * @param roleId Withdraw from just this role, keeping interest in the others.
+ * Withdrawing the last chosen role withdraws the interest.
  * @returns Object with success status and message
  */
-export async function withdrawInterest(jobId: string) {
+export async function withdrawInterest(
+  jobId: string,
+  shiftId?: string,
+  roleId?: string
+): Promise<InterestActionResult> {
   const supabase = await createClient();
   
   // Check if user is logged in
@@ -191,6 +333,10 @@ export async function withdrawInterest(jobId: string) {
   }
   
   try {
+    if (roleId) {
+      return await withdrawRoleInterest(supabase, user.id, jobId, shiftId, roleId);
+    }
+    
     // Get job details before deleting interest (for notification)
     const { data: jobDetails } = await supabase
       .from('jobs')
@@ -205,13 +351,29 @@ export async function withdrawInterest(jobId: string) {
       .eq('id', user.id)
       .single();
     
+    // Get shift name for the notification
+    const { data: shift } = shiftId
+      ? await supabase
+          .from('job_shifts')
+          .select('id, name')
+          .eq('id', shiftId)
+          .eq('job_id', jobId)
+          .single()
+      : { data: null };
+    
     // Delete interest
-    const { error } = await supabase
+    let deleteQuery = supabase
       .from('job_interests')
       .delete()
       .eq('job_id', jobId)
       .eq('user_id', user.id);
     
+    if (shiftId) {
+      deleteQuery = deleteQuery.eq('shift_id', shiftId);
+    }
+    
+    const { error } = await deleteQuery;
+    
     if (error) {
       console.error("Error withdrawing interest:", error);
       return { success: false, message: error.message };
@@ -233,6 +395,7 @@ export async function withdrawInterest(jobId: string) {
           // Format job details
           const jobTitle = jobDetails.title || 'Untitled Job';
           const employeeName = employeeProfile?.full_name || 'An employee';
+          const shiftLabel = shift ? ` (${shift.name} shift)` : '';
           
           // Send notification to each manager
           for (const manager of managers) {
@@ -240,9 +403,11 @@ export async function withdrawInterest(jobId: string) {
               eventType: 'job_interest_withdrawn',
               userId: manager.id,
               title: 'Job Interest Withdrawn',
-              body: `${employeeName} has withdrawn their interest in the job "${jobTitle}".`,
+              body: `${employeeName} has withdrawn their interest in the job "${jobTitle}"${shiftLabel}.`,
               metadata: {
                 jobId,
+                shiftId: shift?.id,
+                shiftName: shift?.name,
                 employeeId: user.id,
                 employeeName: employeeProfile?.full_name,
                 jobTitle: jobDetails.title,
@@ -265,9 +430,87 @@ export async function withdrawInterest(jobId: string) {
   }
 }
 
+/**
+ * Withdraw the current user's interest in one role of a job (or shift),
+ * closing the gap in their preferences and dropping the interest when no
+ * roles are left
+ */
+async function withdrawRoleInterest(
+  supabase: SupabaseClient,
+  userId: string,
+  jobId: string,
+  shiftId: string | undefined,
+  roleId: string
+): Promise<InterestActionResult> {
+  let interestQuery = supabase
+    .from('job_interests')
+    .select(`
+      id,
+      job_interest_roles (
+        job_required_role_id, preference_rank
+      )
+    `)
+    .eq('job_id', jobId)
+    .eq('user_id', userId);
+  
+  if (shiftId) {
+    interestQuery = interestQuery.eq('shift_id', shiftId);
+  }
+  
+  const { data: interests, error: interestError } = await interestQuery;
+  
+  if (interestError) {
+    console.error("Error fetching interest:", interestError);
+    return { success: false, message: "Failed to fetch your interest" };
+  }
+  
+  const interest = (interests || []).find(i =>
+    (i.job_interest_roles || []).some((role: any) => role.job_required_role_id === roleId)
+  );
+  
+  if (!interest) {
+    return { success: false, message: "You haven't expressed interest in this role" };
+  }
+  
+  const remaining = renumberInterestRoles(
+    (interest.job_interest_roles as InterestRole[]).filter(role => role.job_required_role_id !== roleId)
+  );
+  
+  if (remaining.length === 0) {
+    const { error } = await supabase.from('job_interests').delete().eq('id', interest.id);
+    if (error) {
+      console.error("Error withdrawing interest:", error);
+      return { success: false, message: error.message };
+    }
+  } else {
+    const { error } = await supabase
+      .from('job_interest_roles')
+      .delete()
+      .eq('job_interest_id', interest.id)
+      .eq('job_required_role_id', roleId);
+    
+    if (error) {
+      console.error("Error withdrawing role interest:", error);
+      return { success: false, message: error.message };
+    }
+    
+    for (const role of remaining) {
+      await supabase
+        .from('job_interest_roles')
+        .update({ preference_rank: role.preference_rank })
+        .eq('job_interest_id', interest.id)
+        .eq('job_required_role_id', role.job_required_role_id);
+    }
+  }
+  
+  revalidatePath('/dashboard/employee/available-jobs');
+  return { success: true, message: "Role interest withdrawn" };
+}
+
 /**
  * Get the jobs that the current user has expressed interest in
- * @returns Array of job IDs
+ * @returns Array of job IDs, plus the IDs of the specific shifts and the
+ * roles chosen for each job
  */
 export async function getUserJobInterests() {
   const supabase = await createClient();
@@ -275,27 +518,45 @@ export async function getUserJobInterests() {
   // Check if user is logged in
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) {
-    return { data: [], error: "You must be logged in" };
+    return { data: [], shiftIds: [], roleInterests: {}, error: "You must be logged in" };
   }
   
   try {
     // Get interests
     const { data, error } = await supabase
       .from('job_interests')
-      .select('job_id')
+      .select(`
+        job_id,
+        shift_id,
+        job_interest_roles (
+          job_required_role_id, preference_rank
+        )
+      `)
       .eq('user_id', user.id);
     
     if (error) {
       console.error("Error fetching job interests:", error);
-      return { data: [], error: "Failed to fetch job interests" };
+      return { data: [], shiftIds: [], roleInterests: {}, error: "Failed to fetch job interests" };
     }
     
-    // Extract job IDs
-    const jobIds = data.map(interest => interest.job_id);
+    // Extract job and shift IDs
+    const jobIds = Array.from(new Set(data.map(interest => interest.job_id)));
+    const shiftIds = data
+      .map(interest => interest.shift_id)
+      .filter((id): id is string => !!id);
+    
+    // Chosen roles by job ID, first choice first
+    const roleInterests: Record<string, InterestRole[]> = {};
+    for (const interest of data) {
+      roleInterests[interest.job_id] = [
+        ...(roleInterests[interest.job_id] || []),
+        ...((interest.job_interest_roles || []) as InterestRole[])
+      ].sort((a, b) => a.preference_rank - b.preference_rank);
+    }
     
-    return { data: jobIds, error: null };
+    return { data: jobIds, shiftIds, roleInterests, error: null };
   } catch (error) {
     console.error("Error fetching job interests:", error);
-    return { data: [], error: "An unexpected error occurred" };
+    return { data: [], shiftIds: [], roleInterests: {}, error: "An unexpected error occurred" };
   }
 }
\ No newline at end of file
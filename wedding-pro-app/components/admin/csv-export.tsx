@@ -42,6 +42,11 @@ export function CSVExport({ className }: CSVExportProps) {
     first_assigned_at: true,
     time_to_fill_duration: true,
     assignment_to_completion_duration: true,
+    cancellation_reason: true,
+    cancelled_at: true,
+    cancellation_fee_total: true,
+    expected_labor_cost: true,
+    approved_expenses_total: true,
   });
 
   // Toggle field selection
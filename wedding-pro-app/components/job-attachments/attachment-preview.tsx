@@ -0,0 +1,50 @@
+import type { JobAttachmentVersion } from '@/app/actions/job-attachments/types';
+import { formatFileSize, isImageAttachment, isPdfAttachment } from '@/app/actions/job-attachments/client-utils';
+
+interface AttachmentPreviewProps {
+  version: JobAttachmentVersion;
+  title: string;
+}
+
+/**
+ * Download link for an attachment version, with an inline preview for images
+ * and PDFs. Signed URLs expire, so the preview only loads when it is opened.
+ */
+export function AttachmentPreview({ version, title }: AttachmentPreviewProps) {
+  if (!version.signed_url) {
+    return <p className="text-sm text-gray-500 italic">File unavailable</p>;
+  }
+
+  const canPreview = isImageAttachment(version.content_type) || isPdfAttachment(version.content_type);
+
+  return (
+    <div>
+      <a
+        href={version.signed_url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-sm text-blue-600 hover:text-blue-800"
+      >
+        {version.file_name}
+      </a>
+      {version.size_bytes != null && (
+        <span className="ml-2 text-xs text-gray-500">{formatFileSize(version.size_bytes)}</span>
+      )}
+
+      {canPreview && (
+        <details className="mt-2">
+          <summary className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+            Preview
+          </summary>
+          <div className="mt-2 border border-gray-200 rounded-md overflow-hidden">
+            {isImageAttachment(version.content_type) ? (
+              <img src={version.signed_url} alt={title} className="max-h-96 w-full object-contain bg-gray-50" />
+            ) : (
+              <iframe src={version.signed_url} title={title} className="w-full h-96" />
+            )}
+          </div>
+        </details>
+      )}
+    </div>
+  );
+}
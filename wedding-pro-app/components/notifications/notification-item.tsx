@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { formatDistanceToNow } from 'date-fns';
 import { Database } from '@/types/supabase';
 import { markNotificationAsRead } from '@/app/notification-center-actions';
+import { respondToAssignmentOffer } from '@/app/actions/assignment-offers';
 import { Bell, Check } from 'lucide-react';
 
 type Notification = Database['public']['Tables']['notifications']['Row'];
@@ -15,6 +16,30 @@ export interface NotificationItemProps {
 
 export function NotificationItem({ notification, onStatusChange }: NotificationItemProps) {
   const [isLoading, setIsLoading] = useState(false);
+  const [offerResult, setOfferResult] = useState<{ success: boolean; text: string } | null>(null);
+  
+  // Assignment offers can be answered right from the notification
+  const metadata = (notification.metadata || {}) as Record<string, any>;
+  const offerId: string | null = metadata.eventType === 'assignment_offer' ? metadata.assignmentOfferId ?? null : null;
+  
+  const handleOfferResponse = async (accept: boolean) => {
+    if (!offerId) return;
+    
+    setIsLoading(true);
+    try {
+      const result = await respondToAssignmentOffer(offerId, accept);
+      setOfferResult({
+        success: result.success,
+        text: (result.success ? result.message : result.error) || (accept ? 'Offer accepted' : 'Offer declined')
+      });
+      await handleMarkAsRead();
+    } catch (error) {
+      console.error('Error answering assignment offer:', error);
+      setOfferResult({ success: false, text: 'Failed to answer the offer' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
   
   const handleMarkAsRead = async () => {
     if (notification.read) return;
@@ -56,6 +81,36 @@ export function NotificationItem({ notification, onStatusChange }: NotificationI
           <p className="text-sm text-gray-600 mt-1">
             {notification.content}
           </p>
+          {offerId && (
+            offerResult ? (
+              <p className={`text-sm mt-2 ${offerResult.success ? 'text-green-700' : 'text-red-700'}`}>
+                {offerResult.text}
+              </p>
+            ) : (
+              <div className="mt-2 flex gap-2">
+                <button
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded-md text-xs"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleOfferResponse(true);
+                  }}
+                  disabled={isLoading}
+                >
+                  Accept
+                </button>
+                <button
+                  className="border border-gray-300 hover:bg-gray-100 text-gray-700 px-3 py-1 rounded-md text-xs"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleOfferResponse(false);
+                  }}
+                  disabled={isLoading}
+                >
+                  Decline
+                </button>
+              </div>
+            )
+          )}
           <div className="mt-2 flex items-center text-xs text-gray-500">
             <span>
               {notification.created_at ? (
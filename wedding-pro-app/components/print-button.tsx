@@ -0,0 +1,16 @@
+"use client";
+
+/**
+ * Opens the browser's print dialog, which can also save the page as a PDF
+ */
+export default function PrintButton() {
+  return (
+    <button
+      type="button"
+      onClick={() => window.print()}
+      className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+    >
+      Print / Save as PDF
+    </button>
+  );
+}
@@ -6,6 +6,10 @@ const baseConfig: NextConfig = {
   // ✅ your shared Next.js settings
   experimental: {
     // example: scroll restoration, etc.
+    serverActions: {
+      // Job attachments and job imports are uploaded through server actions
+      bodySizeLimit: "25mb",
+    },
   },
   images: {
     remotePatterns: [
@@ -0,0 +1,149 @@
+-- Test script for calendar events following an assignment to a new owner
+-- (supabase/migrations/20250626090000_move_calendar_events_with_assignments.sql)
+-- Every check is an assertion, as in test-job-attachments-rls.sql: the script
+-- stops with an error naming the failed test, or finishes with a NOTICE per
+-- passed test. It runs in a transaction that is rolled back, so the
+-- assignment is never left with its new owner.
+--
+-- It assumes the following data already exists:
+-- - Org A, with its text organization ID
+-- - Employee A assigned (not declined) to Job A1, and Employee A2 in Org A not assigned to it
+
+-- IMPORTANT: Before running this script, replace the placeholder values below with actual values from your database
+-- Organization text ID (orgs.organization_id, used as active_org_id in the JWT):
+--   Org A: 'org_a_text_id'
+-- User UUIDs:
+--   Employee A (assigned to Job A1): '22222222-0000-0000-0000-000000000000'
+--   Employee A2 (in Org A, not assigned to Job A1): '44444444-0000-0000-0000-000000000000'
+-- Job UUID:
+--   Job A1: 'aaaaaaaa-0000-0000-0000-000000000001'
+--
+-- Run it as the postgres user, e.g. in the SQL editor or with
+-- psql "$DATABASE_URL" -v ON_ERROR_STOP=1 -f scripts/test-assignment-calendar-events.sql
+
+BEGIN;
+
+-- ==========================================
+-- Fixtures (as the script owner, bypassing RLS)
+-- Remember Employee A's assignment and where its event stands
+-- ==========================================
+CREATE TEMP TABLE calendar_test ON COMMIT DROP AS
+SELECT a.id AS assignment_id, e.sequence AS start_sequence
+FROM public.job_assignments a
+JOIN public.assignment_calendar_events e ON e.assignment_id = a.id AND e.user_id = a.user_id
+WHERE a.job_id = 'aaaaaaaa-0000-0000-0000-000000000001'
+  AND a.user_id = '22222222-0000-0000-0000-000000000000'
+  AND a.status IS DISTINCT FROM 'declined'
+LIMIT 1;
+
+DO $$
+BEGIN
+  ASSERT (SELECT COUNT(*) FROM calendar_test) = 1,
+    'Setup failed: Employee A has no assignment on Job A1 with a calendar event';
+END $$;
+
+-- ==========================================
+-- TEST 1: Moving the assignment to Employee A2
+-- ==========================================
+
+UPDATE public.job_assignments
+SET user_id = '44444444-0000-0000-0000-000000000000'
+WHERE id = (SELECT assignment_id FROM calendar_test);
+
+DO $$
+DECLARE
+  test calendar_test;
+  old_event public.assignment_calendar_events;
+  new_event public.assignment_calendar_events;
+BEGIN
+  SELECT * INTO test FROM calendar_test;
+
+  -- Test 1.1: Employee A's event is cancelled with a higher sequence, so their calendar drops it
+  SELECT * INTO old_event FROM public.assignment_calendar_events
+  WHERE assignment_id = test.assignment_id AND user_id = '22222222-0000-0000-0000-000000000000';
+  ASSERT old_event.cancelled_at IS NOT NULL, 'Test 1.1 failed: Employee A''s event is not cancelled';
+  ASSERT old_event.sequence > test.start_sequence,
+    format('Test 1.1 failed: expected a sequence above %s, got %s', test.start_sequence, old_event.sequence);
+  RAISE NOTICE 'Test 1.1 passed: The old owner''s event is cancelled';
+
+  -- Test 1.2: Employee A2 has a live event for the same assignment
+  SELECT * INTO new_event FROM public.assignment_calendar_events
+  WHERE assignment_id = test.assignment_id AND user_id = '44444444-0000-0000-0000-000000000000';
+  ASSERT new_event.assignment_id IS NOT NULL, 'Test 1.2 failed: Employee A2 has no event';
+  ASSERT new_event.cancelled_at IS NULL, 'Test 1.2 failed: Employee A2''s event is cancelled';
+  ASSERT new_event.job_id = 'aaaaaaaa-0000-0000-0000-000000000001', 'Test 1.2 failed: Employee A2''s event is for the wrong job';
+  RAISE NOTICE 'Test 1.2 passed: The new owner has a live event';
+END $$;
+
+-- ==========================================
+-- TEST 2: Each employee only sees their own event
+-- ==========================================
+
+-- Set context to Employee A2
+SET LOCAL ROLE authenticated;
+SET LOCAL "request.jwt.claims" TO '{"sub": "44444444-0000-0000-0000-000000000000", "role": "authenticated", "app_metadata": {"active_org_id": "org_a_text_id"}}';
+
+DO $$
+DECLARE
+  visible_count INTEGER;
+BEGIN
+  -- Test 2.1: Employee A2 sees their live event for Job A1, and not Employee A's cancelled one
+  SELECT COUNT(*) INTO visible_count FROM public.assignment_calendar_events
+  WHERE job_id = 'aaaaaaaa-0000-0000-0000-000000000001' AND cancelled_at IS NULL;
+  ASSERT visible_count = 1, format('Test 2.1 failed: expected 1 live event, got %s', visible_count);
+  SELECT COUNT(*) INTO visible_count FROM public.assignment_calendar_events
+  WHERE job_id = 'aaaaaaaa-0000-0000-0000-000000000001' AND user_id <> auth.uid();
+  ASSERT visible_count = 0, format('Test 2.1 failed: expected only their own events, got %s others', visible_count);
+  RAISE NOTICE 'Test 2.1 passed: Employee A2 only sees their own event';
+END $$;
+
+RESET ROLE;
+
+-- ==========================================
+-- TEST 3: Moving the assignment back to Employee A
+-- ==========================================
+
+UPDATE public.job_assignments
+SET user_id = '22222222-0000-0000-0000-000000000000'
+WHERE id = (SELECT assignment_id FROM calendar_test);
+
+DO $$
+DECLARE
+  test calendar_test;
+  cancelled_sequence INTEGER;
+  old_event public.assignment_calendar_events;
+  new_event public.assignment_calendar_events;
+BEGIN
+  SELECT * INTO test FROM calendar_test;
+
+  -- Test 3.1: Employee A's event comes back with a higher sequence than its cancellation
+  SELECT * INTO old_event FROM public.assignment_calendar_events
+  WHERE assignment_id = test.assignment_id AND user_id = '22222222-0000-0000-0000-000000000000';
+  ASSERT old_event.cancelled_at IS NULL, 'Test 3.1 failed: Employee A''s event is still cancelled';
+  ASSERT old_event.sequence >= test.start_sequence + 2,
+    format('Test 3.1 failed: expected a sequence of at least %s, got %s', test.start_sequence + 2, old_event.sequence);
+  RAISE NOTICE 'Test 3.1 passed: The event is restored for the returning owner';
+
+  -- Test 3.2: Employee A2's event is cancelled
+  SELECT * INTO new_event FROM public.assignment_calendar_events
+  WHERE assignment_id = test.assignment_id AND user_id = '44444444-0000-0000-0000-000000000000';
+  ASSERT new_event.cancelled_at IS NOT NULL, 'Test 3.2 failed: Employee A2''s event is not cancelled';
+  RAISE NOTICE 'Test 3.2 passed: Employee A2''s event is cancelled';
+
+  -- Test 3.3: A later change only bumps the current owner's event
+  SELECT sequence INTO cancelled_sequence FROM public.assignment_calendar_events
+  WHERE assignment_id = test.assignment_id AND user_id = '44444444-0000-0000-0000-000000000000';
+  UPDATE public.job_assignments SET status = 'declined' WHERE id = test.assignment_id;
+  ASSERT (
+    SELECT sequence FROM public.assignment_calendar_events
+    WHERE assignment_id = test.assignment_id AND user_id = '44444444-0000-0000-0000-000000000000'
+  ) = cancelled_sequence, 'Test 3.3 failed: the old owner''s event changed';
+  ASSERT (
+    SELECT cancelled_at IS NOT NULL FROM public.assignment_calendar_events
+    WHERE assignment_id = test.assignment_id AND user_id = '22222222-0000-0000-0000-000000000000'
+  ), 'Test 3.3 failed: declining didn''t cancel the current owner''s event';
+  RAISE NOTICE 'Test 3.3 passed: Later changes only touch the current owner''s event';
+END $$;
+
+-- Discard the changes
+ROLLBACK;
@@ -0,0 +1,215 @@
+-- Test script for job attachment RLS and storage policies
+-- (supabase/migrations/20250611090000_create_job_attachments.sql)
+-- Unlike test-honeybook-rls.sql, every check here is an assertion: the script
+-- stops with an error naming the failed test, or finishes with a NOTICE per
+-- passed test. It runs in a transaction that is rolled back, so the attachment
+-- rows and storage objects it creates are never kept.
+--
+-- It assumes the following data already exists:
+-- - Org A and Org B, with their text organization IDs
+-- - Users with manager/employee memberships in those orgs
+-- - Job A1 in Org A with Employee A assigned (not declined), and Job B1 in Org B
+
+-- IMPORTANT: Before running this script, replace the placeholder values below with actual values from your database
+-- Organization UUIDs (orgs.id):
+--   Org A: '11111111-1111-1111-1111-111111111111'
+--   Org B: '22222222-2222-2222-2222-222222222222'
+-- Organization text IDs (orgs.organization_id, used as active_org_id in the JWT):
+--   Org A: 'org_a_text_id'
+--   Org B: 'org_b_text_id'
+-- User UUIDs:
+--   Manager A: '11111111-0000-0000-0000-000000000000'
+--   Employee A (assigned to Job A1): '22222222-0000-0000-0000-000000000000'
+--   Manager B: '33333333-0000-0000-0000-000000000000'
+--   Employee A2 (in Org A, not assigned to Job A1): '44444444-0000-0000-0000-000000000000'
+-- Job UUIDs:
+--   Job A1: 'aaaaaaaa-0000-0000-0000-000000000001'
+--   Job B1: 'bbbbbbbb-0000-0000-0000-000000000001'
+--
+-- Run it as the postgres user, e.g. in the SQL editor or with
+-- psql "$DATABASE_URL" -v ON_ERROR_STOP=1 -f scripts/test-job-attachments-rls.sql
+
+BEGIN;
+
+-- ==========================================
+-- Fixtures (as the script owner, bypassing RLS)
+-- Attachment 1 is a managers-only contract, attachment 2 a shot list shared with crew
+-- ==========================================
+INSERT INTO public.job_attachments (id, job_id, org_id, title, category, visibility)
+VALUES
+  ('a77ac000-0000-0000-0000-000000000001', 'aaaaaaaa-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'Contract', 'contract', 'managers'),
+  ('a77ac000-0000-0000-0000-000000000002', 'aaaaaaaa-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'Shot list', 'shot_list', 'crew');
+
+INSERT INTO public.job_attachment_versions (attachment_id, version, storage_path, file_name, content_type, size_bytes)
+VALUES
+  ('a77ac000-0000-0000-0000-000000000001', 1, '11111111-1111-1111-1111-111111111111/aaaaaaaa-0000-0000-0000-000000000001/a77ac000-0000-0000-0000-000000000001/v1-contract.pdf', 'contract.pdf', 'application/pdf', 1024),
+  ('a77ac000-0000-0000-0000-000000000002', 1, '11111111-1111-1111-1111-111111111111/aaaaaaaa-0000-0000-0000-000000000001/a77ac000-0000-0000-0000-000000000002/v1-shot-list.pdf', 'shot-list.pdf', 'application/pdf', 1024);
+
+INSERT INTO storage.objects (bucket_id, name)
+VALUES
+  ('job-attachments', '11111111-1111-1111-1111-111111111111/aaaaaaaa-0000-0000-0000-000000000001/a77ac000-0000-0000-0000-000000000001/v1-contract.pdf'),
+  ('job-attachments', '11111111-1111-1111-1111-111111111111/aaaaaaaa-0000-0000-0000-000000000001/a77ac000-0000-0000-0000-000000000002/v1-shot-list.pdf');
+
+-- ==========================================
+-- TEST 1: Org A Manager
+-- ==========================================
+
+-- Set context to Manager from Org A
+SET LOCAL ROLE authenticated;
+SET LOCAL "request.jwt.claims" TO '{"sub": "11111111-0000-0000-0000-000000000000", "role": "authenticated", "app_metadata": {"active_org_id": "org_a_text_id"}}';
+
+DO $$
+DECLARE
+  visible_count INTEGER;
+BEGIN
+  -- Test 1.1: Manager from Org A sees both attachments
+  SELECT COUNT(*) INTO visible_count FROM public.job_attachments WHERE id::TEXT LIKE 'a77ac000-%';
+  ASSERT visible_count = 2, format('Test 1.1 failed: expected 2 attachments, got %s', visible_count);
+  RAISE NOTICE 'Test 1.1 passed: Manager from Org A sees managers-only and crew attachments';
+
+  -- Test 1.2: Manager from Org A can read both files
+  SELECT COUNT(*) INTO visible_count FROM storage.objects WHERE bucket_id = 'job-attachments' AND name LIKE '%/a77ac000-%';
+  ASSERT visible_count = 2, format('Test 1.2 failed: expected 2 files, got %s', visible_count);
+  RAISE NOTICE 'Test 1.2 passed: Manager from Org A can read both files';
+
+  -- Test 1.3: Manager from Org A can upload under an Org A job
+  INSERT INTO storage.objects (bucket_id, name)
+  VALUES ('job-attachments', '11111111-1111-1111-1111-111111111111/aaaaaaaa-0000-0000-0000-000000000001/a77ac000-0000-0000-0000-000000000003/v1-floor-plan.pdf');
+  RAISE NOTICE 'Test 1.3 passed: Manager from Org A can upload to Job A1';
+
+  -- Test 1.4: Manager from Org A cannot upload under an Org B job
+  BEGIN
+    INSERT INTO storage.objects (bucket_id, name)
+    VALUES ('job-attachments', '11111111-1111-1111-1111-111111111111/bbbbbbbb-0000-0000-0000-000000000001/a77ac000-0000-0000-0000-000000000004/v1-sneaky.pdf');
+    RAISE EXCEPTION 'Test 1.4 failed: Manager from Org A uploaded to an Org B job';
+  EXCEPTION WHEN insufficient_privilege THEN
+    RAISE NOTICE 'Test 1.4 passed: Manager from Org A cannot upload to Job B1';
+  END;
+END $$;
+
+RESET ROLE;
+
+-- ==========================================
+-- TEST 2: Org A Employee assigned to Job A1
+-- ==========================================
+
+-- Set context to Employee from Org A
+SET LOCAL ROLE authenticated;
+SET LOCAL "request.jwt.claims" TO '{"sub": "22222222-0000-0000-0000-000000000000", "role": "authenticated", "app_metadata": {"active_org_id": "org_a_text_id"}}';
+
+DO $$
+DECLARE
+  visible_count INTEGER;
+  deleted_count INTEGER;
+BEGIN
+  -- Test 2.1: Assigned employee only sees the crew attachment and its version
+  SELECT COUNT(*) INTO visible_count FROM public.job_attachments WHERE id::TEXT LIKE 'a77ac000-%';
+  ASSERT visible_count = 1, format('Test 2.1 failed: expected 1 attachment, got %s', visible_count);
+  SELECT COUNT(*) INTO visible_count FROM public.job_attachment_versions WHERE attachment_id = 'a77ac000-0000-0000-0000-000000000001';
+  ASSERT visible_count = 0, 'Test 2.1 failed: managers-only version is visible to crew';
+  RAISE NOTICE 'Test 2.1 passed: Assigned employee only sees the crew attachment';
+
+  -- Test 2.2: Assigned employee can only read (and so sign URLs for) the crew file
+  SELECT COUNT(*) INTO visible_count FROM storage.objects WHERE bucket_id = 'job-attachments' AND name LIKE '%/a77ac000-%';
+  ASSERT visible_count = 1, format('Test 2.2 failed: expected 1 file, got %s', visible_count);
+  SELECT COUNT(*) INTO visible_count FROM storage.objects WHERE bucket_id = 'job-attachments' AND name LIKE '%/v1-shot-list.pdf';
+  ASSERT visible_count = 1, 'Test 2.2 failed: crew file is not readable';
+  RAISE NOTICE 'Test 2.2 passed: Assigned employee can only read the crew file';
+
+  -- Test 2.3: Assigned employee cannot upload
+  BEGIN
+    INSERT INTO storage.objects (bucket_id, name)
+    VALUES ('job-attachments', '11111111-1111-1111-1111-111111111111/aaaaaaaa-0000-0000-0000-000000000001/a77ac000-0000-0000-0000-000000000005/v1-upload.pdf');
+    RAISE EXCEPTION 'Test 2.3 failed: Employee uploaded a file';
+  EXCEPTION WHEN insufficient_privilege THEN
+    RAISE NOTICE 'Test 2.3 passed: Assigned employee cannot upload';
+  END;
+
+  -- Test 2.4: Assigned employee cannot delete files or attachments
+  DELETE FROM storage.objects WHERE bucket_id = 'job-attachments' AND name LIKE '%/a77ac000-%';
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  ASSERT deleted_count = 0, format('Test 2.4 failed: Employee deleted %s files', deleted_count);
+  DELETE FROM public.job_attachments WHERE id::TEXT LIKE 'a77ac000-%';
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  ASSERT deleted_count = 0, format('Test 2.4 failed: Employee deleted %s attachments', deleted_count);
+  RAISE NOTICE 'Test 2.4 passed: Assigned employee cannot delete';
+END $$;
+
+RESET ROLE;
+
+-- ==========================================
+-- TEST 3: Org A Employee not assigned to Job A1
+-- ==========================================
+
+-- Set context to the unassigned Employee from Org A
+SET LOCAL ROLE authenticated;
+SET LOCAL "request.jwt.claims" TO '{"sub": "44444444-0000-0000-0000-000000000000", "role": "authenticated", "app_metadata": {"active_org_id": "org_a_text_id"}}';
+
+DO $$
+DECLARE
+  visible_count INTEGER;
+BEGIN
+  -- Test 3.1: Unassigned employee sees no attachments and no files, even crew ones
+  SELECT COUNT(*) INTO visible_count FROM public.job_attachments WHERE id::TEXT LIKE 'a77ac000-%';
+  ASSERT visible_count = 0, format('Test 3.1 failed: expected no attachments, got %s', visible_count);
+  SELECT COUNT(*) INTO visible_count FROM storage.objects WHERE bucket_id = 'job-attachments' AND name LIKE '%/a77ac000-%';
+  ASSERT visible_count = 0, format('Test 3.1 failed: expected no files, got %s', visible_count);
+  RAISE NOTICE 'Test 3.1 passed: Unassigned employee sees nothing';
+END $$;
+
+RESET ROLE;
+
+-- ==========================================
+-- TEST 4: Org B Manager
+-- ==========================================
+
+-- Set context to Manager from Org B
+SET LOCAL ROLE authenticated;
+SET LOCAL "request.jwt.claims" TO '{"sub": "33333333-0000-0000-0000-000000000000", "role": "authenticated", "app_metadata": {"active_org_id": "org_b_text_id"}}';
+
+DO $$
+DECLARE
+  visible_count INTEGER;
+BEGIN
+  -- Test 4.1: Manager from Org B sees none of Org A's attachments or files
+  SELECT COUNT(*) INTO visible_count FROM public.job_attachments WHERE id::TEXT LIKE 'a77ac000-%';
+  ASSERT visible_count = 0, format('Test 4.1 failed: expected no attachments, got %s', visible_count);
+  SELECT COUNT(*) INTO visible_count FROM storage.objects WHERE bucket_id = 'job-attachments' AND name LIKE '%/a77ac000-%';
+  ASSERT visible_count = 0, format('Test 4.1 failed: expected no files, got %s', visible_count);
+  RAISE NOTICE 'Test 4.1 passed: Manager from Org B sees nothing from Org A';
+
+  -- Test 4.2: Manager from Org B cannot upload under an Org A job, even with an Org B folder
+  BEGIN
+    INSERT INTO storage.objects (bucket_id, name)
+    VALUES ('job-attachments', '22222222-2222-2222-2222-222222222222/aaaaaaaa-0000-0000-0000-000000000001/a77ac000-0000-0000-0000-000000000006/v1-sneaky.pdf');
+    RAISE EXCEPTION 'Test 4.2 failed: Manager from Org B uploaded to an Org A job';
+  EXCEPTION WHEN insufficient_privilege THEN
+    RAISE NOTICE 'Test 4.2 passed: Manager from Org B cannot upload to Job A1';
+  END;
+END $$;
+
+RESET ROLE;
+
+-- ==========================================
+-- TEST 5: Changing visibility takes files away from crew
+-- ==========================================
+
+UPDATE public.job_attachments SET visibility = 'managers' WHERE id = 'a77ac000-0000-0000-0000-000000000002';
+
+-- Set context back to the assigned Employee from Org A
+SET LOCAL ROLE authenticated;
+SET LOCAL "request.jwt.claims" TO '{"sub": "22222222-0000-0000-0000-000000000000", "role": "authenticated", "app_metadata": {"active_org_id": "org_a_text_id"}}';
+
+DO $$
+DECLARE
+  visible_count INTEGER;
+BEGIN
+  -- Test 5.1: Once the shot list is managers-only, crew can no longer read it
+  SELECT COUNT(*) INTO visible_count FROM storage.objects WHERE bucket_id = 'job-attachments' AND name LIKE '%/a77ac000-%';
+  ASSERT visible_count = 0, format('Test 5.1 failed: expected no files, got %s', visible_count);
+  RAISE NOTICE 'Test 5.1 passed: Managers-only files are unreadable by crew';
+END $$;
+
+-- Reset role and discard the fixtures
+RESET ROLE;
+ROLLBACK;
@@ -0,0 +1,276 @@
+-- Test script for claiming and approving shift swaps
+-- (supabase/migrations/20250625090000_create_shift_swaps.sql)
+-- Every check is an assertion, as in test-job-attachments-rls.sql: the script
+-- stops with an error naming the failed test, or finishes with a NOTICE per
+-- passed test. It runs in a transaction that is rolled back, so the roles,
+-- assignments and posts it creates, and the assignments it moves, are never
+-- kept.
+--
+-- It assumes the following data already exists:
+-- - Org A and Org B, with their text organization IDs
+-- - Users with manager/employee memberships in those orgs
+-- - Job A1 in Org A, starting in the future
+
+-- IMPORTANT: Before running this script, replace the placeholder values below with actual values from your database
+-- Organization UUIDs (orgs.id):
+--   Org A: '11111111-1111-1111-1111-111111111111'
+-- Organization text IDs (orgs.organization_id, used as active_org_id in the JWT):
+--   Org A: 'org_a_text_id'
+--   Org B: 'org_b_text_id'
+-- User UUIDs:
+--   Manager A: '11111111-0000-0000-0000-000000000000'
+--   Employee A: '22222222-0000-0000-0000-000000000000'
+--   Manager B: '33333333-0000-0000-0000-000000000000'
+--   Employee A2 (in Org A): '44444444-0000-0000-0000-000000000000'
+-- Job UUID:
+--   Job A1: 'aaaaaaaa-0000-0000-0000-000000000001'
+--
+-- Run it as the postgres user, e.g. in the SQL editor or with
+-- psql "$DATABASE_URL" -v ON_ERROR_STOP=1 -f scripts/test-shift-swaps.sql
+
+BEGIN;
+
+-- ==========================================
+-- Fixtures (as the script owner, bypassing RLS)
+-- Employee A works Second Shooter and Assistant on Job A1, Employee A2 works
+-- Videographer. Employee A gives Second Shooter away (post 1) and wants to
+-- swap Assistant (post 2); Employee A2 gives Videographer away (post 3).
+-- Job A1's group chat has Employee A but not Employee A2, who is on standby
+-- for Second Shooter.
+-- ==========================================
+INSERT INTO public.job_required_roles (id, job_id, role_name, quantity_needed)
+VALUES
+  ('5a5a0000-0000-0000-0000-0000000000f1', 'aaaaaaaa-0000-0000-0000-000000000001', 'Second Shooter', 1),
+  ('5a5a0000-0000-0000-0000-0000000000f2', 'aaaaaaaa-0000-0000-0000-000000000001', 'Videographer', 1),
+  ('5a5a0000-0000-0000-0000-0000000000f3', 'aaaaaaaa-0000-0000-0000-000000000001', 'Assistant', 1);
+
+INSERT INTO public.job_assignments (id, job_id, user_id, job_required_role_id)
+VALUES
+  ('5a5a0000-0000-0000-0000-0000000000a1', 'aaaaaaaa-0000-0000-0000-000000000001', '22222222-0000-0000-0000-000000000000', '5a5a0000-0000-0000-0000-0000000000f1'),
+  ('5a5a0000-0000-0000-0000-0000000000a2', 'aaaaaaaa-0000-0000-0000-000000000001', '44444444-0000-0000-0000-000000000000', '5a5a0000-0000-0000-0000-0000000000f2'),
+  ('5a5a0000-0000-0000-0000-0000000000a3', 'aaaaaaaa-0000-0000-0000-000000000001', '22222222-0000-0000-0000-000000000000', '5a5a0000-0000-0000-0000-0000000000f3');
+
+INSERT INTO public.shift_swap_posts (id, org_id, job_id, job_required_role_id, job_assignment_id, posted_by_user_id, kind)
+VALUES
+  ('5a5a0000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'aaaaaaaa-0000-0000-0000-000000000001', '5a5a0000-0000-0000-0000-0000000000f1', '5a5a0000-0000-0000-0000-0000000000a1', '22222222-0000-0000-0000-000000000000', 'giveaway'),
+  ('5a5a0000-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111', 'aaaaaaaa-0000-0000-0000-000000000001', '5a5a0000-0000-0000-0000-0000000000f3', '5a5a0000-0000-0000-0000-0000000000a3', '22222222-0000-0000-0000-000000000000', 'swap'),
+  ('5a5a0000-0000-0000-0000-000000000003', '11111111-1111-1111-1111-111111111111', 'aaaaaaaa-0000-0000-0000-000000000001', '5a5a0000-0000-0000-0000-0000000000f2', '5a5a0000-0000-0000-0000-0000000000a2', '44444444-0000-0000-0000-000000000000', 'giveaway');
+
+INSERT INTO public.job_standby_entries (org_id, job_id, job_required_role_id, user_id, rank)
+VALUES ('11111111-1111-1111-1111-111111111111', 'aaaaaaaa-0000-0000-0000-000000000001', '5a5a0000-0000-0000-0000-0000000000f1', '44444444-0000-0000-0000-000000000000', 1);
+
+INSERT INTO public.group_chats (group_chat_id, job_id, name, created_by)
+VALUES ('5a5a0000-0000-0000-0000-0000000000c1', 'aaaaaaaa-0000-0000-0000-000000000001', 'Swap test chat', '11111111-0000-0000-0000-000000000000');
+
+INSERT INTO public.group_chat_participants (group_chat_id, user_id)
+VALUES
+  ('5a5a0000-0000-0000-0000-0000000000c1', '11111111-0000-0000-0000-000000000000'),
+  ('5a5a0000-0000-0000-0000-0000000000c1', '22222222-0000-0000-0000-000000000000');
+
+-- ==========================================
+-- TEST 1: Claims that are refused
+-- ==========================================
+
+-- Set context to Employee A
+SET LOCAL ROLE authenticated;
+SET LOCAL "request.jwt.claims" TO '{"sub": "22222222-0000-0000-0000-000000000000", "role": "authenticated", "app_metadata": {"active_org_id": "org_a_text_id"}}';
+
+DO $$
+BEGIN
+  -- Test 1.1: Employee A cannot claim their own post
+  BEGIN
+    PERFORM public.claim_shift_swap('5a5a0000-0000-0000-0000-000000000001');
+    RAISE EXCEPTION 'Test 1.1 failed: Employee A claimed their own post';
+  EXCEPTION WHEN check_violation THEN
+    RAISE NOTICE 'Test 1.1 passed: Employee A cannot claim their own post';
+  END;
+END $$;
+
+-- Set context to Manager B, in Org B
+SET LOCAL "request.jwt.claims" TO '{"sub": "33333333-0000-0000-0000-000000000000", "role": "authenticated", "app_metadata": {"active_org_id": "org_b_text_id"}}';
+
+DO $$
+BEGIN
+  -- Test 1.2: Someone from Org B cannot claim an Org A post
+  BEGIN
+    PERFORM public.claim_shift_swap('5a5a0000-0000-0000-0000-000000000001');
+    RAISE EXCEPTION 'Test 1.2 failed: Manager B claimed an Org A post';
+  EXCEPTION WHEN no_data_found THEN
+    RAISE NOTICE 'Test 1.2 passed: Org B cannot claim Org A posts';
+  END;
+END $$;
+
+-- Set context to Employee A2
+SET LOCAL "request.jwt.claims" TO '{"sub": "44444444-0000-0000-0000-000000000000", "role": "authenticated", "app_metadata": {"active_org_id": "org_a_text_id"}}';
+
+DO $$
+BEGIN
+  -- Test 1.3: A swap needs a shift offered in return
+  BEGIN
+    PERFORM public.claim_shift_swap('5a5a0000-0000-0000-0000-000000000002');
+    RAISE EXCEPTION 'Test 1.3 failed: Employee A2 claimed a swap without offering a shift';
+  EXCEPTION WHEN check_violation THEN
+    RAISE NOTICE 'Test 1.3 passed: A swap needs a shift offered in return';
+  END;
+
+  -- Test 1.4: The shift offered must be the claimant's own
+  BEGIN
+    PERFORM public.claim_shift_swap('5a5a0000-0000-0000-0000-000000000002', '5a5a0000-0000-0000-0000-0000000000a1');
+    RAISE EXCEPTION 'Test 1.4 failed: Employee A2 offered Employee A''s shift';
+  EXCEPTION WHEN check_violation THEN
+    RAISE NOTICE 'Test 1.4 passed: Only the claimant''s own shift can be offered';
+  END;
+END $$;
+
+-- ==========================================
+-- TEST 2: Employee A2 claims both of Employee A's posts
+-- ==========================================
+
+DO $$
+DECLARE
+  claimed public.shift_swap_posts;
+BEGIN
+  -- Test 2.1: Employee A2 claims the giveaway
+  claimed := public.claim_shift_swap('5a5a0000-0000-0000-0000-000000000001');
+  ASSERT claimed.status = 'claimed', format('Test 2.1 failed: expected claimed, got %s', claimed.status);
+  ASSERT claimed.claimed_by_user_id = auth.uid(), 'Test 2.1 failed: the claim is not Employee A2''s';
+  ASSERT claimed.claimed_assignment_id IS NULL, 'Test 2.1 failed: a giveaway kept a shift offered in return';
+  RAISE NOTICE 'Test 2.1 passed: Employee A2 claims the giveaway';
+
+  -- Test 2.2: Employee A2 claims the swap, offering Videographer
+  claimed := public.claim_shift_swap('5a5a0000-0000-0000-0000-000000000002', '5a5a0000-0000-0000-0000-0000000000a2');
+  ASSERT claimed.status = 'claimed', format('Test 2.2 failed: expected claimed, got %s', claimed.status);
+  ASSERT claimed.claimed_assignment_id = '5a5a0000-0000-0000-0000-0000000000a2',
+    'Test 2.2 failed: the swap does not record the shift offered in return';
+  RAISE NOTICE 'Test 2.2 passed: Employee A2 claims the swap';
+
+  -- Test 2.3: A claimed post cannot be claimed again
+  BEGIN
+    PERFORM public.claim_shift_swap('5a5a0000-0000-0000-0000-000000000001');
+    RAISE EXCEPTION 'Test 2.3 failed: a claimed post was claimed again';
+  EXCEPTION WHEN check_violation THEN
+    RAISE NOTICE 'Test 2.3 passed: A claimed post cannot be claimed again';
+  END;
+END $$;
+
+-- ==========================================
+-- TEST 3: Approvals that are refused
+-- ==========================================
+
+DO $$
+BEGIN
+  -- Test 3.1: An employee cannot approve a swap, not even their own claim
+  BEGIN
+    PERFORM public.approve_shift_swap('5a5a0000-0000-0000-0000-000000000001');
+    RAISE EXCEPTION 'Test 3.1 failed: Employee A2 approved a swap';
+  EXCEPTION WHEN no_data_found THEN
+    RAISE NOTICE 'Test 3.1 passed: Employees cannot approve swaps';
+  END;
+END $$;
+
+-- Set context to Manager B, in Org B
+SET LOCAL "request.jwt.claims" TO '{"sub": "33333333-0000-0000-0000-000000000000", "role": "authenticated", "app_metadata": {"active_org_id": "org_b_text_id"}}';
+
+DO $$
+BEGIN
+  -- Test 3.2: A manager from Org B cannot approve an Org A swap
+  BEGIN
+    PERFORM public.approve_shift_swap('5a5a0000-0000-0000-0000-000000000001');
+    RAISE EXCEPTION 'Test 3.2 failed: Manager B approved an Org A swap';
+  EXCEPTION WHEN no_data_found THEN
+    RAISE NOTICE 'Test 3.2 passed: Org B managers cannot approve Org A swaps';
+  END;
+END $$;
+
+-- Set context to Manager A
+SET LOCAL "request.jwt.claims" TO '{"sub": "11111111-0000-0000-0000-000000000000", "role": "authenticated", "app_metadata": {"active_org_id": "org_a_text_id"}}';
+
+DO $$
+BEGIN
+  -- Test 3.3: A post nobody has claimed cannot be approved
+  BEGIN
+    PERFORM public.approve_shift_swap('5a5a0000-0000-0000-0000-000000000003');
+    RAISE EXCEPTION 'Test 3.3 failed: an open post was approved';
+  EXCEPTION WHEN check_violation THEN
+    RAISE NOTICE 'Test 3.3 passed: Only claimed posts can be approved';
+  END;
+END $$;
+
+-- ==========================================
+-- TEST 4: Manager A approves the giveaway
+-- ==========================================
+
+DO $$
+DECLARE
+  approved public.shift_swap_posts;
+BEGIN
+  approved := public.approve_shift_swap('5a5a0000-0000-0000-0000-000000000001');
+
+  -- Test 4.1: The post is approved by Manager A
+  ASSERT approved.status = 'approved', format('Test 4.1 failed: expected approved, got %s', approved.status);
+  ASSERT approved.reviewed_by_user_id = auth.uid(), 'Test 4.1 failed: the approval is not Manager A''s';
+  RAISE NOTICE 'Test 4.1 passed: Manager A approves the giveaway';
+
+  -- Test 4.2: Second Shooter moves to Employee A2
+  ASSERT (
+    SELECT user_id FROM public.job_assignments WHERE id = '5a5a0000-0000-0000-0000-0000000000a1'
+  ) = '44444444-0000-0000-0000-000000000000', 'Test 4.2 failed: Second Shooter did not move to Employee A2';
+  RAISE NOTICE 'Test 4.2 passed: The assignment moves to the claimant';
+
+  -- Test 4.3: Employee A2 joins the job's chat, and Employee A stays as they still work Assistant
+  ASSERT EXISTS (
+    SELECT 1 FROM public.group_chat_participants
+    WHERE group_chat_id = '5a5a0000-0000-0000-0000-0000000000c1' AND user_id = '44444444-0000-0000-0000-000000000000'
+  ), 'Test 4.3 failed: Employee A2 was not added to the chat';
+  ASSERT EXISTS (
+    SELECT 1 FROM public.group_chat_participants
+    WHERE group_chat_id = '5a5a0000-0000-0000-0000-0000000000c1' AND user_id = '22222222-0000-0000-0000-000000000000'
+  ), 'Test 4.3 failed: Employee A was removed from the chat while still on the job';
+  RAISE NOTICE 'Test 4.3 passed: Chat membership follows the assignment';
+
+  -- Test 4.4: Employee A2 comes off standby for the role they now work
+  ASSERT NOT EXISTS (
+    SELECT 1 FROM public.job_standby_entries
+    WHERE job_required_role_id = '5a5a0000-0000-0000-0000-0000000000f1' AND user_id = '44444444-0000-0000-0000-000000000000'
+  ), 'Test 4.4 failed: Employee A2 is still on standby for Second Shooter';
+  RAISE NOTICE 'Test 4.4 passed: The claimant comes off standby for the role';
+
+  -- Test 4.5: An approved post cannot be approved again
+  BEGIN
+    PERFORM public.approve_shift_swap('5a5a0000-0000-0000-0000-000000000001');
+    RAISE EXCEPTION 'Test 4.5 failed: the giveaway was approved twice';
+  EXCEPTION WHEN check_violation THEN
+    RAISE NOTICE 'Test 4.5 passed: An approved post cannot be approved again';
+  END;
+END $$;
+
+-- ==========================================
+-- TEST 5: Manager A approves the swap
+-- ==========================================
+
+DO $$
+DECLARE
+  approved public.shift_swap_posts;
+BEGIN
+  -- Test 5.1: Assistant moves to Employee A2 and Videographer to Employee A
+  approved := public.approve_shift_swap('5a5a0000-0000-0000-0000-000000000002');
+  ASSERT approved.status = 'approved', format('Test 5.1 failed: expected approved, got %s', approved.status);
+  ASSERT (
+    SELECT user_id FROM public.job_assignments WHERE id = '5a5a0000-0000-0000-0000-0000000000a3'
+  ) = '44444444-0000-0000-0000-000000000000', 'Test 5.1 failed: Assistant did not move to Employee A2';
+  ASSERT (
+    SELECT user_id FROM public.job_assignments WHERE id = '5a5a0000-0000-0000-0000-0000000000a2'
+  ) = '22222222-0000-0000-0000-000000000000', 'Test 5.1 failed: Videographer did not move to Employee A';
+  RAISE NOTICE 'Test 5.1 passed: Both assignments change hands';
+
+  -- Test 5.2: Employee A2's post of Videographer, which is no longer theirs, is cancelled
+  ASSERT (
+    SELECT status FROM public.shift_swap_posts WHERE id = '5a5a0000-0000-0000-0000-000000000003'
+  ) = 'cancelled', 'Test 5.2 failed: the old owner''s post of a moved shift is still live';
+  RAISE NOTICE 'Test 5.2 passed: Other posts of a moved shift are cancelled';
+END $$;
+
+RESET ROLE;
+
+-- Discard the changes
+ROLLBACK;
@@ -2,6 +2,13 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 
 // Define types for HoneyBook webhook payload
+interface HoneyBookContact {
+  id: string;
+  name?: string;
+  email?: string;
+  phone?: string;
+}
+
 interface HoneyBookWebhookPayload {
   event_id: string;
   event_type: string;
@@ -12,12 +19,8 @@ interface HoneyBookWebhookPayload {
     start_date?: string;
     end_date?: string;
     status?: string;
-    client?: {
-      id: string;
-      name?: string;
-      email?: string;
-      phone?: string;
-    };
+    client?: HoneyBookContact;
+    planner?: HoneyBookContact;
     location?: {
       name?: string;
       address?: string;
@@ -35,6 +38,10 @@ interface HoneyBookWebhookPayload {
   };
 }
 
+// Job lifecycle statuses, matching JobStatus in app/actions/jobs/types.ts.
+// Transitions between them are enforced by a trigger on the jobs table.
+type JobStatus = 'draft' | 'available' | 'upcoming' | 'in_progress' | 'completed' | 'cancelled';
+
 // Define types for our job data
 interface JobData {
   title: string;
@@ -42,7 +49,7 @@ interface JobData {
   start_time: string;
   end_time: string;
   venue_id?: string;
-  status: 'draft' | 'available' | 'upcoming' | 'in_progress' | 'completed' | 'cancelled';
+  status: JobStatus;
   org_id: string;
   honeybook_project_id: string;
   honeybook_data: any;
@@ -161,6 +168,8 @@ async function handleProjectCreated(
     await createJobRoles(supabase, job.id, payload.data.services);
   }
   
+  await syncJobContacts(supabase, job.id, payload);
+  
   return job;
 }
 
@@ -177,7 +186,7 @@ async function handleProjectUpdated(
   // Find the existing job
   const { data: existingJob, error: jobError } = await supabase
     .from('jobs')
-    .select('id, venue_id')
+    .select('id, venue_id, status')
     .eq('org_id', orgId)
     .eq('honeybook_project_id', honeyBookProjectId)
     .maybeSingle();
@@ -188,8 +197,9 @@ async function handleProjectUpdated(
     return await handleProjectCreated(supabase, orgId, payload);
   }
   
-  // Map HoneyBook project data to job data
-  const jobData = mapHoneyBookToJob(orgId, payload);
+  // Map HoneyBook project data to job data. Once a job exists its status is
+  // managed here, so HoneyBook only moves it when the project is completed or cancelled.
+  const { status: honeyBookStatus, ...jobData } = mapHoneyBookToJob(orgId, payload);
   
   // Update venue if needed
   if (payload.data.location) {
@@ -213,6 +223,22 @@ async function handleProjectUpdated(
   
   console.log(`Updated job with ID ${job.id} from HoneyBook project ${honeyBookProjectId}`);
   
+  if (
+    (honeyBookStatus === 'completed' || honeyBookStatus === 'cancelled') &&
+    existingJob.status !== honeyBookStatus
+  ) {
+    const { error: statusError } = await supabase.rpc('transition_job_status', {
+      p_job_id: existingJob.id,
+      p_to_status: honeyBookStatus,
+      p_reason: `HoneyBook project marked ${honeyBookStatus}`
+    });
+    
+    if (statusError) {
+      // A job that is already completed or cancelled here can't move again; keep the sync going
+      console.error(`Could not move job ${existingJob.id} to ${honeyBookStatus}: ${statusError.message}`);
+    }
+  }
+  
   // Update job required roles if services have changed
   if (payload.data.services && payload.data.services.length > 0) {
     // First, remove existing roles
@@ -225,6 +251,8 @@ async function handleProjectUpdated(
     await createJobRoles(supabase, existingJob.id, payload.data.services);
   }
   
+  await syncJobContacts(supabase, existingJob.id, payload);
+  
   return job;
 }
 
@@ -242,7 +270,8 @@ function mapHoneyBookToJob(
   if (data.status) {
     switch (data.status.toLowerCase()) {
       case 'booked':
-        jobStatus = 'upcoming';
+        // Booked projects still need staff
+        jobStatus = 'available';
         break;
       case 'completed':
         jobStatus = 'completed';
@@ -255,17 +284,13 @@ function mapHoneyBookToJob(
     }
   }
   
-  // Create a description that includes client details
+  // Client and planner details are stored as job contacts (see syncJobContacts),
+  // not in the description, which every employee can read
   let description = '';
-  if (data.client) {
-    description += `Client: ${data.client.name || 'Unknown'}\n`;
-    if (data.client.email) description += `Email: ${data.client.email}\n`;
-    if (data.client.phone) description += `Phone: ${data.client.phone}\n`;
-  }
   
   // Add services to description
   if (data.services && data.services.length > 0) {
-    description += '\nServices:\n';
+    description += 'Services:\n';
     data.services.forEach((service) => {
       description += `- ${service.name}`;
       if (service.quantity && service.quantity > 1) {
@@ -354,6 +379,44 @@ async function getOrCreateVenue(
   return venue.id;
 }
 
+/**
+ * Create or update the job's client and planner contacts from the HoneyBook
+ * project. Contacts are matched on their HoneyBook ID, so manual contacts are left alone.
+ */
+async function syncJobContacts(
+  supabase: any,
+  jobId: string,
+  payload: HoneyBookWebhookPayload
+): Promise<void> {
+  const contacts = [
+    { contact_type: 'client', contact: payload.data.client },
+    { contact_type: 'planner', contact: payload.data.planner },
+  ]
+    .filter(({ contact }) => contact?.id && contact.name)
+    .map(({ contact_type, contact }) => ({
+      job_id: jobId,
+      contact_type,
+      name: contact!.name,
+      email: contact!.email || null,
+      phone: contact!.phone || null,
+      source: 'honeybook',
+      external_id: contact!.id,
+      updated_at: new Date().toISOString(),
+    }));
+  
+  if (contacts.length === 0) {
+    return;
+  }
+  
+  const { error } = await supabase
+    .from('job_contacts')
+    .upsert(contacts, { onConflict: 'job_id,external_id' });
+  
+  if (error) {
+    console.error(`Failed to sync job contacts: ${error.message}`);
+  }
+}
+
 /**
  * Create job required roles based on HoneyBook services
  */
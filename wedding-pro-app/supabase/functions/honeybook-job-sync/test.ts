@@ -17,6 +17,12 @@ export const sampleProjectCreatedPayload = {
       email: "smiths@example.com",
       phone: "555-123-4567"
     },
+    planner: {
+      id: "planner_123456789",
+      name: "Avery Events",
+      email: "avery@example.com",
+      phone: "555-987-6543"
+    },
     location: {
       name: "Grand Ballroom",
       address: "123 Main St",
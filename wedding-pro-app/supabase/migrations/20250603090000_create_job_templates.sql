@@ -0,0 +1,147 @@
+-- Migration: Create job_templates and job_template_roles tables, link jobs to templates
+
+-- ============================
+-- Table: job_templates
+-- Column: org_id (UUID)
+-- ============================
+CREATE TABLE IF NOT EXISTS public.job_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.orgs(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  default_duration_minutes INTEGER NOT NULL CHECK (default_duration_minutes > 0),
+  default_venue_id UUID REFERENCES public.venues(id) ON DELETE SET NULL,
+  travel_pay_offered BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS job_templates_org_id_idx ON public.job_templates(org_id);
+
+-- ============================
+-- Table: job_template_roles
+-- Links to job_templates.org_id (UUID)
+-- ============================
+CREATE TABLE IF NOT EXISTS public.job_template_roles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES public.job_templates(id) ON DELETE CASCADE,
+  role_name TEXT NOT NULL,
+  quantity_needed INTEGER NOT NULL DEFAULT 1 CHECK (quantity_needed > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS job_template_roles_template_id_idx ON public.job_template_roles(template_id);
+
+-- Remember which template a job was stamped from
+ALTER TABLE public.jobs
+ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES public.job_templates(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS jobs_template_id_idx ON public.jobs(template_id);
+
+-- ============================
+-- RLS: job_templates
+-- ============================
+ALTER TABLE public.job_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view job_templates in their active org" ON public.job_templates;
+DROP POLICY IF EXISTS "Org Admins/Managers can manage job_templates in their active org" ON public.job_templates;
+DROP POLICY IF EXISTS "Service role full access on job_templates" ON public.job_templates;
+
+CREATE POLICY "Users can view job_templates in their active org"
+ON public.job_templates
+FOR SELECT
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(job_templates.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+);
+
+CREATE POLICY "Org Admins/Managers can manage job_templates in their active org"
+ON public.job_templates
+FOR ALL
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(job_templates.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+)
+WITH CHECK (
+  internal_get_text_org_id_from_uuid(job_templates.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Service role full access on job_templates"
+ON public.job_templates
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- ============================
+-- RLS: job_template_roles
+-- ============================
+ALTER TABLE public.job_template_roles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view job_template_roles in their active org" ON public.job_template_roles;
+DROP POLICY IF EXISTS "Org Admins/Managers can manage job_template_roles in their active org" ON public.job_template_roles;
+DROP POLICY IF EXISTS "Service role full access on job_template_roles" ON public.job_template_roles;
+
+CREATE POLICY "Users can view job_template_roles in their active org"
+ON public.job_template_roles
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.job_templates t
+    WHERE t.id = job_template_roles.template_id
+    AND internal_get_text_org_id_from_uuid(t.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+  )
+);
+
+CREATE POLICY "Org Admins/Managers can manage job_template_roles in their active org"
+ON public.job_template_roles
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.job_templates t
+    WHERE t.id = job_template_roles.template_id
+    AND internal_get_text_org_id_from_uuid(t.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+  ) AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.job_templates t
+    WHERE t.id = job_template_roles.template_id
+    AND internal_get_text_org_id_from_uuid(t.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+  ) AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Service role full access on job_template_roles"
+ON public.job_template_roles
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
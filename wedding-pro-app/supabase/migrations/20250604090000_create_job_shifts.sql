@@ -0,0 +1,234 @@
+-- Migration: Split jobs into shifts so multi-day events can staff each day separately
+
+-- ============================
+-- Table: job_shifts
+-- Links to jobs.org_id (UUID)
+-- ============================
+CREATE TABLE IF NOT EXISTS public.job_shifts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ NOT NULL,
+  call_time TIMESTAMPTZ,
+  venue_id UUID REFERENCES public.venues(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT job_shifts_time_window_check CHECK (end_time > start_time),
+  CONSTRAINT job_shifts_call_time_check CHECK (call_time IS NULL OR call_time <= start_time)
+);
+
+CREATE INDEX IF NOT EXISTS job_shifts_job_id_idx ON public.job_shifts(job_id);
+CREATE INDEX IF NOT EXISTS job_shifts_start_time_idx ON public.job_shifts(start_time);
+
+-- Roles, interest and assignments now belong to a shift
+ALTER TABLE public.job_required_roles
+ADD COLUMN IF NOT EXISTS shift_id UUID REFERENCES public.job_shifts(id) ON DELETE CASCADE;
+
+ALTER TABLE public.job_interests
+ADD COLUMN IF NOT EXISTS shift_id UUID REFERENCES public.job_shifts(id) ON DELETE CASCADE;
+
+ALTER TABLE public.job_assignments
+ADD COLUMN IF NOT EXISTS shift_id UUID REFERENCES public.job_shifts(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS job_required_roles_shift_id_idx ON public.job_required_roles(shift_id);
+CREATE INDEX IF NOT EXISTS job_interests_shift_id_idx ON public.job_interests(shift_id);
+CREATE INDEX IF NOT EXISTS job_assignments_shift_id_idx ON public.job_assignments(shift_id);
+
+-- ============================
+-- Backfill: every existing job gets a single shift matching its current window
+-- ============================
+INSERT INTO public.job_shifts (job_id, name, start_time, end_time, venue_id)
+SELECT j.id, 'Main', j.start_time, j.end_time, j.venue_id
+FROM public.jobs j
+WHERE NOT EXISTS (SELECT 1 FROM public.job_shifts s WHERE s.job_id = j.id);
+
+UPDATE public.job_required_roles r
+SET shift_id = s.id
+FROM public.job_shifts s
+WHERE s.job_id = r.job_id
+AND r.shift_id IS NULL;
+
+UPDATE public.job_interests i
+SET shift_id = s.id
+FROM public.job_shifts s
+WHERE s.job_id = i.job_id
+AND i.shift_id IS NULL;
+
+UPDATE public.job_assignments a
+SET shift_id = r.shift_id
+FROM public.job_required_roles r
+WHERE r.id = a.job_required_role_id
+AND a.shift_id IS NULL;
+
+-- One interest record per employee per shift
+CREATE UNIQUE INDEX IF NOT EXISTS job_interests_user_id_shift_id_key
+ON public.job_interests(user_id, shift_id);
+
+-- ============================
+-- Triggers
+-- ============================
+
+-- New jobs start with one shift covering the job's window, so existing
+-- single-day code paths (manual create, templates, HoneyBook sync) keep working
+CREATE OR REPLACE FUNCTION create_default_job_shift()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO job_shifts (job_id, name, start_time, end_time, venue_id)
+  VALUES (NEW.id, 'Main', NEW.start_time, NEW.end_time, NEW.venue_id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_create_default_job_shift ON jobs;
+CREATE TRIGGER trigger_create_default_job_shift
+AFTER INSERT ON jobs
+FOR EACH ROW
+EXECUTE FUNCTION create_default_job_shift();
+
+-- Roles inserted without a shift go to the job's earliest shift
+CREATE OR REPLACE FUNCTION set_default_role_shift()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.shift_id IS NULL THEN
+    SELECT id INTO NEW.shift_id
+    FROM job_shifts
+    WHERE job_id = NEW.job_id
+    ORDER BY start_time ASC
+    LIMIT 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_set_default_role_shift ON job_required_roles;
+CREATE TRIGGER trigger_set_default_role_shift
+BEFORE INSERT ON job_required_roles
+FOR EACH ROW
+EXECUTE FUNCTION set_default_role_shift();
+
+-- Keep jobs.start_time/end_time as the envelope of the job's shifts
+CREATE OR REPLACE FUNCTION sync_job_window_from_shifts()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_job_id UUID := COALESCE(NEW.job_id, OLD.job_id);
+  window_start TIMESTAMPTZ;
+  window_end TIMESTAMPTZ;
+BEGIN
+  SELECT MIN(start_time), MAX(end_time)
+  INTO window_start, window_end
+  FROM job_shifts
+  WHERE job_id = target_job_id;
+
+  -- Deleting the last shift leaves the job's window as it was
+  IF window_start IS NOT NULL THEN
+    UPDATE jobs
+    SET start_time = window_start,
+        end_time = window_end
+    WHERE id = target_job_id
+    AND (start_time IS DISTINCT FROM window_start OR end_time IS DISTINCT FROM window_end);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_sync_job_window_from_shifts ON job_shifts;
+CREATE TRIGGER trigger_sync_job_window_from_shifts
+AFTER INSERT OR UPDATE OF start_time, end_time OR DELETE ON job_shifts
+FOR EACH ROW
+EXECUTE FUNCTION sync_job_window_from_shifts();
+
+-- Editing the window of a single-shift job moves its only shift along with it
+CREATE OR REPLACE FUNCTION sync_single_shift_from_job()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (SELECT COUNT(*) FROM job_shifts WHERE job_id = NEW.id) = 1 THEN
+    UPDATE job_shifts
+    SET start_time = NEW.start_time,
+        end_time = NEW.end_time,
+        venue_id = NEW.venue_id,
+        updated_at = NOW()
+    WHERE job_id = NEW.id
+    AND (
+      start_time IS DISTINCT FROM NEW.start_time OR
+      end_time IS DISTINCT FROM NEW.end_time OR
+      venue_id IS DISTINCT FROM NEW.venue_id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_sync_single_shift_from_job ON jobs;
+CREATE TRIGGER trigger_sync_single_shift_from_job
+AFTER UPDATE OF start_time, end_time, venue_id ON jobs
+FOR EACH ROW
+WHEN (
+  OLD.start_time IS DISTINCT FROM NEW.start_time OR
+  OLD.end_time IS DISTINCT FROM NEW.end_time OR
+  OLD.venue_id IS DISTINCT FROM NEW.venue_id
+)
+EXECUTE FUNCTION sync_single_shift_from_job();
+
+-- ============================
+-- RLS: job_shifts
+-- ============================
+ALTER TABLE public.job_shifts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view job_shifts in their active org" ON public.job_shifts;
+DROP POLICY IF EXISTS "Org Admins/Managers can manage job_shifts in their active org" ON public.job_shifts;
+DROP POLICY IF EXISTS "Service role full access on job_shifts" ON public.job_shifts;
+
+CREATE POLICY "Users can view job_shifts in their active org"
+ON public.job_shifts
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.jobs j
+    WHERE j.id = job_shifts.job_id
+    AND internal_get_text_org_id_from_uuid(j.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+  )
+);
+
+CREATE POLICY "Org Admins/Managers can manage job_shifts in their active org"
+ON public.job_shifts
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.jobs j
+    WHERE j.id = job_shifts.job_id
+    AND internal_get_text_org_id_from_uuid(j.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+  ) AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.jobs j
+    WHERE j.id = job_shifts.job_id
+    AND internal_get_text_org_id_from_uuid(j.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+  ) AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Service role full access on job_shifts"
+ON public.job_shifts
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
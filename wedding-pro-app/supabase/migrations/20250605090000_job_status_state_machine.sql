@@ -0,0 +1,194 @@
+-- Migration: One canonical job lifecycle with enforced transitions and a status history
+--
+-- draft -> available -> upcoming -> in_progress -> completed
+-- Any status that is not final can also move to cancelled.
+
+-- ============================
+-- Normalize legacy statuses
+-- ============================
+UPDATE public.jobs SET status = 'available' WHERE status IN ('open', 'pending');
+UPDATE public.jobs SET status = 'upcoming' WHERE status = 'assigned';
+
+ALTER TABLE public.jobs DROP CONSTRAINT IF EXISTS jobs_status_check;
+ALTER TABLE public.jobs
+ADD CONSTRAINT jobs_status_check
+CHECK (status IN ('draft', 'available', 'upcoming', 'in_progress', 'completed', 'cancelled'));
+
+-- ============================
+-- Table: job_status_history
+-- Links to jobs.org_id (UUID)
+-- ============================
+CREATE TABLE IF NOT EXISTS public.job_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  from_status TEXT, -- NULL for the status a job was created with
+  to_status TEXT NOT NULL,
+  changed_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL for service role changes
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS job_status_history_job_id_idx ON public.job_status_history(job_id, created_at);
+
+-- ============================
+-- Transition rules
+-- Keep in sync with JOB_STATUS_TRANSITIONS in app/actions/jobs/client-utils.ts
+-- ============================
+CREATE OR REPLACE FUNCTION public.job_status_transition_allowed(from_status TEXT, to_status TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN CASE from_status
+    WHEN 'draft' THEN to_status IN ('available', 'cancelled')
+    WHEN 'available' THEN to_status IN ('draft', 'upcoming', 'in_progress', 'completed', 'cancelled')
+    WHEN 'upcoming' THEN to_status IN ('available', 'in_progress', 'completed', 'cancelled')
+    WHEN 'in_progress' THEN to_status IN ('completed', 'cancelled')
+    ELSE FALSE
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+GRANT EXECUTE ON FUNCTION public.job_status_transition_allowed(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.job_status_transition_allowed(TEXT, TEXT) TO service_role;
+
+-- ============================
+-- Triggers
+-- ============================
+
+-- Reject transitions outside the lifecycle and stamp analytics on the ones that matter
+CREATE OR REPLACE FUNCTION enforce_job_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT public.job_status_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Invalid job status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- First time the job is fully staffed
+  IF NEW.status = 'upcoming' AND NEW.first_assigned_at IS NULL THEN
+    NEW.first_assigned_at := NOW();
+  END IF;
+
+  IF NEW.status = 'completed' THEN
+    NEW.completed_at := NOW();
+    IF NEW.first_assigned_at IS NOT NULL THEN
+      NEW.time_to_fill_duration := NEW.first_assigned_at - NEW.created_at;
+      NEW.assignment_to_completion_duration := NEW.completed_at - NEW.first_assigned_at;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_enforce_job_status_transition ON jobs;
+CREATE TRIGGER trigger_enforce_job_status_transition
+BEFORE UPDATE OF status ON jobs
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION enforce_job_status_transition();
+
+-- Record every status a job enters. The reason comes from transition_job_status().
+CREATE OR REPLACE FUNCTION record_job_status_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO job_status_history (job_id, from_status, to_status, changed_by_user_id, reason)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    auth.uid(),
+    NULLIF(current_setting('app.job_status_reason', true), '')
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_record_job_status_history ON jobs;
+CREATE TRIGGER trigger_record_job_status_history
+AFTER INSERT OR UPDATE OF status ON jobs
+FOR EACH ROW
+EXECUTE FUNCTION record_job_status_history();
+
+-- first_assigned_at now follows the move to 'upcoming' rather than the first assignment insert
+DROP TRIGGER IF EXISTS trigger_set_first_assigned_at ON job_assignments;
+DROP FUNCTION IF EXISTS set_first_assigned_at();
+
+-- ============================
+-- RPC: transition_job_status
+-- Runs as the caller, so the jobs RLS policies still decide who may change a job
+-- ============================
+CREATE OR REPLACE FUNCTION public.transition_job_status(
+  p_job_id UUID,
+  p_to_status TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.jobs
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  updated_job public.jobs;
+BEGIN
+  PERFORM set_config('app.job_status_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE public.jobs
+  SET status = p_to_status
+  WHERE id = p_job_id
+  RETURNING * INTO updated_job;
+
+  PERFORM set_config('app.job_status_reason', '', true);
+
+  IF updated_job.id IS NULL THEN
+    RAISE EXCEPTION 'Job % not found', p_job_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN updated_job;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.transition_job_status(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.transition_job_status(UUID, TEXT, TEXT) TO service_role;
+
+-- ============================
+-- Backfill: seed history with each job's current status
+-- ============================
+INSERT INTO public.job_status_history (job_id, from_status, to_status, changed_by_user_id, reason, created_at)
+SELECT j.id, NULL, j.status, NULL, 'Status before lifecycle tracking', NOW()
+FROM public.jobs j
+WHERE NOT EXISTS (SELECT 1 FROM public.job_status_history h WHERE h.job_id = j.id);
+
+-- ============================
+-- RLS: job_status_history
+-- Rows are written by the trigger only
+-- ============================
+ALTER TABLE public.job_status_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view job_status_history in their active org" ON public.job_status_history;
+DROP POLICY IF EXISTS "Service role full access on job_status_history" ON public.job_status_history;
+
+CREATE POLICY "Users can view job_status_history in their active org"
+ON public.job_status_history
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.jobs j
+    WHERE j.id = job_status_history.job_id
+    AND internal_get_text_org_id_from_uuid(j.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+  )
+);
+
+CREATE POLICY "Service role full access on job_status_history"
+ON public.job_status_history
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
@@ -0,0 +1,229 @@
+-- Migration: Bulk job imports from CSV/XLSX, recorded so they can be rolled back
+
+-- ============================
+-- Table: job_imports
+-- Column: org_id (UUID)
+-- ============================
+CREATE TABLE IF NOT EXISTS public.job_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.orgs(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  job_count INTEGER NOT NULL DEFAULT 0,
+  venue_count INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'committed' CHECK (status IN ('committed', 'rolled_back')),
+  created_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  rolled_back_at TIMESTAMPTZ,
+  rolled_back_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS job_imports_org_id_idx ON public.job_imports(org_id, created_at DESC);
+
+-- Jobs and venues created by an import point back to it
+ALTER TABLE public.jobs
+ADD COLUMN IF NOT EXISTS import_id UUID REFERENCES public.job_imports(id) ON DELETE SET NULL;
+
+ALTER TABLE public.venues
+ADD COLUMN IF NOT EXISTS import_id UUID REFERENCES public.job_imports(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS jobs_import_id_idx ON public.jobs(import_id);
+CREATE INDEX IF NOT EXISTS venues_import_id_idx ON public.venues(import_id);
+
+-- ============================
+-- RPC: commit_job_import
+-- Writes the import record, new venues, jobs and role requirements in one
+-- transaction. Runs as the caller so the usual RLS policies apply.
+--
+-- p_venues: [{ key, name, address, city, state, zip }]
+-- p_jobs:   [{ title, description, start_time, end_time, status, venue_id, new_venue_key,
+--              roles: [{ role_name, quantity_needed }] }]
+-- ============================
+CREATE OR REPLACE FUNCTION public.commit_job_import(
+  p_org_id UUID,
+  p_file_name TEXT,
+  p_jobs JSONB,
+  p_venues JSONB DEFAULT '[]'::JSONB
+)
+RETURNS public.job_imports
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  new_import public.job_imports;
+  venue_ids JSONB := '{}'::JSONB;
+  venue_record JSONB;
+  job_record JSONB;
+  role_record JSONB;
+  new_venue_id UUID;
+  new_job_id UUID;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_jobs, '[]'::JSONB)) = 0 THEN
+    RAISE EXCEPTION 'There are no jobs to import';
+  END IF;
+
+  INSERT INTO public.job_imports (org_id, file_name, created_by_user_id)
+  VALUES (p_org_id, p_file_name, auth.uid())
+  RETURNING * INTO new_import;
+
+  FOR venue_record IN SELECT * FROM jsonb_array_elements(COALESCE(p_venues, '[]'::JSONB)) LOOP
+    INSERT INTO public.venues (org_id, name, address, city, state, zip_code, created_by_user_id, import_id)
+    VALUES (
+      p_org_id,
+      venue_record->>'name',
+      venue_record->>'address',
+      venue_record->>'city',
+      venue_record->>'state',
+      venue_record->>'zip',
+      auth.uid(),
+      new_import.id
+    )
+    RETURNING id INTO new_venue_id;
+
+    INSERT INTO public.locations (venue_id, org_id, address_line1, city, state_province, postal_code)
+    VALUES (
+      new_venue_id,
+      p_org_id,
+      venue_record->>'address',
+      venue_record->>'city',
+      venue_record->>'state',
+      venue_record->>'zip'
+    );
+
+    venue_ids := venue_ids || jsonb_build_object(venue_record->>'key', new_venue_id);
+  END LOOP;
+
+  -- Shown as the reason on each job's first status history entry
+  PERFORM set_config('app.job_status_reason', 'Imported from ' || p_file_name, true);
+
+  FOR job_record IN SELECT * FROM jsonb_array_elements(p_jobs) LOOP
+    INSERT INTO public.jobs (
+      org_id, title, description, start_time, end_time, venue_id, status,
+      travel_pay_offered, created_by_user_id, import_id
+    )
+    VALUES (
+      p_org_id,
+      job_record->>'title',
+      job_record->>'description',
+      (job_record->>'start_time')::TIMESTAMPTZ,
+      (job_record->>'end_time')::TIMESTAMPTZ,
+      COALESCE((job_record->>'venue_id')::UUID, (venue_ids->>(job_record->>'new_venue_key'))::UUID),
+      job_record->>'status',
+      FALSE,
+      auth.uid(),
+      new_import.id
+    )
+    RETURNING id INTO new_job_id;
+
+    FOR role_record IN SELECT * FROM jsonb_array_elements(COALESCE(job_record->'roles', '[]'::JSONB)) LOOP
+      INSERT INTO public.job_required_roles (job_id, role_name, quantity_needed)
+      VALUES (new_job_id, role_record->>'role_name', (role_record->>'quantity_needed')::INTEGER);
+    END LOOP;
+  END LOOP;
+
+  PERFORM set_config('app.job_status_reason', '', true);
+
+  UPDATE public.job_imports
+  SET job_count = jsonb_array_length(p_jobs),
+      venue_count = jsonb_array_length(COALESCE(p_venues, '[]'::JSONB))
+  WHERE id = new_import.id
+  RETURNING * INTO new_import;
+
+  RETURN new_import;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.commit_job_import(UUID, TEXT, JSONB, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.commit_job_import(UUID, TEXT, JSONB, JSONB) TO service_role;
+
+-- ============================
+-- RPC: rollback_job_import
+-- Deletes the jobs an import created, and its venues once no job uses them.
+-- Refuses once anyone has been assigned to an imported job.
+-- ============================
+CREATE OR REPLACE FUNCTION public.rollback_job_import(p_import_id UUID)
+RETURNS public.job_imports
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target_import public.job_imports;
+  assignment_count INTEGER;
+BEGIN
+  SELECT * INTO target_import
+  FROM public.job_imports
+  WHERE id = p_import_id
+  FOR UPDATE;
+
+  IF target_import.id IS NULL THEN
+    RAISE EXCEPTION 'Import % not found', p_import_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target_import.status = 'rolled_back' THEN
+    RAISE EXCEPTION 'This import has already been rolled back';
+  END IF;
+
+  SELECT COUNT(*) INTO assignment_count
+  FROM public.job_assignments a
+  JOIN public.jobs j ON j.id = a.job_id
+  WHERE j.import_id = p_import_id;
+
+  IF assignment_count > 0 THEN
+    RAISE EXCEPTION 'Employees have already been assigned to % imported job slot(s); remove those assignments first', assignment_count;
+  END IF;
+
+  DELETE FROM public.jobs WHERE import_id = p_import_id;
+
+  DELETE FROM public.venues v
+  WHERE v.import_id = p_import_id
+  AND NOT EXISTS (SELECT 1 FROM public.jobs j WHERE j.venue_id = v.id);
+
+  UPDATE public.job_imports
+  SET status = 'rolled_back',
+      rolled_back_at = NOW(),
+      rolled_back_by_user_id = auth.uid()
+  WHERE id = p_import_id
+  RETURNING * INTO target_import;
+
+  RETURN target_import;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.rollback_job_import(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rollback_job_import(UUID) TO service_role;
+
+-- ============================
+-- RLS: job_imports
+-- ============================
+ALTER TABLE public.job_imports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org Admins/Managers can view job_imports in their active org" ON public.job_imports;
+DROP POLICY IF EXISTS "Org Admins/Managers can manage job_imports in their active org" ON public.job_imports;
+DROP POLICY IF EXISTS "Service role full access on job_imports" ON public.job_imports;
+
+CREATE POLICY "Org Admins/Managers can manage job_imports in their active org"
+ON public.job_imports
+FOR ALL
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(job_imports.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+)
+WITH CHECK (
+  internal_get_text_org_id_from_uuid(job_imports.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Service role full access on job_imports"
+ON public.job_imports
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
@@ -0,0 +1,188 @@
+-- Migration: Personal iCalendar (ICS) feeds of each employee's assignments
+
+-- ============================
+-- Table: calendar_feed_tokens
+-- The secret in an employee's subscription URL. Revoked tokens are kept so a
+-- leaked URL stays dead; each user has at most one active token.
+-- ============================
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_accessed_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS calendar_feed_tokens_active_user_idx
+ON public.calendar_feed_tokens(user_id)
+WHERE revoked_at IS NULL;
+
+-- ============================
+-- Table: assignment_calendar_events
+-- One row per assignment that has ever appeared in a feed. The assignment ID
+-- is the event UID; sequence goes up whenever the event changes so calendar
+-- apps replace their copy. Dropped assignments keep their row with
+-- cancelled_at set so the feed can publish the cancellation.
+-- ============================
+CREATE TABLE IF NOT EXISTS public.assignment_calendar_events (
+  assignment_id UUID PRIMARY KEY, -- No FK: the row outlives a deleted assignment
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  sequence INTEGER NOT NULL DEFAULT 0,
+  cancelled_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS assignment_calendar_events_user_id_idx ON public.assignment_calendar_events(user_id);
+CREATE INDEX IF NOT EXISTS assignment_calendar_events_job_id_idx ON public.assignment_calendar_events(job_id);
+
+-- Backfill existing assignments
+INSERT INTO public.assignment_calendar_events (assignment_id, user_id, job_id)
+SELECT a.id, a.user_id, a.job_id
+FROM public.job_assignments a
+WHERE a.user_id IS NOT NULL
+ON CONFLICT (assignment_id) DO NOTHING;
+
+-- ============================
+-- Triggers: bump the event sequence on every change a calendar should see
+-- ============================
+
+-- Assignment created, changed or dropped
+CREATE OR REPLACE FUNCTION sync_assignment_calendar_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    UPDATE public.assignment_calendar_events
+    SET sequence = sequence + 1,
+        cancelled_at = NOW(),
+        updated_at = NOW()
+    WHERE assignment_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.assignment_calendar_events (assignment_id, user_id, job_id)
+    VALUES (NEW.id, NEW.user_id, NEW.job_id)
+    ON CONFLICT (assignment_id) DO NOTHING;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.shift_id IS DISTINCT FROM OLD.shift_id
+    OR NEW.job_required_role_id IS DISTINCT FROM OLD.job_required_role_id
+    OR NEW.status IS DISTINCT FROM OLD.status THEN
+    UPDATE public.assignment_calendar_events
+    SET sequence = sequence + 1,
+        cancelled_at = CASE WHEN NEW.status = 'declined' THEN NOW() ELSE NULL END,
+        updated_at = NOW()
+    WHERE assignment_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_sync_assignment_calendar_event ON job_assignments;
+CREATE TRIGGER trigger_sync_assignment_calendar_event
+AFTER INSERT OR UPDATE OR DELETE ON job_assignments
+FOR EACH ROW
+EXECUTE FUNCTION sync_assignment_calendar_event();
+
+-- Job rescheduled, renamed, moved or cancelled
+CREATE OR REPLACE FUNCTION bump_job_calendar_events()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.title IS DISTINCT FROM OLD.title
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW.start_time IS DISTINCT FROM OLD.start_time
+    OR NEW.end_time IS DISTINCT FROM OLD.end_time
+    OR NEW.venue_id IS DISTINCT FROM OLD.venue_id
+    OR NEW.status IS DISTINCT FROM OLD.status THEN
+    UPDATE public.assignment_calendar_events
+    SET sequence = sequence + 1,
+        updated_at = NOW()
+    WHERE job_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_bump_job_calendar_events ON jobs;
+CREATE TRIGGER trigger_bump_job_calendar_events
+AFTER UPDATE ON jobs
+FOR EACH ROW
+EXECUTE FUNCTION bump_job_calendar_events();
+
+-- Shift times, call time or venue changed
+CREATE OR REPLACE FUNCTION bump_shift_calendar_events()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.name IS DISTINCT FROM OLD.name
+    OR NEW.start_time IS DISTINCT FROM OLD.start_time
+    OR NEW.end_time IS DISTINCT FROM OLD.end_time
+    OR NEW.call_time IS DISTINCT FROM OLD.call_time
+    OR NEW.venue_id IS DISTINCT FROM OLD.venue_id THEN
+    UPDATE public.assignment_calendar_events e
+    SET sequence = e.sequence + 1,
+        updated_at = NOW()
+    FROM public.job_assignments a
+    WHERE a.id = e.assignment_id
+    AND a.shift_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_bump_shift_calendar_events ON job_shifts;
+CREATE TRIGGER trigger_bump_shift_calendar_events
+AFTER UPDATE ON job_shifts
+FOR EACH ROW
+EXECUTE FUNCTION bump_shift_calendar_events();
+
+-- ============================
+-- RLS: calendar_feed_tokens
+-- The feed route itself reads with the service role, since calendar apps
+-- have no session.
+-- ============================
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own calendar feed tokens" ON public.calendar_feed_tokens;
+DROP POLICY IF EXISTS "Service role full access on calendar_feed_tokens" ON public.calendar_feed_tokens;
+
+CREATE POLICY "Users can manage their own calendar feed tokens"
+ON public.calendar_feed_tokens
+FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Service role full access on calendar_feed_tokens"
+ON public.calendar_feed_tokens
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- ============================
+-- RLS: assignment_calendar_events
+-- Written only by the triggers above
+-- ============================
+ALTER TABLE public.assignment_calendar_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own assignment calendar events" ON public.assignment_calendar_events;
+DROP POLICY IF EXISTS "Service role full access on assignment_calendar_events" ON public.assignment_calendar_events;
+
+CREATE POLICY "Users can view their own assignment calendar events"
+ON public.assignment_calendar_events
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Service role full access on assignment_calendar_events"
+ON public.assignment_calendar_events
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
@@ -0,0 +1,149 @@
+-- Migration: Job cancellation with a reason, released staff and late-cancellation (kill) fees
+
+-- ============================
+-- Organization cancellation policy
+-- Cancelling less than cancellation_notice_hours before a job starts owes
+-- each assigned staff member cancellation_fee_amount.
+-- ============================
+ALTER TABLE public.orgs
+ADD COLUMN IF NOT EXISTS cancellation_notice_hours INTEGER NOT NULL DEFAULT 72 CHECK (cancellation_notice_hours >= 0),
+ADD COLUMN IF NOT EXISTS cancellation_fee_amount NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (cancellation_fee_amount >= 0);
+
+-- ============================
+-- Cancellation details on the job
+-- ============================
+ALTER TABLE public.jobs
+ADD COLUMN IF NOT EXISTS cancellation_reason TEXT,
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS cancelled_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS cancellation_fee_total NUMERIC(10,2) NOT NULL DEFAULT 0;
+
+-- ============================
+-- Table: job_cancellation_fees
+-- One row per staff member owed a fee for a late cancellation. Kept after the
+-- assignment is released so exports and payroll can pay it.
+-- ============================
+CREATE TABLE IF NOT EXISTS public.job_cancellation_fees (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES public.orgs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role_name TEXT,
+  amount NUMERIC(10,2) NOT NULL CHECK (amount >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS job_cancellation_fees_job_id_idx ON public.job_cancellation_fees(job_id);
+CREATE INDEX IF NOT EXISTS job_cancellation_fees_user_id_idx ON public.job_cancellation_fees(user_id);
+CREATE INDEX IF NOT EXISTS job_cancellation_fees_org_id_idx ON public.job_cancellation_fees(org_id, created_at);
+
+-- ============================
+-- RPC: cancel_job
+-- Cancels a job in one transaction: records the reason, writes a fee row for
+-- each released staff member when p_fee_amount > 0, deletes the assignments
+-- and moves the job to cancelled (the status trigger records the history).
+-- The fee is worked out by the caller from the org's policy.
+-- ============================
+CREATE OR REPLACE FUNCTION public.cancel_job(
+  p_job_id UUID,
+  p_reason TEXT,
+  p_fee_amount NUMERIC DEFAULT 0
+)
+RETURNS public.jobs
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target_job public.jobs;
+  fee_count INTEGER := 0;
+BEGIN
+  SELECT * INTO target_job
+  FROM public.jobs
+  WHERE id = p_job_id
+  FOR UPDATE;
+
+  IF target_job.id IS NULL THEN
+    RAISE EXCEPTION 'Job % not found', p_job_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT public.job_status_transition_allowed(target_job.status, 'cancelled') THEN
+    RAISE EXCEPTION 'A % job cannot be cancelled', target_job.status USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF COALESCE(p_fee_amount, 0) > 0 THEN
+    INSERT INTO public.job_cancellation_fees (job_id, org_id, user_id, role_name, amount)
+    SELECT a.job_id, target_job.org_id, a.user_id, r.role_name, p_fee_amount
+    FROM public.job_assignments a
+    LEFT JOIN public.job_required_roles r ON r.id = a.job_required_role_id
+    WHERE a.job_id = p_job_id
+    AND a.status IS DISTINCT FROM 'declined';
+
+    GET DIAGNOSTICS fee_count = ROW_COUNT;
+  END IF;
+
+  DELETE FROM public.job_assignments WHERE job_id = p_job_id;
+
+  PERFORM set_config('app.job_status_reason', p_reason, true);
+
+  UPDATE public.jobs
+  SET status = 'cancelled',
+      cancellation_reason = p_reason,
+      cancelled_at = NOW(),
+      cancelled_by_user_id = auth.uid(),
+      cancellation_fee_total = fee_count * COALESCE(p_fee_amount, 0)
+  WHERE id = p_job_id
+  RETURNING * INTO target_job;
+
+  PERFORM set_config('app.job_status_reason', '', true);
+
+  RETURN target_job;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_job(UUID, TEXT, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_job(UUID, TEXT, NUMERIC) TO service_role;
+
+-- ============================
+-- RLS: job_cancellation_fees
+-- Links to jobs.org_id (UUID)
+-- ============================
+ALTER TABLE public.job_cancellation_fees ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org Admins/Managers can manage job_cancellation_fees in their active org" ON public.job_cancellation_fees;
+DROP POLICY IF EXISTS "Employees can view their own job_cancellation_fees" ON public.job_cancellation_fees;
+DROP POLICY IF EXISTS "Service role full access on job_cancellation_fees" ON public.job_cancellation_fees;
+
+CREATE POLICY "Org Admins/Managers can manage job_cancellation_fees in their active org"
+ON public.job_cancellation_fees
+FOR ALL
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(job_cancellation_fees.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+)
+WITH CHECK (
+  internal_get_text_org_id_from_uuid(job_cancellation_fees.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Employees can view their own job_cancellation_fees"
+ON public.job_cancellation_fees
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Service role full access on job_cancellation_fees"
+ON public.job_cancellation_fees
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
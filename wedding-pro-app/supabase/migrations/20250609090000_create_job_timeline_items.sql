@@ -0,0 +1,84 @@
+-- Migration: Run-of-show timeline items on jobs, and tracking for day-before reminders
+
+-- ============================
+-- Table: job_timeline_items
+-- Links to jobs.org_id (UUID)
+-- ============================
+CREATE TABLE IF NOT EXISTS public.job_timeline_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  starts_at TIMESTAMPTZ NOT NULL,
+  title TEXT NOT NULL,
+  location TEXT,
+  role_names TEXT[] NOT NULL DEFAULT '{}', -- Empty means everyone on the job
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS job_timeline_items_job_id_idx ON public.job_timeline_items(job_id, starts_at);
+
+-- When the day-before reminder went out for an assignment
+ALTER TABLE public.job_assignments
+ADD COLUMN IF NOT EXISTS reminder_sent_at TIMESTAMPTZ;
+
+-- ============================
+-- RLS: job_timeline_items
+-- Managers edit the timeline; staff assigned to the job can read it
+-- ============================
+ALTER TABLE public.job_timeline_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org Admins/Managers can manage job_timeline_items in their active org" ON public.job_timeline_items;
+DROP POLICY IF EXISTS "Assigned employees can view job_timeline_items" ON public.job_timeline_items;
+DROP POLICY IF EXISTS "Service role full access on job_timeline_items" ON public.job_timeline_items;
+
+CREATE POLICY "Org Admins/Managers can manage job_timeline_items in their active org"
+ON public.job_timeline_items
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.jobs j
+    WHERE j.id = job_timeline_items.job_id
+    AND internal_get_text_org_id_from_uuid(j.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+  ) AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.jobs j
+    WHERE j.id = job_timeline_items.job_id
+    AND internal_get_text_org_id_from_uuid(j.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+  ) AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Assigned employees can view job_timeline_items"
+ON public.job_timeline_items
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.job_assignments a
+    WHERE a.job_id = job_timeline_items.job_id
+    AND a.user_id = auth.uid()
+    AND a.status IS DISTINCT FROM 'declined'
+  )
+);
+
+CREATE POLICY "Service role full access on job_timeline_items"
+ON public.job_timeline_items
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
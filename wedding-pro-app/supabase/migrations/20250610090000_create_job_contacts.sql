@@ -0,0 +1,110 @@
+-- Migration: Client (couple) and planner contacts on jobs, with day-of access for assigned staff
+
+-- ============================
+-- Table: job_contacts
+-- Links to jobs.org_id (UUID)
+-- ============================
+CREATE TABLE IF NOT EXISTS public.job_contacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  contact_type TEXT NOT NULL CHECK (contact_type IN ('client', 'planner')),
+  name TEXT NOT NULL,
+  email TEXT,
+  phone TEXT,
+  notes TEXT,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'honeybook')),
+  external_id TEXT, -- HoneyBook client/planner ID for synced contacts
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT job_contacts_job_external_id_key UNIQUE (job_id, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS job_contacts_job_id_idx ON public.job_contacts(job_id);
+
+-- ============================
+-- RLS: job_contacts
+-- Only managers read the table directly. Assigned staff go through
+-- get_day_of_contacts(), which only returns phone numbers near the event.
+-- ============================
+ALTER TABLE public.job_contacts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org Admins/Managers can manage job_contacts in their active org" ON public.job_contacts;
+DROP POLICY IF EXISTS "Service role full access on job_contacts" ON public.job_contacts;
+
+CREATE POLICY "Org Admins/Managers can manage job_contacts in their active org"
+ON public.job_contacts
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.jobs j
+    WHERE j.id = job_contacts.job_id
+    AND internal_get_text_org_id_from_uuid(j.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+  ) AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.jobs j
+    WHERE j.id = job_contacts.job_id
+    AND internal_get_text_org_id_from_uuid(j.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+  ) AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Service role full access on job_contacts"
+ON public.job_contacts
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- ============================
+-- RPC: get_day_of_contacts
+-- Names and phone numbers for a job's contacts, for staff assigned to it, from
+-- 24 hours before the job starts until 12 hours after it ends. Returns nothing
+-- outside that window. Keep the window in step with CONTACT_WINDOW_HOURS_BEFORE
+-- and CONTACT_WINDOW_HOURS_AFTER in app/actions/job-contacts/client-utils.ts.
+-- ============================
+CREATE OR REPLACE FUNCTION public.get_day_of_contacts(p_job_id UUID)
+RETURNS TABLE (id UUID, contact_type TEXT, name TEXT, phone TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.job_assignments a
+    JOIN public.jobs j ON j.id = a.job_id
+    WHERE a.job_id = p_job_id
+      AND a.user_id = auth.uid()
+      AND a.status IS DISTINCT FROM 'declined'
+      AND j.status NOT IN ('cancelled', 'draft')
+      AND NOW() BETWEEN j.start_time - INTERVAL '24 hours' AND j.end_time + INTERVAL '12 hours'
+  ) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT c.id, c.contact_type, c.name, c.phone
+  FROM public.job_contacts c
+  WHERE c.job_id = p_job_id
+    AND c.phone IS NOT NULL
+    AND c.phone <> ''
+  ORDER BY c.contact_type, c.name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_day_of_contacts(UUID) TO authenticated;
@@ -0,0 +1,241 @@
+-- Migration: Versioned file attachments on jobs, stored in the private job-attachments bucket
+-- Files are stored at {org_id}/{job_id}/{attachment_id}/v{version}-{file_name}
+
+-- ============================
+-- Storage bucket
+-- ============================
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'job-attachments',
+  'job-attachments',
+  false,
+  26214400, -- 25 MB, matches MAX_ATTACHMENT_SIZE_BYTES in app/actions/job-attachments/client-utils.ts
+  ARRAY[
+    'application/pdf',
+    'image/jpeg',
+    'image/png',
+    'image/gif',
+    'image/webp',
+    'image/heic',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'text/plain',
+    'text/csv'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================
+-- Table: job_attachments
+-- One row per document; its file history is in job_attachment_versions
+-- ============================
+CREATE TABLE IF NOT EXISTS public.job_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES public.orgs(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  category TEXT NOT NULL DEFAULT 'other' CHECK (category IN ('contract', 'shot_list', 'floor_plan', 'coi', 'other')),
+  visibility TEXT NOT NULL DEFAULT 'managers' CHECK (visibility IN ('managers', 'crew')),
+  current_version INTEGER NOT NULL DEFAULT 1,
+  created_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS job_attachments_job_id_idx ON public.job_attachments(job_id);
+
+-- ============================
+-- Table: job_attachment_versions
+-- ============================
+CREATE TABLE IF NOT EXISTS public.job_attachment_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  attachment_id UUID NOT NULL REFERENCES public.job_attachments(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  content_type TEXT,
+  size_bytes BIGINT,
+  uploaded_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT job_attachment_versions_attachment_version_key UNIQUE (attachment_id, version)
+);
+
+-- ============================
+-- RLS: job_attachments
+-- Managers see everything in their org; assigned crew see attachments shared with crew
+-- ============================
+ALTER TABLE public.job_attachments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org Admins/Managers can manage job_attachments in their active org" ON public.job_attachments;
+DROP POLICY IF EXISTS "Assigned crew can view crew job_attachments" ON public.job_attachments;
+DROP POLICY IF EXISTS "Service role full access on job_attachments" ON public.job_attachments;
+
+CREATE POLICY "Org Admins/Managers can manage job_attachments in their active org"
+ON public.job_attachments
+FOR ALL
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(job_attachments.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+)
+WITH CHECK (
+  internal_get_text_org_id_from_uuid(job_attachments.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Assigned crew can view crew job_attachments"
+ON public.job_attachments
+FOR SELECT
+TO authenticated
+USING (
+  job_attachments.visibility = 'crew' AND
+  EXISTS (
+    SELECT 1 FROM public.job_assignments a
+    WHERE a.job_id = job_attachments.job_id
+    AND a.user_id = auth.uid()
+    AND a.status IS DISTINCT FROM 'declined'
+  )
+);
+
+CREATE POLICY "Service role full access on job_attachments"
+ON public.job_attachments
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- ============================
+-- RLS: job_attachment_versions
+-- Follows the visibility of the attachment
+-- ============================
+ALTER TABLE public.job_attachment_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org Admins/Managers can manage job_attachment_versions in their active org" ON public.job_attachment_versions;
+DROP POLICY IF EXISTS "Assigned crew can view crew job_attachment_versions" ON public.job_attachment_versions;
+DROP POLICY IF EXISTS "Service role full access on job_attachment_versions" ON public.job_attachment_versions;
+
+CREATE POLICY "Org Admins/Managers can manage job_attachment_versions in their active org"
+ON public.job_attachment_versions
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.job_attachments ja
+    WHERE ja.id = job_attachment_versions.attachment_id
+    AND internal_get_text_org_id_from_uuid(ja.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+  ) AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.job_attachments ja
+    WHERE ja.id = job_attachment_versions.attachment_id
+    AND internal_get_text_org_id_from_uuid(ja.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+  ) AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Assigned crew can view crew job_attachment_versions"
+ON public.job_attachment_versions
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.job_attachments ja
+    JOIN public.job_assignments a ON a.job_id = ja.job_id
+    WHERE ja.id = job_attachment_versions.attachment_id
+    AND ja.visibility = 'crew'
+    AND a.user_id = auth.uid()
+    AND a.status IS DISTINCT FROM 'declined'
+  )
+);
+
+CREATE POLICY "Service role full access on job_attachment_versions"
+ON public.job_attachment_versions
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- ============================
+-- Storage policies: job-attachments bucket
+-- Managers can read and write files for jobs in their active org (the job ID
+-- is the second folder of the path). Assigned crew can read the files of
+-- attachments shared with crew, which is what lets them create signed URLs.
+-- ============================
+DROP POLICY IF EXISTS "Org Admins/Managers can manage job attachment files" ON storage.objects;
+DROP POLICY IF EXISTS "Assigned crew can read crew job attachment files" ON storage.objects;
+
+CREATE POLICY "Org Admins/Managers can manage job attachment files"
+ON storage.objects
+FOR ALL
+TO authenticated
+USING (
+  bucket_id = 'job-attachments' AND
+  EXISTS (
+    SELECT 1 FROM public.jobs j
+    WHERE j.id::TEXT = (storage.foldername(objects.name))[2]
+    AND internal_get_text_org_id_from_uuid(j.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+  ) AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+)
+WITH CHECK (
+  bucket_id = 'job-attachments' AND
+  EXISTS (
+    SELECT 1 FROM public.jobs j
+    WHERE j.id::TEXT = (storage.foldername(objects.name))[2]
+    AND internal_get_text_org_id_from_uuid(j.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+  ) AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Assigned crew can read crew job attachment files"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'job-attachments' AND
+  EXISTS (
+    SELECT 1
+    FROM public.job_attachment_versions v
+    JOIN public.job_attachments ja ON ja.id = v.attachment_id
+    JOIN public.job_assignments a ON a.job_id = ja.job_id
+    WHERE v.storage_path = objects.name
+    AND ja.visibility = 'crew'
+    AND a.user_id = auth.uid()
+    AND a.status IS DISTINCT FROM 'declined'
+  )
+);
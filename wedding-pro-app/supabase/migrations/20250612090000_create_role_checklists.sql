@@ -0,0 +1,215 @@
+-- Migration: Per-role checklist templates (must-have shots, drone clips, audio backup...)
+-- and the checklists they stamp onto each job role for the assigned staff to tick off
+
+-- ============================
+-- Table: role_checklist_templates
+-- One checklist per role name per org, matched case-insensitively
+-- ============================
+CREATE TABLE IF NOT EXISTS public.role_checklist_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.orgs(id) ON DELETE CASCADE,
+  role_name TEXT NOT NULL,
+  items TEXT[] NOT NULL DEFAULT '{}',
+  created_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS role_checklist_templates_org_role_key
+ON public.role_checklist_templates(org_id, lower(role_name));
+
+-- ============================
+-- Table: job_role_checklist_items
+-- A job role's own copy of the checklist, so template edits don't change past jobs
+-- ============================
+CREATE TABLE IF NOT EXISTS public.job_role_checklist_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  job_required_role_id UUID NOT NULL REFERENCES public.job_required_roles(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  completed_at TIMESTAMPTZ,
+  completed_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS job_role_checklist_items_role_idx ON public.job_role_checklist_items(job_required_role_id, position);
+CREATE INDEX IF NOT EXISTS job_role_checklist_items_job_id_idx ON public.job_role_checklist_items(job_id);
+
+-- ============================
+-- Stamp the org's checklist onto a role when it is added to a job, whichever
+-- way the role was created (new job, template, import or HoneyBook sync)
+-- ============================
+CREATE OR REPLACE FUNCTION stamp_role_checklist(p_job_required_role_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  inserted_count INTEGER;
+BEGIN
+  INSERT INTO job_role_checklist_items (job_id, job_required_role_id, label, position)
+  SELECT r.job_id, r.id, item.label, item.position
+  FROM job_required_roles r
+  JOIN jobs j ON j.id = r.job_id
+  JOIN role_checklist_templates t ON t.org_id = j.org_id AND lower(t.role_name) = lower(r.role_name)
+  CROSS JOIN LATERAL unnest(t.items) WITH ORDINALITY AS item(label, position)
+  WHERE r.id = p_job_required_role_id;
+
+  GET DIAGNOSTICS inserted_count = ROW_COUNT;
+  RETURN inserted_count;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION stamp_role_checklist_on_insert()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM stamp_role_checklist(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_stamp_role_checklist ON job_required_roles;
+CREATE TRIGGER trigger_stamp_role_checklist
+AFTER INSERT ON job_required_roles
+FOR EACH ROW
+EXECUTE FUNCTION stamp_role_checklist_on_insert();
+
+-- ============================
+-- RLS: role_checklist_templates
+-- ============================
+ALTER TABLE public.role_checklist_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view role_checklist_templates in their active org" ON public.role_checklist_templates;
+DROP POLICY IF EXISTS "Org Admins/Managers can manage role_checklist_templates in their active org" ON public.role_checklist_templates;
+DROP POLICY IF EXISTS "Service role full access on role_checklist_templates" ON public.role_checklist_templates;
+
+CREATE POLICY "Users can view role_checklist_templates in their active org"
+ON public.role_checklist_templates
+FOR SELECT
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(role_checklist_templates.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+);
+
+CREATE POLICY "Org Admins/Managers can manage role_checklist_templates in their active org"
+ON public.role_checklist_templates
+FOR ALL
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(role_checklist_templates.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+)
+WITH CHECK (
+  internal_get_text_org_id_from_uuid(role_checklist_templates.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Service role full access on role_checklist_templates"
+ON public.role_checklist_templates
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- ============================
+-- RLS: job_role_checklist_items
+-- Managers edit the checklists; staff assigned to a role can read its checklist
+-- and tick items through set_checklist_item_completed()
+-- ============================
+ALTER TABLE public.job_role_checklist_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org Admins/Managers can manage job_role_checklist_items in their active org" ON public.job_role_checklist_items;
+DROP POLICY IF EXISTS "Assigned employees can view job_role_checklist_items" ON public.job_role_checklist_items;
+DROP POLICY IF EXISTS "Service role full access on job_role_checklist_items" ON public.job_role_checklist_items;
+
+CREATE POLICY "Org Admins/Managers can manage job_role_checklist_items in their active org"
+ON public.job_role_checklist_items
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.jobs j
+    WHERE j.id = job_role_checklist_items.job_id
+    AND internal_get_text_org_id_from_uuid(j.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+  ) AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.jobs j
+    WHERE j.id = job_role_checklist_items.job_id
+    AND internal_get_text_org_id_from_uuid(j.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+  ) AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Assigned employees can view job_role_checklist_items"
+ON public.job_role_checklist_items
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.job_assignments a
+    WHERE a.job_required_role_id = job_role_checklist_items.job_required_role_id
+    AND a.user_id = auth.uid()
+    AND a.status IS DISTINCT FROM 'declined'
+  )
+);
+
+CREATE POLICY "Service role full access on job_role_checklist_items"
+ON public.job_role_checklist_items
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- ============================
+-- RPC: set_checklist_item_completed
+-- Lets staff assigned to the item's role tick it off or untick it, without
+-- being able to edit the checklist itself. Returns false if not allowed.
+-- ============================
+CREATE OR REPLACE FUNCTION public.set_checklist_item_completed(p_item_id UUID, p_completed BOOLEAN)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.job_role_checklist_items i
+  SET
+    completed_at = CASE WHEN p_completed THEN NOW() ELSE NULL END,
+    completed_by_user_id = CASE WHEN p_completed THEN auth.uid() ELSE NULL END
+  WHERE i.id = p_item_id
+    AND EXISTS (
+      SELECT 1
+      FROM public.job_assignments a
+      JOIN public.jobs j ON j.id = a.job_id
+      WHERE a.job_required_role_id = i.job_required_role_id
+        AND a.user_id = auth.uid()
+        AND a.status IS DISTINCT FROM 'declined'
+        AND j.status NOT IN ('cancelled', 'draft')
+    );
+
+  RETURN FOUND;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_checklist_item_completed(UUID, BOOLEAN) TO authenticated;
@@ -0,0 +1,70 @@
+-- Migration: Field-level revision history for job edits
+
+-- ============================
+-- Table: job_revisions
+-- One row per job edit that changed something. `changes` is an array of
+-- { field, from, to } objects (see JobChange in app/actions/jobs/types.ts).
+-- ============================
+CREATE TABLE IF NOT EXISTS public.job_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  changed_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changes JSONB NOT NULL DEFAULT '[]'::JSONB,
+  summary TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS job_revisions_job_id_idx ON public.job_revisions(job_id, created_at DESC);
+
+-- ============================
+-- RLS: job_revisions
+-- Revisions are a log: managers can read and add them, nobody edits them
+-- ============================
+ALTER TABLE public.job_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org Admins/Managers can view job_revisions in their active org" ON public.job_revisions;
+DROP POLICY IF EXISTS "Org Admins/Managers can insert job_revisions in their active org" ON public.job_revisions;
+DROP POLICY IF EXISTS "Service role full access on job_revisions" ON public.job_revisions;
+
+CREATE POLICY "Org Admins/Managers can view job_revisions in their active org"
+ON public.job_revisions
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.jobs j
+    WHERE j.id = job_revisions.job_id
+    AND internal_get_text_org_id_from_uuid(j.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+  ) AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Org Admins/Managers can insert job_revisions in their active org"
+ON public.job_revisions
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.jobs j
+    WHERE j.id = job_revisions.job_id
+    AND internal_get_text_org_id_from_uuid(j.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+  ) AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Service role full access on job_revisions"
+ON public.job_revisions
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
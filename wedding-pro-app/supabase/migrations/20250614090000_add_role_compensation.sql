@@ -0,0 +1,33 @@
+-- Migration: Pay rules on job roles
+-- Each job_required_roles row carries what one person filling it is paid:
+-- a flat day rate, or an hourly rate with an optional minimum and overtime,
+-- plus an optional bonus. Roles without a pay_rate have no pay set yet.
+
+ALTER TABLE public.job_required_roles
+  ADD COLUMN IF NOT EXISTS pay_type TEXT NOT NULL DEFAULT 'flat',
+  ADD COLUMN IF NOT EXISTS pay_rate NUMERIC(10, 2),
+  ADD COLUMN IF NOT EXISTS min_hours NUMERIC(5, 2),
+  ADD COLUMN IF NOT EXISTS overtime_after_hours NUMERIC(5, 2),
+  ADD COLUMN IF NOT EXISTS overtime_multiplier NUMERIC(4, 2) NOT NULL DEFAULT 1.5,
+  ADD COLUMN IF NOT EXISTS bonus_amount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.job_required_roles
+  DROP CONSTRAINT IF EXISTS job_required_roles_pay_type_check,
+  DROP CONSTRAINT IF EXISTS job_required_roles_pay_amounts_check;
+
+ALTER TABLE public.job_required_roles
+  ADD CONSTRAINT job_required_roles_pay_type_check
+    CHECK (pay_type IN ('flat', 'hourly')),
+  ADD CONSTRAINT job_required_roles_pay_amounts_check
+    CHECK (
+      (pay_rate IS NULL OR pay_rate >= 0)
+      AND (min_hours IS NULL OR min_hours > 0)
+      AND (overtime_after_hours IS NULL OR overtime_after_hours > 0)
+      AND overtime_multiplier >= 1
+      AND bonus_amount >= 0
+    );
+
+COMMENT ON COLUMN public.job_required_roles.pay_type IS 'flat: pay_rate is a day rate. hourly: pay_rate is per hour of the shift.';
+COMMENT ON COLUMN public.job_required_roles.min_hours IS 'Hourly roles are paid for at least this many hours';
+COMMENT ON COLUMN public.job_required_roles.overtime_after_hours IS 'Hourly roles are paid overtime_multiplier times the rate after this many hours';
+COMMENT ON COLUMN public.job_required_roles.bonus_amount IS 'Paid on top of the base pay to each person in the role';
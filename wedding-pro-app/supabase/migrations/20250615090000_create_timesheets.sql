@@ -0,0 +1,291 @@
+-- Migration: Clock-in/clock-out timesheets with venue geofence checks
+
+-- How far from the venue (in meters) a clock-in or clock-out can be and still
+-- count as on site
+ALTER TABLE public.orgs
+ADD COLUMN IF NOT EXISTS clock_in_radius_meters INTEGER NOT NULL DEFAULT 300;
+
+ALTER TABLE public.orgs
+DROP CONSTRAINT IF EXISTS orgs_clock_in_radius_meters_check;
+
+ALTER TABLE public.orgs
+ADD CONSTRAINT orgs_clock_in_radius_meters_check CHECK (clock_in_radius_meters > 0);
+
+-- ============================
+-- Table: timesheets
+-- One per job assignment. 'open' while clocked in, 'submitted' once clocked
+-- out, then 'approved' or 'rejected' by a manager. The *_distance_meters and
+-- *_within_geofence columns are NULL when no location was shared or the venue
+-- has no coordinates.
+-- ============================
+CREATE TABLE IF NOT EXISTS public.timesheets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.orgs(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  job_assignment_id UUID NOT NULL UNIQUE REFERENCES public.job_assignments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'submitted', 'approved', 'rejected')),
+  clock_in_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  clock_in_latitude DOUBLE PRECISION,
+  clock_in_longitude DOUBLE PRECISION,
+  clock_in_accuracy_meters DOUBLE PRECISION,
+  clock_in_distance_meters DOUBLE PRECISION,
+  clock_in_within_geofence BOOLEAN,
+  clock_out_at TIMESTAMPTZ,
+  clock_out_latitude DOUBLE PRECISION,
+  clock_out_longitude DOUBLE PRECISION,
+  clock_out_accuracy_meters DOUBLE PRECISION,
+  clock_out_distance_meters DOUBLE PRECISION,
+  clock_out_within_geofence BOOLEAN,
+  approved_hours NUMERIC(5, 2) CHECK (approved_hours IS NULL OR approved_hours >= 0),
+  review_note TEXT,
+  reviewed_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (clock_out_at IS NULL OR clock_out_at >= clock_in_at)
+);
+
+CREATE INDEX IF NOT EXISTS timesheets_org_status_idx ON public.timesheets(org_id, status);
+CREATE INDEX IF NOT EXISTS timesheets_job_id_idx ON public.timesheets(job_id);
+CREATE INDEX IF NOT EXISTS timesheets_user_id_idx ON public.timesheets(user_id, clock_in_at DESC);
+
+-- ============================
+-- Function: geo_distance_meters
+-- Great-circle (haversine) distance between two points
+-- ============================
+CREATE OR REPLACE FUNCTION public.geo_distance_meters(
+  lat1 DOUBLE PRECISION,
+  lng1 DOUBLE PRECISION,
+  lat2 DOUBLE PRECISION,
+  lng2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 2 * 6371000 * asin(sqrt(
+    power(sin(radians(lat2 - lat1) / 2), 2) +
+    cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lng2 - lng1) / 2), 2)
+  ));
+$$;
+
+-- ============================
+-- Function: assignment_venue_distance
+-- Distance from a point to the venue an assignment works at (the shift's
+-- venue, falling back to the job's), using the venue's row in locations.
+-- NULL when the point or the venue's coordinates are unknown.
+-- ============================
+CREATE OR REPLACE FUNCTION public.assignment_venue_distance(
+  p_assignment_id UUID,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.geo_distance_meters(p_latitude, p_longitude, l.latitude::DOUBLE PRECISION, l.longitude::DOUBLE PRECISION)
+  FROM public.job_assignments a
+  JOIN public.jobs j ON j.id = a.job_id
+  LEFT JOIN public.job_shifts s ON s.id = a.shift_id
+  JOIN public.locations l ON l.venue_id = COALESCE(s.venue_id, j.venue_id)
+  WHERE a.id = p_assignment_id
+    AND p_latitude IS NOT NULL
+    AND p_longitude IS NOT NULL
+    AND l.latitude IS NOT NULL
+    AND l.longitude IS NOT NULL
+  ORDER BY l.created_at
+  LIMIT 1;
+$$;
+
+-- ============================
+-- RPC: clock_in
+-- Starts the current user's timesheet for one of their assignments. Clock-in
+-- opens 2 hours before the call time (or start) and closes at the end of the
+-- shift. A clock-in outside the geofence is recorded and flagged for the
+-- manager rather than refused, since venue coordinates are not always exact.
+-- ============================
+CREATE OR REPLACE FUNCTION public.clock_in(
+  p_assignment_id UUID,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_accuracy_meters DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS public.timesheets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target RECORD;
+  distance DOUBLE PRECISION;
+  new_timesheet public.timesheets;
+BEGIN
+  SELECT
+    a.id,
+    a.job_id,
+    j.org_id,
+    j.status AS job_status,
+    COALESCE(s.call_time, s.start_time, j.start_time) AS opens_from,
+    COALESCE(s.end_time, j.end_time) AS ends_at,
+    o.clock_in_radius_meters
+  INTO target
+  FROM public.job_assignments a
+  JOIN public.jobs j ON j.id = a.job_id
+  JOIN public.orgs o ON o.id = j.org_id
+  LEFT JOIN public.job_shifts s ON s.id = a.shift_id
+  WHERE a.id = p_assignment_id
+    AND a.user_id = auth.uid()
+    AND a.status IS DISTINCT FROM 'declined';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Assignment not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target.job_status IN ('draft', 'cancelled') THEN
+    RAISE EXCEPTION 'You can''t clock in to a % job', target.job_status USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOW() < target.opens_from - INTERVAL '2 hours' OR NOW() > target.ends_at THEN
+    RAISE EXCEPTION 'Clock-in opens 2 hours before your call time and closes at the end of the shift'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.timesheets t WHERE t.job_assignment_id = p_assignment_id) THEN
+    RAISE EXCEPTION 'You have already clocked in for this shift' USING ERRCODE = 'unique_violation';
+  END IF;
+
+  distance := public.assignment_venue_distance(p_assignment_id, p_latitude, p_longitude);
+
+  INSERT INTO public.timesheets (
+    org_id, job_id, job_assignment_id, user_id,
+    clock_in_latitude, clock_in_longitude, clock_in_accuracy_meters,
+    clock_in_distance_meters, clock_in_within_geofence
+  )
+  VALUES (
+    target.org_id, target.job_id, p_assignment_id, auth.uid(),
+    p_latitude, p_longitude, p_accuracy_meters,
+    distance, CASE WHEN distance IS NULL THEN NULL ELSE distance <= target.clock_in_radius_meters END
+  )
+  RETURNING * INTO new_timesheet;
+
+  RETURN new_timesheet;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.clock_in(UUID, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO authenticated;
+
+-- ============================
+-- RPC: clock_out
+-- Ends the current user's open timesheet and submits it for approval
+-- ============================
+CREATE OR REPLACE FUNCTION public.clock_out(
+  p_timesheet_id UUID,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_accuracy_meters DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS public.timesheets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.timesheets;
+  radius INTEGER;
+  distance DOUBLE PRECISION;
+BEGIN
+  SELECT * INTO target
+  FROM public.timesheets t
+  WHERE t.id = p_timesheet_id
+    AND t.user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Timesheet not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target.status <> 'open' THEN
+    RAISE EXCEPTION 'You have already clocked out of this shift' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT o.clock_in_radius_meters INTO radius FROM public.orgs o WHERE o.id = target.org_id;
+  distance := public.assignment_venue_distance(target.job_assignment_id, p_latitude, p_longitude);
+
+  UPDATE public.timesheets t
+  SET
+    status = 'submitted',
+    clock_out_at = NOW(),
+    clock_out_latitude = p_latitude,
+    clock_out_longitude = p_longitude,
+    clock_out_accuracy_meters = p_accuracy_meters,
+    clock_out_distance_meters = distance,
+    clock_out_within_geofence = CASE WHEN distance IS NULL THEN NULL ELSE distance <= radius END,
+    updated_at = NOW()
+  WHERE t.id = p_timesheet_id
+  RETURNING * INTO target;
+
+  RETURN target;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.clock_out(UUID, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO authenticated;
+
+-- ============================
+-- RLS: timesheets
+-- Employees read their own and write only through clock_in/clock_out;
+-- managers read and review their org's
+-- ============================
+ALTER TABLE public.timesheets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org Admins/Managers can view timesheets in their active org" ON public.timesheets;
+DROP POLICY IF EXISTS "Org Admins/Managers can review timesheets in their active org" ON public.timesheets;
+DROP POLICY IF EXISTS "Employees can view their own timesheets" ON public.timesheets;
+DROP POLICY IF EXISTS "Service role full access on timesheets" ON public.timesheets;
+
+CREATE POLICY "Org Admins/Managers can view timesheets in their active org"
+ON public.timesheets
+FOR SELECT
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Org Admins/Managers can review timesheets in their active org"
+ON public.timesheets
+FOR UPDATE
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+)
+WITH CHECK (
+  internal_get_text_org_id_from_uuid(org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+);
+
+CREATE POLICY "Employees can view their own timesheets"
+ON public.timesheets
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Service role full access on timesheets"
+ON public.timesheets
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
@@ -0,0 +1,168 @@
+-- Migration: Payroll runs that total each employee's pay for a pay period and lock once approved
+
+-- ============================
+-- Table: payroll_runs
+-- One run per pay period. Runs are built as drafts, adjusted, then approved.
+-- An approved run can't be changed or deleted.
+-- ============================
+CREATE TABLE IF NOT EXISTS public.payroll_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.orgs(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'approved')),
+  total_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  created_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  approved_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  approved_at TIMESTAMPTZ,
+  generated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT payroll_runs_period_check CHECK (period_end >= period_start)
+);
+
+CREATE INDEX IF NOT EXISTS payroll_runs_org_period_idx ON public.payroll_runs(org_id, period_start DESC);
+
+-- ============================
+-- Table: payroll_run_lines
+-- What one employee is paid for one thing in a run: a role's base pay,
+-- overtime or bonus, a job's travel pay, a cancellation fee, or a manual
+-- adjustment (which can be negative).
+-- ============================
+CREATE TABLE IF NOT EXISTS public.payroll_run_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payroll_run_id UUID NOT NULL REFERENCES public.payroll_runs(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES public.orgs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  line_type TEXT NOT NULL CHECK (line_type IN ('role_pay', 'overtime', 'bonus', 'travel_pay', 'cancellation_fee', 'adjustment')),
+  job_id UUID REFERENCES public.jobs(id) ON DELETE SET NULL,
+  job_assignment_id UUID REFERENCES public.job_assignments(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  work_date DATE,
+  hours NUMERIC(6,2),
+  rate NUMERIC(10,2),
+  amount NUMERIC(10,2) NOT NULL,
+  hours_source TEXT CHECK (hours_source IN ('approved', 'scheduled')),
+  created_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS payroll_run_lines_run_id_idx ON public.payroll_run_lines(payroll_run_id, user_id);
+CREATE INDEX IF NOT EXISTS payroll_run_lines_user_id_idx ON public.payroll_run_lines(user_id);
+
+COMMENT ON COLUMN public.payroll_run_lines.hours_source IS 'approved when the hours come from an approved timesheet, scheduled when the shift length was used';
+
+-- ============================
+-- Lock approved runs
+-- ============================
+CREATE OR REPLACE FUNCTION public.prevent_approved_payroll_run_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status = 'approved' THEN
+    RAISE EXCEPTION 'Payroll run % is approved and can''t be changed', OLD.id USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_prevent_approved_payroll_run_changes ON public.payroll_runs;
+CREATE TRIGGER trigger_prevent_approved_payroll_run_changes
+BEFORE UPDATE OR DELETE ON public.payroll_runs
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_approved_payroll_run_changes();
+
+CREATE OR REPLACE FUNCTION public.prevent_approved_payroll_line_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  run_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    run_id := OLD.payroll_run_id;
+  ELSE
+    run_id := NEW.payroll_run_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.payroll_runs r WHERE r.id = run_id AND r.status = 'approved') THEN
+    RAISE EXCEPTION 'Payroll run % is approved and can''t be changed', run_id USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_prevent_approved_payroll_line_changes ON public.payroll_run_lines;
+CREATE TRIGGER trigger_prevent_approved_payroll_line_changes
+BEFORE INSERT OR UPDATE OR DELETE ON public.payroll_run_lines
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_approved_payroll_line_changes();
+
+-- ============================
+-- RLS: payroll is for org admins only
+-- ============================
+ALTER TABLE public.payroll_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payroll_run_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org Admins can manage payroll runs in their active org" ON public.payroll_runs;
+DROP POLICY IF EXISTS "Service role full access on payroll_runs" ON public.payroll_runs;
+DROP POLICY IF EXISTS "Org Admins can manage payroll run lines in their active org" ON public.payroll_run_lines;
+DROP POLICY IF EXISTS "Service role full access on payroll_run_lines" ON public.payroll_run_lines;
+
+CREATE POLICY "Org Admins can manage payroll runs in their active org"
+ON public.payroll_runs
+FOR ALL
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role = 'admin'
+  )
+)
+WITH CHECK (
+  internal_get_text_org_id_from_uuid(org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+);
+
+CREATE POLICY "Service role full access on payroll_runs"
+ON public.payroll_runs
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Org Admins can manage payroll run lines in their active org"
+ON public.payroll_run_lines
+FOR ALL
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role = 'admin'
+  )
+)
+WITH CHECK (
+  internal_get_text_org_id_from_uuid(org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+);
+
+CREATE POLICY "Service role full access on payroll_run_lines"
+ON public.payroll_run_lines
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
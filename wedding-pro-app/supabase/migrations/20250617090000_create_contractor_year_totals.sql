@@ -0,0 +1,36 @@
+-- Migration: Year-end totals of what each contractor was paid, for 1099 reporting
+
+-- ============================
+-- Function: contractor_year_totals
+-- Sums each employee's lines on the org's approved payroll runs whose period
+-- ends in p_year. Travel pay is returned separately as reimbursements.
+-- Runs as the caller, so the payroll tables' admin-only policies apply.
+-- ============================
+CREATE OR REPLACE FUNCTION public.contractor_year_totals(
+  p_org_id UUID,
+  p_year INTEGER
+)
+RETURNS TABLE (
+  user_id UUID,
+  earnings NUMERIC,
+  reimbursements NUMERIC,
+  run_count INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    l.user_id,
+    COALESCE(SUM(l.amount) FILTER (WHERE l.line_type <> 'travel_pay'), 0) AS earnings,
+    COALESCE(SUM(l.amount) FILTER (WHERE l.line_type = 'travel_pay'), 0) AS reimbursements,
+    COUNT(DISTINCT l.payroll_run_id)::INTEGER AS run_count
+  FROM public.payroll_run_lines l
+  JOIN public.payroll_runs r ON r.id = l.payroll_run_id
+  WHERE r.org_id = p_org_id
+    AND r.status = 'approved'
+    AND r.period_end >= make_date(p_year, 1, 1)
+    AND r.period_end < make_date(p_year + 1, 1, 1)
+  GROUP BY l.user_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.contractor_year_totals(UUID, INTEGER) TO authenticated;
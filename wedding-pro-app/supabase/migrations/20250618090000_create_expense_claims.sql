@@ -0,0 +1,227 @@
+-- Migration: Employee expense and mileage claims against their assignments, with receipts
+-- Receipts are stored in the private expense-receipts bucket at
+-- {org_id}/{user_id}/{claim_id}/{file_name}
+
+-- ============================
+-- Storage bucket
+-- ============================
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'expense-receipts',
+  'expense-receipts',
+  false,
+  10485760, -- 10 MB, matches MAX_RECEIPT_SIZE_BYTES in app/actions/expense-claims/client-utils.ts
+  ARRAY[
+    'application/pdf',
+    'image/jpeg',
+    'image/png',
+    'image/webp',
+    'image/heic'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================
+-- Table: expense_claims
+-- One claim per expense. Mileage claims record the miles and the org's rate
+-- per mile at the time, and their amount is miles x rate. Claims are
+-- 'submitted' until a manager approves or rejects them; approved claims are
+-- paid through payroll.
+-- ============================
+CREATE TABLE IF NOT EXISTS public.expense_claims (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.orgs(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  job_assignment_id UUID NOT NULL REFERENCES public.job_assignments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  category TEXT NOT NULL CHECK (category IN ('mileage', 'parking', 'tolls', 'ferry', 'lodging', 'other')),
+  description TEXT,
+  incurred_on DATE NOT NULL,
+  miles NUMERIC(8, 2) CHECK (miles IS NULL OR miles > 0),
+  mileage_rate NUMERIC(6, 3) CHECK (mileage_rate IS NULL OR mileage_rate >= 0),
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  receipt_path TEXT UNIQUE,
+  receipt_file_name TEXT,
+  receipt_content_type TEXT,
+  status TEXT NOT NULL DEFAULT 'submitted' CHECK (status IN ('submitted', 'approved', 'rejected')),
+  review_note TEXT,
+  reviewed_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (category <> 'mileage' OR (miles IS NOT NULL AND mileage_rate IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS expense_claims_org_status_idx ON public.expense_claims(org_id, status);
+CREATE INDEX IF NOT EXISTS expense_claims_job_id_idx ON public.expense_claims(job_id);
+CREATE INDEX IF NOT EXISTS expense_claims_user_id_idx ON public.expense_claims(user_id, incurred_on DESC);
+
+-- ============================
+-- RLS: expense_claims
+-- Employees submit claims against their own assignments, and can see and
+-- withdraw their own; managers read and review their org's
+-- ============================
+ALTER TABLE public.expense_claims ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org Admins/Managers can view expense_claims in their active org" ON public.expense_claims;
+DROP POLICY IF EXISTS "Org Admins/Managers can review expense_claims in their active org" ON public.expense_claims;
+DROP POLICY IF EXISTS "Employees can view their own expense_claims" ON public.expense_claims;
+DROP POLICY IF EXISTS "Employees can submit expense_claims for their assignments" ON public.expense_claims;
+DROP POLICY IF EXISTS "Employees can withdraw their submitted expense_claims" ON public.expense_claims;
+DROP POLICY IF EXISTS "Service role full access on expense_claims" ON public.expense_claims;
+
+CREATE POLICY "Org Admins/Managers can view expense_claims in their active org"
+ON public.expense_claims
+FOR SELECT
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Org Admins/Managers can review expense_claims in their active org"
+ON public.expense_claims
+FOR UPDATE
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+)
+WITH CHECK (
+  internal_get_text_org_id_from_uuid(org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+);
+
+CREATE POLICY "Employees can view their own expense_claims"
+ON public.expense_claims
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Employees can submit expense_claims for their assignments"
+ON public.expense_claims
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid() AND
+  status = 'submitted' AND
+  reviewed_by_user_id IS NULL AND
+  EXISTS (
+    SELECT 1
+    FROM public.job_assignments a
+    JOIN public.jobs j ON j.id = a.job_id
+    WHERE a.id = expense_claims.job_assignment_id
+      AND a.user_id = auth.uid()
+      AND a.status IS DISTINCT FROM 'declined'
+      AND j.id = expense_claims.job_id
+      AND j.org_id = expense_claims.org_id
+  )
+);
+
+CREATE POLICY "Employees can withdraw their submitted expense_claims"
+ON public.expense_claims
+FOR DELETE
+TO authenticated
+USING (user_id = auth.uid() AND status = 'submitted');
+
+CREATE POLICY "Service role full access on expense_claims"
+ON public.expense_claims
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- ============================
+-- Storage policies: expense-receipts
+-- Employees upload, read and remove receipts in their own folder (the user ID
+-- is the second folder of the path). Managers can read the receipts of claims
+-- in their active org, which is what lets them create signed URLs.
+-- ============================
+DROP POLICY IF EXISTS "Employees can manage their own expense receipts" ON storage.objects;
+DROP POLICY IF EXISTS "Org Admins/Managers can read expense receipts" ON storage.objects;
+
+CREATE POLICY "Employees can manage their own expense receipts"
+ON storage.objects
+FOR ALL
+TO authenticated
+USING (
+  bucket_id = 'expense-receipts' AND
+  (storage.foldername(objects.name))[2] = auth.uid()::TEXT
+)
+WITH CHECK (
+  bucket_id = 'expense-receipts' AND
+  (storage.foldername(objects.name))[2] = auth.uid()::TEXT
+);
+
+CREATE POLICY "Org Admins/Managers can read expense receipts"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'expense-receipts' AND
+  EXISTS (
+    SELECT 1 FROM public.expense_claims c
+    WHERE c.receipt_path = objects.name
+    AND internal_get_text_org_id_from_uuid(c.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+  ) AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+-- ============================
+-- Payroll: approved claims are paid as 'expense' lines
+-- ============================
+ALTER TABLE public.payroll_run_lines
+ADD COLUMN IF NOT EXISTS expense_claim_id UUID REFERENCES public.expense_claims(id) ON DELETE SET NULL;
+
+ALTER TABLE public.payroll_run_lines
+DROP CONSTRAINT IF EXISTS payroll_run_lines_line_type_check;
+
+ALTER TABLE public.payroll_run_lines
+ADD CONSTRAINT payroll_run_lines_line_type_check CHECK (
+  line_type IN ('role_pay', 'overtime', 'bonus', 'travel_pay', 'cancellation_fee', 'adjustment', 'expense')
+);
+
+-- ============================
+-- Function: contractor_year_totals
+-- Expense claims are reimbursements, like travel pay
+-- ============================
+CREATE OR REPLACE FUNCTION public.contractor_year_totals(
+  p_org_id UUID,
+  p_year INTEGER
+)
+RETURNS TABLE (
+  user_id UUID,
+  earnings NUMERIC,
+  reimbursements NUMERIC,
+  run_count INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    l.user_id,
+    COALESCE(SUM(l.amount) FILTER (WHERE l.line_type NOT IN ('travel_pay', 'expense')), 0) AS earnings,
+    COALESCE(SUM(l.amount) FILTER (WHERE l.line_type IN ('travel_pay', 'expense')), 0) AS reimbursements,
+    COUNT(DISTINCT l.payroll_run_id)::INTEGER AS run_count
+  FROM public.payroll_run_lines l
+  JOIN public.payroll_runs r ON r.id = l.payroll_run_id
+  WHERE r.org_id = p_org_id
+    AND r.status = 'approved'
+    AND r.period_end >= make_date(p_year, 1, 1)
+    AND r.period_end < make_date(p_year + 1, 1, 1)
+  GROUP BY l.user_id;
+$$;
@@ -0,0 +1,78 @@
+-- Role-specific interest: the roles an employee wants on a job or shift, in
+-- order of preference. An interest with no roles means any role.
+
+-- ============================
+-- Table
+-- ============================
+CREATE TABLE IF NOT EXISTS public.job_interest_roles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_interest_id UUID NOT NULL REFERENCES public.job_interests(id) ON DELETE CASCADE,
+  job_required_role_id UUID NOT NULL REFERENCES public.job_required_roles(id) ON DELETE CASCADE,
+  preference_rank INTEGER NOT NULL CHECK (preference_rank >= 1),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (job_interest_id, job_required_role_id)
+);
+
+CREATE INDEX IF NOT EXISTS job_interest_roles_job_interest_id_idx ON public.job_interest_roles(job_interest_id);
+CREATE INDEX IF NOT EXISTS job_interest_roles_job_required_role_id_idx ON public.job_interest_roles(job_required_role_id);
+
+-- ============================
+-- RLS
+-- ============================
+ALTER TABLE public.job_interest_roles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage the roles of their own job_interests" ON public.job_interest_roles;
+DROP POLICY IF EXISTS "Org Admins/Managers can view job_interest_roles for jobs in their active org" ON public.job_interest_roles;
+DROP POLICY IF EXISTS "Service role full access on job_interest_roles" ON public.job_interest_roles;
+
+-- The role must belong to the same job as the interest
+CREATE POLICY "Users can manage the roles of their own job_interests"
+ON public.job_interest_roles
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.job_interests i
+    JOIN public.jobs j ON j.id = i.job_id
+    WHERE i.id = job_interest_roles.job_interest_id
+    AND i.user_id = auth.uid()
+    AND internal_get_text_org_id_from_uuid(j.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.job_interests i
+    JOIN public.jobs j ON j.id = i.job_id
+    JOIN public.job_required_roles r ON r.job_id = i.job_id
+    WHERE i.id = job_interest_roles.job_interest_id
+    AND r.id = job_interest_roles.job_required_role_id
+    AND i.user_id = auth.uid()
+    AND internal_get_text_org_id_from_uuid(j.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+  )
+);
+
+CREATE POLICY "Org Admins/Managers can view job_interest_roles for jobs in their active org"
+ON public.job_interest_roles
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.job_interests i
+    JOIN public.jobs j ON j.id = i.job_id
+    WHERE i.id = job_interest_roles.job_interest_id
+    AND internal_get_text_org_id_from_uuid(j.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+  ) AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Service role full access on job_interest_roles"
+ON public.job_interest_roles
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
@@ -0,0 +1,221 @@
+-- Migration: Employee qualifications. Roles with requirements can only be
+-- taken by employees approved for them (at a skill level) who hold the
+-- certifications they need, such as FAA Part 107 for drone work.
+
+-- ============================
+-- Table: role_requirements
+-- What a role needs, one row per role name per org, matched case-insensitively.
+-- Roles without a row are open to everyone.
+-- ============================
+CREATE TABLE IF NOT EXISTS public.role_requirements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.orgs(id) ON DELETE CASCADE,
+  role_name TEXT NOT NULL,
+  requires_approval BOOLEAN NOT NULL DEFAULT TRUE,
+  min_skill_level TEXT CHECK (min_skill_level IN ('trainee', 'experienced', 'lead')),
+  required_certifications TEXT[] NOT NULL DEFAULT '{}',
+  created_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS role_requirements_org_role_key
+ON public.role_requirements(org_id, lower(role_name));
+
+-- ============================
+-- Table: employee_role_approvals
+-- The roles a manager has approved an employee for, and at what level
+-- ============================
+CREATE TABLE IF NOT EXISTS public.employee_role_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.orgs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role_name TEXT NOT NULL,
+  skill_level TEXT NOT NULL DEFAULT 'experienced' CHECK (skill_level IN ('trainee', 'experienced', 'lead')),
+  approved_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS employee_role_approvals_user_role_key
+ON public.employee_role_approvals(org_id, user_id, lower(role_name));
+
+-- ============================
+-- Table: employee_certifications
+-- Certifications an employee holds. expiry_reminder_sent_at is cleared when
+-- the certification is renewed so the next expiry is reminded too.
+-- ============================
+CREATE TABLE IF NOT EXISTS public.employee_certifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.orgs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  certificate_number TEXT,
+  issued_on DATE,
+  expires_on DATE,
+  expiry_reminder_sent_at TIMESTAMPTZ,
+  created_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (expires_on IS NULL OR issued_on IS NULL OR expires_on >= issued_on)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS employee_certifications_user_name_key
+ON public.employee_certifications(org_id, user_id, lower(name));
+
+CREATE INDEX IF NOT EXISTS employee_certifications_expires_on_idx
+ON public.employee_certifications(expires_on)
+WHERE expiry_reminder_sent_at IS NULL;
+
+-- ============================
+-- Column: job_assignments.eligibility_override_by_user_id
+-- Set when a manager assigns someone who isn't qualified for the role
+-- ============================
+ALTER TABLE public.job_assignments
+ADD COLUMN IF NOT EXISTS eligibility_override_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- ============================
+-- RLS: role_requirements
+-- Everyone in the org can read them, so employees can see why a role is closed to them
+-- ============================
+ALTER TABLE public.role_requirements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view role_requirements in their active org" ON public.role_requirements;
+DROP POLICY IF EXISTS "Org Admins/Managers can manage role_requirements in their active org" ON public.role_requirements;
+DROP POLICY IF EXISTS "Service role full access on role_requirements" ON public.role_requirements;
+
+CREATE POLICY "Users can view role_requirements in their active org"
+ON public.role_requirements
+FOR SELECT
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(role_requirements.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+);
+
+CREATE POLICY "Org Admins/Managers can manage role_requirements in their active org"
+ON public.role_requirements
+FOR ALL
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(role_requirements.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+)
+WITH CHECK (
+  internal_get_text_org_id_from_uuid(role_requirements.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Service role full access on role_requirements"
+ON public.role_requirements
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- ============================
+-- RLS: employee_role_approvals
+-- Employees can see their own approvals; managers approve and remove them
+-- ============================
+ALTER TABLE public.employee_role_approvals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own employee_role_approvals" ON public.employee_role_approvals;
+DROP POLICY IF EXISTS "Org Admins/Managers can manage employee_role_approvals in their active org" ON public.employee_role_approvals;
+DROP POLICY IF EXISTS "Service role full access on employee_role_approvals" ON public.employee_role_approvals;
+
+CREATE POLICY "Users can view their own employee_role_approvals"
+ON public.employee_role_approvals
+FOR SELECT
+TO authenticated
+USING (
+  employee_role_approvals.user_id = auth.uid() AND
+  internal_get_text_org_id_from_uuid(employee_role_approvals.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+);
+
+CREATE POLICY "Org Admins/Managers can manage employee_role_approvals in their active org"
+ON public.employee_role_approvals
+FOR ALL
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(employee_role_approvals.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+)
+WITH CHECK (
+  internal_get_text_org_id_from_uuid(employee_role_approvals.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Service role full access on employee_role_approvals"
+ON public.employee_role_approvals
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- ============================
+-- RLS: employee_certifications
+-- Employees can see their own certifications; managers record and remove them
+-- ============================
+ALTER TABLE public.employee_certifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own employee_certifications" ON public.employee_certifications;
+DROP POLICY IF EXISTS "Org Admins/Managers can manage employee_certifications in their active org" ON public.employee_certifications;
+DROP POLICY IF EXISTS "Service role full access on employee_certifications" ON public.employee_certifications;
+
+CREATE POLICY "Users can view their own employee_certifications"
+ON public.employee_certifications
+FOR SELECT
+TO authenticated
+USING (
+  employee_certifications.user_id = auth.uid() AND
+  internal_get_text_org_id_from_uuid(employee_certifications.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+);
+
+CREATE POLICY "Org Admins/Managers can manage employee_certifications in their active org"
+ON public.employee_certifications
+FOR ALL
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(employee_certifications.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+)
+WITH CHECK (
+  internal_get_text_org_id_from_uuid(employee_certifications.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Service role full access on employee_certifications"
+ON public.employee_certifications
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
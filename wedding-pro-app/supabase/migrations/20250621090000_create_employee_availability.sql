@@ -0,0 +1,126 @@
+-- Migration: Employee availability. Employees say which days (and hours) they
+-- work each week and block out dates they are away; jobs that clash are grayed
+-- out for them and managers are warned before booking them anyway.
+
+-- ============================
+-- Table: employee_weekly_availability
+-- The days an employee works, optionally between set times. Employees with no
+-- rows are available any day.
+-- ============================
+CREATE TABLE IF NOT EXISTS public.employee_weekly_availability (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.orgs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6), -- 0 is Sunday
+  start_time TIME,
+  end_time TIME,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((start_time IS NULL AND end_time IS NULL) OR (start_time IS NOT NULL AND end_time IS NOT NULL AND end_time > start_time))
+);
+
+CREATE INDEX IF NOT EXISTS employee_weekly_availability_user_id_idx ON public.employee_weekly_availability(user_id);
+
+-- ============================
+-- Table: employee_blackout_dates
+-- Date ranges an employee can't work, e.g. a holiday
+-- ============================
+CREATE TABLE IF NOT EXISTS public.employee_blackout_dates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.orgs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS employee_blackout_dates_user_end_idx ON public.employee_blackout_dates(user_id, end_date);
+
+-- ============================
+-- RLS: employee_weekly_availability
+-- Employees manage their own; managers can view their org's
+-- ============================
+ALTER TABLE public.employee_weekly_availability ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own employee_weekly_availability" ON public.employee_weekly_availability;
+DROP POLICY IF EXISTS "Org Admins/Managers can view employee_weekly_availability in their active org" ON public.employee_weekly_availability;
+DROP POLICY IF EXISTS "Service role full access on employee_weekly_availability" ON public.employee_weekly_availability;
+
+CREATE POLICY "Users can manage their own employee_weekly_availability"
+ON public.employee_weekly_availability
+FOR ALL
+TO authenticated
+USING (
+  employee_weekly_availability.user_id = auth.uid() AND
+  internal_get_text_org_id_from_uuid(employee_weekly_availability.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+)
+WITH CHECK (
+  employee_weekly_availability.user_id = auth.uid() AND
+  internal_get_text_org_id_from_uuid(employee_weekly_availability.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+);
+
+CREATE POLICY "Org Admins/Managers can view employee_weekly_availability in their active org"
+ON public.employee_weekly_availability
+FOR SELECT
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(employee_weekly_availability.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Service role full access on employee_weekly_availability"
+ON public.employee_weekly_availability
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- ============================
+-- RLS: employee_blackout_dates
+-- Employees manage their own; managers can view their org's
+-- ============================
+ALTER TABLE public.employee_blackout_dates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own employee_blackout_dates" ON public.employee_blackout_dates;
+DROP POLICY IF EXISTS "Org Admins/Managers can view employee_blackout_dates in their active org" ON public.employee_blackout_dates;
+DROP POLICY IF EXISTS "Service role full access on employee_blackout_dates" ON public.employee_blackout_dates;
+
+CREATE POLICY "Users can manage their own employee_blackout_dates"
+ON public.employee_blackout_dates
+FOR ALL
+TO authenticated
+USING (
+  employee_blackout_dates.user_id = auth.uid() AND
+  internal_get_text_org_id_from_uuid(employee_blackout_dates.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+)
+WITH CHECK (
+  employee_blackout_dates.user_id = auth.uid() AND
+  internal_get_text_org_id_from_uuid(employee_blackout_dates.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+);
+
+CREATE POLICY "Org Admins/Managers can view employee_blackout_dates in their active org"
+ON public.employee_blackout_dates
+FOR SELECT
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(employee_blackout_dates.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Service role full access on employee_blackout_dates"
+ON public.employee_blackout_dates
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
@@ -0,0 +1,17 @@
+-- Migration: Travel-time-aware conflict detection. Back-to-back jobs need
+-- time to pack down, drive between venues and set up again; the drive is
+-- looked up per venue pair and the setup/teardown buffer is set per org.
+
+-- ============================
+-- Organization turnaround buffer
+-- Minutes allowed for teardown and setup between two jobs, on top of the
+-- drive between their venues
+-- ============================
+ALTER TABLE public.orgs
+ADD COLUMN IF NOT EXISTS turnaround_buffer_minutes INTEGER NOT NULL DEFAULT 30;
+
+ALTER TABLE public.orgs
+DROP CONSTRAINT IF EXISTS orgs_turnaround_buffer_minutes_check;
+
+ALTER TABLE public.orgs
+ADD CONSTRAINT orgs_turnaround_buffer_minutes_check CHECK (turnaround_buffer_minutes >= 0);
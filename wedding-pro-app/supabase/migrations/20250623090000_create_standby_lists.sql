@@ -0,0 +1,316 @@
+-- Migration: Standby lists. Managers rank backup candidates for each role;
+-- when a slot opens (e.g. a drop request is approved) the top standby is
+-- offered it, and the offer moves down the list if they decline or don't
+-- answer in time. Every step is logged in job_standby_events.
+
+-- ============================
+-- Organization standby offer window
+-- Hours a standby has to accept an offer before it moves to the next person
+-- ============================
+ALTER TABLE public.orgs
+ADD COLUMN IF NOT EXISTS standby_offer_hours INTEGER NOT NULL DEFAULT 12;
+
+ALTER TABLE public.orgs
+DROP CONSTRAINT IF EXISTS orgs_standby_offer_hours_check;
+
+ALTER TABLE public.orgs
+ADD CONSTRAINT orgs_standby_offer_hours_check CHECK (standby_offer_hours > 0);
+
+-- ============================
+-- Table: job_standby_entries
+-- A role's standby list; rank 1 is offered first
+-- ============================
+CREATE TABLE IF NOT EXISTS public.job_standby_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.orgs(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  job_required_role_id UUID NOT NULL REFERENCES public.job_required_roles(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rank INTEGER NOT NULL CHECK (rank > 0),
+  added_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (job_required_role_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS job_standby_entries_job_id_idx ON public.job_standby_entries(job_id);
+CREATE INDEX IF NOT EXISTS job_standby_entries_user_id_idx ON public.job_standby_entries(user_id);
+
+-- ============================
+-- Table: job_standby_offers
+-- A slot offered to a standby. 'offered' until they accept or decline, or
+-- it passes expires_at and is marked 'expired'.
+-- ============================
+CREATE TABLE IF NOT EXISTS public.job_standby_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.orgs(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  job_required_role_id UUID NOT NULL REFERENCES public.job_required_roles(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'offered' CHECK (status IN ('offered', 'accepted', 'declined', 'expired')),
+  reason TEXT, -- Why the slot opened, e.g. 'Drop request approved'
+  offered_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  responded_at TIMESTAMPTZ,
+  job_assignment_id UUID REFERENCES public.job_assignments(id) ON DELETE SET NULL,
+  CHECK (expires_at > offered_at)
+);
+
+CREATE INDEX IF NOT EXISTS job_standby_offers_role_idx ON public.job_standby_offers(job_required_role_id);
+CREATE INDEX IF NOT EXISTS job_standby_offers_user_status_idx ON public.job_standby_offers(user_id, status);
+CREATE INDEX IF NOT EXISTS job_standby_offers_open_idx ON public.job_standby_offers(expires_at) WHERE status = 'offered';
+
+-- ============================
+-- Table: job_standby_events
+-- What happened on each standby list, newest last
+-- ============================
+CREATE TABLE IF NOT EXISTS public.job_standby_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.orgs(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  job_required_role_id UUID NOT NULL REFERENCES public.job_required_roles(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- The standby it concerns, if any
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'added', 'removed', 'slot_opened', 'offered', 'skipped', 'accepted', 'declined', 'expired', 'exhausted'
+  )),
+  details TEXT,
+  actor_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL when done automatically
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS job_standby_events_job_id_idx ON public.job_standby_events(job_id, created_at);
+
+-- ============================
+-- RPC: respond_to_standby_offer
+-- Accepts or declines the current user's open offer. Accepting books them
+-- into the slot (if it's still open) and takes them off the standby list.
+-- ============================
+CREATE OR REPLACE FUNCTION public.respond_to_standby_offer(
+  p_offer_id UUID,
+  p_accept BOOLEAN
+)
+RETURNS public.job_standby_offers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target RECORD;
+  filled INTEGER;
+  new_assignment_id UUID;
+  updated_offer public.job_standby_offers;
+BEGIN
+  SELECT
+    o.*,
+    r.quantity_needed,
+    r.shift_id,
+    j.status AS job_status
+  INTO target
+  FROM public.job_standby_offers o
+  JOIN public.job_required_roles r ON r.id = o.job_required_role_id
+  JOIN public.jobs j ON j.id = o.job_id
+  WHERE o.id = p_offer_id
+    AND o.user_id = auth.uid()
+  FOR UPDATE OF o;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offer not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target.status = 'expired' OR (target.status = 'offered' AND target.expires_at <= NOW()) THEN
+    RAISE EXCEPTION 'This offer has expired' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF target.status <> 'offered' THEN
+    RAISE EXCEPTION 'You have already answered this offer' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT p_accept THEN
+    UPDATE public.job_standby_offers o
+    SET status = 'declined', responded_at = NOW()
+    WHERE o.id = p_offer_id
+    RETURNING * INTO updated_offer;
+
+    INSERT INTO public.job_standby_events (org_id, job_id, job_required_role_id, user_id, event_type, actor_user_id)
+    VALUES (target.org_id, target.job_id, target.job_required_role_id, auth.uid(), 'declined', auth.uid());
+
+    RETURN updated_offer;
+  END IF;
+
+  IF target.job_status IN ('draft', 'cancelled', 'completed') THEN
+    RAISE EXCEPTION 'This job is no longer being staffed' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT COUNT(*) INTO filled
+  FROM public.job_assignments a
+  WHERE a.job_required_role_id = target.job_required_role_id
+    AND a.status IS DISTINCT FROM 'declined';
+
+  IF filled >= target.quantity_needed THEN
+    RAISE EXCEPTION 'This slot has already been filled' USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.job_assignments (job_id, shift_id, user_id, job_required_role_id, assigned_at, assigned_by, status)
+  VALUES (target.job_id, target.shift_id, auth.uid(), target.job_required_role_id, NOW(), auth.uid(), 'assigned')
+  RETURNING id INTO new_assignment_id;
+
+  UPDATE public.job_standby_offers o
+  SET status = 'accepted', responded_at = NOW(), job_assignment_id = new_assignment_id
+  WHERE o.id = p_offer_id
+  RETURNING * INTO updated_offer;
+
+  DELETE FROM public.job_standby_entries e
+  WHERE e.job_required_role_id = target.job_required_role_id
+    AND e.user_id = auth.uid();
+
+  INSERT INTO public.job_standby_events (org_id, job_id, job_required_role_id, user_id, event_type, actor_user_id)
+  VALUES (target.org_id, target.job_id, target.job_required_role_id, auth.uid(), 'accepted', auth.uid());
+
+  RETURN updated_offer;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.respond_to_standby_offer(UUID, BOOLEAN) TO authenticated;
+
+-- ============================
+-- RLS: job_standby_entries
+-- Managers manage their org's lists; employees see where they stand
+-- ============================
+ALTER TABLE public.job_standby_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org Admins/Managers can manage job_standby_entries in their active org" ON public.job_standby_entries;
+DROP POLICY IF EXISTS "Employees can view their own job_standby_entries" ON public.job_standby_entries;
+DROP POLICY IF EXISTS "Service role full access on job_standby_entries" ON public.job_standby_entries;
+
+CREATE POLICY "Org Admins/Managers can manage job_standby_entries in their active org"
+ON public.job_standby_entries
+FOR ALL
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(job_standby_entries.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+)
+WITH CHECK (
+  internal_get_text_org_id_from_uuid(job_standby_entries.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Employees can view their own job_standby_entries"
+ON public.job_standby_entries
+FOR SELECT
+TO authenticated
+USING (
+  job_standby_entries.user_id = auth.uid() AND
+  internal_get_text_org_id_from_uuid(job_standby_entries.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+);
+
+CREATE POLICY "Service role full access on job_standby_entries"
+ON public.job_standby_entries
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- ============================
+-- RLS: job_standby_offers
+-- Managers manage their org's offers; employees see their own and answer
+-- them only through respond_to_standby_offer
+-- ============================
+ALTER TABLE public.job_standby_offers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org Admins/Managers can manage job_standby_offers in their active org" ON public.job_standby_offers;
+DROP POLICY IF EXISTS "Employees can view their own job_standby_offers" ON public.job_standby_offers;
+DROP POLICY IF EXISTS "Service role full access on job_standby_offers" ON public.job_standby_offers;
+
+CREATE POLICY "Org Admins/Managers can manage job_standby_offers in their active org"
+ON public.job_standby_offers
+FOR ALL
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(job_standby_offers.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+)
+WITH CHECK (
+  internal_get_text_org_id_from_uuid(job_standby_offers.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Employees can view their own job_standby_offers"
+ON public.job_standby_offers
+FOR SELECT
+TO authenticated
+USING (
+  job_standby_offers.user_id = auth.uid() AND
+  internal_get_text_org_id_from_uuid(job_standby_offers.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+);
+
+CREATE POLICY "Service role full access on job_standby_offers"
+ON public.job_standby_offers
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- ============================
+-- RLS: job_standby_events
+-- Managers view and add to their org's log; entries are never edited
+-- ============================
+ALTER TABLE public.job_standby_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org Admins/Managers can view job_standby_events in their active org" ON public.job_standby_events;
+DROP POLICY IF EXISTS "Org Admins/Managers can log job_standby_events in their active org" ON public.job_standby_events;
+DROP POLICY IF EXISTS "Service role full access on job_standby_events" ON public.job_standby_events;
+
+CREATE POLICY "Org Admins/Managers can view job_standby_events in their active org"
+ON public.job_standby_events
+FOR SELECT
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(job_standby_events.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Org Admins/Managers can log job_standby_events in their active org"
+ON public.job_standby_events
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  internal_get_text_org_id_from_uuid(job_standby_events.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Service role full access on job_standby_events"
+ON public.job_standby_events
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
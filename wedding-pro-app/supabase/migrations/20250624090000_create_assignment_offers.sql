@@ -0,0 +1,226 @@
+-- Migration: Assignment offers. Instead of booking an employee outright, a
+-- manager can offer them a role; the employee accepts or declines from the
+-- app, an email link or an SMS reply. Only an accepted offer becomes a
+-- job_assignments row. Unanswered offers expire at expires_at.
+
+-- ============================
+-- Organization assignment offer window
+-- Hours an employee has to answer an assignment offer
+-- ============================
+ALTER TABLE public.orgs
+ADD COLUMN IF NOT EXISTS assignment_offer_hours INTEGER NOT NULL DEFAULT 24;
+
+ALTER TABLE public.orgs
+DROP CONSTRAINT IF EXISTS orgs_assignment_offer_hours_check;
+
+ALTER TABLE public.orgs
+ADD CONSTRAINT orgs_assignment_offer_hours_check CHECK (assignment_offer_hours > 0);
+
+-- ============================
+-- Table: job_assignment_offers
+-- A role offered to an employee. 'offered' until they accept or decline, the
+-- manager withdraws it, or it passes expires_at and is marked 'expired'.
+-- An open offer holds its slot, so it counts towards the role's capacity.
+-- ============================
+CREATE TABLE IF NOT EXISTS public.job_assignment_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.orgs(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  shift_id UUID REFERENCES public.job_shifts(id) ON DELETE SET NULL,
+  job_required_role_id UUID NOT NULL REFERENCES public.job_required_roles(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'offered' CHECK (status IN ('offered', 'accepted', 'declined', 'expired', 'withdrawn')),
+  token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(), -- Secret for the accept/decline links in the email
+  reply_code TEXT NOT NULL, -- Short code the employee can text back, e.g. 'YES 4821'
+  offered_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  eligibility_override_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  offered_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  responded_at TIMESTAMPTZ,
+  response_channel TEXT CHECK (response_channel IN ('app', 'email', 'sms')),
+  job_assignment_id UUID REFERENCES public.job_assignments(id) ON DELETE SET NULL,
+  CHECK (expires_at > offered_at)
+);
+
+CREATE INDEX IF NOT EXISTS job_assignment_offers_job_id_idx ON public.job_assignment_offers(job_id);
+CREATE INDEX IF NOT EXISTS job_assignment_offers_user_status_idx ON public.job_assignment_offers(user_id, status);
+CREATE INDEX IF NOT EXISTS job_assignment_offers_open_idx ON public.job_assignment_offers(expires_at) WHERE status = 'offered';
+
+-- One open offer per employee per role
+CREATE UNIQUE INDEX IF NOT EXISTS job_assignment_offers_open_role_user_idx
+ON public.job_assignment_offers(job_required_role_id, user_id)
+WHERE status = 'offered';
+
+-- ============================
+-- Function: internal_respond_to_assignment_offer
+-- Accepts or declines an open offer on behalf of p_user_id. Accepting books
+-- them into the role if the job is still being staffed and the slot is free.
+-- Only the service role (email links, SMS replies) and
+-- respond_to_assignment_offer call it directly.
+-- ============================
+CREATE OR REPLACE FUNCTION public.internal_respond_to_assignment_offer(
+  p_offer_id UUID,
+  p_user_id UUID,
+  p_accept BOOLEAN,
+  p_channel TEXT
+)
+RETURNS public.job_assignment_offers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target RECORD;
+  filled INTEGER;
+  new_assignment_id UUID;
+  updated_offer public.job_assignment_offers;
+BEGIN
+  SELECT
+    o.*,
+    r.quantity_needed,
+    j.status AS job_status
+  INTO target
+  FROM public.job_assignment_offers o
+  JOIN public.job_required_roles r ON r.id = o.job_required_role_id
+  JOIN public.jobs j ON j.id = o.job_id
+  WHERE o.id = p_offer_id
+    AND o.user_id = p_user_id
+  FOR UPDATE OF o;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offer not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target.status = 'withdrawn' THEN
+    RAISE EXCEPTION 'This offer has been withdrawn' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF target.status = 'expired' OR (target.status = 'offered' AND target.expires_at <= NOW()) THEN
+    RAISE EXCEPTION 'This offer has expired' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF target.status <> 'offered' THEN
+    RAISE EXCEPTION 'You have already answered this offer' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT p_accept THEN
+    UPDATE public.job_assignment_offers o
+    SET status = 'declined', responded_at = NOW(), response_channel = p_channel
+    WHERE o.id = p_offer_id
+    RETURNING * INTO updated_offer;
+
+    RETURN updated_offer;
+  END IF;
+
+  IF target.job_status IN ('draft', 'cancelled', 'completed') THEN
+    RAISE EXCEPTION 'This job is no longer being staffed' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT COUNT(*) INTO filled
+  FROM public.job_assignments a
+  WHERE a.job_required_role_id = target.job_required_role_id
+    AND a.status IS DISTINCT FROM 'declined';
+
+  IF filled >= target.quantity_needed THEN
+    RAISE EXCEPTION 'This slot has already been filled' USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.job_assignments (
+    job_id, shift_id, user_id, job_required_role_id, assigned_at, assigned_by, status, eligibility_override_by_user_id
+  )
+  VALUES (
+    target.job_id, target.shift_id, p_user_id, target.job_required_role_id, NOW(),
+    target.offered_by_user_id, 'assigned', target.eligibility_override_by_user_id
+  )
+  RETURNING id INTO new_assignment_id;
+
+  UPDATE public.job_assignment_offers o
+  SET status = 'accepted', responded_at = NOW(), response_channel = p_channel, job_assignment_id = new_assignment_id
+  WHERE o.id = p_offer_id
+  RETURNING * INTO updated_offer;
+
+  -- They're booked now, so they no longer need to wait on standby for the role
+  DELETE FROM public.job_standby_entries e
+  WHERE e.job_required_role_id = target.job_required_role_id
+    AND e.user_id = p_user_id;
+
+  RETURN updated_offer;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.internal_respond_to_assignment_offer(UUID, UUID, BOOLEAN, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.internal_respond_to_assignment_offer(UUID, UUID, BOOLEAN, TEXT) TO service_role;
+
+-- ============================
+-- RPC: respond_to_assignment_offer
+-- Accepts or declines the current user's open offer from the app
+-- ============================
+CREATE OR REPLACE FUNCTION public.respond_to_assignment_offer(
+  p_offer_id UUID,
+  p_accept BOOLEAN
+)
+RETURNS public.job_assignment_offers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN public.internal_respond_to_assignment_offer(p_offer_id, auth.uid(), p_accept, 'app');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.respond_to_assignment_offer(UUID, BOOLEAN) TO authenticated;
+
+-- ============================
+-- RLS: job_assignment_offers
+-- Managers manage their org's offers; employees see their own and answer
+-- them only through respond_to_assignment_offer
+-- ============================
+ALTER TABLE public.job_assignment_offers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org Admins/Managers can manage job_assignment_offers in their active org" ON public.job_assignment_offers;
+DROP POLICY IF EXISTS "Employees can view their own job_assignment_offers" ON public.job_assignment_offers;
+DROP POLICY IF EXISTS "Service role full access on job_assignment_offers" ON public.job_assignment_offers;
+
+CREATE POLICY "Org Admins/Managers can manage job_assignment_offers in their active org"
+ON public.job_assignment_offers
+FOR ALL
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(job_assignment_offers.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+)
+WITH CHECK (
+  internal_get_text_org_id_from_uuid(job_assignment_offers.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Employees can view their own job_assignment_offers"
+ON public.job_assignment_offers
+FOR SELECT
+TO authenticated
+USING (
+  job_assignment_offers.user_id = auth.uid() AND
+  internal_get_text_org_id_from_uuid(job_assignment_offers.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+);
+
+CREATE POLICY "Service role full access on job_assignment_offers"
+ON public.job_assignment_offers
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
@@ -0,0 +1,482 @@
+-- Migration: Shift swaps. Employees post an assignment they want to give away
+-- or swap, another eligible employee claims it, and a manager approves. The
+-- assignment then moves to the claimant in one transaction (for a swap, the
+-- claimant's offered assignment moves the other way), along with the job's
+-- group chat membership.
+
+-- ============================
+-- Table: shift_swap_posts
+-- An assignment put up by the employee working it. 'open' until someone
+-- claims it, then 'claimed' until a manager approves or rejects. The poster
+-- can cancel at any point before approval; a claimant who backs out reopens it.
+-- ============================
+CREATE TABLE IF NOT EXISTS public.shift_swap_posts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.orgs(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  job_required_role_id UUID NOT NULL REFERENCES public.job_required_roles(id) ON DELETE CASCADE,
+  job_assignment_id UUID NOT NULL REFERENCES public.job_assignments(id) ON DELETE CASCADE,
+  posted_by_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('swap', 'giveaway')), -- A swap wants one of the claimant's shifts in return
+  note TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'claimed', 'approved', 'rejected', 'cancelled')),
+  claimed_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  claimed_assignment_id UUID REFERENCES public.job_assignments(id) ON DELETE SET NULL, -- Swaps only: the claimant's shift the poster takes
+  claimed_at TIMESTAMPTZ,
+  reviewed_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  review_note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS shift_swap_posts_org_status_idx ON public.shift_swap_posts(org_id, status);
+CREATE INDEX IF NOT EXISTS shift_swap_posts_posted_by_idx ON public.shift_swap_posts(posted_by_user_id);
+CREATE INDEX IF NOT EXISTS shift_swap_posts_claimed_by_idx ON public.shift_swap_posts(claimed_by_user_id);
+
+-- An assignment can only be up for swap once at a time
+CREATE UNIQUE INDEX IF NOT EXISTS shift_swap_posts_live_assignment_idx
+ON public.shift_swap_posts(job_assignment_id)
+WHERE status IN ('open', 'claimed');
+
+-- ...and only offered in return for one swap at a time
+CREATE UNIQUE INDEX IF NOT EXISTS shift_swap_posts_live_claimed_assignment_idx
+ON public.shift_swap_posts(claimed_assignment_id)
+WHERE status = 'claimed';
+
+-- ============================
+-- Helper: the start of an assignment's shift, or of its job for assignments
+-- without a shift
+-- ============================
+CREATE OR REPLACE FUNCTION public.internal_get_assignment_start_time(p_assignment_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(s.start_time, j.start_time)
+  FROM public.job_assignments a
+  JOIN public.jobs j ON j.id = a.job_id
+  LEFT JOIN public.job_shifts s ON s.id = a.shift_id
+  WHERE a.id = p_assignment_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.internal_get_assignment_start_time(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.internal_get_assignment_start_time(UUID) TO service_role;
+
+-- ============================
+-- Helper: move an employee's place in a job's group chats to another
+-- employee. The outgoing employee stays if they still work another role on
+-- the job, and a chat's creator is never removed from it.
+-- ============================
+CREATE OR REPLACE FUNCTION public.internal_move_job_chat_membership(
+  p_job_id UUID,
+  p_from_user_id UUID,
+  p_to_user_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.group_chat_participants (group_chat_id, user_id)
+  SELECT gc.group_chat_id, p_to_user_id
+  FROM public.group_chats gc
+  WHERE gc.job_id = p_job_id
+    AND EXISTS (
+      SELECT 1 FROM public.group_chat_participants gcp
+      WHERE gcp.group_chat_id = gc.group_chat_id AND gcp.user_id = p_from_user_id
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.group_chat_participants gcp
+      WHERE gcp.group_chat_id = gc.group_chat_id AND gcp.user_id = p_to_user_id
+    );
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.job_assignments a
+    WHERE a.job_id = p_job_id
+      AND a.user_id = p_from_user_id
+      AND a.status IS DISTINCT FROM 'declined'
+  ) THEN
+    DELETE FROM public.group_chat_participants gcp
+    USING public.group_chats gc
+    WHERE gcp.group_chat_id = gc.group_chat_id
+      AND gc.job_id = p_job_id
+      AND gcp.user_id = p_from_user_id
+      AND gc.created_by IS DISTINCT FROM p_from_user_id;
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.internal_move_job_chat_membership(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.internal_move_job_chat_membership(UUID, UUID, UUID) TO service_role;
+
+-- ============================
+-- RPC: claim_shift_swap
+-- Claims an open post for the current user. A swap needs one of their own
+-- upcoming assignments to give the poster in return. The app checks
+-- qualifications and clashes before calling this.
+-- ============================
+CREATE OR REPLACE FUNCTION public.claim_shift_swap(
+  p_post_id UUID,
+  p_offered_assignment_id UUID DEFAULT NULL
+)
+RETURNS public.shift_swap_posts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.shift_swap_posts;
+  offered RECORD;
+  updated_post public.shift_swap_posts;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT p.* INTO target
+  FROM public.shift_swap_posts p
+  WHERE p.id = p_post_id
+    AND internal_get_text_org_id_from_uuid(p.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target.posted_by_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You can''t claim your own shift' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF target.status = 'claimed' THEN
+    RAISE EXCEPTION 'Someone has already claimed this shift' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF target.status <> 'open' OR NOT EXISTS (
+    SELECT 1 FROM public.job_assignments a
+    WHERE a.id = target.job_assignment_id
+      AND a.user_id = target.posted_by_user_id
+      AND a.status IS DISTINCT FROM 'declined'
+  ) OR internal_get_assignment_start_time(target.job_assignment_id) <= NOW() THEN
+    RAISE EXCEPTION 'This shift is no longer up for grabs' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.job_assignments a
+    WHERE a.job_required_role_id = target.job_required_role_id
+      AND a.user_id = auth.uid()
+      AND a.status IS DISTINCT FROM 'declined'
+  ) THEN
+    RAISE EXCEPTION 'You''re already working this role' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF target.kind = 'swap' THEN
+    IF p_offered_assignment_id IS NULL THEN
+      RAISE EXCEPTION 'Choose one of your shifts to swap' USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT a.* INTO offered
+    FROM public.job_assignments a
+    WHERE a.id = p_offered_assignment_id
+      AND a.user_id = auth.uid()
+      AND a.status IS DISTINCT FROM 'declined';
+
+    IF NOT FOUND OR internal_get_assignment_start_time(p_offered_assignment_id) <= NOW() THEN
+      RAISE EXCEPTION 'Choose one of your upcoming shifts to swap' USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.job_assignments a
+      WHERE a.job_required_role_id = offered.job_required_role_id
+        AND a.user_id = target.posted_by_user_id
+        AND a.status IS DISTINCT FROM 'declined'
+    ) THEN
+      RAISE EXCEPTION 'They''re already working the shift you offered' USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  UPDATE public.shift_swap_posts p
+  SET status = 'claimed',
+      claimed_by_user_id = auth.uid(),
+      claimed_assignment_id = CASE WHEN target.kind = 'swap' THEN p_offered_assignment_id END,
+      claimed_at = NOW()
+  WHERE p.id = p_post_id
+  RETURNING * INTO updated_post;
+
+  RETURN updated_post;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.claim_shift_swap(UUID, UUID) TO authenticated;
+
+-- ============================
+-- RPC: withdraw_from_shift_swap
+-- The poster cancels their post, or the claimant backs out and the post
+-- reopens. Approved and rejected posts can't be changed.
+-- ============================
+CREATE OR REPLACE FUNCTION public.withdraw_from_shift_swap(p_post_id UUID)
+RETURNS public.shift_swap_posts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.shift_swap_posts;
+  updated_post public.shift_swap_posts;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT p.* INTO target
+  FROM public.shift_swap_posts p
+  WHERE p.id = p_post_id
+    AND (p.posted_by_user_id = auth.uid() OR p.claimed_by_user_id = auth.uid())
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target.status NOT IN ('open', 'claimed') THEN
+    RAISE EXCEPTION 'This swap has already been decided' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF target.posted_by_user_id = auth.uid() THEN
+    UPDATE public.shift_swap_posts p
+    SET status = 'cancelled'
+    WHERE p.id = p_post_id
+    RETURNING * INTO updated_post;
+  ELSE
+    UPDATE public.shift_swap_posts p
+    SET status = 'open', claimed_by_user_id = NULL, claimed_assignment_id = NULL, claimed_at = NULL
+    WHERE p.id = p_post_id
+    RETURNING * INTO updated_post;
+  END IF;
+
+  RETURN updated_post;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.withdraw_from_shift_swap(UUID) TO authenticated;
+
+-- ============================
+-- RPC: approve_shift_swap
+-- A manager approves a claimed post. The assignment moves to the claimant
+-- (and, for a swap, the claimant's offered assignment to the poster), with
+-- their places in the jobs' group chats. Both must still hold the shifts
+-- they're giving up, and neither shift may have started. The app checks
+-- qualifications and clashes again before calling this.
+-- ============================
+CREATE OR REPLACE FUNCTION public.approve_shift_swap(p_post_id UUID)
+RETURNS public.shift_swap_posts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.shift_swap_posts;
+  posted RECORD;
+  offered RECORD;
+  moved_ids UUID[];
+  updated_post public.shift_swap_posts;
+BEGIN
+  SELECT p.* INTO target
+  FROM public.shift_swap_posts p
+  WHERE p.id = p_post_id
+    AND internal_get_text_org_id_from_uuid(p.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+    AND EXISTS (
+      SELECT 1 FROM public.user_organization_memberships uom
+      WHERE uom.user_id = auth.uid()
+        AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+        AND uom.role IN ('admin', 'manager')
+    )
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Swap not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target.status <> 'claimed' OR target.claimed_by_user_id IS NULL THEN
+    RAISE EXCEPTION 'This swap isn''t waiting for approval' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT a.* INTO posted
+  FROM public.job_assignments a
+  WHERE a.id = target.job_assignment_id
+    AND a.user_id = target.posted_by_user_id
+    AND a.status IS DISTINCT FROM 'declined'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The poster no longer works this shift' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF internal_get_assignment_start_time(posted.id) <= NOW() THEN
+    RAISE EXCEPTION 'This shift has already started' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF target.kind = 'swap' THEN
+    SELECT a.* INTO offered
+    FROM public.job_assignments a
+    WHERE a.id = target.claimed_assignment_id
+      AND a.user_id = target.claimed_by_user_id
+      AND a.status IS DISTINCT FROM 'declined'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The claimant no longer works the shift they offered' USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF internal_get_assignment_start_time(offered.id) <= NOW() THEN
+      RAISE EXCEPTION 'The shift offered in return has already started' USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  moved_ids := ARRAY_REMOVE(ARRAY[posted.id, target.claimed_assignment_id], NULL);
+
+  IF EXISTS (
+    SELECT 1 FROM public.drop_requests d
+    WHERE d.job_assignment_id = ANY(moved_ids)
+      AND d.status IN ('pending', 'escalated')
+  ) THEN
+    RAISE EXCEPTION 'Resolve the open drop request for this shift first' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.job_assignments a
+    WHERE a.job_required_role_id = posted.job_required_role_id
+      AND a.user_id = target.claimed_by_user_id
+      AND a.id <> posted.id
+      AND a.status IS DISTINCT FROM 'declined'
+  ) THEN
+    RAISE EXCEPTION 'The claimant is already working this role' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.job_assignments a
+  SET user_id = target.claimed_by_user_id, eligibility_override_by_user_id = NULL
+  WHERE a.id = posted.id;
+
+  IF target.kind = 'swap' THEN
+    UPDATE public.job_assignments a
+    SET user_id = target.posted_by_user_id, eligibility_override_by_user_id = NULL
+    WHERE a.id = offered.id;
+  END IF;
+
+  PERFORM internal_move_job_chat_membership(posted.job_id, target.posted_by_user_id, target.claimed_by_user_id);
+  IF target.kind = 'swap' THEN
+    PERFORM internal_move_job_chat_membership(offered.job_id, target.claimed_by_user_id, target.posted_by_user_id);
+  END IF;
+
+  -- They're booked now, so they no longer need to wait on standby for the role
+  DELETE FROM public.job_standby_entries e
+  WHERE e.job_required_role_id = posted.job_required_role_id
+    AND e.user_id = target.claimed_by_user_id;
+  -- offered is only set for swaps; reading it on a giveaway raises an error
+  IF target.kind = 'swap' THEN
+    DELETE FROM public.job_standby_entries e
+    WHERE e.job_required_role_id = offered.job_required_role_id
+      AND e.user_id = target.posted_by_user_id;
+  END IF;
+
+  UPDATE public.shift_swap_posts p
+  SET status = 'approved', reviewed_by_user_id = auth.uid(), reviewed_at = NOW()
+  WHERE p.id = p_post_id
+  RETURNING * INTO updated_post;
+
+  -- Other posts of the moved shifts were made by their old owner, and other
+  -- claims offering them can no longer be kept
+  UPDATE public.shift_swap_posts p
+  SET status = 'cancelled'
+  WHERE p.job_assignment_id = ANY(moved_ids)
+    AND p.id <> p_post_id
+    AND p.status IN ('open', 'claimed');
+
+  UPDATE public.shift_swap_posts p
+  SET status = 'open', claimed_by_user_id = NULL, claimed_assignment_id = NULL, claimed_at = NULL
+  WHERE p.claimed_assignment_id = ANY(moved_ids)
+    AND p.id <> p_post_id
+    AND p.status = 'claimed';
+
+  RETURN updated_post;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.approve_shift_swap(UUID) TO authenticated;
+
+-- ============================
+-- RLS: shift_swap_posts
+-- Managers manage their org's posts. Employees see open posts in their org
+-- and the ones they posted or claimed, and post their own assignments;
+-- claiming and withdrawing go through the functions above.
+-- ============================
+ALTER TABLE public.shift_swap_posts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org Admins/Managers can manage shift_swap_posts in their active org" ON public.shift_swap_posts;
+DROP POLICY IF EXISTS "Employees can view open and their own shift_swap_posts" ON public.shift_swap_posts;
+DROP POLICY IF EXISTS "Employees can post their own assignments to shift_swap_posts" ON public.shift_swap_posts;
+DROP POLICY IF EXISTS "Service role full access on shift_swap_posts" ON public.shift_swap_posts;
+
+CREATE POLICY "Org Admins/Managers can manage shift_swap_posts in their active org"
+ON public.shift_swap_posts
+FOR ALL
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(shift_swap_posts.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+)
+WITH CHECK (
+  internal_get_text_org_id_from_uuid(shift_swap_posts.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.user_organization_memberships uom
+    WHERE uom.user_id = auth.uid()
+      AND uom.organization_id = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT
+      AND uom.role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY "Employees can view open and their own shift_swap_posts"
+ON public.shift_swap_posts
+FOR SELECT
+TO authenticated
+USING (
+  internal_get_text_org_id_from_uuid(shift_swap_posts.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  (
+    shift_swap_posts.status = 'open' OR
+    shift_swap_posts.posted_by_user_id = auth.uid() OR
+    shift_swap_posts.claimed_by_user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Employees can post their own assignments to shift_swap_posts"
+ON public.shift_swap_posts
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  shift_swap_posts.posted_by_user_id = auth.uid() AND
+  shift_swap_posts.status = 'open' AND
+  shift_swap_posts.claimed_by_user_id IS NULL AND
+  internal_get_text_org_id_from_uuid(shift_swap_posts.org_id) = (auth.jwt()->'app_metadata'->>'active_org_id')::TEXT AND
+  EXISTS (
+    SELECT 1 FROM public.job_assignments a
+    WHERE a.id = shift_swap_posts.job_assignment_id
+      AND a.user_id = auth.uid()
+      AND a.job_id = shift_swap_posts.job_id
+      AND a.job_required_role_id = shift_swap_posts.job_required_role_id
+      AND a.status IS DISTINCT FROM 'declined'
+  )
+);
+
+CREATE POLICY "Service role full access on shift_swap_posts"
+ON public.shift_swap_posts
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
@@ -0,0 +1,90 @@
+-- Migration: Calendar events follow an assignment to its new owner.
+-- An approved shift swap moves a job_assignments row to another employee by
+-- changing its user_id. The calendar trigger ignored that, so the old owner's
+-- feed kept the event and the new owner's never got it. Events are now kept
+-- per assignment and employee: the old owner's row is cancelled so their feed
+-- publishes the cancellation, and the new owner gets a row of their own.
+
+-- ============================
+-- Table: assignment_calendar_events
+-- One row per assignment and employee who has had it in their feed
+-- ============================
+ALTER TABLE public.assignment_calendar_events
+DROP CONSTRAINT IF EXISTS assignment_calendar_events_pkey;
+
+ALTER TABLE public.assignment_calendar_events
+ADD CONSTRAINT assignment_calendar_events_pkey PRIMARY KEY (assignment_id, user_id);
+
+-- Repair assignments that already changed hands: cancel the old owner's
+-- event and give the current owner one
+UPDATE public.assignment_calendar_events e
+SET sequence = e.sequence + 1,
+    cancelled_at = COALESCE(e.cancelled_at, NOW()),
+    updated_at = NOW()
+FROM public.job_assignments a
+WHERE a.id = e.assignment_id
+  AND a.user_id IS DISTINCT FROM e.user_id;
+
+INSERT INTO public.assignment_calendar_events (assignment_id, user_id, job_id, cancelled_at)
+SELECT a.id, a.user_id, a.job_id, CASE WHEN a.status = 'declined' THEN NOW() END
+FROM public.job_assignments a
+WHERE a.user_id IS NOT NULL
+ON CONFLICT (assignment_id, user_id) DO NOTHING;
+
+-- ============================
+-- Trigger: assignment created, changed, moved or dropped
+-- ============================
+CREATE OR REPLACE FUNCTION sync_assignment_calendar_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    UPDATE public.assignment_calendar_events
+    SET sequence = sequence + 1,
+        cancelled_at = NOW(),
+        updated_at = NOW()
+    WHERE assignment_id = OLD.id
+      AND user_id = OLD.user_id;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.assignment_calendar_events (assignment_id, user_id, job_id)
+    VALUES (NEW.id, NEW.user_id, NEW.job_id)
+    ON CONFLICT (assignment_id, user_id) DO NOTHING;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    -- The old owner's calendar drops the event...
+    UPDATE public.assignment_calendar_events
+    SET sequence = sequence + 1,
+        cancelled_at = NOW(),
+        updated_at = NOW()
+    WHERE assignment_id = OLD.id
+      AND user_id = OLD.user_id;
+
+    -- ...and the new owner's gains it, or gets it back if they held it before
+    INSERT INTO public.assignment_calendar_events AS e (assignment_id, user_id, job_id, cancelled_at)
+    VALUES (NEW.id, NEW.user_id, NEW.job_id, CASE WHEN NEW.status = 'declined' THEN NOW() END)
+    ON CONFLICT (assignment_id, user_id) DO UPDATE
+    SET sequence = e.sequence + 1,
+        cancelled_at = EXCLUDED.cancelled_at,
+        updated_at = NOW();
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.shift_id IS DISTINCT FROM OLD.shift_id
+    OR NEW.job_required_role_id IS DISTINCT FROM OLD.job_required_role_id
+    OR NEW.status IS DISTINCT FROM OLD.status THEN
+    UPDATE public.assignment_calendar_events
+    SET sequence = sequence + 1,
+        cancelled_at = CASE WHEN NEW.status = 'declined' THEN NOW() ELSE NULL END,
+        updated_at = NOW()
+    WHERE assignment_id = NEW.id
+      AND user_id = NEW.user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
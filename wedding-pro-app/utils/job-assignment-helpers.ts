@@ -1,5 +1,8 @@
 import { createClient } from "@/utils/supabase/server";
+import { SupabaseClient } from "@supabase/supabase-js";
 import { InterestedEmployee, SortOption } from "@/app/job-assignment-actions";
+import { transitionJobStatus } from "@/app/actions/jobs/utils";
+import { compareByFairness } from "@/app/actions/fairness/client-utils";
 
 /**
  * Helper function to get employee's address or fall back to organization's address
@@ -64,6 +67,32 @@ export async function calculateDistance(origin: string, destination: string): Pr
   }
 }
 
+/**
+ * Helper function to calculate the drive time in minutes between two addresses using Google Maps API
+ */
+export async function calculateDriveMinutes(origin: string, destination: string): Promise<number | null> {
+  try {
+    // Call Google Maps Distance Matrix API
+    const apiKey = process.env.GOOGLE_MAPS_API_KEY;
+    const url = `https://maps.googleapis.com/maps/api/distancematrix/json?origins=${encodeURIComponent(origin)}&destinations=${encodeURIComponent(destination)}&key=${apiKey}`;
+
+    const response = await fetch(url);
+    const data = await response.json();
+
+    // Check if we got a valid response
+    if (data.status !== 'OK' || !data.rows[0]?.elements[0]?.duration) {
+      console.error("Error from Google Maps API:", data);
+      return null;
+    }
+
+    // API returns seconds; round up to whole minutes
+    return Math.ceil(data.rows[0].elements[0].duration.value / 60);
+  } catch (error) {
+    console.error("Error calculating drive time:", error);
+    return null;
+  }
+}
+
 /**
  * Helper function to get the last assignment date for an employee
  */
@@ -158,6 +187,14 @@ export function sortEmployees(employees: InterestedEmployee[], sortOption: SortO
         // Sort by interest date (descending - newest first)
         return new Date(b.expressed_at).getTime() - new Date(a.expressed_at).getTime();
         
+      case 'fairness_desc':
+        // Sort by fairness (most overlooked first - lowest share of wanted jobs booked)
+        // Employees without fairness figures come last
+        if (!a.fairness && !b.fairness) return 0;
+        if (!a.fairness) return 1;
+        if (!b.fairness) return -1;
+        return compareByFairness(a.fairness, b.fairness);
+        
       default:
         // Default to sorting by interest date (ascending)
         return new Date(a.expressed_at).getTime() - new Date(b.expressed_at).getTime();
@@ -166,10 +203,15 @@ export function sortEmployees(employees: InterestedEmployee[], sortOption: SortO
 }
 
 /**
- * Helper function to update job status if all required roles are filled
+ * Helper function to move a job to 'upcoming' once all required roles are filled.
+ * Pass `supabase` and `changedByUserId` when the current user can't update jobs
+ * themselves, e.g. an employee accepting a standby offer.
  */
-export async function updateJobStatusIfAllRolesFilled(jobId: string): Promise<void> {
-  const supabase = await createClient();
+export async function updateJobStatusIfAllRolesFilled(
+  jobId: string,
+  options: { supabase?: SupabaseClient; changedByUserId?: string } = {}
+): Promise<void> {
+  const supabase = options.supabase || await createClient();
   
   // Get job required roles and their quantity needed
   const { data: jobRequiredRoles, error: rolesError } = await supabase
@@ -204,16 +246,26 @@ export async function updateJobStatusIfAllRolesFilled(jobId: string): Promise<vo
     }
   }
   
-  // Update job status if all roles are filled
+  // Move an open job to 'upcoming' once every role is filled
   if (allRolesFilled) {
-    const { error: updateError } = await supabase
+    const { data: job } = await supabase
       .from('jobs')
-      .update({ status: 'upcoming' })
+      .select('status')
       .eq('id', jobId)
-      .eq('status', 'available'); // Only update if current status is 'available'
+      .single();
+    
+    if (job?.status !== 'available') {
+      return;
+    }
+    
+    const changedByUserId = options.changedByUserId ?? (await supabase.auth.getUser()).data.user?.id;
+    const { success, error: updateError } = await transitionJobStatus(supabase, jobId, 'upcoming', {
+      changedByUserId: changedByUserId || '',
+      reason: 'All required roles filled'
+    });
     
-    if (updateError) {
+    if (!success) {
       console.error("Error updating job status:", updateError);
     }
   }
-}
\ No newline at end of file
+}
@@ -29,11 +29,31 @@ export type NotificationResult = {
 export type NotificationEventType =
   | 'job_assignment'          // When a user is assigned to a job
   | 'job_completed'           // When a job is marked as complete
+  | 'job_status_changed'      // When a job moves to another lifecycle status
+  | 'job_cancelled'           // When a job is cancelled and its staff released
+  | 'job_updated'             // When a job's details change, with what changed
+  | 'job_reminder'            // Before an assigned shift starts, with the run-of-show
   | 'drop_request_created'    // When a drop request is created
   | 'drop_request_approved'   // When a drop request is approved
   | 'drop_request_rejected'   // When a drop request is rejected
   | 'job_interest_expressed'  // When an employee expresses interest in a job
   | 'job_interest_withdrawn'  // When an employee withdraws interest in a job
+  | 'expense_claim_submitted' // When an employee submits an expense claim
+  | 'expense_claim_reviewed'  // When an expense claim is approved or rejected
+  | 'certification_expiring'  // When an employee's certification is about to expire
+  | 'standby_added'           // When an employee is put on a role's standby list
+  | 'standby_offer'           // When an open slot is offered to a standby
+  | 'standby_offer_expired'   // When a standby doesn't answer an offer in time
+  | 'standby_offer_closed'    // When a standby offer is accepted, declined or expires (to managers)
+  | 'standby_list_exhausted'  // When nobody left on standby can take an open slot
+  | 'assignment_offer'           // When a manager offers an employee a role to accept or decline
+  | 'assignment_offer_expired'   // When an employee doesn't answer an assignment offer in time
+  | 'assignment_offer_withdrawn' // When a manager withdraws an assignment offer
+  | 'assignment_offer_closed'    // When an assignment offer is accepted, declined or expires (to managers)
+  | 'shift_swap_claimed'      // When an employee claims a posted shift (to the poster and managers)
+  | 'shift_swap_approved'     // When a manager approves a shift swap
+  | 'shift_swap_rejected'     // When a manager rejects a shift swap
+  | 'shift_swap_withdrawn'    // When a claimed shift's poster cancels or its claimant backs out
   | 'user_approved'           // When a user's account is approved
   | 'user_rejected'           // When a user's account is rejected
   | 'org_announcement';       // When an organization makes an announcement
@@ -47,6 +67,7 @@ export type NotificationEvent = {
   title: string;
   body: string;
   metadata?: Record<string, any>;
+  channelBodies?: Partial<Record<NotificationChannel, string>>; // Replaces `body` on those channels, e.g. email links or SMS reply instructions
 };
 
 /**
@@ -641,7 +662,7 @@ export class NotificationService {
    * and event type, then sends the notification.
    */
   async sendNotificationForEvent(event: NotificationEvent): Promise<NotificationResult[]> {
-    const { eventType, userId, title, body, metadata } = event;
+    const { eventType, userId, title, body, metadata, channelBodies } = event;
     const results: NotificationResult[] = [];
 
     // Get logger
@@ -687,7 +708,7 @@ export class NotificationService {
       }
 
       const channelPromises = channels.map(async (channel) => {
-        const formattedMessage = this.formatMessageForChannel(channel, title, body);
+        const formattedMessage = this.formatMessageForChannel(channel, title, channelBodies?.[channel] ?? body);
         return this.sendNotification({
           userId,
           title: formattedMessage.title,
@@ -47,6 +47,10 @@ export const updateSession = async (request: NextRequest) => {
       "/forgot-password", // Assuming this is a public path
       "/smtp-message",    // Assuming this is a generic message page
       "/select-organization", // This page must be accessible to select an org
+      "/api/calendar/", // Calendar feeds are fetched by calendar apps; the URL token is the credential
+      "/api/cron/", // Scheduled jobs authenticate with CRON_SECRET
+      "/api/assignment-offers/", // Offer email links; the URL token is the credential
+      "/api/twilio/", // Twilio webhooks are signed with TWILIO_AUTH_TOKEN
       // Add any other public API routes or static asset paths if necessary
     ];
 
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { checkTurnaround, formatMinutes, getGapMinutes } from './timeUtils';
+
+const ceremony = { start_time: '2025-06-21T14:00:00Z', end_time: '2025-06-21T16:00:00Z' };
+const reception = { start_time: '2025-06-21T16:15:00Z', end_time: '2025-06-21T23:00:00Z' };
+
+describe('turnaround checks', () => {
+  it('should measure the gap either way round, and none when overlapping', () => {
+    expect(getGapMinutes(ceremony, reception)).toBe(15);
+    expect(getGapMinutes(reception, ceremony)).toBe(15);
+    expect(getGapMinutes(ceremony, { ...reception, start_time: '2025-06-21T15:00:00Z' })).toBeNull();
+  });
+
+  it('should flag a back-to-back job two hours away as a hard conflict', () => {
+    const check = checkTurnaround(ceremony, reception, { travelMinutes: 120, bufferMinutes: 30 });
+
+    expect(check.severity).toBe('conflict');
+    expect(check.requiredMinutes).toBe(150);
+    expect(check.message).toBe('Only 15 min between jobs, needs 2 hr drive and 30 min setup/teardown');
+  });
+
+  it('should flag turnarounds with little to spare as tight', () => {
+    const later = { start_time: '2025-06-21T17:00:00Z', end_time: '2025-06-21T23:00:00Z' };
+
+    expect(checkTurnaround(ceremony, later, { travelMinutes: 20, bufferMinutes: 30 }))
+      .toMatchObject({ severity: 'tight', message: 'Tight turnaround: 1 hr between jobs for 20 min drive and 30 min setup/teardown' });
+    expect(checkTurnaround(ceremony, later, { travelMinutes: 0, bufferMinutes: 15 }).severity).toBe('ok');
+    expect(checkTurnaround(ceremony, later, { travelMinutes: null, bufferMinutes: 45 }).message)
+      .toBe('Tight turnaround: 1 hr between jobs for 45 min setup/teardown');
+  });
+
+  it('should format minutes as hours and minutes', () => {
+    expect(formatMinutes(45)).toBe('45 min');
+    expect(formatMinutes(120)).toBe('2 hr');
+    expect(formatMinutes(130)).toBe('2 hr 10 min');
+  });
+});
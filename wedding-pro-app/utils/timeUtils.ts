@@ -13,4 +13,101 @@ export function hasTimeConflict(
   const startB = new Date(event2StartTime).getTime();
   const endB = new Date(event2EndTime).getTime();
   return startA < endB && startB < endA;
-}
\ No newline at end of file
+}
+
+/**
+ * How a booking fits around another: a hard conflict (they overlap, or there
+ * isn't time to pack down and drive between them), a tight turnaround (it
+ * fits, but with less than TIGHT_TURNAROUND_MINUTES to spare) or fine
+ */
+export type TurnaroundSeverity = 'conflict' | 'tight' | 'ok';
+
+export type TurnaroundCheck = {
+  severity: TurnaroundSeverity;
+  gapMinutes: number | null; // Between the first ending and the second starting; null when they overlap
+  requiredMinutes: number; // Drive time plus the setup/teardown buffer
+  message: string | null; // Null when fine
+};
+
+/**
+ * Spare time under which a turnaround that fits is still flagged as tight
+ */
+export const TIGHT_TURNAROUND_MINUTES = 30;
+
+/**
+ * Bookings further apart than this are fine without looking up drive times
+ */
+export const TRAVEL_CHECK_WINDOW_MINUTES = 8 * 60;
+
+/**
+ * Format a number of minutes as e.g. "45 min" or "2 hr 10 min"
+ */
+export function formatMinutes(minutes: number): string {
+  const rounded = Math.max(0, Math.round(minutes));
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} hr` : `${hours} hr ${rest} min`;
+}
+
+/**
+ * Minutes between the end of the earlier interval and the start of the later
+ * one, or null if they overlap
+ */
+export function getGapMinutes(
+  event1: { start_time: string; end_time: string },
+  event2: { start_time: string; end_time: string }
+): number | null {
+  if (hasTimeConflict(event1.start_time, event1.end_time, event2.start_time, event2.end_time)) {
+    return null;
+  }
+
+  const [first, second] = new Date(event1.start_time).getTime() <= new Date(event2.start_time).getTime()
+    ? [event1, event2]
+    : [event2, event1];
+  return (new Date(second.start_time).getTime() - new Date(first.end_time).getTime()) / 60000;
+}
+
+/**
+ * Check whether someone can work both intervals, allowing for the drive
+ * between their venues and the org's setup/teardown buffer.
+ * `travelMinutes` is null when the drive time is unknown, in which case only
+ * the buffer is allowed for.
+ */
+export function checkTurnaround(
+  event1: { start_time: string; end_time: string },
+  event2: { start_time: string; end_time: string },
+  options: { travelMinutes: number | null; bufferMinutes: number }
+): TurnaroundCheck {
+  const travel = options.travelMinutes ?? 0;
+  const requiredMinutes = travel + options.bufferMinutes;
+  const gapMinutes = getGapMinutes(event1, event2);
+
+  if (gapMinutes === null) {
+    return { severity: 'conflict', gapMinutes, requiredMinutes, message: 'Time conflict with another job' };
+  }
+
+  const needs = options.travelMinutes
+    ? `${formatMinutes(travel)} drive and ${formatMinutes(options.bufferMinutes)} setup/teardown`
+    : `${formatMinutes(options.bufferMinutes)} setup/teardown`;
+
+  if (gapMinutes < requiredMinutes) {
+    return {
+      severity: 'conflict',
+      gapMinutes,
+      requiredMinutes,
+      message: `Only ${formatMinutes(gapMinutes)} between jobs, needs ${needs}`
+    };
+  }
+
+  if (gapMinutes < requiredMinutes + TIGHT_TURNAROUND_MINUTES) {
+    return {
+      severity: 'tight',
+      gapMinutes,
+      requiredMinutes,
+      message: `Tight turnaround: ${formatMinutes(gapMinutes)} between jobs for ${needs}`
+    };
+  }
+
+  return { severity: 'ok', gapMinutes, requiredMinutes, message: null };
+}